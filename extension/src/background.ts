@@ -2,7 +2,20 @@
  * Extension background service worker
  * Handles native messaging, content script relay, and tab management
  */
-import type { RequestMessage, ResponseMessage } from '@shared/index';
+import type {
+  DebugAction,
+  MacroBreakpoint,
+  RequestMessage,
+  ResponseMessage,
+  RunHistoryFilter,
+  RunSummary,
+} from '@shared/index';
+import type {
+  BrowserCookie,
+  MockResponseSpec,
+  WebStorageAction,
+  WebStorageArea,
+} from '@shared/commands/browser';
 
 // Inlined to avoid @shared chunk import — MV3 service workers can't use ESM chunk imports
 function createMessageId(): string {
@@ -19,12 +32,29 @@ import {
   handleRestorePopupSettings,
   handleSetProxy,
   handleRestoreProxy,
+  handleNetCapture,
+  handleSetHeader,
+  handleMock,
   setAuthCredentials,
   clearAuthCredentials,
   getAuthCredentials,
   disableAllFilters,
   getFilterState,
 } from './background/web-request-handlers';
+import { handleCookies, handleWebStorage } from './background/session-handlers';
+import {
+  initScheduler,
+  setScheduledMacroRunner,
+  setSchedulerChangeListener,
+  getSchedules,
+  saveScheduledJob,
+  deleteScheduledJob,
+  runScheduledJobNow,
+  clearRunHistory,
+  type ScheduledJob,
+  type ScheduledJobInput,
+  type ScheduledRunOutcome,
+} from './background/scheduler';
 
 const NATIVE_HOST_NAME = 'com.imacros.nativehost';
 const RECONNECT_DELAY_MS = 1000;
@@ -94,6 +124,12 @@ let currentFrameContext: CurrentFrameContext | null = null;
 let recordedCommands: string[] = [];
 let recordingStartUrl: string | null = null;
 
+// Playback state reported by the native host (STATUS_UPDATE)
+let macroPlaying = false;
+
+// Scheduled run waiting for MACRO_COMPLETE / MACRO_ERROR
+let scheduledRun: { macroPath: string; resolve: (outcome: ScheduledRunOutcome) => void } | null = null;
+
 /**
  * Start keep-alive mechanism for service worker
  */
@@ -168,6 +204,8 @@ function connectToNativeHost(): Promise<chrome.runtime.Port> {
           pending.reject(new Error(`Connection lost: ${error}`));
           pendingRequests.delete(id);
         }
+        macroPlaying = false;
+        finishScheduledRun({ success: false, errorMessage: `Connection lost: ${error}` });
 
         // Attempt reconnection if not at max attempts
         scheduleReconnect();
@@ -348,6 +386,7 @@ async function handleNativeCommand(message: ResponseMessage): Promise<void> {
     // Status updates from native host - relay to panel
     case 'STATUS_UPDATE':
       console.log('[iMacros] Status update from native host:', payload);
+      macroPlaying = payload?.status === 'playing' || payload?.status === 'paused';
       await broadcastToExtensionViews({ type: 'STATUS_UPDATE', payload });
       break;
 
@@ -356,14 +395,32 @@ async function handleNativeCommand(message: ResponseMessage): Promise<void> {
       await broadcastToExtensionViews({ type: 'MACRO_PROGRESS', payload });
       break;
 
+    case 'WORKER_PROGRESS':
+      await broadcastToExtensionViews({ type: 'WORKER_PROGRESS', payload });
+      break;
+
     case 'MACRO_COMPLETE':
       console.log('[iMacros] Macro complete:', payload);
       await broadcastToExtensionViews({ type: 'MACRO_COMPLETE', payload });
+      if (scheduledRun && payload?.macro === scheduledRun.macroPath) {
+        finishScheduledRun({
+          success: payload.success !== false,
+          errorCode: payload.errorCode as number | undefined,
+          errorMessage: payload.errorMessage as string | undefined,
+        });
+      }
       break;
 
     case 'MACRO_ERROR':
       console.log('[iMacros] Macro error:', payload);
       await broadcastToExtensionViews({ type: 'MACRO_ERROR', payload });
+      if (scheduledRun && (payload?.macro === undefined || payload.macro === scheduledRun.macroPath)) {
+        finishScheduledRun({
+          success: false,
+          errorCode: payload?.errorCode as number | undefined,
+          errorMessage: (payload?.errorMessage ?? payload?.error) as string | undefined,
+        });
+      }
       break;
 
     case 'MACRO_PAUSED':
@@ -376,6 +433,11 @@ async function handleNativeCommand(message: ResponseMessage): Promise<void> {
       await broadcastToExtensionViews({ type: 'MACRO_RESUMED', payload });
       break;
 
+    case 'MACRO_DEBUG_PAUSED':
+      console.log('[iMacros] Macro paused in debugger');
+      await broadcastToExtensionViews({ type: 'MACRO_DEBUG_PAUSED', payload });
+      break;
+
     case 'RECORDING_LINE':
       console.log('[iMacros] Recording line:', payload);
       await broadcastToExtensionViews({ type: 'RECORDING_LINE', payload });
@@ -666,6 +728,24 @@ async function handleBrowserCommand(message: ResponseMessage): Promise<void> {
         break;
       }
 
+      // Screenshot of the active tab for the run history (failed runs)
+      case 'captureTab': {
+        const dataUrl = await chrome.tabs.captureVisibleTab({ format: 'png' });
+        result = { success: true, data: { dataUrl } };
+        break;
+      }
+
+      // Content filter commands (FILTER)
+      case 'setFilter': {
+        const { filterType, status, urlPattern, resourceTypes } = params as {
+          filterType: 'IMAGES' | 'FLASH' | 'POPUPS' | 'URL' | 'RESOURCE';
+          status: 'ON' | 'OFF'; urlPattern?: string; resourceTypes?: string[];
+        };
+        console.log(`[iMacros] setFilter: type=${filterType}, status=${status}`);
+        result = await handleSetFilter({ filterType, status, urlPattern, resourceTypes });
+        break;
+      }
+
       // Popup settings commands
       case 'setPopupAllowed': {
         const { primaryPattern } = params as { primaryPattern: string };
@@ -706,6 +786,57 @@ async function handleBrowserCommand(message: ResponseMessage): Promise<void> {
         break;
       }
 
+      // Network capture (NETCAPTURE, WAIT FOR=REQUEST, SAVEAS TYPE=HAR)
+      case 'netCapture': {
+        const { action, urlPattern, timeoutMs } = params as {
+          action: 'start' | 'stop' | 'query' | 'wait' | 'har';
+          urlPattern?: string; timeoutMs?: number;
+        };
+        console.log(`[iMacros] netCapture: action=${action}, url=${urlPattern ?? ''}`);
+        result = await handleNetCapture({ action, urlPattern, timeoutMs });
+        break;
+      }
+
+      case 'setHeader': {
+        const { action, name, value, domains } = params as {
+          action: 'set' | 'strip' | 'off';
+          name?: string; value?: string; domains?: string[];
+        };
+        console.log(`[iMacros] setHeader: action=${action}, name=${name ?? 'all'}`);
+        result = await handleSetHeader({ action, name, value, domains });
+        break;
+      }
+
+      case 'mock': {
+        const { action, mock, urlPattern } = params as {
+          action: 'add' | 'remove' | 'clear' | 'query';
+          mock?: MockResponseSpec; urlPattern?: string;
+        };
+        console.log(`[iMacros] mock: action=${action}, url=${mock?.urlPattern ?? urlPattern ?? ''}`);
+        result = await handleMock({ action, mock, urlPattern, tabId: targetTabId });
+        break;
+      }
+
+      case 'cookies': {
+        const { action, domain, cookies } = params as {
+          action: 'export' | 'import';
+          domain?: string; cookies?: BrowserCookie[];
+        };
+        console.log(`[iMacros] cookies: action=${action}, domain=${domain ?? ''}`);
+        result = await handleCookies({ action, domain, cookies });
+        break;
+      }
+
+      case 'webStorage': {
+        const { action, area, key, value, items } = params as {
+          action: WebStorageAction; area: WebStorageArea;
+          key?: string; value?: string; items?: Record<string, string>;
+        };
+        console.log(`[iMacros] webStorage: action=${action}, area=${area}, key=${key ?? ''}`);
+        result = await handleWebStorage({ action, area, key, value, items, tabId: targetTabId });
+        break;
+      }
+
       default:
         result = { success: false, error: `Unknown command type: ${commandType}` };
     }
@@ -871,6 +1002,75 @@ async function collectRecordingFromAllFrames(
   return { macro: mainFrameMacro, events: allEvents };
 }
 
+// ============================================================================
+// Run History
+// ============================================================================
+
+/**
+ * Options page settings sent with play_macro: a screenshot for the run history
+ * and failure artifacts under the logs folder when a run fails
+ */
+async function getFailureCaptureSettings(): Promise<{
+  screenshotOnError: boolean;
+  saveFailureArtifacts: boolean;
+  pathLogs: string;
+}> {
+  try {
+    const result = await chrome.storage.sync.get('settings');
+    const settings = result.settings as {
+      historyScreenshotOnError?: boolean; saveFailureArtifacts?: boolean; pathLogs?: string;
+    } | undefined;
+    return {
+      screenshotOnError: settings?.historyScreenshotOnError === true,
+      saveFailureArtifacts: settings?.saveFailureArtifacts === true,
+      pathLogs: settings?.pathLogs || '',
+    };
+  } catch {
+    return { screenshotOnError: false, saveFailureArtifacts: false, pathLogs: '' };
+  }
+}
+
+// ============================================================================
+// Scheduled Runs
+// ============================================================================
+
+/**
+ * Resolve the scheduled run waiting for its macro to finish
+ */
+function finishScheduledRun(outcome: ScheduledRunOutcome): void {
+  if (scheduledRun) {
+    const { resolve } = scheduledRun;
+    scheduledRun = null;
+    resolve(outcome);
+  }
+}
+
+/**
+ * Play a scheduled job's macro through the native host and wait until it finishes
+ */
+function runScheduledMacro(job: ScheduledJob): Promise<ScheduledRunOutcome> {
+  if (macroPlaying || scheduledRun) {
+    return Promise.resolve({ success: false, errorMessage: 'Another macro is playing' });
+  }
+
+  return new Promise((resolve) => {
+    scheduledRun = { macroPath: job.macroPath, resolve };
+    Promise.all([connectToNativeHost(), getFailureCaptureSettings()])
+      .then(([port, captureSettings]) => {
+        port.postMessage({
+          type: 'play_macro',
+          id: createMessageId(),
+          timestamp: createTimestamp(),
+          payload: { path: job.macroPath, loop: false, variables: job.variables, ...captureSettings },
+        });
+        console.log('[iMacros] Started scheduled run:', job.macroPath);
+      })
+      .catch((error) => {
+        finishScheduledRun({ success: false, errorMessage: `Cannot reach native host: ${String(error)}` });
+      });
+  });
+}
+
 // ============================================================================
 // Tab Management Operations
 // ============================================================================
@@ -1248,8 +1448,10 @@ async function handleMessage(
     case 'setFilter':
       console.log('[iMacros] setFilter received:', message.payload);
       return await handleSetFilter(message.payload as {
-        filterType: 'IMAGES' | 'FLASH' | 'POPUPS';
+        filterType: 'IMAGES' | 'FLASH' | 'POPUPS' | 'URL' | 'RESOURCE';
         status: 'ON' | 'OFF';
+        urlPattern?: string;
+        resourceTypes?: string[];
       });
 
     case 'setPopupAllowed': {
@@ -1277,6 +1479,39 @@ async function handleMessage(
       console.log('[iMacros] restoreProxy received');
       return await handleRestoreProxy();
 
+    case 'netCapture':
+      console.log('[iMacros] netCapture received:', message.payload);
+      return await handleNetCapture(message.payload as {
+        action: 'start' | 'stop' | 'query' | 'wait' | 'har';
+        urlPattern?: string;
+        timeoutMs?: number;
+      });
+
+    case 'setHeader':
+      console.log('[iMacros] setHeader received:', message.payload);
+      return await handleSetHeader(message.payload as {
+        action: 'set' | 'strip' | 'off';
+        name?: string;
+        value?: string;
+        domains?: string[];
+      });
+
+    case 'mock':
+      console.log('[iMacros] mock received:', message.payload);
+      return await handleMock(message.payload as {
+        action: 'add' | 'remove' | 'clear' | 'query';
+        mock?: MockResponseSpec;
+        urlPattern?: string;
+      });
+
+    case 'cookies':
+      console.log('[iMacros] cookies received:', message.payload);
+      return await handleCookies(message.payload as {
+        action: 'export' | 'import';
+        domain?: string;
+        cookies?: BrowserCookie[];
+      });
+
     case 'SET_AUTH_CREDENTIALS':
       const authPayload = message.payload as { username: string; password: string; urlPattern?: string };
       setAuthCredentials(authPayload.username, authPayload.password, authPayload.urlPattern);
@@ -1394,14 +1629,38 @@ async function handleMessage(
     }
 
     case 'PLAY_MACRO': {
-      const playPayload = message.payload as { path: string; loop?: boolean };
+      // breakpoints is set when the editor starts the macro in the debugger
+      const playPayload = message.payload as { path: string; loop?: boolean; breakpoints?: MacroBreakpoint[] };
       console.log('[iMacros] PLAY_MACRO:', playPayload.path);
       try {
         await sendToNativeHostNoWait({
           type: 'play_macro',
           id: message.id || createMessageId(),
           timestamp: createTimestamp(),
-          payload: { path: playPayload.path, loop: playPayload.loop || false },
+          payload: {
+            path: playPayload.path,
+            loop: playPayload.loop || false,
+            breakpoints: playPayload.breakpoints,
+            ...await getFailureCaptureSettings(),
+          },
+        });
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }
+
+    case 'PLAY_MACRO_PARALLEL': {
+      const parallelPayload = message.payload as { path: string; workers: number };
+      console.log('[iMacros] PLAY_MACRO_PARALLEL:', parallelPayload.path, parallelPayload.workers);
+      try {
+        // Worker 1 runs in the current tab
+        const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+        await sendToNativeHostNoWait({
+          type: 'play_macro_parallel',
+          id: message.id || createMessageId(),
+          timestamp: createTimestamp(),
+          payload: { path: parallelPayload.path, workers: parallelPayload.workers, tabId: activeTab?.id },
         });
         return { success: true };
       } catch (error) {
@@ -1439,6 +1698,22 @@ async function handleMessage(
       }
     }
 
+    case 'DEBUG_COMMAND': {
+      const debugAction = message.payload as DebugAction;
+      console.log('[iMacros] DEBUG_COMMAND from editor:', debugAction.action);
+      try {
+        await sendToNativeHostNoWait({
+          type: 'debug_command',
+          id: message.id || createMessageId(),
+          timestamp: createTimestamp(),
+          payload: debugAction,
+        });
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }
+
     case 'RESUME_MACRO': {
       console.log('[iMacros] RESUME_MACRO from panel');
       try {
@@ -1790,13 +2065,14 @@ async function handleMessage(
     case 'saveAs': {
       const saveAsPayload = message.payload as {
         saveType?: string; folder?: string; file?: string;
-        content?: string; quality?: number;
+        content?: string; contentEncoding?: string; quality?: number;
       } | undefined;
       const saveType = saveAsPayload?.saveType || (message as { saveType?: string }).saveType;
       const saveFolder = saveAsPayload?.folder || (message as { folder?: string }).folder;
       const saveFile = saveAsPayload?.file || (message as { file?: string }).file;
       const saveContent = saveAsPayload?.content || (message as { content?: string }).content;
       const saveQuality = saveAsPayload?.quality || (message as { quality?: number }).quality;
+      const saveContentEncoding = saveAsPayload?.contentEncoding || (message as { contentEncoding?: string }).contentEncoding;
 
       try {
         const saveAsResponse = await sendToNativeHost({
@@ -1808,6 +2084,7 @@ async function handleMessage(
             folder: saveFolder,
             file: saveFile,
             content: saveContent,
+            contentEncoding: saveContentEncoding,
             quality: saveQuality,
           },
         });
@@ -1895,6 +2172,117 @@ async function handleMessage(
       }
     }
 
+    case 'GET_SCHEDULES': {
+      const schedules = await getSchedules();
+      return { success: true, ...schedules };
+    }
+
+    case 'SAVE_SCHEDULE': {
+      try {
+        const job = await saveScheduledJob(message.payload as ScheduledJobInput);
+        return { success: true, job };
+      } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+    }
+
+    case 'DELETE_SCHEDULE': {
+      const { id } = message.payload as { id: string };
+      const deleted = await deleteScheduledJob(id);
+      return deleted ? { success: true } : { success: false, error: `Unknown schedule: ${id}` };
+    }
+
+    case 'RUN_SCHEDULE_NOW': {
+      const { id } = message.payload as { id: string };
+      // The run is reported through SCHEDULES_UPDATED, don't hold the response until it ends
+      runScheduledJobNow(id).catch((error) => {
+        console.error('[iMacros] RUN_SCHEDULE_NOW error:', error);
+      });
+      return { success: true };
+    }
+
+    case 'CLEAR_SCHEDULE_HISTORY': {
+      await clearRunHistory();
+      return { success: true };
+    }
+
+    case 'GET_RUN_HISTORY': {
+      try {
+        const historyResponse = await sendToNativeHost({
+          type: 'get_run_history',
+          id: message.id || createMessageId(),
+          timestamp: createTimestamp(),
+          payload: message.payload as RunHistoryFilter | undefined,
+        });
+        const historyResult = historyResponse.payload as { runs?: RunSummary[]; error?: string } | undefined;
+        if (!historyResult?.runs) {
+          return { success: false, error: historyResult?.error || 'Failed to load run history' };
+        }
+        return { success: true, runs: historyResult.runs };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }
+
+    case 'GET_RUN_REPORT': {
+      const { id } = message.payload as { id: string };
+      try {
+        const reportResponse = await sendToNativeHost({
+          type: 'get_run_report',
+          id: message.id || createMessageId(),
+          timestamp: createTimestamp(),
+          payload: { id },
+        });
+        const report = reportResponse.payload as { html?: string; fileName?: string; error?: string } | undefined;
+        if (!report?.html) {
+          return { success: false, error: report?.error || 'Failed to build run report' };
+        }
+        return { success: true, html: report.html, fileName: report.fileName };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }
+
+    case 'CLEAR_RUN_HISTORY': {
+      try {
+        await sendToNativeHost({
+          type: 'clear_run_history',
+          id: message.id || createMessageId(),
+          timestamp: createTimestamp(),
+          payload: {},
+        });
+        return { success: true };
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }
+
+    // Credential vault for {{!SECRET:...}}: the native host keeps the entries
+    // and never returns their values
+    case 'VAULT_STATUS':
+    case 'VAULT_UNLOCK':
+    case 'VAULT_LOCK':
+    case 'VAULT_LIST':
+    case 'VAULT_SAVE':
+    case 'VAULT_SET_EXPIRY':
+    case 'VAULT_DELETE': {
+      try {
+        const vaultResponse = await sendToNativeHost({
+          type: message.type.toLowerCase() as RequestMessage['type'],
+          id: message.id || createMessageId(),
+          timestamp: createTimestamp(),
+          payload: message.payload ?? {},
+        });
+        const vaultResult = vaultResponse.payload as { success?: boolean; error?: string } | undefined;
+        if (!vaultResult?.success) {
+          return { success: false, error: vaultResult?.error || 'Credential vault request failed' };
+        }
+        return vaultResult;
+      } catch (error) {
+        return { success: false, error: String(error) };
+      }
+    }
+
     default:
       console.warn('[iMacros] Unknown message type:', message.type);
       return { success: false, error: `Unknown message type: ${message.type}` };
@@ -2277,3 +2665,16 @@ startKeepAlive();
 initWebRequestHandlers().catch((error) => {
   console.error('[iMacros] Failed to initialize web request handlers:', error);
 });
+
+// Scheduled runs play through the native host; the panel follows changes via SCHEDULES_UPDATED
+setScheduledMacroRunner(runScheduledMacro);
+setSchedulerChangeListener(() => {
+  getSchedules()
+    .then((schedules) => broadcastToExtensionViews({ type: 'SCHEDULES_UPDATED', payload: schedules }))
+    .catch(() => {
+      // Ignore, the panel refreshes when it is opened
+    });
+});
+initScheduler().catch((error) => {
+  console.error('[iMacros] Failed to initialize scheduler:', error);
+});
@@ -0,0 +1,726 @@
+/**
+ * Macro Scheduler for iMacros
+ *
+ * Runs macros on a schedule from the background script:
+ * - Cron-like expressions (minute hour day-of-month month day-of-week, local time)
+ * - One chrome.alarms alarm per job, so schedules survive browser restarts
+ * - Per-job variables passed to the macro
+ * - Retry policy: extra attempts after a failed run, a fixed delay apart
+ * - Missed-run catch-up: a run missed while the browser was closed runs once
+ *   at startup (or is recorded as skipped)
+ * - "Only when idle": the run waits (chrome.idle) until the user is inactive
+ *
+ * Jobs and run history are persisted to chrome.storage.local. Runs are
+ * executed one at a time by the runner set with setScheduledMacroRunner.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * What started a scheduled run
+ */
+export type ScheduledRunTrigger = 'schedule' | 'catch-up' | 'retry' | 'manual';
+
+/**
+ * Outcome of a scheduled run
+ */
+export type ScheduledRunStatus = 'running' | 'success' | 'error' | 'skipped' | 'interrupted';
+
+/**
+ * A run waiting for its alarm (retry of a failed run, or a run deferred
+ * because the user was active)
+ */
+interface PendingRun {
+  trigger: ScheduledRunTrigger;
+  attempt: number;
+  /** Time the original run was scheduled for (ms) */
+  scheduledTime: number;
+  /** Time the pending run is due (ms) */
+  runAt: number;
+}
+
+/**
+ * A scheduled macro
+ */
+export interface ScheduledJob {
+  id: string;
+  macroPath: string;
+  /** Cron expression */
+  cron: string;
+  /** Variables set before the macro runs */
+  variables: Record<string, string>;
+  enabled: boolean;
+  /** Extra attempts after a failed run */
+  retries: number;
+  /** Minutes between attempts */
+  retryDelayMinutes: number;
+  /** Run once at startup when a run was missed while the browser was closed */
+  catchUp: boolean;
+  /** Wait until the user is idle before running */
+  onlyWhenIdle: boolean;
+  /** Time of the next scheduled run (ms), null when the expression never matches again */
+  nextRunTime: number | null;
+  pending?: PendingRun;
+}
+
+/**
+ * Fields accepted when creating or updating a job
+ */
+export type ScheduledJobInput = Partial<Omit<ScheduledJob, 'nextRunTime' | 'pending'>> & {
+  macroPath: string;
+  cron: string;
+};
+
+/**
+ * One entry of the run history
+ */
+export interface ScheduledRunRecord {
+  id: string;
+  jobId: string;
+  macroPath: string;
+  trigger: ScheduledRunTrigger;
+  /** 1 for the first attempt, 2 for the first retry, ... */
+  attempt: number;
+  scheduledTime: number;
+  startTime: number;
+  endTime?: number;
+  status: ScheduledRunStatus;
+  errorCode?: number;
+  errorMessage?: string;
+}
+
+/**
+ * Result reported by the macro runner
+ */
+export interface ScheduledRunOutcome {
+  success: boolean;
+  errorCode?: number;
+  errorMessage?: string;
+}
+
+/**
+ * Runs the macro of a job and resolves when it has finished
+ */
+export type ScheduledMacroRunner = (job: ScheduledJob) => Promise<ScheduledRunOutcome>;
+
+/**
+ * Parsed cron expression: the allowed values of each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Whether day-of-month was restricted (not *) */
+  domRestricted: boolean;
+  /** Whether day-of-week was restricted (not *) */
+  dowRestricted: boolean;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const JOBS_STORAGE_KEY = 'scheduledJobs';
+const HISTORY_STORAGE_KEY = 'scheduledRunHistory';
+
+/** Run history entries kept in storage */
+const MAX_HISTORY_ENTRIES = 200;
+
+/** Alarm of a job's next scheduled run */
+const JOB_ALARM_PREFIX = 'imacros-schedule:';
+/** Alarm of a job's retried or deferred run */
+const PENDING_ALARM_PREFIX = 'imacros-schedule-pending:';
+
+/** A run this late is treated as missed (the browser was closed or asleep) */
+const MISSED_RUN_GRACE_MS = 5 * 60 * 1000;
+
+/** Seconds without input before chrome.idle reports the user as idle */
+const IDLE_THRESHOLD_SECONDS = 300;
+/** How long a run waits before checking again whether the user is idle */
+const IDLE_RECHECK_MS = 5 * 60 * 1000;
+
+// ============================================================================
+// Cron Expressions
+// ============================================================================
+
+const CRON_ALIASES: Record<string, string> = {
+  '@YEARLY': '0 0 1 1 *',
+  '@ANNUALLY': '0 0 1 1 *',
+  '@MONTHLY': '0 0 1 * *',
+  '@WEEKLY': '0 0 * * 0',
+  '@DAILY': '0 0 * * *',
+  '@MIDNIGHT': '0 0 * * *',
+  '@HOURLY': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/** Limit of the next-run search (cron expressions repeat within 4 years) */
+const MAX_CRON_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Parse one value of a cron field (number or name)
+ */
+function parseCronValue(value: string, names: string[] | null, offset: number, field: string): number {
+  const upper = value.toUpperCase();
+  if (names) {
+    const index = names.indexOf(upper);
+    if (index !== -1) {
+      return index + offset;
+    }
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field} value: ${value}`);
+  }
+  return parseInt(value, 10);
+}
+
+/**
+ * Parse a cron field: *, values, ranges (a-b), steps (* / n, a-b/n) and lists
+ */
+function parseCronField(
+  text: string,
+  field: string,
+  min: number,
+  max: number,
+  names: string[] | null = null,
+  nameOffset = 0
+): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new Error(`Invalid ${field} step: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseCronValue(from, names, nameOffset, field);
+      end = parseCronValue(to, names, nameOffset, field);
+    } else {
+      start = parseCronValue(range, names, nameOffset, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : max;
+    }
+
+    if (start < min || end > max || start > end) {
+      throw new Error(`${field} out of range (${min}-${max}): ${part}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression: "minute hour day-of-month month day-of-week",
+ * or one of @hourly, @daily, @weekly, @monthly, @yearly.
+ * Day of week 0 and 7 are both Sunday. Throws on an invalid expression.
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const expanded = CRON_ALIASES[trimmed.toUpperCase()] ?? trimmed;
+  const fields = expanded.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression needs 5 fields (minute hour day month weekday): ${expression}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseCronField(dayOfWeek, 'day of week', 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(minute, 'minute', 0, 59),
+    hours: parseCronField(hour, 'hour', 0, 23),
+    daysOfMonth: parseCronField(dayOfMonth, 'day of month', 1, 31),
+    months: parseCronField(month, 'month', 1, 12, MONTH_NAMES, 1),
+    daysOfWeek,
+    domRestricted: dayOfMonth !== '*',
+    dowRestricted: dayOfWeek !== '*',
+  };
+}
+
+/**
+ * Whether a date matches the day fields. As in cron, when both day of month
+ * and day of week are restricted, either one matching is enough.
+ */
+function matchesCronDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate());
+  const dowMatch = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) {
+    return domMatch || dowMatch;
+  }
+  return domMatch && dowMatch;
+}
+
+/**
+ * Next time (ms) after `after` that matches the schedule, in local time.
+ * Returns null when nothing matches (e.g. 30 February).
+ */
+export function getNextCronTime(schedule: CronSchedule | string, after: number): number | null {
+  const cron = typeof schedule === 'string' ? parseCronExpression(schedule) : schedule;
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after + MAX_CRON_SEARCH_MS;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesCronDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// State
+// ============================================================================
+
+let jobs: ScheduledJob[] = [];
+let history: ScheduledRunRecord[] = [];
+
+/** Resolves once jobs and history are loaded from storage */
+let loaded: Promise<void> | null = null;
+
+let macroRunner: ScheduledMacroRunner | null = null;
+let changeListener: (() => void) | null = null;
+
+/** Scheduled runs execute one after another */
+let runQueue: Promise<void> = Promise.resolve();
+
+/**
+ * Create a unique ID for jobs and history entries
+ */
+function createId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Set the function that plays a job's macro
+ */
+export function setScheduledMacroRunner(runner: ScheduledMacroRunner | null): void {
+  macroRunner = runner;
+}
+
+/**
+ * Set the listener called whenever jobs or run history change
+ */
+export function setSchedulerChangeListener(listener: (() => void) | null): void {
+  changeListener = listener;
+}
+
+/**
+ * Load jobs and history once
+ */
+function ensureLoaded(): Promise<void> {
+  if (!loaded) {
+    loaded = (async () => {
+      const stored = await chrome.storage.local.get([JOBS_STORAGE_KEY, HISTORY_STORAGE_KEY]);
+      jobs = (stored?.[JOBS_STORAGE_KEY] as ScheduledJob[] | undefined) ?? [];
+      history = (stored?.[HISTORY_STORAGE_KEY] as ScheduledRunRecord[] | undefined) ?? [];
+    })();
+  }
+  return loaded;
+}
+
+/**
+ * Persist jobs and history and notify the listener
+ */
+async function persist(): Promise<void> {
+  try {
+    await chrome.storage.local.set({
+      [JOBS_STORAGE_KEY]: jobs,
+      [HISTORY_STORAGE_KEY]: history,
+    });
+  } catch (error) {
+    console.error('[iMacros] Failed to save schedules:', error);
+  }
+  changeListener?.();
+}
+
+/**
+ * Add a history entry (newest first), dropping the oldest beyond the limit
+ */
+function addHistory(record: ScheduledRunRecord): void {
+  history.unshift(record);
+  history.length = Math.min(history.length, MAX_HISTORY_ENTRIES);
+}
+
+// ============================================================================
+// Alarms
+// ============================================================================
+
+/**
+ * Create (or clear) the alarm of a job's next scheduled run
+ */
+async function updateJobAlarm(job: ScheduledJob): Promise<void> {
+  const name = JOB_ALARM_PREFIX + job.id;
+  if (job.enabled && job.nextRunTime !== null) {
+    await chrome.alarms.create(name, { when: job.nextRunTime });
+  } else {
+    await chrome.alarms.clear(name);
+  }
+}
+
+/**
+ * Create (or clear) the alarm of a job's pending run
+ */
+async function updatePendingAlarm(job: ScheduledJob): Promise<void> {
+  const name = PENDING_ALARM_PREFIX + job.id;
+  if (job.pending) {
+    await chrome.alarms.create(name, { when: job.pending.runAt });
+  } else {
+    await chrome.alarms.clear(name);
+  }
+}
+
+/**
+ * Whether the user is using the computer
+ */
+async function isUserActive(): Promise<boolean> {
+  if (!chrome.idle) {
+    return false;
+  }
+  return new Promise((resolve) => {
+    try {
+      chrome.idle.queryState(IDLE_THRESHOLD_SECONDS, (state) => resolve(state === 'active'));
+    } catch {
+      resolve(false);
+    }
+  });
+}
+
+/**
+ * Record a run that did not happen
+ */
+function recordSkipped(job: ScheduledJob, trigger: ScheduledRunTrigger, scheduledTime: number, reason: string): void {
+  const now = Date.now();
+  addHistory({
+    id: createId(),
+    jobId: job.id,
+    macroPath: job.macroPath,
+    trigger,
+    attempt: 1,
+    scheduledTime,
+    startTime: now,
+    endTime: now,
+    status: 'skipped',
+    errorMessage: reason,
+  });
+}
+
+/**
+ * Start a run of a job, unless it has to wait for the user to be idle
+ */
+async function startRun(
+  job: ScheduledJob,
+  trigger: ScheduledRunTrigger,
+  scheduledTime: number,
+  attempt: number
+): Promise<void> {
+  if (job.onlyWhenIdle && trigger !== 'manual' && await isUserActive()) {
+    const runAt = Date.now() + IDLE_RECHECK_MS;
+    if (job.nextRunTime === null || runAt < job.nextRunTime) {
+      job.pending = { trigger, attempt, scheduledTime, runAt };
+      await updatePendingAlarm(job);
+    } else {
+      recordSkipped(job, trigger, scheduledTime, 'User was active until the next scheduled run');
+    }
+    await persist();
+    return;
+  }
+
+  runQueue = runQueue
+    .then(() => executeRun(job, trigger, scheduledTime, attempt))
+    .catch((error) => {
+      console.error('[iMacros] Scheduled run failed:', error);
+    });
+  await runQueue;
+}
+
+/**
+ * Run a job's macro and record the outcome; schedule a retry after a failure
+ */
+async function executeRun(
+  job: ScheduledJob,
+  trigger: ScheduledRunTrigger,
+  scheduledTime: number,
+  attempt: number
+): Promise<void> {
+  const record: ScheduledRunRecord = {
+    id: createId(),
+    jobId: job.id,
+    macroPath: job.macroPath,
+    trigger,
+    attempt,
+    scheduledTime,
+    startTime: Date.now(),
+    status: 'running',
+  };
+  addHistory(record);
+  await persist();
+
+  let outcome: ScheduledRunOutcome;
+  if (!macroRunner) {
+    outcome = { success: false, errorMessage: 'Scheduler has no macro runner' };
+  } else {
+    try {
+      outcome = await macroRunner(job);
+    } catch (error) {
+      outcome = { success: false, errorMessage: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  record.endTime = Date.now();
+  record.status = outcome.success ? 'success' : 'error';
+  record.errorCode = outcome.errorCode;
+  record.errorMessage = outcome.errorMessage;
+  console.log(`[iMacros] Scheduled run of ${job.macroPath} (${trigger}, attempt ${attempt}):`, record.status);
+
+  // The job may have been deleted while it ran
+  if (!outcome.success && attempt <= job.retries && jobs.includes(job)) {
+    job.pending = {
+      trigger: 'retry',
+      attempt: attempt + 1,
+      scheduledTime,
+      runAt: Date.now() + job.retryDelayMinutes * 60 * 1000,
+    };
+    await updatePendingAlarm(job);
+  }
+  await persist();
+}
+
+/**
+ * Handle a job whose scheduled run time has come: move its schedule on,
+ * then run it (or catch up / skip a run missed while the browser was closed)
+ */
+async function processDueJob(job: ScheduledJob, now: number): Promise<void> {
+  if (!job.enabled || job.nextRunTime === null || job.nextRunTime > now + 1000) {
+    return;
+  }
+
+  const scheduledTime = job.nextRunTime;
+  job.nextRunTime = getNextCronTime(job.cron, now);
+  await updateJobAlarm(job);
+
+  if (now - scheduledTime > MISSED_RUN_GRACE_MS) {
+    if (job.catchUp) {
+      await startRun(job, 'catch-up', scheduledTime, 1);
+    } else {
+      recordSkipped(job, 'schedule', scheduledTime, 'Missed while the browser was closed');
+      await persist();
+    }
+    return;
+  }
+  await startRun(job, 'schedule', scheduledTime, 1);
+}
+
+/**
+ * Handle a job's retried or deferred run
+ */
+async function processPendingRun(job: ScheduledJob): Promise<void> {
+  const pending = job.pending;
+  if (!pending) {
+    return;
+  }
+  job.pending = undefined;
+  await updatePendingAlarm(job);
+  await startRun(job, pending.trigger, pending.scheduledTime, pending.attempt);
+}
+
+/**
+ * Handle a chrome.alarms alarm; alarms of other features are ignored
+ */
+export async function handleSchedulerAlarm(alarm: chrome.alarms.Alarm): Promise<void> {
+  const isJobAlarm = alarm.name.startsWith(JOB_ALARM_PREFIX);
+  const isPendingAlarm = alarm.name.startsWith(PENDING_ALARM_PREFIX);
+  if (!isJobAlarm && !isPendingAlarm) {
+    return;
+  }
+
+  await ensureLoaded();
+  const jobId = alarm.name.slice((isJobAlarm ? JOB_ALARM_PREFIX : PENDING_ALARM_PREFIX).length);
+  const job = jobs.find(j => j.id === jobId);
+  if (!job) {
+    await chrome.alarms.clear(alarm.name);
+    return;
+  }
+
+  if (isJobAlarm) {
+    await processDueJob(job, Date.now());
+  } else {
+    await processPendingRun(job);
+  }
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Initialize the scheduler: listen for alarms, mark runs cut short by a
+ * restart as interrupted, process runs that became due while the browser
+ * was closed, and recreate the alarms of the other jobs.
+ */
+export async function initScheduler(): Promise<void> {
+  if (!chrome.alarms) {
+    console.warn('[iMacros] alarms API not available, scheduler disabled');
+    return;
+  }
+
+  if (!chrome.alarms.onAlarm.hasListener(handleSchedulerAlarm)) {
+    chrome.alarms.onAlarm.addListener(handleSchedulerAlarm);
+  }
+
+  await ensureLoaded();
+
+  let interrupted = false;
+  for (const record of history) {
+    if (record.status === 'running') {
+      record.status = 'interrupted';
+      record.errorMessage = 'The browser or extension restarted during the run';
+      interrupted = true;
+    }
+  }
+  if (interrupted) {
+    await persist();
+  }
+
+  const now = Date.now();
+  for (const job of jobs) {
+    if (job.pending && job.pending.runAt <= now) {
+      await processPendingRun(job);
+    } else {
+      await updatePendingAlarm(job);
+    }
+    if (job.enabled && job.nextRunTime !== null && job.nextRunTime <= now) {
+      await processDueJob(job, now);
+    } else {
+      await updateJobAlarm(job);
+    }
+  }
+  console.log(`[iMacros] Scheduler initialized with ${jobs.length} job(s)`);
+}
+
+/**
+ * Get every job and the run history (newest first)
+ */
+export async function getSchedules(): Promise<{ jobs: ScheduledJob[]; history: ScheduledRunRecord[] }> {
+  await ensureLoaded();
+  return { jobs: [...jobs], history: [...history] };
+}
+
+/**
+ * Create a job, or update the job with the given ID.
+ * Throws when the cron expression is invalid or never matches.
+ */
+export async function saveScheduledJob(input: ScheduledJobInput): Promise<ScheduledJob> {
+  await ensureLoaded();
+  if (!input.macroPath) {
+    throw new Error('No macro selected');
+  }
+  const nextRunTime = getNextCronTime(input.cron, Date.now());
+  if (nextRunTime === null) {
+    throw new Error(`Cron expression never matches: ${input.cron}`);
+  }
+
+  const existing = input.id ? jobs.find(j => j.id === input.id) : undefined;
+  const job: ScheduledJob = {
+    id: existing?.id ?? createId(),
+    macroPath: input.macroPath,
+    cron: input.cron.trim(),
+    variables: input.variables ?? existing?.variables ?? {},
+    enabled: input.enabled ?? existing?.enabled ?? true,
+    retries: Math.max(0, Math.floor(input.retries ?? existing?.retries ?? 0)),
+    retryDelayMinutes: Math.max(1, input.retryDelayMinutes ?? existing?.retryDelayMinutes ?? 5),
+    catchUp: input.catchUp ?? existing?.catchUp ?? false,
+    onlyWhenIdle: input.onlyWhenIdle ?? existing?.onlyWhenIdle ?? false,
+    nextRunTime,
+    pending: existing?.pending,
+  };
+
+  if (existing) {
+    jobs[jobs.indexOf(existing)] = job;
+  } else {
+    jobs.push(job);
+  }
+  await updateJobAlarm(job);
+  await persist();
+  return job;
+}
+
+/**
+ * Delete a job and its alarms; its history is kept
+ */
+export async function deleteScheduledJob(id: string): Promise<boolean> {
+  await ensureLoaded();
+  const index = jobs.findIndex(j => j.id === id);
+  if (index === -1) {
+    return false;
+  }
+  jobs.splice(index, 1);
+  await chrome.alarms.clear(JOB_ALARM_PREFIX + id);
+  await chrome.alarms.clear(PENDING_ALARM_PREFIX + id);
+  await persist();
+  return true;
+}
+
+/**
+ * Run a job now, regardless of its schedule and idle setting.
+ * Resolves when the run has finished.
+ */
+export async function runScheduledJobNow(id: string): Promise<ScheduledRunRecord | null> {
+  await ensureLoaded();
+  const job = jobs.find(j => j.id === id);
+  if (!job) {
+    return null;
+  }
+  const now = Date.now();
+  await startRun(job, 'manual', now, 1);
+  return history.find(r => r.jobId === id && r.scheduledTime === now) ?? null;
+}
+
+/**
+ * Clear the run history (running entries are kept)
+ */
+export async function clearRunHistory(): Promise<void> {
+  await ensureLoaded();
+  history = history.filter(r => r.status === 'running');
+  await persist();
+}
+
+/**
+ * Forget the loaded state (for testing)
+ */
+export function resetSchedulerState(): void {
+  jobs = [];
+  history = [];
+  loaded = null;
+  macroRunner = null;
+  changeListener = null;
+  runQueue = Promise.resolve();
+}
@@ -0,0 +1,188 @@
+/**
+ * Session Handlers for iMacros
+ *
+ * Implements saving and restoring a logged-in session:
+ * - chrome.cookies for COOKIES EXPORT / IMPORT
+ * - chrome.scripting in the macro's tab for STORAGE GET / SET
+ *   (localStorage and sessionStorage of the tab's origin)
+ */
+
+import type {
+  BrowserCookie,
+  WebStorageAction,
+  WebStorageArea,
+} from '@shared/commands/browser';
+
+// ============================================================================
+// COOKIES: Export / Import via chrome.cookies
+// ============================================================================
+
+/**
+ * Convert a chrome cookie to the exported form
+ */
+function toBrowserCookie(cookie: chrome.cookies.Cookie): BrowserCookie {
+  const exported: BrowserCookie = {
+    name: cookie.name,
+    value: cookie.value,
+    domain: cookie.domain,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+    hostOnly: cookie.hostOnly,
+    sameSite: cookie.sameSite as BrowserCookie['sameSite'],
+  };
+  if (!cookie.session && cookie.expirationDate !== undefined) {
+    exported.expirationDate = cookie.expirationDate;
+  }
+  return exported;
+}
+
+/**
+ * Build the chrome.cookies.set details that recreate an exported cookie
+ */
+function toSetDetails(cookie: BrowserCookie): chrome.cookies.SetDetails {
+  const host = cookie.domain.replace(/^\./, '');
+  const details: chrome.cookies.SetDetails = {
+    url: `${cookie.secure ? 'https' : 'http'}://${host}${cookie.path || '/'}`,
+    name: cookie.name,
+    value: cookie.value,
+    path: cookie.path,
+    secure: cookie.secure,
+    httpOnly: cookie.httpOnly,
+  };
+  // Host-only cookies must not get a Domain attribute
+  if (!cookie.hostOnly) {
+    details.domain = cookie.domain;
+  }
+  if (cookie.sameSite) {
+    details.sameSite = cookie.sameSite as chrome.cookies.SameSiteStatus;
+  }
+  if (cookie.expirationDate !== undefined) {
+    details.expirationDate = cookie.expirationDate;
+  }
+  return details;
+}
+
+/**
+ * Handle cookies message from COOKIES EXPORT / IMPORT.
+ * Import sets every cookie it can and reports how many were set.
+ */
+export async function handleCookies(payload: {
+  action: 'export' | 'import';
+  domain?: string;
+  cookies?: BrowserCookie[];
+}): Promise<{ success: boolean; error?: string; data?: { cookies?: BrowserCookie[]; importedCount?: number } }> {
+  if (!chrome.cookies) {
+    return { success: false, error: 'cookies API not available' };
+  }
+
+  try {
+    if (payload.action === 'export') {
+      const cookies = await chrome.cookies.getAll(payload.domain ? { domain: payload.domain } : {});
+      console.log(`[iMacros] Exported ${cookies.length} cookies`, payload.domain ?? '');
+      return { success: true, data: { cookies: cookies.map(toBrowserCookie) } };
+    }
+
+    if (payload.action === 'import') {
+      let importedCount = 0;
+      for (const cookie of payload.cookies ?? []) {
+        try {
+          const set = await chrome.cookies.set(toSetDetails(cookie));
+          if (set) {
+            importedCount++;
+          } else {
+            console.warn(`[iMacros] Cookie ${cookie.name} for ${cookie.domain} was rejected`);
+          }
+        } catch (error) {
+          console.warn(`[iMacros] Failed to set cookie ${cookie.name} for ${cookie.domain}:`, error);
+        }
+      }
+      console.log(`[iMacros] Imported ${importedCount} cookies`);
+      return { success: true, data: { importedCount } };
+    }
+
+    return { success: false, error: `Unknown cookies action: ${String(payload.action)}` };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// ============================================================================
+// STORAGE: Web Storage via chrome.scripting
+// ============================================================================
+
+/**
+ * Result of a web storage operation inside the page
+ */
+interface WebStorageResult {
+  origin: string;
+  value?: string | null;
+  items?: Record<string, string>;
+}
+
+/**
+ * Runs in the page: read or write localStorage / sessionStorage.
+ * Must be self-contained because chrome.scripting serializes it.
+ */
+function runWebStorageOperation(
+  area: WebStorageArea,
+  action: WebStorageAction,
+  key: string | null,
+  value: string | null,
+  items: Record<string, string> | null
+): WebStorageResult {
+  const storage = area === 'session' ? window.sessionStorage : window.localStorage;
+  const result: WebStorageResult = { origin: window.location.origin };
+
+  if (action === 'get' && key !== null) {
+    result.value = storage.getItem(key);
+  } else if (action === 'set' && key !== null) {
+    storage.setItem(key, value ?? '');
+  } else if (action === 'getAll') {
+    result.items = {};
+    for (let i = 0; i < storage.length; i++) {
+      const itemKey = storage.key(i);
+      if (itemKey !== null) {
+        result.items[itemKey] = storage.getItem(itemKey) ?? '';
+      }
+    }
+  } else if (action === 'setAll' && items) {
+    for (const [itemKey, itemValue] of Object.entries(items)) {
+      storage.setItem(itemKey, itemValue);
+    }
+  }
+  return result;
+}
+
+/**
+ * Handle webStorage message from STORAGE GET / SET in the macro's tab
+ */
+export async function handleWebStorage(payload: {
+  action: WebStorageAction;
+  area: WebStorageArea;
+  key?: string;
+  value?: string;
+  items?: Record<string, string>;
+  tabId: number;
+}): Promise<{ success: boolean; error?: string; data?: WebStorageResult }> {
+  if (!chrome.scripting) {
+    return { success: false, error: 'scripting API not available' };
+  }
+
+  try {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId: payload.tabId },
+      func: runWebStorageOperation,
+      args: [payload.area, payload.action, payload.key ?? null, payload.value ?? null, payload.items ?? null],
+    });
+    const result = injection?.result as WebStorageResult | undefined;
+    if (!result) {
+      return { success: false, error: `Cannot access ${payload.area}Storage in this tab` };
+    }
+    return { success: true, data: result };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMessage };
+  }
+}
@@ -4,11 +4,27 @@
  * Implements browser-level request interception:
  * - chrome.webRequest.onAuthRequired for ONLOGIN (HTTP authentication)
  * - chrome.declarativeNetRequest rules for FILTER (content blocking)
+ * - chrome.webRequest listeners for NETCAPTURE (request recording)
+ * - chrome.declarativeNetRequest session rules for HEADER and !USERAGENT
+ * - chrome.debugger Fetch domain for MOCK (canned responses)
  *
  * ONLOGIN: When credentials are set, automatically respond to HTTP auth challenges
- * FILTER: Block images (TYPE=IMAGES) or Flash/media (TYPE=FLASH) content
+ * FILTER: Block images (TYPE=IMAGES), Flash/media (TYPE=FLASH), URL patterns
+ *   (TYPE=URL) or resource kinds (TYPE=RESOURCE)
+ * NETCAPTURE: Record requests for WAIT FOR=REQUEST, NETCAPTURE QUERY and SAVEAS TYPE=HAR
+ * HEADER: Set or strip request headers (also the User-Agent set by !USERAGENT)
+ * MOCK: Answer matching requests with a canned status, headers and body
  */
 
+import {
+  buildHar,
+  matchesUrlPattern,
+  type CapturedRequest,
+  type HarDocument,
+  type NetHeader,
+} from '@shared/commands/network';
+import type { MockResponseSpec } from '@shared/commands/browser';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -30,7 +46,7 @@ interface AuthCredentials {
 /**
  * Filter types supported by iMacros FILTER command
  */
-type FilterType = 'IMAGES' | 'FLASH' | 'POPUPS';
+type FilterType = 'IMAGES' | 'FLASH' | 'POPUPS' | 'URL' | 'RESOURCE';
 
 /**
  * Filter status
@@ -44,6 +60,20 @@ interface FilterState {
   images: boolean;
   flash: boolean;
   popups: boolean;
+  /** URL patterns blocked by FILTER TYPE=URL */
+  urlPatterns: string[];
+  /** Resource types blocked by FILTER TYPE=RESOURCE */
+  resourceTypes: string[];
+}
+
+/**
+ * Target of a FILTER TYPE=URL or TYPE=RESOURCE rule change
+ */
+interface BlockRuleOptions {
+  /** URL pattern for TYPE=URL (omitted = every URL rule) */
+  urlPattern?: string;
+  /** Resource types for TYPE=RESOURCE (omitted = every resource rule) */
+  resourceTypes?: string[];
 }
 
 // ============================================================================
@@ -64,6 +94,8 @@ const filterState: FilterState = {
   images: false,
   flash: false,
   popups: false,
+  urlPatterns: [],
+  resourceTypes: [],
 };
 
 /**
@@ -77,6 +109,16 @@ const RULE_IDS = {
   OBJECT_BLOCK: 2002,
 } as const;
 
+/**
+ * URL and RESOURCE block rules get IDs allocated from this one upwards
+ */
+const DYNAMIC_RULE_ID_BASE = 10000;
+
+/**
+ * Allocated block rule IDs by rule key ("URL <pattern>" or "RESOURCE <type>")
+ */
+const blockRuleIds: Map<string, number> = new Map();
+
 // ============================================================================
 // ONLOGIN: HTTP Authentication Handler
 // ============================================================================
@@ -271,6 +313,121 @@ function createFlashBlockRules(): chrome.declarativeNetRequest.Rule[] {
   ];
 }
 
+/**
+ * Allocate the lowest free block rule ID
+ */
+function allocateBlockRuleId(): number {
+  const used = new Set(blockRuleIds.values());
+  let id = DYNAMIC_RULE_ID_BASE;
+  while (used.has(id)) {
+    id++;
+  }
+  return id;
+}
+
+/**
+ * Create a blocking rule for a URL pattern or resource type
+ */
+function createBlockRule(
+  id: number,
+  filterType: 'URL' | 'RESOURCE',
+  value: string
+): chrome.declarativeNetRequest.Rule {
+  return {
+    id,
+    priority: 1,
+    action: {
+      type: 'block' as chrome.declarativeNetRequest.RuleActionType,
+    },
+    condition: filterType === 'URL'
+      ? { urlFilter: value }
+      : { resourceTypes: [value] as chrome.declarativeNetRequest.ResourceType[] },
+  };
+}
+
+/**
+ * Add or remove URL/RESOURCE block rules, allocating rule IDs as needed
+ */
+async function updateBlockRules(
+  filterType: 'URL' | 'RESOURCE',
+  enabled: boolean,
+  options: BlockRuleOptions
+): Promise<void> {
+  const prefix = `${filterType} `;
+  let values = filterType === 'URL'
+    ? (options.urlPattern !== undefined ? [options.urlPattern] : [])
+    : (options.resourceTypes ?? []);
+
+  // Without a pattern or types, OFF removes every rule of the type
+  if (values.length === 0 && !enabled) {
+    values = Array.from(blockRuleIds.keys())
+      .filter(key => key.startsWith(prefix))
+      .map(key => key.slice(prefix.length));
+  }
+
+  const rulesToAdd: chrome.declarativeNetRequest.Rule[] = [];
+  const rulesToRemove: number[] = [];
+  // Entries changed below, restored if Chrome rejects the update
+  const previous = new Map<string, number | undefined>();
+
+  for (const value of values) {
+    const key = prefix + value;
+    const existingId = blockRuleIds.get(key);
+    if (enabled && existingId === undefined) {
+      const id = allocateBlockRuleId();
+      previous.set(key, undefined);
+      blockRuleIds.set(key, id);
+      rulesToAdd.push(createBlockRule(id, filterType, value));
+    } else if (!enabled && existingId !== undefined) {
+      previous.set(key, existingId);
+      blockRuleIds.delete(key);
+      rulesToRemove.push(existingId);
+    }
+  }
+
+  syncBlockRuleState();
+
+  if (!chrome.declarativeNetRequest) {
+    console.warn('[iMacros] declarativeNetRequest API not available');
+    return;
+  }
+  if (rulesToAdd.length === 0 && rulesToRemove.length === 0) {
+    return;
+  }
+
+  try {
+    await chrome.declarativeNetRequest.updateDynamicRules({
+      removeRuleIds: rulesToRemove,
+      addRules: rulesToAdd,
+    });
+  } catch (error) {
+    // E.g. an invalid urlFilter: the rules did not change, so neither does the state
+    for (const [key, id] of previous) {
+      if (id === undefined) {
+        blockRuleIds.delete(key);
+      } else {
+        blockRuleIds.set(key, id);
+      }
+    }
+    syncBlockRuleState();
+    throw error;
+  }
+
+  console.log(`[iMacros] ${filterType} block rules updated:`, {
+    added: rulesToAdd.length,
+    removed: rulesToRemove.length,
+  });
+}
+
+/**
+ * Mirror the allocated block rules into filterState
+ */
+function syncBlockRuleState(): void {
+  const keys = Array.from(blockRuleIds.keys());
+  filterState.urlPatterns = keys.filter(k => k.startsWith('URL ')).map(k => k.slice(4));
+  filterState.resourceTypes = keys.filter(k => k.startsWith('RESOURCE ')).map(k => k.slice(9));
+}
+
 /**
  * Update declarativeNetRequest rules based on current filter state
  */
@@ -322,11 +479,16 @@ async function updateFilterRules(): Promise<void> {
  */
 export async function setFilter(
   filterType: FilterType,
-  status: FilterStatus
+  status: FilterStatus,
+  options: BlockRuleOptions = {}
 ): Promise<void> {
   const enabled = status === 'ON';
 
   switch (filterType) {
+    case 'URL':
+    case 'RESOURCE':
+      await updateBlockRules(filterType, enabled, options);
+      return;
     case 'IMAGES':
       filterState.images = enabled;
       break;
@@ -352,6 +514,8 @@ export async function disableAllFilters(): Promise<void> {
   filterState.flash = false;
   filterState.popups = false;
 
+  await updateBlockRules('URL', false, {});
+  await updateBlockRules('RESOURCE', false, {});
   await updateFilterRules();
   console.log('[iMacros] All filters disabled');
 }
@@ -360,7 +524,11 @@ export async function disableAllFilters(): Promise<void> {
  * Get current filter state
  */
 export function getFilterState(): FilterState {
-  return { ...filterState };
+  return {
+    ...filterState,
+    urlPatterns: [...filterState.urlPatterns],
+    resourceTypes: [...filterState.resourceTypes],
+  };
 }
 
 /**
@@ -378,9 +546,11 @@ export async function initFilterRules(): Promise<void> {
     const existingRules = await chrome.declarativeNetRequest.getDynamicRules();
     const existingIds = existingRules.map((rule) => rule.id);
 
-    // Remove all our rules
+    // Remove all our rules, including URL/RESOURCE rules left by an earlier session
     const ourRuleIds = Object.values(RULE_IDS);
-    const toRemove = existingIds.filter((id) => (ourRuleIds as readonly number[]).includes(id));
+    const toRemove = existingIds.filter((id) =>
+      (ourRuleIds as readonly number[]).includes(id) || id >= DYNAMIC_RULE_ID_BASE
+    );
 
     if (toRemove.length > 0) {
       await chrome.declarativeNetRequest.updateDynamicRules({
@@ -435,9 +605,14 @@ export function handleLoginConfig(payload: {
 export async function handleSetFilter(payload: {
   filterType: FilterType;
   status: FilterStatus;
+  urlPattern?: string;
+  resourceTypes?: string[];
 }): Promise<{ success: boolean; error?: string }> {
   try {
-    await setFilter(payload.filterType, payload.status);
+    await setFilter(payload.filterType, payload.status, {
+      urlPattern: payload.urlPattern,
+      resourceTypes: payload.resourceTypes,
+    });
     return { success: true };
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -710,6 +885,644 @@ export async function handleRestoreProxy(): Promise<{ success: boolean; error?:
   }
 }
 
+// ============================================================================
+// NETCAPTURE: Request Recording via chrome.webRequest
+// ============================================================================
+
+/**
+ * Oldest requests are dropped once a capture holds this many
+ */
+const MAX_CAPTURED_REQUESTS = 5000;
+
+/**
+ * Network capture state
+ */
+const netCaptureState = {
+  /** Whether requests are being recorded */
+  active: false,
+  /** Record only URLs matching this wildcard pattern */
+  urlPattern: undefined as string | undefined,
+  /** Captured requests by webRequest request ID, in start order */
+  requests: new Map<string, CapturedRequest>(),
+  /** Requests already returned by WAIT FOR=REQUEST */
+  consumed: new Set<string>(),
+  /** WAIT FOR=REQUEST calls waiting for a matching request to finish */
+  waiters: [] as Array<{ urlPattern: string; resolve: (request: CapturedRequest | null) => void }>,
+};
+
+/**
+ * Convert webRequest headers to name/value pairs
+ */
+function toNetHeaders(headers?: chrome.webRequest.HttpHeader[]): NetHeader[] {
+  return (headers ?? []).map(h => ({ name: h.name, value: h.value ?? '' }));
+}
+
+/**
+ * Whether a captured request has completed or failed
+ */
+function isFinished(request: CapturedRequest): boolean {
+  return request.endTime !== undefined;
+}
+
+/**
+ * Hand a finished request to the first WAIT FOR=REQUEST waiting for it
+ */
+function notifyNetCaptureWaiters(request: CapturedRequest): void {
+  const index = netCaptureState.waiters.findIndex(w => matchesUrlPattern(request.url, w.urlPattern));
+  if (index === -1) return;
+
+  const [waiter] = netCaptureState.waiters.splice(index, 1);
+  netCaptureState.consumed.add(request.id);
+  waiter.resolve(request);
+}
+
+/**
+ * Record the start of a request (chrome.webRequest.onBeforeRequest)
+ */
+function handleCaptureBeforeRequest(details: chrome.webRequest.WebRequestBodyDetails): void {
+  if (!netCaptureState.active || details.tabId < 0) return;
+  if (netCaptureState.urlPattern && !matchesUrlPattern(details.url, netCaptureState.urlPattern)) return;
+
+  // A redirect starts over under the same request ID; keep the redirect hop as its own entry
+  const previous = netCaptureState.requests.get(details.requestId);
+  if (previous) {
+    const hopId = `${details.requestId}.${netCaptureState.requests.size}`;
+    netCaptureState.requests.delete(details.requestId);
+    netCaptureState.requests.set(hopId, { ...previous, id: hopId, endTime: previous.endTime ?? details.timeStamp });
+  }
+
+  netCaptureState.requests.set(details.requestId, {
+    id: details.requestId,
+    url: details.url,
+    method: details.method,
+    resourceType: details.type,
+    tabId: details.tabId,
+    startTime: details.timeStamp,
+    requestHeaders: [],
+    status: 0,
+    statusLine: '',
+    responseHeaders: [],
+  });
+
+  if (netCaptureState.requests.size > MAX_CAPTURED_REQUESTS) {
+    const oldest = netCaptureState.requests.keys().next().value as string;
+    netCaptureState.requests.delete(oldest);
+  }
+}
+
+/**
+ * Record the request headers (chrome.webRequest.onSendHeaders)
+ */
+function handleCaptureSendHeaders(details: chrome.webRequest.WebRequestHeadersDetails): void {
+  const request = netCaptureState.requests.get(details.requestId);
+  if (request) {
+    request.requestHeaders = toNetHeaders(details.requestHeaders);
+  }
+}
+
+/**
+ * Record the response status and headers (chrome.webRequest.onHeadersReceived)
+ */
+function handleCaptureHeadersReceived(details: chrome.webRequest.WebResponseHeadersDetails): void {
+  const request = netCaptureState.requests.get(details.requestId);
+  if (request) {
+    request.status = details.statusCode;
+    request.statusLine = details.statusLine;
+    request.responseHeaders = toNetHeaders(details.responseHeaders);
+    request.responseStartTime = details.timeStamp;
+  }
+}
+
+/**
+ * Record a completed request (chrome.webRequest.onCompleted)
+ */
+function handleCaptureCompleted(details: chrome.webRequest.WebResponseCacheDetails): void {
+  const request = netCaptureState.requests.get(details.requestId);
+  if (!request) return;
+
+  request.status = details.statusCode;
+  request.statusLine = details.statusLine || request.statusLine;
+  if (details.responseHeaders) {
+    request.responseHeaders = toNetHeaders(details.responseHeaders);
+  }
+  request.responseStartTime = request.responseStartTime ?? details.timeStamp;
+  request.endTime = details.timeStamp;
+  request.fromCache = details.fromCache;
+  request.serverIp = details.ip;
+  notifyNetCaptureWaiters(request);
+}
+
+/**
+ * Record a failed request (chrome.webRequest.onErrorOccurred)
+ */
+function handleCaptureError(details: chrome.webRequest.WebResponseErrorDetails): void {
+  const request = netCaptureState.requests.get(details.requestId);
+  if (!request) return;
+
+  request.error = details.error;
+  request.endTime = details.timeStamp;
+  notifyNetCaptureWaiters(request);
+}
+
+/**
+ * Initialize the webRequest listeners used by NETCAPTURE.
+ * They only record while a capture is running.
+ */
+export function initNetCaptureListeners(): void {
+  const webRequest = chrome.webRequest;
+  if (!webRequest?.onBeforeRequest || !webRequest.onSendHeaders || !webRequest.onHeadersReceived
+    || !webRequest.onCompleted || !webRequest.onErrorOccurred) {
+    console.warn('[iMacros] webRequest listeners not available, NETCAPTURE disabled');
+    return;
+  }
+
+  const filter: chrome.webRequest.RequestFilter = { urls: ['<all_urls>'] };
+  webRequest.onBeforeRequest.addListener(handleCaptureBeforeRequest, filter);
+  webRequest.onSendHeaders.addListener(handleCaptureSendHeaders, filter, ['requestHeaders']);
+  webRequest.onHeadersReceived.addListener(handleCaptureHeadersReceived, filter, ['responseHeaders']);
+  webRequest.onCompleted.addListener(handleCaptureCompleted, filter, ['responseHeaders']);
+  webRequest.onErrorOccurred.addListener(handleCaptureError, filter);
+
+  console.log('[iMacros] Network capture listeners initialized');
+}
+
+/**
+ * Captured requests matching a wildcard pattern, in start order
+ */
+export function getCapturedRequests(urlPattern?: string): CapturedRequest[] {
+  const requests = Array.from(netCaptureState.requests.values())
+    .sort((a, b) => a.startTime - b.startTime);
+  return urlPattern ? requests.filter(r => matchesUrlPattern(r.url, urlPattern)) : requests;
+}
+
+/**
+ * Wait until a request matching the pattern has finished.
+ * Resolves with null when the timeout passes first.
+ */
+function waitForCapturedRequest(urlPattern: string, timeoutMs: number): Promise<CapturedRequest | null> {
+  const finished = getCapturedRequests(urlPattern)
+    .find(r => isFinished(r) && !netCaptureState.consumed.has(r.id));
+  if (finished) {
+    netCaptureState.consumed.add(finished.id);
+    return Promise.resolve(finished);
+  }
+
+  return new Promise((resolve) => {
+    const waiter = {
+      urlPattern,
+      resolve: (request: CapturedRequest | null) => {
+        clearTimeout(timer);
+        resolve(request);
+      },
+    };
+    const timer = setTimeout(() => {
+      netCaptureState.waiters = netCaptureState.waiters.filter(w => w !== waiter);
+      resolve(null);
+    }, timeoutMs);
+    netCaptureState.waiters.push(waiter);
+  });
+}
+
+/**
+ * Handle netCapture message from NETCAPTURE, WAIT FOR=REQUEST and SAVEAS TYPE=HAR
+ */
+export async function handleNetCapture(payload: {
+  action: 'start' | 'stop' | 'query' | 'wait' | 'har';
+  urlPattern?: string;
+  timeoutMs?: number;
+}): Promise<{ success: boolean; error?: string; data?: { requests?: CapturedRequest[]; har?: HarDocument } }> {
+  try {
+    switch (payload.action) {
+      case 'start':
+        netCaptureState.requests.clear();
+        netCaptureState.consumed.clear();
+        netCaptureState.urlPattern = payload.urlPattern;
+        netCaptureState.active = true;
+        console.log('[iMacros] Network capture started', payload.urlPattern ?? '');
+        return { success: true };
+
+      case 'stop':
+        netCaptureState.active = false;
+        for (const waiter of netCaptureState.waiters.splice(0)) {
+          waiter.resolve(null);
+        }
+        console.log('[iMacros] Network capture stopped');
+        return { success: true };
+
+      case 'query':
+        return { success: true, data: { requests: getCapturedRequests(payload.urlPattern) } };
+
+      case 'wait': {
+        if (!netCaptureState.active) {
+          return { success: false, error: 'WAIT FOR=REQUEST needs a running NETCAPTURE START' };
+        }
+        const request = await waitForCapturedRequest(payload.urlPattern ?? '*', payload.timeoutMs ?? 60000);
+        return { success: true, data: { requests: request ? [request] : [] } };
+      }
+
+      case 'har':
+        return {
+          success: true,
+          data: { har: buildHar(getCapturedRequests(), chrome.runtime.getManifest?.().version) },
+        };
+
+      default:
+        return { success: false, error: `Unknown netCapture action: ${String(payload.action)}` };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMessage };
+  }
+}
+
+// ============================================================================
+// HEADER: Request Header Rules via declarativeNetRequest session rules
+// ============================================================================
+
+/**
+ * Header rules get IDs allocated from this one upwards
+ */
+const HEADER_RULE_ID_BASE = 20000;
+
+/**
+ * Every resource type, so header rules also apply to main_frame requests
+ * (a rule without resourceTypes skips main_frame)
+ */
+const ALL_RESOURCE_TYPES = [
+  'main_frame', 'sub_frame', 'stylesheet', 'script', 'image', 'font', 'object',
+  'xmlhttprequest', 'ping', 'csp_report', 'media', 'websocket', 'webtransport',
+  'webbundle', 'other',
+] as chrome.declarativeNetRequest.ResourceType[];
+
+/**
+ * Allocated header rules by rule key ("<lowercase name> <domains>")
+ */
+const headerRules: Map<string, { id: number; name: string }> = new Map();
+
+/**
+ * Build the header rule key for a header name and its domains
+ */
+function headerRuleKey(name: string, domains?: string[]): string {
+  return `${name.toLowerCase()} ${domains && domains.length > 0 ? [...domains].sort().join(',') : '*'}`;
+}
+
+/**
+ * Create a modifyHeaders rule that sets or removes a request header.
+ * Domain-specific rules get a higher priority so they win over global ones.
+ */
+function createHeaderRule(
+  id: number,
+  name: string,
+  operation: 'set' | 'remove',
+  value?: string,
+  domains?: string[]
+): chrome.declarativeNetRequest.Rule {
+  const condition: chrome.declarativeNetRequest.RuleCondition = { resourceTypes: ALL_RESOURCE_TYPES };
+  if (domains && domains.length > 0) {
+    condition.requestDomains = domains;
+  }
+  return {
+    id,
+    priority: domains && domains.length > 0 ? 2 : 1,
+    action: {
+      type: 'modifyHeaders' as chrome.declarativeNetRequest.RuleActionType,
+      requestHeaders: [{
+        header: name,
+        operation: operation as chrome.declarativeNetRequest.HeaderOperation,
+        ...(operation === 'set' ? { value: value ?? '' } : {}),
+      }],
+    },
+    condition,
+  };
+}
+
+/**
+ * Get the active header rules (for debugging)
+ */
+export function getHeaderRules(): { name: string; domains: string; id: number }[] {
+  return Array.from(headerRules.entries()).map(([key, rule]) => ({
+    name: rule.name,
+    domains: key.slice(key.indexOf(' ') + 1),
+    id: rule.id,
+  }));
+}
+
+/**
+ * Handle setHeader message from HEADER and SET !USERAGENT.
+ * Setting a header that already has a rule for the same domains replaces it.
+ */
+export async function handleSetHeader(payload: {
+  action: 'set' | 'strip' | 'off';
+  name?: string;
+  value?: string;
+  domains?: string[];
+}): Promise<{ success: boolean; error?: string }> {
+  const { action, name, value, domains } = payload;
+
+  if (!chrome.declarativeNetRequest?.updateSessionRules) {
+    return { success: false, error: 'declarativeNetRequest session rules not available' };
+  }
+  if (action !== 'off' && !name) {
+    return { success: false, error: `setHeader ${action} requires a header name` };
+  }
+
+  const keysToRemove: string[] = [];
+  const rulesToRemove: number[] = [];
+  const rulesToAdd: chrome.declarativeNetRequest.Rule[] = [];
+  let added: { key: string; id: number; name: string } | undefined;
+
+  if (action === 'off') {
+    // Without a name every rule goes; without domains every rule for the name
+    for (const [key, rule] of headerRules) {
+      const matches = !name
+        || (domains && domains.length > 0
+          ? key === headerRuleKey(name, domains)
+          : rule.name.toLowerCase() === name.toLowerCase());
+      if (matches) {
+        keysToRemove.push(key);
+        rulesToRemove.push(rule.id);
+      }
+    }
+  } else {
+    const key = headerRuleKey(name!, domains);
+    const existingId = headerRules.get(key)?.id;
+    let id = existingId;
+    if (id === undefined) {
+      const used = new Set(Array.from(headerRules.values(), r => r.id));
+      id = HEADER_RULE_ID_BASE;
+      while (used.has(id)) {
+        id++;
+      }
+    } else {
+      rulesToRemove.push(id);
+    }
+    added = { key, id, name: name! };
+    rulesToAdd.push(createHeaderRule(id, name!, action === 'set' ? 'set' : 'remove', value, domains));
+  }
+
+  if (rulesToAdd.length === 0 && rulesToRemove.length === 0) {
+    return { success: true };
+  }
+
+  try {
+    await chrome.declarativeNetRequest.updateSessionRules({
+      removeRuleIds: rulesToRemove,
+      addRules: rulesToAdd,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error('[iMacros] Failed to update header rules:', errorMessage);
+    return { success: false, error: errorMessage };
+  }
+
+  for (const key of keysToRemove) {
+    headerRules.delete(key);
+  }
+  if (added) {
+    headerRules.set(added.key, { id: added.id, name: added.name });
+  }
+
+  console.log(`[iMacros] Header rules updated (${action} ${name ?? 'all'}):`, {
+    added: rulesToAdd.length,
+    removed: rulesToRemove.length,
+  });
+  return { success: true };
+}
+
+/**
+ * Remove header rules left over from a previous service worker instance
+ */
+export async function initHeaderRules(): Promise<void> {
+  if (!chrome.declarativeNetRequest?.getSessionRules) {
+    return;
+  }
+
+  try {
+    const existingRules = await chrome.declarativeNetRequest.getSessionRules();
+    const toRemove = existingRules.map(r => r.id).filter(id => id >= HEADER_RULE_ID_BASE);
+    if (toRemove.length > 0) {
+      await chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds: toRemove });
+      console.log('[iMacros] Cleared leftover header rules:', toRemove);
+    }
+  } catch (error) {
+    console.error('[iMacros] Failed to initialize header rules:', error);
+  }
+}
+
+// ============================================================================
+// MOCK: Canned Responses via the chrome.debugger Fetch domain
+// ============================================================================
+
+/**
+ * Chrome DevTools protocol version used for the Fetch domain
+ */
+const DEBUGGER_PROTOCOL_VERSION = '1.3';
+
+/**
+ * A registered mock with the number of requests it answered
+ */
+interface ActiveMock extends MockResponseSpec {
+  hits: number;
+}
+
+/**
+ * Mocked response state
+ */
+const mockState = {
+  /** Registered mocks, oldest first (the newest matching mock answers) */
+  mocks: [] as ActiveMock[],
+  /** Tabs the debugger is attached to for serving mocks */
+  attachedTabs: new Set<number>(),
+};
+
+/**
+ * Pause requests to every mocked pattern in one tab.
+ * Fetch patterns are a superset of ours ("?" is a wildcard there), so a paused
+ * request is matched again before it is answered.
+ */
+async function enableMockInterception(tabId: number): Promise<void> {
+  await chrome.debugger.sendCommand({ tabId }, 'Fetch.enable', {
+    patterns: mockState.mocks.map(m => ({ urlPattern: m.urlPattern, requestStage: 'Request' })),
+  });
+}
+
+/**
+ * Attach the debugger to a tab and start intercepting mocked requests
+ */
+async function attachMockDebugger(tabId: number): Promise<void> {
+  if (!mockState.attachedTabs.has(tabId)) {
+    await chrome.debugger.attach({ tabId }, DEBUGGER_PROTOCOL_VERSION);
+    mockState.attachedTabs.add(tabId);
+  }
+  await enableMockInterception(tabId);
+}
+
+/**
+ * Detach the debugger from every tab serving mocks
+ */
+async function detachMockDebugger(): Promise<void> {
+  const tabIds = Array.from(mockState.attachedTabs);
+  mockState.attachedTabs.clear();
+  for (const tabId of tabIds) {
+    try {
+      await chrome.debugger.detach({ tabId });
+    } catch (error) {
+      // The tab may have been closed already
+      console.warn(`[iMacros] Failed to detach debugger from tab ${tabId}:`, error);
+    }
+  }
+}
+
+/**
+ * Answer a paused request with the newest matching mock, or let it through
+ */
+async function handleMockRequestPaused(
+  tabId: number,
+  params: { requestId: string; request: { url: string } }
+): Promise<void> {
+  const mock = [...mockState.mocks].reverse().find(m => matchesUrlPattern(params.request.url, m.urlPattern));
+
+  try {
+    if (!mock) {
+      await chrome.debugger.sendCommand({ tabId }, 'Fetch.continueRequest', { requestId: params.requestId });
+      return;
+    }
+
+    mock.hits++;
+    await chrome.debugger.sendCommand({ tabId }, 'Fetch.fulfillRequest', {
+      requestId: params.requestId,
+      responseCode: mock.status,
+      responseHeaders: mock.headers,
+      body: mock.body,
+    });
+    console.log(`[iMacros] Mocked ${params.request.url} (${mock.status})`);
+  } catch (error) {
+    console.error('[iMacros] Failed to answer paused request:', error);
+  }
+}
+
+function handleMockDebuggerEvent(source: chrome.debugger.Debuggee, method: string, params?: object): void {
+  if (method !== 'Fetch.requestPaused' || source.tabId === undefined) return;
+  if (!mockState.attachedTabs.has(source.tabId)) return;
+  void handleMockRequestPaused(source.tabId, params as { requestId: string; request: { url: string } });
+}
+
+function handleMockDebuggerDetach(source: chrome.debugger.Debuggee): void {
+  if (source.tabId !== undefined) {
+    mockState.attachedTabs.delete(source.tabId);
+  }
+}
+
+/**
+ * Popups and tabs opened by a mocked tab are mocked too
+ */
+function handleMockTabCreated(tab: chrome.tabs.Tab): void {
+  if (tab.id === undefined || tab.openerTabId === undefined) return;
+  if (mockState.mocks.length === 0 || !mockState.attachedTabs.has(tab.openerTabId)) return;
+  attachMockDebugger(tab.id).catch((error) => {
+    console.warn(`[iMacros] Failed to mock requests in tab ${tab.id}:`, error);
+  });
+}
+
+/**
+ * Register the debugger and tab listeners used to serve mocks.
+ * Safe to call again: each listener is only added once.
+ */
+export function initMockListeners(): void {
+  if (!chrome.debugger) {
+    console.warn('[iMacros] debugger API not available, MOCK disabled');
+    return;
+  }
+
+  if (!chrome.debugger.onEvent.hasListener(handleMockDebuggerEvent)) {
+    chrome.debugger.onEvent.addListener(handleMockDebuggerEvent);
+  }
+  if (!chrome.debugger.onDetach.hasListener(handleMockDebuggerDetach)) {
+    chrome.debugger.onDetach.addListener(handleMockDebuggerDetach);
+  }
+  const onTabCreated = chrome.tabs?.onCreated;
+  if (onTabCreated && !onTabCreated.hasListener(handleMockTabCreated)) {
+    onTabCreated.addListener(handleMockTabCreated);
+  }
+}
+
+/**
+ * Handle mock message from MOCK.
+ * Adding a mock attaches the debugger to the macro's tab (tabId).
+ */
+export async function handleMock(payload: {
+  action: 'add' | 'remove' | 'clear' | 'query';
+  mock?: MockResponseSpec;
+  urlPattern?: string;
+  tabId?: number;
+}): Promise<{ success: boolean; error?: string; data?: { mocks?: { urlPattern: string; hits: number }[] } }> {
+  try {
+    switch (payload.action) {
+      case 'add': {
+        if (!chrome.debugger) {
+          return { success: false, error: 'debugger API not available' };
+        }
+        if (!payload.mock) {
+          return { success: false, error: 'mock add requires a mock' };
+        }
+        let tabId = payload.tabId;
+        if (tabId === undefined) {
+          const [activeTab] = await chrome.tabs.query({ active: true, currentWindow: true });
+          tabId = activeTab?.id;
+        }
+        if (tabId === undefined) {
+          return { success: false, error: 'No tab to serve mocks in' };
+        }
+
+        mockState.mocks = mockState.mocks.filter(m => m.urlPattern !== payload.mock!.urlPattern);
+        mockState.mocks.push({ ...payload.mock, hits: 0 });
+
+        await attachMockDebugger(tabId);
+        for (const attachedTabId of mockState.attachedTabs) {
+          if (attachedTabId !== tabId) {
+            await enableMockInterception(attachedTabId);
+          }
+        }
+        console.log(`[iMacros] Mock added for ${payload.mock.urlPattern}`);
+        return { success: true };
+      }
+
+      case 'remove':
+        mockState.mocks = mockState.mocks.filter(m => m.urlPattern !== payload.urlPattern);
+        if (mockState.mocks.length === 0) {
+          await detachMockDebugger();
+        } else {
+          for (const tabId of mockState.attachedTabs) {
+            await enableMockInterception(tabId);
+          }
+        }
+        return { success: true };
+
+      case 'clear':
+        mockState.mocks = [];
+        await detachMockDebugger();
+        console.log('[iMacros] Mocks cleared');
+        return { success: true };
+
+      case 'query':
+        return {
+          success: true,
+          data: {
+            mocks: mockState.mocks
+              .filter(m => m.urlPattern === payload.urlPattern)
+              .map(m => ({ urlPattern: m.urlPattern, hits: m.hits })),
+          },
+        };
+
+      default:
+        return { success: false, error: `Unknown mock action: ${String(payload.action)}` };
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    return { success: false, error: errorMessage };
+  }
+}
+
 // ============================================================================
 // Initialization
 // ============================================================================
@@ -726,6 +1539,15 @@ export async function initWebRequestHandlers(): Promise<void> {
   // Initialize filter rules
   await initFilterRules();
 
+  // Remove leftover header rules
+  await initHeaderRules();
+
+  // Initialize network capture listeners
+  initNetCaptureListeners();
+
+  // Initialize mocked response listeners
+  initMockListeners();
+
   console.log('[iMacros] Web request handlers initialized');
 }
 
@@ -7,11 +7,13 @@
  * - HTM: innerHTML
  * - HREF, SRC, ALT, TITLE: common attributes
  * - Any other attribute by name
+ * - Whole tables (EXTRACT=TABLE), see extractTable
  *
  * Supports multiple extractions with [EXTRACT] delimiter
  */
 
 import { findElement, ElementFinderResult } from './element-finder';
+import type { ExtractedTable } from '@shared/commands/extraction';
 
 /**
  * Delimiter used to join multiple extracted values
@@ -63,6 +65,14 @@ export interface ExtractionOptions {
   col?: number;
 }
 
+/**
+ * Options for whole-table extraction
+ */
+export interface TableExtractionOptions {
+  /** Add a column with each cell's first link URL after every column that has links */
+  links?: boolean;
+}
+
 /**
  * Storage for multiple extractions in a single macro run
  */
@@ -221,6 +231,134 @@ export function extractFromTableCell(
   return extractAttribute(cell, extractType, options);
 }
 
+/**
+ * A cell of the normalized table grid (shared by every slot the cell spans)
+ */
+interface TableGridCell {
+  text: string;
+  link: string;
+}
+
+/**
+ * Text of a table cell with whitespace collapsed
+ */
+function getTableCellText(cell: Element): string {
+  return (cell.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Absolute URL of the first link in a table cell, or '' if it has none
+ */
+function getTableCellLink(cell: Element): string {
+  const link = cell.querySelector('a[href]') as HTMLAnchorElement | null;
+  return link ? link.href : '';
+}
+
+/**
+ * Read a span attribute (colspan/rowspan); 0 means "to the end" for rowspan
+ */
+function getSpan(cell: Element, name: string): number {
+  const value = parseInt(cell.getAttribute(name) ?? '', 10);
+  return isNaN(value) || value < 0 ? 1 : value;
+}
+
+/**
+ * Extract every row and column of a table.
+ *
+ * - Header rows are the THEAD rows or, without a THEAD, the leading rows made
+ *   only of TH cells. Several header rows are merged into one per column.
+ * - COLSPAN/ROWSPAN cells are repeated into every slot they cover (row spans
+ *   stop at the end of their THEAD/TBODY/TFOOT section), and short rows are
+ *   padded, so all rows have the same width.
+ * - With `links`, each column that has a link in any body cell is followed
+ *   by a "<header> URL" column holding the cell's first link.
+ */
+export function extractTable(table: HTMLTableElement, options: TableExtractionOptions = {}): ExtractedTable {
+  const rows = Array.from(table.rows);
+
+  // Lay the cells out on a grid, resolving spans
+  const grid: TableGridCell[][] = rows.map(() => []);
+  rows.forEach((row, r) => {
+    let sectionEnd = r + 1;
+    while (sectionEnd < rows.length && rows[sectionEnd].parentElement === row.parentElement) {
+      sectionEnd++;
+    }
+
+    let c = 0;
+    for (const cell of Array.from(row.cells)) {
+      while (grid[r][c]) c++;
+      const value: TableGridCell = {
+        text: getTableCellText(cell),
+        link: options.links ? getTableCellLink(cell) : '',
+      };
+      const colSpan = Math.min(Math.max(getSpan(cell, 'colspan'), 1), 1000);
+      const rowSpan = getSpan(cell, 'rowspan');
+      const lastRow = rowSpan === 0 ? sectionEnd : Math.min(r + rowSpan, sectionEnd);
+      for (let rr = r; rr < lastRow; rr++) {
+        for (let cc = c; cc < c + colSpan; cc++) {
+          grid[rr][cc] = value;
+        }
+      }
+      c += colSpan;
+    }
+  });
+
+  const width = grid.reduce((max, cells) => Math.max(max, cells.length), 0);
+  const empty: TableGridCell = { text: '', link: '' };
+  const normalized = grid.map((cells) => Array.from({ length: width }, (_, c) => cells[c] ?? empty));
+
+  // Header detection
+  let headerRowCount = 0;
+  while (headerRowCount < rows.length && rows[headerRowCount].parentElement?.tagName === 'THEAD') {
+    headerRowCount++;
+  }
+  if (headerRowCount === 0) {
+    while (headerRowCount < rows.length
+      && rows[headerRowCount].cells.length > 0
+      && Array.from(rows[headerRowCount].cells).every((cell) => cell.tagName === 'TH')) {
+      headerRowCount++;
+    }
+    // A table made only of TH rows has no separate header
+    if (headerRowCount === rows.length) {
+      headerRowCount = 0;
+    }
+  }
+
+  const headerRows = normalized.slice(0, headerRowCount);
+  const bodyRows = normalized.slice(headerRowCount);
+
+  const linkColumns = new Set<number>();
+  if (options.links) {
+    for (const cells of bodyRows) {
+      cells.forEach((cell, c) => {
+        if (cell.link) linkColumns.add(c);
+      });
+    }
+  }
+
+  const expand = (cells: string[], links: string[]): string[] =>
+    cells.flatMap((text, c) => (linkColumns.has(c) ? [text, links[c]] : [text]));
+
+  let headers: string[] | null = null;
+  if (headerRows.length > 0) {
+    const merged = Array.from({ length: width }, (_, c) => {
+      // Join the distinct texts stacked above the column (a spanning group title, then the column title)
+      const parts: string[] = [];
+      for (const cells of headerRows) {
+        const text = cells[c].text;
+        if (text && parts[parts.length - 1] !== text) parts.push(text);
+      }
+      return parts.join(' ');
+    });
+    headers = expand(merged, merged.map((title) => (title ? `${title} URL` : 'URL')));
+  }
+
+  return {
+    headers,
+    rows: bodyRows.map((cells) => expand(cells.map((cell) => cell.text), cells.map((cell) => cell.link))),
+  };
+}
+
 /**
  * Extract data from element based on extraction type
  */
@@ -552,6 +690,7 @@ export default {
   extractData,
   extractFromSelector,
   extractFromTableCell,
+  extractTable,
 
   // Buffer management
   addToExtractionBuffer,
@@ -14,6 +14,7 @@ import {
   findByTagSelector,
   parseTagSelector,
   getAttributeValue,
+  findByFallbackLocator,
   XPathAmbiguousError,
   type ElementFinderResult,
 } from './element-finder';
@@ -34,6 +35,7 @@ import {
 } from './event-dispatcher';
 
 import { highlightPlaybackElement } from './element-highlighter';
+import { extractTable } from './data-extractor';
 
 import type {
   TagCommandMessage,
@@ -47,6 +49,7 @@ import type {
   DOMEventType,
   SearchSourceType,
 } from '@shared/commands/interaction';
+import type { ExtractedTable } from '@shared/commands/extraction';
 
 // ===== Anchor State for Relative Positioning =====
 
@@ -110,12 +113,16 @@ export interface DOMExecutorResult {
   errorCode: DOMErrorCode;
   errorMessage?: string;
   extractedData?: string;
+  /** Table read by EXTRACT=TABLE / TABLE_LINKS */
+  extractedTable?: ExtractedTable;
   elementInfo?: {
     tagName: string;
     id?: string;
     className?: string;
     rect?: { x: number; y: number; width: number; height: number };
   };
+  /** Fallback locator that found the element when the primary selector did not */
+  fallbackUsed?: string;
 }
 
 // ===== Element Utilities =====
@@ -331,16 +338,43 @@ interface ResolveSelectorOptions {
   relative?: boolean;
 }
 
+/**
+ * Find result that may have come from a fallback locator
+ */
+interface ResolvedSelector extends ElementFinderResult {
+  fallbackUsed?: string;
+}
+
+/**
+ * Try the fallback locators of a selector in order. A fallback only
+ * counts when it matches exactly one element.
+ */
+function resolveFallbacks(selector: ElementSelector): ResolvedSelector | null {
+  const doc = getCurrentFrameDocument();
+  if (!doc || !selector.fallbacks) {
+    return null;
+  }
+
+  for (const fallback of selector.fallbacks) {
+    const result = findByFallbackLocator(fallback, selector.type, doc);
+    if (result.count === 1 && result.element) {
+      return { ...result, fallbackUsed: fallback };
+    }
+  }
+  return null;
+}
+
 /**
  * Resolve element selector to a find result
- * Uses frame-aware element finding to search in the currently selected frame
+ * Uses frame-aware element finding to search in the currently selected frame.
+ * When the primary selector finds nothing, the recorded fallback locators are tried.
  */
 async function resolveSelector(
   selector: ElementSelector,
   timeout: number = 5000,
   waitVisible: boolean = true,
   options?: ResolveSelectorOptions
-): Promise<ElementFinderResult> {
+): Promise<ResolvedSelector> {
   // Handle relative positioning
   if (options?.relative || selector.relative) {
     const anchor = getAnchor();
@@ -393,11 +427,14 @@ async function resolveSelector(
   }
 
   // Find with wait if requested - use frame-aware functions
-  if (waitVisible && timeout > 0) {
-    return findElementInFrameWithWait(selectorString, { timeout, interval: 100 });
-  }
+  const result = waitVisible && timeout > 0
+    ? await findElementInFrameWithWait(selectorString, { timeout, interval: 100 })
+    : findElementInFrame(selectorString);
 
-  return findElementInFrame(selectorString);
+  if (!result.element && selector.fallbacks && selector.fallbacks.length > 0) {
+    return resolveFallbacks(selector) || result;
+  }
+  return result;
 }
 
 // ===== TAG Command Execution =====
@@ -933,6 +970,7 @@ export async function executeTagCommand(message: TagCommandMessage): Promise<DOM
   try {
     // Find the element, retrying until a visible one is found (if waitVisible)
     let element: Element | null = null;
+    let fallbackUsed: string | undefined;
     const timeoutMs = timeout || 5000;
     const startTime = Date.now();
 
@@ -942,11 +980,13 @@ export async function executeTagCommand(message: TagCommandMessage): Promise<DOM
       if (result.element) {
         if (!waitVisible) {
           element = result.element;
+          fallbackUsed = result.fallbackUsed;
           break;
         }
         // waitVisible: check if the selected element (at requested POS) is visible
         if (isElementVisible(result.element)) {
           element = result.element;
+          fallbackUsed = result.fallbackUsed;
           break;
         }
         // Element exists but not visible yet, will retry
@@ -968,6 +1008,10 @@ export async function executeTagCommand(message: TagCommandMessage): Promise<DOM
       };
     }
 
+    if (fallbackUsed) {
+      console.info(`[iMacros] TAG primary locator failed, matched fallback ${fallbackUsed}`);
+    }
+
     // Check if element is enabled
     if (!isElementEnabled(element)) {
       return {
@@ -983,8 +1027,24 @@ export async function executeTagCommand(message: TagCommandMessage): Promise<DOM
 
     // Handle extraction
     let extractedData: string | undefined;
+    let extractedTable: ExtractedTable | undefined;
     if (action.extract) {
-      extractedData = extractFromElement(element, action.extract);
+      const extractType = action.extract.toUpperCase();
+      if (extractType === 'TABLE' || extractType === 'TABLE_LINKS') {
+        // The element may be the table itself or any element inside it (e.g. a cell)
+        const table = element.closest('table');
+        if (!table) {
+          return {
+            success: false,
+            errorCode: DOM_ERROR_CODES.INVALID_PARAMETER,
+            errorMessage: `EXTRACT=${extractType} requires a TABLE element or an element inside one`,
+            elementInfo: getElementInfo(element),
+          };
+        }
+        extractedTable = extractTable(table as HTMLTableElement, { links: extractType === 'TABLE_LINKS' });
+      } else {
+        extractedData = extractFromElement(element, action.extract);
+      }
       // Mark the element so page scripts can detect the extraction occurred
       element.setAttribute('data-extracted', action.extract);
     }
@@ -1057,7 +1117,9 @@ export async function executeTagCommand(message: TagCommandMessage): Promise<DOM
       success: true,
       errorCode: DOM_ERROR_CODES.OK,
       extractedData,
+      extractedTable,
       elementInfo: getElementInfo(element),
+      fallbackUsed,
     };
   } catch (error) {
     if (error instanceof XPathAmbiguousError) {
@@ -1628,7 +1690,9 @@ function toContentScriptResponse(result: DOMExecutorResult): ContentScriptRespon
     error: result.errorMessage,
     errorCode: result.errorCode,
     extractedData: result.extractedData,
+    extractedTable: result.extractedTable,
     elementInfo: result.elementInfo,
+    fallbackUsed: result.fallbackUsed,
   };
 }
 
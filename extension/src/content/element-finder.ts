@@ -7,6 +7,13 @@
  * - TAG POS TYPE ATTR iMacros-style selectors
  *
  * Also supports frame-aware element finding using the frame handler.
+ *
+ * Open shadow roots are searched by all strategies. CSS and XPath selectors
+ * can also pierce explicitly with `>>>`: `my-app >>> button.primary` finds
+ * `button.primary` inside the shadow root of `my-app`.
+ *
+ * Fallback locators (TAG ... FALLBACK="ID:x||XPATH:..."), recorded next to
+ * a TAG command, are resolved by findByFallbackLocator.
  */
 
 import { getFrameHandler } from './frame-handler';
@@ -38,26 +45,131 @@ export interface TagSelector {
 }
 
 /**
- * Find elements using XPath expression
+ * Separator that continues a CSS or XPath selector inside the shadow roots
+ * of the elements matched so far
  */
-export function findByXPath(xpath: string, contextNode: Node = document): ElementFinderResult {
+export const SHADOW_PIERCE_SEPARATOR = '>>>';
+
+/**
+ * Split a selector on the shadow-piercing separator
+ */
+export function splitShadowSelector(selector: string): string[] {
+  return selector.split(SHADOW_PIERCE_SEPARATOR).map((part) => part.trim());
+}
+
+/**
+ * Collect the open shadow roots inside a node (including nested ones), in document order
+ */
+export function getOpenShadowRoots(root: Element | Document | ShadowRoot): ShadowRoot[] {
+  const roots: ShadowRoot[] = [];
+  const visit = (scope: Element | Document | ShadowRoot): void => {
+    for (const el of Array.from(scope.querySelectorAll('*'))) {
+      if (el.shadowRoot) {
+        roots.push(el.shadowRoot);
+        visit(el.shadowRoot);
+      }
+    }
+  };
+  if ('shadowRoot' in root && root.shadowRoot) {
+    roots.push(root.shadowRoot);
+    visit(root.shadowRoot);
+  }
+  visit(root);
+  return roots;
+}
+
+/**
+ * querySelectorAll that also searches open shadow roots.
+ * Each root is queried with its own querySelectorAll, so :scope and
+ * combinators mean the same as there. Elements inside a shadow root are
+ * ordered directly after their host.
+ */
+export function querySelectorAllDeep(root: Element | Document | ShadowRoot, selector: string): Element[] {
+  const elements: Element[] = [];
+  const visit = (scope: Element | Document | ShadowRoot): void => {
+    const matches = Array.from(scope.querySelectorAll(selector));
+    let next = 0;
+    for (const host of Array.from(scope.querySelectorAll('*'))) {
+      if (!host.shadowRoot) {
+        continue;
+      }
+      // Matches up to and including the host come before its shadow content
+      while (
+        next < matches.length &&
+        (matches[next] === host || matches[next].compareDocumentPosition(host) & Node.DOCUMENT_POSITION_FOLLOWING)
+      ) {
+        elements.push(matches[next++]);
+      }
+      visit(host.shadowRoot);
+    }
+    elements.push(...matches.slice(next));
+  };
+  if ('shadowRoot' in root && root.shadowRoot) {
+    visit(root.shadowRoot);
+  }
+  visit(root);
+  return elements;
+}
+
+/**
+ * Evaluate an XPath expression and return the matching elements
+ */
+function evaluateXPath(xpath: string, contextNode: Node): Element[] {
   const elements: Element[] = [];
+  const result = document.evaluate(
+    xpath,
+    contextNode,
+    null,
+    XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+    null
+  );
+
+  for (let i = 0; i < result.snapshotLength; i++) {
+    const node = result.snapshotItem(i);
+    // nodeType rather than instanceof: nodes may come from another frame's realm
+    if (node && node.nodeType === Node.ELEMENT_NODE) {
+      elements.push(node as Element);
+    }
+  }
+  return elements;
+}
 
-  try {
-    const result = document.evaluate(
-      xpath,
-      contextNode,
-      null,
-      XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
-      null
-    );
-
-    for (let i = 0; i < result.snapshotLength; i++) {
-      const node = result.snapshotItem(i);
-      if (node instanceof Element) {
-        elements.push(node);
+/**
+ * Evaluate an XPath expression inside open shadow roots. Absolute paths
+ * (starting with /) are made relative to each shadow root, since a shadow
+ * tree is not reachable from the document root.
+ */
+function evaluateXPathInShadowRoots(xpath: string, roots: ShadowRoot[]): Element[] {
+  const relative = xpath.startsWith('/') ? `.${xpath}` : xpath;
+  const elements: Element[] = [];
+  for (const root of roots) {
+    for (const el of evaluateXPath(relative, root)) {
+      if (!elements.includes(el)) {
+        elements.push(el);
       }
     }
+  }
+  return elements;
+}
+
+/**
+ * Find elements using XPath expression.
+ * Falls back to open shadow roots when nothing matches in the light DOM;
+ * `>>>` continues the expression inside the shadow roots of the matches.
+ */
+export function findByXPath(xpath: string, contextNode: Node = document): ElementFinderResult {
+  let elements: Element[] = [];
+
+  try {
+    const [first, ...rest] = splitShadowSelector(xpath);
+    elements = evaluateXPath(first, contextNode);
+    if (elements.length === 0 && 'querySelectorAll' in contextNode) {
+      elements = evaluateXPathInShadowRoots(first, getOpenShadowRoots(contextNode as Element | Document));
+    }
+    for (const part of rest) {
+      const hosts = elements.filter((el) => el.shadowRoot);
+      elements = evaluateXPathInShadowRoots(part, hosts.map((el) => el.shadowRoot as ShadowRoot));
+    }
   } catch (error) {
     console.error('XPath evaluation error:', error);
   }
@@ -75,14 +187,27 @@ export function findByXPath(xpath: string, contextNode: Node = document): Elemen
 }
 
 /**
- * Find elements using CSS selector
+ * Find elements using CSS selector, searching open shadow roots.
+ * `>>>` continues the selector inside the shadow roots of the matches.
  */
 export function findByCssSelector(selector: string, contextNode: Element | Document = document): ElementFinderResult {
-  const elements: Element[] = [];
+  let elements: Element[] = [];
 
   try {
-    const nodeList = contextNode.querySelectorAll(selector);
-    nodeList.forEach((el) => elements.push(el));
+    const [first, ...rest] = splitShadowSelector(selector);
+    elements = querySelectorAllDeep(contextNode, first);
+    for (const part of rest) {
+      const matches: Element[] = [];
+      for (const host of elements) {
+        if (!host.shadowRoot) continue;
+        for (const el of querySelectorAllDeep(host.shadowRoot, part)) {
+          if (!matches.includes(el)) {
+            matches.push(el);
+          }
+        }
+      }
+      elements = matches;
+    }
   } catch (error) {
     console.error('CSS selector error:', error);
   }
@@ -392,7 +517,7 @@ export function findMatchingForm(
   formFilter: string,
   contextNode: Element | Document = document
 ): HTMLFormElement | null {
-  const forms = Array.from(contextNode.querySelectorAll('form'));
+  const forms = querySelectorAllDeep(contextNode, 'form');
   const conditions = formFilter.split('&&');
 
   for (const form of forms) {
@@ -443,9 +568,9 @@ export function findByTagSelector(
     searchContext = matchingForm;
   }
 
-  // Get all potential elements
+  // Get all potential elements, including those in open shadow roots
   const tagName = parsedSelector.tag.toUpperCase() === '*' ? '*' : parsedSelector.tag;
-  const allElements = Array.from(searchContext.querySelectorAll(tagName));
+  const allElements = querySelectorAllDeep(searchContext, tagName);
 
   // Filter by type and attributes
   const matchingElements: Element[] = [];
@@ -495,6 +620,101 @@ export function findByTagSelector(
   };
 }
 
+// ===== Fallback Locators =====
+
+/**
+ * Kinds of fallback locator recorded alongside a TAG command
+ */
+export type FallbackLocatorKind = 'ID' | 'NAME' | 'TXT' | 'XPATH' | 'CSS' | 'LABEL';
+
+const FALLBACK_LOCATOR_KINDS: FallbackLocatorKind[] = ['ID', 'NAME', 'TXT', 'XPATH', 'CSS', 'LABEL'];
+
+/**
+ * Separator between locators in TAG FALLBACK="..." (same as the shared TAG handler)
+ */
+export const FALLBACK_SEPARATOR = '||';
+
+/**
+ * Split a fallback locator ("KIND:value") into its kind and value
+ */
+export function parseFallbackLocator(locator: string): { kind: FallbackLocatorKind; value: string } | null {
+  const colonIndex = locator.indexOf(':');
+  if (colonIndex <= 0) return null;
+  const kind = locator.substring(0, colonIndex).trim().toUpperCase() as FallbackLocatorKind;
+  const value = locator.substring(colonIndex + 1).trim();
+  if (!FALLBACK_LOCATOR_KINDS.includes(kind) || !value) return null;
+  return { kind, value };
+}
+
+/**
+ * Get the text of the label associated with a form control
+ * (<label for>, a wrapping <label>, or aria-label)
+ */
+export function getLabelText(element: Element): string | null {
+  const labels = (element as HTMLInputElement).labels;
+  if (labels && labels.length > 0) {
+    const text = getFullTextContent(labels[0]);
+    if (text) return text;
+  }
+  const ariaLabel = element.getAttribute('aria-label');
+  return ariaLabel && ariaLabel.trim() ? ariaLabel.trim() : null;
+}
+
+/**
+ * Find form controls by the text of their label (wildcards allowed)
+ */
+export function findByLabel(text: string, contextNode: Element | Document = document): ElementFinderResult {
+  const elements = querySelectorAllDeep(contextNode, 'input, select, textarea, button, [aria-label]')
+    .filter((el) => {
+      const label = getLabelText(el);
+      return label !== null && matchesWildcard(label, text);
+    });
+  return { element: elements[0] || null, elements, count: elements.length };
+}
+
+/**
+ * Resolve one fallback locator. NAME and TXT are matched among elements of
+ * the TAG command's TYPE. An ambiguous XPath counts as no match.
+ */
+export function findByFallbackLocator(
+  locator: string,
+  type: string | undefined,
+  contextNode: Element | Document = document
+): ElementFinderResult {
+  const parsed = parseFallbackLocator(locator);
+  if (!parsed) {
+    return { element: null, elements: [], count: 0 };
+  }
+
+  switch (parsed.kind) {
+    case 'ID': {
+      const elements = querySelectorAllDeep(contextNode, '[id]').filter((el) => el.id === parsed.value);
+      return { element: elements[0] || null, elements, count: elements.length };
+    }
+    case 'NAME':
+    case 'TXT':
+      return findByTagSelector({
+        tag: type ? type.split(':')[0] : '*',
+        type,
+        pos: 1,
+        attrs: { [parsed.kind]: parsed.value },
+      }, contextNode);
+    case 'XPATH':
+      try {
+        return findByXPath(parsed.value, contextNode);
+      } catch (error) {
+        if (error instanceof XPathAmbiguousError) {
+          return { element: null, elements: [], count: error.matchCount };
+        }
+        throw error;
+      }
+    case 'CSS':
+      return findByCssSelector(parsed.value, contextNode);
+    case 'LABEL':
+      return findByLabel(parsed.value, contextNode);
+  }
+}
+
 /**
  * Unified element finder - determines the selector type and uses appropriate method
  */
@@ -643,4 +863,11 @@ export default {
   matchesTextContent,
   matchesType,
   findMatchingForm,
+  querySelectorAllDeep,
+  getOpenShadowRoots,
+  splitShadowSelector,
+  parseFallbackLocator,
+  findByFallbackLocator,
+  findByLabel,
+  getLabelText,
 };
@@ -3,13 +3,21 @@
  *
  * Captures user interactions (clicks, form changes, keyboard input)
  * and generates TAG commands with correct POS/TYPE/ATTR.
+ * Elements inside open shadow roots are recorded with POS counted the same
+ * way TAG replays it (shadow content included, right after its host).
+ * Each TAG also records FALLBACK locators (id, name, text, relative XPath,
+ * CSS path, label) that replay tries when the primary locator stops matching.
  * Sends recorded events to native host through background script.
  */
 
 import {
   getAttributeValue,
   getFullTextContent,
+  getLabelText,
+  findByFallbackLocator,
   matchesType,
+  querySelectorAllDeep,
+  FALLBACK_SEPARATOR,
 } from './element-finder';
 import {
   highlightElement,
@@ -129,6 +137,93 @@ const ELEMENT_TYPE_MAP: Record<string, string> = {
   'BUTTON:button': 'BUTTON:BUTTON',
 };
 
+/**
+ * Get the element an event originated from. Events crossing a shadow
+ * boundary are retargeted to the host, so use the composed path when
+ * the shadow root is open.
+ */
+function getEventTarget(e: Event): Element | null {
+  const [origin] = typeof e.composedPath === 'function' ? e.composedPath() : [];
+  if (origin && (origin as Node).nodeType === Node.ELEMENT_NODE) {
+    return origin as Element;
+  }
+  return e.target as Element | null;
+}
+
+/**
+ * Get the shadow root containing an element, or null if it is in the light DOM
+ */
+function getContainingShadowRoot(element: Element): ShadowRoot | null {
+  const root = element.getRootNode?.();
+  return root && root !== element.ownerDocument && root.nodeType === Node.DOCUMENT_FRAGMENT_NODE
+    ? root as ShadowRoot
+    : null;
+}
+
+/**
+ * Get the 1-based index of an element among its siblings with the same tag
+ */
+function getIndexOfType(element: Element): number {
+  let index = 1;
+  for (let sibling = element.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    if (sibling.tagName === element.tagName) index++;
+  }
+  return index;
+}
+
+/**
+ * Build an XPath to an element, anchored at the nearest ancestor with an id
+ * (absolute when there is none). Returns null inside shadow roots, which
+ * XPath cannot reach.
+ */
+function buildRelativeXPath(element: Element): string | null {
+  if (getContainingShadowRoot(element)) {
+    return null;
+  }
+
+  const steps: string[] = [];
+  let node: Element | null = element;
+  while (node) {
+    if (node !== element && node.id && !node.id.includes("'")) {
+      return `//*[@id='${node.id}']/${steps.join('/')}`;
+    }
+    steps.unshift(`${node.tagName.toLowerCase()}[${getIndexOfType(node)}]`);
+    node = node.parentElement;
+  }
+  return `/${steps.join('/')}`;
+}
+
+/**
+ * Build a CSS path to an element, crossing open shadow roots with >>>
+ */
+function buildCssPath(element: Element): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const parts: string[] = [];
+    let node: Element | null = current;
+    while (node) {
+      if (/^[A-Za-z][\w-]*$/.test(node.id)) {
+        parts.unshift(`#${node.id}`);
+        break;
+      }
+      if (node.tagName === 'BODY') {
+        parts.unshift('body');
+        break;
+      }
+      parts.unshift(`${node.tagName.toLowerCase()}:nth-of-type(${getIndexOfType(node)})`);
+      node = node.parentElement;
+    }
+    segments.unshift(parts.join(' > '));
+
+    const shadowRoot = getContainingShadowRoot(current);
+    current = shadowRoot ? shadowRoot.host : null;
+  }
+
+  return segments.join(' >>> ');
+}
+
 /**
  * Callback for when an event is recorded
  */
@@ -152,6 +247,8 @@ export interface MacroRecorderConfig {
   preferredAttributes: string[];
   /** Whether to highlight elements during recording */
   highlightElements: boolean;
+  /** Whether to record FALLBACK locators on TAG commands */
+  recordFallbacks: boolean;
 }
 
 /**
@@ -165,6 +262,7 @@ const DEFAULT_CONFIG: MacroRecorderConfig = {
   useTextContent: true,
   preferredAttributes: ['id', 'name', 'class', 'href', 'src', 'value', 'title', 'placeholder'],
   highlightElements: true,
+  recordFallbacks: true,
 };
 
 /**
@@ -207,6 +305,9 @@ export class MacroRecorder {
   /** Currently hovered element for highlighting */
   private currentHoveredElement: Element | null = null;
 
+  /** Shadow roots with a change listener (change events do not cross shadow boundaries) */
+  private watchedShadowRoots: Set<ShadowRoot> = new Set();
+
   constructor(config: Partial<MacroRecorderConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
 
@@ -570,20 +671,41 @@ export class MacroRecorder {
     document.removeEventListener('keydown', this.boundHandlers.keydown, true);
     document.removeEventListener('mouseover', this.boundHandlers.mouseover, true);
     document.removeEventListener('mouseout', this.boundHandlers.mouseout, true);
+    for (const root of this.watchedShadowRoots) {
+      root.removeEventListener('change', this.boundHandlers.change, true);
+    }
+    this.watchedShadowRoots.clear();
 
     // Clear any active highlight
     this.currentHoveredElement = null;
     clearElementHighlight();
   }
 
+  /**
+   * Listen for change events in the shadow roots around an element.
+   * Called for elements the user points at or clicks, before they edit them.
+   */
+  private watchShadowRoots(element: Element): void {
+    if (!this.config.recordInputs) {
+      return;
+    }
+    let root = getContainingShadowRoot(element);
+    while (root && !this.watchedShadowRoots.has(root)) {
+      root.addEventListener('change', this.boundHandlers.change, true);
+      this.watchedShadowRoots.add(root);
+      root = getContainingShadowRoot(root.host);
+    }
+  }
+
   /**
    * Handle click events
    */
   private handleClick(e: MouseEvent): void {
-    const target = e.target as Element;
+    const target = getEventTarget(e);
     if (!target || !this.isRecordableElement(target)) {
       return;
     }
+    this.watchShadowRoots(target);
 
     // Skip if this is an input element (will be handled by input/change)
     const tagName = target.tagName.toUpperCase();
@@ -622,7 +744,7 @@ export class MacroRecorder {
    * Handle change events
    */
   private handleChange(e: Event): void {
-    const target = e.target as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+    const target = getEventTarget(e) as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | null;
     if (!target || !this.isRecordableElement(target)) {
       return;
     }
@@ -726,8 +848,8 @@ export class MacroRecorder {
     }
 
     // Skip if target is an input (normal typing)
-    const target = e.target as Element;
-    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
+    const target = getEventTarget(e);
+    if (!target || target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') {
       return;
     }
 
@@ -759,10 +881,11 @@ export class MacroRecorder {
       return;
     }
 
-    const target = e.target as Element;
+    const target = getEventTarget(e);
     if (!target || !this.isRecordableElement(target)) {
       return;
     }
+    this.watchShadowRoots(target);
 
     // Skip iMacros highlight overlays themselves
     if (target.classList.contains('imacros-element-highlight') ||
@@ -793,10 +916,10 @@ export class MacroRecorder {
       return;
     }
 
-    const target = e.target as Element;
+    const target = getEventTarget(e);
 
     // Only clear if we're leaving the currently highlighted element
-    if (target === this.currentHoveredElement) {
+    if (target && target === this.currentHoveredElement) {
       // Check if we're moving to a child element (don't clear in that case)
       const relatedTarget = e.relatedTarget as Element | null;
       if (relatedTarget && this.currentHoveredElement.contains(relatedTarget)) {
@@ -879,7 +1002,7 @@ export class MacroRecorder {
     }
 
     // Find all matching elements
-    const allMatching = Array.from(document.querySelectorAll(cssSelector));
+    const allMatching = querySelectorAllDeep(document, cssSelector);
 
     // Find position (1-indexed)
     const index = allMatching.indexOf(element);
@@ -961,6 +1084,15 @@ export class MacroRecorder {
       parts.push(`ATTR:${name}=${value}`);
     }
 
+    // Add fallback locators for replay when the primary one stops matching
+    if (this.config.recordFallbacks) {
+      const fallbacks = this.getFallbackLocators(element, type, attrs);
+      if (fallbacks.length > 0) {
+        const value = fallbacks.join(FALLBACK_SEPARATOR).replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+        parts.push(`FALLBACK="${value}"`);
+      }
+    }
+
     // Add CONTENT if specified
     if (options.content !== undefined) {
       const escapedContent = this.escapeContentValue(options.content);
@@ -970,6 +1102,44 @@ export class MacroRecorder {
     return parts.join(' ');
   }
 
+  /**
+   * Collect alternative locators for an element: id, name, text, relative
+   * XPath, CSS path and label. Only locators that resolve to exactly this
+   * element are kept, and ones repeating the primary ATTR are skipped.
+   */
+  private getFallbackLocators(element: Element, type: string, attrs: Record<string, string>): string[] {
+    const candidates: string[] = [];
+
+    if (element.id && !attrs['ID']) {
+      candidates.push(`ID:${element.id}`);
+    }
+    const name = element.getAttribute('name');
+    if (name && !attrs['NAME']) {
+      candidates.push(`NAME:${name}`);
+    }
+    const text = this.escapeAttributeValue(getFullTextContent(element));
+    if (text && text.length < 100 && !attrs['TXT']) {
+      candidates.push(`TXT:${text}`);
+    }
+    const xpath = buildRelativeXPath(element);
+    if (xpath) {
+      candidates.push(`XPATH:${xpath}`);
+    }
+    candidates.push(`CSS:${buildCssPath(element)}`);
+    const label = getLabelText(element);
+    if (label && label.length < 100) {
+      candidates.push(`LABEL:${this.escapeAttributeValue(label)}`);
+    }
+
+    return candidates.filter((locator) => {
+      if (locator.includes(FALLBACK_SEPARATOR)) {
+        return false;
+      }
+      const result = findByFallbackLocator(locator, type, document);
+      return result.count === 1 && result.element === element;
+    });
+  }
+
   /**
    * Calculate position for element with given type and attributes
    */
@@ -978,8 +1148,8 @@ export class MacroRecorder {
     type: string,
     attrs: Record<string, string>
   ): number {
-    // If we have a unique ID, position is 1
-    if (attrs['ID']) {
+    // If we have a unique ID, position is 1 (IDs are only unique within one shadow root)
+    if (attrs['ID'] && !getContainingShadowRoot(element)) {
       return 1;
     }
 
@@ -992,8 +1162,8 @@ export class MacroRecorder {
       selector = `input[type="${inputType}"]`;
     }
 
-    // Find all matching elements
-    const allElements = Array.from(document.querySelectorAll(selector));
+    // Find all matching elements, counted the same way TAG replay does
+    const allElements = querySelectorAllDeep(document, selector);
 
     // Filter by matching attributes
     const matchingElements = allElements.filter((el) => {
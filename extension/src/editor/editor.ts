@@ -13,6 +13,9 @@ import { javascript } from '@codemirror/lang-javascript';
 import { createMessageId, createTimestamp, parseMacro, ParseError } from '@shared/index';
 import { syntaxHighlighting } from '@codemirror/language';
 import { iim, iimHighlightStyle, getCommandCompletions, getParameterCompletions, getVariableCompletions, COMMANDS } from './iim-mode';
+import { getPlaybackFeedbackExtensions, breakpointState, clearBreakpoints, toggleBreakpoint } from './playback-feedback';
+import { MacroDebugger } from './macro-debugger';
+import { signEditorMacro, describeSignature } from './macro-signing';
 
 /**
  * Editor state interface
@@ -190,12 +193,16 @@ function createEditor(container: HTMLElement, initialContent: string = '', fileT
       completionConf.of(getCompletionExtension(fileType)),
       lintGutter(),
       linterConf.of(getLinterExtension(fileType)),
+      getPlaybackFeedbackExtensions(),
       EditorView.updateListener.of((update) => {
         if (update.docChanged) {
           const content = update.state.doc.toString();
           state.isModified = content !== state.originalContent;
           updateUI();
         }
+        if (update.startState.field(breakpointState) !== update.state.field(breakpointState)) {
+          macroDebugger.syncBreakpoints().catch((error) => console.error('Failed to update breakpoints:', error));
+        }
       }),
       EditorView.theme({
         '&': {
@@ -304,6 +311,7 @@ async function loadMacro(path: string): Promise<void> {
           insert: content,
         },
         effects: [
+          clearBreakpoints.of(undefined),
           languageConf.reconfigure(getLanguageExtension(fileType)),
           linterConf.reconfigure(getLinterExtension(fileType)),
           completionConf.reconfigure(getCompletionExtension(fileType)),
@@ -312,7 +320,12 @@ async function loadMacro(path: string): Promise<void> {
     }
 
     updateUI();
-    showStatus('Loaded', 'success');
+    const signature = describeSignature(content);
+    if (signature) {
+      showStatus(signature.message, signature.type);
+    } else {
+      showStatus('Loaded', 'success');
+    }
   } catch (error) {
     showStatus(`Error: ${error}`, 'error');
     console.error('Failed to load macro:', error);
@@ -392,6 +405,7 @@ URL GOTO=https://example.com
         to: editorView.state.doc.length,
         insert: template,
       },
+      effects: clearBreakpoints.of(undefined),
     });
   }
 
@@ -430,6 +444,59 @@ async function runMacro(): Promise<void> {
   }
 }
 
+/**
+ * Sign the current macro with the publisher key
+ */
+async function signMacro(): Promise<void> {
+  if (!editorView) return;
+
+  if (getFileType(state.currentPath) !== 'iim') {
+    showStatus('Only .iim macros can be signed', 'error');
+    return;
+  }
+
+  await signEditorMacro(editorView, showStatus);
+}
+
+/**
+ * Save the macro if needed and return its path for the debugger
+ */
+async function prepareMacroForDebug(): Promise<string | null> {
+  if (state.isModified) {
+    await saveMacro();
+  }
+  if (!state.currentPath) {
+    showStatus('Please save the macro first', 'error');
+    return null;
+  }
+  if (getFileType(state.currentPath) !== 'iim') {
+    showStatus('Only .iim macros can be debugged', 'error');
+    return null;
+  }
+  return state.currentPath;
+}
+
+/**
+ * Debugger for .iim macros (breakpoints, step over, run to cursor, variables)
+ */
+const macroDebugger = new MacroDebugger({
+  sendToBackground,
+  getView: () => editorView,
+  prepareMacro: prepareMacroForDebug,
+  showStatus,
+});
+
+/**
+ * Start debugging, or continue when paused
+ */
+function debugOrContinue(): void {
+  if (macroDebugger.getSessionState() === 'paused') {
+    macroDebugger.continue();
+  } else {
+    macroDebugger.start();
+  }
+}
+
 /**
  * Show status message
  */
@@ -480,6 +547,32 @@ function handleKeyDown(event: KeyboardEvent): void {
     event.preventDefault();
     runMacro();
   }
+
+  // F6 = Debug / Continue, Shift+F6 = Stop debugging
+  if (event.key === 'F6') {
+    event.preventDefault();
+    if (event.shiftKey) {
+      macroDebugger.stop();
+    } else {
+      debugOrContinue();
+    }
+  }
+
+  // F9 = Toggle breakpoint on the cursor line
+  if (event.key === 'F9' && editorView) {
+    event.preventDefault();
+    toggleBreakpoint(editorView, editorView.state.doc.lineAt(editorView.state.selection.main.head).number);
+  }
+
+  // F10 = Step over, Ctrl/Cmd + F10 = Run to cursor
+  if (event.key === 'F10') {
+    event.preventDefault();
+    if (event.ctrlKey || event.metaKey) {
+      macroDebugger.runToCursor();
+    } else {
+      macroDebugger.stepOver();
+    }
+  }
 }
 
 /**
@@ -490,6 +583,15 @@ function setupToolbar(): void {
   document.getElementById('btn-save')?.addEventListener('click', saveMacro);
   document.getElementById('btn-run')?.addEventListener('click', runMacro);
 
+  // Debugger buttons
+  document.getElementById('btn-debug')?.addEventListener('click', () => macroDebugger.start());
+  document.getElementById('btn-debug-continue')?.addEventListener('click', () => macroDebugger.continue());
+  document.getElementById('btn-debug-step')?.addEventListener('click', () => macroDebugger.stepOver());
+  document.getElementById('btn-debug-cursor')?.addEventListener('click', () => macroDebugger.runToCursor());
+  document.getElementById('btn-debug-stop')?.addEventListener('click', () => macroDebugger.stop());
+
+  document.getElementById('btn-sign')?.addEventListener('click', signMacro);
+
   // Close button
   document.getElementById('btn-close')?.addEventListener('click', () => {
     if (state.isModified) {
@@ -533,6 +635,11 @@ function initializeEditor(): void {
   // Setup beforeunload warning
   window.addEventListener('beforeunload', handleBeforeUnload);
 
+  // Debugger pauses and macro completion relayed by the background script
+  chrome.runtime.onMessage.addListener((message) => {
+    macroDebugger.handleMessage(message);
+  });
+
   // Check if we should load a specific macro
   const path = getPathFromURL();
   if (path) {
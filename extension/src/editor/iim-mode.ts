@@ -19,6 +19,12 @@ const COMMANDS = [
   'SET', 'ADD', 'EXTRACT', 'SAVEAS', 'SAVEITEM', 'PROMPT', 'SEARCH',
   // Control flow
   'WAIT', 'PAUSE', 'STOPWATCH',
+  // Conditionals and loops
+  'IF', 'ELSEIF', 'ELSE', 'ENDIF', 'WHILE', 'ENDWHILE', 'GOTO', 'LABEL',
+  // Sub-macros
+  'CALL', 'RETURN',
+  // Error handling blocks
+  'TRY', 'CATCH', 'ENDTRY', 'RETRY', 'ON_ERROR',
   // File handling
   'ONDOWNLOAD', 'FILTER', 'FILEDELETE',
   // Dialog handling
@@ -35,21 +41,32 @@ const COMMANDS = [
   // Connection management
   'DISCONNECT', 'REDIAL',
   // Data source
-  'DS'
+  'DS',
+  // Network capture
+  'NETCAPTURE',
+  // Request headers
+  'HEADER',
+  // Mocked responses
+  'MOCK',
+  // Session reuse
+  'COOKIES', 'STORAGE'
 ];
 
 /**
  * Parameter keywords commonly used in iMacros
  */
 const PARAMETERS = [
-  'GOTO', 'POS', 'TYPE', 'FORM', 'ATTR', 'CONTENT', 'EXTRACT', 'XPATH',
+  'GOTO', 'POS', 'TYPE', 'FORM', 'ATTR', 'CONTENT', 'EXTRACT', 'AS', 'XPATH',
   'T', 'F', 'NAME', 'SECONDS', 'FOLDER', 'FILE', 'BUILD', 'RECORDER',
   'BUTTON', 'ID', 'LABEL', 'SOURCE', 'ADDRESS', 'BYPASS', 'IMAGE',
   'CONFIDENCE', 'USER', 'PASSWORD', 'X', 'Y', 'SELECTOR', 'KEY', 'CHAR',
   'POINT', 'MODIFIERS', 'CLOSE', 'CLOSEALLOTHERS', 'OPEN', 'NEW',
   'START', 'STOP', 'WAIT', 'IGNORE_CASE', 'YES', 'NO', 'TRUE', 'FALSE',
   'OK', 'CANCEL', 'TXT', 'REGEXP', 'CPT', 'HTM', 'MHT', 'BMP', 'PNG',
-  'JPEG', 'BROWSER', 'PAGE'
+  'JPEG', 'JSON', 'JSONL', 'XLSX', 'BROWSER', 'PAGE', 'MACRO',
+  'BACKOFF', 'CONTINUE', 'FALLBACK', 'FOR', 'REQUEST', 'QUERY', 'HEADER', 'HAR',
+  'PATTERN', 'KIND', 'RESOURCE', 'VALUE', 'DOMAIN', 'STRIP', 'OFF',
+  'BODY', 'STATUS', 'EXPORT', 'IMPORT', 'GET', 'LOCAL', 'SESSION'
 ];
 
 /**
@@ -59,12 +76,17 @@ const SYSTEM_VARS = [
   '!VAR0', '!VAR1', '!VAR2', '!VAR3', '!VAR4', '!VAR5', '!VAR6', '!VAR7', '!VAR8', '!VAR9',
   '!COL1', '!COL2', '!COL3', '!COL4', '!COL5', '!COL6', '!COL7', '!COL8', '!COL9', '!COL10',
   '!LOOP', '!DATASOURCE', '!DATASOURCE_LINE', '!DATASOURCE_COLUMNS',
+  '!DATASOURCE_SHEET', '!DATASOURCE_HEADER',
   '!EXTRACT', '!EXTRACT_TEST_POPUP', '!ENCRYPTION',
   '!NOW', '!TIMEOUT', '!TIMEOUT_STEP', '!TIMEOUT_PAGE',
   '!ERRORIGNORE', '!ERRORLOOP', '!SINGLESTEP',
+  '!ERR_CODE', '!ERR_MESSAGE', '!ERR_LINE',
   '!FOLDER_DATASOURCE', '!FOLDER_DOWNLOAD', '!FOLDER_MACROS',
   '!URLSTART', '!URLCURRENT', '!FILESTOPWATCH',
-  '!CLIPBOARD', '!DOWNLOADPDF'
+  '!CLIPBOARD', '!DOWNLOADPDF', '!USERAGENT',
+  '!NET_COUNT', '!NET_URL', '!NET_METHOD', '!NET_STATUS', '!NET_TIME',
+  '!NET_HEADERS', '!NET_HEADER', '!NET_ERROR', '!MOCK_HITS',
+  '!STORAGE_VALUE'
 ];
 
 /**
@@ -151,7 +173,9 @@ export const iimLanguage = StreamLanguage.define({
     }
 
     // Handle commands at the start of a logical statement
-    if (stream.match(commandRegex)) {
+    // (a keyword directly followed by '=' is a parameter, e.g. URL GOTO=...)
+    if (stream.match(commandRegex, false) && !stream.match(/^[a-zA-Z_]+=/, false)) {
+      stream.match(commandRegex);
       return 'keyword';
     }
 
@@ -277,6 +301,26 @@ function getCommandDescription(cmd: string): string {
     'STOPWATCH': 'Measure execution time',
     'PROXY': 'Configure proxy settings',
     'DS': 'Configure datasource',
+    'IF': 'Run the following lines only if a condition is true',
+    'ELSEIF': 'Alternative condition in an IF block',
+    'ELSE': 'Lines to run when no IF condition matched',
+    'ENDIF': 'End of an IF block',
+    'WHILE': 'Repeat lines while a condition is true',
+    'ENDWHILE': 'End of a WHILE loop',
+    'GOTO': 'Jump to a LABEL',
+    'LABEL': 'Mark a position for GOTO',
+    'CALL': 'Run another macro with named arguments',
+    'RETURN': 'End a called macro and pass values back',
+    'TRY': 'Start a block whose errors are handled by CATCH',
+    'CATCH': 'Lines to run when the TRY block fails',
+    'ENDTRY': 'End of a TRY block',
+    'RETRY': 'Re-run the failed TRY block with a backoff',
+    'ON_ERROR': 'Set how errors on the following lines are handled',
+    'NETCAPTURE': 'Record network requests',
+    'HEADER': 'Set or strip a request header',
+    'MOCK': 'Serve a canned response for matching requests',
+    'COOKIES': 'Export or import cookies to reuse a session',
+    'STORAGE': 'Read or write localStorage and sessionStorage',
   };
   return descriptions[cmd] || '';
 }
@@ -293,8 +337,15 @@ function getVariableDescription(varName: string): string {
     '!ERRORIGNORE': 'Error handling mode',
     '!DATASOURCE': 'Current datasource file',
     '!DATASOURCE_LINE': 'Current datasource line',
+    '!DATASOURCE_COLUMNS': 'Datasource column names (or count)',
+    '!DATASOURCE_SHEET': 'Workbook sheet to read (name or number)',
+    '!DATASOURCE_HEADER': 'First datasource row holds column names',
     '!URLCURRENT': 'Current page URL',
     '!CLIPBOARD': 'System clipboard content',
+    '!NET_STATUS': 'HTTP status of the last queried request',
+    '!USERAGENT': 'User-Agent header sent with requests',
+    '!MOCK_HITS': 'Requests served by the mock read with MOCK QUERY',
+    '!STORAGE_VALUE': 'Item read by STORAGE GET',
   };
   return descriptions[varName] || '';
 }
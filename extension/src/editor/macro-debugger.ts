@@ -0,0 +1,276 @@
+/**
+ * Macro Debugger for the iMacros editor
+ *
+ * Step-through debugging of .iim macros:
+ * - Start the macro with the breakpoints set in the gutter
+ * - Continue, step over (a CALL runs as one step) and run to the cursor line
+ * - Highlight the paused line and show all variables, marking the ones that
+ *   changed since the previous pause
+ * - Breakpoints edited while the macro runs are sent to the native host
+ */
+
+import { EditorView } from '@codemirror/view';
+import type { DebugAction, DebugPauseInfo, VariableValue } from '@shared/index';
+import { getBreakpoints, highlightPlayingLine, clearPlaybackHighlighting } from './playback-feedback';
+
+/**
+ * Debug session state
+ */
+export type DebugSessionState = 'idle' | 'running' | 'paused';
+
+/**
+ * Options for MacroDebugger
+ */
+export interface MacroDebuggerOptions {
+  /** Send a message to the background script */
+  sendToBackground: (type: string, payload?: unknown) => Promise<unknown>;
+  /** The editor view */
+  getView: () => EditorView | null;
+  /** Save the macro if needed and return its path (null: cannot run) */
+  prepareMacro: () => Promise<string | null>;
+  /** Show a status message */
+  showStatus: (message: string, type?: 'info' | 'success' | 'error') => void;
+}
+
+const PAUSE_REASONS: Record<DebugPauseInfo['reason'], string> = {
+  breakpoint: 'Breakpoint',
+  step: 'Step',
+  cursor: 'Run to cursor',
+};
+
+/**
+ * Format a variable value for the variables pane
+ */
+export function formatVariableValue(value: VariableValue): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  return String(value);
+}
+
+/**
+ * Render the variables of a pause into #debug-variables, marking the ones
+ * that changed since `previous`
+ */
+export function renderVariables(
+  variables: Record<string, VariableValue>,
+  previous: Record<string, VariableValue> = {}
+): void {
+  const list = document.getElementById('debug-variables');
+  if (!list) {
+    return;
+  }
+
+  const names = Object.keys(variables).sort((a, b) => a.localeCompare(b));
+  if (names.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'debug-variables-empty';
+    empty.textContent = 'No variables';
+    list.replaceChildren(empty);
+    return;
+  }
+
+  list.replaceChildren(...names.map((name) => {
+    const row = document.createElement('div');
+    const changed = name in previous && previous[name] !== variables[name];
+    row.className = changed ? 'debug-variable changed' : 'debug-variable';
+    const nameEl = document.createElement('span');
+    nameEl.className = 'debug-variable-name';
+    nameEl.textContent = name;
+    const valueEl = document.createElement('span');
+    valueEl.className = 'debug-variable-value';
+    valueEl.textContent = formatVariableValue(variables[name]);
+    valueEl.title = valueEl.textContent;
+    row.append(nameEl, valueEl);
+    return row;
+  }));
+}
+
+/**
+ * Debugger controller: drives a debug session from the editor toolbar and
+ * the native host's MACRO_DEBUG_PAUSED messages
+ */
+export class MacroDebugger {
+  private options: MacroDebuggerOptions;
+  private sessionState: DebugSessionState = 'idle';
+  private lastVariables: Record<string, VariableValue> = {};
+
+  constructor(options: MacroDebuggerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Start the macro in the debugger
+   */
+  async start(): Promise<void> {
+    const view = this.options.getView();
+    if (!view || this.sessionState !== 'idle') return;
+
+    const path = await this.options.prepareMacro();
+    if (!path) return;
+
+    this.lastVariables = {};
+    renderVariables({});
+    this.setSessionState('running');
+    try {
+      const response = await this.options.sendToBackground('PLAY_MACRO', {
+        path,
+        loop: false,
+        breakpoints: getBreakpoints(view.state),
+      }) as { success: boolean; error?: string } | undefined;
+      if (response && !response.success) {
+        throw new Error(response.error || 'Failed to start macro');
+      }
+      this.options.showStatus('Debugging...', 'info');
+    } catch (error) {
+      this.endSession();
+      this.options.showStatus(`Error: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+  }
+
+  /**
+   * Run to the next breakpoint
+   */
+  continue(): Promise<void> {
+    return this.resumeWith({ action: 'continue' });
+  }
+
+  /**
+   * Run the paused command and pause on the next one
+   */
+  stepOver(): Promise<void> {
+    return this.resumeWith({ action: 'step' });
+  }
+
+  /**
+   * Run to the line with the cursor
+   */
+  runToCursor(): Promise<void> {
+    const view = this.options.getView();
+    if (!view) return Promise.resolve();
+    const line = view.state.doc.lineAt(view.state.selection.main.head).number;
+    return this.resumeWith({ action: 'run_to_line', line });
+  }
+
+  /**
+   * Stop the macro
+   */
+  async stop(): Promise<void> {
+    if (this.sessionState === 'idle') return;
+    await this.options.sendToBackground('STOP_MACRO');
+    this.endSession();
+    this.options.showStatus('Macro stopped', 'info');
+  }
+
+  /**
+   * Send the gutter's breakpoints to a running macro
+   */
+  async syncBreakpoints(): Promise<void> {
+    const view = this.options.getView();
+    if (!view || this.sessionState === 'idle') return;
+    const action: DebugAction = { action: 'set_breakpoints', breakpoints: getBreakpoints(view.state) };
+    await this.options.sendToBackground('DEBUG_COMMAND', action);
+  }
+
+  /**
+   * Handle a message relayed from the native host
+   */
+  handleMessage(message: { type?: string; payload?: unknown }): void {
+    if (this.sessionState === 'idle') return;
+
+    switch (message.type) {
+      case 'MACRO_DEBUG_PAUSED':
+        this.onPaused(message.payload as DebugPauseInfo);
+        break;
+
+      case 'MACRO_COMPLETE':
+        this.endSession();
+        this.options.showStatus('Macro completed', 'success');
+        break;
+
+      case 'MACRO_ERROR': {
+        const payload = message.payload as { errorMessage?: string; error?: string } | undefined;
+        this.endSession();
+        this.options.showStatus(`Error: ${payload?.errorMessage || payload?.error || 'Macro failed'}`, 'error');
+        break;
+      }
+
+      case 'STATUS_UPDATE':
+        if ((message.payload as { status?: string } | undefined)?.status === 'idle') {
+          this.endSession();
+        }
+        break;
+    }
+  }
+
+  /**
+   * Get the session state
+   */
+  getSessionState(): DebugSessionState {
+    return this.sessionState;
+  }
+
+  /**
+   * Show a pause: highlight and scroll to the line, render the variables
+   */
+  private onPaused(info: DebugPauseInfo): void {
+    this.setSessionState('paused');
+    const view = this.options.getView();
+    if (view && info.line >= 1 && info.line <= view.state.doc.lines) {
+      highlightPlayingLine(view, info.line);
+      view.dispatch({
+        effects: EditorView.scrollIntoView(view.state.doc.line(info.line).from, { y: 'center' }),
+      });
+    }
+    renderVariables(info.variables, this.lastVariables);
+    this.lastVariables = info.variables;
+    this.options.showStatus(`${PAUSE_REASONS[info.reason]}: paused on line ${info.line}`, 'info');
+  }
+
+  /**
+   * Release a pause with a debugger action
+   */
+  private async resumeWith(action: DebugAction): Promise<void> {
+    if (this.sessionState !== 'paused') return;
+    this.setSessionState('running');
+    try {
+      await this.options.sendToBackground('DEBUG_COMMAND', action);
+    } catch (error) {
+      this.setSessionState('paused');
+      this.options.showStatus(`Error: ${error instanceof Error ? error.message : error}`, 'error');
+    }
+  }
+
+  /**
+   * Leave debugging: clear the paused line and enable Debug again
+   */
+  private endSession(): void {
+    this.setSessionState('idle');
+    const view = this.options.getView();
+    if (view) {
+      clearPlaybackHighlighting(view);
+    }
+  }
+
+  /**
+   * Update the debug toolbar and variables pane for a session state
+   */
+  private setSessionState(sessionState: DebugSessionState): void {
+    this.sessionState = sessionState;
+    const enable = (id: string, enabled: boolean) => {
+      const button = document.getElementById(id) as HTMLButtonElement | null;
+      if (button) {
+        button.disabled = !enabled;
+      }
+    };
+    enable('btn-debug', sessionState === 'idle');
+    enable('btn-debug-continue', sessionState === 'paused');
+    enable('btn-debug-step', sessionState === 'paused');
+    enable('btn-debug-cursor', sessionState === 'paused');
+    enable('btn-debug-stop', sessionState !== 'idle');
+    // The pane stays open after the session so the last variables can be read
+    if (sessionState !== 'idle') {
+      document.getElementById('debug-pane')?.classList.remove('hidden');
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Macro Signing for the iMacros editor
+ *
+ * Signs the macro in the editor with the publisher's Ed25519 key:
+ * - The key is created on first use (asking for the publisher name) and kept
+ *   in chrome.storage.local; only the public key ever leaves the browser
+ * - Signing replaces any existing signature block at the top of the macro
+ * - The public key is shown so it can be given to teammates, who add it to
+ *   their trusted publishers
+ */
+
+import { EditorView } from '@codemirror/view';
+import {
+  createSigningKey,
+  signMacro,
+  verifyMacroSignature,
+  getKeyFingerprint,
+  type MacroSigningKey,
+} from '@shared/macro-signature';
+
+/**
+ * Storage key for the signing key
+ */
+export const SIGNING_KEY_STORAGE_KEY = 'macroSigningKey';
+
+/**
+ * Load the signing key from storage
+ */
+export async function loadSigningKey(): Promise<MacroSigningKey | null> {
+  const result = await chrome.storage.local.get(SIGNING_KEY_STORAGE_KEY);
+  return (result[SIGNING_KEY_STORAGE_KEY] as MacroSigningKey | undefined) ?? null;
+}
+
+/**
+ * Load the signing key, creating one when there is none.
+ * Returns null if the user cancels the publisher name prompt.
+ */
+export async function getOrCreateSigningKey(): Promise<MacroSigningKey | null> {
+  const existing = await loadSigningKey();
+  if (existing) {
+    return existing;
+  }
+
+  const publisher = window.prompt('Publisher name for your signatures:', '');
+  if (!publisher?.trim()) {
+    return null;
+  }
+  const key = createSigningKey(publisher);
+  await chrome.storage.local.set({ [SIGNING_KEY_STORAGE_KEY]: key });
+  window.prompt('Signing key created. Share this public key with people who should trust your macros:', key.publicKey);
+  return key;
+}
+
+/**
+ * Sign the macro in the editor, replacing its content with the signed macro
+ */
+export async function signEditorMacro(
+  view: EditorView,
+  showStatus: (message: string, type?: 'info' | 'success' | 'error') => void
+): Promise<boolean> {
+  try {
+    const key = await getOrCreateSigningKey();
+    if (!key) {
+      return false;
+    }
+
+    const signed = signMacro(view.state.doc.toString(), key);
+    view.dispatch({
+      changes: { from: 0, to: view.state.doc.length, insert: signed },
+    });
+    showStatus(`Signed as ${key.publisher} [${getKeyFingerprint(key.publicKey)}]`, 'success');
+    return true;
+  } catch (error) {
+    showStatus(`Error: ${error instanceof Error ? error.message : error}`, 'error');
+    return false;
+  }
+}
+
+/**
+ * Describe the signature of loaded macro content for the status bar,
+ * or null for an unsigned macro
+ */
+export function describeSignature(content: string): { message: string; type: 'info' | 'error' } | null {
+  const check = verifyMacroSignature(content);
+  switch (check.status) {
+    case 'valid':
+      return { message: `Signed by ${check.publisher} [${getKeyFingerprint(check.publicKey!)}]`, type: 'info' };
+    case 'invalid':
+      return { message: `Invalid signature: ${check.error}`, type: 'error' };
+    default:
+      return null;
+  }
+}
@@ -6,10 +6,12 @@
  * - Error line highlighting (red)
  * - Message box with Edit/Help/Close buttons
  * - Jump to error line functionality
+ * - Breakpoint gutter for the debugger (click: toggle, shift/right-click: condition)
  */
 
-import { EditorView, Decoration, DecorationSet } from '@codemirror/view';
-import { StateField, StateEffect, EditorState } from '@codemirror/state';
+import { EditorView, Decoration, DecorationSet, GutterMarker, gutter } from '@codemirror/view';
+import { StateField, StateEffect, EditorState, RangeSet } from '@codemirror/state';
+import type { MacroBreakpoint } from '@shared/index';
 
 // ===== Line Highlighting Effects =====
 
@@ -124,13 +126,177 @@ export const playbackTheme = EditorView.baseTheme({
   },
 });
 
+// ===== Breakpoints =====
+
+/**
+ * Effect to set (condition given, '' for none) or remove (null) the
+ * breakpoint on the line starting at pos
+ */
+export const setBreakpoint = StateEffect.define<{ pos: number; condition: string | null }>({
+  map: (value, mapping) => ({ ...value, pos: mapping.mapPos(value.pos) }),
+});
+
+/**
+ * Effect to remove all breakpoints
+ */
+export const clearBreakpoints = StateEffect.define<void>();
+
+/**
+ * Gutter marker for a breakpoint; a conditional one is drawn hollow
+ */
+export class BreakpointMarker extends GutterMarker {
+  constructor(readonly condition: string = '') {
+    super();
+  }
+
+  eq(other: BreakpointMarker): boolean {
+    return other.condition === this.condition;
+  }
+
+  toDOM(): Node {
+    const marker = document.createElement('span');
+    marker.className = this.condition ? 'cm-breakpoint cm-breakpoint-conditional' : 'cm-breakpoint';
+    marker.textContent = '\u25CF';
+    marker.title = this.condition ? `Break when ${this.condition}` : 'Breakpoint';
+    return marker;
+  }
+}
+
+/**
+ * State field holding the breakpoints, one marker at the start of each line
+ */
+export const breakpointState = StateField.define<RangeSet<BreakpointMarker>>({
+  create() {
+    return RangeSet.empty;
+  },
+  update(breakpoints, tr) {
+    breakpoints = breakpoints.map(tr.changes);
+    for (const effect of tr.effects) {
+      if (effect.is(clearBreakpoints)) {
+        breakpoints = RangeSet.empty;
+      } else if (effect.is(setBreakpoint)) {
+        const { pos, condition } = effect.value;
+        breakpoints = breakpoints.update({
+          filter: (from) => from !== pos,
+          add: condition === null ? [] : [new BreakpointMarker(condition).range(pos)],
+        });
+      }
+    }
+    return breakpoints;
+  },
+});
+
+/**
+ * Get the breakpoint on the line starting at pos
+ */
+export function getBreakpointAt(state: EditorState, pos: number): BreakpointMarker | null {
+  let found: BreakpointMarker | null = null;
+  state.field(breakpointState).between(pos, pos, (from, _to, marker) => {
+    if (from === pos) {
+      found = marker;
+    }
+  });
+  return found;
+}
+
+/**
+ * Get the breakpoints as 1-based lines, in line order
+ */
+export function getBreakpoints(state: EditorState): MacroBreakpoint[] {
+  const byLine = new Map<number, MacroBreakpoint>();
+  const cursor = state.field(breakpointState).iter();
+  for (; cursor.value; cursor.next()) {
+    const line = state.doc.lineAt(cursor.from).number;
+    byLine.set(line, cursor.value.condition ? { line, condition: cursor.value.condition } : { line });
+  }
+  return [...byLine.values()];
+}
+
+/**
+ * Toggle an unconditional breakpoint on a line (1-based)
+ */
+export function toggleBreakpoint(view: EditorView, lineNumber: number): void {
+  const doc = view.state.doc;
+  if (lineNumber < 1 || lineNumber > doc.lines) {
+    return;
+  }
+  const pos = doc.line(lineNumber).from;
+  view.dispatch({
+    effects: setBreakpoint.of({ pos, condition: getBreakpointAt(view.state, pos) ? null : '' }),
+  });
+}
+
+/**
+ * Ask for the condition of the breakpoint on a line, using the IF/WHILE
+ * expression syntax. An empty condition makes it unconditional.
+ */
+export function editBreakpointCondition(view: EditorView, lineNumber: number): void {
+  const doc = view.state.doc;
+  if (lineNumber < 1 || lineNumber > doc.lines) {
+    return;
+  }
+  const pos = doc.line(lineNumber).from;
+  const condition = window.prompt(
+    'Break when (e.g. {{!LOOP}} > 3), empty for always:',
+    getBreakpointAt(view.state, pos)?.condition ?? ''
+  );
+  if (condition === null) {
+    return;
+  }
+  view.dispatch({
+    effects: setBreakpoint.of({ pos, condition: condition.trim() }),
+  });
+}
+
+/**
+ * Gutter showing the breakpoints
+ */
+export const breakpointGutter = [
+  breakpointState,
+  gutter({
+    class: 'cm-breakpoint-gutter',
+    markers: (view) => view.state.field(breakpointState),
+    initialSpacer: () => new BreakpointMarker(),
+    domEventHandlers: {
+      mousedown(view, line, event) {
+        const lineNumber = view.state.doc.lineAt(line.from).number;
+        if ((event as MouseEvent).shiftKey) {
+          editBreakpointCondition(view, lineNumber);
+        } else if ((event as MouseEvent).button === 0) {
+          toggleBreakpoint(view, lineNumber);
+        }
+        return true;
+      },
+      contextmenu(view, line, event) {
+        event.preventDefault();
+        editBreakpointCondition(view, view.state.doc.lineAt(line.from).number);
+        return true;
+      },
+    },
+  }),
+  EditorView.baseTheme({
+    '.cm-breakpoint-gutter .cm-gutterElement': {
+      width: '16px',
+      cursor: 'pointer',
+      textAlign: 'center',
+    },
+    '.cm-breakpoint': {
+      color: '#e53935',
+    },
+    '.cm-breakpoint-conditional': {
+      color: 'transparent',
+      WebkitTextStroke: '1px #ff9800',
+    },
+  }),
+];
+
 // ===== Extension Bundle =====
 
 /**
  * Get all playback feedback extensions for CodeMirror
  */
 export function getPlaybackFeedbackExtensions() {
-  return [playbackDecorations, playbackTheme];
+  return [playbackDecorations, playbackTheme, breakpointGutter];
 }
 
 // ===== Helper Functions =====
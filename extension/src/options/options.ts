@@ -41,6 +41,8 @@ interface Settings {
   // Advanced settings
   errorContinue: boolean;
   debugMode: boolean;
+  historyScreenshotOnError: boolean;
+  saveFailureArtifacts: boolean;
   replaySpeed: number;
 
   // Visual effects
@@ -88,6 +90,8 @@ const DEFAULT_SETTINGS: Settings = {
   // Advanced settings
   errorContinue: false,
   debugMode: false,
+  historyScreenshotOnError: false,
+  saveFailureArtifacts: false,
   replaySpeed: 5,
 
   // Visual effects
@@ -217,6 +221,8 @@ function getFormValues(): Settings {
 
     errorContinue: formData.get('errorContinue') === 'on',
     debugMode: formData.get('debugMode') === 'on',
+    historyScreenshotOnError: formData.get('historyScreenshotOnError') === 'on',
+    saveFailureArtifacts: formData.get('saveFailureArtifacts') === 'on',
     replaySpeed: parseInt(formData.get('replaySpeed') as string, 10) || DEFAULT_SETTINGS.replaySpeed,
 
     visualEffectScrollToElement: formData.get('visualEffectScrollToElement') === 'on',
@@ -260,6 +266,8 @@ function setFormValues(settings: Settings): void {
 
   (document.getElementById('error-continue') as HTMLInputElement).checked = settings.errorContinue;
   (document.getElementById('debug-mode') as HTMLInputElement).checked = settings.debugMode;
+  (document.getElementById('history-screenshot-on-error') as HTMLInputElement).checked = settings.historyScreenshotOnError;
+  (document.getElementById('save-failure-artifacts') as HTMLInputElement).checked = settings.saveFailureArtifacts;
 
   // Visual effects
   (document.getElementById('visual-scroll') as HTMLInputElement).checked = settings.visualEffectScrollToElement;
@@ -23,6 +23,9 @@ import {
   saveRecordingPreferences,
   RecordingPreferences,
 } from './recording-prefs-dialog';
+import { initSchedulePanel } from './schedule-panel';
+import { initRunHistoryView } from './run-history-view';
+import { initVaultManager } from './vault-manager';
 
 // Panel state (selection and UI state not managed by StatusSync)
 interface PanelState {
@@ -448,10 +451,12 @@ function updateUI(): void {
   const btnPause = document.getElementById('btn-pause') as HTMLButtonElement;
   const btnStop = document.getElementById('btn-stop') as HTMLButtonElement;
   const btnPlayLoop = document.getElementById('btn-play-loop') as HTMLButtonElement;
+  const btnPlayParallel = document.getElementById('btn-play-parallel') as HTMLButtonElement;
   const btnRecord = document.getElementById('btn-record') as HTMLButtonElement;
   const btnSave = document.getElementById('btn-save') as HTMLButtonElement;
   const btnStopRecord = document.getElementById('btn-stop-record') as HTMLButtonElement;
   const btnEdit = document.getElementById('btn-edit') as HTMLButtonElement;
+  const btnScheduleAdd = document.getElementById('btn-schedule-add') as HTMLButtonElement;
 
   const hasSelection = state.selectedMacro !== null;
   const isIdle = statusSync.isIdle();
@@ -477,6 +482,9 @@ function updateUI(): void {
   if (btnPlayLoop) {
     btnPlayLoop.disabled = !hasSelection || !isIdle;
   }
+  if (btnPlayParallel) {
+    btnPlayParallel.disabled = !hasSelection || !isIdle;
+  }
   if (btnRecord) {
     btnRecord.disabled = isRecording;
   }
@@ -489,6 +497,9 @@ function updateUI(): void {
   if (btnEdit) {
     btnEdit.disabled = !hasSelection;
   }
+  if (btnScheduleAdd) {
+    btnScheduleAdd.disabled = !hasSelection;
+  }
 }
 
 /**
@@ -580,6 +591,35 @@ async function playMacroLoop(): Promise<void> {
   }
 }
 
+/**
+ * Play macro with its datasource rows split across several tabs
+ */
+async function playMacroParallel(): Promise<void> {
+  if (!state.selectedMacro) {
+    setStatus('error', 'No macro selected');
+    return;
+  }
+
+  const workersInput = document.getElementById('parallel-workers') as HTMLInputElement;
+  const workers = parseInt(workersInput?.value || '2', 10);
+
+  try {
+    statusSync.setMacro(state.selectedMacro);
+    statusSync.clearWorkers();
+    setStatus('playing', `Playing in ${workers} tabs: ${state.selectedMacro}`);
+    statusSync.setProgress(0, 0);
+    updateUI();
+
+    await sendToBackground('PLAY_MACRO_PARALLEL', {
+      path: state.selectedMacro,
+      workers,
+    });
+  } catch (error) {
+    setStatus('error', `Error: ${String(error)}`);
+    updateUI();
+  }
+}
+
 /**
  * Pause playback
  */
@@ -820,6 +860,7 @@ function setupEventListeners(): void {
   document.getElementById('btn-pause')?.addEventListener('click', togglePauseResume);
   document.getElementById('btn-stop')?.addEventListener('click', stopExecution);
   document.getElementById('btn-play-loop')?.addEventListener('click', playMacroLoop);
+  document.getElementById('btn-play-parallel')?.addEventListener('click', playMacroParallel);
 
   // Record tab buttons
   document.getElementById('btn-record')?.addEventListener('click', startRecording);
@@ -873,6 +914,14 @@ function setupEventListeners(): void {
     statusSync.setMaxLoop(value);
     updateUI();
   });
+  // Parallel tab count input
+  const workersInput = document.getElementById('parallel-workers') as HTMLInputElement;
+  workersInput?.addEventListener('change', () => {
+    let value = parseInt(workersInput.value, 10);
+    if (isNaN(value) || value < 2) value = 2;
+    if (value > 8) value = 8;
+    workersInput.value = String(value);
+  });
 }
 
 
@@ -1068,6 +1117,16 @@ function initializePanel(): void {
   // Setup log viewer
   setupLogViewer();
 
+  // Setup run history view
+  initRunHistoryView({ sendToBackground });
+  initVaultManager({ sendToBackground });
+
+  // Setup schedule tab
+  initSchedulePanel({
+    getSelectedMacro: () => state.selectedMacro,
+    sendToBackground,
+  });
+
   // Setup split resizer
   setupSplitResizer();
 
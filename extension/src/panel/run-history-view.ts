@@ -0,0 +1,198 @@
+/**
+ * Run History view for the iMacros panel
+ *
+ * Features:
+ * - List the runs saved by the native host, newest first
+ * - Filter by macro and by status
+ * - Download a run's HTML report (summary, screenshots, per-line timings)
+ */
+
+import type { RunHistoryFilter, RunStatus, RunSummary } from '@shared/run-report';
+
+/**
+ * Options for initRunHistoryView
+ */
+export interface RunHistoryViewOptions {
+  /** Send a message to the background script */
+  sendToBackground: (type: string, payload?: unknown) => Promise<unknown>;
+}
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  success: 'OK',
+  error: 'Failed',
+  stopped: 'Stopped',
+};
+
+/**
+ * One-line summary of a run
+ */
+export function formatRunSummary(run: RunSummary): string {
+  const parts = [
+    new Date(run.startTime).toLocaleString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }),
+    STATUS_LABELS[run.status],
+    `${((run.endTime - run.startTime) / 1000).toFixed(1)}s`,
+  ];
+  if (run.loopsCompleted > 1) {
+    parts.push(`${run.loopsCompleted} loops`);
+  }
+  if (run.status === 'error') {
+    parts.push(run.errorLine !== undefined
+      ? `line ${run.errorLine}: ${run.errorMessage ?? run.errorCode}`
+      : run.errorMessage ?? String(run.errorCode));
+  }
+  if (run.screenshotCount > 0) {
+    parts.push(`${run.screenshotCount} screenshot(s)`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Read the filter from the view's inputs
+ */
+export function getRunHistoryFilter(): RunHistoryFilter {
+  const filter: RunHistoryFilter = {};
+  const macro = (document.getElementById('run-history-macro') as HTMLInputElement | null)?.value.trim();
+  const status = (document.getElementById('run-history-status') as HTMLSelectElement | null)?.value;
+  if (macro) {
+    filter.macro = macro;
+  }
+  if (status) {
+    filter.status = status as RunStatus;
+  }
+  return filter;
+}
+
+/**
+ * Show a message in place of the list
+ */
+function showListMessage(message: string): void {
+  const list = document.getElementById('run-history-list');
+  if (list) {
+    const item = document.createElement('div');
+    item.className = 'run-history-empty';
+    item.textContent = message;
+    list.replaceChildren(item);
+  }
+}
+
+/**
+ * Save an HTML report through a temporary download link
+ */
+function downloadReport(html: string, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Fetch a run's HTML report and download it
+ */
+async function exportReport(run: RunSummary, options: RunHistoryViewOptions): Promise<void> {
+  const response = await options.sendToBackground('GET_RUN_REPORT', { id: run.id }) as
+    { success: boolean; html?: string; fileName?: string; error?: string } | undefined;
+  if (!response?.success || !response.html) {
+    showListMessage(response?.error ?? 'Failed to build report');
+    return;
+  }
+  downloadReport(response.html, response.fileName ?? `report_${run.id}.html`);
+}
+
+/**
+ * Render the list of runs
+ */
+export function renderRunHistory(runs: RunSummary[], options: RunHistoryViewOptions): void {
+  const list = document.getElementById('run-history-list');
+  if (!list) {
+    return;
+  }
+  if (runs.length === 0) {
+    showListMessage('No runs');
+    return;
+  }
+
+  list.replaceChildren(...runs.map((run) => {
+    const item = document.createElement('div');
+    item.className = `schedule-item ${run.status === 'error' ? 'error' : ''}`.trim();
+    const text = document.createElement('div');
+    text.className = 'schedule-item-text';
+    const title = document.createElement('div');
+    title.textContent = run.macro;
+    const detail = document.createElement('div');
+    detail.className = 'schedule-item-detail';
+    detail.textContent = formatRunSummary(run);
+    text.append(title, detail);
+
+    const reportButton = document.createElement('button');
+    reportButton.className = 'log-btn';
+    reportButton.textContent = 'Report';
+    reportButton.addEventListener('click', () => {
+      exportReport(run, options).catch((error) => showListMessage(String(error)));
+    });
+
+    item.append(text, reportButton);
+    return item;
+  }));
+}
+
+/**
+ * Load the runs matching the filter and render them
+ */
+export async function refreshRunHistory(options: RunHistoryViewOptions): Promise<void> {
+  try {
+    const response = await options.sendToBackground('GET_RUN_HISTORY', getRunHistoryFilter()) as
+      { success: boolean; runs?: RunSummary[]; error?: string } | undefined;
+    if (response?.success && response.runs) {
+      renderRunHistory(response.runs, options);
+    } else {
+      showListMessage(response?.error ?? 'Failed to load run history');
+    }
+  } catch (error) {
+    showListMessage(String(error));
+  }
+}
+
+/**
+ * Set up the Run History overlay and the Manage tab button that opens it
+ */
+export function initRunHistoryView(options: RunHistoryViewOptions): void {
+  const viewer = document.getElementById('run-history-viewer');
+
+  document.getElementById('btn-run-history')?.addEventListener('click', () => {
+    viewer?.classList.remove('hidden');
+    refreshRunHistory(options);
+  });
+
+  document.getElementById('run-history-close')?.addEventListener('click', () => {
+    viewer?.classList.add('hidden');
+  });
+
+  // Close when clicking overlay background
+  viewer?.addEventListener('click', (e) => {
+    if (e.target === viewer) {
+      viewer.classList.add('hidden');
+    }
+  });
+
+  document.getElementById('run-history-macro')?.addEventListener('input', () => {
+    refreshRunHistory(options);
+  });
+  document.getElementById('run-history-status')?.addEventListener('change', () => {
+    refreshRunHistory(options);
+  });
+
+  document.getElementById('run-history-clear')?.addEventListener('click', async () => {
+    await options.sendToBackground('CLEAR_RUN_HISTORY');
+    refreshRunHistory(options);
+  });
+}
@@ -0,0 +1,248 @@
+/**
+ * Schedule Tab for the iMacros panel
+ *
+ * Features:
+ * - Schedule the selected macro with a cron expression, variables,
+ *   retry policy, missed-run catch-up and "only while I'm away"
+ * - List scheduled jobs with their next run (Run now / Remove)
+ * - Show the run history kept by the background scheduler
+ *
+ * The panel follows the background's SCHEDULES_UPDATED broadcasts.
+ */
+
+import type { ScheduledJob, ScheduledRunRecord } from '../background/scheduler';
+
+/**
+ * Options for initSchedulePanel
+ */
+export interface SchedulePanelOptions {
+  /** Path of the macro selected in the file tree */
+  getSelectedMacro: () => string | null;
+  /** Send a message to the background script */
+  sendToBackground: (type: string, payload?: unknown) => Promise<unknown>;
+}
+
+/**
+ * Jobs and run history as returned by GET_SCHEDULES
+ */
+interface SchedulesState {
+  jobs: ScheduledJob[];
+  history: ScheduledRunRecord[];
+}
+
+/** History entries shown in the panel */
+const MAX_SHOWN_HISTORY = 50;
+
+const RUN_STATUS_LABELS: Record<ScheduledRunRecord['status'], string> = {
+  running: 'Running',
+  success: 'OK',
+  error: 'Failed',
+  skipped: 'Skipped',
+  interrupted: 'Interrupted',
+};
+
+/**
+ * Parse "NAME=value" lines into variables. Blank lines are ignored.
+ * Throws on a line without a name.
+ */
+export function parseVariableLines(text: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+    const eq = line.indexOf('=');
+    const name = eq === -1 ? '' : line.slice(0, eq).trim();
+    if (!name) {
+      throw new Error(`Expected NAME=value: ${line}`);
+    }
+    variables[name] = line.slice(eq + 1).trim();
+  }
+  return variables;
+}
+
+/**
+ * Format a time for the lists (local date and time without seconds)
+ */
+export function formatScheduleTime(time: number | null | undefined): string {
+  if (time === null || time === undefined) {
+    return 'never';
+  }
+  return new Date(time).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+/**
+ * One-line summary of a run history entry
+ */
+export function formatRunRecord(record: ScheduledRunRecord): string {
+  const parts = [
+    formatScheduleTime(record.startTime),
+    RUN_STATUS_LABELS[record.status],
+  ];
+  if (record.trigger !== 'schedule') {
+    parts.push(record.trigger === 'retry' ? `retry ${record.attempt - 1}` : record.trigger);
+  }
+  if (record.endTime !== undefined && record.status !== 'skipped') {
+    parts.push(`${Math.round((record.endTime - record.startTime) / 1000)}s`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Create a list item with a title and a detail line
+ */
+function createItem(title: string, detail: string, className = ''): HTMLElement {
+  const item = document.createElement('div');
+  item.className = `schedule-item ${className}`.trim();
+  const text = document.createElement('div');
+  text.className = 'schedule-item-text';
+  const titleEl = document.createElement('div');
+  titleEl.textContent = title;
+  const detailEl = document.createElement('div');
+  detailEl.className = 'schedule-item-detail';
+  detailEl.textContent = detail;
+  text.append(titleEl, detailEl);
+  item.appendChild(text);
+  return item;
+}
+
+/**
+ * Create a small button for a list item
+ */
+function createItemButton(label: string, onClick: () => void): HTMLButtonElement {
+  const button = document.createElement('button');
+  button.className = 'log-btn';
+  button.textContent = label;
+  button.addEventListener('click', onClick);
+  return button;
+}
+
+/**
+ * Render the job list and the run history
+ */
+export function renderSchedules(state: SchedulesState, options: SchedulePanelOptions): void {
+  const jobList = document.getElementById('schedule-jobs');
+  if (jobList) {
+    jobList.replaceChildren(...state.jobs.map((job) => {
+      const variableCount = Object.keys(job.variables).length;
+      const details = [job.cron, `next: ${formatScheduleTime(job.nextRunTime)}`];
+      if (variableCount > 0) {
+        details.push(`${variableCount} variable(s)`);
+      }
+      if (job.retries > 0) {
+        details.push(`${job.retries} retries`);
+      }
+      const item = createItem(job.macroPath, details.join(' · '));
+      item.append(
+        createItemButton('Run now', () => {
+          options.sendToBackground('RUN_SCHEDULE_NOW', { id: job.id });
+        }),
+        createItemButton('Remove', () => {
+          options.sendToBackground('DELETE_SCHEDULE', { id: job.id });
+        })
+      );
+      return item;
+    }));
+  }
+
+  const historyList = document.getElementById('schedule-history');
+  if (historyList) {
+    historyList.replaceChildren(...state.history.slice(0, MAX_SHOWN_HISTORY).map((record) => {
+      const detail = record.errorMessage
+        ? `${formatRunRecord(record)} · ${record.errorMessage}`
+        : formatRunRecord(record);
+      const failed = record.status === 'error' || record.status === 'interrupted';
+      return createItem(record.macroPath, detail, failed ? 'error' : '');
+    }));
+  }
+}
+
+/**
+ * Show or hide the form error
+ */
+function showScheduleError(message: string | null): void {
+  const errorEl = document.getElementById('schedule-error');
+  if (errorEl) {
+    errorEl.textContent = message ?? '';
+    errorEl.style.display = message ? 'block' : 'none';
+  }
+}
+
+/**
+ * Schedule the selected macro with the form values
+ */
+async function addSchedule(options: SchedulePanelOptions): Promise<void> {
+  const macroPath = options.getSelectedMacro();
+  const cron = (document.getElementById('schedule-cron') as HTMLInputElement | null)?.value.trim() ?? '';
+  if (!macroPath) {
+    showScheduleError('No macro selected');
+    return;
+  }
+  if (!cron) {
+    showScheduleError('Enter a cron expression, e.g. 0 2 * * * for 2:00 every night');
+    return;
+  }
+
+  let variables: Record<string, string>;
+  try {
+    variables = parseVariableLines((document.getElementById('schedule-variables') as HTMLTextAreaElement | null)?.value ?? '');
+  } catch (error) {
+    showScheduleError(error instanceof Error ? error.message : String(error));
+    return;
+  }
+
+  const response = await options.sendToBackground('SAVE_SCHEDULE', {
+    macroPath,
+    cron,
+    variables,
+    retries: parseInt((document.getElementById('schedule-retries') as HTMLInputElement | null)?.value || '0', 10),
+    retryDelayMinutes: parseInt((document.getElementById('schedule-retry-delay') as HTMLInputElement | null)?.value || '5', 10),
+    catchUp: (document.getElementById('schedule-catch-up') as HTMLInputElement | null)?.checked ?? false,
+    onlyWhenIdle: (document.getElementById('schedule-idle') as HTMLInputElement | null)?.checked ?? false,
+  }) as { success: boolean; error?: string } | undefined;
+
+  showScheduleError(response?.success ? null : response?.error ?? 'Failed to save schedule');
+}
+
+/**
+ * Load the schedules from the background and render them
+ */
+export async function refreshSchedules(options: SchedulePanelOptions): Promise<void> {
+  try {
+    const response = await options.sendToBackground('GET_SCHEDULES') as (SchedulesState & { success: boolean }) | undefined;
+    if (response?.success) {
+      renderSchedules(response, options);
+    }
+  } catch (error) {
+    console.error('[Panel] Failed to load schedules:', error);
+  }
+}
+
+/**
+ * Set up the Schedule tab
+ */
+export function initSchedulePanel(options: SchedulePanelOptions): void {
+  document.getElementById('btn-schedule-add')?.addEventListener('click', () => {
+    addSchedule(options).catch((error) => showScheduleError(String(error)));
+  });
+  document.getElementById('btn-schedule-clear-history')?.addEventListener('click', () => {
+    options.sendToBackground('CLEAR_SCHEDULE_HISTORY');
+  });
+
+  if (typeof chrome !== 'undefined' && chrome.runtime?.onMessage) {
+    chrome.runtime.onMessage.addListener((message: { type: string; payload?: SchedulesState }) => {
+      if (message.type === 'SCHEDULES_UPDATED' && message.payload) {
+        renderSchedules(message.payload, options);
+      }
+      return false;
+    });
+  }
+
+  refreshSchedules(options);
+}
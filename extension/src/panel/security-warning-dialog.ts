@@ -4,11 +4,14 @@
  *
  * Features:
  * - Shows origin information (URL, domain, type)
+ * - Shows who signed the macro (publisher and key fingerprint)
+ * - Shows the capability manifest (dangerous commands, domains visited)
  * - Option to trust the source site
  * - Run once or cancel options
  */
 
-import { MacroSource, MacroOrigin } from '@shared/security';
+import { MacroSource, MacroOrigin, CapabilityManifest, CAPABILITY_LABELS } from '@shared/security';
+import { getKeyFingerprint } from '@shared/macro-signature';
 
 /**
  * Security warning dialog options
@@ -20,6 +23,8 @@ export interface SecurityWarningDialogOptions {
   macroName?: string;
   /** Reason for the warning */
   reason?: string;
+  /** What the macro can do (see scanMacroCapabilities) */
+  manifest?: CapabilityManifest;
 }
 
 /**
@@ -53,6 +58,24 @@ export class SecurityWarningDialog {
     });
   }
 
+  /**
+   * Get a description of the macro's signer
+   */
+  private getSignatureDescription(source: MacroSource): string {
+    const signature = source.signature;
+    if (!signature || signature.status === 'unsigned') {
+      return 'Not signed';
+    }
+    if (signature.status === 'invalid') {
+      return `Invalid signature (${signature.error})`;
+    }
+    const fingerprint = signature.publicKey ? ` [${getKeyFingerprint(signature.publicKey)}]` : '';
+    if (source.publisher) {
+      return `${source.publisher.name}${fingerprint} (trusted publisher)`;
+    }
+    return `${signature.publisher}${fingerprint} (not a trusted publisher)`;
+  }
+
   /**
    * Get a human-readable description of the macro origin
    */
@@ -154,6 +177,13 @@ export class SecurityWarningDialog {
       content.appendChild(locationRow);
     }
 
+    // Signature
+    if (source.signature) {
+      const signatureRow = this.createInfoRow('Signed by:', this.getSignatureDescription(source));
+      signatureRow.className += ` security-warning-signature signature-${source.signature.status}`;
+      content.appendChild(signatureRow);
+    }
+
     // Reason
     if (reason) {
       const reasonRow = this.createInfoRow('Reason:', reason);
@@ -163,6 +193,11 @@ export class SecurityWarningDialog {
 
     this.dialog.appendChild(content);
 
+    // Capability manifest
+    if (options.manifest) {
+      this.dialog.appendChild(this.createManifestSection(options.manifest));
+    }
+
     // Trust option (only if there's a domain to trust)
     if (source.domain) {
       const trustGroup = document.createElement('div');
@@ -234,6 +269,48 @@ export class SecurityWarningDialog {
     return row;
   }
 
+  /**
+   * Create the capability manifest section: each dangerous command with its
+   * line, then the domains the macro navigates to
+   */
+  private createManifestSection(manifest: CapabilityManifest): HTMLDivElement {
+    const section = document.createElement('div');
+    section.className = 'security-warning-manifest';
+
+    const heading = document.createElement('div');
+    heading.className = 'security-warning-manifest-title';
+    heading.textContent = manifest.findings.length > 0
+      ? 'This macro can:'
+      : 'This macro uses no dangerous commands.';
+    section.appendChild(heading);
+
+    if (manifest.findings.length > 0) {
+      const list = document.createElement('ul');
+      list.className = 'security-warning-capabilities';
+      for (const finding of manifest.findings) {
+        const item = document.createElement('li');
+        item.className = `security-warning-capability capability-${finding.capability}`;
+        item.textContent = `${CAPABILITY_LABELS[finding.capability]} - line ${finding.line}: ${finding.command}`;
+        item.title = finding.command;
+        list.appendChild(item);
+      }
+      section.appendChild(list);
+    }
+
+    const domains = [...manifest.domains];
+    if (manifest.dynamicUrls) {
+      domains.push('URLs built from variables');
+    }
+    if (domains.length > 0) {
+      section.appendChild(this.createInfoRow('Navigates to:', domains.join(', ')));
+    }
+    if (manifest.calledMacros.length > 0) {
+      section.appendChild(this.createInfoRow('Calls:', manifest.calledMacros.join(', ')));
+    }
+
+    return section;
+  }
+
   /**
    * Truncate a long location string
    */
@@ -56,12 +56,27 @@ export interface ErrorInfo {
   details?: string;
 }
 
+/**
+ * Progress of one tab during parallel playback
+ */
+export interface WorkerProgressUpdate {
+  worker: number;
+  status: 'running' | 'done' | 'error' | 'stopped';
+  row?: number;
+  rowsCompleted: number;
+  totalRows: number;
+  currentLine?: number;
+  totalLines?: number;
+  errorMessage?: string;
+}
+
 /**
  * Event types emitted by StatusSync
  */
 export type StatusSyncEvent =
   | { type: 'status_change'; status: ExecutionStatus; message: string }
   | { type: 'progress'; progress: ProgressUpdate }
+  | { type: 'worker_progress'; worker: WorkerProgressUpdate }
   | { type: 'error'; error: ErrorInfo }
   | { type: 'complete'; message: string }
   | { type: 'recording_line'; line: number; command: string };
@@ -84,6 +99,8 @@ interface StatusSyncState {
   currentMacro: string | null;
   lastError: ErrorInfo | null;
   startTime: number | null;
+  /** Tabs of a parallel run, by worker number */
+  workers: WorkerProgressUpdate[];
 }
 
 /**
@@ -100,6 +117,7 @@ export class StatusSync {
     loopCounter: HTMLElement | null;
     progressBar: HTMLElement | null;
     errorDisplay: HTMLElement | null;
+    workerList: HTMLElement | null;
   };
 
   constructor() {
@@ -113,6 +131,7 @@ export class StatusSync {
       currentMacro: null,
       lastError: null,
       startTime: null,
+      workers: [],
     };
 
     this.listeners = new Set();
@@ -123,6 +142,7 @@ export class StatusSync {
       loopCounter: null,
       progressBar: null,
       errorDisplay: null,
+      workerList: null,
     };
 
     this.setupMessageListener();
@@ -138,6 +158,7 @@ export class StatusSync {
     loopCounter?: HTMLElement | null;
     progressBar?: HTMLElement | null;
     errorDisplay?: HTMLElement | null;
+    workerList?: HTMLElement | null;
   }): void {
     this.uiElements = {
       statusIndicator: elements.statusIndicator ?? null,
@@ -146,6 +167,7 @@ export class StatusSync {
       loopCounter: elements.loopCounter ?? null,
       progressBar: elements.progressBar ?? null,
       errorDisplay: elements.errorDisplay ?? null,
+      workerList: elements.workerList ?? null,
     };
     this.updateUI();
   }
@@ -286,6 +308,14 @@ export class StatusSync {
     this.updateUI();
   }
 
+  /**
+   * Forget the tabs of the previous parallel run
+   */
+  clearWorkers(): void {
+    this.state.workers = [];
+    this.updateUI();
+  }
+
   /**
    * Set error state
    */
@@ -321,6 +351,7 @@ export class StatusSync {
       currentMacro: null,
       lastError: null,
       startTime: null,
+      workers: [],
     };
     this.updateUI();
   }
@@ -350,6 +381,10 @@ export class StatusSync {
         this.handleProgressUpdate(payload);
         break;
 
+      case 'WORKER_PROGRESS':
+        this.handleWorkerProgress(payload as unknown as WorkerProgressUpdate);
+        break;
+
       case 'MACRO_COMPLETE':
         this.handleComplete(payload);
         break;
@@ -443,6 +478,33 @@ export class StatusSync {
     });
   }
 
+  /**
+   * Handle progress of one tab during parallel playback.
+   * The loop counter shows rows finished across all tabs.
+   */
+  private handleWorkerProgress(update: WorkerProgressUpdate): void {
+    if (typeof update.worker !== 'number') {
+      return;
+    }
+
+    const workers = this.state.workers.filter(w => w.worker !== update.worker);
+    workers.push(update);
+    workers.sort((a, b) => a.worker - b.worker);
+    this.state.workers = workers;
+
+    this.state.currentLoop = workers.reduce((sum, w) => sum + (w.rowsCompleted || 0), 0);
+    if (typeof update.totalRows === 'number') {
+      this.state.maxLoop = update.totalRows;
+    }
+
+    if (update.status === 'error' && update.errorMessage) {
+      this.addLog('error', `Tab ${update.worker}, row ${update.row}: ${update.errorMessage}`);
+    }
+
+    this.updateUI();
+    this.emit({ type: 'worker_progress', worker: update });
+  }
+
   /**
    * Handle macro completion
    */
@@ -573,6 +635,35 @@ export class StatusSync {
         this.uiElements.errorDisplay.style.display = 'none';
       }
     }
+
+    // Update worker list (parallel playback only)
+    if (this.uiElements.workerList) {
+      if (this.state.workers.length > 0) {
+        this.uiElements.workerList.textContent = this.state.workers.map(w => this.formatWorker(w)).join('\n');
+        this.uiElements.workerList.style.display = 'block';
+      } else {
+        this.uiElements.workerList.textContent = '';
+        this.uiElements.workerList.style.display = 'none';
+      }
+    }
+  }
+
+  /**
+   * Describe one tab of a parallel run for the worker list
+   */
+  private formatWorker(worker: WorkerProgressUpdate): string {
+    switch (worker.status) {
+      case 'running':
+        return worker.currentLine !== undefined && worker.totalLines
+          ? `Tab ${worker.worker}: row ${worker.row}, line ${worker.currentLine}/${worker.totalLines}`
+          : `Tab ${worker.worker}: row ${worker.row}`;
+      case 'error':
+        return `Tab ${worker.worker}: error on row ${worker.row}`;
+      case 'stopped':
+        return `Tab ${worker.worker}: stopped after ${worker.rowsCompleted} row(s)`;
+      default:
+        return `Tab ${worker.worker}: done, ${worker.rowsCompleted} row(s)`;
+    }
   }
 
   /**
@@ -686,6 +777,7 @@ export function initializeStatusSync(): StatusSync {
     loopCounter: document.getElementById('loop-counter'),
     progressBar: document.getElementById('progress-bar'),
     errorDisplay: document.getElementById('error-display'),
+    workerList: document.getElementById('worker-progress'),
   });
 
   return statusSync;
@@ -7,14 +7,25 @@
  * - Add new trusted sites (with wildcard support)
  * - Remove trusted sites
  * - Edit notes for trusted sites
+ * - Allow or deny individual capabilities (EXEC, FILEDELETE, ...) per site
+ * - Manage trusted publishers of signed macros (name and public key)
  */
 
 import {
   TrustedSite,
+  TrustedPublisher,
+  MacroCapability,
+  CapabilityPolicy,
+  CAPABILITY_LABELS,
   addTrustedSite,
   removeTrustedSite,
+  updateTrustedSite,
   isValidDomainPattern,
+  addTrustedPublisher,
+  removeTrustedPublisher,
+  isValidPublicKey,
 } from '@shared/security';
+import { getKeyFingerprint } from '@shared/macro-signature';
 
 /**
  * Trusted sites dialog options
@@ -22,6 +33,8 @@ import {
 export interface TrustedSitesDialogOptions {
   /** Current list of trusted sites */
   trustedSites: TrustedSite[];
+  /** Current list of trusted publishers */
+  trustedPublishers?: TrustedPublisher[];
 }
 
 /**
@@ -32,6 +45,8 @@ export interface TrustedSitesDialogResult {
   saved: boolean;
   /** Updated list of trusted sites (if saved) */
   trustedSites?: TrustedSite[];
+  /** Updated list of trusted publishers (if saved) */
+  trustedPublishers?: TrustedPublisher[];
 }
 
 /**
@@ -42,9 +57,13 @@ export class TrustedSitesDialog {
   private dialog: HTMLElement | null = null;
   private listContainer: HTMLElement | null = null;
   private addInput: HTMLInputElement | null = null;
+  private publisherList: HTMLElement | null = null;
+  private publisherNameInput: HTMLInputElement | null = null;
+  private publisherKeyInput: HTMLInputElement | null = null;
   private errorMessage: HTMLElement | null = null;
   private resolvePromise: ((result: TrustedSitesDialogResult) => void) | null = null;
   private trustedSites: TrustedSite[] = [];
+  private trustedPublishers: TrustedPublisher[] = [];
 
   /**
    * Show the trusted sites dialog
@@ -53,6 +72,7 @@ export class TrustedSitesDialog {
     return new Promise((resolve) => {
       this.resolvePromise = resolve;
       this.trustedSites = [...options.trustedSites];
+      this.trustedPublishers = [...(options.trustedPublishers ?? [])];
       this.createDialog();
     });
   }
@@ -127,6 +147,8 @@ export class TrustedSitesDialog {
 
     this.renderSitesList();
 
+    this.dialog.appendChild(this.createPublishersSection());
+
     // Buttons
     const buttons = document.createElement('div');
     buttons.className = 'trusted-sites-buttons';
@@ -213,6 +235,7 @@ export class TrustedSitesDialog {
     info.appendChild(date);
 
     item.appendChild(info);
+    item.appendChild(this.createPolicyEditor(site));
 
     const removeBtn = document.createElement('button');
     removeBtn.type = 'button';
@@ -229,6 +252,213 @@ export class TrustedSitesDialog {
     return item;
   }
 
+  /**
+   * Create the capability policy editor of a site: Ask/Allow/Deny per capability
+   */
+  private createPolicyEditor(site: TrustedSite): HTMLElement {
+    const details = document.createElement('details');
+    details.className = 'trusted-sites-item-policies';
+
+    const summary = document.createElement('summary');
+    summary.textContent = 'Capabilities';
+    details.appendChild(summary);
+
+    for (const capability of Object.keys(CAPABILITY_LABELS) as MacroCapability[]) {
+      const row = document.createElement('label');
+      row.className = 'trusted-sites-policy-row';
+      row.textContent = CAPABILITY_LABELS[capability];
+
+      const select = document.createElement('select');
+      select.className = 'trusted-sites-policy-select';
+      select.dataset.capability = capability;
+      for (const [value, label] of [['', 'Ask'], ['allow', 'Allow'], ['deny', 'Deny']]) {
+        const option = document.createElement('option');
+        option.value = value;
+        option.textContent = label;
+        select.appendChild(option);
+      }
+      select.value = site.capabilities?.[capability] ?? '';
+      select.addEventListener('change', () => {
+        this.setCapabilityPolicy(site.domain, capability, (select.value || undefined) as CapabilityPolicy | undefined);
+      });
+      row.appendChild(select);
+      details.appendChild(row);
+    }
+
+    return details;
+  }
+
+  /**
+   * Set (or clear, to ask again) a site's policy for a capability
+   */
+  private setCapabilityPolicy(domain: string, capability: MacroCapability, policy?: CapabilityPolicy): void {
+    const site = this.trustedSites.find(s => s.domain === domain);
+    if (!site) return;
+    const capabilities = { ...site.capabilities };
+    if (policy) {
+      capabilities[capability] = policy;
+    } else {
+      delete capabilities[capability];
+    }
+    this.trustedSites = updateTrustedSite(domain, this.trustedSites, {
+      capabilities: Object.keys(capabilities).length > 0 ? capabilities : undefined,
+    });
+  }
+
+  /**
+   * Create the trusted publishers section: signed macros from these publishers
+   * are trusted wherever they come from
+   */
+  private createPublishersSection(): HTMLElement {
+    const section = document.createElement('div');
+    section.className = 'trusted-publishers';
+
+    const title = document.createElement('h3');
+    title.className = 'trusted-publishers-title';
+    title.textContent = 'Trusted Publishers';
+    section.appendChild(title);
+
+    const description = document.createElement('p');
+    description.className = 'trusted-publishers-description';
+    description.textContent = 'Macros signed by these publishers run without security warnings from any site. Paste the public key shown in the publisher\'s signed macros.';
+    section.appendChild(description);
+
+    const addForm = document.createElement('div');
+    addForm.className = 'trusted-publishers-add-form';
+
+    this.publisherNameInput = document.createElement('input');
+    this.publisherNameInput.type = 'text';
+    this.publisherNameInput.className = 'trusted-publishers-name-input';
+    this.publisherNameInput.placeholder = 'Publisher name';
+    addForm.appendChild(this.publisherNameInput);
+
+    this.publisherKeyInput = document.createElement('input');
+    this.publisherKeyInput.type = 'text';
+    this.publisherKeyInput.className = 'trusted-publishers-key-input';
+    this.publisherKeyInput.placeholder = 'Public key (base64)';
+    this.publisherKeyInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        this.addPublisher();
+      }
+    });
+    addForm.appendChild(this.publisherKeyInput);
+
+    const addBtn = document.createElement('button');
+    addBtn.type = 'button';
+    addBtn.className = 'trusted-publishers-add-btn';
+    addBtn.textContent = 'Add';
+    addBtn.addEventListener('click', () => this.addPublisher());
+    addForm.appendChild(addBtn);
+
+    section.appendChild(addForm);
+
+    this.publisherList = document.createElement('div');
+    this.publisherList.className = 'trusted-publishers-list';
+    section.appendChild(this.publisherList);
+
+    this.renderPublishersList();
+    return section;
+  }
+
+  /**
+   * Render the list of trusted publishers
+   */
+  private renderPublishersList(): void {
+    if (!this.publisherList) return;
+
+    this.publisherList.innerHTML = '';
+
+    if (this.trustedPublishers.length === 0) {
+      const emptyMessage = document.createElement('div');
+      emptyMessage.className = 'trusted-publishers-empty';
+      emptyMessage.textContent = 'No trusted publishers.';
+      this.publisherList.appendChild(emptyMessage);
+      return;
+    }
+
+    const sortedPublishers = [...this.trustedPublishers].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+
+    for (const publisher of sortedPublishers) {
+      const item = document.createElement('div');
+      item.className = 'trusted-publishers-item';
+
+      const info = document.createElement('div');
+      info.className = 'trusted-sites-item-info';
+
+      const name = document.createElement('span');
+      name.className = 'trusted-publishers-item-name';
+      name.textContent = publisher.name;
+      info.appendChild(name);
+
+      const fingerprint = document.createElement('span');
+      fingerprint.className = 'trusted-publishers-item-fingerprint';
+      fingerprint.textContent = getKeyFingerprint(publisher.publicKey);
+      fingerprint.title = publisher.publicKey;
+      info.appendChild(fingerprint);
+
+      const date = document.createElement('span');
+      date.className = 'trusted-sites-item-date';
+      date.textContent = `Added ${this.formatDate(publisher.trustedAt)}`;
+      info.appendChild(date);
+
+      item.appendChild(info);
+
+      const removeBtn = document.createElement('button');
+      removeBtn.type = 'button';
+      removeBtn.className = 'trusted-publishers-item-remove';
+      removeBtn.title = 'Remove trusted publisher';
+      removeBtn.textContent = 'Remove';
+      removeBtn.addEventListener('click', () => this.removePublisher(publisher.publicKey));
+      item.appendChild(removeBtn);
+
+      this.publisherList.appendChild(item);
+    }
+  }
+
+  /**
+   * Add a trusted publisher from the name and key inputs
+   */
+  private addPublisher(): void {
+    const name = this.publisherNameInput?.value.trim();
+    const publicKey = this.publisherKeyInput?.value.trim();
+    if (!name || !publicKey) {
+      this.showError('Please enter the publisher name and public key');
+      return;
+    }
+
+    if (!isValidPublicKey(publicKey)) {
+      this.showError('Invalid public key. Paste the Key line of a signed macro');
+      return;
+    }
+
+    if (this.trustedPublishers.some(p => p.publicKey === publicKey)) {
+      this.showError('This publisher is already trusted');
+      return;
+    }
+
+    this.trustedPublishers = addTrustedPublisher(name, publicKey, this.trustedPublishers);
+    this.renderPublishersList();
+
+    if (this.publisherNameInput && this.publisherKeyInput) {
+      this.publisherNameInput.value = '';
+      this.publisherKeyInput.value = '';
+      this.publisherNameInput.focus();
+    }
+    this.hideError();
+  }
+
+  /**
+   * Remove a trusted publisher
+   */
+  private removePublisher(publicKey: string): void {
+    this.trustedPublishers = removeTrustedPublisher(publicKey, this.trustedPublishers);
+    this.renderPublishersList();
+    this.hideError();
+  }
+
   /**
    * Format a timestamp as a readable date
    */
@@ -319,6 +549,7 @@ export class TrustedSitesDialog {
     this.close({
       saved: true,
       trustedSites: this.trustedSites,
+      trustedPublishers: this.trustedPublishers,
     });
   }
 
@@ -340,6 +571,9 @@ export class TrustedSitesDialog {
     this.dialog = null;
     this.listContainer = null;
     this.addInput = null;
+    this.publisherList = null;
+    this.publisherNameInput = null;
+    this.publisherKeyInput = null;
     this.errorMessage = null;
 
     if (this.resolvePromise) {
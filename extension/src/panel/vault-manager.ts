@@ -0,0 +1,338 @@
+/**
+ * Credential Vault manager for the iMacros panel
+ *
+ * Features:
+ * - Create and unlock the native host's credential vault with a master password
+ * - Add entries as field=value lines, used in macros as {{!SECRET:name.field}}
+ *   (or a TOTP seed, used as {{!TOTP:name}})
+ * - Rotate the values of an entry and set or clear its expiry date
+ * - Delete entries and lock the vault
+ *
+ * Values are only ever sent to the native host; the list shows field names.
+ */
+
+import { SECRET_VARIABLE_PREFIX, type VaultEntryInfo } from '@shared/secrets';
+
+/**
+ * Options for initVaultManager
+ */
+export interface VaultManagerOptions {
+  /** Send a message to the background script */
+  sendToBackground: (type: string, payload?: unknown) => Promise<unknown>;
+}
+
+/**
+ * Response of VAULT_LIST
+ */
+interface VaultListResponse {
+  success: boolean;
+  initialized?: boolean;
+  unlocked?: boolean;
+  entries?: VaultEntryInfo[];
+  error?: string;
+}
+
+/**
+ * Parse the field=value lines of the entry form. A single line that does not
+ * start with a field name (a password, a TOTP seed or otpauth:// URI) is the
+ * entry's value ({{!SECRET:name}}, {{!TOTP:name}}). Fields left empty are
+ * skipped, so the form can list an entry's field names for rotation.
+ */
+export function parseVaultFields(text: string): Record<string, string> {
+  const lines = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (lines.length === 1 && !/^\s*[\w.-]+\s*=/.test(lines[0])) {
+    return { value: lines[0] };
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of lines) {
+    const eq = line.indexOf('=');
+    const field = eq === -1 ? '' : line.slice(0, eq).trim();
+    if (!field) {
+      throw new Error(`Expected field=value: ${line.trim().slice(0, 20)}`);
+    }
+    const value = line.slice(eq + 1);
+    if (value.trim() !== '') {
+      fields[field] = value;
+    }
+  }
+  return fields;
+}
+
+/**
+ * Expiry timestamp of a date input value: the end of that day, or 0 for none
+ */
+export function parseExpiryDate(value: string): number {
+  return value ? new Date(`${value}T23:59:59`).getTime() : 0;
+}
+
+/**
+ * Date input value of an expiry timestamp
+ */
+function formatExpiryDate(expiresAt: number): string {
+  if (!expiresAt) {
+    return '';
+  }
+  const date = new Date(expiresAt);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * The variable a macro uses for an entry
+ */
+export function getSecretUsage(entry: VaultEntryInfo): string {
+  const reference = entry.fields.length > 0 ? `${entry.name}.${entry.fields[0]}` : entry.name;
+  return `{{${SECRET_VARIABLE_PREFIX}${reference}}}`;
+}
+
+/**
+ * One-line summary of an entry
+ */
+export function formatVaultEntry(entry: VaultEntryInfo, now = Date.now()): string {
+  const day = (time: number) => new Date(time).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+  const parts = [entry.fields.length > 0 ? entry.fields.join(', ') : 'value'];
+  parts.push(entry.rotatedAt ? `rotated ${day(entry.rotatedAt)}` : `added ${day(entry.createdAt)}`);
+  if (entry.expiresAt) {
+    parts.push(entry.expiresAt <= now ? 'expired' : `expires ${day(entry.expiresAt)}`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Show a status or error line above the list
+ */
+function showVaultMessage(message: string, isError = false): void {
+  const status = document.getElementById('vault-message');
+  if (status) {
+    status.textContent = message;
+    status.classList.toggle('error', isError);
+  }
+}
+
+/**
+ * Show or hide the unlock form and the entry form for the lock state
+ */
+function showLockState(initialized: boolean, unlocked: boolean): void {
+  document.getElementById('vault-unlock-form')?.classList.toggle('hidden', unlocked);
+  document.getElementById('vault-entry-form')?.classList.toggle('hidden', !unlocked);
+  document.getElementById('vault-lock')?.classList.toggle('hidden', !unlocked);
+  const unlockButton = document.getElementById('vault-unlock');
+  if (unlockButton) {
+    unlockButton.textContent = initialized ? 'Unlock' : 'Create Vault';
+  }
+}
+
+/**
+ * Put an entry into the form so its values can be rotated or its expiry changed
+ */
+function editEntry(entry: VaultEntryInfo): void {
+  const name = document.getElementById('vault-entry-name') as HTMLInputElement | null;
+  const fields = document.getElementById('vault-entry-fields') as HTMLTextAreaElement | null;
+  const expires = document.getElementById('vault-entry-expires') as HTMLInputElement | null;
+  if (name) {
+    name.value = entry.name;
+  }
+  if (fields) {
+    fields.value = entry.fields.map(field => `${field}=`).join('\n');
+    fields.focus();
+  }
+  if (expires) {
+    expires.value = formatExpiryDate(entry.expiresAt);
+  }
+  showVaultMessage(`Enter new values to rotate ${entry.name}, or leave them empty to change only the expiry`);
+}
+
+/**
+ * Render the list of entries
+ */
+export function renderVaultEntries(entries: VaultEntryInfo[], options: VaultManagerOptions): void {
+  const list = document.getElementById('vault-list');
+  if (!list) {
+    return;
+  }
+  if (entries.length === 0) {
+    const empty = document.createElement('div');
+    empty.className = 'run-history-empty';
+    empty.textContent = 'No credentials';
+    list.replaceChildren(empty);
+    return;
+  }
+
+  const now = Date.now();
+  list.replaceChildren(...entries.map((entry) => {
+    const item = document.createElement('div');
+    item.className = `schedule-item ${entry.expiresAt && entry.expiresAt <= now ? 'error' : ''}`.trim();
+    const text = document.createElement('div');
+    text.className = 'schedule-item-text';
+    const title = document.createElement('div');
+    title.textContent = entry.name;
+    const detail = document.createElement('div');
+    detail.className = 'schedule-item-detail';
+    detail.textContent = formatVaultEntry(entry, now);
+    const usage = document.createElement('code');
+    usage.className = 'vault-usage';
+    usage.textContent = getSecretUsage(entry);
+    text.append(title, detail, usage);
+
+    const editButton = document.createElement('button');
+    editButton.className = 'log-btn';
+    editButton.textContent = 'Rotate';
+    editButton.addEventListener('click', () => editEntry(entry));
+
+    const deleteButton = document.createElement('button');
+    deleteButton.className = 'log-btn';
+    deleteButton.textContent = 'Delete';
+    deleteButton.addEventListener('click', async () => {
+      if (!window.confirm(`Delete credential "${entry.name}"?`)) {
+        return;
+      }
+      const response = await options.sendToBackground('VAULT_DELETE', { name: entry.name }) as
+        { success: boolean; error?: string } | undefined;
+      if (!response?.success) {
+        showVaultMessage(response?.error ?? 'Failed to delete credential', true);
+        return;
+      }
+      await refreshVault(options);
+    });
+
+    item.append(text, editButton, deleteButton);
+    return item;
+  }));
+}
+
+/**
+ * Load the vault state and entries and render them
+ */
+export async function refreshVault(options: VaultManagerOptions): Promise<void> {
+  try {
+    const response = await options.sendToBackground('VAULT_LIST') as VaultListResponse | undefined;
+    if (!response?.success) {
+      showLockState(false, false);
+      showVaultMessage(response?.error ?? 'Credential vault is not available', true);
+      return;
+    }
+    showLockState(!!response.initialized, !!response.unlocked);
+    renderVaultEntries(response.entries ?? [], options);
+  } catch (error) {
+    showVaultMessage(String(error), true);
+  }
+}
+
+/**
+ * Unlock the vault (or create it on first use) with the entered master password
+ */
+async function unlockVault(options: VaultManagerOptions): Promise<void> {
+  const input = document.getElementById('vault-password') as HTMLInputElement | null;
+  const password = input?.value ?? '';
+  if (!password) {
+    showVaultMessage('Enter the master password', true);
+    return;
+  }
+  const response = await options.sendToBackground('VAULT_UNLOCK', { password }) as
+    { success: boolean; error?: string } | undefined;
+  if (input) {
+    input.value = '';
+  }
+  if (!response?.success) {
+    showVaultMessage(response?.error ?? 'Failed to unlock the vault', true);
+    return;
+  }
+  showVaultMessage('Vault unlocked');
+  await refreshVault(options);
+}
+
+/**
+ * Save the entry form: add an entry, rotate its values, or change only its expiry
+ */
+async function saveEntry(options: VaultManagerOptions): Promise<void> {
+  const nameInput = document.getElementById('vault-entry-name') as HTMLInputElement | null;
+  const fieldsInput = document.getElementById('vault-entry-fields') as HTMLTextAreaElement | null;
+  const expiresInput = document.getElementById('vault-entry-expires') as HTMLInputElement | null;
+  const name = nameInput?.value.trim() ?? '';
+  if (!name) {
+    showVaultMessage('Enter a name for the credential', true);
+    return;
+  }
+
+  let fields: Record<string, string>;
+  try {
+    fields = parseVaultFields(fieldsInput?.value ?? '');
+  } catch (error) {
+    showVaultMessage(error instanceof Error ? error.message : String(error), true);
+    return;
+  }
+  const expiresAt = parseExpiryDate(expiresInput?.value ?? '');
+
+  const expiryOnly = Object.keys(fields).length === 0;
+  const response = await (expiryOnly
+    ? options.sendToBackground('VAULT_SET_EXPIRY', { name, expiresAt })
+    : options.sendToBackground('VAULT_SAVE', { name, fields, expiresAt })) as
+    { success: boolean; rotated?: boolean; error?: string } | undefined;
+  if (!response?.success) {
+    showVaultMessage(response?.error ?? 'Failed to save credential', true);
+    return;
+  }
+
+  // Do not keep the values in the page
+  if (fieldsInput) {
+    fieldsInput.value = '';
+  }
+  if (nameInput) {
+    nameInput.value = '';
+  }
+  if (expiresInput) {
+    expiresInput.value = '';
+  }
+  showVaultMessage(expiryOnly
+    ? `Expiry of ${name} updated`
+    : response.rotated ? `Rotated ${name}` : `Added ${name}`);
+  await refreshVault(options);
+}
+
+/**
+ * Set up the Credential Vault overlay and the Manage tab button that opens it
+ */
+export function initVaultManager(options: VaultManagerOptions): void {
+  const manager = document.getElementById('vault-manager');
+
+  document.getElementById('btn-vault')?.addEventListener('click', () => {
+    manager?.classList.remove('hidden');
+    showVaultMessage('');
+    refreshVault(options);
+  });
+
+  document.getElementById('vault-close')?.addEventListener('click', () => {
+    manager?.classList.add('hidden');
+  });
+
+  // Close when clicking overlay background
+  manager?.addEventListener('click', (e) => {
+    if (e.target === manager) {
+      manager.classList.add('hidden');
+    }
+  });
+
+  document.getElementById('vault-unlock')?.addEventListener('click', () => {
+    unlockVault(options).catch(error => showVaultMessage(String(error), true));
+  });
+  document.getElementById('vault-password')?.addEventListener('keydown', (e) => {
+    if ((e as KeyboardEvent).key === 'Enter') {
+      unlockVault(options).catch(error => showVaultMessage(String(error), true));
+    }
+  });
+
+  document.getElementById('vault-save')?.addEventListener('click', () => {
+    saveEntry(options).catch(error => showVaultMessage(String(error), true));
+  });
+
+  document.getElementById('vault-lock')?.addEventListener('click', async () => {
+    await options.sendToBackground('VAULT_LOCK');
+    showVaultMessage('Vault locked');
+    refreshVault(options);
+  });
+}
@@ -11,6 +11,7 @@ const fs = require('fs');
 const path = require('path');
 const os = require('os');
 const vm = require('vm');
+const zlib = require('zlib');
 const { execFile } = require('child_process');
 
 // Import shared library and local modules
@@ -26,11 +27,31 @@ try {
   const commandHandlers = require('./src/command-handlers');
   createBrowserBridge = browserBridge.createBrowserBridge;
   createBrowserHandlers = commandHandlers.createBrowserHandlers;
+  // XLSX datasources need DEFLATE, which the shared library leaves to the host
+  sharedLib.registerDatasourceReader('xlsx', sharedLib.createXlsxReader(zlib.inflateRawSync));
 } catch (e) {
   sharedLibLoadError = e.message;
   sharedLib = null;
 }
 
+// Charset-aware random-access reads for streaming large datasources (needs the TypeScript build)
+let fileService = null;
+let fileServiceLoadError = null;
+try {
+  fileService = require('./dist/services/file-service');
+} catch (e) {
+  fileServiceLoadError = e.message;
+  fileService = null;
+}
+
+// Credential vault for {{!SECRET:name.field}} references (needs the TypeScript build)
+let credentialStorage = null;
+try {
+  credentialStorage = require('./dist/services/credential-storage').createCredentialStorage();
+} catch (e) {
+  credentialStorage = null;
+}
+
 // Configuration
 const MACROS_DIR = path.join(os.homedir(), 'Documents', 'iMacros', 'Macros');
 
@@ -45,18 +66,66 @@ function stripBOM(content) {
 }
 const DATASOURCES_DIR = path.join(os.homedir(), 'Documents', 'iMacros', 'Datasources');
 const DOWNLOADS_DIR = path.join(os.homedir(), 'Documents', 'iMacros', 'Downloads');
+const HISTORY_DIR = path.join(os.homedir(), 'Documents', 'iMacros', 'History');
+// Default folder for failure artifacts when no logs folder is set in the options
+const LOGS_DIR = path.join(os.homedir(), 'Documents', 'iMacros', 'Logs');
+// Run records kept in HISTORY_DIR (oldest are deleted first)
+const MAX_RUN_HISTORY = 200;
+// CSV datasources larger than this are streamed from disk instead of loaded
+const DATASOURCE_STREAMING_THRESHOLD = 64 * 1024 * 1024;
 // Ensure directories exist
-[MACROS_DIR, DATASOURCES_DIR, DOWNLOADS_DIR].forEach(dir => {
+[MACROS_DIR, DATASOURCES_DIR, DOWNLOADS_DIR, HISTORY_DIR].forEach(dir => {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 });
 
+/**
+ * Resolve a {{!SECRET:name.field}} reference from the unlocked credential vault.
+ * Throws when the vault is unavailable or locked, or the entry is missing or expired.
+ */
+function resolveVaultSecret(reference) {
+  if (!credentialStorage) {
+    throw new Error('Credential vault is not available (native host services are not built)');
+  }
+  if (!credentialStorage.isUnlocked()) {
+    throw new Error('Credential vault is locked; unlock it in the panel to use {{!SECRET:...}}');
+  }
+  return sharedLib.resolveSecret(reference, (name) => {
+    const result = credentialStorage.getCredential(name);
+    if (result.success) {
+      return result.data;
+    }
+    if (result.error && result.error.startsWith('Credential not found')) {
+      return null;
+    }
+    throw new Error(result.error);
+  });
+}
+
+/**
+ * List vault entries with their field names (saved with each entry, so nothing is decrypted)
+ */
+function listVaultEntries() {
+  return credentialStorage.listCredentialInfo();
+}
+
+/**
+ * Current vault lock state
+ */
+function getVaultStatus() {
+  return {
+    initialized: credentialStorage.hasMasterPassword(),
+    unlocked: credentialStorage.isUnlocked(),
+  };
+}
+
 /**
  * Load datasource content from file path.
  * Resolves relative paths against DATASOURCES_DIR.
  * @param {string} dsPath - Datasource file path (absolute or relative)
- * @returns {string} CSV content
+ * @returns {string|Buffer|object} File content (raw bytes for binary formats like XLSX),
+ *   or a random-access file for streaming CSV files over DATASOURCE_STREAMING_THRESHOLD
  */
 function loadDatasource(dsPath) {
   let resolvedPath = dsPath;
@@ -69,9 +138,123 @@ function loadDatasource(dsPath) {
     log(`ERROR: ${errorMsg}`);
     throw new Error(errorMsg);
   }
+  const format = sharedLib ? sharedLib.detectDatasourceFormat(resolvedPath) : 'csv';
+  if (format === 'xlsx') {
+    return fs.readFileSync(resolvedPath);
+  }
+  if (format === 'csv' && fileService && fs.statSync(resolvedPath).size > DATASOURCE_STREAMING_THRESHOLD) {
+    const file = fileService.openRandomAccessFile(resolvedPath);
+    log(`Streaming datasource (${file.size} bytes, ${file.encoding})`);
+    return file;
+  }
   return stripBOM(fs.readFileSync(resolvedPath, 'utf8'));
 }
 
+/**
+ * Load a sub-macro's source for CALL.
+ * Resolves relative paths against MACROS_DIR.
+ * @param {string} macroPath - Macro file path (absolute or relative)
+ * @returns {string} Macro source
+ */
+function loadMacroFile(macroPath) {
+  const resolvedPath = path.isAbsolute(macroPath) ? macroPath : path.join(MACROS_DIR, macroPath);
+  log(`Loading sub-macro: ${resolvedPath}`);
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`Macro file not found: ${resolvedPath}`);
+  }
+  return stripBOM(fs.readFileSync(resolvedPath, 'utf8'));
+}
+
+/**
+ * Load a MOCK response body.
+ * Resolves relative paths against DATASOURCES_DIR.
+ * @param {string} bodyPath - Body file path (absolute or relative)
+ * @returns {Buffer} Body bytes
+ */
+function loadMockBody(bodyPath) {
+  const resolvedPath = path.isAbsolute(bodyPath) ? bodyPath : path.join(DATASOURCES_DIR, bodyPath);
+  log(`Loading mock body: ${resolvedPath}`);
+  return fs.readFileSync(resolvedPath);
+}
+
+/**
+ * File store for COOKIES and STORAGE session files.
+ * Resolves relative paths against DATASOURCES_DIR.
+ */
+const sessionFileStore = {
+  read(filePath) {
+    const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(DATASOURCES_DIR, filePath);
+    log(`Reading session file: ${resolvedPath}`);
+    return stripBOM(fs.readFileSync(resolvedPath, 'utf8'));
+  },
+  write(filePath, content) {
+    const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(DATASOURCES_DIR, filePath);
+    log(`Writing session file: ${resolvedPath}`);
+    fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+    fs.writeFileSync(resolvedPath, content, { encoding: 'utf8', mode: 0o600 });
+  },
+};
+
+/**
+ * Append text to a file (stopwatch and profiler CSV, failure artifacts).
+ * Resolves relative paths against DOWNLOADS_DIR and creates missing folders.
+ * @param {string} filePath - File path (absolute or relative)
+ * @param {string} content - Text to append
+ */
+function appendToFile(filePath, content) {
+  const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(DOWNLOADS_DIR, filePath);
+  fs.mkdirSync(path.dirname(resolvedPath), { recursive: true });
+  fs.appendFileSync(resolvedPath, content, 'utf8');
+}
+
+/**
+ * Save a run record as HISTORY_DIR/<id>.json and delete the oldest
+ * records over MAX_RUN_HISTORY. Run IDs sort in start time order.
+ * @param {object} record - RunRecord from sharedLib.createRunRecord
+ */
+function saveRunRecord(record) {
+  fs.writeFileSync(path.join(HISTORY_DIR, `${record.id}.json`), JSON.stringify(record), 'utf8');
+  const files = fs.readdirSync(HISTORY_DIR).filter(name => name.endsWith('.json')).sort();
+  for (const name of files.slice(0, Math.max(0, files.length - MAX_RUN_HISTORY))) {
+    fs.unlinkSync(path.join(HISTORY_DIR, name));
+  }
+}
+
+/**
+ * Load all run records from HISTORY_DIR, skipping unreadable files
+ * @returns {object[]} RunRecords
+ */
+function loadRunRecords() {
+  const records = [];
+  for (const name of fs.readdirSync(HISTORY_DIR)) {
+    if (!name.endsWith('.json')) {
+      continue;
+    }
+    try {
+      records.push(JSON.parse(fs.readFileSync(path.join(HISTORY_DIR, name), 'utf8')));
+    } catch (e) {
+      log('Skipping unreadable run record:', name, e.message);
+    }
+  }
+  return records;
+}
+
+/**
+ * Load one run record by ID
+ * @param {string} id - Run ID
+ * @returns {object} RunRecord
+ */
+function getRunRecord(id) {
+  if (typeof id !== 'string' || !/^[\w-]+$/.test(id)) {
+    throw new Error(`Invalid run ID: ${id}`);
+  }
+  const recordPath = path.join(HISTORY_DIR, `${id}.json`);
+  if (!fs.existsSync(recordPath)) {
+    throw new Error(`Run not found: ${id}`);
+  }
+  return JSON.parse(fs.readFileSync(recordPath, 'utf8'));
+}
+
 // Log to a file for debugging
 const logFile = fs.createWriteStream(path.join(__dirname, 'native-host.log'), { flags: 'a' });
 function log(...args) {
@@ -88,6 +271,9 @@ if (sharedLibLoadError) {
 } else if (sharedLib) {
   log('Loaded shared library and command handlers');
 }
+if (fileServiceLoadError) {
+  log('Could not load file service, large datasources are loaded into memory instead of streamed:', fileServiceLoadError);
+}
 
 const stdin = process.stdin;
 const stdout = process.stdout;
@@ -98,6 +284,9 @@ let currentStatus = 'idle';
 // Macro execution state
 let activeExecutor = null;
 let browserBridge = null;
+let activeWorkerPool = null;
+// Browser bridges of the tabs a parallel run is using
+const workerBridges = new Set();
 let activeTabId = null;
 let messageIdCounter = 0;
 
@@ -364,6 +553,8 @@ async function playJsMacro(macroPath, tabId) {
           },
           onNativeEval: nativeEval,
           onDatasourceLoad: loadDatasource,
+          onMacroLoad: loadMacroFile,
+          secretResolver: resolveVaultSecret,
         });
 
         // Register browser handlers
@@ -373,6 +564,17 @@ async function playJsMacro(macroPath, tabId) {
         // Register datasource handlers
         sharedLib.registerDatasourceHandlers((type, handler) => executor.registerHandler(type, handler));
 
+        // Register NETCAPTURE, FILTER, HEADER, MOCK, COOKIES and STORAGE handlers, sent through the browser bridge
+        sharedLib.setBrowserCommandBridge({ sendMessage: (message) => browserBridge.sendCommandMessage(message) });
+        sharedLib.registerNetworkHandlers(executor);
+        executor.registerHandler('FILTER', sharedLib.filterHandler);
+        executor.registerCleanup(sharedLib.clearFilterRules);
+        sharedLib.registerHeaderHandlers(executor);
+        sharedLib.setMockBodyLoader(loadMockBody);
+        sharedLib.registerMockHandlers(executor);
+        sharedLib.setSessionFileStore(sessionFileStore);
+        sharedLib.registerSessionHandlers((type, handler) => executor.registerHandler(type, handler));
+
         // Execute
         const startTime = Date.now();
         executor.loadMacro(macroContent);
@@ -491,6 +693,8 @@ async function playJsMacro(macroPath, tabId) {
           },
           onNativeEval: nativeEval,
           onDatasourceLoad: loadDatasource,
+          onMacroLoad: loadMacroFile,
+          secretResolver: resolveVaultSecret,
         });
 
         // Register browser handlers
@@ -500,6 +704,17 @@ async function playJsMacro(macroPath, tabId) {
         // Register datasource handlers
         sharedLib.registerDatasourceHandlers((type, handler) => executor.registerHandler(type, handler));
 
+        // Register NETCAPTURE, FILTER, HEADER, MOCK, COOKIES and STORAGE handlers, sent through the browser bridge
+        sharedLib.setBrowserCommandBridge({ sendMessage: (message) => browserBridge.sendCommandMessage(message) });
+        sharedLib.registerNetworkHandlers(executor);
+        executor.registerHandler('FILTER', sharedLib.filterHandler);
+        executor.registerCleanup(sharedLib.clearFilterRules);
+        sharedLib.registerHeaderHandlers(executor);
+        sharedLib.setMockBodyLoader(loadMockBody);
+        sharedLib.registerMockHandlers(executor);
+        sharedLib.setSessionFileStore(sessionFileStore);
+        sharedLib.registerSessionHandlers((type, handler) => executor.registerHandler(type, handler));
+
         // Execute
         const startTime = Date.now();
         executor.loadMacro(macroCode);
@@ -707,9 +922,15 @@ function listMacros(dirPath = MACROS_DIR) {
 }
 
 /**
- * Play a macro file
+ * Play a macro file. The run is saved to the run history.
+ * @param {Object} [options]
+ * @param {Object} [options.variables] - Variables set before the macro runs (e.g. from a scheduled job)
+ * @param {boolean} [options.screenshotOnError] - Save a screenshot of the tab with a failed run
+ * @param {boolean} [options.saveFailureArtifacts] - Save a screenshot, the frame HTML and the log on a fatal error
+ * @param {string} [options.pathLogs] - Folder for the failure artifacts (default: LOGS_DIR)
  */
-async function playMacro(macroPath, tabId, loop = false) {
+async function playMacro(macroPath, tabId, loop = false, options = {}) {
+  const { variables, screenshotOnError = false, saveFailureArtifacts = false, pathLogs, breakpoints } = options;
   // Check if shared library is loaded
   if (!sharedLib || !createBrowserBridge || !createBrowserHandlers) {
     log('Shared library not loaded, using stub playback');
@@ -785,6 +1006,9 @@ async function playMacro(macroPath, tabId, loop = false) {
     const executor = new sharedLib.MacroExecutor({
       macroName: macroPath,
       maxLoops,
+      initialVariables: variables,
+      onFileAppend: appendToFile,
+      failureArtifactsFolder: saveFailureArtifacts ? (pathLogs || LOGS_DIR) : undefined,
       onProgress: (progress) => {
         sendMessage({
           type: 'MACRO_PROGRESS',
@@ -796,6 +1020,7 @@ async function playMacro(macroPath, tabId, loop = false) {
             percentComplete: progress.percentComplete,
             status: progress.status,
             currentCommand: progress.currentCommand?.raw,
+            callStack: progress.callStack,
           }
         });
       },
@@ -806,6 +1031,19 @@ async function playMacro(macroPath, tabId, loop = false) {
       onNativeEval: nativeEval,
       // Enable datasource loading from file
       onDatasourceLoad: loadDatasource,
+      // Enable CALL of sub-macros from the macros folder
+      onMacroLoad: loadMacroFile,
+      // Resolve {{!SECRET:name.field}} from the credential vault
+      secretResolver: resolveVaultSecret,
+      // Debugging from the editor: pause on breakpoints and report the variables
+      breakpoints,
+      onDebugPause: breakpoints ? (info) => {
+        updateTrayStatus('paused');
+        sendMessage({
+          type: 'MACRO_DEBUG_PAUSED',
+          payload: info
+        });
+      } : undefined,
     });
 
     activeExecutor = executor;
@@ -817,7 +1055,19 @@ async function playMacro(macroPath, tabId, loop = false) {
     // Register datasource handlers
     sharedLib.registerDatasourceHandlers((type, handler) => executor.registerHandler(type, handler));
 
+    // Register NETCAPTURE, FILTER, HEADER, MOCK, COOKIES and STORAGE handlers, sent through the browser bridge
+    sharedLib.setBrowserCommandBridge({ sendMessage: (message) => browserBridge.sendCommandMessage(message) });
+    sharedLib.registerNetworkHandlers(executor);
+    executor.registerHandler('FILTER', sharedLib.filterHandler);
+    executor.registerCleanup(sharedLib.clearFilterRules);
+    sharedLib.registerHeaderHandlers(executor);
+    sharedLib.setMockBodyLoader(loadMockBody);
+    sharedLib.registerMockHandlers(executor);
+    sharedLib.setSessionFileStore(sessionFileStore);
+    sharedLib.registerSessionHandlers((type, handler) => executor.registerHandler(type, handler));
+
     // Load and execute the macro
+    const startTime = Date.now();
     executor.loadMacro(content);
     const result = await executor.execute();
 
@@ -826,6 +1076,28 @@ async function playMacro(macroPath, tabId, loop = false) {
       log('Error:', result.errorMessage, 'at line', result.errorLine);
     }
 
+    // Save the run to the history, with a screenshot of the failure if enabled
+    const screenshots = [];
+    if (!result.success && screenshotOnError && result.errorCode !== sharedLib.IMACROS_ERROR_CODES.USER_ABORT) {
+      try {
+        const capture = await browserBridge.sendCommandMessage({ type: 'captureTab' });
+        if (capture?.data?.dataUrl) {
+          const label = result.errorLine !== undefined ? `Error at line ${result.errorLine}` : 'Error';
+          screenshots.push({ label, dataUrl: capture.data.dataUrl });
+        }
+      } catch (e) {
+        log('Failure screenshot failed:', e.message);
+      }
+    }
+    let runId;
+    try {
+      const record = sharedLib.createRunRecord(result, { macro: macroPath, startTime, screenshots });
+      saveRunRecord(record);
+      runId = record.id;
+    } catch (e) {
+      log('Could not save run record:', e.message);
+    }
+
     // Send completion message
     sendMessage({
       type: result.success ? 'MACRO_COMPLETE' : 'MACRO_ERROR',
@@ -838,6 +1110,8 @@ async function playMacro(macroPath, tabId, loop = false) {
         executionTimeMs: result.executionTimeMs,
         extractData: result.extractData,
         macro: macroPath,
+        runId,
+        failureArtifacts: result.failureArtifacts,
       }
     });
 
@@ -868,6 +1142,149 @@ async function playMacro(macroPath, tabId, loop = false) {
   }
 }
 
+/**
+ * Play a datasource-driven macro in several tabs at once.
+ * The macro's SET !DATASOURCE file is split by row across `workers` tabs:
+ * worker 1 uses the tab the macro was started from, the others open a tab
+ * each (closed when the run ends).
+ */
+async function playMacroParallel(macroPath, tabId, workers) {
+  if (!sharedLib || !createBrowserBridge || !createBrowserHandlers) {
+    sendMessage({
+      type: 'MACRO_ERROR',
+      payload: { error: 'Parallel playback requires the shared library', macro: macroPath }
+    });
+    return;
+  }
+
+  try {
+    const fullPath = path.isAbsolute(macroPath)
+      ? macroPath
+      : path.join(MACROS_DIR, macroPath);
+
+    if (!fs.existsSync(fullPath)) {
+      sendMessage({
+        type: 'MACRO_ERROR',
+        payload: { error: `Macro file not found: ${macroPath}` }
+      });
+      return;
+    }
+
+    const content = stripBOM(fs.readFileSync(fullPath, 'utf8'));
+
+    // Rows come from the macro's own SET !DATASOURCE
+    const dsMatch = content.match(/^\s*SET\s+!DATASOURCE\s+(\S+)/im);
+    if (!dsMatch) {
+      sendMessage({
+        type: 'MACRO_ERROR',
+        payload: { error: 'Parallel playback needs a macro that sets !DATASOURCE', macro: macroPath }
+      });
+      return;
+    }
+    const hasHeader = /^\s*SET\s+!DATASOURCE_HEADER\s+YES\b/im.test(content);
+    const rowCount = sharedLib.countDatasourceRows(loadDatasource(dsMatch[1]), dsMatch[1], { hasHeader });
+    log(`Parallel playback of ${macroPath}: ${rowCount} rows in ${workers} tabs`);
+
+    updateTrayStatus('playing');
+    sendMessage({
+      type: 'STATUS_UPDATE',
+      payload: { status: 'playing', macro: macroPath }
+    });
+
+    const pool = sharedLib.createWorkerPool({
+      macro: content,
+      macroName: macroPath,
+      workers,
+      rowCount,
+      createWorker: async (worker) => {
+        const bridge = createBrowserBridge(sendMessage, createMessageId);
+        workerBridges.add(bridge);
+        const ownTab = worker > 1 || !tabId;
+        if (ownTab) {
+          await bridge.openTab('about:blank');
+        } else {
+          bridge.setActiveTab(tabId);
+        }
+        return {
+          bridges: {
+            browserCommand: { sendMessage: (message) => bridge.sendCommandMessage(message) },
+          },
+          setup: (executor) => {
+            executor.registerHandlers(createBrowserHandlers(bridge));
+            sharedLib.registerDatasourceHandlers((type, handler) => executor.registerHandler(type, handler));
+            sharedLib.registerNetworkHandlers(executor);
+            executor.registerHandler('FILTER', sharedLib.filterHandler);
+            executor.registerCleanup(sharedLib.clearFilterRules);
+            sharedLib.registerHeaderHandlers(executor);
+            sharedLib.setMockBodyLoader(loadMockBody);
+            sharedLib.registerMockHandlers(executor);
+            sharedLib.setSessionFileStore(sessionFileStore);
+            sharedLib.registerSessionHandlers((type, handler) => executor.registerHandler(type, handler));
+          },
+          close: async () => {
+            if (ownTab) {
+              await bridge.closeTab();
+            }
+            workerBridges.delete(bridge);
+          },
+        };
+      },
+      onWorkerProgress: (progress) => {
+        sendMessage({ type: 'WORKER_PROGRESS', payload: progress });
+      },
+      onLog: (level, msg) => {
+        log(`[${level}] ${msg}`);
+      },
+      onNativeEval: nativeEval,
+      onDatasourceLoad: loadDatasource,
+      onMacroLoad: loadMacroFile,
+      secretResolver: resolveVaultSecret,
+    });
+
+    activeWorkerPool = pool;
+    const result = await pool.run();
+    activeWorkerPool = null;
+
+    log('Parallel playback complete:', result.success ? 'SUCCESS' : 'FAILED', `(${result.rowsCompleted}/${rowCount} rows)`);
+
+    sendMessage({
+      type: result.success ? 'MACRO_COMPLETE' : 'MACRO_ERROR',
+      payload: {
+        success: result.success,
+        errorCode: result.errorCode,
+        errorMessage: result.errorMessage,
+        errorRow: result.errorRow,
+        rowsCompleted: result.rowsCompleted,
+        executionTimeMs: result.executionTimeMs,
+        extractData: result.extractData,
+        macro: macroPath,
+      }
+    });
+
+    updateTrayStatus('idle');
+    sendMessage({
+      type: 'STATUS_UPDATE',
+      payload: { status: 'idle' }
+    });
+
+  } catch (error) {
+    log('Parallel playback error:', error.message);
+    activeWorkerPool = null;
+    sendMessage({
+      type: 'MACRO_ERROR',
+      payload: {
+        error: error.message,
+        macro: macroPath,
+      }
+    });
+    updateTrayStatus('idle');
+    sendMessage({
+      type: 'STATUS_UPDATE',
+      payload: { status: 'idle' }
+    });
+  }
+}
+
 // ============================================================================
 // Folder Browsing
 // ============================================================================
@@ -1064,11 +1481,25 @@ function handleMessage(message) {
 
     case 'play_macro':
       log('Play macro requested:', message.payload?.path);
-      playMacro(message.payload?.path, message.payload?.tabId, message.payload?.loop);
+      playMacro(message.payload?.path, message.payload?.tabId, message.payload?.loop, {
+        variables: message.payload?.variables,
+        screenshotOnError: message.payload?.screenshotOnError,
+        saveFailureArtifacts: message.payload?.saveFailureArtifacts,
+        pathLogs: message.payload?.pathLogs,
+        breakpoints: message.payload?.breakpoints,
+      });
+      break;
+
+    case 'play_macro_parallel':
+      log('Parallel play requested:', message.payload?.path, 'workers:', message.payload?.workers);
+      playMacroParallel(message.payload?.path, message.payload?.tabId, message.payload?.workers || 2);
       break;
 
     case 'stop_macro':
       log('Stop macro requested');
+      if (activeWorkerPool) {
+        activeWorkerPool.stop();
+      }
       if (activeExecutor) {
         activeExecutor.stop();
         activeExecutor = null;
@@ -1104,6 +1535,16 @@ function handleMessage(message) {
       }
       break;
 
+    case 'debug_command':
+      log('Debug command requested:', message.payload?.action);
+      if (activeExecutor && message.payload?.action) {
+        activeExecutor.debug(message.payload);
+        if (message.payload.action !== 'set_breakpoints') {
+          updateTrayStatus('playing');
+        }
+      }
+      break;
+
     case 'browser_command_response':
       // Handle response from browser for pending commands
       if (message.error) {
@@ -1115,6 +1556,9 @@ function handleMessage(message) {
       if (browserBridge) {
         browserBridge.handleResponse(message);
       }
+      for (const workerBridge of workerBridges) {
+        workerBridge.handleResponse(message);
+      }
       break;
 
     case 'record_start':
@@ -1153,6 +1597,157 @@ function handleMessage(message) {
       });
       break;
 
+    case 'save_screenshot_file':
+      // SCREENSHOT command (and failure artifacts): the extension captured the tab
+      try {
+        const { dataUrl, folder, file } = message.payload || {};
+        if (!dataUrl) {
+          throw new Error('No screenshot data provided');
+        }
+        const screenshotDir = folder ? path.resolve(DOWNLOADS_DIR, folder) : DOWNLOADS_DIR;
+        fs.mkdirSync(screenshotDir, { recursive: true });
+        const screenshotPath = path.join(screenshotDir, path.basename(file || 'screenshot.png'));
+        fs.writeFileSync(screenshotPath, Buffer.from(dataUrl.replace(/^data:image\/\w+;base64,/, ''), 'base64'));
+        sendResponse(message.id, 'screenshot_saved', { success: true, path: screenshotPath });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'get_run_history':
+      try {
+        const summaries = loadRunRecords().map(record => sharedLib.summarizeRun(record));
+        const runs = sharedLib.filterRuns(summaries, message.payload || {});
+        sendResponse(message.id, 'run_history', { success: true, runs });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'get_run_report':
+      try {
+        const record = getRunRecord(message.payload?.id);
+        sendResponse(message.id, 'run_report', {
+          success: true,
+          html: sharedLib.buildRunReportHtml(record),
+          fileName: sharedLib.getRunReportFileName(record),
+        });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'clear_run_history':
+      try {
+        for (const name of fs.readdirSync(HISTORY_DIR)) {
+          if (name.endsWith('.json')) {
+            fs.unlinkSync(path.join(HISTORY_DIR, name));
+          }
+        }
+        sendResponse(message.id, 'run_history_cleared', { success: true });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'vault_status':
+      try {
+        if (!credentialStorage) {
+          throw new Error('Credential vault is not available (native host services are not built)');
+        }
+        sendResponse(message.id, 'vault_status', { success: true, ...getVaultStatus() });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'vault_unlock':
+      try {
+        const password = message.payload?.password || '';
+        // The first unlock sets the master password of a new vault
+        const result = credentialStorage.hasMasterPassword()
+          ? credentialStorage.unlock(password)
+          : credentialStorage.setMasterPassword(password);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        sendResponse(message.id, 'vault_status', { success: true, ...getVaultStatus() });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'vault_lock':
+      try {
+        credentialStorage.lock();
+        sendResponse(message.id, 'vault_status', { success: true, ...getVaultStatus() });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'vault_list':
+      try {
+        sendResponse(message.id, 'vault_entries', {
+          success: true,
+          ...getVaultStatus(),
+          entries: listVaultEntries(),
+        });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'vault_save':
+      // Add an entry, or rotate the values of an existing one
+      try {
+        const { name, fields, expiresAt } = message.payload || {};
+        if (!name || !fields || Object.keys(fields).length === 0) {
+          throw new Error('Vault entries need a name and at least one field');
+        }
+        const value = sharedLib.serializeSecretFields(fields);
+        // A single "value" field is stored as a plain value and has no field names
+        const fieldNames = sharedLib.parseSecretFields(value) ? Object.keys(fields) : undefined;
+        const exists = credentialStorage.listCredentials().includes(name);
+        let result = exists
+          ? credentialStorage.rotateCredential(name, value, fieldNames)
+          : credentialStorage.storeCredential(name, value, 0, fieldNames);
+        if (result.success && expiresAt !== undefined) {
+          result = credentialStorage.setCredentialExpiry(name, expiresAt);
+        }
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        sendResponse(message.id, 'vault_saved', { success: true, rotated: exists });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'vault_set_expiry':
+      try {
+        const result = credentialStorage.setCredentialExpiry(message.payload?.name, message.payload?.expiresAt || 0);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        sendResponse(message.id, 'vault_saved', { success: true });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
+    case 'vault_delete':
+      try {
+        const result = credentialStorage.deleteCredential(message.payload?.name);
+        if (!result.success) {
+          throw new Error(result.error);
+        }
+        sendResponse(message.id, 'vault_deleted', { success: true });
+      } catch (e) {
+        sendResponse(message.id, 'error', { error: e.message });
+      }
+      break;
+
     case 'settings_update':
       log('Settings updated:', message.payload);
       sendResponse(message.id, 'settings_updated', { success: true });
@@ -243,6 +243,7 @@ function createBrowserBridge(sendMessage, createMessageId) {
         xpath: params.xpath,
         css: params.css,
         relative: params.relative || false,
+        fallbacks: params.fallbacks,
       },
       action: {
         content: params.content,
@@ -345,6 +346,18 @@ function createBrowserBridge(sendMessage, createMessageId) {
     return sendBrowserCommand('DIALOG_RESET', {});
   }
 
+  // ===== Shared Browser Commands =====
+
+  /**
+   * Send a shared-library browser command message (BrowserCommandBridge),
+   * allowing for commands that wait in the browser (WAIT FOR=REQUEST)
+   * @param {object} message - Message with type and command fields
+   * @returns {Promise<object>}
+   */
+  async function sendCommandMessage(message) {
+    return sendBrowserCommand(message.type, message, REQUEST_TIMEOUT_MS + (message.timeoutMs || 0));
+  }
+
   // Return the bridge interface
   return {
     // Response handling
@@ -386,6 +399,9 @@ function createBrowserBridge(sendMessage, createMessageId) {
     // Dialogs
     configureDialog,
     resetDialog,
+
+    // Shared browser commands (NETCAPTURE)
+    sendCommandMessage,
   };
 }
 
@@ -0,0 +1,465 @@
+#!/usr/bin/env node
+/**
+ * Headless batch runner for iMacros
+ *
+ * Runs a macro without a browser window, e.g. from cron or CI:
+ *
+ *   imacros run <macro.iim> [-var NAME=VALUE]... [-loop N] [-datasource FILE]
+ *               [-format json|junit] [-out FILE] [-timeout SECONDS]
+ *
+ * The macro runs through createExecutor with the navigation and interaction
+ * bridges backed by the Puppeteer browser the print service uses. The report
+ * goes to stdout (or -out) and the process exits with 0 on success, 1 when the
+ * macro fails (or the report cannot be written), 2 for bad arguments and 3
+ * when -timeout stops the macro. The iMacros error code is always in the report.
+ *
+ * -datasource supplies the file the macro's SET !DATASOURCE loads, whatever
+ * path the macro names. Relative paths in CALL and SET !DATASOURCE resolve
+ * against the macro's directory.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createExecutor, IMACROS_ERROR_CODES, type CommandHandler, type MacroResult } from '../../shared/src/executor';
+import { createXlsxReader, detectDatasourceFormat, registerDatasourceReader } from '../../shared/src/datasource';
+import { registerDatasourceHandlers } from '../../shared/src/commands/datasource-handler';
+import { registerExtractionHandlers } from '../../shared/src/commands/extraction';
+import { registerFlowHandlers } from '../../shared/src/commands/flow';
+import { registerInteractionHandlers, setContentScriptSender } from '../../shared/src/commands/interaction';
+import { registerNavigationHandlers, setBrowserBridge } from '../../shared/src/commands/navigation';
+import { registerSystemHandlers } from '../../shared/src/commands/system';
+import type { CommandType } from '../../shared/src/parser';
+import type { ExtractRecord } from '../../shared/src/state-manager';
+import { getPrintService, closePrintService } from './services/print-service';
+import { HeadlessBrowser } from './services/headless-browser';
+import { openRandomAccessFile, readFileSync } from './services/file-service';
+
+/**
+ * Report formats for `imacros run`
+ */
+export type ReportFormat = 'json' | 'junit';
+
+/**
+ * Parsed `imacros run` arguments
+ */
+export interface RunOptions {
+  /** Macro file to run */
+  macroPath: string;
+  /** -var NAME=VALUE assignments, applied before the first line runs */
+  variables: Record<string, string>;
+  /** -loop N (default: 1) */
+  loops: number;
+  /** -datasource FILE */
+  datasource?: string;
+  /** -format json|junit (default: json) */
+  format: ReportFormat;
+  /** -out FILE (default: stdout) */
+  outputPath?: string;
+  /** -timeout SECONDS for the whole run (default: none) */
+  timeoutSeconds?: number;
+}
+
+/**
+ * Outcome of one `imacros run`, as written to the report
+ */
+export interface RunReport {
+  macro: string;
+  success: boolean;
+  errorCode: number;
+  errorMessage?: string;
+  errorLine?: number;
+  loopsCompleted: number;
+  executionTimeMs: number;
+  startTime: string;
+  extract: string[];
+  extractRecords: ExtractRecord[];
+}
+
+/**
+ * Where the runner writes its report and diagnostics
+ */
+export interface CliIO {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+}
+
+/**
+ * Hooks for running macros somewhere other than the print service's browser
+ */
+export interface RunDependencies {
+  /** Provide the headless browser session (default: pages in the print service's browser) */
+  openBrowser?: () => Promise<HeadlessBrowser>;
+  /** Release browser resources once the report is written */
+  closeBrowser?: () => Promise<void>;
+}
+
+export const USAGE = `Usage: imacros run <macro.iim> [options]
+
+Options:
+  -var NAME=VALUE      Set a variable before the macro starts (repeatable)
+  -loop N              Run the macro N times, as with the Play (Loop) button
+  -datasource FILE     Datasource for the macro's SET !DATASOURCE
+  -format json|junit   Report format (default: json)
+  -out FILE            Write the report to FILE instead of stdout
+  -timeout SECONDS     Stop the macro after SECONDS
+`;
+
+// CSV datasources larger than this are streamed from disk instead of loaded
+const DATASOURCE_STREAMING_THRESHOLD = 64 * 1024 * 1024;
+
+/**
+ * Parse the arguments after `imacros`. Throws with a message for the user on bad input.
+ */
+export function parseRunArgs(argv: string[]): RunOptions {
+  const [command, ...rest] = argv;
+  if (command !== 'run') {
+    throw new Error(command ? `Unknown command: ${command}` : 'Missing command');
+  }
+
+  const options: RunOptions = { macroPath: '', variables: {}, loops: 1, format: 'json' };
+
+  const valueOf = (flag: string, index: number): string => {
+    const value = rest[index];
+    if (value === undefined) {
+      throw new Error(`${flag} needs a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith('-')) {
+      if (options.macroPath) {
+        throw new Error(`Unexpected argument: ${arg}`);
+      }
+      options.macroPath = arg;
+      continue;
+    }
+
+    const flag = arg.replace(/^--?/, '').toLowerCase();
+    switch (flag) {
+      case 'var': {
+        const assignment = valueOf(arg, ++i);
+        const eq = assignment.indexOf('=');
+        if (eq <= 0) {
+          throw new Error(`-var expects NAME=VALUE, got: ${assignment}`);
+        }
+        options.variables[assignment.substring(0, eq)] = assignment.substring(eq + 1);
+        break;
+      }
+      case 'loop': {
+        const value = valueOf(arg, ++i);
+        const loops = Number(value);
+        if (!Number.isInteger(loops) || loops < 1) {
+          throw new Error(`-loop expects a positive whole number, got: ${value}`);
+        }
+        options.loops = loops;
+        break;
+      }
+      case 'datasource':
+        options.datasource = valueOf(arg, ++i);
+        break;
+      case 'format': {
+        const value = valueOf(arg, ++i).toLowerCase();
+        if (value !== 'json' && value !== 'junit') {
+          throw new Error(`-format expects json or junit, got: ${value}`);
+        }
+        options.format = value;
+        break;
+      }
+      case 'out':
+        options.outputPath = valueOf(arg, ++i);
+        break;
+      case 'timeout': {
+        const value = valueOf(arg, ++i);
+        const seconds = Number(value);
+        if (!(seconds > 0)) {
+          throw new Error(`-timeout expects a number of seconds, got: ${value}`);
+        }
+        options.timeoutSeconds = seconds;
+        break;
+      }
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  if (!options.macroPath) {
+    throw new Error('Missing macro path');
+  }
+  return options;
+}
+
+/**
+ * Build the report for a finished run
+ */
+export function buildRunReport(macro: string, result: MacroResult, startTime: Date): RunReport {
+  return {
+    macro,
+    success: result.success,
+    errorCode: result.errorCode,
+    errorMessage: result.errorMessage,
+    errorLine: result.errorLine,
+    loopsCompleted: result.loopsCompleted,
+    executionTimeMs: result.executionTimeMs,
+    startTime: startTime.toISOString(),
+    extract: result.extractData,
+    extractRecords: result.extractRecords ?? [],
+  };
+}
+
+/**
+ * Report as pretty-printed JSON
+ */
+export function formatJsonReport(report: RunReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+function escapeXml(value: string): string {
+  return value
+    // Characters XML 1.0 cannot carry at all
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Report as JUnit XML: one test suite with one test case for the macro
+ */
+export function formatJunitReport(report: RunReport): string {
+  const name = escapeXml(path.basename(report.macro));
+  const seconds = (report.executionTimeMs / 1000).toFixed(3);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuite name="imacros" tests="1" failures="${report.success ? 0 : 1}" errors="0" ` +
+      `time="${seconds}" timestamp="${report.startTime}">`,
+    `  <testcase classname="imacros" name="${name}" time="${seconds}">`,
+  ];
+  if (!report.success) {
+    const where = report.errorLine !== undefined ? ` (line ${report.errorLine})` : '';
+    const message = escapeXml(`${report.errorMessage ?? 'Macro failed'}${where}`);
+    lines.push(`    <failure type="${report.errorCode}" message="${message}"/>`);
+  }
+  const output = [`loops=${report.loopsCompleted}`, ...report.extract.map(value => `extract=${value}`)];
+  lines.push(`    <system-out>${escapeXml(output.join('\n'))}</system-out>`);
+  lines.push('  </testcase>', '</testsuite>', '');
+  return lines.join('\n');
+}
+
+/**
+ * Process exit statuses. iMacros error codes are negative and would reach the
+ * shell modulo 256, so they are only written to the report.
+ */
+export const EXIT_CODES = {
+  OK: 0,
+  MACRO_FAILED: 1,
+  USAGE: 2,
+  TIMEOUT: 3,
+} as const;
+
+/**
+ * Process exit status for an iMacros error code
+ */
+export function exitCodeFor(errorCode: number): number {
+  switch (errorCode) {
+    case IMACROS_ERROR_CODES.OK:
+      return EXIT_CODES.OK;
+    case IMACROS_ERROR_CODES.TIMEOUT:
+      return EXIT_CODES.TIMEOUT;
+    default:
+      return EXIT_CODES.MACRO_FAILED;
+  }
+}
+
+/**
+ * Read a datasource the way the native host does: XLSX as bytes,
+ * very large CSV files streamed, everything else as decoded text
+ */
+function loadDatasourceFile(filePath: string) {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Datasource file not found: ${filePath}`);
+  }
+  const format = detectDatasourceFormat(filePath);
+  if (format === 'xlsx') {
+    return fs.readFileSync(filePath);
+  }
+  if (format === 'csv' && fs.statSync(filePath).size > DATASOURCE_STREAMING_THRESHOLD) {
+    return openRandomAccessFile(filePath);
+  }
+  return readFileSync(filePath).content;
+}
+
+async function openPrintServiceBrowser(): Promise<HeadlessBrowser> {
+  return new HeadlessBrowser(await getPrintService().getBrowser());
+}
+
+/**
+ * Run `imacros run ...` and return the process exit code
+ */
+export async function runCli(argv: string[], io: CliIO, deps: RunDependencies = {}): Promise<number> {
+  let options: RunOptions;
+  try {
+    options = parseRunArgs(argv);
+  } catch (error) {
+    io.stderr(`${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_CODES.USAGE;
+  }
+
+  const macroPath = path.resolve(options.macroPath);
+  const macroDir = path.dirname(macroPath);
+  const resolve = (target: string) => (path.isAbsolute(target) ? target : path.join(macroDir, target));
+  const datasourcePath = options.datasource ? path.resolve(options.datasource) : undefined;
+
+  let macroSource: string;
+  try {
+    macroSource = readFileSync(macroPath).content;
+  } catch (error) {
+    const errorMessage = `Cannot read macro ${macroPath}: ${(error as Error).message}`;
+    io.stderr(`${errorMessage}\n`);
+    const failure: MacroResult = {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.FILE_NOT_FOUND,
+      errorMessage,
+      loopsCompleted: 0,
+      executionTimeMs: 0,
+      extractData: [],
+      variables: {},
+    };
+    return writeReport(buildRunReport(macroPath, failure, new Date()), options, io);
+  }
+
+  // XLSX datasources need DEFLATE, which the shared library leaves to the host
+  registerDatasourceReader('xlsx', createXlsxReader(zlib.inflateRawSync));
+
+  const executor = createExecutor({
+    macroName: path.basename(macroPath),
+    maxLoops: options.loops,
+    initialVariables: { ...options.variables },
+    onLog: (level, message) => {
+      if (level === 'error' || level === 'warn') {
+        io.stderr(`[${level}] ${message}\n`);
+      }
+    },
+    onDatasourceLoad: (dsPath) => loadDatasourceFile(datasourcePath ?? resolve(dsPath)),
+    onMacroLoad: (callPath) => readFileSync(resolve(callPath)).content,
+  });
+  const register = (type: string, handler: CommandHandler) =>
+    executor.registerHandler(type as CommandType, handler);
+  registerNavigationHandlers({ registerHandler: register });
+  registerInteractionHandlers(register);
+  registerExtractionHandlers(register);
+  registerFlowHandlers(register);
+  registerSystemHandlers(register);
+  registerDatasourceHandlers(register);
+
+  const parsed = executor.loadMacro(macroSource);
+  const startTime = new Date();
+  let result: MacroResult;
+  let browser: HeadlessBrowser | null = null;
+
+  if (parsed.errors.length > 0) {
+    const first = parsed.errors[0];
+    result = {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+      errorMessage: first.message,
+      errorLine: first.lineNumber,
+      loopsCompleted: 0,
+      executionTimeMs: 0,
+      extractData: [],
+      variables: {},
+    };
+  } else {
+    try {
+      browser = await (deps.openBrowser ?? openPrintServiceBrowser)();
+      setBrowserBridge(browser.browserBridge);
+      setContentScriptSender(browser.contentScriptSender);
+      result = await executeWithTimeout(executor, options.timeoutSeconds);
+    } catch (error) {
+      result = {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: `Cannot start the headless browser: ${(error as Error).message}`,
+        loopsCompleted: 0,
+        executionTimeMs: Date.now() - startTime.getTime(),
+        extractData: [],
+        variables: {},
+      };
+    } finally {
+      await browser?.close();
+      await (deps.closeBrowser ?? closePrintService)().catch(() => undefined);
+    }
+  }
+
+  return writeReport(buildRunReport(macroPath, result, startTime), options, io);
+}
+
+/**
+ * Write the report to -out (or stdout) and return the exit code for the run
+ */
+function writeReport(report: RunReport, options: RunOptions, io: CliIO): number {
+  const text = options.format === 'junit' ? formatJunitReport(report) : formatJsonReport(report);
+  if (options.outputPath) {
+    const outputPath = path.resolve(options.outputPath);
+    try {
+      fs.writeFileSync(outputPath, text, 'utf8');
+    } catch (error) {
+      io.stderr(`Cannot write report ${outputPath}: ${(error as Error).message}\n`);
+      return EXIT_CODES.MACRO_FAILED;
+    }
+  } else {
+    io.stdout(text);
+  }
+  return exitCodeFor(report.errorCode);
+}
+
+/**
+ * Run the macro, giving up when the -timeout budget runs out. A command that
+ * is still busy (a page load, a long WAIT) is not waited for; the result keeps
+ * the loops finished and the data extracted so far.
+ */
+async function executeWithTimeout(
+  executor: ReturnType<typeof createExecutor>,
+  timeoutSeconds?: number
+): Promise<MacroResult> {
+  if (!timeoutSeconds) {
+    return executor.execute();
+  }
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<MacroResult>(resolve => {
+    timer = setTimeout(() => {
+      const state = executor.getState();
+      executor.stop();
+      resolve({
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.TIMEOUT,
+        errorMessage: `Macro timed out after ${timeoutSeconds}s`,
+        // The loop in progress did not finish
+        loopsCompleted: Math.max(0, state.getLoopCounter() - 1),
+        executionTimeMs: timeoutSeconds * 1000,
+        extractData: state.getExtractData(),
+        extractRecords: state.getExtractRecords(),
+        variables: {},
+      });
+    }, timeoutSeconds * 1000);
+  });
+  try {
+    return await Promise.race([executor.execute(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2), {
+    stdout: text => process.stdout.write(text),
+    stderr: text => process.stderr.write(text),
+  }).then(code => {
+    process.exit(code);
+  }).catch(error => {
+    process.stderr.write(`${error instanceof Error ? error.stack : String(error)}\n`);
+    process.exit(EXIT_CODES.MACRO_FAILED);
+  });
+}
@@ -275,6 +275,7 @@ function createBrowserHandlers(bridge) {
         attr: expandWithTokens(ctx, 'ATTR'),
         xpath: expandIfPresent(ctx, 'XPATH'),
         css: expandIfPresent(ctx, 'CSS'),
+        fallbacks: parseFallbacks(expandIfPresent(ctx, 'FALLBACK')),
         content: expandIfPresent(ctx, 'CONTENT'),
         extract: ctx.getParam('EXTRACT'),
         form: ctx.getParam('FORM'),
@@ -318,16 +319,27 @@ function createBrowserHandlers(bridge) {
           };
         }
 
-        // Handle extraction
-        if (params.extract && result.extractedData !== undefined) {
-          ctx.state.addExtract(result.extractedData);
-          ctx.log('info', `Extracted: ${result.extractedData}`);
+        if (result.fallbackUsed) {
+          const suggestion = suggestFallbackRewrite(ctx.command, result.fallbackUsed);
+          ctx.log('warn', `TAG: primary locator failed, matched fallback ${result.fallbackUsed}`
+            + (suggestion ? `. Suggested line: ${suggestion}` : ''));
+        }
+
+        // Handle extraction (a table becomes one value, each row starting with [EXTRACT_ROW])
+        let extracted = result.extractedData;
+        if (params.extract && result.extractedTable) {
+          extracted = formatTableExtract(result.extractedTable);
+          ctx.log('info', `Extracted table: ${result.extractedTable.rows.length} rows`);
+        }
+        if (params.extract && extracted !== undefined) {
+          appendExtract(ctx, extracted);
+          ctx.log('info', `Extracted: ${extracted}`);
         }
 
         return {
           success: true,
           errorCode: ERROR_CODES.OK,
-          output: result.extractedData,
+          output: extracted,
         };
       } catch (error) {
         return {
@@ -552,7 +564,7 @@ function createBrowserHandlers(bridge) {
 
         // Handle extraction
         if (result.extractedData !== undefined) {
-          ctx.state.addExtract(result.extractedData);
+          appendExtract(ctx, result.extractedData);
           ctx.log('info', `SEARCH found: ${result.extractedData}`);
         }
 
@@ -645,6 +657,8 @@ function createBrowserHandlers(bridge) {
      * SAVEAS command handler
      * SAVEAS TYPE=EXTRACT FOLDER=/path FILE=filename.csv
      * SAVEAS TYPE=TXT FOLDER=/path FILE=filename.txt
+     * SAVEAS TYPE=JSON|JSONL|XLSX FOLDER=/path FILE=filename (extract records)
+     * SAVEAS TYPE=HAR FOLDER=/path FILE=filename.har (network capture)
      */
     SAVEAS: async (ctx) => {
       const typeParam = ctx.getParam('TYPE');
@@ -677,12 +691,20 @@ function createBrowserHandlers(bridge) {
       try {
         let content = '';
 
-        if (saveType === 'EXTRACT') {
-          // Get content from !EXTRACT variable and format as CSV
-          // (iMacros 8.9.7 parity: escape quotes, replace [EXTRACT] with "," delimiter)
-          const raw = String(ctx.state.getVariable('!EXTRACT') || '');
-          const escaped = raw.replace(/"/g, '""');
-          content = '"' + escaped.replace(/\[EXTRACT\]/g, '","') + '"';
+        if (saveType === 'JSON' || saveType === 'JSONL' || saveType === 'XLSX') {
+          return saveExtractRecords(ctx, saveType, fullPath);
+        } else if (saveType === 'EXTRACT') {
+          // Format the !EXTRACT values as CSV like the extension does
+          // (iMacros 8.9.7 parity; EXTRACT=TABLE rows become separate lines)
+          const { formatExtractAsCsv } = require('../../shared/dist');
+          content = formatExtractAsCsv(ctx.state.getVariables().getExtractArray());
+        } else if (saveType === 'HAR') {
+          // The extension holds the requests recorded by NETCAPTURE
+          const response = await bridge.sendBrowserCommand('netCapture', { action: 'har' });
+          if (!response.data || !response.data.har) {
+            throw new Error(response.error || 'Failed to read the network capture');
+          }
+          content = JSON.stringify(response.data.har, null, 2);
         } else if (saveType === 'TXT') {
           // For TXT, also use !EXTRACT by default
           content = String(ctx.state.getVariable('!EXTRACT') || '');
@@ -729,6 +751,59 @@ function createBrowserHandlers(bridge) {
 
 // ===== Helper Functions =====
 
+/**
+ * Format a table from EXTRACT=TABLE for !EXTRACT: cells joined with [EXTRACT],
+ * each row (headers first) starting with [EXTRACT_ROW]
+ */
+function formatTableExtract(table) {
+  const rows = table.headers ? [table.headers, ...table.rows] : table.rows;
+  return rows.map((row) => '[EXTRACT_ROW]' + row.join('[EXTRACT]')).join('');
+}
+
+/**
+ * Add extracted data, naming the record field with the AS parameter if given
+ */
+function appendExtract(ctx, value) {
+  const field = (expandIfPresent(ctx, 'AS') || '').trim();
+  if (field) {
+    ctx.state.addExtract(value, field);
+  } else {
+    ctx.state.addExtract(value);
+  }
+}
+
+/**
+ * Write extract records for SAVEAS TYPE=JSON/JSONL/XLSX.
+ * JSON and XLSX are rewritten with all records; JSONL appends new records.
+ */
+function saveExtractRecords(ctx, saveType, fullPath) {
+  const {
+    formatExtractRecordsAsJson,
+    formatExtractRecordsAsJsonl,
+    formatExtractRecordsAsXlsx,
+  } = require('../../shared/dist');
+
+  const dir = path.dirname(fullPath);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const fields = ctx.state.getExtractFields();
+  if (saveType === 'JSONL') {
+    fs.appendFileSync(fullPath, formatExtractRecordsAsJsonl(ctx.state.takeNewExtractRecords(), fields), 'utf8');
+    ctx.log('info', `Appended to ${fullPath}`);
+  } else if (saveType === 'JSON') {
+    fs.writeFileSync(fullPath, formatExtractRecordsAsJson(ctx.state.getExtractRecords(), fields), 'utf8');
+    ctx.log('info', `Saved to ${fullPath}`);
+  } else {
+    fs.writeFileSync(fullPath, formatExtractRecordsAsXlsx(ctx.state.getExtractRecords(), fields));
+    ctx.log('info', `Saved to ${fullPath}`);
+  }
+  ctx.state.clearExtract();
+
+  return { success: true, errorCode: ERROR_CODES.OK };
+}
+
 /**
  * Replace iMacros special tokens like <SP>, <BR>, <TAB>
  * @param {string} str - The string to process
@@ -790,6 +865,49 @@ function parsePos(posStr) {
   return { pos: num, relative: false };
 }
 
+/**
+ * Split a FALLBACK parameter ("ID:q||NAME:query") into its locators
+ * @param {string|undefined} str - The expanded FALLBACK value
+ * @returns {string[]|undefined}
+ */
+function parseFallbacks(str) {
+  if (!str) return undefined;
+  const locators = str.split('||').map(s => s.trim()).filter(Boolean);
+  return locators.length > 0 ? locators : undefined;
+}
+
+/**
+ * Suggest a TAG line using the fallback locator that matched as the primary one
+ * @param {object} command - The parsed TAG command
+ * @param {string} fallback - The fallback locator that matched (e.g. "NAME:q")
+ * @returns {string|null} - Suggested line, or null when there is no TAG equivalent
+ */
+function suggestFallbackRewrite(command, fallback) {
+  const colonIndex = fallback.indexOf(':');
+  if (colonIndex <= 0) return null;
+  const kind = fallback.substring(0, colonIndex).toUpperCase();
+  const value = fallback.substring(colonIndex + 1);
+  const quote = (text) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  let locator;
+  if (kind === 'XPATH') {
+    locator = `XPATH=${quote(value)}`;
+  } else if (kind === 'CSS') {
+    locator = `CSS=${quote(value)}`;
+  } else if (kind === 'ID' || kind === 'NAME' || kind === 'TXT') {
+    const typeParam = command.parameters.find(p => p.key.toUpperCase() === 'TYPE');
+    locator = `POS=1 TYPE=${typeParam ? typeParam.rawValue : '*'} ATTR=${kind}:${value.replace(/ /g, '<SP>')}`;
+  } else {
+    return null;
+  }
+
+  const replaced = ['POS', 'TYPE', 'ATTR', 'XPATH', 'CSS', 'FORM'];
+  const kept = command.parameters
+    .filter(p => !replaced.includes(p.key.toUpperCase()))
+    .map(p => `${p.key}=${p.rawValue}`);
+  return ['TAG', locator, ...kept].join(' ');
+}
+
 /**
  * Parse an integer or return undefined
  */
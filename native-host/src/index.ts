@@ -111,7 +111,7 @@ export async function handleMessage(message: Message): Promise<ResponseMessage>
       try {
         const payload = (message as any).payload as {
           saveType?: string; folder?: string; file?: string;
-          content?: string; quality?: number;
+          content?: string; contentEncoding?: string; quality?: number;
         };
         if (!payload?.file) {
           return {
@@ -136,10 +136,15 @@ export async function handleMessage(message: Message): Promise<ResponseMessage>
 
         // Write file (append if file exists for EXTRACT type)
         // iMacros 8.9.7: EXTRACT always writes a line with trailing \r\n
+        // JSONL content is whole lines and is appended; JSON and XLSX are rewritten
         if (saveType === 'EXTRACT' && fs.existsSync(fullPath)) {
           fs.appendFileSync(fullPath, content + '\r\n', 'utf8');
         } else if (saveType === 'EXTRACT') {
           fs.writeFileSync(fullPath, content + '\r\n', 'utf8');
+        } else if (saveType === 'JSONL') {
+          fs.appendFileSync(fullPath, content, 'utf8');
+        } else if (payload.contentEncoding === 'base64') {
+          fs.writeFileSync(fullPath, Buffer.from(content, 'base64'));
         } else {
           fs.writeFileSync(fullPath, content, 'utf8');
         }
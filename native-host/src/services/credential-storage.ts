@@ -2,8 +2,9 @@
  * Credential Storage Service for iMacros Native Host
  *
  * Provides secure credential storage using AES-256-GCM encryption with
- * PBKDF2 key derivation. Supports master password, session keys, and
- * encrypted variable storage for the !ENCRYPTION commands in iMacros.
+ * PBKDF2 key derivation. Supports master password, session keys,
+ * encrypted variable storage for the !ENCRYPTION commands in iMacros, and
+ * the named credentials macros read with {{!SECRET:name.field}}.
  */
 import * as crypto from 'crypto';
 import * as fs from 'fs';
@@ -36,6 +37,26 @@ export interface StoredCredential {
   createdAt: number;
   /** Timestamp when the credential expires (0 for never) */
   expiresAt: number;
+  /** Timestamp when the value was last rotated */
+  rotatedAt?: number;
+  /** Field names of a multi-field value, kept in the clear so listing does not decrypt */
+  fields?: string[];
+}
+
+/**
+ * Credential metadata (never includes the value)
+ */
+export interface CredentialInfo {
+  /** Name/identifier of the credential */
+  name: string;
+  /** Timestamp when the credential was stored */
+  createdAt: number;
+  /** Timestamp when the value was last rotated (0 for never) */
+  rotatedAt: number;
+  /** Timestamp when the credential expires (0 for never) */
+  expiresAt: number;
+  /** Field names of a multi-field value (empty for a single value) */
+  fields: string[];
 }
 
 /**
@@ -183,6 +204,8 @@ export class CredentialStorageService {
   private sessionKeys: Map<string, SessionKey> = new Map();
   private masterKey: Buffer | null = null;
   private unlocked: boolean = false;
+  /** Credential keys derived from the master key, by salt; dropped when the store locks */
+  private credentialKeys: Map<string, Buffer> = new Map();
 
   /**
    * Create a new Credential Storage Service
@@ -279,6 +302,7 @@ export class CredentialStorageService {
     this.store.masterPasswordHash = hash;
     this.store.masterPasswordSalt = salt.toString('base64');
     this.masterKey = deriveKey(password, salt);
+    this.credentialKeys.clear();
     this.unlocked = true;
 
     this.saveStore();
@@ -383,6 +407,7 @@ export class CredentialStorageService {
     this.store.masterPasswordHash = hashPassword(newPassword, newSalt);
     this.store.masterPasswordSalt = newSalt.toString('base64');
     this.masterKey = newKey;
+    this.credentialKeys.clear();
 
     this.saveStore();
 
@@ -414,6 +439,7 @@ export class CredentialStorageService {
     }
 
     this.masterKey = deriveKey(password, salt);
+    this.credentialKeys.clear();
     this.unlocked = true;
 
     return { success: true };
@@ -426,6 +452,7 @@ export class CredentialStorageService {
     this.masterKey = null;
     this.unlocked = false;
     this.sessionKeys.clear();
+    this.credentialKeys.clear();
   }
 
   /**
@@ -434,12 +461,14 @@ export class CredentialStorageService {
    * @param name - Name/identifier for the credential
    * @param value - The credential value to store
    * @param expiresIn - Optional expiration time in milliseconds (0 for never)
+   * @param fields - Field names of a multi-field value, listed without decrypting
    * @returns Result indicating success or failure
    */
   storeCredential(
     name: string,
     value: string,
-    expiresIn: number = 0
+    expiresIn: number = 0,
+    fields?: string[]
   ): CredentialResult {
     if (!this.unlocked || !this.masterKey) {
       return {
@@ -449,21 +478,13 @@ export class CredentialStorageService {
     }
 
     try {
-      const salt = crypto.randomBytes(SALT_LENGTH);
-      const key = deriveKey(
-        this.masterKey.toString('hex'),
-        salt
-      );
-      const { encrypted, iv, authTag } = encrypt(value, key);
       const now = Date.now();
 
       this.store.credentials[name] = {
-        encryptedData: encrypted,
-        salt: salt.toString('base64'),
-        iv,
-        authTag,
+        ...this.encryptCredentialValue(value, this.masterKey),
         createdAt: now,
         expiresAt: expiresIn > 0 ? now + expiresIn : 0,
+        fields: fields && fields.length > 0 ? fields : undefined,
       };
 
       this.saveStore();
@@ -476,6 +497,104 @@ export class CredentialStorageService {
     }
   }
 
+  /**
+   * Replace the value of a stored credential, keeping its creation and
+   * expiration times
+   *
+   * @param name - Name/identifier of the credential
+   * @param value - The new credential value
+   * @param fields - Field names of a multi-field value, listed without decrypting
+   * @returns Result indicating success or failure
+   */
+  rotateCredential(name: string, value: string, fields?: string[]): CredentialResult {
+    const credential = this.store.credentials[name];
+
+    if (!credential) {
+      return {
+        success: false,
+        error: `Credential not found: ${name}`,
+      };
+    }
+
+    if (!this.unlocked || !this.masterKey) {
+      return {
+        success: false,
+        error: 'Storage is locked. Call unlock() first.',
+      };
+    }
+
+    try {
+      this.store.credentials[name] = {
+        ...credential,
+        ...this.encryptCredentialValue(value, this.masterKey),
+        rotatedAt: Date.now(),
+        fields: fields && fields.length > 0 ? fields : undefined,
+      };
+
+      this.saveStore();
+      return { success: true };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to rotate credential: ${error}`,
+      };
+    }
+  }
+
+  /**
+   * Set when a credential expires
+   *
+   * @param name - Name/identifier of the credential
+   * @param expiresAt - Expiration timestamp (0 for never)
+   * @returns Result indicating success or failure
+   */
+  setCredentialExpiry(name: string, expiresAt: number): CredentialResult {
+    const credential = this.store.credentials[name];
+
+    if (!credential) {
+      return {
+        success: false,
+        error: `Credential not found: ${name}`,
+      };
+    }
+
+    credential.expiresAt = expiresAt > 0 ? expiresAt : 0;
+    this.saveStore();
+
+    return { success: true };
+  }
+
+  /**
+   * Encrypt a credential value with a key derived from the master key
+   */
+  private encryptCredentialValue(
+    value: string,
+    masterKey: Buffer
+  ): Pick<StoredCredential, 'encryptedData' | 'salt' | 'iv' | 'authTag'> {
+    const salt = crypto.randomBytes(SALT_LENGTH).toString('base64');
+    const { encrypted, iv, authTag } = encrypt(value, this.getCredentialKey(masterKey, salt));
+
+    return {
+      encryptedData: encrypted,
+      salt,
+      iv,
+      authTag,
+    };
+  }
+
+  /**
+   * Key of one credential, derived from the master key and the credential's
+   * salt. PBKDF2 is slow on purpose, so keys are kept until the store locks.
+   */
+  private getCredentialKey(masterKey: Buffer, salt: string): Buffer {
+    let key = this.credentialKeys.get(salt);
+    if (!key) {
+      key = deriveKey(masterKey.toString('hex'), Buffer.from(salt, 'base64'));
+      this.credentialKeys.set(salt, key);
+    }
+    return key;
+  }
+
   /**
    * Retrieve a credential
    *
@@ -510,14 +629,9 @@ export class CredentialStorageService {
     }
 
     try {
-      const salt = Buffer.from(credential.salt, 'base64');
-      const key = deriveKey(
-        this.masterKey.toString('hex'),
-        salt
-      );
       const decrypted = decrypt(
         credential.encryptedData,
-        key,
+        this.getCredentialKey(this.masterKey, credential.salt),
         credential.iv,
         credential.authTag
       );
@@ -560,6 +674,21 @@ export class CredentialStorageService {
     return Object.keys(this.store.credentials);
   }
 
+  /**
+   * List stored credentials with their timestamps (without values)
+   *
+   * @returns Array of credential metadata
+   */
+  listCredentialInfo(): CredentialInfo[] {
+    return Object.entries(this.store.credentials).map(([name, credential]) => ({
+      name,
+      createdAt: credential.createdAt,
+      rotatedAt: credential.rotatedAt ?? 0,
+      expiresAt: credential.expiresAt,
+      fields: credential.fields ?? [],
+    }));
+  }
+
   /**
    * Create a session key that expires after a timeout
    *
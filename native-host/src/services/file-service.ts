@@ -82,6 +82,29 @@ export interface ReadFileResult {
   byteLength: number;
 }
 
+/**
+ * Random-access reader for files too large to load at once
+ */
+export interface RandomAccessFile {
+  /** File size in bytes */
+  size: number;
+  /** Encoding used by decode (forced, detected or utf-8) */
+  encoding: Charset;
+  /** Encoding detected from the start of the file (null if forced or not detected) */
+  detectedEncoding: Charset | null;
+  /** Read up to `length` bytes starting at byte `position` */
+  read(position: number, length: number): Buffer;
+  /** Decode bytes read from the file (a BOM is not stripped) */
+  decode(bytes: Uint8Array): string;
+  /** Close the file descriptor */
+  close(): void;
+}
+
+/**
+ * Bytes examined to detect the encoding of a file opened for random access
+ */
+const ENCODING_SAMPLE_SIZE = 64 * 1024;
+
 /**
  * Detect the character encoding of a buffer by examining BOM and content
  */
@@ -285,6 +308,81 @@ export function readFileSync(
   };
 }
 
+/**
+ * Drop a UTF-8 sequence cut off at the end of a sample so it does not
+ * make valid UTF-8 look invalid
+ */
+function trimPartialUtf8(sample: Buffer): Buffer {
+  for (let i = sample.length - 1; i >= Math.max(0, sample.length - 4); i--) {
+    const byte = sample[i];
+    if ((byte & 0xc0) === 0x80) {
+      continue; // continuation byte
+    }
+    const expected = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+    return sample.length - i < expected ? sample.subarray(0, i) : sample;
+  }
+  return sample;
+}
+
+/**
+ * Open a file for random-access reads with charset detection/conversion.
+ * The encoding is detected from the start of the file unless given.
+ */
+export function openRandomAccessFile(
+  filePath: string,
+  options: ReadFileOptions = {}
+): RandomAccessFile {
+  const { encoding, detectEncoding: shouldDetect = true } = options;
+
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const size = fs.fstatSync(fd).size;
+
+    const read = (position: number, length: number): Buffer => {
+      const buffer = Buffer.alloc(Math.max(0, Math.min(length, size - position)));
+      let offset = 0;
+      while (offset < buffer.length) {
+        const bytesRead = fs.readSync(fd, buffer, offset, buffer.length - offset, position + offset);
+        if (bytesRead === 0) break;
+        offset += bytesRead;
+      }
+      return offset < buffer.length ? buffer.subarray(0, offset) : buffer;
+    };
+
+    let detectedEncoding: Charset | null = null;
+    let finalEncoding: Charset;
+
+    if (encoding) {
+      finalEncoding = encoding;
+    } else if (shouldDetect) {
+      const sample = read(0, ENCODING_SAMPLE_SIZE);
+      detectedEncoding = detectEncoding(size > sample.length ? trimPartialUtf8(sample) : sample);
+      finalEncoding = detectedEncoding || 'utf-8';
+    } else {
+      finalEncoding = 'utf-8';
+    }
+
+    let closed = false;
+    return {
+      size,
+      encoding: finalEncoding,
+      detectedEncoding,
+      read,
+      decode: (bytes: Uint8Array) =>
+        iconv.decode(Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength), finalEncoding),
+      close: () => {
+        if (!closed) {
+          closed = true;
+          fs.closeSync(fd);
+        }
+      },
+    };
+  } catch (error) {
+    fs.closeSync(fd);
+    throw error;
+  }
+}
+
 /**
  * Write a file with charset encoding
  */
@@ -571,6 +669,7 @@ export class FileService {
   static stat = stat;
   static statSync = statSync;
   static detectEncoding = detectEncoding;
+  static openRandomAccessFile = openRandomAccessFile;
 }
 
 export default FileService;
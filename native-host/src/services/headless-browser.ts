@@ -0,0 +1,787 @@
+/**
+ * Headless Browser for iMacros Native Host
+ *
+ * Drives a Puppeteer browser on behalf of the shared navigation and
+ * interaction command handlers, so macros can run without the extension
+ * (see the `imacros run` CLI). Browser pages stand in for tabs, and TAG,
+ * EVENT and SEARCH run in the frame selected with FRAME.
+ *
+ * Elements are located by the extension's element finder, bundled into
+ * dist/page-scripts by `npm run build:page-scripts` and injected into each
+ * frame: XPATH, CSS or POS/TYPE/ATTR (with FORM filter and relative
+ * positions), then any FALLBACK locators recorded with the TAG.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Browser, Frame, Page } from 'puppeteer';
+import { IMACROS_ERROR_CODES } from '../../../shared/src/executor';
+import { searchRegexp, searchText } from '../../../shared/src/commands/extraction';
+import type {
+  BrowserBridge,
+  BrowserOperationMessage,
+  BrowserOperationResponse,
+} from '../../../shared/src/commands/navigation';
+import type {
+  ClickCommandMessage,
+  ContentScriptResponse,
+  ContentScriptSender,
+  ElementSelector,
+  EventCommandMessage,
+  InteractionMessage,
+  SearchCommandMessage,
+  TagAction,
+  TagCommandMessage,
+} from '../../../shared/src/commands/interaction';
+
+/**
+ * Options for the headless browser
+ */
+export interface HeadlessBrowserOptions {
+  /** Timeout for page loads in milliseconds (default: 60000) */
+  navigationTimeoutMs?: number;
+  /** Delay between element lookups while waiting for a TAG target (default: 100) */
+  retryIntervalMs?: number;
+  /** Source of the element finder page script (default: dist/page-scripts/element-finder.js) */
+  elementFinderScript?: string;
+}
+
+/**
+ * What the in-page command should do with the element it finds
+ */
+interface PageCommand {
+  selector?: ElementSelector;
+  /** The selector as the element finder takes it (see toFinderQuery) */
+  query?: string;
+  action?: TagAction;
+  event?: {
+    eventType: string;
+    button?: number;
+    key?: string;
+    char?: string;
+    modifiers?: { ctrl?: boolean; shift?: boolean; alt?: boolean; meta?: boolean };
+    bubbles?: boolean;
+    cancelable?: boolean;
+  };
+}
+
+const DEFAULT_NAVIGATION_TIMEOUT_MS = 60000;
+const DEFAULT_RETRY_INTERVAL_MS = 100;
+/** How long to wait for a page load started by a click or form submit */
+const ACTION_SETTLE_TIMEOUT_MS = 5000;
+const ELEMENT_FINDER_SCRIPT = path.join(__dirname, '..', 'page-scripts', 'element-finder.js');
+
+/**
+ * Headless browser session backing the shared command bridges
+ */
+export class HeadlessBrowser {
+  private pages: Page[] = [];
+  private activeIndex = 0;
+  private frame: Frame | null = null;
+  private readonly navigationTimeoutMs: number;
+  private readonly retryIntervalMs: number;
+  private elementFinderScript: string | undefined;
+
+  constructor(private readonly browser: Browser, options: HeadlessBrowserOptions = {}) {
+    this.navigationTimeoutMs = options.navigationTimeoutMs ?? DEFAULT_NAVIGATION_TIMEOUT_MS;
+    this.retryIntervalMs = options.retryIntervalMs ?? DEFAULT_RETRY_INTERVAL_MS;
+    this.elementFinderScript = options.elementFinderScript;
+  }
+
+  /**
+   * Bridge for the navigation handlers (URL, BACK, REFRESH, TAB, FRAME)
+   */
+  get browserBridge(): BrowserBridge {
+    return { sendMessage: (message) => this.handleBrowserMessage(message) };
+  }
+
+  /**
+   * Sender for the interaction handlers (TAG, CLICK, EVENT, SEARCH)
+   */
+  get contentScriptSender(): ContentScriptSender {
+    return { sendMessage: (message) => this.handleContentMessage(message) };
+  }
+
+  /**
+   * Close every page this session opened. The browser itself is left running.
+   */
+  async close(): Promise<void> {
+    const pages = this.pages;
+    this.pages = [];
+    this.frame = null;
+    await Promise.all(pages.map(page => page.close().catch(() => undefined)));
+  }
+
+  /**
+   * Handle a navigation message
+   */
+  async handleBrowserMessage(message: BrowserOperationMessage): Promise<BrowserOperationResponse> {
+    try {
+      switch (message.type) {
+        case 'navigate': {
+          const page = await this.activePage();
+          await page.goto(message.url, { waitUntil: 'load', timeout: this.navigationTimeoutMs });
+          this.frame = null;
+          return { success: true, data: { url: page.url(), title: await page.title() } };
+        }
+        case 'getCurrentUrl': {
+          const page = await this.activePage();
+          return { success: true, data: { url: page.url() } };
+        }
+        case 'goBack': {
+          const page = await this.activePage();
+          await page.goBack({ waitUntil: 'load', timeout: this.navigationTimeoutMs });
+          this.frame = null;
+          return { success: true, data: { url: page.url() } };
+        }
+        case 'refresh': {
+          const page = await this.activePage();
+          await page.reload({ waitUntil: 'load', timeout: this.navigationTimeoutMs });
+          this.frame = null;
+          return { success: true, data: { url: page.url() } };
+        }
+        case 'switchTab': {
+          await this.activePage();
+          if (message.tabIndex < 0 || message.tabIndex >= this.pages.length) {
+            return { success: false, error: `Tab ${message.tabIndex + 1} does not exist` };
+          }
+          this.activeIndex = message.tabIndex;
+          this.frame = null;
+          await this.pages[this.activeIndex].bringToFront();
+          return { success: true, data: { tabIndex: this.activeIndex } };
+        }
+        case 'openTab': {
+          const page = await this.browser.newPage();
+          this.pages.push(page);
+          this.activeIndex = this.pages.length - 1;
+          this.frame = null;
+          if (message.url) {
+            await page.goto(message.url, { waitUntil: 'load', timeout: this.navigationTimeoutMs });
+          }
+          return { success: true, data: { tabIndex: this.activeIndex, url: page.url() } };
+        }
+        case 'closeTab': {
+          const page = await this.activePage();
+          this.pages.splice(this.activeIndex, 1);
+          this.activeIndex = Math.max(0, this.activeIndex - 1);
+          this.frame = null;
+          await page.close();
+          return { success: true, data: { tabIndex: this.activeIndex } };
+        }
+        case 'closeOtherTabs': {
+          const page = await this.activePage();
+          const others = this.pages.filter(p => p !== page);
+          this.pages = [page];
+          this.activeIndex = 0;
+          await Promise.all(others.map(p => p.close()));
+          return { success: true, data: { tabIndex: 0 } };
+        }
+        case 'selectFrame':
+          return this.selectFrame(message.frameIndex, message.frameName);
+        default:
+          return {
+            success: false,
+            error: `Unsupported browser operation: ${(message as BrowserOperationMessage).type}`,
+          };
+      }
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Handle an interaction message
+   */
+  async handleContentMessage(message: InteractionMessage): Promise<ContentScriptResponse> {
+    try {
+      switch (message.type) {
+        case 'TAG_COMMAND':
+          return await this.executeTag(message);
+        case 'CLICK_COMMAND':
+          return await this.executeClick(message);
+        case 'EVENT_COMMAND':
+          return await this.executeEvent(message);
+        case 'SEARCH_COMMAND':
+          return await this.executeSearch(message);
+        default:
+          return {
+            success: false,
+            errorCode: IMACROS_ERROR_CODES.UNSUPPORTED_COMMAND,
+            error: `Unsupported content command: ${(message as InteractionMessage).type}`,
+          };
+      }
+    } catch (error) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * The page for the current tab, opening a first one on demand
+   */
+  private async activePage(): Promise<Page> {
+    if (this.pages.length === 0) {
+      this.pages.push(await this.browser.newPage());
+      this.activeIndex = 0;
+    }
+    return this.pages[this.activeIndex];
+  }
+
+  /**
+   * The frame commands run in (the main frame unless FRAME selected another)
+   */
+  private async activeFrame(): Promise<Frame> {
+    if (this.frame && !this.frame.detached) {
+      return this.frame;
+    }
+    this.frame = null;
+    return (await this.activePage()).mainFrame();
+  }
+
+  /**
+   * Select a frame by iMacros index (0 = main document, then document order) or name
+   */
+  private async selectFrame(frameIndex?: number, frameName?: string): Promise<BrowserOperationResponse> {
+    const page = await this.activePage();
+    if (frameName === undefined && (frameIndex === undefined || frameIndex === 0)) {
+      this.frame = null;
+      return { success: true, data: { frameIndex: 0 } };
+    }
+
+    const frames = listChildFrames(page.mainFrame());
+    if (frameName !== undefined) {
+      const index = frames.findIndex(frame => matchesFrameName(frame.name(), frameName));
+      if (index === -1) {
+        return { success: false, error: `Frame "${frameName}" not found` };
+      }
+      this.frame = frames[index];
+      return { success: true, data: { frameIndex: index + 1 } };
+    }
+
+    const frame = frames[(frameIndex as number) - 1];
+    if (!frame) {
+      return { success: false, error: `Frame ${frameIndex} not found` };
+    }
+    this.frame = frame;
+    return { success: true, data: { frameIndex } };
+  }
+
+  /**
+   * Find the TAG target, retrying until the TAG timeout, then act on it
+   */
+  private async executeTag(message: TagCommandMessage): Promise<ContentScriptResponse> {
+    const { selector, action, timeout } = message.payload;
+    const deadline = Date.now() + Math.max(0, timeout);
+    const clicks = !action.extract && action.content === undefined;
+    const query = toFinderQuery(selector);
+
+    for (;;) {
+      const frame = await this.activeFrame();
+      await this.injectElementFinder(frame);
+      const response = await frame.evaluate(runPageCommand, { selector, query, action });
+      if (response.success || response.errorCode !== IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND
+        || Date.now() >= deadline) {
+        if (response.success && clicks) {
+          await this.settle();
+        }
+        return response;
+      }
+      await sleep(this.retryIntervalMs);
+    }
+  }
+
+  /**
+   * Click at page (document) or viewport coordinates
+   */
+  private async executeClick(message: ClickCommandMessage): Promise<ContentScriptResponse> {
+    const { x, y, button, clickCount, coordinateMode } = message.payload;
+    const page = await this.activePage();
+    let offsetX = 0;
+    let offsetY = 0;
+    if (coordinateMode !== 'viewport') {
+      // Scroll the point into view, then convert to viewport coordinates
+      const scroll = await page.evaluate(scrollToPoint, { x, y });
+      offsetX = scroll.x;
+      offsetY = scroll.y;
+    }
+    await page.mouse.click(x - offsetX, y - offsetY, { button, count: clickCount || 1 });
+    await this.settle();
+    return { success: true };
+  }
+
+  /**
+   * Dispatch a DOM event on the EVENT target
+   */
+  private async executeEvent(message: EventCommandMessage): Promise<ContentScriptResponse> {
+    const { selector, eventType, button, key, char, modifiers, bubbles, cancelable, timeout } = message.payload;
+    const deadline = Date.now() + Math.max(0, timeout ?? 0);
+    const event = { eventType, button, key, char, modifiers, bubbles, cancelable };
+    const query = selector ? toFinderQuery(selector) : undefined;
+
+    for (;;) {
+      const frame = await this.activeFrame();
+      await this.injectElementFinder(frame);
+      const response = await frame.evaluate(runPageCommand, { selector, query, event });
+      if (response.success || response.errorCode !== IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND
+        || Date.now() >= deadline) {
+        return response;
+      }
+      await sleep(this.retryIntervalMs);
+    }
+  }
+
+  /**
+   * Search the frame's HTML for SEARCH SOURCE=TXT:/REGEXP:
+   */
+  private async executeSearch(message: SearchCommandMessage): Promise<ContentScriptResponse> {
+    const { sourceType, pattern, ignoreCase, extractPattern } = message.payload;
+    const frame = await this.activeFrame();
+    const html = await frame.evaluate(getDocumentHtml);
+
+    if (sourceType === 'REGEXP') {
+      const result = searchRegexp(html, pattern, ignoreCase, extractPattern);
+      if (result.regexError) {
+        return { success: false, errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR, error: result.regexError };
+      }
+      return result.found
+        ? { success: true, extractedData: result.match ?? '' }
+        : { success: false, errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND, error: `Pattern not found: ${pattern}` };
+    }
+
+    const result = searchText(html, pattern, ignoreCase);
+    return result.found
+      ? { success: true, extractedData: result.match ?? '' }
+      : { success: false, errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND, error: `Pattern not found: ${pattern}` };
+  }
+
+  /**
+   * Load the element finder into the frame unless a previous command did.
+   * Navigation gives the frame a fresh global scope, so this is checked before every lookup.
+   */
+  private async injectElementFinder(frame: Frame): Promise<void> {
+    if (await frame.evaluate(hasElementFinder)) {
+      return;
+    }
+    if (this.elementFinderScript === undefined) {
+      if (!fs.existsSync(ELEMENT_FINDER_SCRIPT)) {
+        throw new Error(`Element finder page script not found: ${ELEMENT_FINDER_SCRIPT} (run npm run build:page-scripts)`);
+      }
+      this.elementFinderScript = fs.readFileSync(ELEMENT_FINDER_SCRIPT, 'utf8');
+    }
+    await frame.evaluate(this.elementFinderScript);
+  }
+
+  /**
+   * Let a page load started by a click or submit finish before the next command
+   */
+  private async settle(): Promise<void> {
+    const page = await this.activePage();
+    await page.waitForNetworkIdle({ idleTime: 250, timeout: ACTION_SETTLE_TIMEOUT_MS }).catch(() => undefined);
+  }
+}
+
+/**
+ * Child frames of a frame in document order (depth first), as FRAME F=<n> counts them
+ */
+function listChildFrames(frame: Frame): Frame[] {
+  const frames: Frame[] = [];
+  for (const child of frame.childFrames()) {
+    frames.push(child, ...listChildFrames(child));
+  }
+  return frames;
+}
+
+/**
+ * Match a frame name against FRAME NAME=, where * is a wildcard
+ */
+function matchesFrameName(name: string, pattern: string): boolean {
+  const regex = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${regex}$`, 'i').test(name);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Selector string for the element finder, built as the content script's
+ * resolveSelector does. Relative positions are applied in the page, so
+ * their query lists every element of the TYPE and ATTR.
+ */
+function toFinderQuery(selector: ElementSelector): string | undefined {
+  if (selector.xpath) {
+    return `xpath=${selector.xpath}`;
+  }
+  if (selector.css) {
+    return `css=${selector.css}`;
+  }
+  if (!selector.type && !selector.attr) {
+    return undefined;
+  }
+  const pos = selector.relative || selector.pos === undefined ? 1 : selector.pos === 'random' ? 'R1' : selector.pos;
+  const parts = ['TAG', `POS=${pos}`, `TYPE=${selector.type || '*'}`];
+  if (selector.attr) {
+    parts.push(`ATTR="${selector.attr}"`);
+  }
+  if (selector.form) {
+    parts.push(`FORM="${selector.form}"`);
+  }
+  return parts.join(' ');
+}
+
+// ===== In-page functions =====
+//
+// These are serialized by Puppeteer and run inside the page, so they must be
+// self-contained: no imports, no module-level helpers, no DOM types (the
+// native host compiles without lib.dom). Element lookup goes through the
+// injected element finder (window.__imacrosElementFinder). The Page* types
+// below describe just the DOM members these functions use.
+
+/**
+ * A DOM element, with the members of input and link elements that are in use
+ */
+interface PageElement {
+  tagName: string;
+  id: string;
+  className: string;
+  textContent: string | null;
+  innerText?: string;
+  innerHTML: string;
+  outerHTML: string;
+  isConnected: boolean;
+  isContentEditable?: boolean;
+  value?: string;
+  href?: string;
+  src?: string;
+  checked?: boolean;
+  form?: PageFormElement | null;
+  getAttribute(name: string): string | null;
+  querySelector(selector: string): PageElement | null;
+  closest(selector: string): PageElement | null;
+  compareDocumentPosition(other: PageElement): number;
+  dispatchEvent(event: unknown): boolean;
+  click(): void;
+  focus?(): void;
+  blur?(): void;
+}
+
+interface PageFormElement extends PageElement {
+  reset(): void;
+  submit(): void;
+  requestSubmit?(): void;
+}
+
+interface PageOptionElement extends PageElement {
+  value: string;
+  selected: boolean;
+}
+
+interface PageSelectElement extends PageElement {
+  options: ArrayLike<PageOptionElement>;
+  selectedIndex: number;
+  multiple: boolean;
+}
+
+interface PageTableElement extends PageElement {
+  rows: ArrayLike<PageTableRow>;
+  tHead: { rows: ArrayLike<PageTableRow> } | null;
+}
+
+interface PageTableRow extends PageElement {
+  cells: ArrayLike<PageElement>;
+}
+
+interface PageDocument {
+  documentElement: PageElement | null;
+  activeElement: PageElement | null;
+  body: PageElement;
+}
+
+/**
+ * The element finder functions the page script exports
+ * (extension/src/content/element-finder.ts)
+ */
+interface PageElementFinder {
+  findElement(selector: string, contextNode: PageDocument): { element: PageElement | null };
+  findByTagSelector(selector: string, contextNode: PageDocument): { elements: PageElement[] };
+  findByFallbackLocator(
+    locator: string,
+    type: string | undefined,
+    contextNode: PageDocument
+  ): { element: PageElement | null; count: number };
+  matchesWildcard(value: string, pattern: string): boolean;
+}
+
+type PageEventConstructor = new (type: string, init?: Record<string, unknown>) => unknown;
+
+interface PageWindow {
+  document: PageDocument;
+  innerWidth: number;
+  innerHeight: number;
+  scrollX: number;
+  scrollY: number;
+  scrollTo(x: number, y: number): void;
+  Event: PageEventConstructor;
+  MouseEvent: PageEventConstructor;
+  KeyboardEvent: PageEventConstructor;
+  __imacrosElementFinder?: PageElementFinder;
+  /** The element the previous TAG found, for relative positions */
+  __imacrosTagAnchor?: PageElement;
+}
+
+function hasElementFinder(): boolean {
+  return (globalThis as unknown as PageWindow).__imacrosElementFinder !== undefined;
+}
+
+function getDocumentHtml(): string {
+  const doc = (globalThis as unknown as PageWindow).document;
+  return doc.documentElement ? doc.documentElement.innerHTML : '';
+}
+
+function scrollToPoint(point: { x: number; y: number }): { x: number; y: number } {
+  const win = globalThis as unknown as PageWindow;
+  win.scrollTo(Math.max(0, point.x - win.innerWidth / 2), Math.max(0, point.y - win.innerHeight / 2));
+  return { x: win.scrollX, y: win.scrollY };
+}
+
+/**
+ * Locate the element for a TAG or EVENT and perform its action
+ */
+function runPageCommand(command: PageCommand): ContentScriptResponse {
+  const win = globalThis as unknown as PageWindow;
+  const doc = win.document;
+  const NOT_FOUND = -920;
+  const INVALID_PARAMETER = -912;
+  const MULTIPLE_ELEMENTS = -923;
+
+  // Injected before any command runs (see injectElementFinder)
+  const finder = win.__imacrosElementFinder as PageElementFinder;
+  const textOf = (el: PageElement): string => (el.textContent || '').trim();
+
+  // POS=R<n> counts matches after the element the previous TAG found,
+  // POS=R-<n> matches before it (the XPath following/preceding axes)
+  const locateRelative = (selector: ElementSelector, query: string): PageElement | null => {
+    const anchor = win.__imacrosTagAnchor;
+    if (!anchor || !anchor.isConnected) return null;
+    const pos = typeof selector.pos === 'number' ? selector.pos : 1;
+    const side = pos > 0 ? 4 /* FOLLOWING */ : 2 /* PRECEDING */;
+    const nested = pos > 0 ? 16 /* CONTAINED_BY */ : 8 /* CONTAINS */;
+    const matches = finder.findByTagSelector(query, doc).elements.filter((el) => {
+      const position = anchor.compareDocumentPosition(el);
+      return (position & side) !== 0 && (position & nested) === 0;
+    });
+    return (pos > 0 ? matches[pos - 1] : matches[matches.length + pos]) ?? null;
+  };
+
+  // A fallback only counts when it matches exactly one element
+  const locate = (selector: ElementSelector, query?: string): { element: PageElement | null; fallbackUsed?: string } => {
+    let element: PageElement | null = null;
+    if (query) {
+      element = selector.relative ? locateRelative(selector, query) : finder.findElement(query, doc).element;
+    }
+    if (element) return { element };
+    for (const locator of selector.fallbacks ?? []) {
+      const found = finder.findByFallbackLocator(locator, selector.type, doc);
+      if (found.count === 1 && found.element) return { element: found.element, fallbackUsed: locator };
+    }
+    return { element: null };
+  };
+
+  const cellText = (cell: PageElement): string => (cell.textContent || '').replace(/\s+/g, ' ').trim();
+
+  const extractTable = (table: PageTableElement, links: boolean) => {
+    const rows = Array.from(table.rows);
+    const grid: string[][] = rows.map(row => Array.from(row.cells).map(cellText));
+    const hrefs: string[][] = rows.map(row => Array.from(row.cells).map((cell) => {
+      const link = cell.querySelector('a[href]');
+      return link ? link.href ?? '' : '';
+    }));
+    const width = grid.reduce((max, row) => Math.max(max, row.length), 0);
+    const headerCount = table.tHead
+      ? table.tHead.rows.length
+      : rows.findIndex(row => Array.from(row.cells).some((cell) => cell.tagName !== 'TH'));
+    const headerRows = headerCount > 0 ? headerCount : 0;
+    const linkColumns = new Set<number>();
+    if (links) {
+      hrefs.slice(headerRows).forEach(row => row.forEach((href, i) => { if (href) linkColumns.add(i); }));
+    }
+    const expand = (row: string[], urls: string[] | null): string[] => {
+      const out: string[] = [];
+      for (let i = 0; i < width; i++) {
+        out.push(row[i] ?? '');
+        if (linkColumns.has(i)) out.push(urls ? (urls[i] ?? '') : `${row[i] ?? ''} URL`.trim());
+      }
+      return out;
+    };
+    let headers: string[] | null = null;
+    if (headerRows > 0) {
+      const merged: string[] = [];
+      for (let i = 0; i < width; i++) {
+        const texts = grid.slice(0, headerRows).map(row => row[i] ?? '').filter(Boolean);
+        merged.push(Array.from(new Set(texts)).join(' '));
+      }
+      headers = expand(merged, null);
+    }
+    return {
+      headers,
+      rows: grid.slice(headerRows).map((row, i) => expand(row, hrefs[headerRows + i])),
+    };
+  };
+
+  const extract = (el: PageElement, type: string): string | null => {
+    const upper = type.toUpperCase();
+    if (upper.startsWith('ATTR:')) return el.getAttribute(type.substring(5)) ?? '';
+    switch (upper) {
+      case 'TXT': {
+        const tag = el.tagName.toUpperCase();
+        if (tag === 'INPUT' || tag === 'TEXTAREA') return el.value ?? '';
+        if (tag === 'SELECT') {
+          const select = el as PageSelectElement;
+          return select.selectedIndex >= 0 ? textOf(select.options[select.selectedIndex]) : '';
+        }
+        return (el.innerText ?? el.textContent ?? '').trim();
+      }
+      case 'TXTALL':
+        return el.tagName.toUpperCase() === 'SELECT'
+          ? Array.from((el as PageSelectElement).options).map(textOf).join('[OPTION]')
+          : textOf(el);
+      case 'HTM': return el.outerHTML;
+      case 'HREF': return el.href ?? el.getAttribute('href') ?? '';
+      case 'SRC': return el.src ?? el.getAttribute('src') ?? '';
+      case 'VALUE': return el.value ?? el.getAttribute('value') ?? '';
+      case 'CLASS': return el.className ?? '';
+      default: return el.getAttribute(type.toLowerCase()) ?? '';
+    }
+  };
+
+  const fire = (el: PageElement, type: string) => el.dispatchEvent(new win.Event(type, { bubbles: true }));
+
+  const setContent = (el: PageElement, content: string): string | null => {
+    const tag = el.tagName.toUpperCase();
+    const inputType = (el.getAttribute('type') || 'text').toLowerCase();
+    if (typeof el.focus === 'function') el.focus();
+    if (tag === 'INPUT' && (inputType === 'checkbox' || inputType === 'radio')) {
+      const upper = content.toUpperCase();
+      el.checked = !(upper === 'NO' || upper === 'FALSE' || upper === 'OFF');
+    } else if (tag === 'SELECT') {
+      const select = el as PageSelectElement;
+      const options = Array.from(select.options);
+      const wanted = content.split(':');
+      const pickOne = (spec: string): PageOptionElement | undefined => {
+        if (spec.startsWith('%')) return options.find(o => finder.matchesWildcard(o.value, spec.substring(1)));
+        if (spec.startsWith('$')) return options.find(o => finder.matchesWildcard(textOf(o), spec.substring(1)));
+        if (spec.startsWith('#')) return options[parseInt(spec.substring(1), 10) - 1];
+        return options.find(o => finder.matchesWildcard(textOf(o), spec) || o.value === spec);
+      };
+      const picked = wanted.map(pickOne).filter((o): o is PageOptionElement => o !== undefined);
+      if (picked.length < wanted.length) return `Option not found: ${content}`;
+      if (select.multiple) options.forEach(o => { o.selected = false; });
+      picked.forEach(o => { o.selected = true; });
+    } else if ('value' in el) {
+      el.value = content;
+    } else if (el.isContentEditable) {
+      el.textContent = content;
+    } else {
+      return `Element <${tag}> does not accept CONTENT`;
+    }
+    fire(el, 'input');
+    fire(el, 'change');
+    return null;
+  };
+
+  const dispatch = (el: PageElement, event: NonNullable<PageCommand['event']>) => {
+    const type = event.eventType.toLowerCase();
+    const modifiers = event.modifiers ?? {};
+    const init = {
+      bubbles: event.bubbles !== false,
+      cancelable: event.cancelable !== false,
+      ctrlKey: !!modifiers.ctrl,
+      shiftKey: !!modifiers.shift,
+      altKey: !!modifiers.alt,
+      metaKey: !!modifiers.meta,
+    };
+    if (type === 'focus' && typeof el.focus === 'function') el.focus();
+    else if (type === 'blur' && typeof el.blur === 'function') el.blur();
+    else if (/^(click|dblclick|contextmenu|mouse)/.test(type)) {
+      el.dispatchEvent(new win.MouseEvent(type, { ...init, button: event.button ?? 0 }));
+    } else if (/^key/.test(type)) {
+      el.dispatchEvent(new win.KeyboardEvent(type, { ...init, key: event.key ?? event.char ?? '' }));
+    } else {
+      el.dispatchEvent(new win.Event(type, init));
+    }
+  };
+
+  const describe = (el: PageElement) => ({
+    tagName: el.tagName,
+    id: el.id || undefined,
+    className: typeof el.className === 'string' && el.className ? el.className : undefined,
+  });
+
+  // EVENT without a selector targets the focused element
+  if (!command.selector) {
+    const target = doc.activeElement || doc.body;
+    if (command.event) dispatch(target, command.event);
+    return { success: true };
+  }
+
+  let located: { element: PageElement | null; fallbackUsed?: string };
+  try {
+    located = locate(command.selector, command.query);
+  } catch (error) {
+    if (error instanceof Error && error.name === 'XPathAmbiguousError') {
+      return { success: false, errorCode: MULTIPLE_ELEMENTS, error: error.message };
+    }
+    throw error;
+  }
+  const { element, fallbackUsed } = located;
+  if (!element) {
+    return { success: false, errorCode: NOT_FOUND, error: 'Element not found' };
+  }
+  win.__imacrosTagAnchor = element;
+
+  if (command.event) {
+    dispatch(element, command.event);
+    return { success: true, elementInfo: describe(element), fallbackUsed };
+  }
+
+  const action = command.action ?? {};
+  if (action.extract) {
+    const type = action.extract.toUpperCase();
+    if (type === 'TABLE' || type === 'TABLE_LINKS') {
+      const table = element.closest('table') as PageTableElement | null;
+      if (!table) {
+        return { success: false, errorCode: INVALID_PARAMETER, error: 'EXTRACT=TABLE needs a table element' };
+      }
+      return {
+        success: true,
+        extractedTable: extractTable(table, type === 'TABLE_LINKS'),
+        elementInfo: describe(element),
+        fallbackUsed,
+      };
+    }
+    return { success: true, extractedData: extract(element, action.extract) ?? '', elementInfo: describe(element), fallbackUsed };
+  }
+
+  if (action.content !== undefined) {
+    const error = setContent(element, action.content);
+    if (error) {
+      return { success: false, errorCode: INVALID_PARAMETER, error };
+    }
+  } else if (action.form) {
+    const form = element.tagName.toUpperCase() === 'FORM' ? element as PageFormElement : element.form;
+    if (!form) {
+      return { success: false, errorCode: INVALID_PARAMETER, error: 'Element is not in a form' };
+    }
+    if (action.form === 'RESET') form.reset();
+    else if (typeof form.requestSubmit === 'function') form.requestSubmit();
+    else form.submit();
+  } else {
+    element.click();
+  }
+  return { success: true, elementInfo: describe(element), fallbackUsed };
+}
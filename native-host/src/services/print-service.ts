@@ -157,6 +157,14 @@ export class PrintService {
     return this.browser;
   }
 
+  /**
+   * Get the Puppeteer browser, launching it on first use.
+   * The headless macro runner drives its pages in this same instance.
+   */
+  async getBrowser(): Promise<puppeteer.Browser> {
+    return this.ensureBrowser();
+  }
+
   /**
    * Close the browser instance and clean up resources
    */
@@ -7,10 +7,19 @@
  *
  * Default port: 4951 (configurable)
  *
+ * Security (for shared machines such as build agents):
+ * - authToken: clients must send iimAuth("token") before any other command.
+ *   By default the token is read from authTokenFile (generated on first start)
+ * - tls: serve TLS with a self-signed certificate generated on first start
+ * - Each connection is a session with its own variables and last extract
+ * - auditLogFile: one JSON line per iimPlay with the client identity
+ *
  * Supported commands:
+ * - iimAuth: Authenticate with the server token (and name the client)
  * - iimPlay: Execute a macro
  * - iimSet: Set a variable value
  * - iimGetLastExtract: Get the last extracted data
+ * - iimGetExtractRecords: Get the last extract records (EXTRACT ... AS=<field>) as JSON
  * - iimGetLastError: Get the last error message
  * - iimGetLastPerformance: Get timing data from last macro execution
  * - iimGetStopwatch: Get elapsed time of a stopwatch
@@ -19,8 +28,11 @@
  * - iimExit: Disconnect client
  */
 import * as net from 'net';
+import * as tls from 'tls';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import * as crypto from 'crypto';
 import { EventEmitter } from 'events';
 import {
   MacroExecutor,
@@ -30,9 +42,21 @@ import {
   type CommandHandler as ExecutorCommandHandler,
   type MacroResult,
 } from '../../../shared/src/executor';
+import type { ExtractRecord } from '../../../shared/src/state-manager';
 import type { CommandType } from '../../../shared/src/parser';
 import { registerExtractionHandlers } from '../../../shared/src/commands/extraction';
 import { getStopwatchElapsed } from '../../../shared/src/commands/system';
+import { loadOrCreateCertificate, getCertificateFingerprint } from './tls-certificate';
+
+/**
+ * Failed iimAuth attempts after which the connection is closed
+ */
+const MAX_AUTH_ATTEMPTS = 3;
+
+/**
+ * Commands a client may send before authenticating
+ */
+const UNAUTHENTICATED_COMMANDS = new Set(['iimauth', 'iimexit', 'iimclose']);
 
 /**
  * Return codes for Scripting Interface commands
@@ -63,6 +87,8 @@ export enum ReturnCode {
   CANCELLED = -9,
   /** Unknown command */
   UNKNOWN_COMMAND = -10,
+  /** Client has not authenticated (or sent an invalid token) */
+  UNAUTHORIZED = -11,
 }
 
 /**
@@ -79,6 +105,18 @@ export interface ScriptingInterfaceConfig {
   debug: boolean;
   /** Directory for macro files (for file-based iimPlay). Empty string disables file loading. */
   macrosDir: string;
+  /** Token clients must send with iimAuth before other commands (default: read from authTokenFile). Empty string disables authentication. */
+  authToken: string;
+  /** File the default token is read from, generated on first start (default: ~/.imacros/scripting-interface.token) */
+  authTokenFile: string;
+  /** Serve TLS instead of plain TCP */
+  tls: boolean;
+  /** TLS certificate (PEM), generated with the key on first start when missing (default: ~/.imacros/scripting-interface-cert.pem) */
+  tlsCertFile: string;
+  /** TLS private key (PEM) (default: ~/.imacros/scripting-interface-key.pem) */
+  tlsKeyFile: string;
+  /** File to append a JSON line to for every iimPlay. Empty string disables the audit log file. */
+  auditLogFile: string;
 }
 
 /**
@@ -101,6 +139,28 @@ export interface ParsedCommand {
   args: string[];
 }
 
+/**
+ * Audit record of an iimPlay invocation (also emitted as the 'audit' event)
+ */
+export interface PlayAuditEntry {
+  /** Time the command was received as ISO 8601 string (UTC) */
+  time: string;
+  /** Client identity: "name@address:port" after iimAuth with a name, else "address:port" */
+  client: string;
+  /** Session number of the connection */
+  session: number;
+  /** Macro file name, or "CODE: (N lines)" for inline macros */
+  macro: string;
+  /** SHA-256 of the macro content that was played (absent if it could not be loaded) */
+  sha256?: string;
+  /** Return code sent to the client */
+  code: ReturnCode;
+  /** Time until the response in milliseconds */
+  durationMs: number;
+  /** Error message for failed or refused plays */
+  error?: string;
+}
+
 /**
  * Performance data from the last macro execution
  */
@@ -140,6 +200,8 @@ export interface MacroHandler {
   getVariable(name: string): string | undefined;
   /** Get the last extracted data */
   getLastExtract(): string;
+  /** Get the extract records of the last macro execution, one per loop */
+  getLastExtractRecords?(): ExtractRecord[];
   /** Get the last error message */
   getLastError(): string;
   /** Get performance data from the last macro execution */
@@ -150,6 +212,58 @@ export interface MacroHandler {
   stop(): void;
 }
 
+/**
+ * Creates the macro handler of a new client session
+ */
+export type MacroHandlerFactory = () => MacroHandler;
+
+/**
+ * State of one client connection
+ */
+interface ClientSession {
+  /** Session number, unique while the server runs */
+  id: number;
+  /** Remote address and port */
+  address: string;
+  /** Name sent with iimAuth (empty if none) */
+  clientName: string;
+  /** Whether the client may send commands (always true without an auth token) */
+  authenticated: boolean;
+  /** Failed iimAuth attempts */
+  failedAuthAttempts: number;
+  /** The session's own handler, created on first use (unused with a shared handler) */
+  handler: MacroHandler | null;
+}
+
+/**
+ * Read the Scripting Interface auth token, generating and saving a random one on first use
+ *
+ * @param tokenFile - Token file (default: ~/.imacros/scripting-interface.token)
+ */
+export function loadOrCreateAuthToken(
+  tokenFile: string = path.join(os.homedir(), '.imacros', 'scripting-interface.token')
+): string {
+  if (fs.existsSync(tokenFile)) {
+    const token = fs.readFileSync(tokenFile, 'utf8').trim();
+    if (token) {
+      return token;
+    }
+  }
+
+  const token = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(tokenFile), { recursive: true, mode: 0o700 });
+  fs.writeFileSync(tokenFile, `${token}\n`, { mode: 0o600 });
+  return token;
+}
+
+/**
+ * Compare tokens in constant time
+ */
+function tokensEqual(a: string, b: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+}
+
 /**
  * Macro handler backed by the real MacroExecutor engine.
  *
@@ -164,6 +278,7 @@ export interface MacroHandler {
 export class ExecutorMacroHandler implements MacroHandler {
   private variables: Map<string, string> = new Map();
   private lastExtract: string = '';
+  private lastExtractRecords: ExtractRecord[] = [];
   private lastError: string = '';
   private lastPerformance: PerformanceData | null = null;
   private running: boolean = false;
@@ -207,6 +322,7 @@ export class ExecutorMacroHandler implements MacroHandler {
     this.running = true;
     this.lastError = '';
     this.lastExtract = '';
+    this.lastExtractRecords = [];
     this.lastPerformance = null;
 
     const startTime = new Date();
@@ -283,6 +399,7 @@ export class ExecutorMacroHandler implements MacroHandler {
       if (result.extractData && result.extractData.length > 0) {
         this.lastExtract = result.extractData.join('#NEXT#');
       }
+      this.lastExtractRecords = result.extractRecords ?? [];
 
       // Capture performance data and error info
       const endTime = new Date();
@@ -364,6 +481,10 @@ export class ExecutorMacroHandler implements MacroHandler {
     return this.lastExtract || '#nodata#';
   }
 
+  getLastExtractRecords(): ExtractRecord[] {
+    return this.lastExtractRecords.map((record) => ({ ...record }));
+  }
+
   getLastError(): string {
     return this.lastError;
   }
@@ -413,34 +534,60 @@ export class ExecutorMacroHandler implements MacroHandler {
  * TCP Scripting Interface Server
  *
  * Provides external program control of iMacros through a TCP socket interface.
+ *
+ * Every connection is a session. Given a handler factory (the default creates an
+ * ExecutorMacroHandler), each session gets its own handler, so variables and the
+ * last extract are not shared between clients. A handler instance passed to the
+ * constructor or setHandler() is shared by all sessions. Only one macro plays at
+ * a time across all sessions.
  */
 export class ScriptingInterfaceServer extends EventEmitter {
   private server: net.Server | null = null;
   private config: ScriptingInterfaceConfig;
-  private handler: MacroHandler;
+  private handler: MacroHandler | null;
+  private handlerFactory: MacroHandlerFactory = () => new ExecutorMacroHandler();
   private clients: Set<net.Socket> = new Set();
+  private sessions: Map<net.Socket, ClientSession> = new Map();
+  private nextSessionId = 1;
+  private playingSession: ClientSession | null = null;
+  private tlsFingerprint: string | null = null;
+  /** No authToken was given: read it from authTokenFile on start */
+  private authTokenFromFile: boolean;
 
   /**
    * Create a new Scripting Interface server
    *
    * @param config - Server configuration options
-   * @param handler - Macro handler for executing commands
+   * @param handler - Macro handler shared by all clients, or a factory creating one per client
    */
   constructor(
     config: Partial<ScriptingInterfaceConfig> = {},
-    handler?: MacroHandler
+    handler?: MacroHandler | MacroHandlerFactory
   ) {
     super();
 
+    const dataDir = path.join(os.homedir(), '.imacros');
     this.config = {
       port: config.port ?? 4951,
       host: config.host ?? '127.0.0.1',
       timeout: config.timeout ?? 60000,
       debug: config.debug ?? false,
       macrosDir: config.macrosDir ?? '',
+      authToken: config.authToken ?? '',
+      authTokenFile: config.authTokenFile ?? path.join(dataDir, 'scripting-interface.token'),
+      tls: config.tls ?? false,
+      tlsCertFile: config.tlsCertFile ?? path.join(dataDir, 'scripting-interface-cert.pem'),
+      tlsKeyFile: config.tlsKeyFile ?? path.join(dataDir, 'scripting-interface-key.pem'),
+      auditLogFile: config.auditLogFile ?? '',
     };
+    this.authTokenFromFile = config.authToken === undefined;
 
-    this.handler = handler ?? new ExecutorMacroHandler();
+    if (typeof handler === 'function') {
+      this.handler = null;
+      this.handlerFactory = handler;
+    } else {
+      this.handler = handler ?? null;
+    }
   }
 
   /**
@@ -455,9 +602,35 @@ export class ScriptingInterfaceServer extends EventEmitter {
         return;
       }
 
-      this.server = net.createServer((socket) => {
+      const onConnection = (socket: net.Socket) => {
         this.handleConnection(socket);
-      });
+      };
+
+      if (this.authTokenFromFile) {
+        try {
+          this.config.authToken = loadOrCreateAuthToken(this.config.authTokenFile);
+          this.log(`Clients authenticate with the token in ${this.config.authTokenFile}`);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+      }
+
+      if (this.config.tls) {
+        try {
+          const certificate = loadOrCreateCertificate(this.config.tlsCertFile, this.config.tlsKeyFile);
+          if (certificate.created) {
+            this.log(`Generated self-signed TLS certificate: ${this.config.tlsCertFile}`);
+          }
+          this.tlsFingerprint = getCertificateFingerprint(certificate.cert);
+          this.server = tls.createServer({ cert: certificate.cert, key: certificate.key }, onConnection);
+        } catch (error) {
+          reject(error);
+          return;
+        }
+      } else {
+        this.server = net.createServer(onConnection);
+      }
 
       this.server.on('error', (error) => {
         this.log(`Server error: ${error.message}`);
@@ -466,7 +639,8 @@ export class ScriptingInterfaceServer extends EventEmitter {
       });
 
       this.server.listen(this.config.port, this.config.host, () => {
-        this.log(`Scripting Interface server listening on ${this.config.host}:${this.config.port}`);
+        this.log(`Scripting Interface server listening on ${this.config.host}:${this.config.port}` +
+          (this.tlsFingerprint ? ` (TLS, SHA-256 fingerprint ${this.tlsFingerprint})` : ''));
         this.emit('listening');
         resolve();
       });
@@ -490,6 +664,7 @@ export class ScriptingInterfaceServer extends EventEmitter {
         client.destroy();
       });
       this.clients.clear();
+      this.sessions.clear();
 
       this.server.close(() => {
         this.log('Scripting Interface server stopped');
@@ -515,12 +690,27 @@ export class ScriptingInterfaceServer extends EventEmitter {
   }
 
   /**
-   * Update the macro handler
+   * SHA-256 fingerprint of the TLS certificate, for clients to pin (null without TLS)
+   */
+  getTlsFingerprint(): string | null {
+    return this.tlsFingerprint;
+  }
+
+  /**
+   * Update the macro handler (shared by all clients)
    */
   setHandler(handler: MacroHandler): void {
     this.handler = handler;
   }
 
+  /**
+   * Create a separate macro handler for each client from now on
+   */
+  setHandlerFactory(factory: MacroHandlerFactory): void {
+    this.handler = null;
+    this.handlerFactory = factory;
+  }
+
   /**
    * Handle a new client connection
    */
@@ -528,6 +718,15 @@ export class ScriptingInterfaceServer extends EventEmitter {
     const clientId = `${socket.remoteAddress}:${socket.remotePort}`;
     this.log(`Client connected: ${clientId}`);
     this.clients.add(socket);
+    const session: ClientSession = {
+      id: this.nextSessionId++,
+      address: clientId,
+      clientName: '',
+      authenticated: !this.config.authToken,
+      failedAuthAttempts: 0,
+      handler: null,
+    };
+    this.sessions.set(socket, session);
     this.emit('connection', socket);
 
     let buffer = '';
@@ -540,9 +739,13 @@ export class ScriptingInterfaceServer extends EventEmitter {
       buffer = lines.pop() || ''; // Keep incomplete line in buffer
 
       for (const line of lines) {
+        // Closing after too many failed iimAuth: drop the lines sent after it
+        if (socket.writableEnded) {
+          break;
+        }
         const trimmedLine = line.trim();
         if (trimmedLine) {
-          await this.processCommand(socket, trimmedLine);
+          await this.processCommand(socket, session, trimmedLine);
         }
       }
     });
@@ -550,20 +753,23 @@ export class ScriptingInterfaceServer extends EventEmitter {
     socket.on('close', () => {
       this.log(`Client disconnected: ${clientId}`);
       this.clients.delete(socket);
+      this.sessions.delete(socket);
       this.emit('disconnect', socket);
     });
 
     socket.on('error', (error) => {
       this.log(`Client error (${clientId}): ${error.message}`);
       this.clients.delete(socket);
+      this.sessions.delete(socket);
     });
   }
 
   /**
    * Process a command received from a client
    */
-  private async processCommand(socket: net.Socket, commandLine: string): Promise<void> {
-    this.log(`Received command: ${commandLine}`);
+  private async processCommand(socket: net.Socket, session: ClientSession, commandLine: string): Promise<void> {
+    // Do not log tokens
+    this.log(`Received command: ${/^\s*iimAuth\b/i.test(commandLine) ? 'iimAuth(...)' : commandLine}`);
 
     const parsed = this.parseCommand(commandLine);
     if (!parsed) {
@@ -572,12 +778,17 @@ export class ScriptingInterfaceServer extends EventEmitter {
     }
 
     try {
-      const result = await this.executeCommand(parsed);
+      const result = await this.executeCommand(parsed, session);
       this.sendResponse(socket, result.code, result.data);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       this.sendResponse(socket, ReturnCode.ERROR, errorMessage);
     }
+
+    if (session.failedAuthAttempts >= MAX_AUTH_ATTEMPTS) {
+      this.log(`Closing connection after ${MAX_AUTH_ATTEMPTS} failed authentication attempts: ${session.address}`);
+      socket.end();
+    }
   }
 
   /**
@@ -668,25 +879,45 @@ export class ScriptingInterfaceServer extends EventEmitter {
   /**
    * Execute a parsed command
    */
-  private async executeCommand(parsed: ParsedCommand): Promise<CommandResult> {
+  private async executeCommand(parsed: ParsedCommand, session: ClientSession): Promise<CommandResult> {
     const { command, args } = parsed;
+    const name = command.toLowerCase();
+
+    if (!session.authenticated && !UNAUTHENTICATED_COMMANDS.has(name)) {
+      const result = {
+        code: ReturnCode.UNAUTHORIZED,
+        data: 'Authentication required: send iimAuth("token") first',
+      };
+      if (name === 'iimplay') {
+        this.audit(session, args[0] ?? '', undefined, result, Date.now());
+      }
+      return result;
+    }
+
+    const handler = this.getSessionHandler(session);
+
+    switch (name) {
+      case 'iimauth':
+        return this.handleIimAuth(args, session);
 
-    switch (command.toLowerCase()) {
       case 'iimplay':
-        return this.handleIimPlay(args);
+        return this.handleIimPlay(args, session, handler);
 
       case 'iimset':
-        return this.handleIimSet(args);
+        return this.handleIimSet(args, handler);
 
       case 'iimgetlastextract':
       case 'iimgetextract':
-        return this.handleIimGetLastExtract(args);
+        return this.handleIimGetLastExtract(args, handler);
+
+      case 'iimgetextractrecords':
+        return this.handleIimGetExtractRecords(args, handler);
 
       case 'iimgetlasterror':
-        return this.handleIimGetLastError();
+        return this.handleIimGetLastError(handler);
 
       case 'iimstop':
-        return this.handleIimStop();
+        return this.handleIimStop(handler);
 
       case 'iimexit':
       case 'iimclose': // Alias for iimExit (iMacros 8.9.7 compatibility)
@@ -699,7 +930,7 @@ export class ScriptingInterfaceServer extends EventEmitter {
         return this.handleIimGetStopwatch(args);
 
       case 'iimgetlastperformance':
-        return this.handleIimGetLastPerformance();
+        return this.handleIimGetLastPerformance(handler);
 
       default:
         return {
@@ -709,12 +940,104 @@ export class ScriptingInterfaceServer extends EventEmitter {
     }
   }
 
+  /**
+   * Get the macro handler of a session: the shared handler, or the session's own
+   */
+  private getSessionHandler(session: ClientSession): MacroHandler {
+    if (this.handler) {
+      return this.handler;
+    }
+    session.handler ??= this.handlerFactory();
+    return session.handler;
+  }
+
+  /**
+   * Identity of a session's client for logs and the audit log
+   */
+  private getClientIdentity(session: ClientSession): string {
+    return session.clientName ? `${session.clientName}@${session.address}` : session.address;
+  }
+
+  /**
+   * Handle iimAuth command - Authenticate with the server token
+   *
+   * @param args - [token, clientName?]
+   */
+  private handleIimAuth(args: string[], session: ClientSession): CommandResult {
+    if (!this.config.authToken) {
+      session.clientName = args[1] ?? session.clientName;
+      return { code: ReturnCode.OK, data: 'Authentication is not required' };
+    }
+
+    if (args.length < 1) {
+      return {
+        code: ReturnCode.INVALID_PARAMETER,
+        data: 'iimAuth requires a token',
+      };
+    }
+
+    if (!tokensEqual(args[0], this.config.authToken)) {
+      session.failedAuthAttempts++;
+      this.log(`Authentication failed: ${session.address}`);
+      this.emit('authFailed', session.address);
+      return { code: ReturnCode.UNAUTHORIZED, data: 'Invalid token' };
+    }
+
+    session.authenticated = true;
+    session.failedAuthAttempts = 0;
+    session.clientName = args[1] ?? '';
+    this.log(`Client authenticated: ${this.getClientIdentity(session)}`);
+    this.emit('authenticated', this.getClientIdentity(session));
+    return { code: ReturnCode.OK };
+  }
+
   /**
    * Handle iimPlay command - Execute a macro
    *
+   * Every invocation is audited, including refused ones.
+   *
    * @param args - [macroNameOrContent, timeout?]
    */
-  private async handleIimPlay(args: string[]): Promise<CommandResult> {
+  private async handleIimPlay(args: string[], session: ClientSession, handler: MacroHandler): Promise<CommandResult> {
+    const startTime = Date.now();
+    const macro = this.loadMacro(args);
+    let result: CommandResult;
+
+    if ('code' in macro) {
+      result = macro;
+    } else if (this.playingSession || handler.isRunning()) {
+      // One browser: refuse while any session is playing
+      result = {
+        code: ReturnCode.MACRO_RUNNING,
+        data: 'A macro is already running',
+      };
+    } else {
+      const timeout = args[1] ? parseInt(args[1], 10) : this.config.timeout;
+      this.emit('play', macro.content, timeout);
+      this.playingSession = session;
+      try {
+        result = await handler.play(macro.content, timeout);
+      } catch (error) {
+        result = {
+          code: ReturnCode.ERROR,
+          data: error instanceof Error ? error.message : String(error),
+        };
+      } finally {
+        this.playingSession = null;
+      }
+    }
+
+    this.audit(session, args[0] ?? '', 'content' in macro ? macro.content : undefined, result, startTime);
+    return result;
+  }
+
+  /**
+   * Get the content of the macro an iimPlay command refers to
+   *
+   * @param args - [macroNameOrContent, timeout?]
+   * @returns The macro content, or the error result
+   */
+  private loadMacro(args: string[]): { content: string } | CommandResult {
     if (args.length < 1) {
       return {
         code: ReturnCode.INVALID_PARAMETER,
@@ -763,17 +1086,52 @@ export class ScriptingInterfaceServer extends EventEmitter {
       }
     }
 
-    const timeout = args[1] ? parseInt(args[1], 10) : this.config.timeout;
+    return { content: macroNameOrContent };
+  }
 
-    if (this.handler.isRunning()) {
-      return {
-        code: ReturnCode.MACRO_RUNNING,
-        data: 'A macro is already running',
-      };
+  /**
+   * Record an iimPlay invocation in the audit log and emit it as 'audit'
+   *
+   * @param source - First iimPlay argument (file name or CODE:...)
+   * @param content - Macro content that was loaded, if any
+   */
+  private audit(
+    session: ClientSession,
+    source: string,
+    content: string | undefined,
+    result: CommandResult,
+    startTime: number
+  ): void {
+    // Inline macros may contain credentials; record only their size and hash
+    let macro = source;
+    if (source.toUpperCase().startsWith('CODE:')) {
+      macro = content !== undefined ? `CODE: (${content.split('\n').length} lines)` : 'CODE:';
+    }
+    const entry: PlayAuditEntry = {
+      time: new Date(startTime).toISOString(),
+      client: this.getClientIdentity(session),
+      session: session.id,
+      macro,
+      code: result.code,
+      durationMs: Date.now() - startTime,
+    };
+    if (content !== undefined) {
+      entry.sha256 = crypto.createHash('sha256').update(content).digest('hex');
+    }
+    if (result.code !== ReturnCode.OK && result.data) {
+      entry.error = result.data;
     }
 
-    this.emit('play', macroNameOrContent, timeout);
-    return this.handler.play(macroNameOrContent, timeout);
+    this.emit('audit', entry);
+
+    if (this.config.auditLogFile) {
+      try {
+        fs.mkdirSync(path.dirname(this.config.auditLogFile), { recursive: true });
+        fs.appendFileSync(this.config.auditLogFile, `${JSON.stringify(entry)}\n`, { mode: 0o600 });
+      } catch (error) {
+        console.error('[ScriptingInterface] Failed to write audit log:', error);
+      }
+    }
   }
 
   /**
@@ -781,7 +1139,7 @@ export class ScriptingInterfaceServer extends EventEmitter {
    *
    * @param args - [variableName, value]
    */
-  private handleIimSet(args: string[]): CommandResult {
+  private handleIimSet(args: string[], handler: MacroHandler): CommandResult {
     if (args.length < 2) {
       return {
         code: ReturnCode.INVALID_PARAMETER,
@@ -803,7 +1161,7 @@ export class ScriptingInterfaceServer extends EventEmitter {
       name = `!VAR${varMatch[1]}`;
     }
 
-    this.handler.setVariable(name, value);
+    handler.setVariable(name, value);
     this.emit('set', name, value);
 
     return { code: ReturnCode.OK };
@@ -814,8 +1172,8 @@ export class ScriptingInterfaceServer extends EventEmitter {
    *
    * @param args - [n?] optional 1-based index to return nth value split on #NEXT#
    */
-  private handleIimGetLastExtract(args: string[]): CommandResult {
-    const extract = this.handler.getLastExtract();
+  private handleIimGetLastExtract(args: string[], handler: MacroHandler): CommandResult {
+    const extract = handler.getLastExtract();
 
     // If numeric arg provided, return nth value (1-based)
     if (args.length > 0) {
@@ -835,11 +1193,35 @@ export class ScriptingInterfaceServer extends EventEmitter {
     return { code: ReturnCode.OK, data: extract };
   }
 
+  /**
+   * Handle iimGetExtractRecords command - Get the last extract records as JSON
+   *
+   * @param args - [n?] optional 1-based index to return only the nth record
+   */
+  private handleIimGetExtractRecords(args: string[], handler: MacroHandler): CommandResult {
+    const records = handler.getLastExtractRecords?.() ?? [];
+
+    if (args.length > 0) {
+      const n = parseInt(args[0], 10);
+      if (isNaN(n) || n < 1) {
+        return {
+          code: ReturnCode.INVALID_PARAMETER,
+          data: `Invalid record index: ${args[0]}`,
+        };
+      }
+      return n <= records.length
+        ? { code: ReturnCode.OK, data: JSON.stringify(records[n - 1]) }
+        : { code: ReturnCode.OK, data: '#nodata#' };
+    }
+
+    return { code: ReturnCode.OK, data: JSON.stringify(records) };
+  }
+
   /**
    * Handle iimGetLastError command - Get the last error message
    */
-  private handleIimGetLastError(): CommandResult {
-    const error = this.handler.getLastError();
+  private handleIimGetLastError(handler: MacroHandler): CommandResult {
+    const error = handler.getLastError();
     return {
       code: ReturnCode.OK,
       data: error,
@@ -847,17 +1229,17 @@ export class ScriptingInterfaceServer extends EventEmitter {
   }
 
   /**
-   * Handle iimStop command - Stop the currently running macro
+   * Handle iimStop command - Stop the macro of the client's session
    */
-  private handleIimStop(): CommandResult {
-    if (!this.handler.isRunning()) {
+  private handleIimStop(handler: MacroHandler): CommandResult {
+    if (!handler.isRunning()) {
       return {
         code: ReturnCode.OK,
         data: 'No macro is running',
       };
     }
 
-    this.handler.stop();
+    handler.stop();
     this.emit('stop');
     return { code: ReturnCode.OK };
   }
@@ -903,8 +1285,8 @@ export class ScriptingInterfaceServer extends EventEmitter {
    * - success: Whether the macro completed successfully
    * - errorCode: Error code if failed (1 = success)
    */
-  private handleIimGetLastPerformance(): CommandResult {
-    const performance = this.handler.getLastPerformance();
+  private handleIimGetLastPerformance(handler: MacroHandler): CommandResult {
+    const performance = handler.getLastPerformance();
     if (!performance) {
       return {
         code: ReturnCode.OK,
@@ -947,7 +1329,7 @@ export class ScriptingInterfaceServer extends EventEmitter {
  * Create and start a Scripting Interface server
  *
  * @param config - Server configuration options
- * @param handler - Macro handler for executing commands
+ * @param handler - Macro handler shared by all clients, or a factory creating one per client
  * @returns The started server instance
  *
  * @example
@@ -961,7 +1343,7 @@ export class ScriptingInterfaceServer extends EventEmitter {
  */
 export async function createScriptingInterfaceServer(
   config?: Partial<ScriptingInterfaceConfig>,
-  handler?: MacroHandler
+  handler?: MacroHandler | MacroHandlerFactory
 ): Promise<ScriptingInterfaceServer> {
   const server = new ScriptingInterfaceServer(config, handler);
   await server.start();
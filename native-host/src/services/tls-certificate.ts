@@ -0,0 +1,212 @@
+/**
+ * Self-signed TLS certificate for the iMacros Native Host
+ *
+ * Generates an ECDSA P-256 key and a self-signed X.509 v3 certificate for
+ * localhost (DER is encoded here, so no openssl binary or extra package is
+ * needed). The certificate is written on first use and reused afterwards;
+ * clients pin it by its SHA-256 fingerprint.
+ */
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Certificate and private key in PEM format
+ */
+export interface TlsCertificate {
+  /** Certificate (PEM) */
+  cert: string;
+  /** PKCS#8 private key (PEM) */
+  key: string;
+}
+
+/**
+ * Options for generateSelfSignedCertificate
+ */
+export interface CertificateOptions {
+  /** Subject and issuer common name (default: 'iMacros Scripting Interface') */
+  commonName?: string;
+  /** DNS names and IP addresses for subjectAltName (default: localhost, 127.0.0.1, ::1) */
+  altNames?: string[];
+  /** Validity in days (default: 3650) */
+  validityDays?: number;
+  /** Start of the validity period (default: now) */
+  notBefore?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** OIDs used in the certificate */
+const OID = {
+  ecPublicKey: '1.2.840.10045.2.1',
+  ecdsaWithSHA256: '1.2.840.10045.4.3.2',
+  commonName: '2.5.4.3',
+  basicConstraints: '2.5.29.19',
+  keyUsage: '2.5.29.15',
+  extKeyUsage: '2.5.29.37',
+  subjectAltName: '2.5.29.17',
+  serverAuth: '1.3.6.1.5.5.7.3.1',
+};
+
+/**
+ * Encode a DER tag-length-value
+ */
+function der(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content);
+  const length = body.length;
+  let header: Buffer;
+  if (length < 0x80) {
+    header = Buffer.from([tag, length]);
+  } else {
+    const bytes: number[] = [];
+    for (let n = length; n > 0; n = Math.floor(n / 256)) {
+      bytes.unshift(n & 0xff);
+    }
+    header = Buffer.from([tag, 0x80 | bytes.length, ...bytes]);
+  }
+  return Buffer.concat([header, body]);
+}
+
+const sequence = (...content: Buffer[]) => der(0x30, ...content);
+
+function objectIdentifier(oid: string): Buffer {
+  const [first, second, ...rest] = oid.split('.').map(Number);
+  const bytes = [first * 40 + second];
+  for (const arc of rest) {
+    const groups = [arc & 0x7f];
+    for (let n = Math.floor(arc / 128); n > 0; n = Math.floor(n / 128)) {
+      groups.unshift(0x80 | (n & 0x7f));
+    }
+    bytes.push(...groups);
+  }
+  return der(0x06, Buffer.from(bytes));
+}
+
+/**
+ * X.509 time: UTCTime before 2050, GeneralizedTime from 2050 on
+ */
+function time(date: Date): Buffer {
+  const text = date.toISOString().replace(/[-:T]/g, '').slice(0, 14) + 'Z';
+  return date.getUTCFullYear() < 2050
+    ? der(0x17, Buffer.from(text.slice(2), 'ascii'))
+    : der(0x18, Buffer.from(text, 'ascii'));
+}
+
+function name(commonName: string): Buffer {
+  return sequence(der(0x31, sequence(objectIdentifier(OID.commonName), der(0x0c, Buffer.from(commonName, 'utf8')))));
+}
+
+function extension(oid: string, critical: boolean, value: Buffer): Buffer {
+  return critical
+    ? sequence(objectIdentifier(oid), der(0x01, Buffer.from([0xff])), der(0x04, value))
+    : sequence(objectIdentifier(oid), der(0x04, value));
+}
+
+/**
+ * subjectAltName entries: iPAddress for IPv4/IPv6 literals, dNSName otherwise
+ */
+function altName(value: string): Buffer {
+  if (/^\d{1,3}(\.\d{1,3}){3}$/.test(value)) {
+    return der(0x87, Buffer.from(value.split('.').map(Number)));
+  }
+  if (value.includes(':')) {
+    const [head, tail = ''] = value.split('::');
+    const groups = (part: string) => (part ? part.split(':') : []);
+    const missing = 8 - groups(head).length - groups(tail).length;
+    const words = [...groups(head), ...Array(value.includes('::') ? missing : 0).fill('0'), ...groups(tail)];
+    return der(0x87, Buffer.concat(words.map((word) => {
+      const bytes = Buffer.alloc(2);
+      bytes.writeUInt16BE(parseInt(word, 16));
+      return bytes;
+    })));
+  }
+  return der(0x82, Buffer.from(value, 'ascii'));
+}
+
+function toPem(label: string, data: Buffer): string {
+  const lines = data.toString('base64').match(/.{1,64}/g) ?? [];
+  return `-----BEGIN ${label}-----\n${lines.join('\n')}\n-----END ${label}-----\n`;
+}
+
+/**
+ * Generate a new key and self-signed server certificate
+ */
+export function generateSelfSignedCertificate(options: CertificateOptions = {}): TlsCertificate {
+  const commonName = options.commonName ?? 'iMacros Scripting Interface';
+  const altNames = options.altNames ?? ['localhost', '127.0.0.1', '::1'];
+  const notBefore = options.notBefore ?? new Date();
+  const notAfter = new Date(notBefore.getTime() + (options.validityDays ?? 3650) * DAY_MS);
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+  // Positive serial number with a non-zero first byte, so DER keeps all
+  // 16 bytes (clear the top bit, set the next one)
+  const serial = crypto.randomBytes(16);
+  serial[0] = (serial[0] & 0x7f) | 0x40;
+
+  const signatureAlgorithm = sequence(objectIdentifier(OID.ecdsaWithSHA256));
+  const extensions = sequence(
+    extension(OID.basicConstraints, true, sequence()),
+    // digitalSignature
+    extension(OID.keyUsage, true, der(0x03, Buffer.from([0x07, 0x80]))),
+    extension(OID.extKeyUsage, false, sequence(objectIdentifier(OID.serverAuth))),
+    extension(OID.subjectAltName, false, sequence(...altNames.map(altName))),
+  );
+
+  const tbsCertificate = sequence(
+    der(0xa0, der(0x02, Buffer.from([0x02]))),
+    der(0x02, serial),
+    signatureAlgorithm,
+    name(commonName),
+    sequence(time(notBefore), time(notAfter)),
+    name(commonName),
+    publicKey.export({ type: 'spki', format: 'der' }),
+    der(0xa3, extensions),
+  );
+
+  const signature = crypto.sign('sha256', tbsCertificate, privateKey);
+  const certificate = sequence(
+    tbsCertificate,
+    signatureAlgorithm,
+    der(0x03, Buffer.from([0x00]), signature),
+  );
+
+  return {
+    cert: toPem('CERTIFICATE', certificate),
+    key: privateKey.export({ type: 'pkcs8', format: 'pem' }) as string,
+  };
+}
+
+/**
+ * SHA-256 fingerprint of a PEM certificate (AA:BB:... as shown by browsers and openssl)
+ */
+export function getCertificateFingerprint(cert: string): string {
+  return new crypto.X509Certificate(cert).fingerprint256;
+}
+
+/**
+ * Read the certificate and key, generating and saving them when either file is missing
+ *
+ * @returns The certificate, and whether it was generated by this call
+ */
+export function loadOrCreateCertificate(
+  certFile: string,
+  keyFile: string,
+  options?: CertificateOptions
+): TlsCertificate & { created: boolean } {
+  if (fs.existsSync(certFile) && fs.existsSync(keyFile)) {
+    return {
+      cert: fs.readFileSync(certFile, 'utf8'),
+      key: fs.readFileSync(keyFile, 'utf8'),
+      created: false,
+    };
+  }
+
+  const generated = generateSelfSignedCertificate(options);
+  for (const file of [certFile, keyFile]) {
+    fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  }
+  fs.writeFileSync(keyFile, generated.key, { mode: 0o600 });
+  fs.writeFileSync(certFile, generated.cert, { mode: 0o644 });
+  return { ...generated, created: true };
+}
@@ -0,0 +1,22 @@
+import { defineConfig } from 'vite';
+import { resolve } from 'path';
+
+// The headless browser injects the extension's element finder into each frame
+// it runs TAG and EVENT in, so both locate elements with the same code.
+// Built as a classic script that defines the global __imacrosElementFinder.
+export default defineConfig({
+  build: {
+    outDir: resolve(__dirname, 'dist/page-scripts'),
+    emptyOutDir: true,
+    minify: false,
+    lib: {
+      entry: resolve(__dirname, '../extension/src/content/element-finder.ts'),
+      name: '__imacrosElementFinder',
+      formats: ['iife'],
+      fileName: () => 'element-finder.js',
+    },
+    rollupOptions: {
+      output: { exports: 'named' },
+    },
+  },
+});
@@ -3,10 +3,12 @@
  *
  * Implements handlers for browser-related commands:
  * - CLEAR (cookies, cache, history, sessions)
- * - FILTER TYPE=IMAGES/FLASH/POPUPS (content blocking)
+ * - FILTER TYPE=IMAGES/FLASH/POPUPS/URL/RESOURCE (content blocking)
  * - PROXY ADDRESS=host:port (proxy configuration)
  * - SCREENSHOT TYPE=BROWSER/PAGE (capture visible area or full page)
  *
+ * NETCAPTURE (./network) also reaches the extension through this bridge.
+ *
  * These handlers communicate with the browser extension via browser APIs.
  */
 
@@ -17,6 +19,7 @@ import {
   IMACROS_ERROR_CODES,
 } from '../executor';
 import { sanitizeFilename, deriveDocumentName } from './downloads';
+import type { CapturedRequest, HarDocument } from './network';
 
 // ===== Browser Message Types =====
 
@@ -30,7 +33,12 @@ export type BrowserCommandMessageType =
   | 'restoreProxy'
   | 'setPopupAllowed'
   | 'restorePopupSettings'
-  | 'screenshot';
+  | 'screenshot'
+  | 'netCapture'
+  | 'setHeader'
+  | 'mock'
+  | 'cookies'
+  | 'webStorage';
 
 /**
  * Base message for browser operations
@@ -80,8 +88,27 @@ export type FilterType =
   | 'IMAGES'
   | 'FLASH'
   | 'POPUPS'
+  | 'URL'       // Requests whose URL matches a pattern
+  | 'RESOURCE'  // Requests of given resource kinds
   | 'NONE';
 
+/**
+ * Resource types that FILTER TYPE=RESOURCE can block
+ * (declarativeNetRequest resource type names)
+ */
+export type FilterResourceType =
+  | 'script'
+  | 'font'
+  | 'xmlhttprequest'
+  | 'image'
+  | 'stylesheet'
+  | 'media'
+  | 'sub_frame'
+  | 'websocket'
+  | 'ping'
+  | 'object'
+  | 'other';
+
 /**
  * Filter status
  */
@@ -96,6 +123,10 @@ export interface SetFilterMessage extends BrowserCommandMessage {
   filterType: FilterType;
   /** Whether to enable or disable the filter */
   status: FilterStatus;
+  /** URL wildcard pattern for TYPE=URL (omitted with OFF = every URL rule) */
+  urlPattern?: string;
+  /** Resource types for TYPE=RESOURCE (omitted with OFF = every resource rule) */
+  resourceTypes?: FilterResourceType[];
 }
 
 // ===== PROXY Command Types =====
@@ -197,6 +228,143 @@ export interface ScreenshotMessage extends BrowserCommandMessage {
   selector?: string;
 }
 
+// ===== NETCAPTURE Types =====
+
+/**
+ * Network capture operations (see ./network)
+ */
+export type NetCaptureAction = 'start' | 'stop' | 'query' | 'wait' | 'har';
+
+/**
+ * Network capture message
+ */
+export interface NetCaptureMessage extends BrowserCommandMessage {
+  type: 'netCapture';
+  action: NetCaptureAction;
+  /** URL wildcard pattern (record filter for start, match for query/wait) */
+  urlPattern?: string;
+  /** How long a wait may take in milliseconds */
+  timeoutMs?: number;
+}
+
+// ===== HEADER Types =====
+
+/**
+ * Request header rule operations (see ./headers)
+ * - set: add or replace the header on outgoing requests
+ * - strip: remove the header from outgoing requests
+ * - off: stop modifying the header (every header when name is omitted)
+ */
+export type SetHeaderAction = 'set' | 'strip' | 'off';
+
+/**
+ * Request header rule message
+ */
+export interface SetHeaderMessage extends BrowserCommandMessage {
+  type: 'setHeader';
+  action: SetHeaderAction;
+  /** Header name (required for set and strip) */
+  name?: string;
+  /** Header value (set only) */
+  value?: string;
+  /** Request domains the rule applies to (all domains when omitted) */
+  domains?: string[];
+}
+
+// ===== MOCK Types =====
+
+/**
+ * Mocked response operations (see ./mock)
+ */
+export type MockAction = 'add' | 'remove' | 'clear' | 'query';
+
+/**
+ * A mocked response as registered with the extension
+ */
+export interface MockResponseSpec {
+  /** URL wildcard pattern the mock answers */
+  urlPattern: string;
+  /** HTTP status code */
+  status: number;
+  /** Response headers */
+  headers: { name: string; value: string }[];
+  /** Response body, base64 encoded */
+  body: string;
+}
+
+/**
+ * Mocked response message
+ */
+export interface MockMessage extends BrowserCommandMessage {
+  type: 'mock';
+  action: MockAction;
+  /** Mock to add (add only) */
+  mock?: MockResponseSpec;
+  /** URL pattern of the mock to remove or query */
+  urlPattern?: string;
+}
+
+// ===== COOKIES / STORAGE Types =====
+
+/**
+ * A browser cookie as exported by COOKIES EXPORT (chrome.cookies fields)
+ */
+export interface BrowserCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  secure: boolean;
+  httpOnly: boolean;
+  /** Cookie is sent to its exact host only (no Domain attribute) */
+  hostOnly: boolean;
+  sameSite?: 'no_restriction' | 'lax' | 'strict' | 'unspecified';
+  /** Expiry in seconds since the epoch; omitted for session cookies */
+  expirationDate?: number;
+}
+
+/**
+ * Cookie operations (see ./session)
+ */
+export type CookiesAction = 'export' | 'import';
+
+/**
+ * Cookie export/import message
+ */
+export interface CookiesMessage extends BrowserCommandMessage {
+  type: 'cookies';
+  action: CookiesAction;
+  /** Export only cookies for this domain and its subdomains */
+  domain?: string;
+  /** Cookies to import */
+  cookies?: BrowserCookie[];
+}
+
+/**
+ * Web storage area of the current tab
+ */
+export type WebStorageArea = 'local' | 'session';
+
+/**
+ * Web storage operations (see ./session)
+ * - get/set: one key
+ * - getAll/setAll: every item
+ */
+export type WebStorageAction = 'get' | 'set' | 'getAll' | 'setAll';
+
+/**
+ * Web storage message
+ */
+export interface WebStorageMessage extends BrowserCommandMessage {
+  type: 'webStorage';
+  action: WebStorageAction;
+  area: WebStorageArea;
+  key?: string;
+  value?: string;
+  /** Items to store (setAll only) */
+  items?: Record<string, string>;
+}
+
 // ===== Union Types =====
 
 /**
@@ -209,7 +377,12 @@ export type BrowserCommandOperationMessage =
   | RestoreProxyMessage
   | SetPopupAllowedMessage
   | RestorePopupSettingsMessage
-  | ScreenshotMessage;
+  | ScreenshotMessage
+  | NetCaptureMessage
+  | SetHeaderMessage
+  | MockMessage
+  | CookiesMessage
+  | WebStorageMessage;
 
 /**
  * Response from browser command operation
@@ -230,6 +403,20 @@ export interface BrowserCommandResponse {
     };
     /** For filter: current filter status */
     filterStatus?: Record<FilterType, FilterStatus>;
+    /** For netCapture query/wait: matching captured requests */
+    requests?: CapturedRequest[];
+    /** For netCapture har: the capture as a HAR document */
+    har?: HarDocument;
+    /** For mock query: hit counts of the matching mocks */
+    mocks?: { urlPattern: string; hits: number }[];
+    /** For cookies export: the cookies; for import: how many were set */
+    cookies?: BrowserCookie[];
+    importedCount?: number;
+    /** For webStorage get: the value (null when the key is not set) */
+    value?: string | null;
+    /** For webStorage getAll: every item, and the origin they belong to */
+    items?: Record<string, string>;
+    origin?: string;
   };
 }
 
@@ -285,6 +472,8 @@ type SetFilterPayload = {
   type: 'setFilter';
   filterType: FilterType;
   status: FilterStatus;
+  urlPattern?: string;
+  resourceTypes?: FilterResourceType[];
 };
 
 type SetProxyPayload = {
@@ -324,6 +513,44 @@ type ScreenshotPayload = {
   selector?: string;
 };
 
+type NetCapturePayload = {
+  type: 'netCapture';
+  action: NetCaptureAction;
+  urlPattern?: string;
+  timeoutMs?: number;
+};
+
+type SetHeaderPayload = {
+  type: 'setHeader';
+  action: SetHeaderAction;
+  name?: string;
+  value?: string;
+  domains?: string[];
+};
+
+type MockPayload = {
+  type: 'mock';
+  action: MockAction;
+  mock?: MockResponseSpec;
+  urlPattern?: string;
+};
+
+type CookiesPayload = {
+  type: 'cookies';
+  action: CookiesAction;
+  domain?: string;
+  cookies?: BrowserCookie[];
+};
+
+type WebStoragePayload = {
+  type: 'webStorage';
+  action: WebStorageAction;
+  area: WebStorageArea;
+  key?: string;
+  value?: string;
+  items?: Record<string, string>;
+};
+
 type BrowserCommandPayload =
   | ClearDataPayload
   | SetFilterPayload
@@ -331,12 +558,17 @@ type BrowserCommandPayload =
   | RestoreProxyPayload
   | SetPopupAllowedPayload
   | RestorePopupSettingsPayload
-  | ScreenshotPayload;
+  | ScreenshotPayload
+  | NetCapturePayload
+  | SetHeaderPayload
+  | MockPayload
+  | CookiesPayload
+  | WebStoragePayload;
 
 /**
  * Send a browser command message and get the response
  */
-async function sendBrowserCommandMessage(
+export async function sendBrowserCommandMessage(
   message: BrowserCommandPayload,
   ctx: CommandContext
 ): Promise<BrowserCommandResponse> {
@@ -346,14 +578,15 @@ async function sendBrowserCommandMessage(
     timestamp: Date.now(),
   } as BrowserCommandOperationMessage;
 
-  if (!currentBrowserCommandBridge) {
+  const bridge = ctx.bridges?.browserCommand ?? currentBrowserCommandBridge;
+  if (!bridge) {
     ctx.log('warn', `No browser command bridge configured for ${message.type} operation`);
     // Return success for testing/development without extension
     return { success: true };
   }
 
   try {
-    return await currentBrowserCommandBridge.sendMessage(fullMessage);
+    return await bridge.sendMessage(fullMessage);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     ctx.log('error', `Browser command operation failed: ${errorMessage}`);
@@ -472,7 +705,59 @@ export const clearHandler: CommandHandler = async (ctx: CommandContext): Promise
 /**
  * Valid filter types
  */
-const VALID_FILTER_TYPES: Set<string> = new Set(['IMAGES', 'FLASH', 'POPUPS', 'NONE']);
+const VALID_FILTER_TYPES: Set<string> = new Set(['IMAGES', 'FLASH', 'POPUPS', 'URL', 'RESOURCE', 'NONE']);
+
+/**
+ * KIND values for FILTER TYPE=RESOURCE and the resource type each blocks
+ */
+const RESOURCE_KINDS: Record<string, FilterResourceType> = {
+  SCRIPT: 'script',
+  FONT: 'font',
+  XHR: 'xmlhttprequest',
+  IMAGE: 'image',
+  STYLESHEET: 'stylesheet',
+  CSS: 'stylesheet',
+  MEDIA: 'media',
+  FRAME: 'sub_frame',
+  WEBSOCKET: 'websocket',
+  PING: 'ping',
+  OBJECT: 'object',
+  OTHER: 'other',
+};
+
+/** Track whether URL or RESOURCE block rules were added during this macro execution */
+let blockRulesAdded = false;
+
+/**
+ * Reset block rule tracking (called when macro execution starts)
+ */
+export function resetFilterRulesState(): void {
+  blockRulesAdded = false;
+}
+
+/**
+ * Check if URL or RESOURCE block rules were added
+ */
+export function hasFilterRules(): boolean {
+  return blockRulesAdded;
+}
+
+/**
+ * Remove the URL and RESOURCE block rules added by the macro.
+ * Runs at macro end so blocking never outlives the macro.
+ */
+export async function clearFilterRules(ctx: CommandContext): Promise<void> {
+  if (!blockRulesAdded) return;
+
+  ctx.log('info', 'Removing URL and resource filter rules');
+  for (const filterType of ['URL', 'RESOURCE'] as const) {
+    const response = await sendBrowserCommandMessage({ type: 'setFilter', filterType, status: 'OFF' }, ctx);
+    if (!response.success) {
+      ctx.log('warn', `Failed to remove ${filterType} filter rules: ${response.error}`);
+    }
+  }
+  blockRulesAdded = false;
+}
 
 /**
  * Handler for FILTER command
@@ -481,9 +766,16 @@ const VALID_FILTER_TYPES: Set<string> = new Set(['IMAGES', 'FLASH', 'POPUPS', 'N
  * - FILTER TYPE=IMAGES STATUS=ON/OFF - Block/allow images
  * - FILTER TYPE=FLASH STATUS=ON/OFF - Block/allow Flash content
  * - FILTER TYPE=POPUPS STATUS=ON/OFF - Block/allow popups
+ * - FILTER TYPE=URL PATTERN=*analytics* STATUS=ON/OFF - Block/allow matching URLs
+ * - FILTER TYPE=URL STATUS=OFF - Remove every URL rule
+ * - FILTER TYPE=RESOURCE KIND=script,font,xhr STATUS=ON/OFF - Block/allow resource kinds
+ * - FILTER TYPE=RESOURCE STATUS=OFF - Remove every resource rule
  * - FILTER TYPE=NONE - Disable all filters
  *
- * Uses browser.webRequest API for blocking, browser.contentSettings for permissions.
+ * URL patterns use * as a wildcard and match anywhere in the URL. KIND takes
+ * a list separated by , or |. URL and RESOURCE rules are removed at macro end.
+ *
+ * Uses browser.declarativeNetRequest for blocking, browser.contentSettings for permissions.
  */
 export const filterHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
   const typeParam = ctx.getParam('TYPE');
@@ -505,16 +797,24 @@ export const filterHandler: CommandHandler = async (ctx: CommandContext): Promis
     return {
       success: false,
       errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
-      errorMessage: `Invalid TYPE: ${typeParam}. Valid types are: IMAGES, FLASH, POPUPS, NONE`,
+      errorMessage: `Invalid TYPE: ${typeParam}. Valid types are: IMAGES, FLASH, POPUPS, URL, RESOURCE, NONE`,
     };
   }
 
+  if (filterType === 'URL' || filterType === 'RESOURCE') {
+    return setBlockRuleFilter(ctx, filterType);
+  }
+
   // For NONE type, disable all filters
   if (filterType === 'NONE') {
     ctx.log('info', 'Disabling all content filters');
 
     // Send messages to disable each filter type
     const filterTypes: FilterType[] = ['IMAGES', 'FLASH', 'POPUPS'];
+    if (blockRulesAdded) {
+      filterTypes.push('URL', 'RESOURCE');
+      blockRulesAdded = false;
+    }
     for (const ft of filterTypes) {
       const response = await sendBrowserCommandMessage(
         {
@@ -581,6 +881,67 @@ export const filterHandler: CommandHandler = async (ctx: CommandContext): Promis
   };
 };
 
+/**
+ * FILTER TYPE=URL and TYPE=RESOURCE: add or remove declarativeNetRequest block rules
+ */
+async function setBlockRuleFilter(ctx: CommandContext, filterType: 'URL' | 'RESOURCE'): Promise<CommandResult> {
+  const status: FilterStatus = ctx.getParam('STATUS')?.toUpperCase() === 'OFF' ? 'OFF' : 'ON';
+  const message: SetFilterPayload = { type: 'setFilter', filterType, status };
+
+  if (filterType === 'URL') {
+    const patternParam = ctx.getParam('PATTERN');
+    if (patternParam) {
+      message.urlPattern = ctx.expand(patternParam);
+    }
+  } else {
+    const kindParam = ctx.getParam('KIND');
+    if (kindParam) {
+      const kinds = ctx.expand(kindParam).split(/[,|]/).map(k => k.trim().toUpperCase()).filter(Boolean);
+      const unknown = kinds.filter(k => !RESOURCE_KINDS[k]);
+      if (unknown.length > 0 || kinds.length === 0) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+          errorMessage: `Invalid KIND: ${kindParam}. Valid kinds are: ${Object.keys(RESOURCE_KINDS).join(', ')}`,
+        };
+      }
+      message.resourceTypes = Array.from(new Set(kinds.map(k => RESOURCE_KINDS[k])));
+    }
+  }
+
+  // Only STATUS=OFF may leave out the pattern or kinds (to remove every rule of the type)
+  if (status === 'ON' && !message.urlPattern && !message.resourceTypes) {
+    const param = filterType === 'URL' ? 'PATTERN' : 'KIND';
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: `FILTER TYPE=${filterType} requires ${param} parameter`,
+    };
+  }
+
+  const target = message.urlPattern ?? message.resourceTypes?.join(', ') ?? 'all';
+  ctx.log('info', `Setting ${filterType} filter (${target}) to ${status}`);
+
+  const response = await sendBrowserCommandMessage(message, ctx);
+
+  if (!response.success) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+      errorMessage: response.error || `Failed to set ${filterType} filter`,
+    };
+  }
+
+  if (status === 'ON') {
+    blockRulesAdded = true;
+  }
+
+  return {
+    success: true,
+    errorCode: IMACROS_ERROR_CODES.OK,
+  };
+}
+
 // ===== PROXY Command Handler =====
 
 /**
@@ -1084,7 +1445,8 @@ export const browserCommandHandlers = {
 
 /**
  * Register all browser command handlers with the executor.
- * Also registers cleanup callbacks to restore proxy and popup settings at macro end.
+ * Also registers cleanup callbacks to restore proxy and popup settings and to
+ * remove URL and RESOURCE filter rules at macro end.
  */
 export function registerBrowserCommandHandlers(executor: {
   registerHandler: (type: string, handler: CommandHandler) => void;
@@ -1098,6 +1460,7 @@ export function registerBrowserCommandHandlers(executor: {
   if (executor.registerCleanup) {
     executor.registerCleanup(restoreProxySettings);
     executor.registerCleanup(restorePopupSettings);
+    executor.registerCleanup(clearFilterRules);
   }
 }
 
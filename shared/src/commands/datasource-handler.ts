@@ -15,7 +15,7 @@
  * - DS CMD=RESET → resets !DATASOURCE_LINE to 1
  * - DS CMD=READ  → validates datasource is loaded (no-op)
  *
- * Uses DatasourceManager from shared/src/datasource.ts for CSV parsing.
+ * Uses DatasourceManager from shared/src/datasource.ts for parsing.
  */
 
 import {
@@ -25,7 +25,12 @@ import {
   IMACROS_ERROR_CODES,
 } from '../executor';
 import type { CommandType } from '../parser';
-import { DatasourceManager, createDatasourceManager } from '../datasource';
+import {
+  DatasourceManager,
+  createDatasourceManager,
+  type DatasourceContent,
+  type DatasourceOptions,
+} from '../datasource';
 
 // Module-level datasource manager instance
 let datasourceManager: DatasourceManager | null = null;
@@ -55,20 +60,20 @@ export function ensureDatasourceManager(): DatasourceManager {
 }
 
 /**
- * Load datasource from CSV content string.
+ * Load datasource from file content (CSV text, JSON, JSONL or XLSX bytes).
  *
  * Call this before executing DS commands. The DS handler will use
  * the loaded datasource for NEXT/RESET/READ operations.
  *
- * @param content - CSV content string
- * @param filePath - Optional file path for tracking
- * @param options - Optional parsing options (delimiter, hasHeader, etc.)
+ * @param content - File content
+ * @param filePath - Optional file path for tracking and format detection
+ * @param options - Optional parsing options (delimiter, hasHeader, sheet, etc.)
  * @returns true if content was loaded successfully
  */
 export function loadDatasourceFromContent(
-  content: string,
+  content: DatasourceContent,
   filePath: string = '',
-  options?: { delimiter?: ',' | '\t' | ';' | '|' | 'auto'; hasHeader?: boolean }
+  options?: DatasourceOptions
 ): boolean {
   const manager = ensureDatasourceManager();
   const result = manager.loadFromContent(content, filePath, options);
@@ -110,9 +115,9 @@ export const dsCommandHandler: CommandHandler = async (
 
   // Sync datasource rows from manager to VariableContext if needed
   // This handles the case where loadDatasourceFromContent was called directly
-  const manager = getDatasourceManager();
+  const manager = ctx.bridges?.datasourceManager ?? getDatasourceManager();
   if (manager?.isLoaded() && ctx.variables.getDatasourceRowCount() === 0) {
-    ctx.variables.setDatasourceRows(manager.getAllRows());
+    ctx.variables.setDatasourceRows(manager.getRowSource(), manager.getHeaders());
   }
 
   // Check if datasource is loaded by checking if rows exist
@@ -302,14 +302,15 @@ async function sendDialogMessage(
     timestamp: Date.now(),
   } as DialogOperationMessage;
 
-  if (!currentDialogBridge) {
+  const bridge = ctx.bridges?.dialog ?? currentDialogBridge;
+  if (!bridge) {
     ctx.log('warn', `No dialog bridge configured for ${message.type} operation`);
     // Return success for testing/development without extension
     return { success: true };
   }
 
   try {
-    return await currentDialogBridge.sendMessage(fullMessage);
+    return await bridge.sendMessage(fullMessage);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     ctx.log('error', `Dialog configuration failed: ${errorMessage}`);
@@ -4,6 +4,8 @@
  * Implements handlers for download-related commands:
  * - ONDOWNLOAD FOLDER= FILE= (set download destination)
  * - SAVEAS TYPE=TXT/HTM/PNG/PDF FOLDER= FILE= (save page content)
+ * - SAVEAS TYPE=EXTRACT/JSON/JSONL/XLSX FOLDER= FILE= (save extracted data)
+ * - SAVEAS TYPE=HAR FOLDER= FILE= (save the network capture)
  * - SAVEITEM (save specific element/download item)
  *
  * These handlers communicate with the browser extension via chrome.downloads API.
@@ -15,6 +17,11 @@ import {
   CommandResult,
   IMACROS_ERROR_CODES,
 } from '../executor';
+import type { ExtractRecord } from '../state-manager';
+import { byteArrayToBase64 } from '../encryption';
+import { writeXlsx } from '../xlsx';
+import { EXTRACT_ROW_DELIMITER } from './extraction';
+import { fetchCaptureHar } from './network';
 
 // ===== Download Message Types =====
 
@@ -62,7 +69,11 @@ export type SaveAsType =
   | 'PDF'   // Page as PDF
   | 'CPL'   // Complete page (HTML + resources)
   | 'MHT'   // MHTML archive
-  | 'EXTRACT'; // Extracted data
+  | 'EXTRACT' // Extracted data
+  | 'JSON'  // Extract records as a JSON array
+  | 'JSONL' // Extract records as JSON lines (appended)
+  | 'XLSX'  // Extract records as a workbook
+  | 'HAR';  // Network capture as an HTTP archive
 
 /**
  * Save content to file message
@@ -72,8 +83,10 @@ export interface SaveAsMessage extends DownloadMessage {
   saveType: SaveAsType;
   folder?: string;
   file: string;
-  /** Content to save (for TXT, HTM, EXTRACT) */
+  /** Content to save (for TXT, HTM, EXTRACT, JSON, JSONL, XLSX, HAR) */
   content?: string;
+  /** Set to 'base64' when content is binary (XLSX) */
+  contentEncoding?: 'base64';
   /** Selector for element to save (for PNG screenshots of elements) */
   selector?: string;
   /** Quality for JPG screenshots (0-100) */
@@ -202,6 +215,7 @@ type SaveAsPayload = {
   folder?: string;
   file: string;
   content?: string;
+  contentEncoding?: 'base64';
   selector?: string;
   quality?: number;
 };
@@ -246,14 +260,15 @@ async function sendDownloadMessage(
     timestamp: Date.now(),
   } as DownloadOperationMessage;
 
-  if (!currentDownloadBridge) {
+  const bridge = ctx.bridges?.download ?? currentDownloadBridge;
+  if (!bridge) {
     ctx.log('warn', `No download bridge configured for ${message.type} operation`);
     // Return success for testing/development without extension
     return { success: true };
   }
 
   try {
-    return await currentDownloadBridge.sendMessage(fullMessage);
+    return await bridge.sendMessage(fullMessage);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     ctx.log('error', `Download operation failed: ${errorMessage}`);
@@ -437,13 +452,79 @@ export function deriveDocumentName(url: string, documentTitle?: string): string
 /**
  * Format extract data as CSV (iMacros 8.9.7 parity).
  * Escapes double quotes, wraps fields in quotes, and converts [EXTRACT]
- * delimiters to comma-separated values.
+ * delimiters to comma-separated values. Table rows (each starting with
+ * [EXTRACT_ROW], from EXTRACT=TABLE) become separate CRLF-terminated lines;
+ * the last line's terminator is added by the writer.
+ *
+ * Given the individual extract values, values extracted before or after a
+ * table are written on lines of their own instead of joining a table row.
  */
-export function formatExtractAsCsv(data: string): string {
-  // Escape existing double quotes
-  const escaped = data.replace(/"/g, '""');
-  // Replace [EXTRACT] delimiters with "," to form CSV fields
-  return '"' + escaped.replace(/\[EXTRACT\]/g, '","') + '"';
+export function formatExtractAsCsv(data: string | string[]): string {
+  const values = typeof data === 'string' ? [data] : data;
+  const lines: string[] = [];
+  let current: string[] = [];
+  for (const value of values) {
+    if (!value.includes(EXTRACT_ROW_DELIMITER)) {
+      current.push(value);
+      continue;
+    }
+    if (current.length > 0) {
+      lines.push(current.join('[EXTRACT]'));
+      current = [];
+    }
+    const rows = value.split(EXTRACT_ROW_DELIMITER);
+    if (value.startsWith(EXTRACT_ROW_DELIMITER)) {
+      rows.shift();
+    }
+    lines.push(...rows);
+  }
+  if (current.length > 0 || lines.length === 0) {
+    lines.push(current.join('[EXTRACT]'));
+  }
+
+  return lines.map((line) => {
+    // Escape existing double quotes
+    const escaped = line.replace(/"/g, '""');
+    // Replace [EXTRACT] delimiters with "," to form CSV fields
+    return '"' + escaped.replace(/\[EXTRACT\]/g, '","') + '"';
+  }).join('\r\n');
+}
+
+/**
+ * Order each record's values by the given field list; missing fields become ''
+ */
+function orderExtractRecord(record: ExtractRecord, fields: string[]): ExtractRecord {
+  const ordered: ExtractRecord = {};
+  for (const field of fields) {
+    ordered[field] = record[field] ?? '';
+  }
+  return ordered;
+}
+
+/**
+ * Format extract records as a JSON array of objects.
+ * Every object has the same keys, in the order the fields first appeared.
+ */
+export function formatExtractRecordsAsJson(records: ExtractRecord[], fields: string[]): string {
+  return JSON.stringify(records.map((record) => orderExtractRecord(record, fields)), null, 2);
+}
+
+/**
+ * Format extract records as JSON lines (one object per line, each ending in \n).
+ * Keys follow the field order; fields not seen yet are left out.
+ */
+export function formatExtractRecordsAsJsonl(records: ExtractRecord[], fields: string[]): string {
+  return records
+    .map((record) => JSON.stringify(orderExtractRecord(record, fields.filter((field) => field in record))) + '\n')
+    .join('');
+}
+
+/**
+ * Format extract records as an .xlsx workbook with a header row of field names
+ */
+export function formatExtractRecordsAsXlsx(records: ExtractRecord[], fields: string[]): Uint8Array {
+  const rows = [fields, ...records.map((record) => fields.map((field) => record[field] ?? ''))];
+  return writeXlsx(rows, 'Extract');
 }
 
 /**
@@ -623,8 +704,19 @@ export const ondownloadHandler: CommandHandler = async (ctx: CommandContext): Pr
  */
 const VALID_SAVE_TYPES: Set<string> = new Set([
   'TXT', 'HTM', 'HTML', 'PNG', 'JPG', 'JPEG', 'BMP', 'PDF', 'CPL', 'MHT', 'EXTRACT',
+  'JSON', 'JSONL', 'XLSX', 'HAR',
 ]);
 
+/**
+ * Save types written from extracted data, with their default file extension
+ */
+const EXTRACT_SAVE_EXTENSIONS: Partial<Record<SaveAsType, string>> = {
+  EXTRACT: '.csv',
+  JSON: '.json',
+  JSONL: '.jsonl',
+  XLSX: '.xlsx',
+};
+
 /**
  * Normalize save type to standard form
  */
@@ -652,8 +744,13 @@ function normalizeSaveType(type: string): SaveAsType {
  * - SAVEAS TYPE=CPL FOLDER=<path> FILE=<filename> (complete page)
  * - SAVEAS TYPE=MHT FOLDER=<path> FILE=<filename> (MHTML archive)
  * - SAVEAS TYPE=EXTRACT FOLDER=<path> FILE=<filename> (extracted data)
+ * - SAVEAS TYPE=JSON FOLDER=<path> FILE=<filename> (extract records, rewritten)
+ * - SAVEAS TYPE=JSONL FOLDER=<path> FILE=<filename> (new extract records, appended)
+ * - SAVEAS TYPE=XLSX FOLDER=<path> FILE=<filename> (extract records, rewritten)
+ * - SAVEAS TYPE=HAR FOLDER=<path> FILE=<filename> (requests recorded by NETCAPTURE)
  *
- * Saves page content to a file.
+ * Saves page content to a file. The record types write one record per loop,
+ * with fields named by EXTRACT=... AS=<field>.
  */
 export const saveasHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
   const typeParam = ctx.getParam('TYPE');
@@ -677,7 +774,7 @@ export const saveasHandler: CommandHandler = async (ctx: CommandContext): Promis
     return {
       success: false,
       errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
-      errorMessage: `Invalid TYPE: ${typeParam}. Valid types are: TXT, HTM, PNG, JPG, PDF, CPL, MHT, EXTRACT`,
+      errorMessage: `Invalid TYPE: ${typeParam}. Valid types are: TXT, HTM, PNG, JPG, PDF, CPL, MHT, EXTRACT, JSON, JSONL, XLSX, HAR`,
     };
   }
 
@@ -707,18 +804,20 @@ export const saveasHandler: CommandHandler = async (ctx: CommandContext): Promis
   }
 
   // Resolve FILE wildcards (iMacros 8.9.7 parity)
-  // FILE=* derives name from page URL/title (or "extract.csv" for EXTRACT type)
+  // FILE=* derives name from page URL/title (or "extract.csv" for EXTRACT type,
+  // "extract.json" for JSON and so on)
   // FILE=+suffix appends suffix to derived name
   const currentUrl = ctx.state.getVariable('!URLCURRENT')?.toString() || '';
   const documentTitle = ctx.state.getVariable('!DOCUMENT_TITLE')?.toString() || undefined;
+  const extractExtension = EXTRACT_SAVE_EXTENSIONS[saveType];
 
-  if (saveType === 'EXTRACT') {
+  if (extractExtension) {
     if (file === '*') {
-      file = 'extract.csv';
+      file = 'extract' + extractExtension;
     } else {
       const suffixMatch = file.match(/^\+(.+)$/);
       if (suffixMatch) {
-        file = 'extract' + suffixMatch[1] + '.csv';
+        file = 'extract' + suffixMatch[1] + extractExtension;
       }
     }
   } else {
@@ -752,10 +851,35 @@ export const saveasHandler: CommandHandler = async (ctx: CommandContext): Promis
 
   // For EXTRACT type, format as CSV and clear extract data (iMacros 8.9.7 parity)
   let content: string | undefined;
+  let contentEncoding: 'base64' | undefined;
   if (saveType === 'EXTRACT') {
-    const extractData = ctx.state.getVariable('!EXTRACT')?.toString() || '';
-    content = formatExtractAsCsv(extractData);
+    content = formatExtractAsCsv(ctx.variables.getExtractArray());
+    ctx.state.clearExtract();
+  } else if (saveType === 'JSON' || saveType === 'XLSX') {
+    // Whole-file formats are rewritten with every record of the run so far
+    const fields = ctx.state.getExtractFields();
+    const records = ctx.state.getExtractRecords();
+    if (saveType === 'JSON') {
+      content = formatExtractRecordsAsJson(records, fields);
+    } else {
+      content = byteArrayToBase64(Array.from(formatExtractRecordsAsXlsx(records, fields)));
+      contentEncoding = 'base64';
+    }
+    ctx.state.clearExtract();
+  } else if (saveType === 'JSONL') {
+    // JSON lines are appended, so only records not written yet are sent
+    content = formatExtractRecordsAsJsonl(ctx.state.takeNewExtractRecords(), ctx.state.getExtractFields());
     ctx.state.clearExtract();
+  } else if (saveType === 'HAR') {
+    const har = await fetchCaptureHar(ctx);
+    if (!har) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: 'Failed to read the network capture',
+      };
+    }
+    content = JSON.stringify(har, null, 2);
   }
 
   // Send save request to browser extension
@@ -766,6 +890,7 @@ export const saveasHandler: CommandHandler = async (ctx: CommandContext): Promis
       folder,
       file,
       content,
+      contentEncoding,
       quality,
     },
     ctx
@@ -10,6 +10,7 @@
  * - ALT - Image alt text extraction
  * - TITLE - Element title attribute extraction
  * - SRC - Image/iframe source URL extraction
+ * - TABLE / TABLE_LINKS - A whole table, each row starting with [EXTRACT_ROW]
  * - Other HTML attributes by name
  *
  * SEARCH command supports:
@@ -18,6 +19,9 @@
  * - EXTRACT=<pattern> - Extract matching content
  *
  * Multiple extractions are concatenated with [EXTRACT] delimiter.
+ *
+ * AS=<field> names an extraction (e.g. TAG ... EXTRACT=TXT AS=price); named
+ * values are collected into one record per loop for SAVEAS TYPE=JSON/JSONL/XLSX.
  */
 
 import {
@@ -154,15 +158,52 @@ export function parseSearchSource(source: string): {
  */
 export const EXTRACT_DELIMITER = '[EXTRACT]';
 
+/**
+ * The marker starting each table row in !EXTRACT (TAG ... EXTRACT=TABLE).
+ * SAVEAS TYPE=EXTRACT writes each row as its own CSV line.
+ */
+export const EXTRACT_ROW_DELIMITER = '[EXTRACT_ROW]';
+
+/**
+ * A table read by TAG ... EXTRACT=TABLE or EXTRACT=TABLE_LINKS
+ */
+export interface ExtractedTable {
+  /** Column headers (merged from the header rows), or null if none were detected */
+  headers: string[] | null;
+  /** Body rows; spanned cells are repeated so every row has the same width */
+  rows: string[][];
+}
+
+/**
+ * Format an extracted table for !EXTRACT: cells joined with [EXTRACT],
+ * each row (headers first) starting with [EXTRACT_ROW], so even a one-row
+ * table is told apart from plain extracts
+ */
+export function formatTableExtract(table: ExtractedTable): string {
+  const rows = table.headers ? [table.headers, ...table.rows] : table.rows;
+  return rows.map((row) => EXTRACT_ROW_DELIMITER + row.join(EXTRACT_DELIMITER)).join('');
+}
+
+/**
+ * Get the record field name from the command's AS parameter, if any
+ */
+export function getExtractFieldName(ctx: CommandContext): string | undefined {
+  const asParam = ctx.getParam('AS');
+  const field = asParam ? ctx.expand(asParam).trim() : '';
+  return field || undefined;
+}
+
 /**
  * Append extracted value to !EXTRACT variable
  *
  * Uses addExtractData to properly accumulate with [EXTRACT] delimiter (iMacros 8.9.7 behavior).
+ * An AS=<field> parameter also stores the value in the current extract record.
  */
 export function appendExtract(ctx: CommandContext, value: string): void {
-  // addExtract handles both the state extractData array and the variables accumulator
-  ctx.state.addExtract(value);
-  ctx.log('debug', `EXTRACT: ${value.substring(0, 100)}${value.length > 100 ? '...' : ''}`);
+  // addExtract handles the state extractData array, the variables accumulator and records
+  const field = getExtractFieldName(ctx);
+  ctx.state.addExtract(value, field);
+  ctx.log('debug', `EXTRACT${field ? ` AS=${field}` : ''}: ${value.substring(0, 100)}${value.length > 100 ? '...' : ''}`);
 }
 
 /**
@@ -396,7 +437,7 @@ export const searchHandler: CommandHandler = async (ctx): Promise<CommandResult>
   try {
     const interactionModule = await import('./interaction');
     const { noopSender } = interactionModule;
-    sender = interactionModule.getContentScriptSender();
+    sender = ctx.bridges?.contentScript ?? interactionModule.getContentScriptSender();
     // Only use content script path if a real sender is configured (not noop)
     useContentScript = sender !== noopSender;
   } catch (e) {
@@ -121,7 +121,8 @@ async function sendFileMessage(
     timestamp: Date.now(),
   } as FileOperationMessage;
 
-  if (!currentFileBridge) {
+  const bridge = ctx.bridges?.file ?? currentFileBridge;
+  if (!bridge) {
     ctx.log('warn', `No file bridge configured for ${message.type} operation`);
     // Return failure when no bridge is configured
     return {
@@ -131,7 +132,7 @@ async function sendFileMessage(
   }
 
   try {
-    return await currentFileBridge.sendMessage(fullMessage);
+    return await bridge.sendMessage(fullMessage);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     ctx.log('error', `File operation failed: ${errorMessage}`);
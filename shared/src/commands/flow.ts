@@ -16,6 +16,7 @@ import {
   ExecutionStatus,
 } from '../executor';
 import type { CommandType } from '../parser';
+import { waitForRequestHandler } from './network';
 
 // ===== UI Callback Types =====
 
@@ -238,8 +239,13 @@ function parseSeconds(value: string): number {
  * - WAIT SECONDS=5     - Wait 5 seconds
  * - WAIT SECONDS=0.5   - Wait 500 milliseconds
  * - WAIT SECONDS={{VAR}} - Wait using variable value
+ * - WAIT FOR=REQUEST URL=pattern - Wait for a captured request (see ./network)
  */
 export const waitHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
+  if (ctx.getParam('FOR') !== undefined) {
+    return waitForRequestHandler(ctx);
+  }
+
   const secondsParam = ctx.getParam('SECONDS');
 
   if (!secondsParam) {
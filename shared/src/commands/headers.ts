@@ -0,0 +1,219 @@
+/**
+ * Request Header Command Handlers for iMacros
+ *
+ * Implements handlers for modifying outgoing request headers:
+ * - HEADER NAME=name VALUE=value [DOMAIN=domains] (add or replace a header)
+ * - HEADER NAME=name STRIP [DOMAIN=domains] (remove a header from requests)
+ * - HEADER NAME=name OFF (stop modifying a header)
+ * - HEADER OFF (stop modifying every header)
+ * - SET !USERAGENT value (override the User-Agent header; empty restores it)
+ *
+ * The extension applies the headers with session-scoped declarativeNetRequest
+ * modifyHeaders rules. Every rule added by a macro is removed at macro end.
+ */
+
+import {
+  CommandHandler,
+  CommandContext,
+  CommandResult,
+  IMACROS_ERROR_CODES,
+} from '../executor';
+import { sendBrowserCommandMessage, BrowserCommandResponse } from './browser';
+
+/** HTTP header field name (RFC 9110 token) */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/** Domain name, optionally with a leading *. wildcard */
+const DOMAIN_PATTERN = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+/** Track whether header rules were added during this macro execution */
+let headerRulesAdded = false;
+
+/**
+ * Reset header rule tracking (called when macro execution starts)
+ */
+export function resetHeaderRulesState(): void {
+  headerRulesAdded = false;
+}
+
+/**
+ * Check if header rules were added
+ */
+export function hasHeaderRules(): boolean {
+  return headerRulesAdded;
+}
+
+/**
+ * Parse a DOMAIN parameter into declarativeNetRequest request domains.
+ * Accepts a comma-separated list; a leading *. is dropped because a request
+ * domain already matches its subdomains. Returns null for an invalid entry.
+ */
+export function parseHeaderDomains(value: string): string[] | null {
+  const domains: string[] = [];
+  for (const entry of value.split(',')) {
+    const domain = entry.trim().toLowerCase();
+    if (!domain) continue;
+    if (!DOMAIN_PATTERN.test(domain)) return null;
+    domains.push(domain.replace(/^\*\./, ''));
+  }
+  return domains.length > 0 ? domains : null;
+}
+
+/**
+ * Handler for HEADER command
+ *
+ * Syntax:
+ * - HEADER NAME=X-Test VALUE={{token}} - Send X-Test on every request
+ * - HEADER NAME=X-Test VALUE=1 DOMAIN=*.example.com - Only for example.com and its subdomains
+ * - HEADER NAME=Referer STRIP - Remove Referer from every request
+ * - HEADER NAME=X-Test OFF - Stop modifying X-Test
+ * - HEADER OFF - Stop modifying every header (including !USERAGENT)
+ *
+ * DOMAIN accepts a comma-separated list of domains.
+ */
+export const headerHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
+  const nameParam = ctx.getParam('NAME');
+  const name = nameParam ? ctx.expand(nameParam).trim() : undefined;
+  const off = ctx.getParam('OFF') !== undefined;
+  const strip = ctx.getParam('STRIP') !== undefined;
+  const valueParam = ctx.getParam('VALUE');
+
+  if (name === undefined && !off) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: 'HEADER requires NAME parameter',
+    };
+  }
+
+  if (name !== undefined && !HEADER_NAME_PATTERN.test(name)) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: `Invalid header NAME: ${name}`,
+    };
+  }
+
+  let domains: string[] | undefined;
+  const domainParam = ctx.getParam('DOMAIN');
+  if (domainParam) {
+    const parsed = parseHeaderDomains(ctx.expand(domainParam));
+    if (!parsed) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+        errorMessage: `Invalid DOMAIN: ${domainParam}`,
+      };
+    }
+    domains = parsed;
+  }
+
+  let action: 'set' | 'strip' | 'off';
+  let value: string | undefined;
+  if (off) {
+    action = 'off';
+  } else if (strip) {
+    action = 'strip';
+  } else if (valueParam !== undefined) {
+    action = 'set';
+    value = ctx.expand(valueParam);
+  } else {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: 'HEADER requires VALUE, STRIP or OFF',
+    };
+  }
+
+  const target = name ?? 'all headers';
+  ctx.log('info', action === 'set'
+    ? `Setting request header ${target}${domains ? ` for ${domains.join(', ')}` : ''}`
+    : action === 'strip' ? `Stripping request header ${target}` : `Restoring ${target}`);
+
+  const response = await sendBrowserCommandMessage(
+    { type: 'setHeader', action, name, value, domains },
+    ctx
+  );
+
+  if (!response.success) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+      errorMessage: response.error || `Failed to modify request header ${target}`,
+    };
+  }
+
+  if (action !== 'off') {
+    headerRulesAdded = true;
+  } else if (name === undefined) {
+    headerRulesAdded = false;
+  }
+
+  return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+};
+
+/**
+ * Apply a !USERAGENT value as a User-Agent header rule.
+ * Called from the executor's SET handler; an empty value removes the override.
+ * Enclosing double quotes (used to keep the spaces of a user agent) are dropped.
+ */
+export async function applyUserAgent(
+  userAgent: string,
+  ctx: CommandContext
+): Promise<BrowserCommandResponse> {
+  const value = userAgent.trim().replace(/^"(.*)"$/, '$1').trim();
+  if (!value) {
+    if (!headerRulesAdded) return { success: true };
+    return sendBrowserCommandMessage({ type: 'setHeader', action: 'off', name: 'User-Agent' }, ctx);
+  }
+
+  const response = await sendBrowserCommandMessage(
+    { type: 'setHeader', action: 'set', name: 'User-Agent', value },
+    ctx
+  );
+  if (response.success) {
+    headerRulesAdded = true;
+  }
+  return response;
+}
+
+/**
+ * Remove every header rule added by the macro.
+ * Runs at macro end so header changes never outlive the macro.
+ */
+export async function clearHeaderRules(ctx: CommandContext): Promise<void> {
+  if (!headerRulesAdded) return;
+
+  ctx.log('info', 'Removing request header rules');
+  const response = await sendBrowserCommandMessage({ type: 'setHeader', action: 'off' }, ctx);
+  if (!response.success) {
+    ctx.log('warn', `Failed to remove request header rules: ${response.error}`);
+  }
+  headerRulesAdded = false;
+}
+
+// ===== Handler Registration =====
+
+/**
+ * All request header command handlers
+ */
+export const headerHandlers = {
+  HEADER: headerHandler,
+} as const;
+
+/**
+ * Register request header handlers with the executor.
+ * Also registers a cleanup callback that removes the header rules at macro end.
+ */
+export function registerHeaderHandlers(executor: {
+  registerHandler: (type: string, handler: CommandHandler) => void;
+  registerCleanup?: (callback: (ctx: CommandContext) => Promise<void>) => void;
+}): void {
+  for (const [type, handler] of Object.entries(headerHandlers)) {
+    executor.registerHandler(type, handler);
+  }
+
+  if (executor.registerCleanup) {
+    executor.registerCleanup(clearHeaderRules);
+  }
+}
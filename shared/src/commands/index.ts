@@ -34,6 +34,18 @@ export * from './files';
 // Datasource commands (DS)
 export * from './datasource-handler';
 
+// Network capture commands (NETCAPTURE, WAIT FOR=REQUEST)
+export * from './network';
+
+// Request header commands (HEADER, SET !USERAGENT)
+export * from './headers';
+
+// Mocked response commands (MOCK)
+export * from './mock';
+
+// Session commands (COOKIES, STORAGE)
+export * from './session';
+
 // Print commands (PRINT)
 export * from './print';
 
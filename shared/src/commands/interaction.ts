@@ -16,7 +16,8 @@ import {
   IMACROS_ERROR_CODES,
   type IMacrosErrorCode,
 } from '../executor';
-import type { CommandType } from '../parser';
+import type { CommandType, ParsedCommand } from '../parser';
+import { appendExtract, formatTableExtract, type ExtractedTable } from './extraction';
 
 // ===== Content Script Message Types =====
 
@@ -59,6 +60,8 @@ export interface ElementSelector {
   relative?: boolean;
   /** FORM filter (e.g., "NAME:loginform" or "ID:mainform&&NAME:login") */
   form?: string;
+  /** Fallback locators tried in order when the primary selector finds nothing (e.g., "ID:q", "LABEL:Search") */
+  fallbacks?: string[];
 }
 
 /**
@@ -87,6 +90,8 @@ export type ExtractType =
   | 'ID'       // id attribute
   | 'CLASS'    // class attribute
   | 'NAME'     // name attribute
+  | 'TABLE'    // Every row and column of a table
+  | 'TABLE_LINKS' // TABLE plus a URL column after each column with links
   | string;    // Any attribute name with ATTR: prefix
 
 /**
@@ -247,6 +252,8 @@ export interface ContentScriptResponse {
   errorCode?: number;
   /** Extracted data (for TAG with EXTRACT) */
   extractedData?: string;
+  /** Extracted table (for TAG with EXTRACT=TABLE or TABLE_LINKS) */
+  extractedTable?: ExtractedTable;
   /** Element info (for debugging) */
   elementInfo?: {
     tagName: string;
@@ -254,6 +261,8 @@ export interface ContentScriptResponse {
     className?: string;
     rect?: { x: number; y: number; width: number; height: number };
   };
+  /** Fallback locator that found the element when the primary selector did not */
+  fallbackUsed?: string;
 }
 
 // ===== Helper Functions =====
@@ -326,7 +335,7 @@ export function parseAttrParam(attrStr: string): Record<string, string> {
  */
 const VALID_EXTRACT_TYPES = [
   'TXT', 'HTM', 'HREF', 'TITLE', 'ALT', 'VALUE', 'SRC',
-  'ID', 'CLASS', 'NAME', 'TXTALL', 'CHECKED',
+  'ID', 'CLASS', 'NAME', 'TXTALL', 'CHECKED', 'TABLE', 'TABLE_LINKS',
 ];
 
 export function parseExtractParam(extractStr: string): ExtractType {
@@ -415,12 +424,72 @@ export function parseContentParam(contentStr: string): string {
     .replace(/<ENTER>/gi, '\n');
 }
 
+/**
+ * Separator between fallback locators in the TAG FALLBACK parameter
+ */
+export const FALLBACK_SEPARATOR = '||';
+
+/**
+ * Parse FALLBACK parameter value into its locators
+ * Format: FALLBACK="ID:q||NAME:query||LABEL:Search"
+ */
+export function parseFallbackParam(fallbackStr: string): string[] {
+  return fallbackStr
+    .split(FALLBACK_SEPARATOR)
+    .map((locator) => locator.trim())
+    .filter((locator) => locator.length > 0);
+}
+
+/**
+ * Suggest a TAG line that uses the fallback locator which matched as its
+ * primary locator. Returns null for locators that have no TAG equivalent (LABEL).
+ */
+export function suggestFallbackRewrite(command: ParsedCommand, fallback: string): string | null {
+  const colonIndex = fallback.indexOf(':');
+  if (colonIndex <= 0) return null;
+  const kind = fallback.substring(0, colonIndex).toUpperCase();
+  const value = fallback.substring(colonIndex + 1);
+  const quote = (text: string) => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+  let locator: string;
+  switch (kind) {
+    case 'XPATH':
+      locator = `XPATH=${quote(value)}`;
+      break;
+    case 'CSS':
+      locator = `CSS=${quote(value)}`;
+      break;
+    case 'ID':
+    case 'NAME':
+    case 'TXT': {
+      const typeParam = command.parameters.find((p) => p.key.toUpperCase() === 'TYPE');
+      const type = typeParam ? typeParam.rawValue : '*';
+      locator = `POS=1 TYPE=${type} ATTR=${kind}:${value.replace(/ /g, '<SP>')}`;
+      break;
+    }
+    default:
+      return null;
+  }
+
+  const replaced = ['POS', 'TYPE', 'ATTR', 'XPATH', 'CSS', 'FORM'];
+  const kept = command.parameters
+    .filter((p) => !replaced.includes(p.key.toUpperCase()))
+    .map((p) => `${p.key}=${p.rawValue}`);
+  return ['TAG', locator, ...kept].join(' ');
+}
+
 /**
  * Build element selector from TAG command parameters
  */
 export function buildSelector(ctx: CommandContext): ElementSelector {
   const selector: ElementSelector = {};
 
+  // Fallback locators apply whichever primary locator is used
+  const fallback = ctx.getParam('FALLBACK');
+  if (fallback) {
+    selector.fallbacks = parseFallbackParam(ctx.expand(fallback));
+  }
+
   // XPath takes precedence
   const xpath = ctx.getParam('XPATH');
   if (xpath) {
@@ -544,6 +613,7 @@ export function getContentScriptSender(): ContentScriptSender {
  * TAG POS=1 TYPE=A ATTR=TXT:Click<SP>Here
  * TAG XPATH=//input[@id='search'] CONTENT=query
  * TAG CSS=.submit-btn EXTRACT=TXT
+ * TAG POS=1 TYPE=TABLE ATTR=ID:results EXTRACT=TABLE
  */
 export const tagHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
   let selector: ElementSelector;
@@ -608,7 +678,7 @@ export const tagHandler: CommandHandler = async (ctx: CommandContext): Promise<C
 
   try {
     // Send to content script
-    const response = await activeSender.sendMessage(message);
+    const response = await (ctx.bridges?.contentScript ?? activeSender).sendMessage(message);
 
     if (!response.success) {
       // iMacros 8.9.7: when element not found and EXTRACT is specified,
@@ -618,7 +688,7 @@ export const tagHandler: CommandHandler = async (ctx: CommandContext): Promise<C
       const isElementNotFound = response.errorCode === -920;
       if (action.extract && isElementNotFound) {
         const eanf = '#EANF#';
-        ctx.state.addExtract(eanf);
+        appendExtract(ctx, eanf);
         ctx.log('info', `Extracted: ${eanf} (element not found)`);
         return {
           success: true,
@@ -633,16 +703,28 @@ export const tagHandler: CommandHandler = async (ctx: CommandContext): Promise<C
       };
     }
 
-    // Handle extraction
-    if (action.extract && response.extractedData !== undefined) {
-      ctx.state.addExtract(response.extractedData);
-      ctx.log('info', `Extracted: ${response.extractedData}`);
+    if (response.fallbackUsed) {
+      const suggestion = suggestFallbackRewrite(ctx.command, response.fallbackUsed);
+      ctx.log('warn', `TAG: primary locator failed, matched fallback ${response.fallbackUsed}`
+        + (suggestion ? `. Suggested line: ${suggestion}` : ''));
+    }
+
+    // Handle extraction (a table becomes one value, each row starting with [EXTRACT_ROW])
+    let extracted = response.extractedData;
+    if (action.extract && response.extractedTable) {
+      extracted = formatTableExtract(response.extractedTable);
+      ctx.log('info', `Extracted table: ${response.extractedTable.rows.length} rows`
+        + (response.extractedTable.headers ? ` (headers: ${response.extractedTable.headers.join(', ')})` : ''));
+    }
+    if (action.extract && extracted !== undefined) {
+      appendExtract(ctx, extracted);
+      ctx.log('info', `Extracted: ${extracted}`);
     }
 
     return {
       success: true,
       errorCode: IMACROS_ERROR_CODES.OK,
-      output: response.extractedData,
+      output: extracted,
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
@@ -731,7 +813,7 @@ export const clickHandler: CommandHandler = async (ctx: CommandContext): Promise
   ctx.log('debug', `CLICK: X=${x}, Y=${y}, button=${button}${expandedContent ? `, content=${expandedContent}` : ''}`);
 
   try {
-    const response = await activeSender.sendMessage(message);
+    const response = await (ctx.bridges?.contentScript ?? activeSender).sendMessage(message);
 
     if (!response.success) {
       return {
@@ -957,7 +1039,7 @@ export const eventHandler: CommandHandler = async (ctx: CommandContext): Promise
   ctx.log('debug', `EVENT: type=${eventType}, selector=${JSON.stringify(selector)}`);
 
   try {
-    const response = await activeSender.sendMessage(message);
+    const response = await (ctx.bridges?.contentScript ?? activeSender).sendMessage(message);
 
     if (!response.success) {
       // Use error code -921 (ELEMENT_NOT_VISIBLE) for element location failures
@@ -0,0 +1,317 @@
+/**
+ * Mocked Response Command Handlers for iMacros
+ *
+ * Implements handlers for answering requests with canned responses during
+ * playback, so macros do not depend on flaky third-party services:
+ * - MOCK URL=pattern FILE=name [STATUS=n] [HEADER=name:value ...] (body from a file)
+ * - MOCK URL=pattern BODY=text [STATUS=n] [HEADER=name:value ...] (inline body)
+ * - MOCK URL=pattern OFF (remove one mock)
+ * - MOCK OFF (remove every mock)
+ * - MOCK QUERY URL=pattern (read the mock's hit count into !MOCK_HITS)
+ *
+ * FILE is resolved against !FOLDER_DATASOURCE and read through the mock body
+ * loader (set by the native host). The extension serves the responses from the
+ * background web request layer; every mock is removed at macro end.
+ * URL patterns use * as a wildcard and must match the whole URL.
+ */
+
+import {
+  CommandHandler,
+  CommandContext,
+  CommandResult,
+  IMACROS_ERROR_CODES,
+} from '../executor';
+import { sendBrowserCommandMessage } from './browser';
+import { byteArrayToBase64, stringToByteArray, utf8Encode } from '../encryption';
+
+// ===== Mock Body Loader =====
+
+/**
+ * Reads a mock body file; receives the path resolved against !FOLDER_DATASOURCE
+ */
+export type MockBodyLoader = (path: string) => Promise<Uint8Array> | Uint8Array;
+
+/**
+ * Current mock body loader
+ */
+let mockBodyLoader: MockBodyLoader | null = null;
+
+/**
+ * Set the loader used for MOCK FILE=
+ */
+export function setMockBodyLoader(loader: MockBodyLoader | null): void {
+  mockBodyLoader = loader;
+}
+
+/**
+ * Bodies above this size do not fit in one native message to the extension
+ */
+export const MAX_MOCK_BODY_BYTES = 700 * 1024;
+
+/**
+ * Content types by body file extension
+ */
+const CONTENT_TYPES: Record<string, string> = {
+  json: 'application/json',
+  js: 'application/javascript',
+  html: 'text/html',
+  htm: 'text/html',
+  css: 'text/css',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  xml: 'application/xml',
+  svg: 'image/svg+xml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  pdf: 'application/pdf',
+};
+
+/**
+ * Guess a body's content type from its file name
+ */
+export function guessMockContentType(fileName: string): string {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+}
+
+/**
+ * Resolve a body file name against !FOLDER_DATASOURCE unless it is absolute
+ */
+function resolveMockFile(ctx: CommandContext, fileName: string): string {
+  if (fileName.startsWith('/') || /^[A-Za-z]:[\\/]/.test(fileName)) {
+    return fileName;
+  }
+
+  const datasourceFolder = ctx.state.getVariable('!FOLDER_DATASOURCE');
+  if (datasourceFolder && typeof datasourceFolder === 'string') {
+    return `${datasourceFolder.replace(/[\\/]+$/, '')}/${fileName}`;
+  }
+
+  // Let the loader resolve it against its default datasource folder
+  return fileName;
+}
+
+/** Track whether mocks were added during this macro execution */
+let mocksAdded = false;
+
+/**
+ * Reset mock tracking (called when macro execution starts)
+ */
+export function resetMockState(): void {
+  mocksAdded = false;
+}
+
+/**
+ * Check if mocks were added
+ */
+export function hasMocks(): boolean {
+  return mocksAdded;
+}
+
+// ===== MOCK Command Handler =====
+
+/**
+ * Handler for MOCK command
+ *
+ * Syntax:
+ * - MOCK URL=*\/api/rates* FILE=rates.json - Serve rates.json from !FOLDER_DATASOURCE
+ * - MOCK URL=*\/api/rates* STATUS=503 BODY=down - Serve an inline body with status 503
+ * - MOCK URL=... FILE=... HEADER=Cache-Control:no-store - Add a response header (repeatable)
+ * - MOCK URL=*\/api/rates* OFF - Remove the mock for that pattern
+ * - MOCK OFF - Remove every mock
+ * - MOCK QUERY URL=*\/api/rates* - Store the number of requests served in !MOCK_HITS
+ *
+ * STATUS defaults to 200. Content-Type is guessed from the FILE extension
+ * (text/plain for BODY) unless a HEADER sets it. A later MOCK for the same
+ * pattern replaces the earlier one.
+ */
+export const mockHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
+  const urlParam = ctx.getParam('URL');
+  const urlPattern = urlParam ? ctx.expand(urlParam) : undefined;
+
+  // MOCK OFF / MOCK URL=... OFF
+  if (ctx.getParam('OFF') !== undefined) {
+    const response = await sendBrowserCommandMessage(
+      urlPattern ? { type: 'mock', action: 'remove', urlPattern } : { type: 'mock', action: 'clear' },
+      ctx
+    );
+    if (!response.success) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: response.error || 'Failed to remove mock',
+      };
+    }
+    if (!urlPattern) {
+      mocksAdded = false;
+    }
+    ctx.log('info', urlPattern ? `Removed mock for ${urlPattern}` : 'Removed all mocks');
+    return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+  }
+
+  if (!urlPattern) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: 'MOCK requires URL parameter',
+    };
+  }
+
+  // MOCK QUERY URL=...
+  if (ctx.getParam('QUERY') !== undefined) {
+    const response = await sendBrowserCommandMessage({ type: 'mock', action: 'query', urlPattern }, ctx);
+    if (!response.success) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: response.error || 'Failed to query mock',
+      };
+    }
+    const mock = response.data?.mocks?.[0];
+    if (!mock) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND,
+        errorMessage: `No MOCK for URL=${urlPattern}`,
+      };
+    }
+    ctx.state.setVariable('!MOCK_HITS', mock.hits);
+    ctx.log('info', `Mock for ${urlPattern} served ${mock.hits} request(s)`);
+    return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: String(mock.hits) };
+  }
+
+  // MOCK URL=... FILE=... / BODY=...
+  const statusParam = ctx.getParam('STATUS');
+  const status = statusParam ? parseInt(ctx.expand(statusParam), 10) : 200;
+  if (isNaN(status) || status < 100 || status > 599) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: `Invalid STATUS value: ${statusParam}`,
+    };
+  }
+
+  const headers: { name: string; value: string }[] = [];
+  for (const param of ctx.command.parameters) {
+    if (param.key.toUpperCase() !== 'HEADER') continue;
+    const header = ctx.expand(param.value);
+    const colon = header.indexOf(':');
+    if (colon <= 0) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+        errorMessage: `Invalid HEADER value: ${param.value}. Expected name:value`,
+      };
+    }
+    headers.push({ name: header.slice(0, colon).trim(), value: header.slice(colon + 1).trim() });
+  }
+
+  const fileParam = ctx.getParam('FILE');
+  const bodyParam = ctx.getParam('BODY');
+  let bytes: number[];
+  let contentType: string;
+
+  if (fileParam) {
+    const fileName = ctx.expand(fileParam);
+    if (!mockBodyLoader) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.FILE_ERROR,
+        errorMessage: 'MOCK FILE requires native host file access. No mock body loader configured.',
+      };
+    }
+    const filePath = resolveMockFile(ctx, fileName);
+    try {
+      bytes = Array.from(await mockBodyLoader(filePath));
+    } catch (error) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.FILE_NOT_FOUND,
+        errorMessage: `Cannot read mock body ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+    contentType = guessMockContentType(fileName);
+  } else if (bodyParam !== undefined) {
+    bytes = stringToByteArray(utf8Encode(ctx.expand(bodyParam)));
+    contentType = 'text/plain; charset=utf-8';
+  } else {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: 'MOCK requires FILE or BODY parameter',
+    };
+  }
+
+  if (bytes.length > MAX_MOCK_BODY_BYTES) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: `Mock body is ${bytes.length} bytes; the limit is ${MAX_MOCK_BODY_BYTES}`,
+    };
+  }
+
+  if (!headers.some(h => h.name.toLowerCase() === 'content-type')) {
+    headers.push({ name: 'Content-Type', value: contentType });
+  }
+
+  ctx.log('info', `Mocking ${urlPattern} with status ${status} (${bytes.length} bytes)`);
+
+  const response = await sendBrowserCommandMessage(
+    { type: 'mock', action: 'add', mock: { urlPattern, status, headers, body: byteArrayToBase64(bytes) } },
+    ctx
+  );
+
+  if (!response.success) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+      errorMessage: response.error || `Failed to mock ${urlPattern}`,
+    };
+  }
+
+  mocksAdded = true;
+  return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+};
+
+/**
+ * Remove every mock added by the macro.
+ * Runs at macro end so mocked responses never outlive the macro.
+ */
+export async function clearMocks(ctx: CommandContext): Promise<void> {
+  if (!mocksAdded) return;
+
+  ctx.log('info', 'Removing mocked responses');
+  const response = await sendBrowserCommandMessage({ type: 'mock', action: 'clear' }, ctx);
+  if (!response.success) {
+    ctx.log('warn', `Failed to remove mocked responses: ${response.error}`);
+  }
+  mocksAdded = false;
+}
+
+// ===== Handler Registration =====
+
+/**
+ * All mocked response command handlers
+ */
+export const mockHandlers = {
+  MOCK: mockHandler,
+} as const;
+
+/**
+ * Register mocked response handlers with the executor.
+ * Also registers a cleanup callback that removes the mocks at macro end.
+ */
+export function registerMockHandlers(executor: {
+  registerHandler: (type: string, handler: CommandHandler) => void;
+  registerCleanup?: (callback: (ctx: CommandContext) => Promise<void>) => void;
+}): void {
+  for (const [type, handler] of Object.entries(mockHandlers)) {
+    executor.registerHandler(type, handler);
+  }
+
+  if (executor.registerCleanup) {
+    executor.registerCleanup(clearMocks);
+  }
+}
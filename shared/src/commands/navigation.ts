@@ -215,14 +215,15 @@ async function sendBrowserMessage(
     timestamp: Date.now(),
   } as BrowserOperationMessage;
 
-  if (!currentBridge) {
+  const bridge = ctx.bridges?.browser ?? currentBridge;
+  if (!bridge) {
     ctx.log('warn', `No browser bridge configured for ${message.type} operation`);
     // Return success for testing/development without extension
     return { success: true };
   }
 
   try {
-    return await currentBridge.sendMessage(fullMessage);
+    return await bridge.sendMessage(fullMessage);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     ctx.log('error', `Browser operation failed: ${errorMessage}`);
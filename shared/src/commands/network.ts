@@ -0,0 +1,500 @@
+/**
+ * Network Capture Command Handlers for iMacros
+ *
+ * Implements handlers for recording the page's network traffic:
+ * - NETCAPTURE START [URL=pattern] (clear the capture and start recording)
+ * - NETCAPTURE STOP (stop recording, keeping what was captured)
+ * - NETCAPTURE QUERY URL=pattern [POS=n] [HEADER=name] (read a request into !NET_* variables)
+ * - WAIT FOR=REQUEST URL=pattern [SECONDS=n] (wait for a matching request to finish)
+ *
+ * The extension records requests with chrome.webRequest while a capture is
+ * running; SAVEAS TYPE=HAR writes the capture as a HAR 1.2 file.
+ * URL patterns use * as a wildcard and must match the whole URL.
+ */
+
+import {
+  CommandHandler,
+  CommandContext,
+  CommandResult,
+  IMACROS_ERROR_CODES,
+} from '../executor';
+import { sendBrowserCommandMessage } from './browser';
+
+// ===== Captured Request Types =====
+
+/**
+ * An HTTP header name/value pair
+ */
+export interface NetHeader {
+  name: string;
+  value: string;
+}
+
+/**
+ * A request recorded by the extension during a capture
+ */
+export interface CapturedRequest {
+  /** webRequest request ID */
+  id: string;
+  url: string;
+  method: string;
+  /** webRequest resource type (main_frame, xmlhttprequest, image, ...) */
+  resourceType: string;
+  tabId: number;
+  /** When the request started (epoch milliseconds) */
+  startTime: number;
+  requestHeaders: NetHeader[];
+  /** HTTP status code (0 until the response arrives) */
+  status: number;
+  /** HTTP status line, e.g. "HTTP/1.1 200 OK" */
+  statusLine: string;
+  responseHeaders: NetHeader[];
+  /** When the response headers arrived (epoch milliseconds) */
+  responseStartTime?: number;
+  /** When the request completed or failed (epoch milliseconds) */
+  endTime?: number;
+  /** Network error, e.g. net::ERR_NAME_NOT_RESOLVED */
+  error?: string;
+  fromCache?: boolean;
+  serverIp?: string;
+}
+
+// ===== HAR Types =====
+
+/**
+ * HAR 1.2 name/value pair (headers, query string)
+ */
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * HAR 1.2 entry
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: HarNameValue[];
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _error?: string;
+  };
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+  };
+  serverIPAddress?: string;
+  _resourceType: string;
+}
+
+/**
+ * HAR 1.2 document
+ */
+export interface HarDocument {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    pages: [];
+    entries: HarEntry[];
+  };
+}
+
+// ===== URL Patterns =====
+
+/**
+ * Whether a URL matches an iMacros wildcard pattern (* matches any run of
+ * characters, the match is case-insensitive and covers the whole URL)
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`, 'i').test(url);
+}
+
+// ===== HAR Builder =====
+
+/**
+ * Find a header value by name (case-insensitive)
+ */
+export function findHeader(headers: NetHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.name.toLowerCase() === lower)?.value;
+}
+
+/**
+ * Split a status line like "HTTP/1.1 404 Not Found" into version and text
+ */
+function parseStatusLine(statusLine: string): { httpVersion: string; statusText: string } {
+  const match = statusLine.match(/^(\S+)\s+\d+\s*(.*)$/);
+  return match
+    ? { httpVersion: match[1], statusText: match[2] }
+    : { httpVersion: '', statusText: '' };
+}
+
+/**
+ * Query string of a URL as HAR name/value pairs
+ */
+function parseQueryString(url: string): HarNameValue[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Convert one captured request to a HAR entry
+ */
+function toHarEntry(request: CapturedRequest): HarEntry {
+  const { httpVersion, statusText } = parseStatusLine(request.statusLine);
+  const end = request.endTime ?? request.responseStartTime ?? request.startTime;
+  const responseStart = request.responseStartTime ?? end;
+  const contentLength = parseInt(findHeader(request.responseHeaders, 'content-length') ?? '', 10);
+
+  return {
+    startedDateTime: new Date(request.startTime).toISOString(),
+    time: Math.max(0, end - request.startTime),
+    request: {
+      method: request.method,
+      url: request.url,
+      httpVersion,
+      cookies: [],
+      headers: request.requestHeaders,
+      queryString: parseQueryString(request.url),
+      headersSize: -1,
+      bodySize: -1,
+    },
+    response: {
+      status: request.status,
+      statusText,
+      httpVersion,
+      cookies: [],
+      headers: request.responseHeaders,
+      content: {
+        size: isNaN(contentLength) ? -1 : contentLength,
+        mimeType: findHeader(request.responseHeaders, 'content-type') ?? '',
+      },
+      redirectURL: findHeader(request.responseHeaders, 'location') ?? '',
+      headersSize: -1,
+      bodySize: isNaN(contentLength) ? -1 : contentLength,
+      ...(request.error ? { _error: request.error } : {}),
+    },
+    cache: {},
+    timings: {
+      blocked: -1,
+      dns: -1,
+      connect: -1,
+      send: 0,
+      wait: Math.max(0, responseStart - request.startTime),
+      receive: Math.max(0, end - responseStart),
+      ssl: -1,
+    },
+    ...(request.serverIp ? { serverIPAddress: request.serverIp } : {}),
+    _resourceType: request.resourceType,
+  };
+}
+
+/**
+ * Build a HAR 1.2 document from captured requests, ordered by start time
+ */
+export function buildHar(requests: CapturedRequest[], creatorVersion = '1.0'): HarDocument {
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'iMacros', version: creatorVersion },
+      pages: [],
+      entries: [...requests]
+        .sort((a, b) => a.startTime - b.startTime)
+        .map(toHarEntry),
+    },
+  };
+}
+
+// ===== !NET_* Variables =====
+
+/**
+ * Store a captured request in the !NET_* variables.
+ * !NET_HEADERS holds the response headers one "Name: value" per line.
+ */
+function setRequestVariables(
+  ctx: CommandContext,
+  request: CapturedRequest,
+  count: number,
+  headerName?: string
+): void {
+  const end = request.endTime ?? request.responseStartTime ?? request.startTime;
+  ctx.state.setVariable('!NET_COUNT', count);
+  ctx.state.setVariable('!NET_URL', request.url);
+  ctx.state.setVariable('!NET_METHOD', request.method);
+  ctx.state.setVariable('!NET_STATUS', request.status);
+  ctx.state.setVariable('!NET_TIME', Math.max(0, end - request.startTime));
+  ctx.state.setVariable(
+    '!NET_HEADERS',
+    request.responseHeaders.map(h => `${h.name}: ${h.value}`).join('\n')
+  );
+  ctx.state.setVariable('!NET_HEADER', headerName ? findHeader(request.responseHeaders, headerName) ?? '' : '');
+  ctx.state.setVariable('!NET_ERROR', request.error ?? '');
+}
+
+// ===== NETCAPTURE Command Handler =====
+
+/**
+ * Whether this macro started a capture that is still running
+ */
+let captureRunning = false;
+
+/**
+ * Handler for NETCAPTURE command
+ *
+ * Syntax:
+ * - NETCAPTURE START - Clear the capture and record every request
+ * - NETCAPTURE START URL=pattern - Record only requests matching the pattern
+ * - NETCAPTURE STOP - Stop recording (the capture stays queryable)
+ * - NETCAPTURE QUERY URL=pattern [POS=n] [HEADER=name] - Read the nth matching
+ *   request into !NET_URL, !NET_METHOD, !NET_STATUS, !NET_TIME, !NET_HEADERS,
+ *   !NET_HEADER and !NET_ERROR; !NET_COUNT holds the number of matches
+ *
+ * Uses browser.webRequest listeners in the extension.
+ */
+export const netcaptureHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
+  const action = ctx.command.parameters[0]?.key.toUpperCase();
+  const urlParam = ctx.getParam('URL');
+  const urlPattern = urlParam ? ctx.expand(urlParam) : undefined;
+
+  switch (action) {
+    case 'START':
+    case 'STOP': {
+      ctx.log('info', action === 'START'
+        ? `Starting network capture${urlPattern ? ` for ${urlPattern}` : ''}`
+        : 'Stopping network capture');
+
+      const response = await sendBrowserCommandMessage(
+        { type: 'netCapture', action: action === 'START' ? 'start' : 'stop', urlPattern },
+        ctx
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+          errorMessage: response.error || `Failed to ${action.toLowerCase()} network capture`,
+        };
+      }
+
+      captureRunning = action === 'START';
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    }
+
+    case 'QUERY': {
+      if (!urlPattern) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+          errorMessage: 'NETCAPTURE QUERY requires URL parameter',
+        };
+      }
+
+      const posParam = ctx.getParam('POS');
+      const pos = posParam ? parseInt(ctx.expand(posParam), 10) : 1;
+      if (isNaN(pos) || pos < 1) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+          errorMessage: `Invalid POS value: ${posParam}`,
+        };
+      }
+
+      const response = await sendBrowserCommandMessage(
+        { type: 'netCapture', action: 'query', urlPattern },
+        ctx
+      );
+
+      if (!response.success) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+          errorMessage: response.error || 'Failed to query network capture',
+        };
+      }
+
+      const requests = response.data?.requests ?? [];
+      ctx.state.setVariable('!NET_COUNT', requests.length);
+
+      const request = requests[pos - 1];
+      if (!request) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND,
+          errorMessage: `No captured request matches ${urlPattern} at POS=${pos} (${requests.length} found)`,
+        };
+      }
+
+      const headerParam = ctx.getParam('HEADER');
+      setRequestVariables(ctx, request, requests.length, headerParam ? ctx.expand(headerParam) : undefined);
+      ctx.log('info', `${request.method} ${request.url} -> ${request.status}`);
+
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: String(request.status) };
+    }
+
+    default:
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+        errorMessage: 'NETCAPTURE expects START, STOP or QUERY',
+      };
+  }
+};
+
+// ===== WAIT FOR=REQUEST =====
+
+/**
+ * Handler for WAIT FOR=REQUEST (called by the WAIT handlers when FOR is given)
+ *
+ * Syntax:
+ * - WAIT FOR=REQUEST URL=pattern - Wait up to !TIMEOUT_PAGE seconds
+ * - WAIT FOR=REQUEST URL=pattern SECONDS=n - Wait up to n seconds
+ *
+ * Waits until a captured request matching the pattern has completed or failed;
+ * a request already returned by an earlier WAIT is not returned again.
+ * The request is stored in the !NET_* variables like NETCAPTURE QUERY.
+ * Requires a running NETCAPTURE.
+ */
+export const waitForRequestHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
+  const forParam = ctx.expand(ctx.getParam('FOR') ?? '').toUpperCase();
+  if (forParam !== 'REQUEST') {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: `Invalid FOR value: ${forParam}. Valid value is: REQUEST`,
+    };
+  }
+
+  const urlParam = ctx.getParam('URL');
+  if (!urlParam) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: 'WAIT FOR=REQUEST requires URL parameter',
+    };
+  }
+  const urlPattern = ctx.expand(urlParam);
+
+  const secondsParam = ctx.getParam('SECONDS');
+  const seconds = secondsParam
+    ? parseFloat(ctx.expand(secondsParam))
+    : Number(ctx.state.getVariable('!TIMEOUT_PAGE')) || 60;
+  if (isNaN(seconds) || seconds < 0) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: `Invalid SECONDS value: ${secondsParam}`,
+    };
+  }
+
+  ctx.log('info', `Waiting up to ${seconds}s for a request to ${urlPattern}`);
+
+  const response = await sendBrowserCommandMessage(
+    { type: 'netCapture', action: 'wait', urlPattern, timeoutMs: Math.round(seconds * 1000) },
+    ctx
+  );
+
+  if (!response.success) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+      errorMessage: response.error || 'Failed to wait for request',
+    };
+  }
+
+  const request = response.data?.requests?.[0];
+  if (!request) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.TIMEOUT,
+      errorMessage: `No request to ${urlPattern} completed within ${seconds}s`,
+    };
+  }
+
+  setRequestVariables(ctx, request, 1);
+  ctx.log('info', `${request.method} ${request.url} -> ${request.status}`);
+
+  return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: String(request.status) };
+};
+
+// ===== SAVEAS TYPE=HAR =====
+
+/**
+ * Read the capture from the extension as a HAR document (for SAVEAS TYPE=HAR).
+ * Returns null when the extension could not be asked.
+ */
+export async function fetchCaptureHar(ctx: CommandContext): Promise<HarDocument | null> {
+  const response = await sendBrowserCommandMessage({ type: 'netCapture', action: 'har' }, ctx);
+  if (!response.success) {
+    ctx.log('error', `Failed to read network capture: ${response.error}`);
+    return null;
+  }
+  return response.data?.har ?? buildHar([]);
+}
+
+/**
+ * Stop a running capture at macro end so the extension stops recording
+ */
+export async function stopNetworkCapture(ctx: CommandContext): Promise<void> {
+  if (!captureRunning) return;
+
+  ctx.log('info', 'Stopping network capture');
+  captureRunning = false;
+  await sendBrowserCommandMessage({ type: 'netCapture', action: 'stop' }, ctx);
+}
+
+// ===== Handler Registration =====
+
+/**
+ * All network capture command handlers
+ */
+export const networkHandlers = {
+  NETCAPTURE: netcaptureHandler,
+} as const;
+
+/**
+ * Register network capture handlers with the executor.
+ * Also registers a cleanup callback that stops the capture at macro end.
+ */
+export function registerNetworkHandlers(executor: {
+  registerHandler: (type: string, handler: CommandHandler) => void;
+  registerCleanup?: (callback: (ctx: CommandContext) => Promise<void>) => void;
+}): void {
+  for (const [type, handler] of Object.entries(networkHandlers)) {
+    executor.registerHandler(type, handler);
+  }
+
+  if (executor.registerCleanup) {
+    executor.registerCleanup(stopNetworkCapture);
+  }
+}
@@ -0,0 +1,446 @@
+/**
+ * Session Command Handlers for iMacros
+ *
+ * Implements handlers for saving and restoring a logged-in browser session:
+ * - COOKIES EXPORT FILE=name [DOMAIN=domain] [PASSWORD=key] (save cookies to a file)
+ * - COOKIES IMPORT FILE=name [PASSWORD=key] (restore cookies from a file)
+ * - STORAGE GET KEY=key [TYPE=LOCAL|SESSION] (read one item into !STORAGE_VALUE)
+ * - STORAGE SET KEY=key VALUE=value [TYPE=LOCAL|SESSION] (write one item)
+ * - STORAGE GET FILE=name [TYPE=...] [PASSWORD=key] (save every item to a file)
+ * - STORAGE SET FILE=name [TYPE=...] [PASSWORD=key] (restore every item from a file)
+ *
+ * Cookies and storage are read and written by the extension through the
+ * BrowserCommandBridge; storage belongs to the current tab's origin.
+ * Files are resolved against !FOLDER_DATASOURCE and accessed through the
+ * session file store (set by the native host). Files are encrypted at rest
+ * with encryptString when PASSWORD is given or !ENCRYPTION holds a key.
+ */
+
+import {
+  CommandHandler,
+  CommandContext,
+  CommandResult,
+  IMACROS_ERROR_CODES,
+  IMacrosErrorCode,
+} from '../executor';
+import {
+  sendBrowserCommandMessage,
+  BrowserCookie,
+  WebStorageArea,
+} from './browser';
+import { encryptString, decryptString, EncryptionError } from '../encryption';
+
+// ===== Session File Store =====
+
+/**
+ * Reads and writes session files; receives paths resolved against !FOLDER_DATASOURCE
+ */
+export interface SessionFileStore {
+  read(path: string): Promise<string> | string;
+  write(path: string, content: string): Promise<void> | void;
+}
+
+/**
+ * Current session file store
+ */
+let sessionFileStore: SessionFileStore | null = null;
+
+/**
+ * Set the file store used by COOKIES and STORAGE FILE=
+ */
+export function setSessionFileStore(store: SessionFileStore | null): void {
+  sessionFileStore = store;
+}
+
+/**
+ * Cookies saved by COOKIES EXPORT
+ */
+export interface CookieSessionFile {
+  type: 'imacros-cookies';
+  version: 1;
+  exported: string;
+  cookies: BrowserCookie[];
+}
+
+/**
+ * Web storage saved by STORAGE GET FILE=
+ */
+export interface StorageSessionFile {
+  type: 'imacros-storage';
+  version: 1;
+  exported: string;
+  origin: string;
+  area: WebStorageArea;
+  items: Record<string, string>;
+}
+
+/**
+ * Resolve a session file name against !FOLDER_DATASOURCE unless it is absolute
+ */
+function resolveSessionFile(ctx: CommandContext, fileName: string): string {
+  if (fileName.startsWith('/') || /^[A-Za-z]:[\\/]/.test(fileName)) {
+    return fileName;
+  }
+
+  const datasourceFolder = ctx.state.getVariable('!FOLDER_DATASOURCE');
+  if (datasourceFolder && typeof datasourceFolder === 'string') {
+    return `${datasourceFolder.replace(/[\\/]+$/, '')}/${fileName}`;
+  }
+
+  // Let the file store resolve it against its default datasource folder
+  return fileName;
+}
+
+/**
+ * Key for encrypting session files: PASSWORD, else !ENCRYPTION when it holds a key
+ */
+function getSessionKey(ctx: CommandContext): string | undefined {
+  const passwordParam = ctx.getParam('PASSWORD');
+  if (passwordParam) {
+    return ctx.expand(passwordParam);
+  }
+  const encryptionKey = ctx.state.getVariable('!ENCRYPTION');
+  if (typeof encryptionKey === 'string' && encryptionKey !== '' && encryptionKey.toUpperCase() !== 'NO') {
+    return encryptionKey;
+  }
+  return undefined;
+}
+
+/**
+ * Write a session document, encrypted when a key is available
+ */
+async function writeSessionFile(
+  ctx: CommandContext,
+  fileName: string,
+  document: CookieSessionFile | StorageSessionFile
+): Promise<CommandResult | null> {
+  if (!sessionFileStore) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.FILE_ERROR,
+      errorMessage: 'Session files require native host file access. No session file store configured.',
+    };
+  }
+
+  const key = getSessionKey(ctx);
+  const json = JSON.stringify(document, null, 2);
+  const filePath = resolveSessionFile(ctx, fileName);
+  try {
+    await sessionFileStore.write(filePath, key ? encryptString(json, key) : json);
+  } catch (error) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.FILE_WRITE_ERROR,
+      errorMessage: `Cannot write ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+  ctx.log('info', `Saved ${filePath}${key ? ' (encrypted)' : ''}`);
+  return null;
+}
+
+/**
+ * Read a session document of the given type, decrypting it when it is not plain JSON
+ */
+async function readSessionFile<T extends CookieSessionFile | StorageSessionFile>(
+  ctx: CommandContext,
+  fileName: string,
+  type: T['type']
+): Promise<{ document: T } | { error: CommandResult }> {
+  if (!sessionFileStore) {
+    return {
+      error: {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.FILE_ERROR,
+        errorMessage: 'Session files require native host file access. No session file store configured.',
+      },
+    };
+  }
+
+  const filePath = resolveSessionFile(ctx, fileName);
+  let content: string;
+  try {
+    content = (await sessionFileStore.read(filePath)).trim();
+  } catch (error) {
+    return {
+      error: {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.FILE_NOT_FOUND,
+        errorMessage: `Cannot read ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      },
+    };
+  }
+
+  if (!content.startsWith('{')) {
+    const key = getSessionKey(ctx);
+    if (!key) {
+      return {
+        error: {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+          errorMessage: `${filePath} is encrypted; set PASSWORD or !ENCRYPTION`,
+        },
+      };
+    }
+    try {
+      content = decryptString(content, key);
+    } catch (e) {
+      if (e instanceof EncryptionError) {
+        return {
+          error: {
+            success: false,
+            errorCode: e.code as IMacrosErrorCode,
+            errorMessage: `Cannot decrypt ${filePath}: ${e.message}`,
+          },
+        };
+      }
+      throw e;
+    }
+  }
+
+  let document: T;
+  try {
+    document = JSON.parse(content) as T;
+  } catch {
+    document = {} as T;
+  }
+  if (document.type !== type) {
+    return {
+      error: {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.FILE_ERROR,
+        errorMessage: `${filePath} is not an ${type} file`,
+      },
+    };
+  }
+  return { document };
+}
+
+// ===== COOKIES Command Handler =====
+
+/**
+ * Handler for COOKIES command
+ *
+ * Syntax:
+ * - COOKIES EXPORT FILE=session.json - Save every cookie
+ * - COOKIES EXPORT FILE=session.json DOMAIN=example.com - Only example.com and its subdomains
+ * - COOKIES IMPORT FILE=session.json - Restore the saved cookies
+ *
+ * PASSWORD (or a key in !ENCRYPTION) encrypts the file on EXPORT and
+ * decrypts it on IMPORT. Expired cookies are skipped on IMPORT.
+ */
+export const cookiesHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
+  const action = ctx.command.parameters[0]?.key.toUpperCase();
+  if (action !== 'EXPORT' && action !== 'IMPORT') {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: 'COOKIES expects EXPORT or IMPORT',
+    };
+  }
+
+  const fileParam = ctx.getParam('FILE');
+  if (!fileParam) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: `COOKIES ${action} requires FILE parameter`,
+    };
+  }
+  const fileName = ctx.expand(fileParam);
+
+  if (action === 'EXPORT') {
+    const domainParam = ctx.getParam('DOMAIN');
+    const domain = domainParam ? ctx.expand(domainParam).replace(/^\*?\./, '') : undefined;
+
+    const response = await sendBrowserCommandMessage({ type: 'cookies', action: 'export', domain }, ctx);
+    if (!response.success) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: response.error || 'Failed to read cookies',
+      };
+    }
+
+    const cookies = response.data?.cookies ?? [];
+    const failure = await writeSessionFile(ctx, fileName, {
+      type: 'imacros-cookies',
+      version: 1,
+      exported: new Date().toISOString(),
+      cookies,
+    });
+    if (failure) return failure;
+
+    ctx.log('info', `Exported ${cookies.length} cookie(s)${domain ? ` for ${domain}` : ''}`);
+    return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: String(cookies.length) };
+  }
+
+  const read = await readSessionFile<CookieSessionFile>(ctx, fileName, 'imacros-cookies');
+  if ('error' in read) return read.error;
+
+  const now = Date.now() / 1000;
+  const cookies = (read.document.cookies ?? [])
+    .filter(c => c.expirationDate === undefined || c.expirationDate > now);
+
+  const response = await sendBrowserCommandMessage({ type: 'cookies', action: 'import', cookies }, ctx);
+  if (!response.success) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+      errorMessage: response.error || 'Failed to set cookies',
+    };
+  }
+
+  const imported = response.data?.importedCount ?? cookies.length;
+  ctx.log('info', `Imported ${imported} of ${cookies.length} cookie(s)`);
+  return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: String(imported) };
+};
+
+// ===== STORAGE Command Handler =====
+
+/**
+ * Handler for STORAGE command
+ *
+ * Syntax:
+ * - STORAGE GET KEY=token - Read localStorage["token"] into !STORAGE_VALUE
+ * - STORAGE SET KEY=token VALUE={{!VAR1}} - Write localStorage["token"]
+ * - STORAGE GET FILE=storage.json - Save every localStorage item
+ * - STORAGE SET FILE=storage.json - Restore the saved items
+ *
+ * TYPE=SESSION uses sessionStorage instead (default TYPE=LOCAL).
+ * !STORAGE_VALUE is empty when the key is not set. Storage files are
+ * encrypted like COOKIES files.
+ */
+export const storageHandler: CommandHandler = async (ctx: CommandContext): Promise<CommandResult> => {
+  const action = ctx.command.parameters[0]?.key.toUpperCase();
+  if (action !== 'GET' && action !== 'SET') {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: 'STORAGE expects GET or SET',
+    };
+  }
+
+  const typeParam = ctx.getParam('TYPE');
+  const storageType = typeParam ? ctx.expand(typeParam).toUpperCase() : 'LOCAL';
+  if (storageType !== 'LOCAL' && storageType !== 'SESSION') {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+      errorMessage: `Invalid TYPE: ${storageType}. Valid types are: LOCAL, SESSION`,
+    };
+  }
+  const area: WebStorageArea = storageType === 'LOCAL' ? 'local' : 'session';
+
+  const fileParam = ctx.getParam('FILE');
+  const keyParam = ctx.getParam('KEY');
+  if (!fileParam && !keyParam) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: `STORAGE ${action} requires KEY or FILE parameter`,
+    };
+  }
+
+  // Whole storage to or from a file
+  if (fileParam) {
+    const fileName = ctx.expand(fileParam);
+
+    if (action === 'GET') {
+      const response = await sendBrowserCommandMessage({ type: 'webStorage', action: 'getAll', area }, ctx);
+      if (!response.success) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+          errorMessage: response.error || `Failed to read ${area}Storage`,
+        };
+      }
+      const items = response.data?.items ?? {};
+      const failure = await writeSessionFile(ctx, fileName, {
+        type: 'imacros-storage',
+        version: 1,
+        exported: new Date().toISOString(),
+        origin: response.data?.origin ?? '',
+        area,
+        items,
+      });
+      if (failure) return failure;
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: String(Object.keys(items).length) };
+    }
+
+    const read = await readSessionFile<StorageSessionFile>(ctx, fileName, 'imacros-storage');
+    if ('error' in read) return read.error;
+
+    const items = read.document.items ?? {};
+    const response = await sendBrowserCommandMessage({ type: 'webStorage', action: 'setAll', area, items }, ctx);
+    if (!response.success) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: response.error || `Failed to write ${area}Storage`,
+      };
+    }
+    ctx.log('info', `Restored ${Object.keys(items).length} ${area}Storage item(s)`);
+    return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: String(Object.keys(items).length) };
+  }
+
+  // One key
+  const key = ctx.expand(keyParam!);
+
+  if (action === 'GET') {
+    const response = await sendBrowserCommandMessage({ type: 'webStorage', action: 'get', area, key }, ctx);
+    if (!response.success) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: response.error || `Failed to read ${area}Storage`,
+      };
+    }
+    const value = response.data?.value ?? '';
+    ctx.state.setVariable('!STORAGE_VALUE', value);
+    ctx.log('info', `${area}Storage[${key}] ${response.data?.value == null ? 'is not set' : 'read'}`);
+    return { success: true, errorCode: IMACROS_ERROR_CODES.OK, output: value };
+  }
+
+  const valueParam = ctx.getParam('VALUE');
+  if (valueParam === undefined) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+      errorMessage: 'STORAGE SET KEY= requires VALUE parameter',
+    };
+  }
+
+  const response = await sendBrowserCommandMessage(
+    { type: 'webStorage', action: 'set', area, key, value: ctx.expand(valueParam) },
+    ctx
+  );
+  if (!response.success) {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+      errorMessage: response.error || `Failed to write ${area}Storage`,
+    };
+  }
+  return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+};
+
+// ===== Handler Registration =====
+
+/**
+ * All session command handlers
+ */
+export const sessionHandlers = {
+  COOKIES: cookiesHandler,
+  STORAGE: storageHandler,
+} as const;
+
+/**
+ * Register session handlers with the executor
+ */
+export function registerSessionHandlers(
+  registerFn: (type: string, handler: CommandHandler) => void
+): void {
+  for (const [type, handler] of Object.entries(sessionHandlers)) {
+    registerFn(type, handler);
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * Streaming CSV Datasource
+ *
+ * Reads delimited text from files too large to hold in memory. Opening a
+ * file scans it once and keeps only a sparse byte-offset index (the start
+ * of every Nth row); rows are parsed on demand a block at a time, and only
+ * a small window of recently used blocks is cached.
+ *
+ * File access and charset decoding are supplied by the host (see
+ * DatasourceFile) so shared code stays free of Node dependencies.
+ *
+ * Record boundaries are found by scanning code units for newlines outside
+ * quoted fields, so the encoding must be ASCII-compatible (UTF-8, Windows
+ * code pages, ISO-8859-x) or UTF-16.
+ */
+
+import Papa from 'papaparse';
+import type { DatasourceRowSource } from './datasource';
+
+/**
+ * Random-access view of a datasource file, supplied by the host
+ */
+export interface DatasourceFile {
+  /** File size in bytes */
+  size: number;
+  /** Read up to `length` bytes starting at byte `position` */
+  read(position: number, length: number): Uint8Array;
+  /** Character encoding of the file (default: utf-8) */
+  encoding?: string;
+  /** Decode bytes in the file's encoding (default: UTF-8) */
+  decode?(bytes: Uint8Array): string;
+  /** Release the underlying file handle */
+  close?(): void;
+}
+
+/**
+ * Options for a streaming CSV source. The delimiter must already be resolved.
+ */
+export interface StreamingCsvOptions {
+  delimiter: string;
+  quoteChar: string;
+  escapeChar: string;
+  skipEmptyLines: boolean;
+  commentChar: string;
+  hasHeader: boolean;
+  /** Starting data line (1-based) */
+  startLine: number;
+  /** Rows per index entry and per parsed block (default: 1000) */
+  rowsPerBlock?: number;
+  /** Parsed blocks kept in memory (default: 4) */
+  cachedBlocks?: number;
+}
+
+/** Bytes read per scan step (even, so UTF-16 code units never straddle chunks) */
+const SCAN_CHUNK_SIZE = 1024 * 1024;
+
+const LINE_FEED = 0x0a;
+const CARRIAGE_RETURN = 0x0d;
+
+/**
+ * Code unit layout and syntax characters used while scanning
+ */
+interface ScanSyntax {
+  unitSize: 1 | 2;
+  littleEndian: boolean;
+  delimiter: number;
+  quote: number;
+  escape: number;
+  comment: number[];
+  skipEmptyLines: boolean;
+}
+
+/**
+ * Called for each record kept by the scanner with its byte range
+ * (excluding the line ending) and field count
+ */
+type RecordCallback = (start: number, end: number, fieldCount: number) => void;
+
+/**
+ * Find records in the byte range [from, to), skipping empty and comment lines
+ * the same way the in-memory CSV reader does.
+ *
+ * @throws Error if a quoted field is still open at the end of the range
+ */
+function scanRecords(
+  file: DatasourceFile,
+  from: number,
+  to: number,
+  syntax: ScanSyntax,
+  onRecord: RecordCallback
+): void {
+  const { unitSize, littleEndian, delimiter, quote, escape, comment } = syntax;
+  const prefixLength = Math.max(comment.length, 2);
+
+  let recordStart = from;
+  let fieldCount = 1;
+  let units = 0;
+  const prefix: number[] = [];
+  let inQuotes = false;
+  let skipNext = false;
+  let previous = -1;
+
+  const finishRecord = (end: number) => {
+    const length = units - (previous === CARRIAGE_RETURN ? 1 : 0);
+    const recordEnd = previous === CARRIAGE_RETURN ? end - unitSize : end;
+    const isEmpty = length === 0 || (length === 2 && prefix[0] === quote && prefix[1] === quote);
+    const isComment = comment.length > 0 && comment.every((code, i) => prefix[i] === code);
+    if (!(isEmpty && syntax.skipEmptyLines) && !isComment) {
+      onRecord(recordStart, recordEnd, fieldCount);
+    }
+  };
+
+  for (let chunkStart = from; chunkStart < to; chunkStart += SCAN_CHUNK_SIZE) {
+    const bytes = file.read(chunkStart, Math.min(SCAN_CHUNK_SIZE, to - chunkStart));
+    for (let i = 0; i + unitSize <= bytes.length; i += unitSize) {
+      const code = unitSize === 1
+        ? bytes[i]
+        : littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1];
+
+      if (skipNext) {
+        skipNext = false;
+      } else if (inQuotes) {
+        if (code === escape && escape !== quote) {
+          skipNext = true;
+        } else if (code === quote) {
+          inQuotes = false;
+        }
+      } else if (code === quote) {
+        inQuotes = true;
+      } else if (code === delimiter) {
+        fieldCount++;
+      } else if (code === LINE_FEED) {
+        finishRecord(chunkStart + i);
+        recordStart = chunkStart + i + unitSize;
+        fieldCount = 1;
+        units = 0;
+        prefix.length = 0;
+        previous = -1;
+        continue;
+      }
+
+      if (prefix.length < prefixLength) prefix.push(code);
+      units++;
+      previous = code;
+    }
+  }
+
+  if (inQuotes) {
+    throw new Error(`Quoted field starting in the record at byte ${recordStart} is never closed`);
+  }
+  if (recordStart < to) {
+    finishRecord(to);
+  }
+}
+
+/**
+ * CSV rows read on demand from a large file
+ */
+export class StreamingCsvSource implements DatasourceRowSource {
+  /** Number of data rows (after the header and startLine offset) */
+  readonly length: number;
+  /** Header row, if hasHeader was set */
+  readonly headers: string[];
+  /** Widest row (or header); rows are padded to this width */
+  readonly columnCount: number;
+
+  private readonly file: DatasourceFile;
+  private readonly options: StreamingCsvOptions;
+  private readonly syntax: ScanSyntax;
+  private readonly decode: (bytes: Uint8Array) => string;
+  private readonly rowsPerBlock: number;
+  private readonly cachedBlocks: number;
+  /** Byte offset of record 0, N, 2N, ... (N = rowsPerBlock) */
+  private readonly checkpoints: number[] = [];
+  /** Index of the first data record (skips the header and startLine offset) */
+  private readonly firstRecord: number;
+  /** Parsed blocks by block number, oldest first */
+  private readonly blocks = new Map<number, string[][]>();
+
+  /**
+   * Scan the file and build the row index
+   *
+   * @throws Error if the file has no rows, startLine is past the end or a quoted field is never closed
+   */
+  constructor(file: DatasourceFile, options: StreamingCsvOptions) {
+    this.file = file;
+    this.options = options;
+    this.rowsPerBlock = Math.max(1, options.rowsPerBlock ?? 1000);
+    this.cachedBlocks = Math.max(1, options.cachedBlocks ?? 4);
+
+    const encoding = (file.encoding || 'utf-8').toLowerCase();
+    const isUtf16 = /^utf-?16/.test(encoding);
+    const littleEndian = !/be$/.test(encoding);
+    const textDecoder = new TextDecoder(isUtf16 ? (littleEndian ? 'utf-16le' : 'utf-16be') : 'utf-8');
+    this.decode = file.decode
+      ? (bytes) => file.decode!(bytes)
+      : (bytes) => textDecoder.decode(bytes);
+
+    const codes = (text: string) => Array.from(text).map((ch) => ch.charCodeAt(0));
+    this.syntax = {
+      unitSize: isUtf16 ? 2 : 1,
+      littleEndian,
+      delimiter: options.delimiter.charCodeAt(0),
+      quote: options.quoteChar.charCodeAt(0),
+      escape: options.escapeChar.charCodeAt(0),
+      comment: options.commentChar ? codes(options.commentChar) : [],
+      skipEmptyLines: options.skipEmptyLines,
+    };
+
+    this.firstRecord = (options.hasHeader ? 1 : 0) + Math.max(0, options.startLine - 1);
+
+    let recordCount = 0;
+    let maxFields = 0;
+    let headerStart = -1;
+    let headerEnd = -1;
+    scanRecords(file, this.byteOrderMarkLength(), file.size, this.syntax, (start, end, fieldCount) => {
+      if (recordCount % this.rowsPerBlock === 0) {
+        this.checkpoints.push(start);
+      }
+      if (options.hasHeader && recordCount === 0) {
+        headerStart = start;
+        headerEnd = end;
+      }
+      if (recordCount >= this.firstRecord && fieldCount > maxFields) {
+        maxFields = fieldCount;
+      }
+      recordCount++;
+    });
+
+    if (recordCount === 0) {
+      throw new Error('file is empty or contains no valid data');
+    }
+    const dataRowCount = recordCount - (options.hasHeader ? 1 : 0);
+    if (options.startLine > 1 && options.startLine - 1 >= dataRowCount) {
+      throw new Error(`Start line ${options.startLine} exceeds data row count ${dataRowCount}`);
+    }
+
+    this.headers = headerStart >= 0 ? this.parseRecord(file.read(headerStart, headerEnd - headerStart)) : [];
+    this.length = Math.max(0, recordCount - this.firstRecord);
+    this.columnCount = Math.max(maxFields, this.headers.length);
+  }
+
+  /**
+   * Get a data row by 0-based index, padded to columnCount
+   */
+  getRow(index: number): string[] | undefined {
+    if (!Number.isInteger(index) || index < 0 || index >= this.length) {
+      return undefined;
+    }
+    const record = this.firstRecord + index;
+    const row = this.getBlock(Math.floor(record / this.rowsPerBlock))[record % this.rowsPerBlock];
+    if (!row) {
+      return undefined;
+    }
+    return row.length < this.columnCount
+      ? [...row, ...Array(this.columnCount - row.length).fill('')]
+      : row;
+  }
+
+  /**
+   * Release the underlying file
+   */
+  close(): void {
+    this.blocks.clear();
+    this.file.close?.();
+  }
+
+  /**
+   * Length of a byte order mark at the start of the file
+   */
+  private byteOrderMarkLength(): number {
+    const head = this.file.read(0, Math.min(3, this.file.size));
+    if (this.syntax.unitSize === 1) {
+      return head[0] === 0xef && head[1] === 0xbb && head[2] === 0xbf ? 3 : 0;
+    }
+    return (head[0] === 0xff && head[1] === 0xfe) || (head[0] === 0xfe && head[1] === 0xff) ? 2 : 0;
+  }
+
+  /**
+   * Parse (or fetch from the window) the records of one index block
+   */
+  private getBlock(block: number): string[][] {
+    const cached = this.blocks.get(block);
+    if (cached) {
+      // Move to the most recently used end
+      this.blocks.delete(block);
+      this.blocks.set(block, cached);
+      return cached;
+    }
+
+    const from = this.checkpoints[block];
+    const to = this.checkpoints[block + 1] ?? this.file.size;
+    const bytes = this.file.read(from, to - from);
+    const view: DatasourceFile = {
+      size: bytes.length,
+      read: (position, length) => bytes.subarray(position, position + length),
+    };
+
+    const rows: string[][] = [];
+    scanRecords(view, 0, bytes.length, this.syntax, (start, end) => {
+      rows.push(this.parseRecord(bytes.subarray(start, end)));
+    });
+
+    this.blocks.set(block, rows);
+    if (this.blocks.size > this.cachedBlocks) {
+      this.blocks.delete(this.blocks.keys().next().value as number);
+    }
+    return rows;
+  }
+
+  /**
+   * Parse a single record's bytes into fields
+   */
+  private parseRecord(bytes: Uint8Array): string[] {
+    const result = Papa.parse<string[]>(this.decode(bytes), {
+      delimiter: this.options.delimiter,
+      quoteChar: this.options.quoteChar,
+      escapeChar: this.options.escapeChar,
+      newline: '\n',
+    });
+    return result.data[0] ?? [''];
+  }
+}
@@ -1,9 +1,20 @@
 /**
- * iMacros CSV Datasource Parser
+ * iMacros Datasource Parser
+ *
+ * Implements datasource parsing for iMacros macros. Files are read by
+ * pluggable readers chosen by file extension:
+ * - CSV (default, using papaparse)
+ * - JSON arrays (objects become named columns)
+ * - JSONL / NDJSON (one JSON row per line)
+ * - XLSX workbooks with sheet selection (registered by the host, see createXlsxReader)
+ *
+ * Large CSV files can be streamed instead of loaded (see loadFromFile and
+ * datasource-stream.ts): only a byte-offset index and a window of rows are
+ * kept in memory, and navigation behaves the same as for loaded files.
  *
- * Implements CSV file parsing for iMacros macros using papaparse.
  * Supports:
  * - !COL1, !COL2, etc. column references (up to !COL10)
+ * - Named columns ({{!COL:email}}) from JSON keys or a header row
  * - Different delimiters (comma, tab, semicolon)
  * - Quoted field handling
  * - Header row option
@@ -12,6 +23,8 @@
 
 import Papa, { ParseConfig, ParseResult } from 'papaparse';
 import { VariableContext, ColName } from './variables';
+import { readXlsxSheet, type InflateRaw } from './xlsx';
+import { StreamingCsvSource, type DatasourceFile } from './datasource-stream';
 
 /**
  * Supported delimiter types
@@ -36,16 +49,58 @@ export interface DatasourceOptions {
   startLine?: number;
   /** Comment character - lines starting with this are skipped */
   commentChar?: string;
+  /** Reader to use (csv, json, jsonl, xlsx, ...); detected from the file extension when omitted */
+  format?: string;
+  /** Sheet name or 1-based index for workbook formats (default: first sheet) */
+  sheet?: string | number;
+}
+
+/**
+ * Raw datasource content: text, or bytes for binary formats such as XLSX
+ */
+export type DatasourceContent = string | Uint8Array;
+
+/**
+ * Table produced by a datasource reader
+ */
+export interface DatasourceTable {
+  /** Column names, if the format provides them (empty otherwise) */
+  headers: string[];
+  /** Data rows */
+  rows: string[][];
+}
+
+/**
+ * Rows read on demand rather than held in an array (e.g. a streamed file)
+ */
+export interface DatasourceRowSource {
+  /** Number of data rows */
+  readonly length: number;
+  /** Number of columns; rows are padded to this width */
+  readonly columnCount: number;
+  /** Get a data row by 0-based index */
+  getRow(index: number): string[] | undefined;
 }
 
+/**
+ * Datasource reader: parses file content into a table.
+ * Throws an Error describing the problem if the content is invalid.
+ */
+export type DatasourceReader = (
+  content: DatasourceContent,
+  options: Required<Omit<DatasourceOptions, 'format' | 'sheet'>> & Pick<DatasourceOptions, 'sheet'>
+) => DatasourceTable;
+
 /**
  * Datasource state
  */
 export interface DatasourceState {
   /** Current file path */
   filePath: string;
-  /** All parsed rows (excluding header if hasHeader is true) */
+  /** All parsed rows (excluding header if hasHeader is true); empty when streaming */
   rows: string[][];
+  /** Row source of a streamed datasource (see loadFromFile) */
+  source?: StreamingCsvSource;
   /** Header row (if hasHeader is true) */
   headers: string[];
   /** Current row index (0-based) */
@@ -56,6 +111,8 @@ export interface DatasourceState {
   rowCount: number;
   /** Parsing options used */
   options: DatasourceOptions;
+  /** Reader format the file was parsed with */
+  format: string;
 }
 
 /**
@@ -80,7 +137,7 @@ export interface RowResult {
 /**
  * Default parsing options
  */
-export const DEFAULT_OPTIONS: Required<DatasourceOptions> = {
+export const DEFAULT_OPTIONS: Required<Omit<DatasourceOptions, 'format' | 'sheet'>> = {
   delimiter: 'auto',
   hasHeader: false,
   quoteChar: '"',
@@ -90,6 +147,181 @@ export const DEFAULT_OPTIONS: Required<DatasourceOptions> = {
   commentChar: '',
 };
 
+// ===== Datasource Readers =====
+
+/**
+ * Decode datasource bytes as UTF-8 text, dropping a byte order mark
+ */
+function contentToText(content: DatasourceContent): string {
+  const text = typeof content === 'string' ? content : new TextDecoder().decode(content);
+  return text.charCodeAt(0) === 0xfeff ? text.substring(1) : text;
+}
+
+/**
+ * Read delimited text with papaparse
+ */
+const readCsv: DatasourceReader = (content, opts) => {
+  const config: ParseConfig = {
+    delimiter: opts.delimiter === 'auto' ? undefined : opts.delimiter,
+    quoteChar: opts.quoteChar,
+    escapeChar: opts.escapeChar,
+    skipEmptyLines: opts.skipEmptyLines,
+    comments: opts.commentChar || false,
+  };
+
+  const result: ParseResult<string[]> = Papa.parse(contentToText(content), config);
+
+  // Filter critical errors
+  const criticalErrors = result.errors.filter(
+    (e) => e.type === 'Quotes' || e.type === 'FieldMismatch'
+  );
+  if (criticalErrors.length > 0) {
+    throw new Error(criticalErrors[0].message);
+  }
+
+  return { headers: [], rows: result.data as string[][] };
+};
+
+/**
+ * Convert a JSON value to cell text. Nested objects and arrays are kept as JSON.
+ */
+function formatJsonValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+/**
+ * Turn parsed JSON rows into a table. Object rows map keys to named columns
+ * (in order of first appearance); array rows are positional; any other value
+ * is a single-column row.
+ */
+function tabulateJsonRows(items: unknown[]): DatasourceTable {
+  const isObject = (item: unknown): item is Record<string, unknown> =>
+    typeof item === 'object' && item !== null && !Array.isArray(item);
+
+  if (items.some(isObject)) {
+    const headers: string[] = [];
+    for (const item of items) {
+      if (!isObject(item)) {
+        throw new Error('rows must all be objects when any row is an object');
+      }
+      for (const key of Object.keys(item)) {
+        if (!headers.includes(key)) headers.push(key);
+      }
+    }
+    const rows = (items as Record<string, unknown>[]).map((item) =>
+      headers.map((header) => formatJsonValue(item[header]))
+    );
+    return { headers, rows };
+  }
+
+  const rows = items.map((item) =>
+    Array.isArray(item) ? item.map(formatJsonValue) : [formatJsonValue(item)]
+  );
+  return { headers: [], rows };
+}
+
+/**
+ * Read a JSON array of rows
+ */
+const readJson: DatasourceReader = (content) => {
+  const data: unknown = JSON.parse(contentToText(content));
+  if (!Array.isArray(data)) {
+    throw new Error('JSON datasource must be an array of rows');
+  }
+  return tabulateJsonRows(data);
+};
+
+/**
+ * Read JSON Lines: one JSON row per line, blank lines skipped
+ */
+const readJsonLines: DatasourceReader = (content) => {
+  const items: unknown[] = [];
+  contentToText(content).split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      items.push(JSON.parse(line));
+    } catch (error) {
+      throw new Error(`line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+  return tabulateJsonRows(items);
+};
+
+/**
+ * Create an XLSX reader. Decompression is supplied by the host
+ * (e.g. zlib.inflateRawSync in Node) so shared code stays dependency-free.
+ */
+export function createXlsxReader(inflateRaw: InflateRaw): DatasourceReader {
+  return (content, opts) => {
+    if (typeof content === 'string') {
+      throw new Error('XLSX content must be binary');
+    }
+    const rows = readXlsxSheet(content, inflateRaw, opts.sheet);
+    return {
+      headers: [],
+      rows: opts.skipEmptyLines ? rows.filter((row) => row.some((cell) => cell !== '')) : rows,
+    };
+  };
+}
+
+/**
+ * Registered readers by format name
+ */
+const datasourceReaders = new Map<string, DatasourceReader>([
+  ['csv', readCsv],
+  ['json', readJson],
+  ['jsonl', readJsonLines],
+]);
+
+/**
+ * File extensions mapped to reader formats (anything else is read as CSV)
+ */
+const FORMAT_BY_EXTENSION: Record<string, string> = {
+  json: 'json',
+  jsonl: 'jsonl',
+  ndjson: 'jsonl',
+  xlsx: 'xlsx',
+};
+
+/**
+ * Register (or replace) the reader for a datasource format
+ */
+export function registerDatasourceReader(format: string, reader: DatasourceReader): void {
+  datasourceReaders.set(format.toLowerCase(), reader);
+}
+
+/**
+ * Get the reader registered for a format
+ */
+export function getDatasourceReader(format: string): DatasourceReader | undefined {
+  return datasourceReaders.get(format.toLowerCase());
+}
+
+/**
+ * Detect the datasource format from a file path's extension
+ */
+export function detectDatasourceFormat(filePath: string): string {
+  const match = filePath.match(/\.([A-Za-z0-9]+)$/);
+  return (match && FORMAT_BY_EXTENSION[match[1].toLowerCase()]) || 'csv';
+}
+
+/**
+ * Check whether a value is a file handle for streaming rather than content
+ */
+export function isDatasourceFile(value: unknown): value is DatasourceFile {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Uint8Array) &&
+    typeof (value as DatasourceFile).read === 'function'
+  );
+}
+
+/** Bytes sampled from a streamed file to auto-detect the delimiter */
+const DELIMITER_SAMPLE_SIZE = 64 * 1024;
+
 /**
  * CSV Datasource Manager
  *
@@ -99,59 +331,54 @@ export class DatasourceManager {
   private state: DatasourceState | null = null;
 
   /**
-   * Parse CSV content and load as datasource
+   * Parse datasource content and load it
    *
-   * @param content - The CSV file content as string
-   * @param filePath - The path to the file (for tracking purposes)
+   * @param content - The file content (text, or bytes for binary formats)
+   * @param filePath - The path to the file (for tracking and format detection)
    * @param options - Parsing options
    * @returns LoadResult indicating success/failure
    */
   loadFromContent(
-    content: string,
+    content: DatasourceContent,
     filePath: string = '',
     options: DatasourceOptions = {}
   ): LoadResult {
     const opts = { ...DEFAULT_OPTIONS, ...options };
+    const format = (options.format || detectDatasourceFormat(filePath)).toLowerCase();
+    const label = format.toUpperCase();
 
-    try {
-      // Build papaparse config
-      const config: ParseConfig = {
-        delimiter: opts.delimiter === 'auto' ? undefined : opts.delimiter,
-        quoteChar: opts.quoteChar,
-        escapeChar: opts.escapeChar,
-        skipEmptyLines: opts.skipEmptyLines,
-        comments: opts.commentChar || false,
+    const reader = getDatasourceReader(format);
+    if (!reader) {
+      return {
+        success: false,
+        error: `No datasource reader registered for ${label} files`,
       };
+    }
 
-      // Parse CSV
-      const result: ParseResult<string[]> = Papa.parse(content, config);
-
-      if (result.errors.length > 0) {
-        // Filter critical errors
-        const criticalErrors = result.errors.filter(
-          (e) => e.type === 'Quotes' || e.type === 'FieldMismatch'
-        );
-        if (criticalErrors.length > 0) {
-          return {
-            success: false,
-            error: `CSV parsing error: ${criticalErrors[0].message}`,
-          };
-        }
+    try {
+      let table: DatasourceTable;
+      try {
+        table = reader(content, opts);
+      } catch (error) {
+        return {
+          success: false,
+          error: `${label} parsing error: ${error instanceof Error ? error.message : String(error)}`,
+        };
       }
 
-      let rows = result.data as string[][];
-      let headers: string[] = [];
+      let rows = table.rows;
+      let headers = table.headers;
 
       // Handle empty result
       if (rows.length === 0) {
         return {
           success: false,
-          error: 'CSV file is empty or contains no valid data',
+          error: `${label} file is empty or contains no valid data`,
         };
       }
 
-      // Extract header row if specified
-      if (opts.hasHeader && rows.length > 0) {
+      // Extract header row if specified (formats with named columns already have headers)
+      if (opts.hasHeader && headers.length === 0) {
         headers = rows[0];
         rows = rows.slice(1);
       }
@@ -187,7 +414,7 @@ export class DatasourceManager {
         return row;
       });
 
-      this.state = {
+      const state: DatasourceState = {
         filePath,
         rows,
         headers,
@@ -195,18 +422,107 @@ export class DatasourceManager {
         columnCount,
         rowCount: rows.length,
         options: opts,
+        format,
       };
+      this.replaceState(state);
 
       return {
         success: true,
-        state: this.state,
+        state,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: `Failed to parse ${label}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  /**
+   * Stream a CSV file instead of loading it. Only a byte-offset index and a
+   * window of parsed rows are kept in memory; rows are read from the file as
+   * they are visited. The manager owns the file and closes it on unload.
+   *
+   * @param file - Random-access file supplied by the host
+   * @param filePath - The path to the file (for tracking and format detection)
+   * @param options - Parsing options
+   * @returns LoadResult indicating success/failure
+   */
+  loadFromFile(
+    file: DatasourceFile,
+    filePath: string = '',
+    options: DatasourceOptions = {}
+  ): LoadResult {
+    const opts = { ...DEFAULT_OPTIONS, ...options };
+    const format = (options.format || detectDatasourceFormat(filePath)).toLowerCase();
+
+    if (format !== 'csv') {
+      file.close?.();
+      return {
+        success: false,
+        error: `Streaming is only supported for CSV files, not ${format.toUpperCase()}`,
       };
+    }
+
+    let source: StreamingCsvSource;
+    try {
+      let delimiter: string = opts.delimiter;
+      if (delimiter === 'auto') {
+        const sample = file.read(0, Math.min(DELIMITER_SAMPLE_SIZE, file.size));
+        const text = file.decode ? file.decode(sample) : new TextDecoder().decode(sample);
+        // Guess the way readCsv does, from whole lines of the sample
+        delimiter = Papa.parse(text.substring(0, text.lastIndexOf('\n') + 1) || text, {
+          preview: 10,
+          quoteChar: opts.quoteChar,
+          escapeChar: opts.escapeChar,
+          skipEmptyLines: opts.skipEmptyLines,
+          comments: opts.commentChar || false,
+        }).meta.delimiter;
+      }
+      source = new StreamingCsvSource(file, { ...opts, delimiter });
     } catch (error) {
+      file.close?.();
       return {
         success: false,
-        error: `Failed to parse CSV: ${error instanceof Error ? error.message : String(error)}`,
+        error: `CSV parsing error: ${error instanceof Error ? error.message : String(error)}`,
       };
     }
+
+    const state: DatasourceState = {
+      filePath,
+      rows: [],
+      source,
+      headers: source.headers,
+      currentIndex: 0,
+      columnCount: source.columnCount,
+      rowCount: source.length,
+      options: opts,
+      format,
+    };
+    this.replaceState(state);
+
+    return {
+      success: true,
+      state,
+    };
+  }
+
+  /**
+   * Install a newly loaded datasource, releasing a streamed file being replaced
+   */
+  private replaceState(state: DatasourceState): void {
+    this.state?.source?.close();
+    this.state = state;
+  }
+
+  /**
+   * Get a data row by 0-based index from memory or the streamed file
+   */
+  private rowAt(index: number): string[] | undefined {
+    if (!this.state) {
+      return undefined;
+    }
+    return this.state.source ? this.state.source.getRow(index) : this.state.rows[index];
   }
 
   /**
@@ -245,7 +561,7 @@ export class DatasourceManager {
 
     return {
       success: true,
-      row: this.state.rows[this.state.currentIndex],
+      row: this.rowAt(this.state.currentIndex),
       lineNumber: this.state.currentIndex + 1,
     };
   }
@@ -347,7 +663,7 @@ export class DatasourceManager {
   }
 
   /**
-   * Get header names (if hasHeader was true)
+   * Get header names (JSON object keys, or the first row if hasHeader was true)
    */
   getHeaders(): string[] {
     return this.state?.headers ?? [];
@@ -422,9 +738,25 @@ export class DatasourceManager {
    * Unload the current datasource
    */
   unload(): void {
+    this.state?.source?.close();
     this.state = null;
   }
 
+  /**
+   * Check if the datasource is streamed from a file (see loadFromFile)
+   */
+  isStreaming(): boolean {
+    return !!this.state?.source;
+  }
+
+  /**
+   * Get the rows for dynamic !COL resolution without copying a streamed file
+   * into memory
+   */
+  getRowSource(): string[][] | DatasourceRowSource {
+    return this.state?.source ?? this.state?.rows ?? [];
+  }
+
   /**
    * Update a VariableContext with current row's column values
    * Sets !COL1 through !COL10 and datasource-related system variables
@@ -458,9 +790,14 @@ export class DatasourceManager {
   }
 
   /**
-   * Get all data as array of arrays
+   * Get all data as array of arrays. A streamed file is read in full, so
+   * prefer getRowSource for large datasources.
    */
   getAllRows(): string[][] {
+    if (this.state?.source) {
+      const source = this.state.source;
+      return Array.from({ length: source.length }, (_, i) => source.getRow(i) ?? []);
+    }
     return this.state?.rows ?? [];
   }
 
@@ -472,8 +809,8 @@ export class DatasourceManager {
       return;
     }
 
-    for (const row of this.state.rows) {
-      yield row;
+    for (let i = 0; i < this.state.rowCount; i++) {
+      yield this.rowAt(i) ?? [];
     }
   }
 }
@@ -0,0 +1,207 @@
+/**
+ * Ed25519 Signatures
+ *
+ * Self-contained Ed25519 (RFC 8032) used to sign macros, so signatures can be
+ * made and checked synchronously in the extension, the native host and tests
+ * without WebCrypto support for Ed25519. SHA-512 comes from ./hash.
+ *
+ * Keys and signatures are byte arrays: 32-byte seed (secret key), 32-byte
+ * public key, 64-byte signature.
+ */
+
+import { sha512 } from './hash';
+
+// ==================== Curve Arithmetic ====================
+
+/** Field prime 2^255 - 19 */
+const P = (1n << 255n) - 19n;
+/** Group order */
+const L = (1n << 252n) + 27742317777372353535851937790883648493n;
+
+function mod(a: bigint, m: bigint = P): bigint {
+  const r = a % m;
+  return r >= 0n ? r : r + m;
+}
+
+function powMod(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  base = mod(base);
+  while (exponent > 0n) {
+    if (exponent & 1n) result = mod(result * base);
+    base = mod(base * base);
+    exponent >>= 1n;
+  }
+  return result;
+}
+
+function invert(a: bigint): bigint {
+  return powMod(a, P - 2n);
+}
+
+/** Curve constant d = -121665/121666 */
+const D = mod(-121665n * invert(121666n));
+/** Square root of -1 */
+const SQRT_M1 = powMod(2n, (P - 1n) / 4n);
+
+/**
+ * Point in extended coordinates (x = X/Z, y = Y/Z, xy = T/Z)
+ */
+interface Point {
+  X: bigint;
+  Y: bigint;
+  Z: bigint;
+  T: bigint;
+}
+
+const IDENTITY: Point = { X: 0n, Y: 1n, Z: 1n, T: 0n };
+
+/**
+ * Add two points (complete formula, also used for doubling)
+ */
+function addPoints(p: Point, q: Point): Point {
+  const a = mod((p.Y - p.X) * (q.Y - q.X));
+  const b = mod((p.Y + p.X) * (q.Y + q.X));
+  const c = mod(p.T * 2n * D * q.T);
+  const d = mod(p.Z * 2n * q.Z);
+  const e = b - a;
+  const f = d - c;
+  const g = d + c;
+  const h = b + a;
+  return { X: mod(e * f), Y: mod(g * h), Z: mod(f * g), T: mod(e * h) };
+}
+
+function multiplyPoint(point: Point, scalar: bigint): Point {
+  let result = IDENTITY;
+  let addend = point;
+  while (scalar > 0n) {
+    if (scalar & 1n) result = addPoints(result, addend);
+    addend = addPoints(addend, addend);
+    scalar >>= 1n;
+  }
+  return result;
+}
+
+function bytesToNumber(bytes: Uint8Array): bigint {
+  let n = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    n = (n << 8n) | BigInt(bytes[i]);
+  }
+  return n;
+}
+
+function numberToBytes(n: bigint): Uint8Array {
+  const bytes = new Uint8Array(32);
+  for (let i = 0; i < 32; i++) {
+    bytes[i] = Number(n & 0xffn);
+    n >>= 8n;
+  }
+  return bytes;
+}
+
+/**
+ * Encode a point: y little-endian with the low bit of x in the top bit
+ */
+function encodePoint(point: Point): Uint8Array {
+  const zInv = invert(point.Z);
+  const x = mod(point.X * zInv);
+  const y = mod(point.Y * zInv);
+  const bytes = numberToBytes(y);
+  bytes[31] |= Number(x & 1n) << 7;
+  return bytes;
+}
+
+/**
+ * Decode a point, or null if the bytes are not a point on the curve
+ */
+function decodePoint(bytes: Uint8Array): Point | null {
+  if (bytes.length !== 32) return null;
+  const sign = BigInt(bytes[31] >> 7);
+  const copy = bytes.slice();
+  copy[31] &= 0x7f;
+  const y = bytesToNumber(copy);
+  if (y >= P) return null;
+
+  const y2 = mod(y * y);
+  const x2 = mod((y2 - 1n) * invert(D * y2 + 1n));
+  let x = powMod(x2, (P + 3n) / 8n);
+  if (mod(x * x - x2) !== 0n) {
+    x = mod(x * SQRT_M1);
+    if (mod(x * x - x2) !== 0n) return null;
+  }
+  if (x === 0n && sign === 1n) return null;
+  if ((x & 1n) !== sign) x = P - x;
+  return { X: x, Y: y, Z: 1n, T: mod(x * y) };
+}
+
+/** Base point (y = 4/5, x even) */
+const BASE = decodePoint(numberToBytes(mod(4n * invert(5n)))) as Point;
+
+function concatBytes(...parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((n, part) => n + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Expand a 32-byte seed into the secret scalar and the nonce prefix
+ */
+function expandSeed(seed: Uint8Array): { scalar: bigint; prefix: Uint8Array } {
+  if (seed.length !== 32) {
+    throw new Error('Ed25519 secret key must be 32 bytes');
+  }
+  const hash = sha512(seed);
+  const head = hash.slice(0, 32);
+  head[0] &= 248;
+  head[31] &= 127;
+  head[31] |= 64;
+  return { scalar: bytesToNumber(head), prefix: hash.slice(32) };
+}
+
+// ==================== Public API ====================
+
+/**
+ * Get the public key of a 32-byte secret key (seed)
+ */
+export function getPublicKey(secretKey: Uint8Array): Uint8Array {
+  return encodePoint(multiplyPoint(BASE, expandSeed(secretKey).scalar));
+}
+
+/**
+ * Create a random secret key
+ */
+export function createSecretKey(): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(32));
+}
+
+/**
+ * Sign a message, returning the 64-byte signature
+ */
+export function sign(message: Uint8Array, secretKey: Uint8Array): Uint8Array {
+  const { scalar, prefix } = expandSeed(secretKey);
+  const publicKey = encodePoint(multiplyPoint(BASE, scalar));
+  const r = mod(bytesToNumber(sha512(concatBytes(prefix, message))), L);
+  const R = encodePoint(multiplyPoint(BASE, r));
+  const k = mod(bytesToNumber(sha512(concatBytes(R, publicKey, message))), L);
+  const S = mod(r + k * scalar, L);
+  return concatBytes(R, numberToBytes(S));
+}
+
+/**
+ * Verify a signature of a message against a public key
+ */
+export function verify(signature: Uint8Array, message: Uint8Array, publicKey: Uint8Array): boolean {
+  if (signature.length !== 64 || publicKey.length !== 32) return false;
+  const A = decodePoint(publicKey);
+  const R = decodePoint(signature.slice(0, 32));
+  const S = bytesToNumber(signature.slice(32));
+  if (!A || !R || S >= L) return false;
+
+  const k = mod(bytesToNumber(sha512(concatBytes(signature.slice(0, 32), publicKey, message))), L);
+  const left = encodePoint(multiplyPoint(BASE, S));
+  const right = encodePoint(addPoints(R, multiplyPoint(A, k)));
+  return left.every((byte, i) => byte === right[i]);
+}
@@ -5,9 +5,15 @@
  * - Line-by-line execution with async support
  * - Variable expansion before command execution
  * - Loop management (LOOP counter, repeat until done)
+ * - Conditionals and jumps (IF/ELSE, WHILE, GOTO/LABEL)
+ * - Sub-macro calls (CALL/RETURN) on nested executors
+ * - Scoped error handling (TRY/CATCH/ENDTRY, RETRY, ON_ERROR)
  * - Error handling with iMacros error codes
  * - Progress reporting callbacks
  * - Pause/resume/stop functionality
+ * - Breakpoints, step over and run to cursor for the editor debugger
+ * - Vault secrets ({{!SECRET:name.field}}) masked in logs, progress and results
+ * - TOTP codes ({{!TOTP:name}}) that stay valid long enough to be submitted
  * - Command handler registration for extensibility
  */
 
@@ -17,6 +23,11 @@ import {
   ParsedLine,
   parseMacro,
   CommandType,
+  ControlFlowMap,
+  TryBlock,
+  analyzeControlFlow,
+  getCommandArguments,
+  getLabelName,
 } from './parser';
 import {
   VariableContext,
@@ -24,13 +35,17 @@ import {
   executeSet,
   executeSetAsync,
   executeAdd,
+  evaluateCondition,
   NativeEvalCallback,
+  FOLDER_VARS,
+  TIMEOUT_VARS,
 } from './variables';
 import {
   StateManager,
   ErrorCode,
   ExecutionStatus,
   createStateManager,
+  type ExtractRecord,
 } from './state-manager';
 import {
   type StopwatchRecord,
@@ -40,6 +55,30 @@ import {
   buildStopwatchCsv,
   buildProfilerCsv,
 } from './commands/system';
+import { waitForRequestHandler } from './commands/network';
+import {
+  captureFailureArtifacts,
+  formatLogEntry,
+  FAILURE_LOG_ENTRIES,
+  type FailureArtifacts,
+} from './failure-artifacts';
+import {
+  checkBreakpoint,
+  type DebugAction,
+  type DebugPauseCallback,
+  type DebugPauseReason,
+  type MacroBreakpoint,
+} from './macro-debugger';
+import type { SecretResolver } from './secrets';
+import { findTotpVariables } from './totp';
+import { isDatasourceFile, type DatasourceContent, type DatasourceManager } from './datasource';
+import type { DatasourceFile } from './datasource-stream';
+import type { BrowserBridge } from './commands/navigation';
+import type { ContentScriptSender } from './commands/interaction';
+import type { BrowserCommandBridge } from './commands/browser';
+import type { DialogBridge } from './commands/dialogs';
+import type { DownloadBridge } from './commands/downloads';
+import type { FileBridge } from './commands/files';
 
 // ===== Error Codes =====
 
@@ -96,6 +135,7 @@ export const IMACROS_ERROR_CODES = {
   // Loop errors (-99x)
   LOOP_LIMIT: -990,
   LOOP_ERROR: -991,
+  CALL_DEPTH_EXCEEDED: -992,
   // Dialog errors (-145x)
   UNHANDLED_DIALOG: -1450,
   // User actions (-10x)
@@ -147,16 +187,30 @@ export interface MacroResult {
   executionTimeMs: number;
   /** Extracted data */
   extractData: string[];
+  /** Extract records, one per loop, keyed by AS=<field> (EXTRACT1, EXTRACT2, ... when unnamed) */
+  extractRecords?: ExtractRecord[];
   /** Final variable values */
   variables: Record<string, VariableValue>;
   /** Stopwatch records collected during execution (for CSV output / performance API) */
   stopwatchRecords?: StopwatchRecord[];
   /** Profiler records collected during execution (per-command timing for CSV output) */
   profilerRecords?: ProfilerRecord[];
+  /** Screenshot, frame HTML and log saved on a fatal error (see failureArtifactsFolder) */
+  failureArtifacts?: FailureArtifacts;
 }
 
 // ===== Progress Reporting =====
 
+/**
+ * One macro on the CALL stack
+ */
+export interface CallFrame {
+  /** Macro name/path */
+  macroName: string;
+  /** Line currently executing in that macro (1-based) */
+  line: number;
+}
+
 /**
  * Progress information reported during execution
  */
@@ -177,6 +231,8 @@ export interface ProgressInfo {
   percentComplete: number;
   /** Elapsed time in milliseconds */
   elapsedTimeMs: number;
+  /** CALL stack from the top-level macro down to the one reporting (only set inside a CALL) */
+  callStack?: CallFrame[];
 }
 
 /**
@@ -209,6 +265,32 @@ export interface CommandContext {
   expand: (text: string) => string;
   /** Log a message */
   log: (level: 'info' | 'warn' | 'error' | 'debug', message: string) => void;
+  /** Bridges of this execution (unset ones fall back to the module-level bridges) */
+  bridges?: ExecutionBridges;
+}
+
+/**
+ * Bridges and datasource owned by one execution.
+ *
+ * Commands use these instead of the module-level bridges (setBrowserBridge,
+ * setContentScriptSender, ...) and the shared datasource manager, so several
+ * executors can drive different tabs at the same time.
+ */
+export interface ExecutionBridges {
+  /** Navigation and tab commands (URL GOTO, TAB, FRAME, ...) */
+  browser?: BrowserBridge;
+  /** Content script commands (TAG, CLICK, EVENT, SEARCH) */
+  contentScript?: ContentScriptSender;
+  /** Browser commands (CLEAR, FILTER, NETCAPTURE, COOKIES, ...) */
+  browserCommand?: BrowserCommandBridge;
+  /** Dialog configuration (ONDIALOG, ONLOGIN, ...) */
+  dialog?: DialogBridge;
+  /** Download commands (ONDOWNLOAD, SAVEAS, ...) */
+  download?: DownloadBridge;
+  /** File commands (FILEDELETE, ...) */
+  file?: FileBridge;
+  /** Datasource loaded by SET !DATASOURCE and read by DS */
+  datasourceManager?: DatasourceManager;
 }
 
 /**
@@ -227,6 +309,26 @@ const defaultCommandHandler: CommandHandler = async (ctx) => {
   };
 };
 
+/**
+ * Whether a parameter was written as a bare word (no `=value`)
+ */
+function isFlagParameter(param: ParsedCommand['parameters'][number]): boolean {
+  return param.value === 'true' && param.rawValue === param.key;
+}
+
+/**
+ * Error handling mode set by ON_ERROR (STOP is the default behavior)
+ */
+type OnErrorMode =
+  | { action: 'STOP' }
+  | { action: 'CONTINUE' }
+  | { action: 'GOTO'; label: string };
+
+/**
+ * Default base delay between RETRY attempts (doubled on each attempt)
+ */
+const DEFAULT_RETRY_BACKOFF_MS = 1000;
+
 // ===== Executor Options =====
 
 /**
@@ -255,14 +357,47 @@ export interface ExecutorOptions {
   commandDelayMs?: number;
   /** Whether to run in single-step mode */
   singleStep?: boolean;
-  /** Callback to load datasource content when !DATASOURCE is set via SET command */
-  onDatasourceLoad?: (path: string) => Promise<string> | string;
+  /**
+   * Callback to load datasource content when !DATASOURCE is set via SET command
+   * (bytes for binary formats like XLSX, or a file handle to stream a large CSV)
+   */
+  onDatasourceLoad?: (path: string) => Promise<DatasourceContent | DatasourceFile> | DatasourceContent | DatasourceFile;
   /** Callback for native JavaScript evaluation (used when expr-eval cannot handle the expression) */
   onNativeEval?: NativeEvalCallback;
   /** Callback to append text to a file (for stopwatch CSV output). Required for CSV functionality. */
   onFileAppend?: (filePath: string, content: string) => Promise<void> | void;
+  /** Callback to load a sub-macro's source for CALL. Receives the path resolved against !FOLDER_MACROS. */
+  onMacroLoad?: (path: string) => Promise<string> | string;
+  /** Maximum CALL nesting depth (default: 16) */
+  maxCallDepth?: number;
+  /** Frames of the macros that CALLed this one (set on nested executors) */
+  callStack?: CallFrame[];
+  /** Per-execution bridges and datasource (default: the module-level ones) */
+  bridges?: ExecutionBridges;
+  /**
+   * Folder in which a timestamped folder of failure artifacts (full-page screenshot,
+   * current frame HTML, last log entries) is saved on a fatal error. Requires onFileAppend.
+   */
+  failureArtifactsFolder?: string;
+  /** Breakpoints on source lines (only checked when onDebugPause is set) */
+  breakpoints?: MacroBreakpoint[];
+  /** Debugger callback; enables breakpoints, step over and run to cursor (see debug()) */
+  onDebugPause?: DebugPauseCallback;
+  /** Resolver for {{!SECRET:name.field}} (the credential vault); without one secrets fail */
+  secretResolver?: SecretResolver;
+  /**
+   * Leave the cleanup callbacks to the caller instead of running them after
+   * every execute() (see runCleanup). The worker pool uses this so one row
+   * does not clear FILTER, HEADER or MOCK rules the other workers still need.
+   */
+  deferCleanup?: boolean;
 }
 
+/**
+ * Default maximum CALL nesting depth
+ */
+const DEFAULT_MAX_CALL_DEPTH = 16;
+
 // ===== Macro Executor Class =====
 
 /**
@@ -278,6 +413,8 @@ export interface ExecutorOptions {
 export class MacroExecutor {
   /** Parsed macro to execute */
   private macro: ParsedMacro | null = null;
+  /** Block structure of IF/WHILE/GOTO commands in the loaded macro */
+  private controlFlow: ControlFlowMap = analyzeControlFlow([]).map;
   /** State manager for tracking execution */
   private state: StateManager;
   /** Command handlers registry */
@@ -303,7 +440,7 @@ export class MacroExecutor {
   /** Saved initial variables for re-application after reset */
   private initialVariables: Record<string, VariableValue> | undefined;
   /** Callback to load datasource content when !DATASOURCE is set */
-  private onDatasourceLoad?: (path: string) => Promise<string> | string;
+  private onDatasourceLoad?: (path: string) => Promise<DatasourceContent | DatasourceFile> | DatasourceContent | DatasourceFile;
   /** Callback for native JavaScript evaluation */
   private onNativeEval?: NativeEvalCallback;
   /** Callback for file append (stopwatch CSV output) */
@@ -312,8 +449,46 @@ export class MacroExecutor {
   private profilerRecords: ProfilerRecord[] = [];
   /** Cleanup callbacks to run when macro execution ends (all exit paths) */
   private cleanupCallbacks: CleanupCallback[] = [];
+  /** Whether the caller runs the cleanup callbacks (ExecutorOptions.deferCleanup) */
+  private deferCleanup: boolean;
   /** Pending async error (e.g., download timeout) checked between commands */
   private pendingError: CommandResult | null = null;
+  /** Callback to load sub-macro source for CALL */
+  private onMacroLoad?: (path: string) => Promise<string> | string;
+  /** Maximum CALL nesting depth */
+  private maxCallDepth: number;
+  /** Frames of the macros that CALLed this one */
+  private callStack: CallFrame[];
+  /** Nested executor running the current CALL, if any */
+  private activeChild: MacroExecutor | null = null;
+  /** Set when a CALL failed inside a callee, whose message already names the failing file and line */
+  private nestedCallFailed = false;
+  /** Handlers registered by the constructor (not copied to nested executors) */
+  private builtinHandlers: Map<CommandType, CommandHandler>;
+  /** Values passed back to the caller by RETURN */
+  private returnValues: Record<string, VariableValue> = {};
+  /** Error handling mode set by ON_ERROR */
+  private onErrorMode: OnErrorMode = { action: 'STOP' };
+  /** Error most recently caught by a TRY block or ON_ERROR (re-raised by RETRY) */
+  private caughtError: CommandResult | null = null;
+  /** RETRY attempts made so far, keyed by TRY command index */
+  private retryAttempts: Map<number, number> = new Map();
+  /** Per-execution bridges and datasource */
+  private bridges: ExecutionBridges;
+  /** Folder for failure artifacts (unset: none are saved) */
+  private failureArtifactsFolder?: string;
+  /** Last log entries, saved with the failure artifacts */
+  private recentLogs: string[] = [];
+  /** Breakpoints keyed by source line */
+  private breakpoints: Map<number, MacroBreakpoint> = new Map();
+  /** Debugger callback (unset: not debugging) */
+  private onDebugPause?: DebugPauseCallback;
+  /** Pause before the next command (step over) */
+  private debugStepping: boolean = false;
+  /** Source line to pause on (run to cursor) */
+  private runToLine: number | null = null;
+  /** Resolver for vault secrets, passed on to CALLed macros */
+  private secretResolver?: SecretResolver;
 
   constructor(options: ExecutorOptions = {}) {
     this.state = createStateManager({
@@ -330,9 +505,20 @@ export class MacroExecutor {
     this.onDatasourceLoad = options.onDatasourceLoad;
     this.onNativeEval = options.onNativeEval;
     this.onFileAppend = options.onFileAppend;
+    this.onMacroLoad = options.onMacroLoad;
+    this.maxCallDepth = options.maxCallDepth ?? DEFAULT_MAX_CALL_DEPTH;
+    this.callStack = options.callStack ?? [];
+    this.bridges = options.bridges ?? {};
+    this.failureArtifactsFolder = options.failureArtifactsFolder;
+    this.onDebugPause = options.onDebugPause;
+    this.setBreakpoints(options.breakpoints ?? []);
+    this.secretResolver = options.secretResolver;
+    this.state.getVariables().setSecretResolver(options.secretResolver ?? null);
+    this.deferCleanup = options.deferCleanup ?? false;
 
     // Register built-in command handlers
     this.registerBuiltinHandlers();
+    this.builtinHandlers = new Map(this.handlers);
   }
 
   // ===== Handler Registration =====
@@ -434,17 +620,26 @@ export class MacroExecutor {
         try {
           const content = await this.onDatasourceLoad(String(result.newValue));
           if (content) {
-            const { loadDatasourceFromContent, getDatasourceManager } = await import(
+            const { ensureDatasourceManager } = await import(
               './commands/datasource-handler'
             );
-            loadDatasourceFromContent(content, String(result.newValue));
+            const manager = this.bridges.datasourceManager ?? ensureDatasourceManager();
+            const sheet = ctx.variables.get('!DATASOURCE_SHEET');
+            const options = {
+              hasHeader: String(ctx.variables.get('!DATASOURCE_HEADER')).toUpperCase() === 'YES',
+              sheet: sheet === null || sheet === '' ? undefined : sheet,
+            };
+            const loaded = isDatasourceFile(content)
+              ? manager.loadFromFile(content, String(result.newValue), options)
+              : manager.loadFromContent(content, String(result.newValue), options);
 
             // Set raw rows on VariableContext for dynamic !COL resolution
             // This enables original iMacros behavior where {{!COL1}} reads
             // directly from datasource based on !DATASOURCE_LINE
-            const manager = getDatasourceManager();
-            if (manager) {
-              ctx.variables.setDatasourceRows(manager.getAllRows());
+            if (loaded.success) {
+              ctx.variables.setDatasourceRows(manager.getRowSource(), manager.getHeaders());
+            } else {
+              ctx.log('warn', `Failed to load datasource: ${loaded.error}`);
             }
           }
         } catch (e) {
@@ -472,6 +667,19 @@ export class MacroExecutor {
         }
       }
 
+      // If !USERAGENT was set, override the User-Agent request header
+      if (varName.toUpperCase() === '!USERAGENT') {
+        const { applyUserAgent } = await import('./commands/headers');
+        const userAgentResponse = await applyUserAgent(String(result.newValue ?? ''), ctx);
+        if (!userAgentResponse.success) {
+          return {
+            success: false,
+            errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+            errorMessage: userAgentResponse.error || 'Failed to set user agent',
+          };
+        }
+      }
+
       ctx.log('debug', `SET ${varName} = ${result.newValue}`);
       return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
     });
@@ -505,6 +713,11 @@ export class MacroExecutor {
 
     // WAIT command - wait for specified seconds
     this.registerHandler('WAIT', async (ctx) => {
+      // WAIT FOR=REQUEST URL=pattern waits for a captured request instead
+      if (ctx.getParam('FOR') !== undefined) {
+        return waitForRequestHandler(ctx);
+      }
+
       const secondsStr = ctx.getRequiredParam('SECONDS');
       const seconds = parseFloat(ctx.expand(secondsStr));
 
@@ -541,6 +754,447 @@ export class MacroExecutor {
       ctx.log('debug', 'CLEAR command (no-op in executor)');
       return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
     });
+
+    // IF command - evaluate the IF/ELSEIF chain and jump to the first branch that applies
+    this.registerHandler('IF', async (ctx) => {
+      const commands = this.macro?.commands ?? [];
+      let branch = commands.indexOf(ctx.command);
+
+      while (this.controlFlow.blockEnd.has(branch)) {
+        const current = commands[branch];
+        if (current.type === 'ELSE') {
+          return this.jumpToCommand(branch + 1);
+        }
+
+        const condition = evaluateCondition(getCommandArguments(current), ctx.variables);
+        if (!condition.success) {
+          return this.conditionError(current, condition.error);
+        }
+        if (condition.value) {
+          ctx.log('debug', `${current.type} condition true on line ${current.lineNumber}`);
+          return this.jumpToCommand(branch + 1);
+        }
+
+        const next = this.controlFlow.nextBranch.get(branch);
+        if (next === undefined) break;
+        if (commands[next].type === 'ENDIF') {
+          return this.jumpToCommand(next + 1);
+        }
+        branch = next;
+      }
+
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+        errorMessage: 'IF has no matching ENDIF',
+      };
+    });
+
+    // ELSEIF/ELSE are only reached by falling out of a branch that ran,
+    // so they skip to the end of the block
+    const skipToEndIf: CommandHandler = async (ctx) => {
+      const index = this.macro?.commands.indexOf(ctx.command) ?? -1;
+      const end = this.controlFlow.blockEnd.get(index);
+      if (end === undefined) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+          errorMessage: `${ctx.command.type} without matching IF`,
+        };
+      }
+      return this.jumpToCommand(end + 1);
+    };
+    this.registerHandler('ELSEIF', skipToEndIf);
+    this.registerHandler('ELSE', skipToEndIf);
+
+    // ENDIF and LABEL only mark positions
+    this.registerHandler('ENDIF', async () => {
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+    this.registerHandler('LABEL', async () => {
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+
+    // WHILE command - run the body while the condition holds
+    this.registerHandler('WHILE', async (ctx) => {
+      const index = this.macro?.commands.indexOf(ctx.command) ?? -1;
+      const end = this.controlFlow.loopPairs.get(index);
+      if (end === undefined) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+          errorMessage: 'WHILE has no matching ENDWHILE',
+        };
+      }
+
+      const condition = evaluateCondition(getCommandArguments(ctx.command), ctx.variables);
+      if (!condition.success) {
+        return this.conditionError(ctx.command, condition.error);
+      }
+      if (condition.value) {
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      }
+      ctx.log('debug', `WHILE condition false on line ${ctx.command.lineNumber}, leaving loop`);
+      return this.jumpToCommand(end + 1);
+    });
+
+    // ENDWHILE command - go back to the WHILE to re-check its condition
+    this.registerHandler('ENDWHILE', async (ctx) => {
+      const index = this.macro?.commands.indexOf(ctx.command) ?? -1;
+      const start = this.controlFlow.loopPairs.get(index);
+      if (start === undefined) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+          errorMessage: 'ENDWHILE without matching WHILE',
+        };
+      }
+      return this.jumpToCommand(start);
+    });
+
+    // GOTO command - jump to a LABEL (the label name may contain variables)
+    this.registerHandler('GOTO', async (ctx) => {
+      const name = ctx.expand(getLabelName(ctx.command));
+      const target = this.controlFlow.labels.get(name.toUpperCase());
+      if (target === undefined) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+          errorMessage: `GOTO target label not found: ${name}`,
+        };
+      }
+      ctx.log('debug', `GOTO ${name}`);
+      return this.jumpToCommand(target);
+    });
+
+    this.registerErrorHandlingHandlers();
+
+    // CALL command - run another macro on a nested executor
+    this.registerHandler('CALL', async (ctx) => this.callMacro(ctx));
+
+    // RETURN command - end this macro, handing NAME=value pairs back to the caller
+    this.registerHandler('RETURN', async (ctx) => {
+      for (const param of ctx.command.parameters) {
+        if (isFlagParameter(param)) continue;
+        this.returnValues[param.key] = ctx.expand(param.value);
+      }
+      ctx.log('debug', 'RETURN');
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK, stopExecution: true };
+    });
+  }
+
+  /**
+   * Register TRY/CATCH/ENDTRY, RETRY and ON_ERROR.
+   *
+   * Errors are routed to these handlers by handleError(); the commands
+   * themselves only move between the sections of a block.
+   */
+  private registerErrorHandlingHandlers(): void {
+    // TRY command - start of a protected block; a fresh entry resets its RETRY count
+    this.registerHandler('TRY', async (ctx) => {
+      const commands = this.macro?.commands ?? [];
+      const index = commands.indexOf(ctx.command);
+      if (!this.controlFlow.tryBlocks.has(index)) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+          errorMessage: 'TRY has no matching ENDTRY',
+        };
+      }
+      this.retryAttempts.delete(index);
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+
+    // CATCH command - reached only when the TRY section succeeded, so skip the handler
+    this.registerHandler('CATCH', async (ctx) => {
+      const commands = this.macro?.commands ?? [];
+      const index = commands.indexOf(ctx.command);
+      for (const block of this.controlFlow.tryBlocks.values()) {
+        if (block.catchIndex === index) {
+          return this.jumpToCommand(block.end + 1);
+        }
+      }
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+        errorMessage: 'CATCH without matching TRY',
+      };
+    });
+
+    // ENDTRY command - end of block marker
+    this.registerHandler('ENDTRY', async () => {
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+
+    // RETRY n [BACKOFF=ms] - re-run the TRY section after a growing delay,
+    // re-raising the caught error once n retries have failed
+    this.registerHandler('RETRY', async (ctx) => {
+      const commands = this.macro?.commands ?? [];
+      const index = commands.indexOf(ctx.command);
+      const block = this.findTryBlock(index, 'catch');
+      if (!block) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.SYNTAX_ERROR,
+          errorMessage: 'RETRY outside of a CATCH block',
+        };
+      }
+
+      const countText = ctx.expand(ctx.command.parameters[0]?.key ?? '');
+      const maxRetries = parseInt(countText, 10);
+      const backoffText = ctx.getParam('BACKOFF');
+      const backoffMs = backoffText !== undefined ? parseInt(ctx.expand(backoffText), 10) : DEFAULT_RETRY_BACKOFF_MS;
+      if (isNaN(maxRetries) || maxRetries < 0 || isNaN(backoffMs) || backoffMs < 0) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+          errorMessage: `Invalid RETRY parameters: ${getCommandArguments(ctx.command)}`,
+        };
+      }
+
+      const attempts = this.retryAttempts.get(block.start) ?? 0;
+      if (attempts >= maxRetries) {
+        const caught = this.caughtError;
+        return {
+          success: false,
+          errorCode: caught?.errorCode ?? IMACROS_ERROR_CODES.UNKNOWN_ERROR,
+          errorMessage: `${caught?.errorMessage || 'Error'} (gave up after ${maxRetries} ${maxRetries === 1 ? 'retry' : 'retries'})`,
+        };
+      }
+
+      this.retryAttempts.set(block.start, attempts + 1);
+      const waitMs = backoffMs * Math.pow(2, attempts);
+      ctx.log('info', `RETRY ${attempts + 1}/${maxRetries} in ${waitMs}ms`);
+      await this.delay(waitMs);
+      return this.jumpToCommand(block.start + 1);
+    });
+
+    // ON_ERROR GOTO=<label> | CONTINUE | STOP - error handling for the lines that follow
+    this.registerHandler('ON_ERROR', async (ctx) => {
+      const label = ctx.getParam('GOTO');
+      const keys = ctx.command.parameters.map(p => p.key.toUpperCase());
+      if (label !== undefined) {
+        this.onErrorMode = { action: 'GOTO', label: ctx.expand(label) };
+      } else if (keys.includes('CONTINUE')) {
+        this.onErrorMode = { action: 'CONTINUE' };
+      } else if (keys.includes('STOP')) {
+        this.onErrorMode = { action: 'STOP' };
+      } else {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+          errorMessage: 'ON_ERROR command requires GOTO=<label>, CONTINUE or STOP',
+        };
+      }
+      ctx.log('debug', `ON_ERROR ${this.onErrorMode.action}`);
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+  }
+
+  /**
+   * Find the innermost TRY block whose TRY section (or CATCH section)
+   * contains the given command index
+   */
+  private findTryBlock(index: number, section: 'try' | 'catch'): TryBlock | undefined {
+    let found: TryBlock | undefined;
+    for (const block of this.controlFlow.tryBlocks.values()) {
+      const inSection = section === 'try'
+        ? index > block.start && index < (block.catchIndex ?? block.end)
+        : block.catchIndex !== undefined && index > block.catchIndex && index < block.end;
+      if (inSection && (!found || block.start > found.start)) {
+        found = block;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Route a failed command to the enclosing TRY block or the ON_ERROR handler.
+   *
+   * Sets !ERR_CODE, !ERR_MESSAGE and !ERR_LINE and returns the 0-based index
+   * of the command to continue with, or undefined when the error is not
+   * handled here (and falls through to !ERRORIGNORE / !ERRORLOOP / abort).
+   */
+  private handleError(result: CommandResult, commandIndex: number): number | undefined {
+    let target: number | undefined;
+    const block = this.findTryBlock(commandIndex, 'try');
+    if (block) {
+      target = (block.catchIndex ?? block.end) + 1;
+    } else if (this.onErrorMode.action === 'CONTINUE') {
+      target = commandIndex + 1;
+    } else if (this.onErrorMode.action === 'GOTO') {
+      target = this.controlFlow.labels.get(this.onErrorMode.label.toUpperCase());
+      if (target === undefined) {
+        this.log('warn', `ON_ERROR target label not found: ${this.onErrorMode.label}`);
+      }
+    }
+    if (target === undefined) {
+      return undefined;
+    }
+
+    const line = this.applyLineNumberDelta(commandIndex + 1);
+    this.caughtError = result;
+    this.state.setVariable('!ERR_CODE', result.errorCode);
+    this.state.setVariable('!ERR_MESSAGE', result.errorMessage || getErrorMessage(result.errorCode));
+    this.state.setVariable('!ERR_LINE', line);
+    this.log('warn', `Error on line ${line} handled by ${block ? 'TRY' : 'ON_ERROR'}: ${result.errorMessage}`);
+    return target;
+  }
+
+  /**
+   * Execute CALL MACRO=<file> [<name>=<value> ...]
+   *
+   * The callee runs on a nested executor that shares this executor's
+   * command handlers (and therefore its browser bridges) but has its own
+   * variables: it starts from the folder and timeout settings plus the named
+   * arguments. Values passed to RETURN are set in the caller's variables and
+   * the callee's extracted data is appended to the caller's !EXTRACT.
+   * FILTER, HEADER, MOCK or PROXY set by the callee stay in effect: its
+   * cleanup callbacks run with this executor's.
+   */
+  private async callMacro(ctx: CommandContext): Promise<CommandResult> {
+    const macroParam = ctx.getParam('MACRO');
+    if (!macroParam) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.MISSING_PARAMETER,
+        errorMessage: 'CALL command requires MACRO parameter',
+      };
+    }
+    if (!this.onMacroLoad) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.UNSUPPORTED_COMMAND,
+        errorMessage: 'CALL is not available: no macro loader configured',
+      };
+    }
+
+    const callerFrame: CallFrame = {
+      macroName: this.state.getMacroName() || 'Macro',
+      line: this.applyLineNumberDelta(this.state.getCurrentLine()),
+    };
+    if (this.callStack.length + 1 > this.maxCallDepth) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.CALL_DEPTH_EXCEEDED,
+        errorMessage: `CALL depth limit (${this.maxCallDepth}) exceeded`,
+      };
+    }
+
+    // Resolve the macro path: default to .iim, relative paths are under !FOLDER_MACROS
+    let macroPath = ctx.expand(macroParam).trim();
+    if (!/\.[^./\\]+$/.test(macroPath)) {
+      macroPath += '.iim';
+    }
+    const folder = String(ctx.variables.get('!FOLDER_MACROS') || '');
+    const isAbsolute = /^([/\\]|[a-zA-Z]:[/\\])/.test(macroPath);
+    if (!isAbsolute && folder) {
+      macroPath = folder.replace(/[/\\]$/, '') + '/' + macroPath;
+    }
+
+    // Named arguments become variables of the callee
+    const initialVariables: Record<string, VariableValue> = {};
+    for (const name of [...FOLDER_VARS, ...TIMEOUT_VARS]) {
+      initialVariables[name] = ctx.variables.get(name);
+    }
+    for (const param of ctx.command.parameters) {
+      if (param.key.toUpperCase() === 'MACRO') continue;
+      if (isFlagParameter(param)) {
+        return {
+          success: false,
+          errorCode: IMACROS_ERROR_CODES.INVALID_PARAMETER,
+          errorMessage: `CALL arguments must be NAME=value pairs, got: ${param.key}`,
+        };
+      }
+      initialVariables[param.key] = ctx.expand(param.value);
+    }
+
+    let source: string;
+    try {
+      source = await this.onMacroLoad(macroPath);
+    } catch (e) {
+      return {
+        success: false,
+        errorCode: IMACROS_ERROR_CODES.FILE_NOT_FOUND,
+        errorMessage: `Failed to load macro ${macroPath}: ${(e as Error).message}`,
+      };
+    }
+
+    const child = new MacroExecutor({
+      macroName: macroPath,
+      maxLoops: 1,
+      initialVariables,
+      onProgress: this.onProgress,
+      // Through this executor's log, so the failure log includes the CALLed macro's entries
+      onLog: (level, message) => this.log(level, message),
+      commandDelayMs: this.commandDelayMs,
+      singleStep: this.singleStep,
+      onDatasourceLoad: this.onDatasourceLoad,
+      onNativeEval: this.onNativeEval,
+      onFileAppend: this.onFileAppend,
+      onMacroLoad: this.onMacroLoad,
+      maxCallDepth: this.maxCallDepth,
+      callStack: [...this.callStack, callerFrame],
+      bridges: this.bridges,
+      secretResolver: this.secretResolver,
+      deferCleanup: true,
+    });
+    for (const [type, handler] of this.handlers) {
+      if (this.builtinHandlers.get(type) !== handler) {
+        child.registerHandler(type, handler);
+      }
+    }
+
+    ctx.log('info', `CALL ${macroPath}`);
+    child.loadMacro(source);
+    this.activeChild = child;
+    let result: MacroResult;
+    try {
+      result = await child.execute();
+    } finally {
+      this.activeChild = null;
+      if (child.cleanupCallbacks.length > 0) {
+        this.registerCleanup(() => child.runCleanup());
+      }
+    }
+
+    if (!result.success) {
+      const message = result.errorMessage || getErrorMessage(result.errorCode);
+      this.nestedCallFailed = true;
+      return {
+        success: false,
+        errorCode: result.errorCode,
+        // Name the innermost failing macro only, not every CALL on the way
+        errorMessage: child.nestedCallFailed ? message : `${macroPath} line ${result.errorLine ?? '?'}: ${message}`,
+      };
+    }
+
+    for (const [name, value] of Object.entries(child.returnValues)) {
+      ctx.variables.set(name, value);
+    }
+    for (const data of result.extractData) {
+      ctx.state.addExtract(data);
+    }
+    ctx.log('info', `Returned from ${macroPath}`);
+    return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+  }
+
+  /**
+   * Build a successful result that continues execution at a command index (0-based)
+   */
+  private jumpToCommand(index: number): CommandResult {
+    return { success: true, errorCode: IMACROS_ERROR_CODES.OK, jumpToLine: index + 1 };
+  }
+
+  /**
+   * Build the error result for a condition that could not be evaluated
+   */
+  private conditionError(command: ParsedCommand, error?: string): CommandResult {
+    return {
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+      errorMessage: `Invalid ${command.type} condition on line ${command.lineNumber}: ${error || 'evaluation failed'}`,
+    };
   }
 
   // ===== Macro Loading =====
@@ -550,6 +1204,7 @@ export class MacroExecutor {
    */
   loadMacro(script: string, validate: boolean = true): ParsedMacro {
     this.macro = parseMacro(script, validate);
+    this.controlFlow = analyzeControlFlow(this.macro.commands).map;
     this.state.setTotalLines(this.macro.commands.length);
 
     if (this.macro.errors.length > 0 && validate) {
@@ -592,8 +1247,15 @@ export class MacroExecutor {
     this.abortFlag = false;
     this.pauseFlag = false;
     this.pendingError = null;
+    this.returnValues = {};
+    this.onErrorMode = { action: 'STOP' };
+    this.caughtError = null;
+    this.retryAttempts.clear();
     clearStopwatchRecords();
     this.profilerRecords = [];
+    this.recentLogs = [];
+    this.debugStepping = false;
+    this.runToLine = null;
 
     // Re-apply initial variables after reset (reset wipes all variables)
     if (this.initialVariables) {
@@ -625,6 +1287,11 @@ export class MacroExecutor {
           if (this.pendingError) {
             const pendingResult = this.pendingError;
             this.pendingError = null;
+            const handlerIndex = this.handleError(pendingResult, commandIndex);
+            if (handlerIndex !== undefined) {
+              commandIndex = handlerIndex;
+              continue;
+            }
             if (this.errorIgnore || this.state.getVariable('!ERRORIGNORE') === 'YES') {
               this.log('warn', `Async error ignored: ${pendingResult.errorMessage}`);
             } else {
@@ -632,6 +1299,7 @@ export class MacroExecutor {
               macroResult = this.buildResult(false, pendingResult.errorCode, pendingResult.errorMessage, commandIndex + 1);
               await this.writeStopwatchCsv(macroResult);
               await this.writeProfilerCsv(macroResult);
+              await this.saveFailureArtifacts(macroResult);
               return macroResult;
             }
           }
@@ -648,6 +1316,12 @@ export class MacroExecutor {
             if (this.abortFlag) break;
           }
 
+          // Debugger: breakpoints, step over and run to cursor
+          if (this.onDebugPause) {
+            await this.checkDebugPause(commands[commandIndex]);
+            if (this.abortFlag) break;
+          }
+
           const command = commands[commandIndex];
           this.state.setCurrentLine(commandIndex + 1);
 
@@ -679,8 +1353,13 @@ export class MacroExecutor {
             await this.delay(this.commandDelayMs);
           }
 
-          // Handle result
+          // Handle result: TRY blocks and ON_ERROR take precedence over !ERRORIGNORE and !ERRORLOOP
           if (!result.success) {
+            const handlerIndex = this.handleError(result, commandIndex);
+            if (handlerIndex !== undefined) {
+              commandIndex = handlerIndex;
+              continue;
+            }
             if (this.errorIgnore || this.state.getVariable('!ERRORIGNORE') === 'YES') {
               this.log('warn', `Error ignored on line ${this.applyLineNumberDelta(commandIndex + 1)}: ${result.errorMessage}`);
             } else {
@@ -695,6 +1374,7 @@ export class MacroExecutor {
               macroResult = this.buildResult(false, result.errorCode, result.errorMessage, commandIndex + 1);
               await this.writeStopwatchCsv(macroResult);
               await this.writeProfilerCsv(macroResult);
+              await this.saveFailureArtifacts(macroResult);
               return macroResult;
             }
           }
@@ -714,7 +1394,13 @@ export class MacroExecutor {
           }
 
           if (result.jumpToLine !== undefined) {
-            commandIndex = result.jumpToLine - 1; // Convert to 0-based
+            const target = result.jumpToLine - 1; // Convert to 0-based
+            // Backward jumps (WHILE, GOTO) yield to the event loop so that a
+            // loop made only of in-memory commands can still be stopped
+            if (target <= commandIndex) {
+              await new Promise<void>((resolve) => setTimeout(resolve, 0));
+            }
+            commandIndex = target;
             continue;
           }
 
@@ -746,10 +1432,13 @@ export class MacroExecutor {
       macroResult = this.buildResult(false, IMACROS_ERROR_CODES.SCRIPT_ERROR, message);
       await this.writeStopwatchCsv(macroResult);
       await this.writeProfilerCsv(macroResult);
+      await this.saveFailureArtifacts(macroResult);
       return macroResult;
     } finally {
       // Run cleanup callbacks (restore proxy, popup settings, etc.)
-      await this.runCleanup();
+      if (!this.deferCleanup) {
+        await this.runCleanup();
+      }
     }
   }
 
@@ -781,10 +1470,12 @@ export class MacroExecutor {
         return result.expanded;
       },
       log: (level, message) => this.log(level, message),
+      bridges: this.bridges,
     };
 
     try {
       this.log('debug', `Executing: ${command.raw}`);
+      await this.waitForFreshTotp(command);
       return await handler(context);
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
@@ -801,6 +1492,7 @@ export class MacroExecutor {
    * Pause execution
    */
   pause(): void {
+    this.activeChild?.pause();
     if (this.state.getStatus() === ExecutionStatus.RUNNING) {
       this.pauseFlag = true;
       this.state.pause();
@@ -812,6 +1504,7 @@ export class MacroExecutor {
    * Resume execution
    */
   resume(): void {
+    this.activeChild?.resume();
     if (this.state.getStatus() === ExecutionStatus.PAUSED || this.pauseFlag) {
       this.pauseFlag = false;
       this.state.resume();
@@ -827,6 +1520,7 @@ export class MacroExecutor {
    * Stop execution
    */
   stop(): void {
+    this.activeChild?.stop();
     this.abortFlag = true;
     this.pauseFlag = false;
     this.state.abort();
@@ -848,6 +1542,42 @@ export class MacroExecutor {
    * Execute single step (for single-step mode)
    */
   step(): void {
+    this.activeChild?.step();
+    if (this.stepResolver) {
+      this.stepResolver();
+      this.stepResolver = null;
+    }
+  }
+
+  /**
+   * Replace the breakpoints (can be called while the macro runs)
+   */
+  setBreakpoints(breakpoints: MacroBreakpoint[]): void {
+    this.breakpoints = new Map(breakpoints.map(bp => [bp.line, bp]));
+  }
+
+  /**
+   * Apply a debugger action. continue, step and run_to_line release a
+   * debugger pause; a CALL runs as a single step.
+   */
+  debug(action: DebugAction): void {
+    switch (action.action) {
+      case 'set_breakpoints':
+        this.setBreakpoints(action.breakpoints);
+        return;
+      case 'continue':
+        this.debugStepping = false;
+        this.runToLine = null;
+        break;
+      case 'step':
+        this.debugStepping = true;
+        this.runToLine = null;
+        break;
+      case 'run_to_line':
+        this.debugStepping = false;
+        this.runToLine = action.line;
+        break;
+    }
     if (this.stepResolver) {
       this.stepResolver();
       this.stepResolver = null;
@@ -870,6 +1600,13 @@ export class MacroExecutor {
     this.state.setVariable('!ERRORIGNORE', enabled ? 'YES' : 'NO');
   }
 
+  /**
+   * Set the variables applied at the start of each execution
+   */
+  setInitialVariables(variables: Record<string, VariableValue> | undefined): void {
+    this.initialVariables = variables;
+  }
+
   // ===== State Access =====
 
   /**
@@ -890,6 +1627,9 @@ export class MacroExecutor {
    * Get current progress info
    */
   getProgress(): ProgressInfo {
+    if (this.activeChild) {
+      return this.activeChild.getProgress();
+    }
     return {
       currentLine: this.applyLineNumberDelta(this.state.getCurrentLine()),
       totalLines: this.state.getTotalLines(),
@@ -898,28 +1638,19 @@ export class MacroExecutor {
       status: this.state.getStatus(),
       percentComplete: this.calculatePercentComplete(),
       elapsedTimeMs: this.state.getExecutionTimeMs(),
+      callStack: this.buildCallStack(),
     };
   }
 
-  // ===== Private Helpers =====
-
   /**
    * Run all registered cleanup callbacks.
    * Creates a synthetic CommandContext for cleanup operations.
+   * Called by execute() unless the executor was created with deferCleanup.
    */
-  private async runCleanup(): Promise<void> {
+  async runCleanup(): Promise<void> {
     if (this.cleanupCallbacks.length === 0) return;
 
-    const variables = this.state.getVariables();
-    const cleanupCtx: CommandContext = {
-      command: { type: 'SET' as CommandType, parameters: [], raw: '', lineNumber: 0, variables: [] },
-      variables,
-      state: this.state,
-      getParam: () => undefined,
-      getRequiredParam: () => { throw new Error('No parameters in cleanup context'); },
-      expand: (text: string) => variables.expand(text).expanded,
-      log: (level, message) => this.log(level, message),
-    };
+    const cleanupCtx = this.createSyntheticContext();
 
     for (const callback of this.cleanupCallbacks) {
       try {
@@ -931,6 +1662,26 @@ export class MacroExecutor {
     }
   }
 
+  // ===== Private Helpers =====
+
+  /**
+   * Create a CommandContext without a command, for sending browser commands
+   * outside of a macro line (cleanup, failure artifacts)
+   */
+  private createSyntheticContext(): CommandContext {
+    const variables = this.state.getVariables();
+    return {
+      command: { type: 'SET' as CommandType, parameters: [], raw: '', lineNumber: 0, variables: [] },
+      variables,
+      state: this.state,
+      getParam: () => undefined,
+      getRequiredParam: () => { throw new Error('No parameters in synthetic context'); },
+      expand: (text: string) => variables.expand(text).expanded,
+      log: (level, message) => this.log(level, message),
+      bridges: this.bridges,
+    };
+  }
+
   /**
    * Apply !LINENUMBER_DELTA to a line number for user-visible output.
    * Returns the adjusted line number (original + delta).
@@ -941,6 +1692,44 @@ export class MacroExecutor {
     return line + numDelta;
   }
 
+  /**
+   * Pause before a command if a step, the run to cursor line or a breakpoint
+   * says so, report the line and variables, and wait for a debugger action
+   */
+  private async checkDebugPause(command: ParsedCommand): Promise<void> {
+    const line = command.lineNumber;
+    let reason: DebugPauseReason | undefined;
+    if (this.debugStepping) {
+      reason = 'step';
+    } else if (this.runToLine === line) {
+      reason = 'cursor';
+    } else {
+      const breakpoint = this.breakpoints.get(line);
+      if (breakpoint) {
+        const check = checkBreakpoint(breakpoint, this.state.getVariables());
+        if (check.error) {
+          this.log('warn', `Invalid breakpoint condition on line ${line}: ${check.error}`);
+        }
+        if (check.hit) {
+          reason = 'breakpoint';
+        }
+      }
+    }
+    if (!reason) return;
+
+    this.debugStepping = false;
+    this.runToLine = null;
+    this.log('info', `Paused on line ${line} (${reason})`);
+    this.onDebugPause?.({
+      line,
+      command: command.raw,
+      reason,
+      variables: this.maskVariables(this.state.getAllVariables()),
+    });
+    await this.waitForStep();
+    this.state.resume();
+  }
+
   /**
    * Wait for resume after pause
    */
@@ -977,6 +1766,35 @@ export class MacroExecutor {
     }
   }
 
+  /**
+   * Before a command that uses {{!TOTP:...}}, wait for the next code when the
+   * current one expires within !TOTP_MIN_VALIDITY seconds, so the site does
+   * not get a code that expires while the form is submitted
+   */
+  private async waitForFreshTotp(command: ParsedCommand): Promise<void> {
+    const names = findTotpVariables(command.raw);
+    if (names.length === 0) {
+      return;
+    }
+    const variables = this.state.getVariables();
+    const minValidityMs = Number(variables.get('!TOTP_MIN_VALIDITY')) * 1000;
+    if (!(minValidityMs > 0)) {
+      return;
+    }
+
+    let remainingMs: number;
+    try {
+      remainingMs = Math.min(...names.map(name => variables.getTotpTimeRemaining(name)));
+    } catch {
+      // Expanding the variable reports why the code is not available
+      return;
+    }
+    if (remainingMs < minValidityMs) {
+      this.log('info', `Waiting ${(remainingMs / 1000).toFixed(1)}s for the next TOTP code`);
+      await this.delay(remainingMs);
+    }
+  }
+
   /**
    * Delay with countdown updates emitted every second boundary.
    * Used by the built-in WAIT handler for live countdown display.
@@ -1027,18 +1845,76 @@ export class MacroExecutor {
         totalLines: this.state.getTotalLines(),
         currentLoop: this.state.getLoopCounter(),
         maxLoops: this.state.getMaxLoops(),
-        currentCommand,
+        currentCommand: currentCommand && this.maskCommand(currentCommand),
         status: this.state.getStatus(),
         percentComplete: this.calculatePercentComplete(),
         elapsedTimeMs: this.state.getExecutionTimeMs(),
+        callStack: this.buildCallStack(),
       });
     }
   }
 
   /**
-   * Log a message
+   * Build the CALL stack for progress reports, ending with this macro's frame.
+   * Returns undefined for a top-level macro.
+   */
+  private buildCallStack(): CallFrame[] | undefined {
+    if (this.callStack.length === 0) return undefined;
+    return [
+      ...this.callStack,
+      {
+        macroName: this.state.getMacroName() || 'Macro',
+        line: this.applyLineNumberDelta(this.state.getCurrentLine()),
+      },
+    ];
+  }
+
+  /**
+   * Replace the vault secrets and current TOTP codes resolved so far with a mask
+   */
+  private maskSecrets(text: string): string {
+    return this.state.getVariables().maskSecrets(text, true);
+  }
+
+  /**
+   * Mask secrets in variable values (a secret SET into a variable)
+   */
+  private maskVariables(variables: Record<string, VariableValue>): Record<string, VariableValue> {
+    const masked: Record<string, VariableValue> = {};
+    for (const [name, value] of Object.entries(variables)) {
+      masked[name] = typeof value === 'string' ? this.maskSecrets(value) : value;
+    }
+    return masked;
+  }
+
+  /**
+   * Mask secrets in a command reported with progress
+   */
+  private maskCommand(command: ParsedCommand): ParsedCommand {
+    const raw = this.maskSecrets(command.raw);
+    if (raw === command.raw && !command.parameters.some(p => this.maskSecrets(p.value) !== p.value)) {
+      return command;
+    }
+    return {
+      ...command,
+      raw,
+      parameters: command.parameters.map(p => ({
+        ...p,
+        value: this.maskSecrets(p.value),
+        rawValue: this.maskSecrets(p.rawValue),
+      })),
+    };
+  }
+
+  /**
+   * Log a message (with vault secrets masked)
    */
   private log(level: 'info' | 'warn' | 'error' | 'debug', message: string): void {
+    message = this.maskSecrets(message);
+    this.recentLogs.push(formatLogEntry(level, message));
+    if (this.recentLogs.length > FAILURE_LOG_ENTRIES) {
+      this.recentLogs.shift();
+    }
     if (this.onLog) {
       this.onLog(level, message);
     }
@@ -1113,6 +1989,23 @@ export class MacroExecutor {
     }
   }
 
+  /**
+   * Save the failure artifacts if a folder is configured and reference them in the result
+   */
+  private async saveFailureArtifacts(result: MacroResult): Promise<void> {
+    if (!this.failureArtifactsFolder || !this.onFileAppend) return;
+
+    const onFileAppend = this.onFileAppend;
+    result.failureArtifacts = await captureFailureArtifacts(this.createSyntheticContext(), {
+      baseFolder: this.failureArtifactsFolder,
+      macroName: this.state.getMacroName() || 'Macro',
+      result,
+      logEntries: [...this.recentLogs],
+      writeFile: (filePath, content) => onFileAppend(filePath, content),
+    });
+    this.log('info', `Failure artifacts saved to ${result.failureArtifacts.folder}`);
+  }
+
   /**
    * Build the final macro result
    */
@@ -1126,12 +2019,13 @@ export class MacroExecutor {
     return {
       success,
       errorCode,
-      errorMessage,
+      errorMessage: errorMessage !== undefined ? this.maskSecrets(errorMessage) : undefined,
       errorLine: errorLine !== undefined ? this.applyLineNumberDelta(errorLine) : undefined,
       loopsCompleted: this.state.getLoopCounter(),
       executionTimeMs: this.state.getExecutionTimeMs(),
       extractData: this.state.getExtractData(),
-      variables: this.state.getAllVariables(),
+      extractRecords: this.state.getExtractRecords(),
+      variables: this.maskVariables(this.state.getAllVariables()),
       stopwatchRecords: records.length > 0 ? records : undefined,
       profilerRecords: this.profilerRecords.length > 0 ? [...this.profilerRecords] : undefined,
     };
@@ -1204,6 +2098,7 @@ export function getErrorMessage(code: IMacrosErrorCode): string {
     [IMACROS_ERROR_CODES.DATASOURCE_END]: 'End of datasource',
     [IMACROS_ERROR_CODES.LOOP_LIMIT]: 'Loop limit reached',
     [IMACROS_ERROR_CODES.LOOP_ERROR]: 'Loop error',
+    [IMACROS_ERROR_CODES.CALL_DEPTH_EXCEEDED]: 'CALL depth limit exceeded',
     [IMACROS_ERROR_CODES.USER_ABORT]: 'Aborted by user',
     [IMACROS_ERROR_CODES.USER_PAUSE]: 'Paused by user',
     [IMACROS_ERROR_CODES.UNHANDLED_DIALOG]: 'Unhandled dialog',
@@ -99,6 +99,8 @@ export interface EvaluatorOptions {
   allowLogical?: boolean;
   /** Maximum expression length (default: 10000) */
   maxLength?: number;
+  /** Compare a number and a numeric string as numbers in == and != (default: false) */
+  looseEquality?: boolean;
 }
 
 const DEFAULT_OPTIONS: Required<EvaluatorOptions> = {
@@ -106,8 +108,24 @@ const DEFAULT_OPTIONS: Required<EvaluatorOptions> = {
   allowComparisons: true,
   allowLogical: true,
   maxLength: 10000,
+  looseEquality: false,
 };
 
+/**
+ * == that compares a number with a numeric string as numbers (12 == "12",
+ * 7 == "007") and everything else strictly
+ */
+function looseEqual(a: unknown, b: unknown): boolean {
+  const isNumeric = (value: unknown) => typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value);
+  if (typeof a === 'number' && isNumeric(b)) {
+    return a === parseFloat(b as string);
+  }
+  if (typeof b === 'number' && isNumeric(a)) {
+    return b === parseFloat(a as string);
+  }
+  return a === b;
+}
+
 /**
  * Create a configured parser with custom functions
  */
@@ -289,6 +307,11 @@ export class ExpressionEvaluator {
   constructor(options?: EvaluatorOptions) {
     this.options = { ...DEFAULT_OPTIONS, ...options };
     this.parser = createParser();
+    if (this.options.looseEquality) {
+      const binaryOps = (this.parser as unknown as { binaryOps: Record<string, (a: unknown, b: unknown) => unknown> }).binaryOps;
+      binaryOps['=='] = looseEqual;
+      binaryOps['!='] = (a, b) => !looseEqual(a, b);
+    }
   }
 
   /**
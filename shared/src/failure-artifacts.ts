@@ -0,0 +1,149 @@
+/**
+ * iMacros Failure Artifacts
+ *
+ * When a macro stops on a fatal error, the executor can save what the page
+ * looked like into a timestamped folder, e.g.
+ * <pathLogs>/20260314_030502_checkout/:
+ * - screenshot.png - full-page screenshot (SCREENSHOT TYPE=PAGE bridge)
+ * - page.html      - serialized HTML of the current frame
+ * - log.txt        - the last FAILURE_LOG_ENTRIES log entries
+ *
+ * Each artifact is captured separately: one that fails is logged and left out.
+ */
+
+import type { CommandContext, MacroResult } from './executor';
+import { sendBrowserCommandMessage } from './commands/browser';
+import { getContentScriptSender, type TagCommandMessage } from './commands/interaction';
+
+/**
+ * Log entries kept for the failure log
+ */
+export const FAILURE_LOG_ENTRIES = 50;
+
+/**
+ * How long to wait for the current frame's HTML (ms)
+ */
+const FRAME_HTML_TIMEOUT_MS = 5000;
+
+/**
+ * Paths of the artifacts saved for a failed run
+ */
+export interface FailureArtifacts {
+  /** Folder holding the artifacts */
+  folder: string;
+  /** Full-page screenshot */
+  screenshot?: string;
+  /** Serialized HTML of the current frame */
+  html?: string;
+  /** Last log entries before the failure */
+  log?: string;
+}
+
+/**
+ * Options for captureFailureArtifacts
+ */
+export interface CaptureFailureArtifactsOptions {
+  /** Folder the timestamped artifact folder is created in (pathLogs) */
+  baseFolder: string;
+  /** Macro name/path */
+  macroName: string;
+  /** The failed result */
+  result: MacroResult;
+  /** Recent log entries (see formatLogEntry) */
+  logEntries: string[];
+  /** Write a text file; the folder may not exist yet */
+  writeFile: (filePath: string, content: string) => Promise<void> | void;
+  /** Time of the failure (default: now) */
+  time?: Date;
+}
+
+/**
+ * Format a log entry for the failure log
+ */
+export function formatLogEntry(level: string, message: string, time: Date = new Date()): string {
+  return `${time.toISOString()} [${level.toUpperCase()}] ${message}`;
+}
+
+/**
+ * Timestamped artifact folder for a failure: <baseFolder>/YYYYMMDD_HHMMSS_<macro>
+ */
+export function getFailureArtifactFolder(baseFolder: string, macroName: string, time: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const stamp = `${time.getFullYear()}${pad(time.getMonth() + 1)}${pad(time.getDate())}`
+    + `_${pad(time.getHours())}${pad(time.getMinutes())}${pad(time.getSeconds())}`;
+  const name = macroName.replace(/^.*[/\\]/, '').replace(/\.[^.]+$/, '').replace(/[^\w.-]+/g, '_') || 'Macro';
+  return `${baseFolder.replace(/[/\\]$/, '')}/${stamp}_${name}`;
+}
+
+/**
+ * Get the serialized HTML of the current frame (TAG TYPE=HTML EXTRACT=HTM)
+ */
+async function getFrameHtml(ctx: CommandContext): Promise<string> {
+  const message: TagCommandMessage = {
+    id: `failure_${Date.now()}`,
+    type: 'TAG_COMMAND',
+    timestamp: Date.now(),
+    payload: {
+      selector: { type: 'HTML', pos: 1 },
+      action: { extract: 'HTM' },
+      timeout: FRAME_HTML_TIMEOUT_MS,
+      waitVisible: false,
+    },
+  };
+  const response = await (ctx.bridges?.contentScript ?? getContentScriptSender()).sendMessage(message);
+  if (!response.success || !response.extractedData) {
+    throw new Error(response.error || 'No HTML returned');
+  }
+  return response.extractedData;
+}
+
+/**
+ * Save the failure artifacts of a run. Returns the paths of the saved ones.
+ */
+export async function captureFailureArtifacts(
+  ctx: CommandContext,
+  options: CaptureFailureArtifactsOptions
+): Promise<FailureArtifacts> {
+  const { result } = options;
+  const folder = getFailureArtifactFolder(options.baseFolder, options.macroName, options.time ?? new Date());
+  const artifacts: FailureArtifacts = { folder };
+
+  try {
+    const response = await sendBrowserCommandMessage(
+      { type: 'screenshot', captureType: 'PAGE', format: 'png', folder, file: 'screenshot.png' },
+      ctx
+    );
+    if (!response.success) {
+      throw new Error(response.error || 'Screenshot failed');
+    }
+    if (response.data?.screenshotPath) {
+      artifacts.screenshot = response.data.screenshotPath;
+    }
+  } catch (e) {
+    ctx.log('warn', `Failure screenshot not saved: ${(e as Error).message}`);
+  }
+
+  try {
+    const html = await getFrameHtml(ctx);
+    await options.writeFile(`${folder}/page.html`, html);
+    artifacts.html = `${folder}/page.html`;
+  } catch (e) {
+    ctx.log('warn', `Failure page HTML not saved: ${(e as Error).message}`);
+  }
+
+  const header = [
+    `Macro: ${options.macroName}`,
+    `Error: ${result.errorMessage || 'Error'} (${result.errorCode})`,
+    `Line: ${result.errorLine ?? '-'}`,
+    '',
+  ];
+  try {
+    await options.writeFile(`${folder}/log.txt`, [...header, ...options.logEntries].join('\n') + '\n');
+    artifacts.log = `${folder}/log.txt`;
+  } catch (e) {
+    ctx.log('warn', `Failure log not saved: ${(e as Error).message}`);
+  }
+
+  return artifacts;
+}
+
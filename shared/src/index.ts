@@ -17,12 +17,30 @@ export * from './state-manager';
 // Re-export datasource module
 export * from './datasource';
 
+// Re-export streaming datasource module
+export * from './datasource-stream';
+
+// Re-export XLSX reader/writer module
+export * from './xlsx';
+
 // Re-export encryption module
 export * from './encryption';
 
 // Re-export executor module
 export * from './executor';
 
+// Re-export worker pool module
+export * from './worker-pool';
+
+// Re-export run history module
+export * from './run-report';
+
+// Re-export failure artifacts module
+export * from './failure-artifacts';
+
+// Re-export macro debugger module
+export * from './macro-debugger';
+
 // Re-export command handlers
 export * from './commands';
 
@@ -32,6 +50,15 @@ export * from './settings';
 // Re-export security module
 export * from './security';
 
+// Re-export macro signature module
+export * from './macro-signature';
+
+// Re-export secrets module
+export * from './secrets';
+
+// Re-export TOTP module
+export * from './totp';
+
 /**
  * Message types for native messaging protocol
  */
@@ -45,9 +72,11 @@ export type RequestMessageType =
   | 'load_macro'
   | 'save_macro'
   | 'play_macro'
+  | 'play_macro_parallel'
   | 'stop_macro'
   | 'pause_macro'
   | 'resume_macro'
+  | 'debug_command'
   | 'settings_update'
   | 'browse_folder'
   | 'get_settings'
@@ -58,7 +87,17 @@ export type RequestMessageType =
   | 'delete_file'
   | 'move_file'
   | 'save_screenshot'
-  | 'save_page';
+  | 'save_page'
+  | 'get_run_history'
+  | 'get_run_report'
+  | 'clear_run_history'
+  | 'vault_status'
+  | 'vault_unlock'
+  | 'vault_lock'
+  | 'vault_list'
+  | 'vault_save'
+  | 'vault_set_expiry'
+  | 'vault_delete';
 
 export type ResponseMessageType =
   | 'pong'
@@ -67,10 +106,12 @@ export type ResponseMessageType =
   | 'ready'
   | 'STATUS_UPDATE'
   | 'MACRO_PROGRESS'
+  | 'WORKER_PROGRESS'
   | 'MACRO_COMPLETE'
   | 'MACRO_ERROR'
   | 'MACRO_PAUSED'
   | 'MACRO_RESUMED'
+  | 'MACRO_DEBUG_PAUSED'
   | 'RECORDING_LINE'
   | 'RECORDING_SAVED'
   | 'browser_command';
@@ -0,0 +1,89 @@
+/**
+ * iMacros Macro Debugger
+ *
+ * Breakpoint and stepping types for debugging .iim macros. The executor
+ * checks the breakpoints before each command and, when one hits, pauses
+ * and reports the line and all variables through onDebugPause until it is
+ * told to continue, step over or run to a line.
+ *
+ * Lines are source lines of the macro (as shown in the editor), not command
+ * indexes. Conditions use the IF/WHILE expression syntax, e.g.
+ * {{!LOOP}} > 3 && {{!EXTRACT}} == "Done"
+ */
+
+import { evaluateCondition, type VariableContext, type VariableValue } from './variables';
+
+/**
+ * A breakpoint on a macro line
+ */
+export interface MacroBreakpoint {
+  /** Source line (1-based) */
+  line: number;
+  /** Expression that must be true for the breakpoint to hit */
+  condition?: string;
+}
+
+/**
+ * Why execution paused
+ * - breakpoint: a breakpoint hit
+ * - step: the command after a step over
+ * - cursor: the line passed to run to cursor
+ */
+export type DebugPauseReason = 'breakpoint' | 'step' | 'cursor';
+
+/**
+ * Reported each time the debugger pauses, before the command runs
+ */
+export interface DebugPauseInfo {
+  /** Source line of the next command */
+  line: number;
+  /** The next command as written */
+  command: string;
+  reason: DebugPauseReason;
+  /** All variables at the pause (StateManager.getAllVariables()) */
+  variables: Record<string, VariableValue>;
+}
+
+/**
+ * Debug pause callback type
+ */
+export type DebugPauseCallback = (info: DebugPauseInfo) => void;
+
+/**
+ * Debugger actions sent to a paused executor
+ * - continue: run to the next breakpoint
+ * - step: run one command and pause again
+ * - run_to_line: run to `line` (breakpoints on the way still hit)
+ * - set_breakpoints: replace the breakpoints (also while running)
+ */
+export type DebugAction =
+  | { action: 'continue' }
+  | { action: 'step' }
+  | { action: 'run_to_line'; line: number }
+  | { action: 'set_breakpoints'; breakpoints: MacroBreakpoint[] };
+
+/**
+ * Result of checking a breakpoint condition
+ */
+export interface BreakpointCheck {
+  hit: boolean;
+  /** Set when the condition could not be evaluated (the breakpoint hits) */
+  error?: string;
+}
+
+/**
+ * Check whether a breakpoint hits. A breakpoint without a condition always
+ * hits; one whose condition cannot be evaluated hits too, so a typo does not
+ * silently run past it.
+ */
+export function checkBreakpoint(breakpoint: MacroBreakpoint, context: VariableContext): BreakpointCheck {
+  const condition = breakpoint.condition?.trim();
+  if (!condition) {
+    return { hit: true };
+  }
+  const result = evaluateCondition(condition, context);
+  if (!result.success) {
+    return { hit: true, error: result.error || 'evaluation failed' };
+  }
+  return { hit: result.value };
+}
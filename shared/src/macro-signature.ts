@@ -0,0 +1,221 @@
+/**
+ * iMacros Macro Signatures
+ *
+ * Signs macros with a publisher's Ed25519 key so a shared macro can prove who
+ * wrote it and that it was not changed afterwards. The signature is a block
+ * of comment lines, so signed macros still run anywhere:
+ *
+ *   ' #SIGNATURE-BEGIN
+ *   ' Publisher: Jane Doe
+ *   ' Key: <base64 public key>
+ *   ' Signature: <base64 signature>
+ *   ' #SIGNATURE-END
+ *
+ * The signature covers the publisher name and every other line of the macro
+ * (line endings are normalized to \n, so CRLF files verify too).
+ */
+
+import { getPublicKey, sign, verify, createSecretKey } from './ed25519';
+import { byteArrayToBase64, base64ToByteArray } from './encryption';
+
+/**
+ * Signature block markers
+ */
+export const SIGNATURE_BEGIN = "' #SIGNATURE-BEGIN";
+export const SIGNATURE_END = "' #SIGNATURE-END";
+
+/**
+ * Prefix of the signed data, so a signature cannot be reused for another format
+ */
+const SIGNED_DATA_PREFIX = 'iMacros-Signature-1';
+
+/**
+ * A publisher's signing key, kept locally by the editor
+ */
+export interface MacroSigningKey {
+  /** Publisher name written into signatures */
+  publisher: string;
+  /** Public key (base64) */
+  publicKey: string;
+  /** Secret key (base64) - never leaves the browser profile */
+  secretKey: string;
+  /** When the key was created */
+  createdAt: number;
+}
+
+/**
+ * Parsed signature block
+ */
+export interface MacroSignatureBlock {
+  publisher: string;
+  /** Public key (base64) */
+  publicKey: string;
+  /** Signature (base64) */
+  signature: string;
+  /** The macro without the signature block */
+  body: string;
+}
+
+/**
+ * Signature status
+ * - unsigned: no signature block
+ * - valid: the signature matches the macro
+ * - invalid: the block is malformed or the macro was changed after signing
+ */
+export type MacroSignatureStatus = 'unsigned' | 'valid' | 'invalid';
+
+/**
+ * Result of verifying a macro's signature
+ */
+export interface MacroSignatureCheck {
+  status: MacroSignatureStatus;
+  /** Publisher named in the signature */
+  publisher?: string;
+  /** Public key (base64) that signed the macro */
+  publicKey?: string;
+  /** Why the signature is invalid */
+  error?: string;
+}
+
+/**
+ * Normalize line endings
+ */
+function normalizeLines(content: string): string {
+  return content.replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Build the bytes that are signed
+ */
+function getSignedData(publisher: string, body: string): Uint8Array {
+  return new TextEncoder().encode(`${SIGNED_DATA_PREFIX}\n${publisher}\n${normalizeLines(body)}`);
+}
+
+/**
+ * Remove the signature block from a macro
+ */
+export function stripSignatureBlock(content: string): string {
+  const lines = normalizeLines(content).split('\n');
+  const begin = lines.findIndex(line => line.trim() === SIGNATURE_BEGIN);
+  if (begin === -1) {
+    return content;
+  }
+  const end = lines.findIndex((line, i) => i > begin && line.trim() === SIGNATURE_END);
+  if (end === -1) {
+    return content;
+  }
+  lines.splice(begin, end - begin + 1);
+  return lines.join('\n');
+}
+
+/**
+ * Find and parse the signature block of a macro.
+ * Returns null for an unsigned macro; throws for a malformed block.
+ */
+export function parseSignatureBlock(content: string): MacroSignatureBlock | null {
+  const lines = normalizeLines(content).split('\n');
+  const begin = lines.findIndex(line => line.trim() === SIGNATURE_BEGIN);
+  if (begin === -1) {
+    return null;
+  }
+  const end = lines.findIndex((line, i) => i > begin && line.trim() === SIGNATURE_END);
+  if (end === -1) {
+    throw new Error('Signature block is not closed');
+  }
+
+  const fields: Record<string, string> = {};
+  for (const line of lines.slice(begin + 1, end)) {
+    const match = line.trim().match(/^'\s*(Publisher|Key|Signature):\s*(.*)$/);
+    if (!match) {
+      throw new Error(`Unexpected line in signature block: ${line.trim()}`);
+    }
+    fields[match[1]] = match[2].trim();
+  }
+  if (!fields.Publisher || !fields.Key || !fields.Signature) {
+    throw new Error('Signature block needs Publisher, Key and Signature');
+  }
+
+  lines.splice(begin, end - begin + 1);
+  return {
+    publisher: fields.Publisher,
+    publicKey: fields.Key,
+    signature: fields.Signature,
+    body: lines.join('\n'),
+  };
+}
+
+/**
+ * Create a signing key for a publisher
+ */
+export function createSigningKey(publisher: string): MacroSigningKey {
+  const name = publisher.trim();
+  if (!name) {
+    throw new Error('Publisher name is required');
+  }
+  const secretKey = createSecretKey();
+  return {
+    publisher: name,
+    publicKey: byteArrayToBase64(Array.from(getPublicKey(secretKey))),
+    secretKey: byteArrayToBase64(Array.from(secretKey)),
+    createdAt: Date.now(),
+  };
+}
+
+/**
+ * Sign a macro, replacing any existing signature. The block is put at the top.
+ */
+export function signMacro(content: string, key: MacroSigningKey): string {
+  const body = normalizeLines(stripSignatureBlock(content));
+  const secretKey = new Uint8Array(base64ToByteArray(key.secretKey));
+  const signature = sign(getSignedData(key.publisher, body), secretKey);
+
+  return [
+    SIGNATURE_BEGIN,
+    `' Publisher: ${key.publisher}`,
+    `' Key: ${byteArrayToBase64(Array.from(getPublicKey(secretKey)))}`,
+    `' Signature: ${byteArrayToBase64(Array.from(signature))}`,
+    SIGNATURE_END,
+    body,
+  ].join('\n');
+}
+
+/**
+ * Verify a macro's signature
+ */
+export function verifyMacroSignature(content: string): MacroSignatureCheck {
+  let block: MacroSignatureBlock | null;
+  try {
+    block = parseSignatureBlock(content);
+  } catch (error) {
+    return { status: 'invalid', error: error instanceof Error ? error.message : String(error) };
+  }
+  if (!block) {
+    return { status: 'unsigned' };
+  }
+
+  const { publisher, publicKey } = block;
+  let valid = false;
+  try {
+    valid = verify(
+      new Uint8Array(base64ToByteArray(block.signature)),
+      getSignedData(publisher, block.body),
+      new Uint8Array(base64ToByteArray(publicKey))
+    );
+  } catch {
+    valid = false;
+  }
+
+  if (!valid) {
+    return { status: 'invalid', publisher, publicKey, error: 'Macro was modified after it was signed' };
+  }
+  return { status: 'valid', publisher, publicKey };
+}
+
+/**
+ * Short fingerprint of a public key for display, e.g. "1A2B 3C4D 5E6F 7A8B"
+ */
+export function getKeyFingerprint(publicKey: string): string {
+  const bytes = base64ToByteArray(publicKey).slice(0, 8);
+  const hex = bytes.map(b => b.toString(16).padStart(2, '0')).join('').toUpperCase();
+  return hex.match(/.{1,4}/g)?.join(' ') ?? '';
+}
@@ -6,7 +6,9 @@
  * - Navigation: URL, TAB, FRAME, BACK, REFRESH
  * - Interaction: TAG, CLICK, EVENT
  * - Data: SET, EXTRACT, SAVEAS, PROMPT
- * - Control: WAIT, PAUSE, STOPWATCH
+ * - Control: WAIT, PAUSE, STOPWATCH, IF/ELSEIF/ELSE/ENDIF, WHILE/ENDWHILE, GOTO/LABEL
+ * - Sub-macros: CALL, RETURN
+ * - Error handling: TRY/CATCH/ENDTRY, RETRY, ON_ERROR
  * - Files: ONDOWNLOAD, FILTER, ONDIALOG
  * - Meta: VERSION, CLEAR
  */
@@ -41,6 +43,24 @@ export type CommandType =
   | 'WAIT'
   | 'PAUSE'
   | 'STOPWATCH'
+  // Conditionals and loops
+  | 'IF'
+  | 'ELSEIF'
+  | 'ELSE'
+  | 'ENDIF'
+  | 'WHILE'
+  | 'ENDWHILE'
+  | 'GOTO'
+  | 'LABEL'
+  // Sub-macros
+  | 'CALL'
+  | 'RETURN'
+  // Error handling blocks
+  | 'TRY'
+  | 'CATCH'
+  | 'ENDTRY'
+  | 'RETRY'
+  | 'ON_ERROR'
   // File handling
   | 'ONDOWNLOAD'
   | 'FILTER'
@@ -72,6 +92,15 @@ export type CommandType =
   | 'REDIAL'
   // Data source
   | 'DS'
+  // Network capture
+  | 'NETCAPTURE'
+  // Request headers
+  | 'HEADER'
+  // Mocked responses
+  | 'MOCK'
+  // Session reuse
+  | 'COOKIES'
+  | 'STORAGE'
   // Unknown for forward compatibility
   | 'UNKNOWN';
 
@@ -87,6 +116,7 @@ export const SYSTEM_VARIABLES = [
   '!LOOP',
   // Datasource
   '!DATASOURCE', '!DATASOURCE_LINE', '!DATASOURCE_COLUMNS', '!DATASOURCE_DELIMITER',
+  '!DATASOURCE_SHEET', '!DATASOURCE_HEADER',
   // Extract
   '!EXTRACT', '!EXTRACTADD', '!EXTRACT_TEST_POPUP',
   // Encryption
@@ -97,6 +127,8 @@ export const SYSTEM_VARIABLES = [
   '!TIMEOUT', '!TIMEOUT_STEP', '!TIMEOUT_PAGE', '!TIMEOUT_TAG', '!TIMEOUT_MACRO',
   // Error handling
   '!ERRORIGNORE', '!ERRORLOOP',
+  // Last caught error (set before entering a CATCH block or ON_ERROR target)
+  '!ERR_CODE', '!ERR_MESSAGE', '!ERR_LINE',
   // Playback control
   '!SINGLESTEP', '!REPLAYSPEED',
   // Folders
@@ -121,6 +153,15 @@ export const SYSTEM_VARIABLES = [
   '!IMAGEFILTER',
   // Line number adjustment
   '!LINENUMBER_DELTA',
+  // Request read by NETCAPTURE QUERY or WAIT FOR=REQUEST
+  '!NET_COUNT', '!NET_URL', '!NET_METHOD', '!NET_STATUS', '!NET_TIME',
+  '!NET_HEADERS', '!NET_HEADER', '!NET_ERROR',
+  // Requests served by the mock queried with MOCK QUERY
+  '!MOCK_HITS',
+  // Item read by STORAGE GET KEY=
+  '!STORAGE_VALUE',
+  // Seconds a {{!TOTP:...}} code must stay valid before it is used
+  '!TOTP_MIN_VALIDITY',
 ] as const;
 
 export type SystemVariable = typeof SYSTEM_VARIABLES[number];
@@ -231,6 +272,36 @@ export interface ParseError {
   raw: string;
 }
 
+/**
+ * A TRY/CATCH/ENDTRY block. Indices are 0-based positions in ParsedMacro.commands.
+ */
+export interface TryBlock {
+  /** Index of the TRY command */
+  start: number;
+  /** Index of the CATCH command (undefined if the block has no CATCH) */
+  catchIndex?: number;
+  /** Index of the ENDTRY command */
+  end: number;
+}
+
+/**
+ * Block structure of the control flow commands in a macro
+ * (IF/ELSEIF/ELSE/ENDIF, WHILE/ENDWHILE, GOTO/LABEL, TRY/CATCH/ENDTRY).
+ * All indices are 0-based positions in ParsedMacro.commands.
+ */
+export interface ControlFlowMap {
+  /** IF/ELSEIF/ELSE index -> index of the next ELSEIF, ELSE or ENDIF of the same block */
+  nextBranch: Map<number, number>;
+  /** IF/ELSEIF/ELSE index -> index of the ENDIF closing the block */
+  blockEnd: Map<number, number>;
+  /** WHILE index -> matching ENDWHILE index, and ENDWHILE index -> matching WHILE index */
+  loopPairs: Map<number, number>;
+  /** Label name (upper-cased) -> index of the LABEL command */
+  labels: Map<string, number>;
+  /** TRY index -> its TRY/CATCH/ENDTRY block */
+  tryBlocks: Map<number, TryBlock>;
+}
+
 /**
  * All supported command keywords (40+ commands from MacroPlayer.js RegExpTable)
  */
@@ -260,6 +331,24 @@ const COMMAND_KEYWORDS: Record<string, CommandType> = {
   'WAIT': 'WAIT',
   'PAUSE': 'PAUSE',
   'STOPWATCH': 'STOPWATCH',
+  // Conditionals and loops
+  'IF': 'IF',
+  'ELSEIF': 'ELSEIF',
+  'ELSE': 'ELSE',
+  'ENDIF': 'ENDIF',
+  'WHILE': 'WHILE',
+  'ENDWHILE': 'ENDWHILE',
+  'GOTO': 'GOTO',
+  'LABEL': 'LABEL',
+  // Sub-macros
+  'CALL': 'CALL',
+  'RETURN': 'RETURN',
+  // Error handling blocks
+  'TRY': 'TRY',
+  'CATCH': 'CATCH',
+  'ENDTRY': 'ENDTRY',
+  'RETRY': 'RETRY',
+  'ON_ERROR': 'ON_ERROR',
   // File handling
   'ONDOWNLOAD': 'ONDOWNLOAD',
   'FILTER': 'FILTER',
@@ -291,6 +380,15 @@ const COMMAND_KEYWORDS: Record<string, CommandType> = {
   'REDIAL': 'REDIAL',
   // Data source
   'DS': 'DS',
+  // Network capture
+  'NETCAPTURE': 'NETCAPTURE',
+  // Request headers
+  'HEADER': 'HEADER',
+  // Mocked responses
+  'MOCK': 'MOCK',
+  // Session reuse
+  'COOKIES': 'COOKIES',
+  'STORAGE': 'STORAGE',
 };
 
 /**
@@ -330,8 +428,9 @@ export function isSystemVariable(name: string): boolean {
   if (SYSTEM_VARIABLES.includes(upperName as SystemVariable)) {
     return true;
   }
-  // Check for patterns like !NOW:format
-  if (upperName.startsWith('!NOW:')) return true;
+  // Check for patterns like !NOW:format, !COL:name, !SECRET:name.field and !TOTP:name
+  if (upperName.startsWith('!NOW:') || upperName.startsWith('!COL:') || upperName.startsWith('!SECRET:')
+    || upperName.startsWith('!TOTP:')) return true;
   return false;
 }
 
@@ -930,7 +1029,80 @@ export function validateCommand(command: ParsedCommand): ParseError | null {
       break;
     }
 
+    case 'IF':
+    case 'ELSEIF':
+    case 'WHILE': {
+      // IF <condition> / ELSEIF <condition> / WHILE <condition>
+      if (getCommandArguments(command) === '') {
+        return {
+          lineNumber: command.lineNumber,
+          message: `${command.type} command requires a condition`,
+          raw: command.raw,
+        };
+      }
+      break;
+    }
+
+    case 'GOTO':
+    case 'LABEL': {
+      // GOTO <label> / LABEL <label>
+      if (command.parameters.length < 1) {
+        return {
+          lineNumber: command.lineNumber,
+          message: `${command.type} command requires a label name`,
+          raw: command.raw,
+        };
+      }
+      break;
+    }
+
+    case 'RETRY': {
+      // RETRY <count> [BACKOFF=<ms>]
+      if (command.parameters.length < 1 || command.parameters[0].key.toUpperCase() === 'BACKOFF') {
+        return {
+          lineNumber: command.lineNumber,
+          message: 'RETRY command requires a retry count',
+          raw: command.raw,
+        };
+      }
+      break;
+    }
+
+    case 'ON_ERROR': {
+      // ON_ERROR GOTO=<label> | CONTINUE | STOP
+      const hasGoto = command.parameters.some(p => p.key.toUpperCase() === 'GOTO');
+      const hasMode = command.parameters.some(p => ['CONTINUE', 'STOP'].includes(p.key.toUpperCase()));
+      if (!hasGoto && !hasMode) {
+        return {
+          lineNumber: command.lineNumber,
+          message: 'ON_ERROR command requires GOTO=<label>, CONTINUE or STOP',
+          raw: command.raw,
+        };
+      }
+      break;
+    }
+
+    case 'CALL': {
+      // CALL MACRO=<file> [<name>=<value> ...]
+      const macroParam = command.parameters.find(p => p.key.toUpperCase() === 'MACRO');
+      if (!macroParam) {
+        return {
+          lineNumber: command.lineNumber,
+          message: 'CALL command requires MACRO parameter',
+          raw: command.raw,
+        };
+      }
+      break;
+    }
+
     // Commands that don't require validation (no parameters or accept anything)
+    case 'RETURN':
+    case 'TRY':
+    case 'CATCH':
+    case 'ENDTRY':
+    case 'ELSE':
+    case 'ENDIF':
+    case 'ENDWHILE':
     case 'BACK':
     case 'CLEAR':
     case 'PAUSE':
@@ -965,6 +1137,208 @@ export function validateCommand(command: ParsedCommand): ParseError | null {
   return null;
 }
 
+/**
+ * Get the raw argument text of a command (everything after the keyword).
+ * Used for IF/ELSEIF/WHILE, whose condition is an expression rather than
+ * a KEY=value list.
+ */
+export function getCommandArguments(command: ParsedCommand): string {
+  const trimmed = command.raw.trim();
+  const spaceIndex = trimmed.search(/\s/);
+  return spaceIndex === -1 ? '' : trimmed.slice(spaceIndex + 1).trim();
+}
+
+/**
+ * Get the label name of a GOTO or LABEL command (first positional argument)
+ */
+export function getLabelName(command: ParsedCommand): string {
+  return command.parameters.length > 0 ? command.parameters[0].key : '';
+}
+
+/**
+ * Open IF, WHILE or TRY block tracked while analyzing control flow
+ */
+interface OpenBlock {
+  type: 'IF' | 'WHILE' | 'TRY';
+  /** Index of the IF/WHILE/TRY command */
+  index: number;
+  /** Indices of the IF and each ELSEIF/ELSE of the block (IF blocks only) */
+  branches: number[];
+  /** Whether an ELSE has been seen (IF blocks only) */
+  hasElse: boolean;
+  /** Index of the CATCH command (TRY blocks only) */
+  catchIndex?: number;
+}
+
+/**
+ * Closing keyword of each block type
+ */
+const BLOCK_CLOSERS: Record<OpenBlock['type'], string> = {
+  IF: 'ENDIF',
+  WHILE: 'ENDWHILE',
+  TRY: 'ENDTRY',
+};
+
+/**
+ * Analyze the block structure of control flow commands.
+ *
+ * Matches IF/ELSEIF/ELSE/ENDIF, WHILE/ENDWHILE and TRY/CATCH/ENDTRY blocks,
+ * collects LABEL positions and checks that GOTO and ON_ERROR GOTO targets
+ * exist and that RETRY only appears in a CATCH block. Blocks may be nested but
+ * must not overlap. Mismatches are reported as parse errors; the returned
+ * map only contains the blocks that could be matched.
+ */
+export function analyzeControlFlow(commands: ParsedCommand[]): { map: ControlFlowMap; errors: ParseError[] } {
+  const map: ControlFlowMap = {
+    nextBranch: new Map(),
+    blockEnd: new Map(),
+    loopPairs: new Map(),
+    labels: new Map(),
+    tryBlocks: new Map(),
+  };
+  const errors: ParseError[] = [];
+  const stack: OpenBlock[] = [];
+  const gotos: Array<{ command: ParsedCommand; name: string }> = [];
+
+  const error = (command: ParsedCommand, message: string): void => {
+    errors.push({ lineNumber: command.lineNumber, message, raw: command.raw });
+  };
+
+  // Describe the innermost open block for mismatch messages
+  const openBlockHint = (): string => {
+    const top = stack[stack.length - 1];
+    return top ? ` (${top.type} on line ${commands[top.index].lineNumber} is still open)` : '';
+  };
+
+  for (let i = 0; i < commands.length; i++) {
+    const command = commands[i];
+    const top = stack[stack.length - 1];
+
+    switch (command.type) {
+      case 'IF':
+        stack.push({ type: 'IF', index: i, branches: [i], hasElse: false });
+        break;
+
+      case 'ELSEIF':
+      case 'ELSE': {
+        if (!top || top.type !== 'IF') {
+          error(command, `${command.type} without matching IF${openBlockHint()}`);
+          break;
+        }
+        if (top.hasElse) {
+          error(command, `${command.type} after ELSE in IF block starting on line ${commands[top.index].lineNumber}`);
+          break;
+        }
+        map.nextBranch.set(top.branches[top.branches.length - 1], i);
+        top.branches.push(i);
+        top.hasElse = command.type === 'ELSE';
+        break;
+      }
+
+      case 'ENDIF': {
+        if (!top || top.type !== 'IF') {
+          error(command, `ENDIF without matching IF${openBlockHint()}`);
+          break;
+        }
+        map.nextBranch.set(top.branches[top.branches.length - 1], i);
+        for (const branch of top.branches) {
+          map.blockEnd.set(branch, i);
+        }
+        stack.pop();
+        break;
+      }
+
+      case 'WHILE':
+        stack.push({ type: 'WHILE', index: i, branches: [], hasElse: false });
+        break;
+
+      case 'ENDWHILE': {
+        if (!top || top.type !== 'WHILE') {
+          error(command, `ENDWHILE without matching WHILE${openBlockHint()}`);
+          break;
+        }
+        map.loopPairs.set(top.index, i);
+        map.loopPairs.set(i, top.index);
+        stack.pop();
+        break;
+      }
+
+      case 'LABEL': {
+        const name = getLabelName(command).toUpperCase();
+        if (!name) break;
+        const existing = map.labels.get(name);
+        if (existing !== undefined) {
+          error(command, `Duplicate LABEL ${getLabelName(command)} (already defined on line ${commands[existing].lineNumber})`);
+          break;
+        }
+        map.labels.set(name, i);
+        break;
+      }
+
+      case 'GOTO':
+        gotos.push({ command, name: getLabelName(command) });
+        break;
+
+      case 'TRY':
+        stack.push({ type: 'TRY', index: i, branches: [], hasElse: false });
+        break;
+
+      case 'CATCH': {
+        if (!top || top.type !== 'TRY') {
+          error(command, `CATCH without matching TRY${openBlockHint()}`);
+          break;
+        }
+        if (top.catchIndex !== undefined) {
+          error(command, `Duplicate CATCH in TRY block starting on line ${commands[top.index].lineNumber}`);
+          break;
+        }
+        top.catchIndex = i;
+        break;
+      }
+
+      case 'ENDTRY': {
+        if (!top || top.type !== 'TRY') {
+          error(command, `ENDTRY without matching TRY${openBlockHint()}`);
+          break;
+        }
+        map.tryBlocks.set(top.index, { start: top.index, catchIndex: top.catchIndex, end: i });
+        stack.pop();
+        break;
+      }
+
+      case 'RETRY': {
+        const openTry = [...stack].reverse().find(block => block.type === 'TRY');
+        if (!openTry || openTry.catchIndex === undefined) {
+          error(command, 'RETRY outside of a CATCH block');
+        }
+        break;
+      }
+
+      case 'ON_ERROR': {
+        const gotoParam = command.parameters.find(p => p.key.toUpperCase() === 'GOTO');
+        if (gotoParam) {
+          gotos.push({ command, name: gotoParam.value });
+        }
+        break;
+      }
+    }
+  }
+
+  // Anything still open was never closed
+  for (const block of stack) {
+    error(commands[block.index], `${block.type} has no matching ${BLOCK_CLOSERS[block.type]}`);
+  }
+
+  // GOTO targets built from variables can only be checked at runtime
+  for (const { command, name } of gotos) {
+    if (name && !name.includes('{{') && !map.labels.has(name.toUpperCase())) {
+      error(command, `${command.type} target label not found: ${name}`);
+    }
+  }
+
+  return { map, errors };
+}
+
 /**
  * Parse a complete macro script
  *
@@ -998,6 +1372,12 @@ export function parseMacro(script: string, validate: boolean = true): ParsedMacr
     }
   }
 
+  // Block matching for IF/WHILE/GOTO spans lines, so it runs after all commands are known
+  if (validate) {
+    errors.push(...analyzeControlFlow(commands).errors);
+    errors.sort((a, b) => a.lineNumber - b.lineNumber);
+  }
+
   return {
     lines: parsedLines,
     commands,
@@ -0,0 +1,342 @@
+/**
+ * iMacros Run History and Reports
+ *
+ * Turns a MacroResult into a run record that can be persisted (JSON only:
+ * timestamps are stored as milliseconds), filters stored runs, and builds a
+ * self-contained HTML report of one run:
+ * - Summary: start/end time, duration, loops, error code, line and message
+ * - Failure screenshots, embedded as data URLs
+ * - Per-line timings from the profiler records (!FILE_PROFILER), with the
+ *   profiler CSV built by buildProfilerCsv
+ * - Stopwatch records, with the CSV built by buildStopwatchCsv
+ * - Extracted data
+ */
+
+import { IMACROS_ERROR_CODES, type MacroResult } from './executor';
+import type { FailureArtifacts } from './failure-artifacts';
+import {
+  buildStopwatchCsv,
+  buildProfilerCsv,
+  type StopwatchRecord,
+  type ProfilerRecord,
+} from './commands/system';
+
+// ===== Types =====
+
+/**
+ * Outcome of a run
+ */
+export type RunStatus = 'success' | 'error' | 'stopped';
+
+/**
+ * Screenshot stored with a run
+ */
+export interface RunScreenshot {
+  /** What the screenshot shows (e.g. "Error at line 4") */
+  label: string;
+  /** PNG or JPEG data URL */
+  dataUrl: string;
+}
+
+/**
+ * Stopwatch record of a run (timestamp in ms)
+ */
+export interface RunStopwatchRecord {
+  id: string;
+  elapsedSec: string;
+  timestamp: number;
+}
+
+/**
+ * Profiler record of a run (timestamp in ms)
+ */
+export interface RunProfilerRecord {
+  line: number;
+  command: string;
+  rawCommand: string;
+  durationMs: number;
+  timestamp: number;
+}
+
+/**
+ * One persisted macro run
+ */
+export interface RunRecord {
+  id: string;
+  /** Macro name/path */
+  macro: string;
+  status: RunStatus;
+  startTime: number;
+  endTime: number;
+  loopsCompleted: number;
+  errorCode: number;
+  errorMessage?: string;
+  errorLine?: number;
+  extractData: string[];
+  stopwatchRecords: RunStopwatchRecord[];
+  profilerRecords: RunProfilerRecord[];
+  screenshots: RunScreenshot[];
+  /** Artifacts saved on a fatal error (MacroResult.failureArtifacts) */
+  failureArtifacts?: FailureArtifacts;
+}
+
+/**
+ * Run record without its bulky fields, for history lists
+ */
+export type RunSummary = Omit<RunRecord, 'extractData' | 'stopwatchRecords' | 'profilerRecords' | 'screenshots'> & {
+  extractCount: number;
+  screenshotCount: number;
+};
+
+/**
+ * Filter for history lists
+ */
+export interface RunHistoryFilter {
+  /** Part of the macro path (case-insensitive) */
+  macro?: string;
+  status?: RunStatus;
+}
+
+/**
+ * Options for createRunRecord
+ */
+export interface CreateRunRecordOptions {
+  macro: string;
+  startTime: number;
+  /** Defaults to now */
+  endTime?: number;
+  /** Defaults to createRunId(startTime) */
+  id?: string;
+  screenshots?: RunScreenshot[];
+}
+
+// ===== Run Records =====
+
+/**
+ * Create a run ID; IDs sort in start time order
+ */
+export function createRunId(startTime: number): string {
+  return `run-${String(startTime).padStart(13, '0')}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Convert the result of MacroExecutor.execute() into a run record
+ */
+export function createRunRecord(result: MacroResult, options: CreateRunRecordOptions): RunRecord {
+  let status: RunStatus = 'success';
+  if (!result.success) {
+    status = result.errorCode === IMACROS_ERROR_CODES.USER_ABORT ? 'stopped' : 'error';
+  }
+
+  return {
+    id: options.id ?? createRunId(options.startTime),
+    macro: options.macro,
+    status,
+    startTime: options.startTime,
+    endTime: options.endTime ?? Date.now(),
+    loopsCompleted: result.loopsCompleted,
+    errorCode: result.errorCode,
+    errorMessage: result.errorMessage,
+    errorLine: result.errorLine,
+    extractData: [...result.extractData],
+    stopwatchRecords: (result.stopwatchRecords ?? []).map(r => ({
+      id: r.id,
+      elapsedSec: r.elapsedSec,
+      timestamp: r.timestamp.getTime(),
+    })),
+    profilerRecords: (result.profilerRecords ?? []).map(r => ({
+      line: r.line,
+      command: r.command,
+      rawCommand: r.rawCommand,
+      durationMs: r.durationMs,
+      timestamp: r.timestamp.getTime(),
+    })),
+    screenshots: options.screenshots ?? [],
+    failureArtifacts: result.failureArtifacts,
+  };
+}
+
+/**
+ * Strip a run record down to its summary
+ */
+export function summarizeRun(record: RunRecord): RunSummary {
+  const { extractData, stopwatchRecords: _stopwatch, profilerRecords: _profiler, screenshots, ...summary } = record;
+  return { ...summary, extractCount: extractData.length, screenshotCount: screenshots.length };
+}
+
+/**
+ * Filter runs by macro and status, newest first
+ */
+export function filterRuns<T extends RunSummary | RunRecord>(runs: T[], filter: RunHistoryFilter = {}): T[] {
+  const macro = filter.macro?.trim().toLowerCase();
+  return runs
+    .filter(run => !macro || run.macro.toLowerCase().includes(macro))
+    .filter(run => !filter.status || run.status === filter.status)
+    .sort((a, b) => b.startTime - a.startTime);
+}
+
+// ===== HTML Report =====
+
+/**
+ * Per-line timing aggregated over all loops
+ */
+export interface LineTiming {
+  line: number;
+  command: string;
+  rawCommand: string;
+  /** Times the line ran */
+  count: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+/**
+ * Aggregate profiler records per macro line, in line order
+ */
+export function aggregateLineTimings(records: RunProfilerRecord[]): LineTiming[] {
+  const byLine = new Map<number, LineTiming>();
+  for (const record of records) {
+    const timing = byLine.get(record.line);
+    if (timing) {
+      timing.count++;
+      timing.totalMs += record.durationMs;
+      timing.maxMs = Math.max(timing.maxMs, record.durationMs);
+    } else {
+      byLine.set(record.line, {
+        line: record.line,
+        command: record.command,
+        rawCommand: record.rawCommand,
+        count: 1,
+        totalMs: record.durationMs,
+        maxMs: record.durationMs,
+      });
+    }
+  }
+  return [...byLine.values()].sort((a, b) => a.line - b.line);
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Format a time as YYYY/MM/DD HH:MM:SS (local time, as in the CSV files)
+ */
+function formatReportTime(time: number): string {
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}/${pad(d.getMonth() + 1)}/${pad(d.getDate())} `
+    + `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}`;
+}
+
+const REPORT_STYLE = `
+body { font-family: -apple-system, 'Segoe UI', sans-serif; margin: 24px; color: #222; }
+h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 28px; }
+table { border-collapse: collapse; font-size: 13px; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: left; vertical-align: top; }
+th { background: #f4f4f6; }
+td.num { text-align: right; font-variant-numeric: tabular-nums; }
+.status { display: inline-block; padding: 2px 8px; border-radius: 4px; color: #fff; }
+.status-success { background: #16a34a; } .status-error { background: #dc2626; } .status-stopped { background: #6b7280; }
+.bar { background: #a9a0eb; height: 8px; }
+tr.error-line td { background: #fef2f2; }
+img { max-width: 100%; border: 1px solid #ddd; }
+pre { background: #f4f4f6; padding: 8px; overflow-x: auto; }
+`;
+
+/**
+ * Build a self-contained HTML report of a run
+ */
+export function buildRunReportHtml(record: RunRecord): string {
+  const statusMessage = record.status === 'success' ? 'OK' : (record.errorMessage || 'Error');
+  const rows: [string, string][] = [
+    ['Macro', record.macro],
+    ['Started', formatReportTime(record.startTime)],
+    ['Finished', formatReportTime(record.endTime)],
+    ['Duration', `${((record.endTime - record.startTime) / 1000).toFixed(3)} s`],
+    ['Loops completed', String(record.loopsCompleted)],
+    ['Error code', String(record.errorCode)],
+  ];
+  if (record.errorLine !== undefined) {
+    rows.push(['Error line', String(record.errorLine)]);
+  }
+  if (record.errorMessage) {
+    rows.push(['Error message', record.errorMessage]);
+  }
+  if (record.failureArtifacts) {
+    rows.push(['Failure artifacts', record.failureArtifacts.folder]);
+  }
+
+  const sections: string[] = [];
+  sections.push(`<table>${rows.map(([name, value]) =>
+    `<tr><th>${escapeHtml(name)}</th><td>${escapeHtml(value)}</td></tr>`).join('')}</table>`);
+
+  if (record.screenshots.length > 0) {
+    sections.push('<h2>Screenshots</h2>' + record.screenshots.map(shot =>
+      `<figure><img src="${escapeHtml(shot.dataUrl)}" alt="${escapeHtml(shot.label)}">`
+      + `<figcaption>${escapeHtml(shot.label)}</figcaption></figure>`).join(''));
+  }
+
+  if (record.profilerRecords.length > 0) {
+    const timings = aggregateLineTimings(record.profilerRecords);
+    const slowest = Math.max(...timings.map(t => t.totalMs), 1);
+    const profilerCsv = buildProfilerCsv(
+      record.profilerRecords.map((r): ProfilerRecord => ({ ...r, timestamp: new Date(r.timestamp) })),
+      record.macro,
+      record.errorCode,
+      statusMessage
+    );
+    sections.push('<h2>Per-line timings</h2>'
+      + '<table><tr><th>Line</th><th>Command</th><th>Runs</th><th>Total ms</th><th>Avg ms</th><th>Max ms</th><th></th></tr>'
+      + timings.map(t => `<tr${t.line === record.errorLine && record.status === 'error' ? ' class="error-line"' : ''}>`
+        + `<td class="num">${t.line}</td><td>${escapeHtml(t.rawCommand)}</td><td class="num">${t.count}</td>`
+        + `<td class="num">${t.totalMs.toFixed(1)}</td><td class="num">${(t.totalMs / t.count).toFixed(1)}</td>`
+        + `<td class="num">${t.maxMs.toFixed(1)}</td>`
+        + `<td><div class="bar" style="width: ${Math.round((t.totalMs / slowest) * 120)}px"></div></td></tr>`).join('')
+      + `</table><details><summary>Profiler CSV</summary><pre>${escapeHtml(profilerCsv)}</pre></details>`);
+  }
+
+  if (record.stopwatchRecords.length > 0) {
+    const stopwatchCsv = buildStopwatchCsv(
+      record.stopwatchRecords.map((r): StopwatchRecord => ({ ...r, timestamp: new Date(r.timestamp) })),
+      record.macro,
+      record.errorCode,
+      statusMessage,
+      true
+    );
+    sections.push('<h2>Stopwatch</h2>'
+      + '<table><tr><th>ID</th><th>Elapsed (s)</th><th>Time</th></tr>'
+      + record.stopwatchRecords.map(r => `<tr><td>${escapeHtml(r.id)}</td>`
+        + `<td class="num">${escapeHtml(r.elapsedSec)}</td><td>${formatReportTime(r.timestamp)}</td></tr>`).join('')
+      + `</table><details><summary>Stopwatch CSV</summary><pre>${escapeHtml(stopwatchCsv)}</pre></details>`);
+  }
+
+  if (record.extractData.length > 0) {
+    sections.push('<h2>Extracted data</h2><ol>'
+      + record.extractData.map(value => `<li>${escapeHtml(value)}</li>`).join('') + '</ol>');
+  }
+
+  return '<!DOCTYPE html>\n<html lang="en">\n<head>\n<meta charset="UTF-8">\n'
+    + `<title>${escapeHtml(`iMacros run report: ${record.macro}`)}</title>\n<style>${REPORT_STYLE}</style>\n</head>\n<body>\n`
+    + `<h1>${escapeHtml(record.macro)} <span class="status status-${record.status}">${escapeHtml(record.status)}</span></h1>\n`
+    + sections.join('\n')
+    + '\n</body>\n</html>\n';
+}
+
+/**
+ * File name for a run's HTML report
+ */
+export function getRunReportFileName(record: RunSummary | RunRecord): string {
+  const base = record.macro.replace(/^.*[/\\]/, '').replace(/\.[^.]+$/, '') || 'macro';
+  const d = new Date(record.startTime);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `report_${base}_${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`
+    + `_${pad(d.getHours())}${pad(d.getMinutes())}${pad(d.getSeconds())}.html`;
+}
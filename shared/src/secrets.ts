@@ -0,0 +1,200 @@
+/**
+ * iMacros Secret References
+ *
+ * Macros read credentials from the native host's vault by name instead of
+ * keeping !ENCRYPTION blobs in SET lines:
+ *
+ *   TAG POS=1 TYPE=INPUT:PASSWORD ATTR=NAME:pass CONTENT={{!SECRET:bank_login.password}}
+ *
+ * A vault entry holds either a single value ({{!SECRET:api_token}}) or named
+ * fields stored as a JSON object ({{!SECRET:bank_login.username}}). Secrets
+ * are resolved when the variable is expanded, never stored as variables,
+ * and every value that was resolved is masked in logs, progress events and
+ * extracted data.
+ */
+
+/**
+ * Prefix of secret variables
+ */
+export const SECRET_VARIABLE_PREFIX = '!SECRET:';
+
+/**
+ * Text that replaces secret values in logs, progress events and !EXTRACT
+ */
+export const SECRET_MASK = '********';
+
+/**
+ * A parsed {{!SECRET:name.field}} reference
+ */
+export interface SecretReference {
+  /** Vault entry name */
+  name: string;
+  /** Field of the entry (unset: the entry's single value) */
+  field?: string;
+}
+
+/**
+ * Resolves a secret reference to its value; throws when the secret is not
+ * available (vault locked, entry missing or expired, unknown field)
+ */
+export type SecretResolver = (reference: SecretReference) => string;
+
+/**
+ * Information about a vault entry, without its values
+ */
+export interface VaultEntryInfo {
+  /** Entry name used in {{!SECRET:name}} */
+  name: string;
+  /** Field names (empty for a single value; only known while unlocked) */
+  fields: string[];
+  /** When the entry was created */
+  createdAt: number;
+  /** When the values were last rotated (0: never) */
+  rotatedAt: number;
+  /** When the entry expires (0: never) */
+  expiresAt: number;
+}
+
+/**
+ * Vault lock state reported by the native host
+ */
+export interface VaultStatus {
+  /** Whether the vault has a master password */
+  initialized: boolean;
+  /** Whether the vault is unlocked */
+  unlocked: boolean;
+}
+
+/**
+ * Check if a variable name is a secret reference
+ */
+export function isSecretVariable(name: string): boolean {
+  return name.toUpperCase().startsWith(SECRET_VARIABLE_PREFIX);
+}
+
+/**
+ * Parse the variable name of a secret reference ("!SECRET:bank_login.password").
+ * Entry names may contain dots (see resolveSecret).
+ */
+export function parseSecretReference(variableName: string): SecretReference {
+  if (!isSecretVariable(variableName)) {
+    throw new Error(`Not a secret reference: ${variableName}`);
+  }
+  const reference = variableName.slice(SECRET_VARIABLE_PREFIX.length).trim();
+  if (!reference) {
+    throw new Error('Secret reference needs a name: {{!SECRET:name}} or {{!SECRET:name.field}}');
+  }
+  return splitSecretName(reference);
+}
+
+/**
+ * Split "name.field" into a reference (the field is the part after the last dot)
+ */
+export function splitSecretName(reference: string): SecretReference {
+  const dot = reference.lastIndexOf('.');
+  if (dot <= 0 || dot === reference.length - 1) {
+    return { name: reference };
+  }
+  return { name: reference.slice(0, dot), field: reference.slice(dot + 1) };
+}
+
+/**
+ * Format a secret reference for messages
+ */
+export function formatSecretReference(reference: SecretReference): string {
+  return reference.field ? `${reference.name}.${reference.field}` : reference.name;
+}
+
+/**
+ * Parse the stored value of a vault entry: named fields (a JSON object of
+ * strings) or null for a single value
+ */
+export function parseSecretFields(storedValue: string): Record<string, string> | null {
+  if (!storedValue.startsWith('{')) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(storedValue) as unknown;
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return null;
+    }
+    const fields: Record<string, string> = {};
+    for (const [key, value] of Object.entries(parsed as Record<string, unknown>)) {
+      fields[key] = String(value);
+    }
+    return fields;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build the stored value of a vault entry from its fields. A single field
+ * named "value" is stored as a plain value.
+ */
+export function serializeSecretFields(fields: Record<string, string>): string {
+  const names = Object.keys(fields);
+  if (names.length === 1 && names[0] === 'value') {
+    return fields.value;
+  }
+  return JSON.stringify(fields);
+}
+
+/**
+ * Get the value a reference points to from an entry's stored value
+ */
+export function selectSecretValue(storedValue: string, reference: SecretReference): string {
+  const fields = parseSecretFields(storedValue);
+  if (!fields) {
+    if (reference.field) {
+      throw new Error(`Secret ${reference.name} has no field ${reference.field}`);
+    }
+    return storedValue;
+  }
+  if (!reference.field) {
+    throw new Error(
+      `Secret ${reference.name} has fields ${Object.keys(fields).join(', ')}; use {{!SECRET:${reference.name}.<field>}}`
+    );
+  }
+  const match = Object.keys(fields).find(key => key.toLowerCase() === reference.field!.toLowerCase());
+  if (match === undefined) {
+    throw new Error(`Secret ${reference.name} has no field ${reference.field}`);
+  }
+  return fields[match];
+}
+
+/**
+ * Resolve a reference with a vault lookup that returns an entry's stored
+ * value, or null when there is no such entry. When "name.field" does not
+ * match an entry with fields, an entry named "name.field" is tried.
+ */
+export function resolveSecret(
+  reference: SecretReference,
+  getEntry: (name: string) => string | null
+): string {
+  const entry = getEntry(reference.name);
+  if (entry !== null) {
+    return selectSecretValue(entry, reference);
+  }
+  if (reference.field) {
+    const fullName = formatSecretReference(reference);
+    const whole = getEntry(fullName);
+    if (whole !== null) {
+      return selectSecretValue(whole, { name: fullName });
+    }
+  }
+  throw new Error(`Secret not found: ${formatSecretReference(reference)}`);
+}
+
+/**
+ * Replace every occurrence of the secret values in a text with SECRET_MASK.
+ * Longer values are replaced first so a secret containing another is fully masked.
+ */
+export function maskSecrets(text: string, secrets: Iterable<string>): string {
+  const values = [...secrets].filter(value => value.length > 0).sort((a, b) => b.length - a.length);
+  let masked = text;
+  for (const value of values) {
+    masked = masked.split(value).join(SECRET_MASK);
+  }
+  return masked;
+}
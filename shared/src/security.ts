@@ -4,9 +4,17 @@
  * Provides security features including:
  * - Trusted sites list management
  * - Macro origin tracking and validation
+ * - Capability scanning (what a macro can do outside the browser)
+ * - Per-site capability policies
+ * - Trusted publishers of signed macros
  * - Security settings
  */
 
+import type { ParsedCommand, ParsedMacro } from './parser';
+import { verifyMacroSignature, type MacroSignatureCheck } from './macro-signature';
+import { isSecretVariable } from './secrets';
+import { isTotpVariable } from './totp';
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -30,8 +38,31 @@ export interface MacroSource {
   trusted: boolean;
   /** Timestamp when the macro was loaded */
   loadedAt: number;
+  /** Signature check (when the macro content was given) */
+  signature?: MacroSignatureCheck;
+  /** Trusted publisher that signed the macro */
+  publisher?: TrustedPublisher;
 }
 
+/**
+ * Dangerous things a macro can do, found by scanMacroCapabilities
+ */
+export type MacroCapability =
+  | 'exec'
+  | 'cmdline'
+  | 'file-delete'
+  | 'proxy'
+  | 'download-absolute'
+  | 'saveas-outside-downloads'
+  | 'set-folder'
+  | 'secrets'
+  | 'call';
+
+/**
+ * Policy for a capability on a trusted site (unset: ask before running)
+ */
+export type CapabilityPolicy = 'allow' | 'deny';
+
 /**
  * Trusted site entry
  */
@@ -42,6 +73,22 @@ export interface TrustedSite {
   trustedAt: number;
   /** Optional note about why it was trusted */
   note?: string;
+  /** Capabilities allowed or denied for macros from this site */
+  capabilities?: Partial<Record<MacroCapability, CapabilityPolicy>>;
+}
+
+/**
+ * Trusted publisher of signed macros
+ */
+export interface TrustedPublisher {
+  /** Display name */
+  name: string;
+  /** Ed25519 public key (base64) */
+  publicKey: string;
+  /** When the publisher was trusted */
+  trustedAt: number;
+  /** Optional note about why it was trusted */
+  note?: string;
 }
 
 /**
@@ -52,6 +99,8 @@ export interface SecuritySettings {
   showUntrustedWarnings: boolean;
   /** List of trusted sites/domains */
   trustedSites: TrustedSite[];
+  /** Publishers whose signed macros are trusted from any origin */
+  trustedPublishers: TrustedPublisher[];
   /** Whether to allow macros from URLs */
   allowUrlMacros: boolean;
   /** Whether to allow embedded macros (base64 in URL) */
@@ -66,6 +115,7 @@ export interface SecuritySettings {
 export const DEFAULT_SECURITY_SETTINGS: SecuritySettings = {
   showUntrustedWarnings: true,
   trustedSites: [],
+  trustedPublishers: [],
   allowUrlMacros: true,
   allowEmbeddedMacros: true,
   trustLocalMacros: true,
@@ -163,11 +213,16 @@ export function detectMacroOrigin(pathOrUrl: string): MacroOrigin {
 }
 
 /**
- * Create a MacroSource object from a path/URL and security settings
+ * Create a MacroSource object from a path/URL and security settings.
+ *
+ * With the macro content, its signature is verified too: a valid signature
+ * from a trusted publisher makes the source trusted whatever its origin, and
+ * an invalid one makes it untrusted.
  */
 export function createMacroSource(
   pathOrUrl: string,
-  settings: SecuritySettings
+  settings: SecuritySettings,
+  content?: string
 ): MacroSource {
   const origin = detectMacroOrigin(pathOrUrl);
   const domain = extractDomain(pathOrUrl);
@@ -195,13 +250,28 @@ export function createMacroSource(
       trusted = false;
   }
 
-  return {
+  const source: MacroSource = {
     origin,
     location: pathOrUrl,
     domain: domain ?? undefined,
     trusted,
     loadedAt: Date.now(),
   };
+
+  if (content !== undefined) {
+    const signature = verifyMacroSignature(content);
+    source.signature = signature;
+    if (signature.status === 'invalid') {
+      source.trusted = false;
+    } else if (signature.status === 'valid' && signature.publicKey) {
+      source.publisher = findTrustedPublisher(signature.publicKey, settings.trustedPublishers);
+      if (source.publisher) {
+        source.trusted = true;
+      }
+    }
+  }
+
+  return source;
 }
 
 // ============================================================================
@@ -270,6 +340,283 @@ export function updateTrustedSite(
   });
 }
 
+// ============================================================================
+// Trusted Publishers Management
+// ============================================================================
+
+/**
+ * Find the trusted publisher with a public key
+ */
+export function findTrustedPublisher(
+  publicKey: string,
+  trustedPublishers: TrustedPublisher[]
+): TrustedPublisher | undefined {
+  if (!publicKey || !trustedPublishers) return undefined;
+
+  return trustedPublishers.find(publisher => publisher.publicKey === publicKey.trim());
+}
+
+/**
+ * Add a publisher to the trusted publishers list
+ */
+export function addTrustedPublisher(
+  name: string,
+  publicKey: string,
+  trustedPublishers: TrustedPublisher[],
+  note?: string
+): TrustedPublisher[] {
+  const normalizedKey = publicKey.trim();
+
+  // Check if already trusted
+  if (trustedPublishers.some(publisher => publisher.publicKey === normalizedKey)) {
+    return trustedPublishers;
+  }
+
+  const newPublisher: TrustedPublisher = {
+    name: name.trim(),
+    publicKey: normalizedKey,
+    trustedAt: Date.now(),
+    note,
+  };
+
+  return [...trustedPublishers, newPublisher];
+}
+
+/**
+ * Remove a publisher from the trusted publishers list
+ */
+export function removeTrustedPublisher(
+  publicKey: string,
+  trustedPublishers: TrustedPublisher[]
+): TrustedPublisher[] {
+  const normalizedKey = publicKey.trim();
+  return trustedPublishers.filter(publisher => publisher.publicKey !== normalizedKey);
+}
+
+/**
+ * Check if a public key is valid for a trusted publisher (32-byte base64)
+ */
+export function isValidPublicKey(publicKey: string): boolean {
+  if (!publicKey || typeof publicKey !== 'string') return false;
+
+  return /^[A-Za-z0-9+/]{43}=$/.test(publicKey.trim());
+}
+
+// ============================================================================
+// Capability Scanning
+// ============================================================================
+
+/**
+ * Human-readable capability names
+ */
+export const CAPABILITY_LABELS: Record<MacroCapability, string> = {
+  'exec': 'Run programs (EXEC)',
+  'cmdline': 'Set variables from the command line (CMDLINE)',
+  'file-delete': 'Delete files (FILEDELETE)',
+  'proxy': 'Change the proxy (PROXY)',
+  'download-absolute': 'Save downloads to absolute paths (ONDOWNLOAD)',
+  'saveas-outside-downloads': 'Save files outside the download folder (SAVEAS)',
+  'set-folder': 'Change the download, data or macro folder (SET !FOLDER_*)',
+  'secrets': 'Use credentials from the vault ({{!SECRET:...}}, {{!TOTP:...}})',
+  'call': 'Run other macros, which are not scanned (CALL)',
+};
+
+/**
+ * A dangerous command found in a macro
+ */
+export interface CapabilityFinding {
+  capability: MacroCapability;
+  /** Line of the command (1-based) */
+  line: number;
+  /** The command as written */
+  command: string;
+}
+
+/**
+ * What a macro can do, found before it runs
+ */
+export interface CapabilityManifest {
+  /** Capabilities used, in first-use order */
+  capabilities: MacroCapability[];
+  /** Every command that uses a capability */
+  findings: CapabilityFinding[];
+  /** Domains of URL GOTO targets, sorted */
+  domains: string[];
+  /** Whether some URL GOTO targets are built from variables */
+  dynamicUrls: boolean;
+  /** MACRO= targets of CALL as written, in first-use order ({{var}} targets are only known when run) */
+  calledMacros: string[];
+}
+
+/**
+ * Options for scanMacroCapabilities
+ */
+export interface CapabilityScanOptions {
+  /** Download folder; absolute SAVEAS folders inside it are not flagged */
+  downloadFolder?: string;
+}
+
+/**
+ * Get a parameter value of a command (case-insensitive key)
+ */
+function getParameterValue(command: ParsedCommand, key: string): string | undefined {
+  return command.parameters.find(p => p.key.toUpperCase() === key)?.value;
+}
+
+/**
+ * Whether a path is absolute (/x, C:\x or \\server\x)
+ */
+function isAbsolutePath(path: string): boolean {
+  return /^([a-z]:[\\/]|[\\/])/i.test(path);
+}
+
+/**
+ * Resolve . and .. segments, so /dl/../etc compares as /etc
+ */
+function resolveDotSegments(path: string): string {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '..') {
+      // The first segment is the root ('' or a drive) and stays
+      if (segments.length > 1) {
+        segments.pop();
+      }
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Normalize a folder for prefix comparison
+ */
+function normalizeFolder(path: string): string {
+  return resolveDotSegments(path).replace(/\/+$/, '').toLowerCase() + '/';
+}
+
+/**
+ * Whether a relative path can leave the folder it is resolved against:
+ * it climbs with .. or is built from variables
+ */
+function escapesFolder(path: string): boolean {
+  return path.includes('{{') || path.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Whether a SAVEAS folder can end up outside the download folder.
+ * `*` and plain relative folders stay inside; variables may point anywhere.
+ */
+function isOutsideDownloadFolder(folder: string, downloadFolder?: string): boolean {
+  if (folder === '*' || folder === '') {
+    return false;
+  }
+  if (!isAbsolutePath(folder) || folder.includes('{{')) {
+    return escapesFolder(folder);
+  }
+  return !downloadFolder || !normalizeFolder(folder).startsWith(normalizeFolder(downloadFolder));
+}
+
+/**
+ * Get the capability a command uses, if any
+ */
+function getCommandCapability(command: ParsedCommand, options: CapabilityScanOptions): MacroCapability | null {
+  switch (command.type) {
+    case 'EXEC':
+      return 'exec';
+    case 'CMDLINE':
+      return 'cmdline';
+    case 'FILEDELETE':
+      return 'file-delete';
+    case 'PROXY':
+      return 'proxy';
+    case 'CALL':
+      return 'call';
+    case 'SET': {
+      // !FOLDER_DOWNLOAD and friends move where FOLDER=* saves and reads
+      const name = command.parameters[0]?.key.toUpperCase();
+      return name?.startsWith('!FOLDER_') ? 'set-folder' : null;
+    }
+    case 'ONDOWNLOAD': {
+      const paths = [getParameterValue(command, 'FOLDER'), getParameterValue(command, 'FILE')];
+      return paths.some(path => path && (isAbsolutePath(path) || escapesFolder(path)))
+        ? 'download-absolute'
+        : null;
+    }
+    case 'SAVEAS': {
+      const folder = getParameterValue(command, 'FOLDER') ?? '*';
+      const file = getParameterValue(command, 'FILE') ?? '';
+      return isOutsideDownloadFolder(folder, options.downloadFolder) || isAbsolutePath(file) || escapesFolder(file)
+        ? 'saveas-outside-downloads'
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Scan a parsed macro for dangerous commands and the domains it navigates to
+ */
+export function scanMacroCapabilities(
+  macro: ParsedMacro,
+  options: CapabilityScanOptions = {}
+): CapabilityManifest {
+  const findings: CapabilityFinding[] = [];
+  const domains = new Set<string>();
+  const calledMacros = new Set<string>();
+  let dynamicUrls = false;
+
+  for (const command of macro.commands) {
+    const capability = getCommandCapability(command, options);
+    if (capability) {
+      findings.push({ capability, line: command.lineNumber, command: command.raw.trim() });
+    }
+    // A vault secret can be typed into, or sent to, any page
+    if (command.variables.some(v => isSecretVariable(v.name) || isTotpVariable(v.name))) {
+      findings.push({ capability: 'secrets', line: command.lineNumber, command: command.raw.trim() });
+    }
+
+    if (command.type === 'CALL') {
+      const target = getParameterValue(command, 'MACRO');
+      if (target) {
+        calledMacros.add(target);
+      }
+    }
+
+    if (command.type === 'URL') {
+      const target = getParameterValue(command, 'GOTO');
+      if (target?.includes('{{')) {
+        dynamicUrls = true;
+      } else if (target) {
+        const domain = extractDomain(target);
+        if (domain) {
+          domains.add(domain);
+        }
+      }
+    }
+  }
+
+  return {
+    capabilities: [...new Set(findings.map(f => f.capability))],
+    findings,
+    domains: [...domains].sort(),
+    dynamicUrls,
+    calledMacros: [...calledMacros],
+  };
+}
+
+/**
+ * Get the policies of the trusted site matching a domain
+ */
+export function getSiteCapabilityPolicies(
+  domain: string | undefined,
+  trustedSites: TrustedSite[]
+): Partial<Record<MacroCapability, CapabilityPolicy>> {
+  if (!domain) return {};
+  return trustedSites.find(site => domainMatchesPattern(domain, site.domain))?.capabilities ?? {};
+}
+
 // ============================================================================
 // Validation
 // ============================================================================
@@ -286,24 +633,96 @@ export interface MacroValidationResult {
   reason: string;
   /** The macro source information */
   source: MacroSource;
+  /** What the macro can do (when validated with a manifest) */
+  manifest?: CapabilityManifest;
+  /** Capabilities denied by the site's policy */
+  deniedCapabilities?: MacroCapability[];
 }
 
 /**
- * Validate whether a macro should be allowed to run
+ * Validate whether a macro should be allowed to run.
+ *
+ * With the macro content, a signature that does not match refuses the macro
+ * outright, and one from a trusted publisher makes it trusted.
+ *
+ * With a capability manifest, macros from URLs, links and embedded content are
+ * also checked against the site's capability policies: a denied capability
+ * blocks the macro, and one that is not allowed asks for confirmation even on
+ * a trusted site. Local macros are judged by origin only.
  */
 export function validateMacroSource(
   pathOrUrl: string,
-  settings: SecuritySettings
+  settings: SecuritySettings,
+  manifest?: CapabilityManifest,
+  content?: string
 ): MacroValidationResult {
-  const source = createMacroSource(pathOrUrl, settings);
+  const result = validateMacroOrigin(pathOrUrl, settings, content);
+  if (!manifest) {
+    return result;
+  }
+  result.manifest = manifest;
+  if (!result.allowed || result.source.origin === 'local' || manifest.capabilities.length === 0) {
+    return result;
+  }
+
+  const policies = getSiteCapabilityPolicies(result.source.domain, settings.trustedSites);
+  const denied = manifest.capabilities.filter(c => policies[c] === 'deny');
+  if (denied.length > 0) {
+    return {
+      ...result,
+      allowed: false,
+      requiresConfirmation: false,
+      reason: `Blocked by site policy: ${denied.map(c => CAPABILITY_LABELS[c]).join(', ')}`,
+      deniedCapabilities: denied,
+    };
+  }
+
+  // A trusted publisher vouches for the commands it signed
+  const unapproved = manifest.capabilities.filter(c => policies[c] !== 'allow');
+  if (unapproved.length > 0 && !result.source.publisher) {
+    return {
+      ...result,
+      requiresConfirmation: true,
+      reason: `${result.reason}; uses ${unapproved.map(c => CAPABILITY_LABELS[c]).join(', ')}`,
+    };
+  }
+  return result;
+}
+
+/**
+ * Reason for trusting a source: its trusted signer, or the origin's reason
+ */
+function getTrustReason(source: MacroSource, originReason: string): string {
+  return source.publisher ? `Signed by trusted publisher: ${source.publisher.name}` : originReason;
+}
+
+/**
+ * Validate a macro by its origin and signature
+ */
+function validateMacroOrigin(
+  pathOrUrl: string,
+  settings: SecuritySettings,
+  content?: string
+): MacroValidationResult {
+  const source = createMacroSource(pathOrUrl, settings, content);
+
+  // Tampered or malformed signatures are refused whatever the origin
+  if (source.signature?.status === 'invalid') {
+    return {
+      allowed: false,
+      requiresConfirmation: false,
+      reason: `Invalid signature: ${source.signature.error}`,
+      source,
+    };
+  }
 
   // Local macros are allowed if trustLocalMacros is enabled
   if (source.origin === 'local') {
-    if (settings.trustLocalMacros) {
+    if (source.trusted) {
       return {
         allowed: true,
         requiresConfirmation: false,
-        reason: 'Local macros are trusted',
+        reason: getTrustReason(source, 'Local macros are trusted'),
         source,
       };
     } else {
@@ -331,7 +750,7 @@ export function validateMacroSource(
       return {
         allowed: true,
         requiresConfirmation: false,
-        reason: `Trusted site: ${source.domain}`,
+        reason: getTrustReason(source, `Trusted site: ${source.domain}`),
         source,
       };
     }
@@ -359,7 +778,7 @@ export function validateMacroSource(
       return {
         allowed: true,
         requiresConfirmation: false,
-        reason: `Trusted shared source: ${source.domain}`,
+        reason: getTrustReason(source, `Trusted shared source: ${source.domain}`),
         source,
       };
     }
@@ -388,7 +807,7 @@ export function validateMacroSource(
       return {
         allowed: true,
         requiresConfirmation: false,
-        reason: 'Embedded macro from trusted source',
+        reason: getTrustReason(source, 'Embedded macro from trusted source'),
         source,
       };
     }
@@ -4,7 +4,7 @@
  * Shared settings types and utilities used by both the extension and native host.
  */
 
-import type { TrustedSite } from './security';
+import type { TrustedSite, TrustedPublisher } from './security';
 import { DEFAULT_SECURITY_SETTINGS } from './security';
 
 // ============================================================================
@@ -86,6 +86,10 @@ export interface Settings {
   // Advanced settings
   errorContinue: boolean;
   debugMode: boolean;
+  /** Save a screenshot of the tab with each failed run in the run history */
+  historyScreenshotOnError: boolean;
+  /** Save a screenshot, the frame HTML and the last log entries under pathLogs on a fatal error */
+  saveFailureArtifacts: boolean;
 
   /** @deprecated Use replaySpeedPreset instead */
   replaySpeed: number;
@@ -109,6 +113,7 @@ export interface Settings {
   allowUrlMacros: boolean;
   allowEmbeddedMacros: boolean;
   trustedSites: TrustedSite[];
+  trustedPublishers: TrustedPublisher[];
 }
 
 /**
@@ -145,6 +150,8 @@ export const DEFAULT_SETTINGS: Settings = {
   // Advanced settings
   errorContinue: false,
   debugMode: false,
+  historyScreenshotOnError: false,
+  saveFailureArtifacts: false,
   replaySpeed: 5,
 
   // Replay speed preset (Fast/Medium/Slow)
@@ -166,6 +173,7 @@ export const DEFAULT_SETTINGS: Settings = {
   allowUrlMacros: DEFAULT_SECURITY_SETTINGS.allowUrlMacros,
   allowEmbeddedMacros: DEFAULT_SECURITY_SETTINGS.allowEmbeddedMacros,
   trustedSites: DEFAULT_SECURITY_SETTINGS.trustedSites,
+  trustedPublishers: DEFAULT_SECURITY_SETTINGS.trustedPublishers,
 };
 
 /**
@@ -5,7 +5,7 @@
  * - Current line number
  * - Loop counter
  * - Variables (system and custom)
- * - Extract data
+ * - Extract data and named extract records
  * - Error code
  *
  * Supports serialization/deserialization for persistence and resume functionality.
@@ -49,6 +49,11 @@ export enum ExecutionStatus {
   ABORTED = 'aborted',
 }
 
+/**
+ * One record of named extract fields (EXTRACT=... AS=<field>), keyed by field name
+ */
+export type ExtractRecord = Record<string, string>;
+
 /**
  * Serializable state representation
  */
@@ -69,6 +74,8 @@ export interface SerializedState {
   customVariables: Record<string, VariableValue>;
   /** Extracted data array */
   extractData: string[];
+  /** Extract records (absent in states saved before records existed) */
+  extractRecords?: ExtractRecord[];
   /** Error code */
   errorCode: ErrorCode;
   /** Error message if any */
@@ -142,6 +149,16 @@ export class StateManager {
   private maxLoops: number;
   /** Extracted data accumulator */
   private extractData: string[];
+  /** Extract records; the last one is still being filled while extractRecordOpen */
+  private extractRecords: ExtractRecord[] = [];
+  /** Whether the last record accepts more fields */
+  private extractRecordOpen = false;
+  /** Unnamed extracts in the open record (named EXTRACT1, EXTRACT2, ...) */
+  private unnamedExtractCount = 0;
+  /** Field names in order of first appearance (stable column order) */
+  private extractFields: string[] = [];
+  /** Records already handed out by takeNewExtractRecords */
+  private takenExtractRecords = 0;
   /** Current error code */
   private errorCode: ErrorCode;
   /** Current error message */
@@ -292,6 +309,8 @@ export class StateManager {
    */
   resetForNextLoop(): void {
     this.currentLine = 0;
+    // Each loop produces its own extract record
+    this.endExtractRecord();
     this.updateTimestamp();
   }
 
@@ -330,14 +349,66 @@ export class StateManager {
 
   /**
    * Add extracted data (appends with [EXTRACT] delimiter per iMacros 8.9.7)
-   */
-  addExtract(data: string): void {
+   *
+   * The value is also stored in the open extract record under `field`
+   * (EXTRACT=... AS=<field>), or EXTRACT1, EXTRACT2, ... when unnamed.
+   * A field that is already set in the open record starts a new record.
+   */
+  addExtract(data: string, field?: string): void {
+    // Extracted text must not reveal vault secrets typed earlier in the macro
+    data = this.variables.maskSecrets(data);
     this.extractData.push(data);
     // Use addExtractData to properly accumulate with [EXTRACT] delimiter
     this.variables.addExtractData(data);
+
+    let record = this.extractRecordOpen ? this.extractRecords[this.extractRecords.length - 1] : undefined;
+    if (!record || (field && Object.prototype.hasOwnProperty.call(record, field))) {
+      record = {};
+      this.extractRecords.push(record);
+      this.extractRecordOpen = true;
+      this.unnamedExtractCount = 0;
+    }
+    const name = field || `EXTRACT${++this.unnamedExtractCount}`;
+    record[name] = data;
+    if (!this.extractFields.includes(name)) {
+      this.extractFields.push(name);
+    }
     this.updateTimestamp();
   }
 
+  /**
+   * Close the open extract record; the next extract starts a new one
+   */
+  endExtractRecord(): void {
+    this.extractRecordOpen = false;
+    this.unnamedExtractCount = 0;
+  }
+
+  /**
+   * Get all extract records, including the open one
+   */
+  getExtractRecords(): ExtractRecord[] {
+    return this.extractRecords.map((record) => ({ ...record }));
+  }
+
+  /**
+   * Get extract field names in order of first appearance
+   */
+  getExtractFields(): string[] {
+    return [...this.extractFields];
+  }
+
+  /**
+   * Close the open record and return the records added since the last call
+   * (used to append to files record by record)
+   */
+  takeNewExtractRecords(): ExtractRecord[] {
+    this.endExtractRecord();
+    const records = this.extractRecords.slice(this.takenExtractRecords).map((record) => ({ ...record }));
+    this.takenExtractRecords = this.extractRecords.length;
+    return records;
+  }
+
   /**
    * Get all extracted data
    */
@@ -358,9 +429,21 @@ export class StateManager {
   clearExtract(): void {
     this.extractData = [];
     this.variables.resetExtract();
+    // Records are kept (they outlive SAVEAS), but the next extract starts a new one
+    this.endExtractRecord();
     this.updateTimestamp();
   }
 
+  /**
+   * Drop all extract records
+   */
+  private resetExtractRecords(): void {
+    this.extractRecords = [];
+    this.extractFields = [];
+    this.takenExtractRecords = 0;
+    this.endExtractRecord();
+  }
+
   // ===== Error Management =====
 
   /**
@@ -576,6 +659,7 @@ export class StateManager {
       systemVariables: this.variables.getSystemVariables(),
       customVariables: this.variables.getCustomVariables(),
       extractData: [...this.extractData],
+      extractRecords: this.getExtractRecords(),
       errorCode: this.errorCode,
       errorMessage: this.errorMessage,
       status: this.status,
@@ -610,6 +694,12 @@ export class StateManager {
 
     manager.currentLine = data.currentLine;
     manager.extractData = [...data.extractData];
+    for (const record of data.extractRecords ?? []) {
+      manager.extractRecords.push({ ...record });
+      for (const field of Object.keys(record)) {
+        if (!manager.extractFields.includes(field)) manager.extractFields.push(field);
+      }
+    }
     manager.errorCode = data.errorCode;
     manager.errorMessage = data.errorMessage;
     manager.status = data.status;
@@ -645,6 +735,7 @@ export class StateManager {
     this.variables.reset();
     this.currentLine = 0;
     this.extractData = [];
+    this.resetExtractRecords();
     this.errorCode = ErrorCode.OK;
     this.errorMessage = null;
     this.status = ExecutionStatus.IDLE;
@@ -662,6 +753,7 @@ export class StateManager {
     this.variables.reset();
     this.currentLine = 0;
     this.extractData = [];
+    this.resetExtractRecords();
     this.errorCode = ErrorCode.OK;
     this.errorMessage = null;
     this.status = ExecutionStatus.IDLE;
@@ -0,0 +1,214 @@
+/**
+ * iMacros One-Time Passwords
+ *
+ * RFC 6238 TOTP codes for 2FA logins, generated from a seed kept in the
+ * credential vault:
+ *
+ *   TAG POS=1 TYPE=INPUT:TEXT ATTR=NAME:otp CONTENT={{!TOTP:github}}
+ *
+ * The vault value is either a base32 seed (SHA1, 6 digits, 30 seconds) or an
+ * otpauth:// URI as encoded in setup QR codes, which sets the digits, period
+ * and algorithm:
+ *
+ *   otpauth://totp/GitHub:jane?secret=JBSWY3DPEHPK3PXP&digits=8&period=60&algorithm=SHA256
+ *
+ * Self-contained (hashes from ./hash) so codes are generated synchronously
+ * when the variable is expanded.
+ */
+
+import { sha1, sha256, sha512 } from './hash';
+import { splitSecretName, type SecretReference } from './secrets';
+
+/**
+ * Prefix of TOTP variables
+ */
+export const TOTP_VARIABLE_PREFIX = '!TOTP:';
+
+/**
+ * Hash algorithms for TOTP
+ */
+export type TotpAlgorithm = 'SHA1' | 'SHA256' | 'SHA512';
+
+/**
+ * Settings of a TOTP seed
+ */
+export interface TotpConfig {
+  /** Shared secret (decoded from base32) */
+  key: Uint8Array;
+  /** Code length (6 to 8) */
+  digits: number;
+  /** Time step in seconds */
+  period: number;
+  /** HMAC hash algorithm */
+  algorithm: TotpAlgorithm;
+}
+
+/**
+ * Defaults used by authenticator apps
+ */
+export const DEFAULT_TOTP_DIGITS = 6;
+export const DEFAULT_TOTP_PERIOD = 30;
+export const DEFAULT_TOTP_ALGORITHM: TotpAlgorithm = 'SHA1';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+// ==================== HMAC ====================
+
+const HASHES: Record<TotpAlgorithm, { hash: (data: Uint8Array) => Uint8Array; blockSize: number }> = {
+  SHA1: { hash: sha1, blockSize: 64 },
+  SHA256: { hash: sha256, blockSize: 64 },
+  SHA512: { hash: sha512, blockSize: 128 },
+};
+
+/**
+ * HMAC (RFC 2104) of a message
+ */
+export function hmac(algorithm: TotpAlgorithm, key: Uint8Array, message: Uint8Array): Uint8Array {
+  const { hash, blockSize } = HASHES[algorithm];
+  const blockKey = new Uint8Array(blockSize);
+  blockKey.set(key.length > blockSize ? hash(key) : key);
+
+  const inner = new Uint8Array(blockSize + message.length);
+  inner.set(blockKey.map(byte => byte ^ 0x36));
+  inner.set(message, blockSize);
+  const innerHash = hash(inner);
+
+  const outer = new Uint8Array(blockSize + innerHash.length);
+  outer.set(blockKey.map(byte => byte ^ 0x5c));
+  outer.set(innerHash, blockSize);
+  return hash(outer);
+}
+
+// ==================== TOTP ====================
+
+/**
+ * Check if a variable name is a TOTP reference
+ */
+export function isTotpVariable(name: string): boolean {
+  return name.toUpperCase().startsWith(TOTP_VARIABLE_PREFIX);
+}
+
+/**
+ * Parse the variable name of a TOTP reference ("!TOTP:github" or
+ * "!TOTP:bank_login.totp") into the vault entry holding the seed
+ */
+export function parseTotpReference(variableName: string): SecretReference {
+  if (!isTotpVariable(variableName)) {
+    throw new Error(`Not a TOTP reference: ${variableName}`);
+  }
+  const reference = variableName.slice(TOTP_VARIABLE_PREFIX.length).trim();
+  if (!reference) {
+    throw new Error('TOTP reference needs a name: {{!TOTP:name}} or {{!TOTP:name.field}}');
+  }
+  return splitSecretName(reference);
+}
+
+/**
+ * Find the TOTP variables used in a command line
+ */
+export function findTotpVariables(text: string): string[] {
+  return [...text.matchAll(/\{\{\s*(!TOTP:[^{}]+?)\s*\}\}/gi)].map(match => match[1]);
+}
+
+/**
+ * Decode a base32 seed (RFC 4648); spaces, dashes and padding are ignored
+ */
+export function decodeBase32(seed: string): Uint8Array {
+  const clean = seed.toUpperCase().replace(/[\s-]/g, '').replace(/=+$/, '');
+  if (!clean) {
+    throw new Error('TOTP seed is empty');
+  }
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bits = 0;
+  for (const char of clean) {
+    const value = BASE32_ALPHABET.indexOf(char);
+    if (value === -1) {
+      throw new Error(`Invalid base32 character in TOTP seed: ${char}`);
+    }
+    buffer = (buffer << 5) | value;
+    bits += 5;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes.push((buffer >> bits) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+/**
+ * Parse a TOTP seed from the vault: a base32 seed or an otpauth://totp URI
+ */
+export function parseTotpSeed(value: string): TotpConfig {
+  const trimmed = value.trim();
+  if (!/^otpauth:/i.test(trimmed)) {
+    return {
+      key: decodeBase32(trimmed),
+      digits: DEFAULT_TOTP_DIGITS,
+      period: DEFAULT_TOTP_PERIOD,
+      algorithm: DEFAULT_TOTP_ALGORITHM,
+    };
+  }
+
+  const uri = new URL(trimmed);
+  if (uri.host.toLowerCase() !== 'totp') {
+    throw new Error('Only otpauth://totp URIs are supported');
+  }
+  const secret = uri.searchParams.get('secret');
+  if (!secret) {
+    throw new Error('otpauth URI has no secret');
+  }
+
+  const digits = Number(uri.searchParams.get('digits') ?? DEFAULT_TOTP_DIGITS);
+  if (!Number.isInteger(digits) || digits < 6 || digits > 8) {
+    throw new Error(`TOTP digits must be 6 to 8, got: ${uri.searchParams.get('digits')}`);
+  }
+  const period = Number(uri.searchParams.get('period') ?? DEFAULT_TOTP_PERIOD);
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`TOTP period must be a positive number of seconds, got: ${uri.searchParams.get('period')}`);
+  }
+  const algorithm = (uri.searchParams.get('algorithm') ?? DEFAULT_TOTP_ALGORITHM).toUpperCase().replace('-', '');
+  if (!(algorithm in HASHES)) {
+    throw new Error(`TOTP algorithm must be SHA1, SHA256 or SHA512, got: ${algorithm}`);
+  }
+
+  return { key: decodeBase32(secret), digits, period, algorithm: algorithm as TotpAlgorithm };
+}
+
+/**
+ * HOTP code (RFC 4226) for a counter
+ */
+export function generateHotp(
+  key: Uint8Array,
+  counter: number,
+  digits: number = DEFAULT_TOTP_DIGITS,
+  algorithm: TotpAlgorithm = DEFAULT_TOTP_ALGORITHM
+): string {
+  const message = new Uint8Array(8);
+  const view = new DataView(message.buffer);
+  view.setUint32(0, Math.floor(counter / 0x100000000));
+  view.setUint32(4, counter >>> 0);
+
+  const mac = hmac(algorithm, key, message);
+  const offset = mac[mac.length - 1] & 0x0f;
+  const binary = ((mac[offset] & 0x7f) << 24)
+    | (mac[offset + 1] << 16)
+    | (mac[offset + 2] << 8)
+    | mac[offset + 3];
+  return String(binary % 10 ** digits).padStart(digits, '0');
+}
+
+/**
+ * TOTP code (RFC 6238) at a time
+ */
+export function generateTotp(config: TotpConfig, time: number = Date.now()): string {
+  return generateHotp(config.key, Math.floor(time / 1000 / config.period), config.digits, config.algorithm);
+}
+
+/**
+ * Milliseconds until the code at a time expires
+ */
+export function getTotpTimeRemaining(config: TotpConfig, time: number = Date.now()): number {
+  const periodMs = config.period * 1000;
+  return periodMs - (time % periodMs);
+}
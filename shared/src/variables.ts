@@ -6,11 +6,16 @@
  * - Built-in variables: !VAR0-9, !EXTRACT, !EXTRACTADD, !LOOP, !DATASOURCE*, !TIMEOUT*
  * - Custom user-defined variables
  * - Variable expansion with {{var}} syntax
+ * - Credential vault secrets with {{!SECRET:name.field}} (masked in extracts)
+ * - One-time passwords with {{!TOTP:name}} from seeds in the vault
  * - ADD command for numeric operations
  */
 
 import { SYSTEM_VARIABLES, SystemVariable, extractVariables } from './parser';
+import { isSecretVariable, maskSecrets, parseSecretReference, type SecretReference, type SecretResolver } from './secrets';
+import { isTotpVariable, parseTotpReference, parseTotpSeed, generateTotp, getTotpTimeRemaining, type TotpConfig } from './totp';
 import { ExpressionEvaluator, preprocessMathExpressions, MacroErrorSignal } from './expression-evaluator';
+import type { DatasourceRowSource } from './datasource';
 
 /**
  * Variable value types
@@ -88,6 +93,9 @@ export const DEFAULT_VALUES: Record<string, VariableValue> = {
   '!DATASOURCE_LINE': 1,
   '!DATASOURCE_COLUMNS': 0,
   '!DATASOURCE_DELIMITER': ',',
+  // Workbook sheet (name or 1-based index) and header-row flag, read when !DATASOURCE is set
+  '!DATASOURCE_SHEET': '',
+  '!DATASOURCE_HEADER': 'NO',
   // Extract variables
   '!EXTRACT': '',
   '!EXTRACTADD': '',
@@ -103,6 +111,9 @@ export const DEFAULT_VALUES: Record<string, VariableValue> = {
   // Error handling
   '!ERRORIGNORE': 'NO',
   '!ERRORLOOP': 'NO',
+  '!ERR_CODE': 0,
+  '!ERR_MESSAGE': '',
+  '!ERR_LINE': 0,
   // Playback control
   '!SINGLESTEP': 'NO',
   '!REPLAYSPEED': 'MEDIUM',
@@ -127,7 +138,7 @@ export const DEFAULT_VALUES: Record<string, VariableValue> = {
   // Download/PDF
   '!DOWNLOADPDF': 'NO',
   // Browser/Page control
-  // !USERAGENT: native-host-only - browser user agent requires extension API
+  // !USERAGENT: User-Agent request header override (see commands/headers)
   '!USERAGENT': '',
   // !POPUP_ALLOWED: URL of site to temporarily allow popups for during macro execution
   '!POPUP_ALLOWED': '',
@@ -138,6 +149,21 @@ export const DEFAULT_VALUES: Record<string, VariableValue> = {
   '!IMAGEFILTER': '',
   // Line number adjustment
   '!LINENUMBER_DELTA': 0,
+  // Request read by NETCAPTURE QUERY or WAIT FOR=REQUEST
+  '!NET_COUNT': 0,
+  '!NET_URL': '',
+  '!NET_METHOD': '',
+  '!NET_STATUS': 0,
+  '!NET_TIME': 0,
+  '!NET_HEADERS': '',
+  '!NET_HEADER': '',
+  '!NET_ERROR': '',
+  // Requests served by the mock queried with MOCK QUERY
+  '!MOCK_HITS': 0,
+  // Seconds a {{!TOTP:...}} code must stay valid, else the next one is awaited (0: never wait)
+  '!TOTP_MIN_VALIDITY': 5,
+  // Item read by STORAGE GET KEY=
+  '!STORAGE_VALUE': '',
 };
 
 /**
@@ -193,18 +219,30 @@ export class VariableContext {
   /** Extract accumulator for !EXTRACTADD */
   private extractAccumulator: string[];
   /** Raw datasource rows for dynamic !COL resolution (original iMacros behavior) */
-  private datasourceRows: string[][] | null;
+  private datasourceRows: string[][] | DatasourceRowSource | null;
+  /** Datasource column names for {{!COL:name}} */
+  private datasourceHeaders: string[];
   /** Optional resolver for !URLCURRENT — returns the live browser URL.
    *  iMacros 8.9.7 reads document.location on every access; this callback
    *  lets the extension keep !URLCURRENT in sync with the actual tab URL. */
   private urlCurrentResolver: (() => string) | null;
+  /** Resolver for {{!SECRET:name.field}} from the credential vault */
+  private secretResolver: SecretResolver | null;
+  /** Secret values resolved so far, masked in extracts and by maskSecrets() */
+  private revealedSecrets: Set<string>;
+  /** Latest code of each {{!TOTP:name}}, masked only in command and log text */
+  private totpCodes: Map<string, string>;
 
   constructor() {
     this.systemVars = new Map();
     this.customVars = new Map();
     this.extractAccumulator = [];
     this.datasourceRows = null;
+    this.datasourceHeaders = [];
     this.urlCurrentResolver = null;
+    this.secretResolver = null;
+    this.revealedSecrets = new Set();
+    this.totpCodes = new Map();
     this.reset();
   }
 
@@ -216,6 +254,7 @@ export class VariableContext {
     this.customVars.clear();
     this.extractAccumulator = [];
     this.datasourceRows = null;
+    this.datasourceHeaders = [];
 
     // Initialize system variables with defaults
     for (const [name, value] of Object.entries(DEFAULT_VALUES)) {
@@ -260,8 +299,9 @@ export class VariableContext {
     if (SYSTEM_VARIABLES.includes(upperName as SystemVariable)) {
       return true;
     }
-    // Check for dynamic patterns like !NOW:format
-    if (upperName.startsWith('!NOW:') || upperName === '!NOW') {
+    // Check for dynamic patterns like !NOW:format, !COL:name, !SECRET:name.field and !TOTP:name
+    if (upperName.startsWith('!NOW:') || upperName === '!NOW' || upperName.startsWith('!COL:')
+      || isSecretVariable(upperName) || isTotpVariable(upperName)) {
       return true;
     }
     return false;
@@ -279,7 +319,7 @@ export class VariableContext {
     const yesNoVars = [
       '!ERRORIGNORE', '!ERRORLOOP', '!SINGLESTEP',
       '!EXTRACT_TEST_POPUP', '!STOPWATCH', '!STOPWATCH_HEADER',
-      '!WAITPAGECOMPLETE', '!DOWNLOADPDF',
+      '!WAITPAGECOMPLETE', '!DOWNLOADPDF', '!DATASOURCE_HEADER',
     ];
     if (yesNoVars.includes(upperName)) {
       if (strValue !== 'YES' && strValue !== 'NO') {
@@ -301,7 +341,7 @@ export class VariableContext {
     // Timeout variables must be non-negative numbers
     const timeoutVars = [
       '!TIMEOUT', '!TIMEOUT_STEP', '!TIMEOUT_PAGE',
-      '!TIMEOUT_TAG', '!TIMEOUT_MACRO',
+      '!TIMEOUT_TAG', '!TIMEOUT_MACRO', '!TOTP_MIN_VALIDITY',
     ];
     if (timeoutVars.includes(upperName)) {
       if (isNaN(numValue) || numValue < 0) {
@@ -391,6 +431,25 @@ export class VariableContext {
       return this.resolveDatasourceColumn(parseInt(colMatch[1], 10));
     }
 
+    // Handle !COL:name - datasource column by header name
+    if (upperName.startsWith('!COL:')) {
+      return this.resolveNamedColumn(name.substring(5));
+    }
+
+    // Handle !SECRET:name.field - resolved from the vault on every access
+    if (isSecretVariable(upperName)) {
+      return this.resolveSecret(parseSecretReference(name), name);
+    }
+
+    // Handle !TOTP:name - the current code for a seed in the vault
+    if (isTotpVariable(upperName)) {
+      const code = generateTotp(this.resolveTotpConfig(name));
+      // Codes expire within seconds and often repeat in page text, so
+      // they are not added to revealedSecrets (which masks extracts)
+      this.totpCodes.set(upperName, code);
+      return code;
+    }
+
     // System variable
     if (upperName.startsWith('!')) {
       const value = this.systemVars.get(upperName);
@@ -430,11 +489,11 @@ export class VariableContext {
         return '';
       }
 
-      const row = this.datasourceRows[rowIndex];
+      const row = this.getDatasourceRow(rowIndex);
       const colIndex = colNum - 1;
 
       // Return column value or empty string if out of bounds
-      return row[colIndex] ?? '';
+      return row?.[colIndex] ?? '';
     }
 
     // Fallback: read from stored value (backward compatibility with setDatasourceCols)
@@ -443,6 +502,55 @@ export class VariableContext {
     return typeof value === 'string' ? value : '';
   }
 
+  /**
+   * Resolve {{!COL:name}} from the current datasource row by column name
+   * (case-insensitive). Returns null if there is no such column.
+   */
+  private resolveNamedColumn(columnName: string): string | null {
+    const target = columnName.trim().toLowerCase();
+    const index = this.datasourceHeaders.findIndex((h) => h.trim().toLowerCase() === target);
+    if (index === -1 || !this.datasourceRows) {
+      return null;
+    }
+
+    const lineNum = this.systemVars.get('!DATASOURCE_LINE');
+    const line = typeof lineNum === 'number' ? lineNum : parseInt(String(lineNum), 10) || 1;
+    const row = this.getDatasourceRow(line - 1);
+    return row ? row[index] ?? '' : '';
+  }
+
+  /**
+   * Resolve {{!SECRET:name.field}} with the secret resolver (names keep their
+   * case). Throws when there is no vault or the secret is not available, so
+   * the command fails instead of typing an empty password.
+   */
+  private resolveSecret(reference: SecretReference, name: string): string {
+    if (!this.secretResolver) {
+      throw new Error(`No credential vault available for {{${name}}}`);
+    }
+    const value = this.secretResolver(reference);
+    this.revealedSecrets.add(value);
+    return value;
+  }
+
+  /**
+   * Read the TOTP seed of {{!TOTP:name}} from the vault
+   */
+  private resolveTotpConfig(name: string): TotpConfig {
+    return parseTotpSeed(this.resolveSecret(parseTotpReference(name), name));
+  }
+
+  /**
+   * Get a datasource row by 0-based index, from memory or a streamed file
+   */
+  private getDatasourceRow(index: number): string[] | undefined {
+    const rows = this.datasourceRows;
+    if (!rows || index < 0) {
+      return undefined;
+    }
+    return Array.isArray(rows) ? rows[index] : rows.getRow(index);
+  }
+
   /**
    * Resolve !NOW variable with optional format
    */
@@ -517,6 +625,16 @@ export class VariableContext {
         };
       }
 
+      // Secrets and codes come from the vault only (and must not be resolved here)
+      if (isSecretVariable(upperName) || isTotpVariable(upperName)) {
+        return {
+          success: false,
+          previousValue: null,
+          newValue: value,
+          error: `System variable ${name} is read-only`,
+        };
+      }
+
       // Some system variables are read-only
       const readOnlyVars = ['!NOW', '!URLCURRENT', '!DATASOURCE_COLUMNS'];
       if (readOnlyVars.some(v => upperName.startsWith(v))) {
@@ -557,7 +675,7 @@ export class VariableContext {
       if (upperName === '!EXTRACT') {
         // Clear and restart accumulator
         this.extractAccumulator = [];
-        const strValue = String(value);
+        const strValue = this.maskSecrets(String(value));
         if (!/^null$/i.test(strValue)) {
           this.extractAccumulator.push(strValue);
         }
@@ -566,7 +684,7 @@ export class VariableContext {
         this.systemVars.set('!EXTRACTADD', accumulated);
       } else if (upperName === '!EXTRACTADD') {
         // Just append to accumulator
-        this.extractAccumulator.push(String(value));
+        this.extractAccumulator.push(this.maskSecrets(String(value)));
         const accumulated = this.extractAccumulator.join('[EXTRACT]');
         this.systemVars.set('!EXTRACT', accumulated);
         this.systemVars.set('!EXTRACTADD', accumulated);
@@ -653,6 +771,7 @@ export class VariableContext {
    */
   addExtractData(value: string): AddResult {
     const previousValue = this.systemVars.get('!EXTRACT') ?? null;
+    value = this.maskSecrets(value);
 
     if (this.extractAccumulator.length > 0) {
       // Append with [EXTRACT] delimiter
@@ -734,18 +853,35 @@ export class VariableContext {
    * Set the raw datasource rows for dynamic !COL resolution.
    * This enables original iMacros behavior where {{!COL1}} reads
    * directly from the datasource based on !DATASOURCE_LINE.
+   * When column names are given, {{!COL:name}} resolves too and
+   * !DATASOURCE_COLUMNS reports the names (comma-separated) instead of the count.
+   * A row source (e.g. a streamed file) is read on demand instead of copied.
    */
-  setDatasourceRows(rows: string[][]): void {
+  setDatasourceRows(rows: string[][] | DatasourceRowSource, headers: string[] = []): void {
     this.datasourceRows = rows;
+    this.datasourceHeaders = headers;
+    if (headers.length > 0) {
+      this.systemVars.set('!DATASOURCE_COLUMNS', headers.join(','));
+      return;
+    }
     // Update column count
-    const maxCols = rows.reduce((max, row) => Math.max(max, row.length), 0);
+    const maxCols = Array.isArray(rows)
+      ? rows.reduce((max, row) => Math.max(max, row.length), 0)
+      : rows.columnCount;
     this.systemVars.set('!DATASOURCE_COLUMNS', maxCols);
   }
 
+  /**
+   * Get the datasource column names
+   */
+  getDatasourceHeaders(): string[] {
+    return this.datasourceHeaders;
+  }
+
   /**
    * Get the raw datasource rows
    */
-  getDatasourceRows(): string[][] | null {
+  getDatasourceRows(): string[][] | DatasourceRowSource | null {
     return this.datasourceRows;
   }
 
@@ -833,6 +969,34 @@ export class VariableContext {
     this.urlCurrentResolver = resolver;
   }
 
+  /**
+   * Register the resolver for {{!SECRET:name.field}} (the credential vault).
+   * Without one, secret references fail.
+   */
+  setSecretResolver(resolver: SecretResolver | null): void {
+    this.secretResolver = resolver;
+  }
+
+  /**
+   * Milliseconds until the current code of a {{!TOTP:name}} variable expires.
+   * Throws like expanding the variable when the seed is not available.
+   */
+  getTotpTimeRemaining(name: string): number {
+    return getTotpTimeRemaining(this.resolveTotpConfig(name));
+  }
+
+  /**
+   * Replace the secret values resolved so far with a mask. With
+   * includeTotpCodes the latest {{!TOTP:name}} codes are masked as well.
+   */
+  maskSecrets(text: string, includeTotpCodes = false): string {
+    const withCodes = includeTotpCodes && this.totpCodes.size > 0;
+    if (this.revealedSecrets.size === 0 && !withCodes) {
+      return text;
+    }
+    return maskSecrets(text, withCodes ? [...this.revealedSecrets, ...this.totpCodes.values()] : this.revealedSecrets);
+  }
+
   /**
    * Set clipboard content
    */
@@ -987,6 +1151,10 @@ export class VariableContext {
     cloned.extractAccumulator = [...this.extractAccumulator];
     // Share datasource rows reference (immutable data)
     cloned.datasourceRows = this.datasourceRows;
+    cloned.datasourceHeaders = this.datasourceHeaders;
+    cloned.secretResolver = this.secretResolver;
+    cloned.revealedSecrets = new Set(this.revealedSecrets);
+    cloned.totpCodes = new Map(this.totpCodes);
     return cloned;
   }
 }
@@ -1069,6 +1237,69 @@ export function evaluateExpression(expr: string, context: VariableContext): numb
   return 0;
 }
 
+/**
+ * Result of evaluating a control flow condition
+ */
+export interface ConditionResult {
+  success: boolean;
+  value: boolean;
+  error?: string;
+}
+
+/**
+ * Apply a rewrite to the parts of an expression outside "..." and '...' literals
+ */
+function rewriteOutsideStrings(expr: string, rewrite: (code: string) => string): string {
+  return expr
+    .split(/("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*')/)
+    .map((part, i) => (i % 2 === 0 ? rewrite(part) : part))
+    .join('');
+}
+
+/**
+ * Evaluate an IF/ELSEIF/WHILE condition using the safe ExpressionEvaluator.
+ *
+ * Unlike evaluateExpression, {{var}} references are bound as values instead
+ * of being expanded into the expression text, so extracted text can be
+ * compared without quoting: {{!EXTRACT}} == "Done". Values that look like
+ * numbers are compared as numbers, so {{!LOOP}} > 3 works on stored strings,
+ * and == / != compare them with numeric string literals as numbers
+ * ({{!EXTRACT}} == "12"). JavaScript-style &&, ||, === and !== are accepted
+ * as aliases outside string literals.
+ */
+export function evaluateCondition(expr: string, context: VariableContext): ConditionResult {
+  const cleaned = rewriteOutsideStrings(preprocessMathExpressions(expr.trim()), (code) => code
+    .replace(/&&/g, ' and ')
+    .replace(/\|\|/g, ' or ')
+    .replace(/===/g, '==')
+    .replace(/!==/g, '!='));
+
+  const provider = {
+    get(name: string): string | number | undefined {
+      const value = context.get(name);
+      if (value === null) return '';
+      if (typeof value === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(value)) {
+        return parseFloat(value);
+      }
+      return value;
+    },
+    has(): boolean {
+      return true;
+    },
+  };
+
+  const evaluator = new ExpressionEvaluator({ looseEquality: true });
+  const result = evaluator.evaluate(cleaned, provider);
+  if (!result.success) {
+    return { success: false, value: false, error: result.error };
+  }
+  const value = result.value;
+  return {
+    success: true,
+    value: typeof value === 'number' ? value !== 0 && !isNaN(value) : Boolean(value),
+  };
+}
+
 /**
  * Execute a SET command
  */
@@ -0,0 +1,401 @@
+/**
+ * iMacros Worker Pool
+ *
+ * Runs a datasource-driven macro in several tabs at once:
+ * - Each worker owns one tab, one MacroExecutor (with its own StateManager),
+ *   its own ExecutionBridges and its own DatasourceManager
+ * - Workers take the next unprocessed datasource row until none are left
+ * - Each row runs the macro once with !LOOP and !DATASOURCE_LINE set to the
+ *   row number, as the matching Play (Loop) iteration would
+ * - Extracted data is merged in row order, whichever worker finished first
+ * - Cleanup (FILTER, HEADER and MOCK rules, NETCAPTURE) runs once, after the
+ *   last row, as it does after the last loop of Play (Loop)
+ *
+ * The host supplies the workers (see PoolWorker): typically a browser bridge
+ * bound to a newly opened tab and the command handlers registered for it.
+ */
+
+import {
+  MacroExecutor,
+  createExecutor,
+  IMACROS_ERROR_CODES,
+  type ExecutorOptions,
+  type ExecutionBridges,
+  type IMacrosErrorCode,
+  type LogCallback,
+} from './executor';
+import type { VariableValue } from './variables';
+import {
+  createDatasourceManager,
+  isDatasourceFile,
+  type DatasourceContent,
+  type DatasourceOptions,
+} from './datasource';
+import type { DatasourceFile } from './datasource-stream';
+
+// ===== Types =====
+
+/**
+ * One worker supplied by the host
+ */
+export interface PoolWorker {
+  /** Bridges bound to the worker's tab (the pool adds a DatasourceManager) */
+  bridges: Omit<ExecutionBridges, 'datasourceManager'>;
+  /** Register command handlers on the worker's executor */
+  setup?: (executor: MacroExecutor) => void;
+  /** Release the worker's tab once the pool is done */
+  close?: () => Promise<void> | void;
+}
+
+/**
+ * Worker states reported in WorkerProgress
+ */
+export type WorkerStatus = 'running' | 'done' | 'error' | 'stopped';
+
+/**
+ * Progress of one worker
+ */
+export interface WorkerProgress {
+  /** Worker number (1-based) */
+  worker: number;
+  /** Worker state */
+  status: WorkerStatus;
+  /** Datasource row the worker is on (1-based) */
+  row?: number;
+  /** Rows this worker has finished */
+  rowsCompleted: number;
+  /** Rows in the whole job */
+  totalRows: number;
+  /** Line being executed in the current row */
+  currentLine?: number;
+  /** Lines in the macro */
+  totalLines?: number;
+  /** Error of the row that failed */
+  errorMessage?: string;
+}
+
+/**
+ * Outcome of one datasource row
+ */
+export interface PoolRowResult {
+  /** Datasource row (1-based) */
+  row: number;
+  /** Worker that ran the row (1-based) */
+  worker: number;
+  success: boolean;
+  errorCode: IMacrosErrorCode;
+  errorMessage?: string;
+  errorLine?: number;
+  /** Data extracted while running the row */
+  extractData: string[];
+}
+
+/**
+ * Outcome of a whole pool run
+ */
+export interface WorkerPoolResult {
+  success: boolean;
+  errorCode: IMacrosErrorCode;
+  errorMessage?: string;
+  /** Row that caused the error */
+  errorRow?: number;
+  /** Rows that finished (successfully or not) */
+  rowsCompleted: number;
+  executionTimeMs: number;
+  /** Extracted data of every row, in row order */
+  extractData: string[];
+  /** Per-row outcomes, in row order */
+  rows: PoolRowResult[];
+}
+
+/**
+ * Callback for worker progress updates
+ */
+export type WorkerProgressCallback = (progress: WorkerProgress) => void;
+
+/**
+ * Options for a WorkerPool
+ */
+export interface WorkerPoolOptions {
+  /** Macro source */
+  macro: string;
+  /** Macro name/path */
+  macroName?: string;
+  /** Number of tabs to run in (capped at the row count) */
+  workers: number;
+  /** Datasource rows to process (see countDatasourceRows) */
+  rowCount: number;
+  /** Create worker n (1-based) */
+  createWorker: (worker: number) => Promise<PoolWorker> | PoolWorker;
+  /** Keep handing out rows after a row fails (default: stop, like a failed loop) */
+  continueOnError?: boolean;
+  /** Variables set before each row runs */
+  initialVariables?: Record<string, VariableValue>;
+  /** Worker progress callback */
+  onWorkerProgress?: WorkerProgressCallback;
+  /** Log callback (messages are prefixed with the worker number) */
+  onLog?: LogCallback;
+  /** Passed to every worker's executor; called by each worker for its own datasource */
+  onDatasourceLoad?: ExecutorOptions['onDatasourceLoad'];
+  /** Passed to every worker's executor */
+  onNativeEval?: ExecutorOptions['onNativeEval'];
+  /** Passed to every worker's executor */
+  onMacroLoad?: ExecutorOptions['onMacroLoad'];
+  /** Passed to every worker's executor */
+  secretResolver?: ExecutorOptions['secretResolver'];
+}
+
+// ===== Datasource Rows =====
+
+/**
+ * Count the data rows of a datasource, the way SET !DATASOURCE would load it.
+ * A streamed file is closed afterwards. Throws when the datasource cannot be parsed.
+ */
+export function countDatasourceRows(
+  content: DatasourceContent | DatasourceFile,
+  filePath: string,
+  options?: DatasourceOptions
+): number {
+  const manager = createDatasourceManager();
+  const loaded = isDatasourceFile(content)
+    ? manager.loadFromFile(content, filePath, options)
+    : manager.loadFromContent(content, filePath, options);
+  if (!loaded.success) {
+    throw new Error(loaded.error || `Cannot load datasource ${filePath}`);
+  }
+  const rowCount = manager.getRowCount();
+  manager.unload();
+  return rowCount;
+}
+
+// ===== Worker Pool =====
+
+/**
+ * Runs one macro over datasource rows in several tabs
+ */
+export class WorkerPool {
+  private options: WorkerPoolOptions;
+  /** Executors of the running workers */
+  private executors: MacroExecutor[] = [];
+  /** Next row to hand out (1-based) */
+  private nextRow = 1;
+  /** Set by stop() or by a failed row: no more rows are handed out */
+  private stopped = false;
+  /** Whether stop() was called */
+  private stopRequested = false;
+  /** Rows finished per worker */
+  private rowsCompletedBy = new Map<number, number>();
+
+  constructor(options: WorkerPoolOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Run every row and merge the results
+   */
+  async run(): Promise<WorkerPoolResult> {
+    const startTime = Date.now();
+    const { rowCount } = this.options;
+    const workerCount = Math.max(1, Math.min(Math.floor(this.options.workers) || 1, rowCount));
+
+    if (rowCount < 1) {
+      return this.buildResult([], startTime, {
+        errorCode: IMACROS_ERROR_CODES.DATASOURCE_ERROR,
+        errorMessage: 'Datasource has no rows to run',
+      });
+    }
+
+    this.nextRow = 1;
+    this.stopped = false;
+    this.stopRequested = false;
+    this.rowsCompletedBy.clear();
+
+    const started = await Promise.allSettled(
+      Array.from({ length: workerCount }, async (_, i) => this.options.createWorker(i + 1))
+    );
+    const workers = started.flatMap(s => (s.status === 'fulfilled' ? [s.value] : []));
+    const failed = started.findIndex(s => s.status === 'rejected');
+    if (failed !== -1) {
+      await this.closeWorkers(workers);
+      const reason = (started[failed] as PromiseRejectedResult).reason;
+      return this.buildResult([], startTime, {
+        errorCode: IMACROS_ERROR_CODES.SCRIPT_ERROR,
+        errorMessage: `Cannot start worker ${failed + 1}: ${reason instanceof Error ? reason.message : String(reason)}`,
+      });
+    }
+
+    this.executors = workers.map((worker, i) => this.createWorkerExecutor(worker, i + 1));
+
+    const executors = this.executors;
+    const rows: PoolRowResult[] = [];
+    try {
+      await Promise.all(executors.map((executor, i) => this.runWorker(executor, i + 1, rows)));
+    } finally {
+      this.executors = [];
+      // Rules are shared by all tabs, so they are cleared only when every worker is done
+      for (const executor of executors) {
+        await executor.runCleanup();
+      }
+      await this.closeWorkers(workers);
+    }
+
+    rows.sort((a, b) => a.row - b.row);
+    const firstError = rows.find(r => !r.success);
+    if (this.stopRequested) {
+      return this.buildResult(rows, startTime, {
+        errorCode: IMACROS_ERROR_CODES.USER_ABORT,
+        errorMessage: 'Stopped by user',
+      });
+    }
+    if (firstError) {
+      return this.buildResult(rows, startTime, {
+        errorCode: firstError.errorCode,
+        errorMessage: `Row ${firstError.row}: ${firstError.errorMessage ?? 'failed'}`,
+        errorRow: firstError.row,
+      });
+    }
+    return this.buildResult(rows, startTime);
+  }
+
+  /**
+   * Stop every worker; rows not yet started are skipped
+   */
+  stop(): void {
+    this.stopped = true;
+    this.stopRequested = true;
+    for (const executor of this.executors) {
+      executor.stop();
+    }
+  }
+
+  /**
+   * Create the executor of one worker, with its own bridges and datasource
+   */
+  private createWorkerExecutor(worker: PoolWorker, workerNumber: number): MacroExecutor {
+    const executor = createExecutor({
+      macroName: this.options.macroName,
+      onLog: this.options.onLog
+        ? (level, message) => this.options.onLog!(level, `[worker ${workerNumber}] ${message}`)
+        : undefined,
+      onProgress: (progress) => {
+        this.options.onWorkerProgress?.({
+          worker: workerNumber,
+          status: 'running',
+          row: progress.currentLoop,
+          rowsCompleted: this.rowsCompletedBy.get(workerNumber) ?? 0,
+          totalRows: this.options.rowCount,
+          currentLine: progress.currentLine,
+          totalLines: progress.totalLines,
+        });
+      },
+      onDatasourceLoad: this.options.onDatasourceLoad,
+      onNativeEval: this.options.onNativeEval,
+      onMacroLoad: this.options.onMacroLoad,
+      secretResolver: this.options.secretResolver,
+      bridges: { ...worker.bridges, datasourceManager: createDatasourceManager() },
+      deferCleanup: true,
+    });
+    worker.setup?.(executor);
+    executor.loadMacro(this.options.macro);
+    return executor;
+  }
+
+  /**
+   * Run rows on one worker until none are left or the pool stops
+   */
+  private async runWorker(executor: MacroExecutor, workerNumber: number, rows: PoolRowResult[]): Promise<void> {
+    const { rowCount, onWorkerProgress } = this.options;
+    let completed = 0;
+    let status: WorkerStatus = 'done';
+    this.rowsCompletedBy.set(workerNumber, 0);
+
+    while (!this.stopped && this.nextRow <= rowCount) {
+      const row = this.nextRow++;
+      executor.setInitialVariables({
+        ...this.options.initialVariables,
+        '!LOOP': row,
+        '!DATASOURCE_LINE': row,
+      });
+      executor.getState().setMaxLoops(row);
+
+      const result = await executor.execute();
+      completed++;
+      this.rowsCompletedBy.set(workerNumber, completed);
+      rows.push({
+        row,
+        worker: workerNumber,
+        success: result.success,
+        errorCode: result.errorCode,
+        errorMessage: result.errorMessage,
+        errorLine: result.errorLine,
+        extractData: result.extractData,
+      });
+
+      if (!result.success && !this.stopRequested) {
+        status = 'error';
+        onWorkerProgress?.({
+          worker: workerNumber,
+          status,
+          row,
+          rowsCompleted: completed,
+          totalRows: rowCount,
+          errorMessage: result.errorMessage,
+        });
+        if (!this.options.continueOnError) {
+          // Other workers finish the row they are on, then stop
+          this.stopped = true;
+        }
+      }
+    }
+
+    if (this.stopRequested) {
+      status = 'stopped';
+    }
+    onWorkerProgress?.({
+      worker: workerNumber,
+      status,
+      rowsCompleted: completed,
+      totalRows: rowCount,
+    });
+  }
+
+  /**
+   * Release the workers' tabs, ignoring failures
+   */
+  private async closeWorkers(workers: PoolWorker[]): Promise<void> {
+    await Promise.all(workers.map(async (worker) => {
+      try {
+        await worker.close?.();
+      } catch (error) {
+        this.options.onLog?.('warn', `Failed to close worker: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }));
+  }
+
+  /**
+   * Build the pool result from the finished rows
+   */
+  private buildResult(
+    rows: PoolRowResult[],
+    startTime: number,
+    error?: { errorCode: IMacrosErrorCode; errorMessage: string; errorRow?: number }
+  ): WorkerPoolResult {
+    return {
+      success: !error,
+      errorCode: error?.errorCode ?? IMACROS_ERROR_CODES.OK,
+      errorMessage: error?.errorMessage,
+      errorRow: error?.errorRow,
+      rowsCompleted: rows.length,
+      executionTimeMs: Date.now() - startTime,
+      extractData: rows.flatMap(r => r.extractData),
+      rows,
+    };
+  }
+}
+
+/**
+ * Create a worker pool
+ */
+export function createWorkerPool(options: WorkerPoolOptions): WorkerPool {
+  return new WorkerPool(options);
+}
@@ -0,0 +1,421 @@
+/**
+ * Minimal XLSX Reader and Writer for iMacros
+ *
+ * Reads cell values from .xlsx workbooks (Office Open XML spreadsheets).
+ * A workbook is a ZIP archive of XML parts; this module reads the ZIP
+ * central directory, the shared string table, the workbook sheet list and
+ * the selected worksheet.
+ *
+ * writeXlsx builds a single-sheet workbook of text cells (used by
+ * SAVEAS TYPE=XLSX). Parts are stored uncompressed, so writing needs no
+ * compressor either.
+ *
+ * Decompression is injected (see InflateRaw) so the module has no runtime
+ * dependency: the native host passes zlib.inflateRawSync.
+ *
+ * Cell values are returned as stored: numbers (including dates, which
+ * Excel stores as serial numbers) keep their raw text, booleans become
+ * TRUE/FALSE and formulas yield their cached result.
+ */
+
+/**
+ * Raw DEFLATE decompressor (no zlib header), e.g. zlib.inflateRawSync
+ */
+export type InflateRaw = (data: Uint8Array) => Uint8Array;
+
+/**
+ * A sheet listed in the workbook
+ */
+export interface XlsxSheetInfo {
+  /** Sheet name as shown on its tab */
+  name: string;
+  /** Path of the worksheet part inside the archive */
+  path: string;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+/**
+ * Read the entries of a ZIP archive. Entry data is decompressed on access.
+ */
+function readZipEntries(data: Uint8Array, inflateRaw: InflateRaw): Map<string, () => Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // The end-of-central-directory record sits in the last 22 + 65535 (comment) bytes
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not an XLSX file (ZIP directory not found)');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, () => Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+      throw new Error('Corrupt XLSX file (bad ZIP directory entry)');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    entries.set(name, () => {
+      if (view.getUint32(localOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupt XLSX file (bad ZIP entry ${name})`);
+      }
+      const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+      const raw = data.subarray(start, start + compressedSize);
+      if (method === 0) return raw;
+      if (method === 8) return inflateRaw(raw);
+      throw new Error(`Unsupported ZIP compression method ${method} for ${name}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Decode the XML entities used in spreadsheet parts
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|lt|gt|amp|quot|apos);/g, (_, entity: string) => {
+    switch (entity) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      default:
+        return String.fromCodePoint(entity[1] === 'x'
+          ? parseInt(entity.substring(2), 16)
+          : parseInt(entity.substring(1), 10));
+    }
+  });
+}
+
+/**
+ * Parse the attributes of an XML start tag
+ */
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const regex = /([\w:]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = regex.exec(tag)) !== null) {
+    attributes[match[1]] = decodeXmlEntities(match[2] ?? match[3]);
+  }
+  return attributes;
+}
+
+/**
+ * Concatenate the <t> runs of a string item, skipping phonetic hints
+ */
+function readTextRuns(xml: string): string {
+  const withoutPhonetic = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  const regex = /<t\b[^>]*>([\s\S]*?)<\/t>/g;
+  let match;
+  while ((match = regex.exec(withoutPhonetic)) !== null) {
+    text += decodeXmlEntities(match[1]);
+  }
+  return text;
+}
+
+/**
+ * Convert a cell reference's column letters (e.g. "AB12") to a 0-based index
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Resolve a relationship target against the xl/ folder
+ */
+function resolvePartPath(target: string): string {
+  return target.startsWith('/') ? target.substring(1) : `xl/${target.replace(/^\.\//, '')}`;
+}
+
+/**
+ * Open a workbook and return a reader for its parts
+ */
+function openWorkbook(data: Uint8Array, inflateRaw: InflateRaw) {
+  const entries = readZipEntries(data, inflateRaw);
+  const decoder = new TextDecoder();
+  const readPart = (path: string): string | null => {
+    const entry = entries.get(path);
+    return entry ? decoder.decode(entry()) : null;
+  };
+
+  const workbookXml = readPart('xl/workbook.xml');
+  if (workbookXml === null) {
+    throw new Error('Not an XLSX file (xl/workbook.xml missing)');
+  }
+
+  const targets = new Map<string, string>();
+  for (const tag of (readPart('xl/_rels/workbook.xml.rels') || '').match(/<Relationship\b[^>]*>/g) || []) {
+    const attributes = parseAttributes(tag);
+    targets.set(attributes.Id, resolvePartPath(attributes.Target));
+  }
+
+  const sheets: XlsxSheetInfo[] = [];
+  for (const tag of workbookXml.match(/<sheet\b[^>]*>/g) || []) {
+    const attributes = parseAttributes(tag);
+    const path = targets.get(attributes['r:id']);
+    if (path) {
+      sheets.push({ name: attributes.name, path });
+    }
+  }
+
+  return { sheets, readPart };
+}
+
+/**
+ * List the sheets of a workbook in tab order
+ */
+export function listXlsxSheets(data: Uint8Array, inflateRaw: InflateRaw): XlsxSheetInfo[] {
+  return openWorkbook(data, inflateRaw).sheets;
+}
+
+/**
+ * Read a worksheet as rows of cell text
+ *
+ * @param data - The .xlsx file content
+ * @param inflateRaw - Raw DEFLATE decompressor
+ * @param sheet - Sheet name (case-insensitive) or 1-based index; defaults to the first sheet
+ * @returns Rows in sheet order; missing cells are empty strings
+ */
+export function readXlsxSheet(
+  data: Uint8Array,
+  inflateRaw: InflateRaw,
+  sheet?: string | number
+): string[][] {
+  const { sheets, readPart } = openWorkbook(data, inflateRaw);
+
+  let selected: XlsxSheetInfo | undefined;
+  if (sheet === undefined || sheet === '') {
+    selected = sheets[0];
+  } else if (typeof sheet === 'number' || /^\d+$/.test(sheet)) {
+    selected = sheets[Number(sheet) - 1];
+  } else {
+    selected = sheets.find((s) => s.name.toLowerCase() === sheet.toLowerCase());
+  }
+  if (!selected) {
+    const names = sheets.map((s) => s.name).join(', ');
+    throw new Error(sheet === undefined || sheet === ''
+      ? 'Workbook has no sheets'
+      : `Sheet not found: ${sheet} (available: ${names})`);
+  }
+
+  const sharedStrings = (readPart('xl/sharedStrings.xml')?.match(/<si\b[\s\S]*?<\/si>/g) || [])
+    .map(readTextRuns);
+  const sheetXml = readPart(selected.path);
+  if (sheetXml === null) {
+    throw new Error(`Corrupt XLSX file (${selected.path} missing)`);
+  }
+
+  const rows: string[][] = [];
+  // Blank rows are often left out or written as <row r="3"/>; index rows by
+  // their r attribute so row numbers match the spreadsheet
+  const rowRegex = /<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g;
+  let rowMatch;
+  while ((rowMatch = rowRegex.exec(sheetXml)) !== null) {
+    const rowNumber = parseInt(parseAttributes(rowMatch[1]).r ?? '', 10);
+    const rowIndex = rowNumber > 0 ? rowNumber - 1 : rows.length;
+    while (rows.length < rowIndex) rows.push([]);
+    const rowXml = rowMatch[2] || '';
+    const row: string[] = [];
+    const cellRegex = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+    let match;
+    while ((match = cellRegex.exec(rowXml)) !== null) {
+      const attributes = parseAttributes(match[1]);
+      const body = match[2] || '';
+      const rawValue = /<v\b[^>]*>([\s\S]*?)<\/v>/.exec(body);
+      const value = rawValue ? decodeXmlEntities(rawValue[1]) : '';
+
+      let text: string;
+      switch (attributes.t) {
+        case 's':
+          text = sharedStrings[parseInt(value, 10)] ?? '';
+          break;
+        case 'inlineStr':
+          text = readTextRuns(body);
+          break;
+        case 'b':
+          text = value === '1' ? 'TRUE' : value === '0' ? 'FALSE' : value;
+          break;
+        default:
+          text = value;
+      }
+
+      const index = attributes.r ? columnIndex(attributes.r) : row.length;
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+    rows[rowIndex] = row;
+  }
+
+  return rows;
+}
+
+// ===== Writer =====
+
+let crcTable: Uint32Array | null = null;
+
+/**
+ * CRC-32 (IEEE) checksum of a ZIP entry
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Build a ZIP archive with every entry stored (no compression)
+ */
+function writeZip(entries: Array<{ name: string; data: Uint8Array }>): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = entries.map((entry) => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+  const localSize = files.reduce((sum, f) => sum + 30 + f.nameBytes.length + f.data.length, 0);
+  const centralSize = files.reduce((sum, f) => sum + 46 + f.nameBytes.length, 0);
+  const out = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(out.buffer);
+
+  const offsets: number[] = [];
+  let offset = 0;
+  for (const f of files) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, 20, true);  // version needed
+    view.setUint16(offset + 6, 0x0800, true);  // UTF-8 names
+    view.setUint32(offset + 14, f.crc, true);
+    view.setUint32(offset + 18, f.data.length, true);
+    view.setUint32(offset + 22, f.data.length, true);
+    view.setUint16(offset + 26, f.nameBytes.length, true);
+    out.set(f.nameBytes, offset + 30);
+    out.set(f.data, offset + 30 + f.nameBytes.length);
+    offset += 30 + f.nameBytes.length + f.data.length;
+  }
+
+  const centralStart = offset;
+  files.forEach((f, i) => {
+    view.setUint32(offset, CENTRAL_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, 20, true);  // version made by
+    view.setUint16(offset + 6, 20, true);  // version needed
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint32(offset + 16, f.crc, true);
+    view.setUint32(offset + 20, f.data.length, true);
+    view.setUint32(offset + 24, f.data.length, true);
+    view.setUint16(offset + 28, f.nameBytes.length, true);
+    view.setUint32(offset + 42, offsets[i], true);
+    out.set(f.nameBytes, offset + 46);
+    offset += 46 + f.nameBytes.length;
+  });
+
+  view.setUint32(offset, EOCD_SIGNATURE, true);
+  view.setUint16(offset + 8, files.length, true);
+  view.setUint16(offset + 10, files.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return out;
+}
+
+/**
+ * Escape text for XML content and attributes, dropping characters XML cannot hold
+ */
+function encodeXmlText(text: string): string {
+  return text
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f\ufffe\uffff]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a 0-based column index to its letters (0 -> A, 27 -> AB)
+ */
+function columnLetters(index: number): string {
+  let letters = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+/**
+ * Build a single-sheet workbook with every cell stored as text
+ *
+ * @param rows - Rows of cell text, in sheet order
+ * @param sheetName - Name shown on the sheet tab (default: Sheet1)
+ * @returns The .xlsx file content
+ */
+export function writeXlsx(rows: string[][], sheetName = 'Sheet1'): Uint8Array {
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const mainNs = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+  const relNs = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+  const sheetRows = rows.map((row, r) => {
+    const cells = row.map((value, c) =>
+      `<c r="${columnLetters(c)}${r + 1}" t="inlineStr"><is><t xml:space="preserve">${encodeXmlText(value)}</t></is></c>`);
+    return `<row r="${r + 1}">${cells.join('')}</row>`;
+  });
+
+  // Sheet names cannot contain []:*?/\ and are limited to 31 characters
+  const safeSheetName = sheetName.replace(/[[\]:*?/\\]/g, '_').substring(0, 31) || 'Sheet1';
+
+  const parts: Record<string, string> = {
+    '[Content_Types].xml': `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+      + '</Types>',
+    '_rels/.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + `<Relationship Id="rId1" Type="${relNs}/officeDocument" Target="xl/workbook.xml"/>`
+      + '</Relationships>',
+    'xl/workbook.xml': `${xmlHeader}<workbook xmlns="${mainNs}" xmlns:r="${relNs}">`
+      + `<sheets><sheet name="${encodeXmlText(safeSheetName)}" sheetId="1" r:id="rId1"/></sheets>`
+      + '</workbook>',
+    'xl/_rels/workbook.xml.rels': `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + `<Relationship Id="rId1" Type="${relNs}/worksheet" Target="worksheets/sheet1.xml"/>`
+      + '</Relationships>',
+    'xl/worksheets/sheet1.xml': `${xmlHeader}<worksheet xmlns="${mainNs}">`
+      + `<sheetData>${sheetRows.join('')}</sheetData>`
+      + '</worksheet>',
+  };
+
+  const encoder = new TextEncoder();
+  return writeZip(Object.entries(parts).map(([name, xml]) => ({ name, data: encoder.encode(xml) })));
+}
@@ -229,6 +229,7 @@ describe('Error Code Exhaustiveness', () => {
     // Loop
     expect(IMACROS_ERROR_CODES.LOOP_LIMIT).toBe(-990);
     expect(IMACROS_ERROR_CODES.LOOP_ERROR).toBe(-991);
+    expect(IMACROS_ERROR_CODES.CALL_DEPTH_EXCEEDED).toBe(-992);
 
     // Dialog
     expect(IMACROS_ERROR_CODES.UNHANDLED_DIALOG).toBe(-1450);
@@ -241,9 +242,9 @@ describe('Error Code Exhaustiveness', () => {
     expect(IMACROS_ERROR_CODES.UNKNOWN_ERROR).toBe(-999);
   });
 
-  it('should have exactly 42 error codes', () => {
+  it('should have exactly 43 error codes', () => {
     const codeCount = Object.keys(IMACROS_ERROR_CODES).length;
-    expect(codeCount).toBe(42);
+    expect(codeCount).toBe(43);
   });
 
   it('should have unique numeric values for all error codes', () => {
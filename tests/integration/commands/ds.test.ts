@@ -8,7 +8,7 @@
  * - Error handling for missing datasource, missing CMD, invalid CMD, end-of-data
  * - Integration with the existing DatasourceManager from @shared/datasource
  */
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   MacroExecutor,
   createExecutor,
@@ -439,5 +439,72 @@ describe('DS Command Handler', () => {
       expect(result.variables['!COL1']).toBe('hello');
       expect(result.variables['!COL2']).toBe('world');
     });
+
+    it('should expose JSON object keys as named columns', async () => {
+      const executor = createExecutor({
+        onDatasourceLoad: () => JSON.stringify([
+          { name: 'alice', email: 'alice@example.com' },
+          { name: 'bob', email: 'bob@example.com' },
+        ]),
+      });
+      registerDatasourceHandlers(executor.registerHandler.bind(executor));
+
+      executor.loadMacro([
+        'SET !DATASOURCE users.json',
+        'SET !DATASOURCE_LINE 2',
+        'SET !VAR1 {{!COL:name}}:{{!COL:EMAIL}}',
+        'SET !VAR2 {{!DATASOURCE_COLUMNS}}',
+      ].join('\n'));
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.variables['!VAR1']).toBe('bob:bob@example.com');
+      expect(result.variables['!VAR2']).toBe('name,email');
+    });
+
+    it('should stream a datasource when the callback returns a file handle', async () => {
+      const bytes = new TextEncoder().encode('a1,b1\na2,b2\na3,b3\n');
+      const close = vi.fn();
+      const executor = createExecutor({
+        onDatasourceLoad: () => ({
+          size: bytes.length,
+          read: (position: number, length: number) => bytes.subarray(position, position + length),
+          close,
+        }),
+      });
+      registerDatasourceHandlers(executor.registerHandler.bind(executor));
+
+      executor.loadMacro([
+        'SET !DATASOURCE big.csv',
+        'DS CMD=NEXT',
+        'SET !VAR1 {{!COL2}}',
+        'SET !DATASOURCE_LINE 3',
+        'SET !VAR2 {{!COL1}}',
+      ].join('\n'));
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.variables['!VAR1']).toBe('b2');
+      expect(result.variables['!VAR2']).toBe('a3');
+      expect(getDatasourceManager()?.isStreaming()).toBe(true);
+      expect(close).not.toHaveBeenCalled();
+    });
+
+    it('should use the first CSV row as headers when !DATASOURCE_HEADER is YES', async () => {
+      const executor = createExecutor({
+        onDatasourceLoad: () => 'id,city\n7,Oslo',
+      });
+      registerDatasourceHandlers(executor.registerHandler.bind(executor));
+
+      executor.loadMacro([
+        'SET !DATASOURCE_HEADER YES',
+        'SET !DATASOURCE cities.csv',
+        'SET !VAR1 {{!COL:city}}',
+      ].join('\n'));
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.variables['!VAR1']).toBe('Oslo');
+    });
   });
 });
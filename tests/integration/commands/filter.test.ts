@@ -2,13 +2,15 @@
  * Integration Tests for FILTER Command
  *
  * Tests the FILTER command through the MacroExecutor with a mock BrowserCommandBridge.
- * Verifies filter type handling (IMAGES, FLASH, POPUPS, NONE), status defaults,
- * parameter validation, bridge error handling, and variable expansion.
+ * Verifies filter type handling (IMAGES, FLASH, POPUPS, URL, RESOURCE, NONE),
+ * block rule cleanup, status defaults, parameter validation, bridge error handling,
+ * and variable expansion.
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { createExecutor, MacroExecutor, IMACROS_ERROR_CODES } from '@shared/executor';
 import {
   registerBrowserCommandHandlers,
+  resetFilterRulesState,
   setBrowserCommandBridge,
   BrowserCommandBridge,
   BrowserCommandOperationMessage,
@@ -30,6 +32,7 @@ describe('FILTER Command Integration Tests', () => {
       }),
     };
     setBrowserCommandBridge(mockBridge);
+    resetFilterRulesState();
     executor = createExecutor();
     registerBrowserCommandHandlers(executor);
   });
@@ -163,6 +166,83 @@ describe('FILTER Command Integration Tests', () => {
     });
   });
 
+  // ===== URL and Resource Block Rules =====
+
+  describe('FILTER TYPE=URL', () => {
+    it('should send the expanded PATTERN with status=ON', async () => {
+      executor.loadMacro('SET !VAR1 analytics\nFILTER TYPE=URL PATTERN=*{{!VAR1}}* STATUS=ON');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      const msg = sentMessages[0] as SetFilterMessage;
+      expect(msg).toMatchObject({ type: 'setFilter', filterType: 'URL', status: 'ON', urlPattern: '*analytics*' });
+    });
+
+    it('should require PATTERN when turning the filter on', async () => {
+      executor.loadMacro('FILTER TYPE=URL STATUS=ON');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.MISSING_PARAMETER);
+      expect(result.errorMessage).toBe('FILTER TYPE=URL requires PATTERN parameter');
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should allow STATUS=OFF without PATTERN', async () => {
+      executor.loadMacro('FILTER TYPE=URL STATUS=OFF');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      const msg = sentMessages[0] as SetFilterMessage;
+      expect(msg).toMatchObject({ filterType: 'URL', status: 'OFF' });
+      expect(msg.urlPattern).toBeUndefined();
+    });
+  });
+
+  describe('FILTER TYPE=RESOURCE', () => {
+    it('should map KIND names to resource types', async () => {
+      executor.loadMacro('FILTER TYPE=RESOURCE KIND=script|font|xhr');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      const msg = sentMessages[0] as SetFilterMessage;
+      expect(msg).toMatchObject({ filterType: 'RESOURCE', status: 'ON' });
+      expect(msg.resourceTypes).toEqual(['script', 'font', 'xmlhttprequest']);
+    });
+
+    it('should accept comma-separated kinds', async () => {
+      executor.loadMacro('FILTER TYPE=RESOURCE KIND=IMAGE,CSS STATUS=ON');
+      await executor.execute();
+
+      expect((sentMessages[0] as SetFilterMessage).resourceTypes).toEqual(['image', 'stylesheet']);
+    });
+
+    it('should reject an unknown KIND', async () => {
+      executor.loadMacro('FILTER TYPE=RESOURCE KIND=script|gif');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.INVALID_PARAMETER);
+      expect(result.errorMessage).toContain('Invalid KIND: script|gif');
+      expect(sentMessages).toHaveLength(0);
+    });
+  });
+
+  describe('Block rule cleanup', () => {
+    it('should remove URL and resource rules at macro end', async () => {
+      executor.loadMacro('FILTER TYPE=URL PATTERN=*ads*\nFILTER TYPE=RESOURCE KIND=font');
+      await executor.execute();
+
+      const offMessages = (sentMessages as SetFilterMessage[]).filter(m => m.status === 'OFF');
+      expect(offMessages.map(m => m.filterType).sort()).toEqual(['RESOURCE', 'URL']);
+    });
+
+    it('should not send cleanup messages when no rules were added', async () => {
+      executor.loadMacro('FILTER TYPE=POPUPS STATUS=ON');
+      await executor.execute();
+
+      expect(sentMessages).toHaveLength(1);
+    });
+  });
+
   // ===== Parameter Validation =====
 
   describe('Parameter validation', () => {
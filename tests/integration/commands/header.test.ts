@@ -0,0 +1,171 @@
+/**
+ * Integration Tests for HEADER and SET !USERAGENT
+ *
+ * Tests the request header commands through the MacroExecutor with a mock
+ * BrowserCommandBridge. Verifies set/strip/off messages, DOMAIN parsing,
+ * !USERAGENT overrides, the cleanup that removes header rules at macro end,
+ * parameter validation and bridge errors.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createExecutor, MacroExecutor, IMACROS_ERROR_CODES } from '@shared/executor';
+import {
+  setBrowserCommandBridge,
+  BrowserCommandBridge,
+  BrowserCommandOperationMessage,
+  BrowserCommandResponse,
+  SetHeaderMessage,
+} from '@shared/commands/browser';
+import { registerHeaderHandlers, resetHeaderRulesState, parseHeaderDomains } from '@shared/commands/headers';
+
+describe('HEADER Command Integration Tests', () => {
+  let executor: MacroExecutor;
+  let sentMessages: SetHeaderMessage[];
+  let respond: (message: BrowserCommandOperationMessage) => BrowserCommandResponse;
+
+  beforeEach(() => {
+    sentMessages = [];
+    respond = () => ({ success: true });
+    setBrowserCommandBridge({
+      sendMessage: vi.fn(async (message: BrowserCommandOperationMessage) => {
+        sentMessages.push(message as SetHeaderMessage);
+        return respond(message);
+      }),
+    });
+    resetHeaderRulesState();
+    executor = createExecutor();
+    registerHeaderHandlers(executor);
+  });
+
+  afterEach(() => {
+    setBrowserCommandBridge(null as unknown as BrowserCommandBridge);
+  });
+
+  describe('HEADER NAME=... VALUE=...', () => {
+    it('should send the expanded value and domains, then clear at macro end', async () => {
+      executor.loadMacro('SET token abc123\nHEADER NAME=X-Test VALUE={{token}} DOMAIN=*.example.com');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages[0]).toMatchObject({
+        type: 'setHeader', action: 'set', name: 'X-Test', value: 'abc123', domains: ['example.com'],
+      });
+      expect(sentMessages[1]).toMatchObject({ type: 'setHeader', action: 'off' });
+      expect(sentMessages[1].name).toBeUndefined();
+      expect(sentMessages).toHaveLength(2);
+    });
+
+    it('should apply to all domains without DOMAIN', async () => {
+      executor.loadMacro('HEADER NAME=Accept-Language VALUE=de-DE');
+      await executor.execute();
+
+      expect(sentMessages[0].domains).toBeUndefined();
+      expect(sentMessages[0].value).toBe('de-DE');
+    });
+  });
+
+  describe('STRIP and OFF', () => {
+    it('should strip a header', async () => {
+      executor.loadMacro('HEADER NAME=Referer STRIP');
+      await executor.execute();
+
+      expect(sentMessages[0]).toMatchObject({ action: 'strip', name: 'Referer' });
+    });
+
+    it('should stop modifying one header', async () => {
+      executor.loadMacro('HEADER NAME=X-Test VALUE=1\nHEADER NAME=X-Test OFF');
+      await executor.execute();
+
+      expect(sentMessages.map(m => [m.action, m.name])).toEqual([
+        ['set', 'X-Test'],
+        ['off', 'X-Test'],
+        ['off', undefined],
+      ]);
+    });
+
+    it('should not clear again at macro end after HEADER OFF', async () => {
+      executor.loadMacro('HEADER NAME=X-Test VALUE=1\nHEADER OFF');
+      await executor.execute();
+
+      expect(sentMessages.map(m => m.action)).toEqual(['set', 'off']);
+    });
+  });
+
+  describe('!USERAGENT', () => {
+    it('should send a User-Agent header rule and clear it at macro end', async () => {
+      executor.loadMacro('SET !USERAGENT "Mozilla/5.0 (iMacros Test)"');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages[0]).toMatchObject({
+        action: 'set', name: 'User-Agent', value: 'Mozilla/5.0 (iMacros Test)',
+      });
+      expect(sentMessages[1]).toMatchObject({ action: 'off' });
+    });
+
+    it('should remove the override when set to an empty value', async () => {
+      executor.loadMacro('SET !USERAGENT bot\nSET !USERAGENT ""');
+      await executor.execute();
+
+      expect(sentMessages[1]).toMatchObject({ action: 'off', name: 'User-Agent' });
+    });
+
+    it('should fail with SCRIPT_ERROR when the extension refuses', async () => {
+      respond = () => ({ success: false, error: 'session rules not available' });
+      executor.loadMacro('SET !USERAGENT bot');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(result.errorMessage).toBe('session rules not available');
+    });
+  });
+
+  describe('Parameter validation', () => {
+    it('should require NAME', async () => {
+      executor.loadMacro('HEADER VALUE=1');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.MISSING_PARAMETER);
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should require VALUE, STRIP or OFF', async () => {
+      executor.loadMacro('HEADER NAME=X-Test');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.MISSING_PARAMETER);
+      expect(result.errorMessage).toBe('HEADER requires VALUE, STRIP or OFF');
+    });
+
+    it('should reject an invalid header name', async () => {
+      executor.loadMacro('HEADER NAME=X:Test VALUE=1');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.INVALID_PARAMETER);
+    });
+
+    it('should reject an invalid DOMAIN', async () => {
+      executor.loadMacro('HEADER NAME=X-Test VALUE=1 DOMAIN=https://example.com/');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.INVALID_PARAMETER);
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should fail with SCRIPT_ERROR when the extension refuses', async () => {
+      respond = () => ({ success: false, error: 'Invalid header' });
+      executor.loadMacro('HEADER NAME=X-Test VALUE=1');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(result.errorMessage).toBe('Invalid header');
+    });
+  });
+
+  describe('parseHeaderDomains', () => {
+    it('should split, lowercase and drop leading wildcards', () => {
+      expect(parseHeaderDomains('*.Example.com, api.test')).toEqual(['example.com', 'api.test']);
+      expect(parseHeaderDomains('exa*mple.com')).toBeNull();
+      expect(parseHeaderDomains(' , ')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Integration Tests for MOCK
+ *
+ * Tests the mocked response command through the MacroExecutor with a mock
+ * BrowserCommandBridge and mock body loader. Verifies FILE and BODY mocks,
+ * !FOLDER_DATASOURCE resolution, headers and content types, OFF, QUERY into
+ * !MOCK_HITS, the cleanup that removes mocks at macro end and validation.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createExecutor, MacroExecutor, IMACROS_ERROR_CODES } from '@shared/executor';
+import {
+  setBrowserCommandBridge,
+  BrowserCommandBridge,
+  BrowserCommandOperationMessage,
+  BrowserCommandResponse,
+  MockMessage,
+} from '@shared/commands/browser';
+import {
+  registerMockHandlers,
+  resetMockState,
+  setMockBodyLoader,
+  MAX_MOCK_BODY_BYTES,
+} from '@shared/commands/mock';
+
+function decodeBody(base64: string): string {
+  return Buffer.from(base64, 'base64').toString('utf8');
+}
+
+describe('MOCK Command Integration Tests', () => {
+  let executor: MacroExecutor;
+  let sentMessages: MockMessage[];
+  let respond: (message: BrowserCommandOperationMessage) => BrowserCommandResponse;
+  let loadedPaths: string[];
+
+  beforeEach(() => {
+    sentMessages = [];
+    loadedPaths = [];
+    respond = () => ({ success: true });
+    setBrowserCommandBridge({
+      sendMessage: vi.fn(async (message: BrowserCommandOperationMessage) => {
+        sentMessages.push(message as MockMessage);
+        return respond(message);
+      }),
+    });
+    setMockBodyLoader((path: string) => {
+      loadedPaths.push(path);
+      if (path.endsWith('missing.json')) {
+        throw new Error('ENOENT: no such file or directory');
+      }
+      return new TextEncoder().encode('{"rate":1.5}');
+    });
+    resetMockState();
+    executor = createExecutor();
+    registerMockHandlers(executor);
+  });
+
+  afterEach(() => {
+    setBrowserCommandBridge(null as unknown as BrowserCommandBridge);
+    setMockBodyLoader(null);
+  });
+
+  describe('Adding mocks', () => {
+    it('should send a FILE body from !FOLDER_DATASOURCE and clear at macro end', async () => {
+      executor.loadMacro('SET !FOLDER_DATASOURCE /data/\nMOCK URL=*/api/rates* FILE=rates.json');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(loadedPaths).toEqual(['/data/rates.json']);
+      const { mock } = sentMessages[0];
+      expect(sentMessages[0].action).toBe('add');
+      expect(mock).toMatchObject({
+        urlPattern: '*/api/rates*',
+        status: 200,
+        headers: [{ name: 'Content-Type', value: 'application/json' }],
+      });
+      expect(decodeBody(mock!.body)).toBe('{"rate":1.5}');
+      expect(sentMessages[1]).toMatchObject({ type: 'mock', action: 'clear' });
+      expect(sentMessages).toHaveLength(2);
+    });
+
+    it('should send an inline BODY with STATUS and extra headers', async () => {
+      executor.loadMacro('MOCK URL=*/api/down STATUS=503 BODY=Maintenance HEADER=Retry-After:120 HEADER=X-Mock:yes');
+      await executor.execute();
+
+      const { mock } = sentMessages[0];
+      expect(mock?.status).toBe(503);
+      expect(mock?.headers).toEqual([
+        { name: 'Retry-After', value: '120' },
+        { name: 'X-Mock', value: 'yes' },
+        { name: 'Content-Type', value: 'text/plain; charset=utf-8' },
+      ]);
+      expect(decodeBody(mock!.body)).toBe('Maintenance');
+    });
+
+    it('should keep a Content-Type given as HEADER', async () => {
+      executor.loadMacro('MOCK URL=* FILE=rates.json HEADER=Content-Type:text/plain');
+      await executor.execute();
+
+      expect(sentMessages[0].mock?.headers).toEqual([{ name: 'Content-Type', value: 'text/plain' }]);
+    });
+  });
+
+  describe('OFF and QUERY', () => {
+    it('should remove one mock by pattern', async () => {
+      executor.loadMacro('MOCK URL=*/a BODY=x\nMOCK URL=*/a OFF');
+      await executor.execute();
+
+      expect(sentMessages.map(m => [m.action, m.urlPattern])).toEqual([
+        ['add', undefined],
+        ['remove', '*/a'],
+        ['clear', undefined],
+      ]);
+    });
+
+    it('should not clear again at macro end after MOCK OFF', async () => {
+      executor.loadMacro('MOCK URL=*/a BODY=x\nMOCK OFF');
+      await executor.execute();
+
+      expect(sentMessages.map(m => m.action)).toEqual(['add', 'clear']);
+    });
+
+    it('should store the hit count in !MOCK_HITS', async () => {
+      respond = (message) => (message as MockMessage).action === 'query'
+        ? { success: true, data: { mocks: [{ urlPattern: '*/a', hits: 3 }] } }
+        : { success: true };
+      executor.loadMacro('MOCK URL=*/a BODY=x\nMOCK QUERY URL=*/a\nSET !VAR1 {{!MOCK_HITS}}');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.variables?.['!VAR1']).toBe('3');
+    });
+
+    it('should fail with ELEMENT_NOT_FOUND for an unknown mock', async () => {
+      respond = () => ({ success: true, data: { mocks: [] } });
+      executor.loadMacro('MOCK QUERY URL=*/nothing');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND);
+      expect(result.errorMessage).toBe('No MOCK for URL=*/nothing');
+    });
+  });
+
+  describe('Errors', () => {
+    it('should fail with FILE_NOT_FOUND when the body file cannot be read', async () => {
+      executor.loadMacro('MOCK URL=* FILE=missing.json');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.FILE_NOT_FOUND);
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should fail with FILE_ERROR without a body loader', async () => {
+      setMockBodyLoader(null);
+      executor.loadMacro('MOCK URL=* FILE=rates.json');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.FILE_ERROR);
+    });
+
+    it('should reject bodies too large for one native message', async () => {
+      setMockBodyLoader(() => new Uint8Array(MAX_MOCK_BODY_BYTES + 1));
+      executor.loadMacro('MOCK URL=* FILE=big.bin');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.INVALID_PARAMETER);
+    });
+
+    it.each([
+      ['MOCK BODY=x', IMACROS_ERROR_CODES.MISSING_PARAMETER],
+      ['MOCK URL=*', IMACROS_ERROR_CODES.MISSING_PARAMETER],
+      ['MOCK URL=* BODY=x STATUS=99', IMACROS_ERROR_CODES.INVALID_PARAMETER],
+      ['MOCK URL=* BODY=x HEADER=NoColon', IMACROS_ERROR_CODES.INVALID_PARAMETER],
+    ])('%s fails with %i', async (macro, errorCode) => {
+      executor.loadMacro(macro);
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(errorCode);
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should fail with SCRIPT_ERROR when the extension refuses', async () => {
+      respond = () => ({ success: false, error: 'Another debugger is already attached' });
+      executor.loadMacro('MOCK URL=* BODY=x');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(result.errorMessage).toBe('Another debugger is already attached');
+    });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Integration Tests for NETCAPTURE and WAIT FOR=REQUEST
+ *
+ * Tests the network capture commands through the MacroExecutor with a mock
+ * BrowserCommandBridge. Verifies START/STOP messages, the cleanup that stops a
+ * running capture, QUERY into the !NET_* variables, WAIT FOR=REQUEST (built-in
+ * and flow WAIT handlers), timeouts and parameter validation.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createExecutor, MacroExecutor, IMACROS_ERROR_CODES } from '@shared/executor';
+import {
+  setBrowserCommandBridge,
+  BrowserCommandBridge,
+  BrowserCommandOperationMessage,
+  BrowserCommandResponse,
+} from '@shared/commands/browser';
+import { registerNetworkHandlers, CapturedRequest } from '@shared/commands/network';
+import { registerFlowHandlers } from '@shared/commands/flow';
+
+function capturedRequest(overrides: Partial<CapturedRequest> = {}): CapturedRequest {
+  return {
+    id: '1',
+    url: 'https://example.com/api/login',
+    method: 'POST',
+    resourceType: 'xmlhttprequest',
+    tabId: 3,
+    startTime: 1000,
+    requestHeaders: [{ name: 'Accept', value: 'application/json' }],
+    status: 200,
+    statusLine: 'HTTP/1.1 200 OK',
+    responseHeaders: [
+      { name: 'Content-Type', value: 'application/json' },
+      { name: 'X-Request-Id', value: 'abc' },
+    ],
+    responseStartTime: 1100,
+    endTime: 1250,
+    ...overrides,
+  };
+}
+
+describe('NETCAPTURE Command Integration Tests', () => {
+  let executor: MacroExecutor;
+  let sentMessages: BrowserCommandOperationMessage[];
+  let respond: (message: BrowserCommandOperationMessage) => BrowserCommandResponse;
+
+  beforeEach(() => {
+    sentMessages = [];
+    respond = () => ({ success: true });
+    setBrowserCommandBridge({
+      sendMessage: vi.fn(async (message: BrowserCommandOperationMessage) => {
+        sentMessages.push(message);
+        return respond(message);
+      }),
+    });
+    executor = createExecutor();
+    registerNetworkHandlers(executor);
+  });
+
+  afterEach(() => {
+    setBrowserCommandBridge(null as unknown as BrowserCommandBridge);
+  });
+
+  describe('START and STOP', () => {
+    it('should send start with the URL pattern, then stop', async () => {
+      executor.loadMacro('NETCAPTURE START URL=*/api/*\nNETCAPTURE STOP');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages.map(m => m.type === 'netCapture' && [m.action, m.urlPattern])).toEqual([
+        ['start', '*/api/*'],
+        ['stop', undefined],
+      ]);
+    });
+
+    it('should stop a capture still running at macro end', async () => {
+      executor.loadMacro('NETCAPTURE START');
+      await executor.execute();
+
+      expect(sentMessages.map(m => m.type === 'netCapture' && m.action)).toEqual(['start', 'stop']);
+    });
+
+    it('should not send anything at macro end without a capture', async () => {
+      executor.loadMacro('SET !VAR1 x');
+      await executor.execute();
+
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should fail with SCRIPT_ERROR when the extension refuses', async () => {
+      respond = () => ({ success: false, error: 'webRequest unavailable' });
+      executor.loadMacro('NETCAPTURE START');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(result.errorMessage).toBe('webRequest unavailable');
+    });
+
+    it('should reject an unknown action', async () => {
+      executor.loadMacro('NETCAPTURE PAUSE');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.INVALID_PARAMETER);
+      expect(result.errorMessage).toBe('NETCAPTURE expects START, STOP or QUERY');
+    });
+  });
+
+  describe('QUERY', () => {
+    it('should store the request in the !NET_* variables', async () => {
+      respond = () => ({ success: true, data: { requests: [capturedRequest()] } });
+      executor.loadMacro('NETCAPTURE QUERY URL=*/api/login HEADER=x-request-id');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages[0]).toMatchObject({ type: 'netCapture', action: 'query', urlPattern: '*/api/login' });
+      expect(result.variables).toMatchObject({
+        '!NET_COUNT': 1,
+        '!NET_URL': 'https://example.com/api/login',
+        '!NET_METHOD': 'POST',
+        '!NET_STATUS': 200,
+        '!NET_TIME': 250,
+        '!NET_HEADERS': 'Content-Type: application/json\nX-Request-Id: abc',
+        '!NET_HEADER': 'abc',
+        '!NET_ERROR': '',
+      });
+    });
+
+    it('should pick the request at POS', async () => {
+      respond = () => ({
+        success: true,
+        data: { requests: [capturedRequest(), capturedRequest({ id: '2', status: 401 })] },
+      });
+      executor.loadMacro('NETCAPTURE QUERY URL=* POS=2\nSET !VAR1 {{!NET_STATUS}}/{{!NET_COUNT}}');
+      const result = await executor.execute();
+
+      expect(result.variables?.['!VAR1']).toBe('401/2');
+    });
+
+    it('should fail with ELEMENT_NOT_FOUND when nothing matches', async () => {
+      respond = () => ({ success: true, data: { requests: [] } });
+      executor.loadMacro('NETCAPTURE QUERY URL=*/missing');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND);
+      expect(result.errorMessage).toBe('No captured request matches */missing at POS=1 (0 found)');
+    });
+
+    it('should require URL', async () => {
+      executor.loadMacro('NETCAPTURE QUERY');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.MISSING_PARAMETER);
+    });
+  });
+
+  describe('WAIT FOR=REQUEST', () => {
+    it('should wait for a request and store it (built-in WAIT)', async () => {
+      respond = () => ({ success: true, data: { requests: [capturedRequest({ status: 204 })] } });
+      executor.loadMacro('WAIT FOR=REQUEST URL=*/api/login SECONDS=5');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages[0]).toMatchObject({
+        type: 'netCapture', action: 'wait', urlPattern: '*/api/login', timeoutMs: 5000,
+      });
+      expect(result.variables?.['!NET_STATUS']).toBe(204);
+    });
+
+    it('should default the wait to !TIMEOUT_PAGE (flow WAIT)', async () => {
+      registerFlowHandlers(executor.registerHandler.bind(executor));
+      respond = () => ({ success: true, data: { requests: [capturedRequest()] } });
+      executor.loadMacro('SET !TIMEOUT_PAGE 12\nWAIT FOR=REQUEST URL=*');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages[0]).toMatchObject({ action: 'wait', timeoutMs: 12000 });
+    });
+
+    it('should fail with TIMEOUT when no request finishes in time', async () => {
+      respond = () => ({ success: true, data: { requests: [] } });
+      executor.loadMacro('WAIT FOR=REQUEST URL=*/slow SECONDS=1');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.TIMEOUT);
+      expect(result.errorMessage).toBe('No request to */slow completed within 1s');
+    });
+
+    it('should reject FOR values other than REQUEST', async () => {
+      executor.loadMacro('WAIT FOR=PAGE URL=*');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.INVALID_PARAMETER);
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should require URL', async () => {
+      executor.loadMacro('WAIT FOR=REQUEST');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.MISSING_PARAMETER);
+    });
+  });
+});
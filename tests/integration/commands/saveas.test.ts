@@ -2,7 +2,8 @@
  * Integration Tests for SAVEAS Command
  *
  * Tests the SAVEAS command through the MacroExecutor with a mock DownloadBridge.
- * Verifies all save types (TXT, HTM, HTML, PNG, JPG, JPEG, PDF, EXTRACT),
+ * Verifies all save types (TXT, HTM, HTML, PNG, JPG, JPEG, PDF, EXTRACT,
+ * JSON, JSONL, XLSX, HAR),
  * type normalization, parameter validation, folder handling, quality option,
  * bridge error handling, variable expansion, and downloadId state storage.
  */
@@ -18,6 +19,12 @@ import {
   LAST_DOWNLOAD_ID_KEY,
 } from '@shared/commands/downloads';
 import { registerNavigationHandlers } from '@shared/commands/navigation';
+import { setBrowserCommandBridge, BrowserCommandBridge } from '@shared/commands/browser';
+import { buildHar } from '@shared/commands/network';
+import { registerExtractionHandlers } from '@shared/commands/extraction';
+import { base64ToByteArray } from '@shared/encryption';
+import { readXlsxSheet } from '@shared/xlsx';
+import { inflateRawSync } from 'zlib';
 
 describe('SAVEAS Command Integration Tests', () => {
   let executor: MacroExecutor;
@@ -462,6 +469,116 @@ describe('SAVEAS Command Integration Tests', () => {
     });
   });
 
+  // ===== Extract Records =====
+
+  describe('Extract records (JSON, JSONL, XLSX)', () => {
+    function createLoopExecutor(maxLoops: number): MacroExecutor {
+      const loopExecutor = createExecutor({ maxLoops });
+      registerDownloadHandlers(loopExecutor);
+      registerExtractionHandlers(loopExecutor.registerHandler.bind(loopExecutor));
+      return loopExecutor;
+    }
+
+    function loopMacro(saveLine: string): string {
+      return [
+        'EXTRACT item{{!LOOP}} AS=name',
+        'EXTRACT 9.{{!LOOP}} AS=price',
+        saveLine,
+      ].join('\n');
+    }
+
+    it('should write all records as a JSON array', async () => {
+      executor = createLoopExecutor(2);
+      executor.loadMacro(loopMacro('SAVEAS TYPE=JSON FILE=*'));
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages).toHaveLength(2);
+      const msg = sentMessages[1] as SaveAsMessage;
+      expect(msg.saveType).toBe('JSON');
+      expect(msg.file).toBe('extract.json');
+      expect(JSON.parse(msg.content!)).toEqual([
+        { name: 'item1', price: '9.1' },
+        { name: 'item2', price: '9.2' },
+      ]);
+      expect(result.extractRecords).toEqual([
+        { name: 'item1', price: '9.1' },
+        { name: 'item2', price: '9.2' },
+      ]);
+    });
+
+    it('should send only new records for JSONL', async () => {
+      executor = createLoopExecutor(2);
+      executor.loadMacro(loopMacro('SAVEAS TYPE=JSONL FILE=+_run'));
+      await executor.execute();
+
+      expect(sentMessages.map((m) => (m as SaveAsMessage).content)).toEqual([
+        '{"name":"item1","price":"9.1"}\n',
+        '{"name":"item2","price":"9.2"}\n',
+      ]);
+      expect((sentMessages[0] as SaveAsMessage).file).toBe('extract_run.jsonl');
+    });
+
+    it('should send an XLSX workbook as base64', async () => {
+      executor = createLoopExecutor(1);
+      executor.loadMacro(loopMacro('SAVEAS TYPE=XLSX FILE=prices.xlsx'));
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      const msg = sentMessages[0] as SaveAsMessage;
+      expect(msg.saveType).toBe('XLSX');
+      expect(msg.contentEncoding).toBe('base64');
+      const workbook = new Uint8Array(base64ToByteArray(msg.content!));
+      expect(readXlsxSheet(workbook, inflateRawSync)).toEqual([
+        ['name', 'price'],
+        ['item1', '9.1'],
+      ]);
+    });
+
+    it('should clear !EXTRACT after saving records', async () => {
+      executor = createLoopExecutor(1);
+      executor.loadMacro(loopMacro('SAVEAS TYPE=JSON FILE=out.json') + '\nSET !VAR1 {{!EXTRACT}}');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.variables['!VAR1']).toBe('');
+    });
+  });
+
+  // ===== HAR =====
+
+  describe('Network capture (HAR)', () => {
+    afterEach(() => {
+      setBrowserCommandBridge(null as unknown as BrowserCommandBridge);
+    });
+
+    it('should send the capture read from the extension as HAR JSON', async () => {
+      const har = buildHar([]);
+      const browserBridge = { sendMessage: vi.fn(async () => ({ success: true, data: { har } })) };
+      setBrowserCommandBridge(browserBridge);
+
+      executor.loadMacro('SAVEAS TYPE=HAR FILE=session.har');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(browserBridge.sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'netCapture', action: 'har' }));
+      const msg = sentMessages[0] as SaveAsMessage;
+      expect(msg.saveType).toBe('HAR');
+      expect(msg.file).toBe('session.har');
+      expect(JSON.parse(msg.content!)).toEqual(har);
+    });
+
+    it('should fail without saving when the capture cannot be read', async () => {
+      setBrowserCommandBridge({ sendMessage: vi.fn(async () => ({ success: false, error: 'no extension' })) });
+
+      executor.loadMacro('SAVEAS TYPE=HAR FILE=session.har');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(sentMessages).toHaveLength(0);
+    });
+  });
+
   // ===== Download ID State Storage =====
 
   describe('Download ID state storage', () => {
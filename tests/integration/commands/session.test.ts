@@ -0,0 +1,236 @@
+/**
+ * Integration Tests for COOKIES and STORAGE
+ *
+ * Tests the session commands through the MacroExecutor with a mock
+ * BrowserCommandBridge and an in-memory session file store. Verifies cookie
+ * export/import round trips, DOMAIN filtering, expired cookie skipping,
+ * encryption with PASSWORD and !ENCRYPTION, single-key and whole-storage
+ * STORAGE operations, !STORAGE_VALUE and validation.
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createExecutor, MacroExecutor, IMACROS_ERROR_CODES } from '@shared/executor';
+import {
+  setBrowserCommandBridge,
+  BrowserCommandBridge,
+  BrowserCommandOperationMessage,
+  BrowserCommandResponse,
+  BrowserCookie,
+  CookiesMessage,
+  WebStorageMessage,
+} from '@shared/commands/browser';
+import { registerSessionHandlers, setSessionFileStore } from '@shared/commands/session';
+import { decryptString } from '@shared/encryption';
+
+const FUTURE = Math.floor(Date.now() / 1000) + 86400;
+
+const SESSION_COOKIE: BrowserCookie = {
+  name: 'sid', value: 'abc123', domain: '.example.com', path: '/',
+  secure: true, httpOnly: true, hostOnly: false, sameSite: 'lax', expirationDate: FUTURE,
+};
+
+describe('COOKIES and STORAGE Command Integration Tests', () => {
+  let executor: MacroExecutor;
+  let sentMessages: (CookiesMessage | WebStorageMessage)[];
+  let respond: (message: BrowserCommandOperationMessage) => BrowserCommandResponse;
+  let files: Map<string, string>;
+
+  beforeEach(() => {
+    sentMessages = [];
+    files = new Map();
+    respond = () => ({ success: true });
+    setBrowserCommandBridge({
+      sendMessage: vi.fn(async (message: BrowserCommandOperationMessage) => {
+        sentMessages.push(message as CookiesMessage | WebStorageMessage);
+        return respond(message);
+      }),
+    });
+    setSessionFileStore({
+      read: (path: string) => {
+        const content = files.get(path);
+        if (content === undefined) {
+          throw new Error('ENOENT: no such file or directory');
+        }
+        return content;
+      },
+      write: (path: string, content: string) => {
+        files.set(path, content);
+      },
+    });
+    executor = createExecutor();
+    registerSessionHandlers(executor.registerHandler.bind(executor));
+  });
+
+  afterEach(() => {
+    setBrowserCommandBridge(null as unknown as BrowserCommandBridge);
+    setSessionFileStore(null);
+  });
+
+  describe('COOKIES EXPORT', () => {
+    it('should save cookies as JSON in !FOLDER_DATASOURCE', async () => {
+      respond = () => ({ success: true, data: { cookies: [SESSION_COOKIE] } });
+      executor.loadMacro('SET !FOLDER_DATASOURCE /data/\nCOOKIES EXPORT FILE=session.json DOMAIN=*.example.com');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages[0]).toMatchObject({ type: 'cookies', action: 'export', domain: 'example.com' });
+      const saved = JSON.parse(files.get('/data/session.json')!);
+      expect(saved).toMatchObject({ type: 'imacros-cookies', version: 1, cookies: [SESSION_COOKIE] });
+    });
+
+    it('should encrypt the file with PASSWORD', async () => {
+      respond = () => ({ success: true, data: { cookies: [SESSION_COOKIE] } });
+      executor.loadMacro('COOKIES EXPORT FILE=session.json PASSWORD=s3cret');
+      await executor.execute();
+
+      const content = files.get('session.json')!;
+      expect(content.startsWith('{')).toBe(false);
+      expect(JSON.parse(decryptString(content, 's3cret')).cookies).toEqual([SESSION_COOKIE]);
+    });
+
+    it('should encrypt the file with the !ENCRYPTION key', async () => {
+      respond = () => ({ success: true, data: { cookies: [] } });
+      executor.loadMacro('SET !ENCRYPTION masterkey\nCOOKIES EXPORT FILE=session.json');
+      await executor.execute();
+
+      expect(JSON.parse(decryptString(files.get('session.json')!, 'masterkey')).type).toBe('imacros-cookies');
+    });
+  });
+
+  describe('COOKIES IMPORT', () => {
+    it('should restore exported cookies and skip expired ones', async () => {
+      const expired = { ...SESSION_COOKIE, name: 'old', expirationDate: 1000 };
+      const sessionOnly = { ...SESSION_COOKIE, name: 'tmp', expirationDate: undefined };
+      files.set('session.json', JSON.stringify({
+        type: 'imacros-cookies', version: 1, exported: '', cookies: [SESSION_COOKIE, expired, sessionOnly],
+      }));
+      respond = () => ({ success: true, data: { importedCount: 2 } });
+      executor.loadMacro('COOKIES IMPORT FILE=session.json');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(sentMessages[0].action).toBe('import');
+      expect((sentMessages[0] as CookiesMessage).cookies?.map(c => c.name)).toEqual(['sid', 'tmp']);
+    });
+
+    it('should round-trip an encrypted file', async () => {
+      respond = (message) => (message as CookiesMessage).action === 'export'
+        ? { success: true, data: { cookies: [SESSION_COOKIE] } }
+        : { success: true, data: { importedCount: 1 } };
+      executor.loadMacro('COOKIES EXPORT FILE=s.json PASSWORD=pw\nCOOKIES IMPORT FILE=s.json PASSWORD=pw');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect((sentMessages[1] as CookiesMessage).cookies).toEqual([SESSION_COOKIE]);
+    });
+
+    it('should require a key for an encrypted file', async () => {
+      respond = () => ({ success: true, data: { cookies: [] } });
+      executor.loadMacro('COOKIES EXPORT FILE=s.json PASSWORD=pw\nCOOKIES IMPORT FILE=s.json');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.MISSING_PARAMETER);
+      expect(sentMessages).toHaveLength(1);
+    });
+
+    it('should fail with the wrong password', async () => {
+      respond = () => ({ success: true, data: { cookies: [SESSION_COOKIE] } });
+      executor.loadMacro('COOKIES EXPORT FILE=s.json PASSWORD=pw\nCOOKIES IMPORT FILE=s.json PASSWORD=wrong');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(false);
+      expect(sentMessages).toHaveLength(1);
+    });
+
+    it('should reject a file of another type', async () => {
+      files.set('storage.json', JSON.stringify({ type: 'imacros-storage', version: 1, items: {} }));
+      executor.loadMacro('COOKIES IMPORT FILE=storage.json');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.FILE_ERROR);
+      expect(result.errorMessage).toBe('storage.json is not an imacros-cookies file');
+    });
+
+    it('should fail with FILE_NOT_FOUND for a missing file', async () => {
+      executor.loadMacro('COOKIES IMPORT FILE=missing.json');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.FILE_NOT_FOUND);
+    });
+  });
+
+  describe('STORAGE', () => {
+    it('should read one localStorage item into !STORAGE_VALUE', async () => {
+      respond = () => ({ success: true, data: { origin: 'https://example.com', value: 'tok' } });
+      executor.loadMacro('STORAGE GET KEY=token\nSET !VAR1 {{!STORAGE_VALUE}}');
+      const result = await executor.execute();
+
+      expect(sentMessages[0]).toMatchObject({ type: 'webStorage', action: 'get', area: 'local', key: 'token' });
+      expect(result.variables?.['!VAR1']).toBe('tok');
+    });
+
+    it('should leave !STORAGE_VALUE empty for an unset key', async () => {
+      respond = () => ({ success: true, data: { origin: 'https://example.com', value: null } });
+      executor.loadMacro('STORAGE GET KEY=token');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(result.variables?.['!STORAGE_VALUE']).toBe('');
+    });
+
+    it('should write one sessionStorage item', async () => {
+      executor.loadMacro('SET !VAR1 2\nSTORAGE SET TYPE=SESSION KEY=step VALUE={{!VAR1}}');
+      await executor.execute();
+
+      expect(sentMessages[0]).toMatchObject({ type: 'webStorage', action: 'set', area: 'session', key: 'step', value: '2' });
+    });
+
+    it('should save and restore every item through a file', async () => {
+      respond = (message) => (message as WebStorageMessage).action === 'getAll'
+        ? { success: true, data: { origin: 'https://example.com', items: { a: '1', b: '2' } } }
+        : { success: true, data: { origin: 'https://example.com' } };
+      executor.loadMacro('STORAGE GET FILE=storage.json\nSTORAGE SET FILE=storage.json');
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(files.get('storage.json')!)).toMatchObject({
+        type: 'imacros-storage', origin: 'https://example.com', area: 'local', items: { a: '1', b: '2' },
+      });
+      expect(sentMessages[1]).toMatchObject({ action: 'setAll', area: 'local', items: { a: '1', b: '2' } });
+    });
+
+    it('should fail with SCRIPT_ERROR when the tab cannot be scripted', async () => {
+      respond = () => ({ success: false, error: 'Cannot access a chrome:// URL' });
+      executor.loadMacro('STORAGE GET KEY=token');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(result.errorMessage).toBe('Cannot access a chrome:// URL');
+    });
+  });
+
+  describe('Validation', () => {
+    it.each([
+      ['COOKIES FILE=x.json', IMACROS_ERROR_CODES.INVALID_PARAMETER],
+      ['COOKIES EXPORT', IMACROS_ERROR_CODES.MISSING_PARAMETER],
+      ['STORAGE KEY=x', IMACROS_ERROR_CODES.INVALID_PARAMETER],
+      ['STORAGE GET', IMACROS_ERROR_CODES.MISSING_PARAMETER],
+      ['STORAGE SET KEY=x', IMACROS_ERROR_CODES.MISSING_PARAMETER],
+      ['STORAGE GET KEY=x TYPE=INDEXEDDB', IMACROS_ERROR_CODES.INVALID_PARAMETER],
+    ])('%s fails with %i', async (macro, errorCode) => {
+      executor.loadMacro(macro);
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(errorCode);
+      expect(sentMessages).toHaveLength(0);
+    });
+
+    it('should fail with FILE_ERROR without a session file store', async () => {
+      setSessionFileStore(null);
+      respond = () => ({ success: true, data: { cookies: [] } });
+      executor.loadMacro('COOKIES EXPORT FILE=session.json');
+      const result = await executor.execute();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.FILE_ERROR);
+    });
+  });
+});
@@ -134,7 +134,7 @@ describe('Scripting Interface with ExecutorMacroHandler', () => {
     handler.setHandlerRegistrar((executor) => {
       registerSystemHandlers(executor.registerHandler.bind(executor));
     });
-    server = new ScriptingInterfaceServer({ port: testPort }, handler);
+    server = new ScriptingInterfaceServer({ port: testPort, authToken: '' }, handler);
     await server.start();
   });
 
@@ -909,7 +909,7 @@ describe('Scripting Interface file-based iimPlay', () => {
       registerSystemHandlers(executor.registerHandler.bind(executor));
     });
     server = new ScriptingInterfaceServer(
-      { port: fileTestPort, macrosDir: tmpDir },
+      { port: fileTestPort, macrosDir: tmpDir, authToken: '' },
       handler
     );
     await server.start();
@@ -0,0 +1,318 @@
+/**
+ * Scripting Interface Security Integration Tests
+ *
+ * Tests token authentication (iimAuth), per-connection sessions, the iimPlay
+ * audit log and TLS with a self-signed certificate generated on first start.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as net from 'net';
+import * as tls from 'tls';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  ScriptingInterfaceServer,
+  ReturnCode,
+  loadOrCreateAuthToken,
+  type MacroHandler,
+  type CommandResult,
+  type PlayAuditEntry,
+} from '@native-host/services/scripting-interface';
+
+const TOKEN = 'secret-token-123';
+const testPort = 34951;
+
+/**
+ * Minimal handler that records plays and keeps its own variables
+ */
+class RecordingHandler implements MacroHandler {
+  played: string[] = [];
+  variables = new Map<string, string>();
+  playDelay = 0;
+  private running = false;
+
+  async play(macro: string): Promise<CommandResult> {
+    this.running = true;
+    await new Promise(resolve => setTimeout(resolve, this.playDelay));
+    this.running = false;
+    this.played.push(macro);
+    return { code: ReturnCode.OK };
+  }
+  setVariable(name: string, value: string): void {
+    this.variables.set(name, value);
+  }
+  getVariable(name: string): string | undefined {
+    return this.variables.get(name);
+  }
+  getLastExtract(): string {
+    return this.variables.get('!VAR1') ?? '';
+  }
+  getLastError(): string {
+    return '';
+  }
+  getLastPerformance() {
+    return null;
+  }
+  isRunning(): boolean {
+    return this.running;
+  }
+  stop(): void {
+    this.running = false;
+  }
+}
+
+function connect(port: number, tlsOptions?: tls.ConnectionOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = tlsOptions
+      ? tls.connect({ port, host: '127.0.0.1', ...tlsOptions }, () => resolve(socket))
+      : net.connect(port, '127.0.0.1', () => resolve(socket));
+    socket.on('error', reject);
+    socket.setTimeout(5000);
+  });
+}
+
+function send(socket: net.Socket, command: string): Promise<{ code: number; data?: string }> {
+  return new Promise((resolve, reject) => {
+    let buffer = '';
+    const timer = setTimeout(() => reject(new Error('Response timeout')), 5000);
+    const onData = (data: Buffer) => {
+      buffer += data.toString();
+      const newline = buffer.indexOf('\n');
+      if (newline !== -1) {
+        clearTimeout(timer);
+        socket.removeListener('data', onData);
+        const [code, ...rest] = buffer.slice(0, newline).split('\t');
+        resolve({ code: parseInt(code, 10), data: rest.length > 0 ? rest.join('\t') : undefined });
+      }
+    };
+    socket.on('data', onData);
+    socket.once('close', () => reject(new Error('Connection closed')));
+    socket.write(command + '\n');
+  });
+}
+
+describe('Scripting Interface security', () => {
+  let server: ScriptingInterfaceServer;
+  let tmpDir: string;
+  const sockets: net.Socket[] = [];
+
+  const open = async (tlsOptions?: tls.ConnectionOptions) => {
+    const socket = await connect(testPort, tlsOptions);
+    sockets.push(socket);
+    return socket;
+  };
+
+  beforeEach(() => {
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'imacros-si-security-'));
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach(socket => socket.destroy());
+    if (server?.isRunning()) {
+      await server.stop();
+    }
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  describe('Token authentication', () => {
+    let handler: RecordingHandler;
+
+    beforeEach(async () => {
+      handler = new RecordingHandler();
+      server = new ScriptingInterfaceServer({ port: testPort, authToken: TOKEN }, handler);
+      await server.start();
+    });
+
+    it('should refuse commands until the client authenticates', async () => {
+      const client = await open();
+
+      expect(await send(client, 'iimPlay("CODE:WAIT SECONDS=1")')).toEqual({
+        code: ReturnCode.UNAUTHORIZED,
+        data: 'Authentication required: send iimAuth("token") first',
+      });
+      expect((await send(client, 'iimSet("var1", "x")')).code).toBe(ReturnCode.UNAUTHORIZED);
+      expect((await send(client, 'iimAuth("wrong")')).code).toBe(ReturnCode.UNAUTHORIZED);
+      expect(handler.played).toEqual([]);
+      expect(handler.variables.size).toBe(0);
+
+      expect((await send(client, `iimAuth("${TOKEN}", "ci-job")`)).code).toBe(ReturnCode.OK);
+      expect((await send(client, 'iimPlay("CODE:WAIT SECONDS=1")')).code).toBe(ReturnCode.OK);
+      expect(handler.played).toEqual(['WAIT SECONDS=1']);
+    });
+
+    it('should require each connection to authenticate', async () => {
+      const first = await open();
+      await send(first, `iimAuth("${TOKEN}")`);
+      const second = await open();
+
+      expect((await send(second, 'iimGetLastExtract()')).code).toBe(ReturnCode.UNAUTHORIZED);
+    });
+
+    it('should close the connection after three failed attempts', async () => {
+      const client = await open();
+      const closed = new Promise(resolve => client.on('close', resolve));
+
+      for (let i = 0; i < 3; i++) {
+        expect(await send(client, 'iimAuth("guess")')).toEqual({ code: ReturnCode.UNAUTHORIZED, data: 'Invalid token' });
+      }
+
+      await closed;
+    });
+
+    it('should not run commands sent after the failed attempts', async () => {
+      const client = await open();
+      const closed = new Promise(resolve => client.on('close', resolve));
+
+      client.resume();
+      client.write('iimAuth("a")\niimAuth("b")\niimAuth("c")\n' + `iimAuth("${TOKEN}")\niimSet("var1", "x")\n`);
+      await closed;
+
+      expect(handler.variables.size).toBe(0);
+    });
+
+    it('should require the token from the token file by default', async () => {
+      await server.stop();
+      const authTokenFile = path.join(tmpDir, 'si.token');
+      server = new ScriptingInterfaceServer({ port: testPort, authTokenFile }, handler);
+      await server.start();
+      const client = await open();
+
+      expect((await send(client, 'iimSet("var1", "x")')).code).toBe(ReturnCode.UNAUTHORIZED);
+      expect((await send(client, `iimAuth("${loadOrCreateAuthToken(authTokenFile)}")`)).code).toBe(ReturnCode.OK);
+      expect((await send(client, 'iimSet("var1", "x")')).code).toBe(ReturnCode.OK);
+    });
+
+    it('should generate a token file on first use and reuse it', () => {
+      const tokenFile = path.join(tmpDir, 'nested', 'si.token');
+      const token = loadOrCreateAuthToken(tokenFile);
+
+      expect(token).toMatch(/^[0-9a-f]{64}$/);
+      expect(loadOrCreateAuthToken(tokenFile)).toBe(token);
+      if (process.platform !== 'win32') {
+        expect(fs.statSync(tokenFile).mode & 0o777).toBe(0o600);
+      }
+    });
+  });
+
+  describe('Per-connection sessions', () => {
+    it('should keep variables and the last extract per connection by default', async () => {
+      server = new ScriptingInterfaceServer({ port: testPort, authToken: '' });
+      await server.start();
+      const first = await open();
+      const second = await open();
+
+      await send(first, 'iimSet("var1", "from-first")');
+      expect((await send(first, 'iimPlay("CODE:EXTRACT {{!VAR1}}")')).code).toBe(ReturnCode.OK);
+
+      expect((await send(first, 'iimGetLastExtract()')).data).toBe('from-first');
+      expect((await send(second, 'iimGetLastExtract()')).data).not.toBe('from-first');
+    });
+
+    it('should create a handler per connection from a factory', async () => {
+      const handlers: RecordingHandler[] = [];
+      server = new ScriptingInterfaceServer({ port: testPort, authToken: '' }, () => {
+        handlers.push(new RecordingHandler());
+        return handlers[handlers.length - 1];
+      });
+      await server.start();
+      const first = await open();
+      const second = await open();
+
+      await send(first, 'iimSet("var1", "a")');
+      await send(second, 'iimSet("var1", "b")');
+
+      expect(handlers.map(h => h.getVariable('!VAR1'))).toEqual(['a', 'b']);
+    });
+
+    it('should play one macro at a time across sessions', async () => {
+      server = new ScriptingInterfaceServer({ port: testPort, authToken: '' }, () => Object.assign(new RecordingHandler(), { playDelay: 200 }));
+      await server.start();
+      const first = await open();
+      const second = await open();
+
+      const running = send(first, 'iimPlay("CODE:WAIT SECONDS=1")');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect((await send(second, 'iimPlay("CODE:WAIT SECONDS=1")')).code).toBe(ReturnCode.MACRO_RUNNING);
+      expect((await send(second, 'iimStop()')).data).toBe('No macro is running');
+      expect((await running).code).toBe(ReturnCode.OK);
+    });
+  });
+
+  describe('Audit log', () => {
+    it('should record every iimPlay with the client identity', async () => {
+      const auditLogFile = path.join(tmpDir, 'logs', 'si-audit.log');
+      server = new ScriptingInterfaceServer(
+        { port: testPort, authToken: TOKEN, auditLogFile, macrosDir: tmpDir },
+        () => new RecordingHandler()
+      );
+      await server.start();
+      const events: PlayAuditEntry[] = [];
+      server.on('audit', (entry: PlayAuditEntry) => events.push(entry));
+
+      const client = await open();
+      const address = `127.0.0.1:${client.localPort}`;
+      await send(client, 'iimPlay("CODE:URL GOTO=about:blank")');
+      await send(client, `iimAuth("${TOKEN}", "nightly-build")`);
+      await send(client, 'iimPlay("CODE:SET !VAR1 pw-hunter2\\nURL GOTO=about:blank")');
+      await send(client, 'iimPlay("missing.iim")');
+
+      const lines = fs.readFileSync(auditLogFile, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines).toEqual(events);
+      expect(lines).toMatchObject([
+        { client: address, macro: 'CODE:', code: ReturnCode.UNAUTHORIZED, error: expect.stringContaining('Authentication required') },
+        { client: `nightly-build@${address}`, macro: 'CODE: (2 lines)', code: ReturnCode.OK },
+        { client: `nightly-build@${address}`, macro: 'missing.iim', code: ReturnCode.MACRO_NOT_FOUND },
+      ]);
+      expect(lines[1].sha256).toBe(
+        crypto.createHash('sha256').update('SET !VAR1 pw-hunter2\nURL GOTO=about:blank').digest('hex')
+      );
+      expect(lines[2].sha256).toBeUndefined();
+      expect(new Set(lines.map(line => line.session)).size).toBe(1);
+      expect(fs.readFileSync(auditLogFile, 'utf8')).not.toContain('hunter2');
+    });
+  });
+
+  describe('TLS', () => {
+    it('should generate a certificate on first start and serve TLS with it', async () => {
+      const tlsCertFile = path.join(tmpDir, 'si-cert.pem');
+      const tlsKeyFile = path.join(tmpDir, 'si-key.pem');
+      server = new ScriptingInterfaceServer(
+        { port: testPort, tls: true, tlsCertFile, tlsKeyFile, authToken: TOKEN },
+        new RecordingHandler()
+      );
+      await server.start();
+
+      const cert = fs.readFileSync(tlsCertFile, 'utf8');
+      const x509 = new crypto.X509Certificate(cert);
+      expect(server.getTlsFingerprint()).toBe(x509.fingerprint256);
+      expect(x509.subjectAltName).toContain('IP Address:127.0.0.1');
+      expect(x509.verify(x509.publicKey)).toBe(true);
+      // 16-byte positive serial with no leading zero byte
+      expect(x509.serialNumber).toMatch(/^[4-7][0-9A-F]{31}$/);
+
+      const client = await open({ ca: cert, servername: 'localhost' });
+      expect((client as tls.TLSSocket).authorized).toBe(true);
+      expect((await send(client, `iimAuth("${TOKEN}")`)).code).toBe(ReturnCode.OK);
+      expect((await send(client, 'iimPlay("CODE:WAIT SECONDS=1")')).code).toBe(ReturnCode.OK);
+
+      // The certificate is reused on the next start
+      await server.stop();
+      server = new ScriptingInterfaceServer({ port: testPort, tls: true, tlsCertFile, tlsKeyFile, authToken: TOKEN });
+      await server.start();
+      expect(server.getTlsFingerprint()).toBe(x509.fingerprint256);
+    });
+
+    it('should not accept plain TCP clients', async () => {
+      server = new ScriptingInterfaceServer(
+        { port: testPort, tls: true, tlsCertFile: path.join(tmpDir, 'c.pem'), tlsKeyFile: path.join(tmpDir, 'k.pem'), authToken: TOKEN },
+        new RecordingHandler()
+      );
+      await server.start();
+      const client = await open();
+
+      await expect(send(client, 'iimGetLastError()')).rejects.toThrow();
+    });
+  });
+});
@@ -14,6 +14,7 @@ import {
   CommandResult,
   createScriptingInterfaceServer,
 } from '@native-host/services/scripting-interface';
+import type { ExtractRecord } from '@shared/state-manager';
 
 /**
  * Mock macro handler for testing
@@ -21,6 +22,7 @@ import {
 class MockMacroHandler implements MacroHandler {
   private variables: Map<string, string> = new Map();
   private _lastExtract: string = '';
+  private _lastExtractRecords: ExtractRecord[] = [];
   private _lastError: string = '';
   private _running: boolean = false;
   public playDelay: number = 0;
@@ -51,6 +53,10 @@ class MockMacroHandler implements MacroHandler {
     return this._lastExtract || '#nodata#';
   }
 
+  getLastExtractRecords(): ExtractRecord[] {
+    return this._lastExtractRecords;
+  }
+
   getLastError(): string {
     return this._lastError;
   }
@@ -68,6 +74,10 @@ class MockMacroHandler implements MacroHandler {
     this._lastExtract = value;
   }
 
+  setLastExtractRecords(records: ExtractRecord[]): void {
+    this._lastExtractRecords = records;
+  }
+
   setLastError(value: string): void {
     this._lastError = value;
   }
@@ -79,6 +89,7 @@ class MockMacroHandler implements MacroHandler {
   reset(): void {
     this.variables.clear();
     this._lastExtract = '';
+    this._lastExtractRecords = [];
     this._lastError = '';
     this._running = false;
     this.playDelay = 0;
@@ -194,7 +205,7 @@ describe('Scripting Interface Integration Tests', () => {
 
   beforeEach(async () => {
     mockHandler = new MockMacroHandler();
-    server = new ScriptingInterfaceServer({ port: testPort }, mockHandler);
+    server = new ScriptingInterfaceServer({ port: testPort, authToken: '' }, mockHandler);
   });
 
   afterEach(async () => {
@@ -489,6 +500,42 @@ describe('Scripting Interface Integration Tests', () => {
     });
   });
 
+  describe('iimGetExtractRecords Command', () => {
+    beforeEach(async () => {
+      await server.start();
+    });
+
+    it('should return an empty JSON array when no records are available', async () => {
+      const response = await sendCommand(testPort, 'iimGetExtractRecords()');
+
+      expect(response.code).toBe(ReturnCode.OK);
+      expect(response.data).toBe('[]');
+    });
+
+    it('should return all records as JSON objects', async () => {
+      const records = [{ name: 'Widget', price: '9.99' }, { name: 'Gadget\tXL', price: '' }];
+      mockHandler.setLastExtractRecords(records);
+
+      const response = await sendCommand(testPort, 'iimGetExtractRecords()');
+
+      expect(response.code).toBe(ReturnCode.OK);
+      expect(JSON.parse(response.data!)).toEqual(records);
+    });
+
+    it('should return the nth record, or #nodata# past the end', async () => {
+      mockHandler.setLastExtractRecords([{ name: 'a' }, { name: 'b' }]);
+
+      expect((await sendCommand(testPort, 'iimGetExtractRecords(2)')).data).toBe('{"name":"b"}');
+      expect((await sendCommand(testPort, 'iimGetExtractRecords(3)')).data).toBe('#nodata#');
+    });
+
+    it('should reject an invalid record index', async () => {
+      const response = await sendCommand(testPort, 'iimGetExtractRecords("x")');
+
+      expect(response.code).toBe(ReturnCode.INVALID_PARAMETER);
+    });
+  });
+
   describe('iimGetLastError Command', () => {
     beforeEach(async () => {
       await server.start();
@@ -849,7 +896,7 @@ describe('Scripting Interface Integration Tests', () => {
     });
 
     it('should use default handler when none provided', async () => {
-      const serverWithDefault = new ScriptingInterfaceServer({ port: testPort + 1 });
+      const serverWithDefault = new ScriptingInterfaceServer({ port: testPort + 1, authToken: '' });
 
       try {
         await serverWithDefault.start();
@@ -872,7 +919,7 @@ describe('Scripting Interface Integration Tests', () => {
     });
 
     it('should create and start server with createScriptingInterfaceServer', async () => {
-      factoryServer = await createScriptingInterfaceServer({ port: testPort + 2 });
+      factoryServer = await createScriptingInterfaceServer({ port: testPort + 2, authToken: '' });
 
       expect(factoryServer.isRunning()).toBe(true);
 
@@ -885,7 +932,7 @@ describe('Scripting Interface Integration Tests', () => {
       customHandler.setLastExtract('factory extract');
 
       factoryServer = await createScriptingInterfaceServer(
-        { port: testPort + 3 },
+        { port: testPort + 3, authToken: '' },
         customHandler
       );
 
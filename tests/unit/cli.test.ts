@@ -0,0 +1,325 @@
+/**
+ * Tests for native-host/src/cli.ts (`imacros run`)
+ *
+ * Covers:
+ * - Argument parsing (-var, -loop, -datasource, -format, -out, -timeout)
+ * - JSON and JUnit XML reports
+ * - Exit codes (0 on success, the iMacros error code otherwise)
+ * - Running macros end to end with a fake headless browser
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+vi.mock('puppeteer', () => ({
+  launch: vi.fn(() => Promise.reject(new Error('no browser in unit tests'))),
+}));
+
+import {
+  parseRunArgs,
+  runCli,
+  buildRunReport,
+  formatJsonReport,
+  formatJunitReport,
+  exitCodeFor,
+  type RunReport,
+} from '../../native-host/src/cli';
+import type { MacroResult } from '../../shared/src/executor';
+
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'imacros-cli-test-'));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function writeFile(name: string, content: string): string {
+  const filePath = path.join(tmpDir, name);
+  fs.writeFileSync(filePath, content, 'utf8');
+  return filePath;
+}
+
+/**
+ * A stand-in for HeadlessBrowser whose TAG answers come from a callback
+ */
+function fakeBrowser(tagResponse: (message: any) => any = () => ({ success: true })) {
+  const browser = {
+    navigated: [] as string[],
+    browserBridge: {
+      sendMessage: vi.fn(async (message: any) => {
+        if (message.type === 'navigate') browser.navigated.push(message.url);
+        return { success: true, data: { url: browser.navigated[browser.navigated.length - 1] } };
+      }),
+    },
+    contentScriptSender: {
+      sendMessage: vi.fn(async (message: any) => tagResponse(message)),
+    },
+    close: vi.fn(async () => undefined),
+  };
+  return browser;
+}
+
+async function run(argv: string[], browser = fakeBrowser()) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const closeBrowser = vi.fn(async () => undefined);
+  const code = await runCli(
+    argv,
+    { stdout: text => out.push(text), stderr: text => err.push(text) },
+    { openBrowser: async () => browser as any, closeBrowser }
+  );
+  return { code, stdout: out.join(''), stderr: err.join(''), closeBrowser };
+}
+
+describe('parseRunArgs', () => {
+  it('parses a macro with every option', () => {
+    expect(parseRunArgs([
+      'run', 'login.iim',
+      '-var', 'USER=alice', '--var', 'GREETING=a=b',
+      '-loop', '3', '-datasource', 'data.csv',
+      '-format', 'JUNIT', '-out', 'report.xml', '-timeout', '90',
+    ])).toEqual({
+      macroPath: 'login.iim',
+      variables: { USER: 'alice', GREETING: 'a=b' },
+      loops: 3,
+      datasource: 'data.csv',
+      format: 'junit',
+      outputPath: 'report.xml',
+      timeoutSeconds: 90,
+    });
+  });
+
+  it('defaults to one loop and a JSON report', () => {
+    expect(parseRunArgs(['run', 'a.iim'])).toEqual({
+      macroPath: 'a.iim',
+      variables: {},
+      loops: 1,
+      format: 'json',
+    });
+  });
+
+  it.each([
+    [[], 'Missing command'],
+    [['play', 'a.iim'], 'Unknown command: play'],
+    [['run'], 'Missing macro path'],
+    [['run', 'a.iim', 'b.iim'], 'Unexpected argument: b.iim'],
+    [['run', 'a.iim', '-var', 'NOVALUE'], '-var expects NAME=VALUE'],
+    [['run', 'a.iim', '-loop', '0'], '-loop expects a positive whole number'],
+    [['run', 'a.iim', '-loop'], '-loop needs a value'],
+    [['run', 'a.iim', '-format', 'xml'], '-format expects json or junit'],
+    [['run', 'a.iim', '-timeout', 'soon'], '-timeout expects a number of seconds'],
+    [['run', 'a.iim', '-verbose'], 'Unknown option: -verbose'],
+  ])('rejects %j', (argv, message) => {
+    expect(() => parseRunArgs(argv as string[])).toThrow(message);
+  });
+});
+
+describe('reports', () => {
+  const base: RunReport = {
+    macro: '/macros/Demo <1>.iim',
+    success: true,
+    errorCode: 0,
+    loopsCompleted: 2,
+    executionTimeMs: 1234,
+    startTime: '2026-01-02T03:04:05.000Z',
+    extract: ['a & b', 'c'],
+    extractRecords: [{ EXTRACT1: 'a & b' }],
+  };
+
+  it('builds the report from a macro result', () => {
+    const result: MacroResult = {
+      success: false,
+      errorCode: -920,
+      errorMessage: 'Element not found',
+      errorLine: 4,
+      loopsCompleted: 1,
+      executionTimeMs: 50,
+      extractData: ['x'],
+      variables: { SECRET: 'hidden' },
+    };
+    const report = buildRunReport('/m.iim', result, new Date('2026-01-02T03:04:05Z'));
+    expect(report).toEqual({
+      macro: '/m.iim',
+      success: false,
+      errorCode: -920,
+      errorMessage: 'Element not found',
+      errorLine: 4,
+      loopsCompleted: 1,
+      executionTimeMs: 50,
+      startTime: '2026-01-02T03:04:05.000Z',
+      extract: ['x'],
+      extractRecords: [],
+    });
+  });
+
+  it('formats JSON', () => {
+    expect(JSON.parse(formatJsonReport(base))).toEqual(base);
+  });
+
+  it('formats a passing JUnit test case', () => {
+    const xml = formatJunitReport(base);
+    expect(xml).toContain('<testsuite name="imacros" tests="1" failures="0" errors="0" time="1.234" timestamp="2026-01-02T03:04:05.000Z">');
+    expect(xml).toContain('<testcase classname="imacros" name="Demo &lt;1&gt;.iim" time="1.234">');
+    expect(xml).toContain('<system-out>loops=2\nextract=a &amp; b\nextract=c</system-out>');
+    expect(xml).not.toContain('<failure');
+  });
+
+  it('formats a failing JUnit test case with the error code and line', () => {
+    const xml = formatJunitReport({
+      ...base,
+      success: false,
+      errorCode: -920,
+      errorMessage: 'Element "q" not found',
+      errorLine: 7,
+    });
+    expect(xml).toContain('failures="1"');
+    expect(xml).toContain('<failure type="-920" message="Element &quot;q&quot; not found (line 7)"/>');
+  });
+
+  it('maps error codes to exit codes', () => {
+    expect(exitCodeFor(0)).toBe(0);
+    expect(exitCodeFor(-920)).toBe(1);
+    expect(exitCodeFor(-930)).toBe(3);
+  });
+});
+
+describe('runCli', () => {
+  it('runs a macro and prints a JSON report', async () => {
+    const macro = writeFile('extract.iim', [
+      'URL GOTO=https://example.com/{{PAGE}}',
+      'TAG POS=1 TYPE=H1 ATTR=* EXTRACT=TXT',
+      'SET !EXTRACT {{!EXTRACT}}-{{!LOOP}}',
+    ].join('\n'));
+    const browser = fakeBrowser(() => ({ success: true, extractedData: 'Heading' }));
+
+    const { code, stdout, closeBrowser } = await run(['run', macro, '-var', 'PAGE=home', '-loop', '2'], browser);
+
+    expect(code).toBe(0);
+    const report = JSON.parse(stdout);
+    expect(report).toMatchObject({ macro, success: true, errorCode: 0, loopsCompleted: 2 });
+    expect(browser.navigated).toEqual(['https://example.com/home', 'https://example.com/home']);
+    expect(browser.close).toHaveBeenCalled();
+    expect(closeBrowser).toHaveBeenCalled();
+  });
+
+  it('exits with 1 when the macro fails', async () => {
+    const macro = writeFile('fail.iim', 'TAG POS=1 TYPE=INPUT ATTR=NAME:q CONTENT=x\n');
+    const browser = fakeBrowser(() => ({ success: false, errorCode: -920, error: 'Element not found' }));
+
+    const { code, stdout } = await run(['run', macro, '-format', 'junit'], browser);
+
+    expect(code).toBe(1);
+    expect(stdout).toContain('<failure type="-920"');
+  });
+
+  it('reports syntax errors without opening a browser', async () => {
+    const macro = writeFile('bad.iim', 'VERSION BUILD=1\nNOTACOMMAND X=1\n');
+    const openBrowser = vi.fn();
+
+    const code = await runCli(['run', macro], { stdout: () => {}, stderr: () => {} }, { openBrowser });
+
+    expect(code).toBe(1);
+    expect(openBrowser).not.toHaveBeenCalled();
+  });
+
+  it('reads the -datasource file for SET !DATASOURCE', async () => {
+    const data = writeFile('people.csv', 'Ann,1\nBob,2\n');
+    const macro = writeFile('ds.iim', [
+      'SET !DATASOURCE other.csv',
+      'SET !DATASOURCE_LINE {{!LOOP}}',
+      'URL GOTO=https://example.com/?name={{!COL1}}',
+    ].join('\n'));
+    const browser = fakeBrowser();
+
+    const { code } = await run(['run', macro, '-datasource', data, '-loop', '2'], browser);
+
+    expect(code).toBe(0);
+    expect(browser.navigated).toEqual(['https://example.com/?name=Ann', 'https://example.com/?name=Bob']);
+  });
+
+  it('resolves relative datasource paths against the macro directory', async () => {
+    writeFile('local.csv', 'Zed\n');
+    const macro = writeFile('local.iim', 'SET !DATASOURCE local.csv\nURL GOTO=https://example.com/{{!COL1}}\n');
+    const browser = fakeBrowser();
+
+    await run(['run', macro], browser);
+
+    expect(browser.navigated).toEqual(['https://example.com/Zed']);
+  });
+
+  it('writes the report to -out', async () => {
+    const macro = writeFile('ok.iim', 'SET !VAR1 1\n');
+    const out = path.join(tmpDir, 'report.json');
+
+    const { stdout } = await run(['run', macro, '-out', out]);
+
+    expect(stdout).toBe('');
+    expect(JSON.parse(fs.readFileSync(out, 'utf8')).success).toBe(true);
+  });
+
+  it('stops the macro at -timeout', async () => {
+    const macro = writeFile('slow.iim', 'TAG POS=1 TYPE=H1 ATTR=* EXTRACT=TXT\nWAIT SECONDS=5\n');
+    const browser = fakeBrowser(() => ({ success: true, extractedData: 'first' }));
+
+    const { code, stdout } = await run(['run', macro, '-timeout', '0.5'], browser);
+
+    expect(code).toBe(3);
+    expect(JSON.parse(stdout)).toMatchObject({
+      errorMessage: 'Macro timed out after 0.5s',
+      loopsCompleted: 0,
+      extract: ['first'],
+    });
+  });
+
+  it('prints usage for bad arguments', async () => {
+    const { code, stderr } = await run(['run']);
+    expect(code).toBe(2);
+    expect(stderr).toContain('Missing macro path');
+    expect(stderr).toContain('Usage: imacros run');
+  });
+
+  it('fails with FILE_NOT_FOUND for a missing macro', async () => {
+    const macro = path.join(tmpDir, 'nope.iim');
+    const { code, stdout, stderr } = await run(['run', macro]);
+    expect(code).toBe(1);
+    expect(stderr).toContain('Cannot read macro');
+    expect(JSON.parse(stdout)).toMatchObject({ macro, success: false, errorCode: -961, loopsCompleted: 0 });
+  });
+
+  it('writes the report for a missing macro to -out', async () => {
+    const out = path.join(tmpDir, 'report.xml');
+
+    const { code, stdout } = await run(['run', path.join(tmpDir, 'nope.iim'), '-format', 'junit', '-out', out]);
+
+    expect(code).toBe(1);
+    expect(stdout).toBe('');
+    expect(fs.readFileSync(out, 'utf8')).toContain('<failure type="-961" message="Cannot read macro');
+  });
+
+  it('exits with 1 when the -out report cannot be written', async () => {
+    const macro = writeFile('ok.iim', 'SET !VAR1 1\n');
+    const out = path.join(tmpDir, 'missing-dir', 'report.json');
+
+    const { code, stderr } = await run(['run', macro, '-out', out]);
+
+    expect(code).toBe(1);
+    expect(stderr).toContain(`Cannot write report ${out}`);
+  });
+
+  it('reports a browser that cannot start', async () => {
+    const macro = writeFile('ok.iim', 'URL GOTO=https://example.com/\n');
+    const out: string[] = [];
+
+    const code = await runCli(['run', macro], { stdout: text => out.push(text), stderr: () => {} }, {
+      openBrowser: async () => { throw new Error('Chrome not found'); },
+      closeBrowser: async () => undefined,
+    });
+
+    expect(code).toBe(1);
+    expect(JSON.parse(out.join('')).errorMessage).toBe('Cannot start the headless browser: Chrome not found');
+  });
+});
@@ -547,6 +547,24 @@ describe('command-handlers', () => {
       expect(params.extract).toBe('TXT');
     });
 
+    it('passes FALLBACK locators and logs the fallback that matched', async () => {
+      const tagParams = [
+        { key: 'POS', value: '1', rawValue: '1' },
+        { key: 'TYPE', value: 'INPUT:TEXT', rawValue: 'INPUT:TEXT' },
+        { key: 'ATTR', value: 'ID:old', rawValue: 'ID:old' },
+        { key: 'FALLBACK', value: 'NAME:q||LABEL:Search', rawValue: '"NAME:q||LABEL:Search"' },
+      ];
+      const ctx = createMockCtx(tagParams);
+      bridge.executeTag.mockResolvedValueOnce({ success: true, fallbackUsed: 'NAME:q' });
+      await handlers.TAG(ctx);
+
+      const params = bridge.executeTag.mock.calls[0][0];
+      expect(params.fallbacks).toEqual(['NAME:q', 'LABEL:Search']);
+      expect(ctx.log).toHaveBeenCalledWith('warn',
+        'TAG: primary locator failed, matched fallback NAME:q. '
+        + 'Suggested line: TAG POS=1 TYPE=INPUT:TEXT ATTR=NAME:q FALLBACK="NAME:q||LABEL:Search"');
+    });
+
     it('uses default timeout of 6000ms when !TIMEOUT_TAG is not set', async () => {
       const ctx = createMockCtx([{ key: 'POS', value: '1' }]);
       await handlers.TAG(ctx);
@@ -692,6 +710,18 @@ describe('command-handlers', () => {
       expect(ctx.state.addExtract).toHaveBeenCalledWith('Hello World');
     });
 
+    it('passes the AS field name to addExtract', async () => {
+      bridge.executeTag.mockResolvedValue({ success: true, extractedData: '9.99' });
+      const ctx = createMockCtx([
+        { key: 'CSS', value: '.price' },
+        { key: 'EXTRACT', value: 'TXT' },
+        { key: 'AS', value: 'price' },
+      ]);
+      await handlers.TAG(ctx);
+
+      expect(ctx.state.addExtract).toHaveBeenCalledWith('9.99', 'price');
+    });
+
     it('does not call addExtract when extractedData is undefined', async () => {
       bridge.executeTag.mockResolvedValue({ success: true });
       const ctx = createMockCtx([
@@ -23,6 +23,9 @@ import {
   markPopupSettingsModified,
   restoreProxySettings,
   restorePopupSettings,
+  resetFilterRulesState,
+  hasFilterRules,
+  clearFilterRules,
   sendSetPopupAllowed,
   browserCommandHandlers,
   registerBrowserCommandHandlers,
@@ -92,6 +95,7 @@ beforeEach(() => {
   setBrowserCommandBridge(mockBridge);
   resetProxyBackupState();
   resetPopupSettingsState();
+  resetFilterRulesState();
 });
 
 afterEach(() => {
@@ -923,9 +927,10 @@ describe('registerBrowserCommandHandlers', () => {
     const registerHandler = vi.fn();
     const registerCleanup = vi.fn();
     registerBrowserCommandHandlers({ registerHandler, registerCleanup });
-    expect(registerCleanup).toHaveBeenCalledTimes(2);
+    expect(registerCleanup).toHaveBeenCalledTimes(3);
     expect(registerCleanup).toHaveBeenCalledWith(restoreProxySettings);
     expect(registerCleanup).toHaveBeenCalledWith(restorePopupSettings);
+    expect(registerCleanup).toHaveBeenCalledWith(clearFilterRules);
   });
 
   it('should not fail when registerCleanup is not provided', () => {
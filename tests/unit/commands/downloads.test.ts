@@ -59,6 +59,7 @@ function createMockContext(
         return { success: true, previousValue: null, newValue: value };
       },
       expand: (t: string) => ({ expanded: t, variables: [] }),
+      getExtractArray: () => (vars.has('!EXTRACT') ? [vars.get('!EXTRACT')] : []),
     },
     state: {
       setVariable: (name: string, value: any) => vars.set(name.toUpperCase(), value),
@@ -20,10 +20,13 @@ import {
   parseContentParam,
   buildSelector,
   buildAction,
+  parseFallbackParam,
+  suggestFallbackRewrite,
   interactionHandlers,
   registerInteractionHandlers,
 } from '../../../shared/src/commands/interaction';
 import { IMACROS_ERROR_CODES } from '../../../shared/src/executor';
+import { parseMacro } from '../../../shared/src/parser';
 
 // ===== Mock Factories =====
 
@@ -332,6 +335,49 @@ describe('interaction command handlers', () => {
       const sel = buildSelector(ctx);
       expect(sel).toEqual({});
     });
+
+    it('adds FALLBACK locators to any primary selector', () => {
+      const tagSel = buildSelector(createMockContext({ POS: '1', TYPE: 'INPUT', ATTR: 'ID:q', FALLBACK: 'NAME:q||LABEL:Search' }));
+      expect(tagSel.fallbacks).toEqual(['NAME:q', 'LABEL:Search']);
+      const xpathSel = buildSelector(createMockContext({ XPATH: '//input', FALLBACK: 'ID:q' }));
+      expect(xpathSel.fallbacks).toEqual(['ID:q']);
+    });
+  });
+
+  // -------------------------------------------------------
+  // 5b. FALLBACK locators
+  // -------------------------------------------------------
+  describe('parseFallbackParam', () => {
+    it('splits on || and drops empty entries', () => {
+      expect(parseFallbackParam('ID:q|| NAME:query ||||XPATH://a[@x="1"]')).toEqual([
+        'ID:q', 'NAME:query', 'XPATH://a[@x="1"]',
+      ]);
+    });
+  });
+
+  describe('suggestFallbackRewrite', () => {
+    const command = parseMacro(
+      'TAG POS=1 TYPE=INPUT:TEXT ATTR=ID:old FALLBACK="NAME:q||LABEL:Search" CONTENT=hello'
+    ).commands[0];
+
+    it('rewrites ID, NAME and TXT as ATTR with the original TYPE', () => {
+      expect(suggestFallbackRewrite(command, 'TXT:Find it')).toBe(
+        'TAG POS=1 TYPE=INPUT:TEXT ATTR=TXT:Find<SP>it FALLBACK="NAME:q||LABEL:Search" CONTENT=hello'
+      );
+    });
+
+    it('rewrites XPATH and CSS as quoted primary locators', () => {
+      expect(suggestFallbackRewrite(command, `XPATH://*[@id='f']/input[1]`)).toBe(
+        `TAG XPATH="//*[@id='f']/input[1]" FALLBACK="NAME:q||LABEL:Search" CONTENT=hello`
+      );
+      expect(suggestFallbackRewrite(command, 'CSS:input[name="q"]')).toBe(
+        'TAG CSS="input[name=\\"q\\"]" FALLBACK="NAME:q||LABEL:Search" CONTENT=hello'
+      );
+    });
+
+    it('returns null for LABEL', () => {
+      expect(suggestFallbackRewrite(command, 'LABEL:Search')).toBeNull();
+    });
   });
 
   // -------------------------------------------------------
@@ -375,6 +421,19 @@ describe('interaction command handlers', () => {
   // 7. TAG handler
   // -------------------------------------------------------
   describe('tagHandler', () => {
+    it('logs the matched fallback and a suggested line', async () => {
+      mockSender.sendMessage.mockResolvedValue({ success: true, fallbackUsed: 'NAME:q' });
+      const ctx = createMockContext({ POS: '1', TYPE: 'INPUT', ATTR: 'ID:old', FALLBACK: 'NAME:q' });
+      const result = await tagHandler(ctx);
+
+      expect(result.success).toBe(true);
+      expect(mockSender.sendMessage.mock.calls[0][0].payload.selector.fallbacks).toEqual(['NAME:q']);
+      const warning = ctx._logs.find((l: { level: string }) => l.level === 'warn');
+      expect(warning.message).toBe(
+        'TAG: primary locator failed, matched fallback NAME:q. Suggested line: TAG POS=1 TYPE=INPUT ATTR=NAME:q FALLBACK=NAME:q'
+      );
+    });
+
     it('sends TAG_COMMAND and returns success', async () => {
       mockSender.sendMessage.mockResolvedValue({ success: true });
       const ctx = createMockContext({ POS: '1', TYPE: 'INPUT', ATTR: 'NAME:q', CONTENT: 'test' });
@@ -454,6 +513,23 @@ describe('interaction command handlers', () => {
       expect(vars.get('!EXTRACT')).toBe('$19.99');
     });
 
+    it('stores an extracted table with each row starting with [EXTRACT_ROW]', async () => {
+      mockSender.sendMessage.mockResolvedValue({
+        success: true,
+        extractedTable: { headers: ['Name', 'Price'], rows: [['Widget', '9.99'], ['Gadget', '5']] },
+      });
+      const vars = new Map<string, any>();
+      const ctx = createMockContext({ POS: '1', TYPE: 'TABLE', ATTR: 'ID:results', EXTRACT: 'table' }, vars);
+      const result = await tagHandler(ctx);
+
+      const msg = mockSender.sendMessage.mock.calls[0][0];
+      expect(msg.payload.action.extract).toBe('TABLE');
+      expect(result.success).toBe(true);
+      expect(vars.get('!EXTRACT')).toBe(
+        '[EXTRACT_ROW]Name[EXTRACT]Price[EXTRACT_ROW]Widget[EXTRACT]9.99[EXTRACT_ROW]Gadget[EXTRACT]5'
+      );
+    });
+
     it('returns MISSING_PARAMETER when no XPATH, CSS, or TYPE', async () => {
       const ctx = createMockContext({ POS: '1', ATTR: 'NAME:q' });
       const result = await tagHandler(ctx);
@@ -0,0 +1,113 @@
+/**
+ * Unit tests for shared/src/commands/network.ts
+ *
+ * Covers the URL wildcard matching and the HAR 1.2 builder used by
+ * NETCAPTURE and SAVEAS TYPE=HAR.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  matchesUrlPattern,
+  findHeader,
+  buildHar,
+  type CapturedRequest,
+} from '../../../shared/src/commands/network';
+
+function request(overrides: Partial<CapturedRequest> = {}): CapturedRequest {
+  return {
+    id: '7',
+    url: 'https://example.com/search?q=a+b&page=2',
+    method: 'GET',
+    resourceType: 'main_frame',
+    tabId: 1,
+    startTime: Date.UTC(2026, 0, 2, 3, 4, 5),
+    requestHeaders: [{ name: 'User-Agent', value: 'test' }],
+    status: 302,
+    statusLine: 'HTTP/1.1 302 Found',
+    responseHeaders: [
+      { name: 'Location', value: '/results' },
+      { name: 'Content-Type', value: 'text/html' },
+      { name: 'Content-Length', value: '120' },
+    ],
+    responseStartTime: Date.UTC(2026, 0, 2, 3, 4, 5) + 40,
+    endTime: Date.UTC(2026, 0, 2, 3, 4, 5) + 100,
+    serverIp: '93.184.216.34',
+    ...overrides,
+  };
+}
+
+describe('matchesUrlPattern', () => {
+  it.each([
+    ['https://example.com/api/login', '*/api/*', true],
+    ['https://example.com/api/login', 'https://example.com/api/login', true],
+    ['https://EXAMPLE.com/API/login', '*example.com/api*', true],
+    ['https://example.com/api/login', '*/api', false],
+    ['https://example.com/a.b?c=1', 'https://example.com/a.b?c=*', true],
+    ['https://example.com/axb', 'https://example.com/a.b', false],
+  ])('%s against %s is %s', (url, pattern, expected) => {
+    expect(matchesUrlPattern(url, pattern)).toBe(expected);
+  });
+});
+
+describe('findHeader', () => {
+  it('finds headers by name regardless of case', () => {
+    expect(findHeader(request().responseHeaders, 'content-type')).toBe('text/html');
+    expect(findHeader(request().responseHeaders, 'ETag')).toBeUndefined();
+  });
+});
+
+describe('buildHar', () => {
+  it('converts a captured request to a HAR 1.2 entry', () => {
+    const har = buildHar([request()], '2.0');
+
+    expect(har.log.version).toBe('1.2');
+    expect(har.log.creator).toEqual({ name: 'iMacros', version: '2.0' });
+    expect(har.log.entries).toHaveLength(1);
+    expect(har.log.entries[0]).toEqual({
+      startedDateTime: '2026-01-02T03:04:05.000Z',
+      time: 100,
+      request: {
+        method: 'GET',
+        url: 'https://example.com/search?q=a+b&page=2',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: [{ name: 'User-Agent', value: 'test' }],
+        queryString: [{ name: 'q', value: 'a b' }, { name: 'page', value: '2' }],
+        headersSize: -1,
+        bodySize: -1,
+      },
+      response: {
+        status: 302,
+        statusText: 'Found',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: request().responseHeaders,
+        content: { size: 120, mimeType: 'text/html' },
+        redirectURL: '/results',
+        headersSize: -1,
+        bodySize: 120,
+      },
+      cache: {},
+      timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait: 40, receive: 60, ssl: -1 },
+      serverIPAddress: '93.184.216.34',
+      _resourceType: 'main_frame',
+    });
+  });
+
+  it('orders entries by start time and records failures', () => {
+    const har = buildHar([
+      request({ id: 'late', startTime: 5000, endTime: 5010, responseStartTime: undefined }),
+      request({
+        id: 'failed', url: 'https://down.example/', startTime: 10, endTime: 30,
+        status: 0, statusLine: '', responseHeaders: [], responseStartTime: undefined,
+        error: 'net::ERR_NAME_NOT_RESOLVED', serverIp: undefined,
+      }),
+    ]);
+
+    const [failed, late] = har.log.entries;
+    expect(failed.request.url).toBe('https://down.example/');
+    expect(failed.response).toMatchObject({ status: 0, _error: 'net::ERR_NAME_NOT_RESOLVED', bodySize: -1 });
+    expect(failed.timings).toMatchObject({ wait: 20, receive: 0 });
+    expect(failed).not.toHaveProperty('serverIPAddress');
+    expect(late.time).toBe(10);
+  });
+});
@@ -540,6 +540,95 @@ describe('Credential Storage Service', () => {
     });
   });
 
+  // =========================================================================
+  // Rotation and entry info
+  // =========================================================================
+  describe('Rotation and entry info', () => {
+    it('should rotate a value and keep its creation and expiry times', () => {
+      const service = createService();
+      service.setMasterPassword('pass');
+      service.storeCredential('bank', 'old', 60000);
+      const [before] = service.listCredentialInfo();
+
+      expect(service.rotateCredential('bank', 'new').success).toBe(true);
+
+      expect(service.getCredential('bank').data).toBe('new');
+      const [after] = service.listCredentialInfo();
+      expect(after.createdAt).toBe(before.createdAt);
+      expect(after.expiresAt).toBe(before.expiresAt);
+      expect(after.rotatedAt).toBeGreaterThan(0);
+      expect(before.rotatedAt).toBe(0);
+    });
+
+    it('should not rotate missing credentials or while locked', () => {
+      const service = createService();
+      service.setMasterPassword('pass');
+      service.storeCredential('bank', 'old');
+
+      expect(service.rotateCredential('nope', 'x').error).toBe('Credential not found: nope');
+      service.lock();
+      expect(service.rotateCredential('bank', 'x').error).toContain('locked');
+    });
+
+    it('should set and clear the expiry', () => {
+      const service = createService();
+      service.setMasterPassword('pass');
+      service.storeCredential('token', 'val');
+
+      expect(service.setCredentialExpiry('token', Date.now() - 1).success).toBe(true);
+      expect(service.getCredential('token').error).toContain('expired');
+
+      service.storeCredential('token', 'val');
+      service.setCredentialExpiry('token', 12345);
+      service.setCredentialExpiry('token', 0);
+      expect(service.listCredentialInfo()[0].expiresAt).toBe(0);
+      expect(service.setCredentialExpiry('nope', 0).success).toBe(false);
+    });
+
+    it('should list entry info without values', () => {
+      const service = createService();
+      service.setMasterPassword('pass');
+      service.storeCredential('bank', 'secret-value');
+
+      const info = service.listCredentialInfo();
+      expect(info).toEqual([{ name: 'bank', createdAt: expect.any(Number), rotatedAt: 0, expiresAt: 0, fields: [] }]);
+      expect(JSON.stringify(info)).not.toContain('secret-value');
+    });
+
+    it('should list the field names saved with an entry, even while locked', () => {
+      const service = createService();
+      service.setMasterPassword('pass');
+      service.storeCredential('bank', '{"user":"alice","password":"pw"}', 0, ['user', 'password']);
+      service.lock();
+
+      expect(service.listCredentialInfo()[0].fields).toEqual(['user', 'password']);
+
+      service.unlock('pass');
+      service.rotateCredential('bank', 'plain');
+      expect(service.listCredentialInfo()[0].fields).toEqual([]);
+    });
+
+    it('should read credentials again after locking and unlocking', () => {
+      const service = createService();
+      service.setMasterPassword('pass');
+      service.storeCredential('a', 'one');
+      service.storeCredential('b', 'two');
+
+      expect(service.getCredential('a').data).toBe('one');
+      expect(service.getCredential('a').data).toBe('one');
+      service.lock();
+      expect(service.getCredential('b').success).toBe(false);
+
+      service.unlock('pass');
+      expect(service.getCredential('b').data).toBe('two');
+      expect(service.getCredential('a').data).toBe('one');
+
+      const reopened = createService();
+      expect(reopened.unlock('pass').success).toBe(true);
+      expect(reopened.getCredential('b').data).toBe('two');
+    });
+  });
+
   // =========================================================================
   // 8. Edge cases
   // =========================================================================
@@ -2,7 +2,7 @@
  * Data Extractor Unit Tests
  *
  * Tests data extraction functions: text extraction, attribute extraction,
- * table cell extraction, extraction buffer, link/image/form extractors,
+ * table cell and whole-table extraction, extraction buffer, link/image/form extractors,
  * and data attributes.
  *
  * Uses JSDOM for DOM simulation. All elements come from the global document
@@ -83,6 +83,7 @@ import {
   extractOuterHtml,
   extractAttribute,
   extractFromTableCell,
+  extractTable,
   extractData,
   extractFromSelector,
   addToExtractionBuffer,
@@ -408,6 +409,90 @@ describe('Data Extractor', () => {
     });
   });
 
+  // ============================================================
+  // extractTable
+  // ============================================================
+
+  describe('extractTable', () => {
+    function tableFrom(html: string): HTMLTableElement {
+      doc.body.innerHTML = `<table id="t">${html}</table>`;
+      return doc.getElementById('t') as HTMLTableElement;
+    }
+
+    it('should return every row and column without headers', () => {
+      const table = doc.getElementById('tbl') as HTMLTableElement;
+      expect(extractTable(table)).toEqual({
+        headers: null,
+        rows: [['R1C1', 'R1C2'], ['R2C1', 'R2C2'], ['R3C1', 'R3C2']],
+      });
+    });
+
+    it('should use THEAD rows as headers and collapse whitespace', () => {
+      const table = tableFrom(`
+        <thead><tr><td>Name</td><td> Unit
+          price </td></tr></thead>
+        <tbody><tr><td>Widget</td><td>9.99</td></tr></tbody>`);
+      expect(extractTable(table)).toEqual({
+        headers: ['Name', 'Unit price'],
+        rows: [['Widget', '9.99']],
+      });
+    });
+
+    it('should detect leading TH rows as headers and merge stacked header rows', () => {
+      const table = tableFrom(`
+        <tr><th rowspan="2">Item</th><th colspan="2">Price</th></tr>
+        <tr><th>Net</th><th>Gross</th></tr>
+        <tr><td>Widget</td><td>10</td><td>12</td></tr>`);
+      expect(extractTable(table)).toEqual({
+        headers: ['Item', 'Price Net', 'Price Gross'],
+        rows: [['Widget', '10', '12']],
+      });
+    });
+
+    it('should not treat a table made only of TH cells as having headers', () => {
+      const table = tableFrom('<tr><th>a</th></tr><tr><th>b</th></tr>');
+      expect(extractTable(table).headers).toBeNull();
+    });
+
+    it('should repeat spanned cells and pad short rows', () => {
+      const table = tableFrom(`
+        <tr><td rowspan="2">A</td><td colspan="2">B</td></tr>
+        <tr><td>C</td></tr>
+        <tr><td>D</td></tr>`);
+      expect(extractTable(table).rows).toEqual([
+        ['A', 'B', 'B'],
+        ['A', 'C', ''],
+        ['D', '', ''],
+      ]);
+    });
+
+    it('should stop row spans at the end of their section', () => {
+      const table = tableFrom(`
+        <tbody><tr><td rowspan="0">A</td><td>1</td></tr><tr><td>2</td></tr></tbody>
+        <tbody><tr><td>B</td><td>3</td></tr></tbody>`);
+      expect(extractTable(table).rows).toEqual([['A', '1'], ['A', '2'], ['B', '3']]);
+    });
+
+    it('should add a URL column after each column with links', () => {
+      const table = tableFrom(`
+        <thead><tr><th>Name</th><th>Price</th></tr></thead>
+        <tbody>
+          <tr><td><a href="/w">Widget</a></td><td>9.99</td></tr>
+          <tr><td>Plain</td><td>1.00</td></tr>
+        </tbody>`);
+      const result = extractTable(table, { links: true });
+      expect(result.headers).toEqual(['Name', 'Name URL', 'Price']);
+      expect(result.rows[0][0]).toBe('Widget');
+      expect(result.rows[0][1]).toMatch(/\/w$/);
+      expect(result.rows[1]).toEqual(['Plain', '', '1.00']);
+    });
+
+    it('should ignore links unless requested', () => {
+      const table = tableFrom('<tr><td><a href="/w">Widget</a></td></tr>');
+      expect(extractTable(table).rows).toEqual([['Widget']]);
+    });
+  });
+
   // ============================================================
   // extractData
   // ============================================================
@@ -0,0 +1,259 @@
+/**
+ * Unit Tests for the Streaming CSV Datasource
+ *
+ * Covers:
+ * - StreamingCsvSource indexing, block reads and the row window
+ * - Quoted fields with line breaks, CRLF, empty and comment lines
+ * - UTF-8 BOM and UTF-16 files
+ * - DatasourceManager.loadFromFile parity with loadFromContent
+ * - VariableContext !COL resolution over a streamed source
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { StreamingCsvSource, type DatasourceFile, type StreamingCsvOptions } from '../../shared/src/datasource-stream';
+import { DatasourceManager, isDatasourceFile } from '../../shared/src/datasource';
+import { createVariableContext } from '../../shared/src/variables';
+
+/**
+ * In-memory DatasourceFile that counts the bytes read
+ */
+function memoryFile(content: string | Uint8Array, extra: Partial<DatasourceFile> = {}) {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  const file = {
+    size: bytes.length,
+    bytesRead: 0,
+    read(position: number, length: number) {
+      const chunk = bytes.subarray(position, Math.min(position + length, bytes.length));
+      file.bytesRead += chunk.length;
+      return chunk;
+    },
+    close: vi.fn(),
+    ...extra,
+  };
+  return file;
+}
+
+const CSV_OPTIONS: StreamingCsvOptions = {
+  delimiter: ',',
+  quoteChar: '"',
+  escapeChar: '"',
+  skipEmptyLines: true,
+  commentChar: '',
+  hasHeader: false,
+  startLine: 1,
+};
+
+function rowsOf(source: StreamingCsvSource): string[][] {
+  return Array.from({ length: source.length }, (_, i) => source.getRow(i)!);
+}
+
+describe('StreamingCsvSource', () => {
+  it('indexes rows and reads them on demand', () => {
+    const source = new StreamingCsvSource(memoryFile('a,b\nc,d\ne,f\n'), CSV_OPTIONS);
+
+    expect(source.length).toBe(3);
+    expect(source.columnCount).toBe(2);
+    expect(source.getRow(1)).toEqual(['c', 'd']);
+    expect(source.getRow(3)).toBeUndefined();
+    expect(source.getRow(-1)).toBeUndefined();
+  });
+
+  it('reads rows across block boundaries in any order', () => {
+    const lines = Array.from({ length: 25 }, (_, i) => `row${i + 1},${i + 1}`);
+    const source = new StreamingCsvSource(memoryFile(lines.join('\n')), {
+      ...CSV_OPTIONS,
+      rowsPerBlock: 4,
+      cachedBlocks: 2,
+    });
+
+    expect(source.length).toBe(25);
+    expect(source.getRow(24)).toEqual(['row25', '25']);
+    expect(source.getRow(0)).toEqual(['row1', '1']);
+    expect(source.getRow(13)).toEqual(['row14', '14']);
+    expect(rowsOf(source)).toEqual(lines.map((line) => line.split(',')));
+  });
+
+  it('keeps only a window of parsed blocks', () => {
+    const lines = Array.from({ length: 100 }, (_, i) => `value${i}`);
+    const file = memoryFile(lines.join('\n'));
+    const source = new StreamingCsvSource(file, { ...CSV_OPTIONS, rowsPerBlock: 10, cachedBlocks: 1 });
+
+    source.getRow(55);
+    const afterFirstRead = file.bytesRead;
+    source.getRow(57);
+    expect(file.bytesRead).toBe(afterFirstRead);
+
+    source.getRow(5);
+    expect(file.bytesRead).toBeGreaterThan(afterFirstRead);
+  });
+
+  it('keeps line breaks and delimiters inside quoted fields', () => {
+    const csv = 'id,note\n1,"line one\nline two"\n2,"a, ""quoted"" b"\n';
+    const source = new StreamingCsvSource(memoryFile(csv), { ...CSV_OPTIONS, rowsPerBlock: 1 });
+
+    expect(rowsOf(source)).toEqual([
+      ['id', 'note'],
+      ['1', 'line one\nline two'],
+      ['2', 'a, "quoted" b'],
+    ]);
+  });
+
+  it('handles CRLF line endings and skips empty and comment lines', () => {
+    const csv = '# exported\r\na,b\r\n\r\nc,d\r\n';
+    const source = new StreamingCsvSource(memoryFile(csv), { ...CSV_OPTIONS, commentChar: '#' });
+
+    expect(rowsOf(source)).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('uses the first row as headers and pads short rows', () => {
+    const source = new StreamingCsvSource(memoryFile('name,email,phone\nalice,a@x\nbob,b@x,555\n'), {
+      ...CSV_OPTIONS,
+      hasHeader: true,
+    });
+
+    expect(source.headers).toEqual(['name', 'email', 'phone']);
+    expect(source.length).toBe(2);
+    expect(source.getRow(0)).toEqual(['alice', 'a@x', '']);
+  });
+
+  it('applies the start line after the header', () => {
+    const source = new StreamingCsvSource(memoryFile('h\n1\n2\n3\n'), {
+      ...CSV_OPTIONS,
+      hasHeader: true,
+      startLine: 2,
+    });
+
+    expect(rowsOf(source)).toEqual([['2'], ['3']]);
+  });
+
+  it('skips a UTF-8 byte order mark', () => {
+    const bytes = new Uint8Array([0xef, 0xbb, 0xbf, ...new TextEncoder().encode('ä,b\n')]);
+    const source = new StreamingCsvSource(memoryFile(bytes), CSV_OPTIONS);
+
+    expect(source.getRow(0)).toEqual(['ä', 'b']);
+  });
+
+  it('scans UTF-16LE files in two-byte units', () => {
+    const text = '﻿a,b\nč,"x\ny"\n';
+    const bytes = new Uint8Array(text.length * 2);
+    for (let i = 0; i < text.length; i++) {
+      bytes[i * 2] = text.charCodeAt(i) & 0xff;
+      bytes[i * 2 + 1] = text.charCodeAt(i) >> 8;
+    }
+    const source = new StreamingCsvSource(memoryFile(bytes, { encoding: 'utf-16le' }), CSV_OPTIONS);
+
+    expect(rowsOf(source)).toEqual([['a', 'b'], ['č', 'x\ny']]);
+  });
+
+  it('decodes records with the host decoder', () => {
+    const decode = vi.fn((bytes: Uint8Array) => new TextDecoder().decode(bytes).toUpperCase());
+    const source = new StreamingCsvSource(memoryFile('a,b\n', { decode }), CSV_OPTIONS);
+
+    expect(source.getRow(0)).toEqual(['A', 'B']);
+    expect(decode).toHaveBeenCalled();
+  });
+
+  it('rejects empty files, unterminated quotes and out-of-range start lines', () => {
+    expect(() => new StreamingCsvSource(memoryFile('\n\n'), CSV_OPTIONS)).toThrow('empty');
+    expect(() => new StreamingCsvSource(memoryFile('a,"open\nb,c\n'), CSV_OPTIONS)).toThrow('never closed');
+    expect(() => new StreamingCsvSource(memoryFile('a\nb\n'), { ...CSV_OPTIONS, startLine: 3 }))
+      .toThrow('Start line 3 exceeds data row count 2');
+  });
+
+  it('closes the file', () => {
+    const file = memoryFile('a\n');
+    new StreamingCsvSource(file, CSV_OPTIONS).close();
+
+    expect(file.close).toHaveBeenCalled();
+  });
+});
+
+describe('DatasourceManager.loadFromFile', () => {
+  const csv = 'first;last\nAda;Lovelace\nAlan;Turing\nGrace;Hopper\n';
+
+  it('navigates a streamed file the same way as loaded content', () => {
+    const streamed = new DatasourceManager();
+    const loaded = new DatasourceManager();
+    expect(streamed.loadFromFile(memoryFile(csv), 'people.csv', { hasHeader: true }).success).toBe(true);
+    loaded.loadFromContent(csv, 'people.csv', { hasHeader: true });
+
+    expect(streamed.isStreaming()).toBe(true);
+    expect(streamed.getRowCount()).toBe(loaded.getRowCount());
+    expect(streamed.getHeaders()).toEqual(loaded.getHeaders());
+    expect(streamed.getColumnCount()).toBe(loaded.getColumnCount());
+
+    for (const manager of [streamed, loaded]) {
+      expect(manager.nextRow()).toBe(true);
+      expect(manager.getColumnByHeader('last')).toBe('Turing');
+      expect(manager.goToRow(3)).toBe(true);
+      expect(manager.getColumn(1)).toBe('Grace');
+      expect(manager.nextRow()).toBe(false);
+      expect(manager.goToRow(4)).toBe(false);
+      manager.reset();
+      expect(manager.getCurrentRow().row).toEqual(['Ada', 'Lovelace']);
+    }
+
+    expect([...streamed]).toEqual([...loaded]);
+    expect(streamed.getAllRows()).toEqual(loaded.getAllRows());
+  });
+
+  it('auto-detects the delimiter from the start of the file', () => {
+    const manager = new DatasourceManager();
+    manager.loadFromFile(memoryFile('a\tb\nc\td\n'), 'tabs.csv');
+
+    expect(manager.getColumn(2)).toBe('b');
+  });
+
+  it('rejects formats other than CSV and closes the file', () => {
+    const file = memoryFile('[]');
+    const result = new DatasourceManager().loadFromFile(file, 'rows.json');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('Streaming is only supported for CSV files');
+    expect(file.close).toHaveBeenCalled();
+  });
+
+  it('reports parse errors and closes the file', () => {
+    const file = memoryFile('');
+    const result = new DatasourceManager().loadFromFile(file, 'empty.csv');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('CSV parsing error');
+    expect(file.close).toHaveBeenCalled();
+  });
+
+  it('closes the streamed file on unload or when replaced', () => {
+    const manager = new DatasourceManager();
+    const first = memoryFile('a\n');
+    const second = memoryFile('b\n');
+
+    manager.loadFromFile(first, 'one.csv');
+    manager.loadFromFile(second, 'two.csv');
+    expect(first.close).toHaveBeenCalled();
+
+    manager.loadFromContent('c', 'three.csv');
+    expect(second.close).toHaveBeenCalled();
+    expect(manager.isStreaming()).toBe(false);
+  });
+
+  it('exposes the streamed rows to VariableContext without copying them', () => {
+    const manager = new DatasourceManager();
+    manager.loadFromFile(memoryFile(csv), 'people.csv', { hasHeader: true });
+    const ctx = createVariableContext();
+    ctx.setDatasourceRows(manager.getRowSource(), manager.getHeaders());
+
+    ctx.setDatasourceLine(2);
+    expect(ctx.get('!COL1')).toBe('Alan');
+    expect(ctx.get('!COL:last')).toBe('Turing');
+    expect(ctx.getDatasourceRowCount()).toBe(3);
+    expect(ctx.get('!DATASOURCE_COLUMNS')).toBe('first,last');
+
+    ctx.setDatasourceLine(4);
+    expect(ctx.get('!COL1')).toBe('');
+  });
+
+  it('recognizes file handles', () => {
+    expect(isDatasourceFile(memoryFile('a'))).toBe(true);
+    expect(isDatasourceFile('a,b')).toBe(false);
+    expect(isDatasourceFile(new Uint8Array(2))).toBe(false);
+  });
+});
@@ -11,6 +11,7 @@
  * - Edge cases (empty file, single row, 100+ columns, BOM, empty cells, delimiters in quotes)
  * - Utility functions (parseCSV, detectDelimiter, parseColVariable, buildColVariable)
  * - Iterator protocol
+ * - JSON, JSONL and XLSX readers and the reader registry
  */
 import { describe, it, expect, beforeEach } from 'vitest';
 import {
@@ -20,7 +21,13 @@ import {
   detectDelimiter,
   parseColVariable,
   buildColVariable,
+  createXlsxReader,
+  detectDatasourceFormat,
+  getDatasourceReader,
+  registerDatasourceReader,
 } from '../../shared/src/datasource';
+import { listXlsxSheets, readXlsxSheet, writeXlsx } from '../../shared/src/xlsx';
+import { deflateRawSync, inflateRawSync } from 'zlib';
 import { createVariableContext, VariableContext } from '../../shared/src/variables';
 
 describe('DatasourceManager', () => {
@@ -1034,4 +1041,281 @@ describe('DatasourceManager', () => {
       expect(rows[0]).toEqual(['a', 'b']);
     });
   });
+
+  // ===== Pluggable readers =====
+
+  describe('JSON datasources', () => {
+    it('maps an array of objects to named columns', () => {
+      const json = JSON.stringify([
+        { name: 'alice', email: 'alice@example.com' },
+        { name: 'bob', email: 'bob@example.com' },
+      ]);
+      const result = ds.loadFromContent(json, 'users.json');
+
+      expect(result.success).toBe(true);
+      expect(ds.getHeaders()).toEqual(['name', 'email']);
+      expect(ds.getRowCount()).toBe(2);
+      expect(ds.getColumnByHeader('email')).toBe('alice@example.com');
+      expect(ds.getState().format).toBe('json');
+    });
+
+    it('takes the union of keys in first-seen order', () => {
+      const json = JSON.stringify([{ a: 1 }, { b: true, a: 2 }]);
+      ds.loadFromContent(json, 'data.json');
+
+      expect(ds.getHeaders()).toEqual(['a', 'b']);
+      expect(ds.getAllRows()).toEqual([['1', ''], ['2', 'true']]);
+    });
+
+    it('serializes nested values as JSON and null as empty', () => {
+      const json = JSON.stringify([{ tags: ['x', 'y'], meta: { k: 1 }, none: null }]);
+      ds.loadFromContent(json, 'data.json');
+
+      expect(ds.getAllRows()).toEqual([['["x","y"]', '{"k":1}', '']]);
+    });
+
+    it('reads arrays of arrays positionally', () => {
+      ds.loadFromContent('[["a","b"],["c","d"]]', 'data.json');
+
+      expect(ds.getHeaders()).toEqual([]);
+      expect(ds.getAllRows()).toEqual([['a', 'b'], ['c', 'd']]);
+    });
+
+    it('rejects a top-level value that is not an array', () => {
+      const result = ds.loadFromContent('{"a":1}', 'data.json');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('JSON datasource must be an array of rows');
+    });
+
+    it('reports invalid JSON', () => {
+      const result = ds.loadFromContent('[{"a":1', 'data.json');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('JSON parsing error');
+    });
+
+    it('honours an explicit format over the file extension', () => {
+      const result = ds.loadFromContent('[{"a":"1"}]', 'export.txt', { format: 'json' });
+
+      expect(result.success).toBe(true);
+      expect(ds.getHeaders()).toEqual(['a']);
+    });
+  });
+
+  describe('JSONL datasources', () => {
+    it('reads one record per line and skips blank lines', () => {
+      const jsonl = '{"id":1,"name":"a"}\n\n{"id":2,"name":"b"}\n';
+      const result = ds.loadFromContent(jsonl, 'events.jsonl');
+
+      expect(result.success).toBe(true);
+      expect(ds.getHeaders()).toEqual(['id', 'name']);
+      expect(ds.getAllRows()).toEqual([['1', 'a'], ['2', 'b']]);
+    });
+
+    it('treats .ndjson as JSONL', () => {
+      expect(detectDatasourceFormat('/data/feed.NDJSON')).toBe('jsonl');
+    });
+
+    it('reports the line number of an invalid record', () => {
+      const result = ds.loadFromContent('{"a":1}\n{oops}\n', 'events.jsonl');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('line 2');
+    });
+  });
+
+  describe('reader registry', () => {
+    it('detects the format from the file extension', () => {
+      expect(detectDatasourceFormat('users.json')).toBe('json');
+      expect(detectDatasourceFormat('book.xlsx')).toBe('xlsx');
+      expect(detectDatasourceFormat('data.csv')).toBe('csv');
+      expect(detectDatasourceFormat('data.txt')).toBe('csv');
+      expect(detectDatasourceFormat('noext')).toBe('csv');
+    });
+
+    it('has built-in csv, json and jsonl readers', () => {
+      expect(getDatasourceReader('csv')).toBeDefined();
+      expect(getDatasourceReader('JSON')).toBeDefined();
+      expect(getDatasourceReader('jsonl')).toBeDefined();
+    });
+
+    it('uses a registered reader for its format', () => {
+      registerDatasourceReader('kv', (content) => ({
+        headers: ['key', 'value'],
+        rows: String(content).split('\n').map((line) => line.split('=')),
+      }));
+      const result = ds.loadFromContent('a=1\nb=2', 'pairs.txt', { format: 'kv' });
+
+      expect(result.success).toBe(true);
+      expect(ds.getHeaders()).toEqual(['key', 'value']);
+      expect(ds.getColumn(2)).toBe('1');
+    });
+
+    it('fails when no reader is registered for the format', () => {
+      const result = ds.loadFromContent('', 'data.parquet', { format: 'parquet' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('No datasource reader registered for PARQUET files');
+    });
+  });
+
+  describe('XLSX datasources', () => {
+    const workbook = buildXlsx({
+      'xl/workbook.xml':
+        '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        '<sheet name="Users" sheetId="1" r:id="rId1"/><sheet name="Orders" sheetId="2" r:id="rId2"/>' +
+        '</sheets></workbook>',
+      'xl/_rels/workbook.xml.rels':
+        '<Relationships>' +
+        '<Relationship Id="rId1" Target="worksheets/sheet1.xml"/>' +
+        '<Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>' +
+        '</Relationships>',
+      'xl/sharedStrings.xml':
+        '<sst><si><t>name</t></si><si><t>email</t></si>' +
+        '<si><r><t>ali</t></r><r><t>ce</t></r></si><si><t>a&amp;b@example.com</t></si></sst>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="inlineStr"><is><t>active</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" t="s"><v>3</v></c><c r="C2" t="b"><v>1</v></c></row>' +
+        '</sheetData></worksheet>',
+      'xl/worksheets/sheet2.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1"><v>42</v></c><c r="C1"><v>3.5</v></c></row>' +
+        '</sheetData></worksheet>',
+    });
+
+    const sparseWorkbook = buildXlsx({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Sparse" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+      'xl/worksheets/sheet1.xml':
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1"><v>1</v></c></row>' +
+        '<row r="3" spans="1:2"/>' +
+        '<row r="4"><c r="B4"><v>4</v></c></row>' +
+        '<row r="6"><c r="A6"><v>6</v></c></row>' +
+        '</sheetData></worksheet>',
+    });
+
+    it('lists sheets in tab order', () => {
+      expect(listXlsxSheets(workbook, inflateRawSync).map((s) => s.name)).toEqual(['Users', 'Orders']);
+    });
+
+    it('reads shared strings, inline strings and booleans from the first sheet', () => {
+      expect(readXlsxSheet(workbook, inflateRawSync)).toEqual([
+        ['name', 'email', 'active'],
+        ['alice', 'a&b@example.com', 'TRUE'],
+      ]);
+    });
+
+    it('selects sheets by name or 1-based index and fills column gaps', () => {
+      expect(readXlsxSheet(workbook, inflateRawSync, 'orders')).toEqual([['42', '', '3.5']]);
+      expect(readXlsxSheet(workbook, inflateRawSync, 2)).toEqual([['42', '', '3.5']]);
+      expect(readXlsxSheet(workbook, inflateRawSync, '2')).toEqual([['42', '', '3.5']]);
+    });
+
+    it('keeps row numbers for skipped and self-closing rows', () => {
+      expect(readXlsxSheet(sparseWorkbook, inflateRawSync)).toEqual([['1'], [], [], ['', '4'], [], ['6']]);
+
+      registerDatasourceReader('xlsx', createXlsxReader(inflateRawSync));
+      ds.loadFromContent(sparseWorkbook, 'sparse.xlsx', { skipEmptyLines: false });
+      expect(ds.getRowCount()).toBe(6);
+    });
+
+    it('reports an unknown sheet with the available names', () => {
+      expect(() => readXlsxSheet(workbook, inflateRawSync, 'Missing'))
+        .toThrow('Sheet not found: Missing (available: Users, Orders)');
+    });
+
+    it('reads back a workbook built by writeXlsx', () => {
+      const rows = [
+        ['name', 'note'],
+        ['a<b>&"c"', '  padded\nline\u0001'],
+        Array.from({ length: 28 }, (_, i) => String(i)),
+      ];
+      const written = writeXlsx(rows, 'Data: 2024/Q1');
+
+      expect(listXlsxSheets(written, inflateRawSync).map((s) => s.name)).toEqual(['Data_ 2024_Q1']);
+      const readBack = readXlsxSheet(written, inflateRawSync);
+      expect(readBack[1]).toEqual(['a<b>&"c"', '  padded\nline']);
+      expect(readBack[2]).toEqual(rows[2]);
+    });
+
+    it('rejects content that is not a ZIP archive', () => {
+      expect(() => readXlsxSheet(new TextEncoder().encode('a,b,c'), inflateRawSync))
+        .toThrow('Not an XLSX file');
+    });
+
+    it('loads a workbook through a registered reader with a header row', () => {
+      registerDatasourceReader('xlsx', createXlsxReader(inflateRawSync));
+      const result = ds.loadFromContent(workbook, 'users.xlsx', { hasHeader: true });
+
+      expect(result.success).toBe(true);
+      expect(ds.getHeaders()).toEqual(['name', 'email', 'active']);
+      expect(ds.getColumnByHeader('EMAIL')).toBe('a&b@example.com');
+    });
+
+    it('passes the selected sheet to the reader', () => {
+      registerDatasourceReader('xlsx', createXlsxReader(inflateRawSync));
+      const result = ds.loadFromContent(workbook, 'users.xlsx', { sheet: 'Orders' });
+
+      expect(result.success).toBe(true);
+      expect(ds.getAllRows()).toEqual([['42', '', '3.5']]);
+    });
+
+    it('rejects text content', () => {
+      registerDatasourceReader('xlsx', createXlsxReader(inflateRawSync));
+      const result = ds.loadFromContent('a,b', 'users.xlsx');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('XLSX parsing error');
+    });
+  });
 });
+
+/**
+ * Build a ZIP archive from text parts. Worksheets are deflated, the other
+ * parts are stored, so both compression methods are exercised.
+ */
+function buildXlsx(parts: Record<string, string>): Uint8Array {
+  const encoder = new TextEncoder();
+  const local: Buffer[] = [];
+  const central: Buffer[] = [];
+  let offset = 0;
+
+  for (const [path, xml] of Object.entries(parts)) {
+    const name = Buffer.from(encoder.encode(path));
+    const raw = Buffer.from(encoder.encode(xml));
+    const deflate = path.includes('worksheets/');
+    const data = deflate ? deflateRawSync(raw) : raw;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(deflate ? 8 : 0, 8);
+    header.writeUInt32LE(data.length, 18);
+    header.writeUInt32LE(raw.length, 22);
+    header.writeUInt16LE(name.length, 26);
+    local.push(header, name, data);
+
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(deflate ? 8 : 0, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt32LE(raw.length, 24);
+    entry.writeUInt16LE(name.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    central.push(entry, name);
+
+    offset += header.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(central);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(parts).length, 8);
+  end.writeUInt16LE(Object.keys(parts).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return new Uint8Array(Buffer.concat([...local, directory, end]));
+}
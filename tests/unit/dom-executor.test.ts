@@ -67,6 +67,7 @@ vi.mock('@extension/content/element-finder', () => ({
   findByTagSelector: vi.fn(() => ({ element: null, elements: [], count: 0 })),
   parseTagSelector: vi.fn(() => null),
   getAttributeValue: vi.fn(() => null),
+  findByFallbackLocator: vi.fn(() => ({ element: null, elements: [], count: 0 })),
   XPathAmbiguousError: class XPathAmbiguousError extends Error {
     matchCount: number;
     constructor(xpath: string, matchCount: number) {
@@ -120,6 +121,7 @@ import {
   findElementInFrame,
   findElementInFrameWithWait,
   getCurrentFrameDocument,
+  findByFallbackLocator,
 } from '@extension/content/element-finder';
 
 import {
@@ -802,6 +804,34 @@ Line three</div>
       document.body.removeChild(el);
     });
 
+    it('should extract the enclosing table for EXTRACT=TABLE', async () => {
+      const table = document.createElement('table');
+      table.innerHTML = '<thead><tr><th>Name</th></tr></thead><tbody><tr><td>Widget</td></tr></tbody>';
+      document.body.appendChild(table);
+      mockElementFound(table.querySelector('td')!);
+
+      const result = await executeTagCommand(makeTagMessage({
+        action: { extract: 'table' },
+      }));
+      expect(result.success).toBe(true);
+      expect(result.extractedData).toBeUndefined();
+      expect(result.extractedTable).toEqual({ headers: ['Name'], rows: [['Widget']] });
+      document.body.removeChild(table);
+    });
+
+    it('should fail EXTRACT=TABLE outside a table', async () => {
+      const el = document.createElement('div');
+      document.body.appendChild(el);
+      mockElementFound(el);
+
+      const result = await executeTagCommand(makeTagMessage({
+        action: { extract: 'TABLE' },
+      }));
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(DOM_ERROR_CODES.INVALID_PARAMETER);
+      document.body.removeChild(el);
+    });
+
     it('should extract value from input element with TXT extract type', async () => {
       const el = document.createElement('input');
       el.type = 'text';
@@ -1139,6 +1169,69 @@ Line three</div>
       expect(result.extractedData).toBe('Apple[OPTION]Banana[OPTION]Cherry');
       document.body.removeChild(select);
     });
+
+    describe('fallback locators', () => {
+      afterEach(() => {
+        vi.mocked(findByFallbackLocator).mockReset();
+        vi.mocked(findByFallbackLocator).mockImplementation(() => ({ element: null, elements: [], count: 0 }));
+      });
+
+      it('should not try fallbacks when the primary selector matches', async () => {
+        const el = document.createElement('input');
+        document.body.appendChild(el);
+        mockElementFound(el);
+
+        const result = await executeTagCommand(makeTagMessage({
+          selector: { type: 'INPUT', attr: 'NAME:test', fallbacks: ['ID:q'] },
+        }));
+        expect(result.success).toBe(true);
+        expect(result.fallbackUsed).toBeUndefined();
+        expect(findByFallbackLocator).not.toHaveBeenCalled();
+        document.body.removeChild(el);
+      });
+
+      it('should use the first fallback that matches exactly one element', async () => {
+        mockElementNotFound();
+        const el = document.createElement('input');
+        document.body.appendChild(el);
+        const other = document.createElement('input');
+        vi.mocked(findByFallbackLocator).mockImplementation((locator: string) => {
+          if (locator === 'NAME:q') return { element: el, elements: [el, other], count: 2 };
+          if (locator === 'LABEL:Search') return { element: el, elements: [el], count: 1 };
+          return { element: null, elements: [], count: 0 };
+        });
+
+        const result = await executeTagCommand(makeTagMessage({
+          selector: { type: 'INPUT:TEXT', attr: 'ID:old', fallbacks: ['ID:q', 'NAME:q', 'LABEL:Search'] },
+          action: { content: 'healed' },
+        }));
+        expect(result.success).toBe(true);
+        expect(result.fallbackUsed).toBe('LABEL:Search');
+        expect(el.value).toBe('healed');
+        const [locator, type, doc] = vi.mocked(findByFallbackLocator).mock.calls[0];
+        expect([locator, type]).toEqual(['ID:q', 'INPUT:TEXT']);
+        expect(doc).toBe(document);
+        document.body.removeChild(el);
+      });
+
+      it('should return ELEMENT_NOT_FOUND when no fallback matches', async () => {
+        mockElementNotFound();
+        const result = await executeTagCommand(makeTagMessage({
+          selector: { type: 'INPUT', attr: 'NAME:test', fallbacks: ['ID:q'] },
+        }));
+        expect(result.success).toBe(false);
+        expect(result.errorCode).toBe(DOM_ERROR_CODES.ELEMENT_NOT_FOUND);
+      });
+
+      it('should not use fallbacks for relative positioning', async () => {
+        clearAnchor();
+        const result = await executeTagCommand(makeTagMessage({
+          selector: { type: 'INPUT', pos: 1, relative: true, fallbacks: ['ID:q'] },
+        }));
+        expect(result.success).toBe(false);
+        expect(findByFallbackLocator).not.toHaveBeenCalled();
+      });
+    });
   });
 
   // ===== executeClickCommand =====
@@ -1,8 +1,17 @@
 /**
- * Unit tests for download helper functions (deriveDocumentName, formatExtractAsCsv)
+ * Unit tests for download helper functions (deriveDocumentName, formatExtractAsCsv,
+ * and the JSON, JSONL and XLSX extract record formatters)
  */
 import { describe, it, expect } from 'vitest';
-import { deriveDocumentName, formatExtractAsCsv } from '@shared/commands/downloads';
+import { inflateRawSync } from 'zlib';
+import {
+  deriveDocumentName,
+  formatExtractAsCsv,
+  formatExtractRecordsAsJson,
+  formatExtractRecordsAsJsonl,
+  formatExtractRecordsAsXlsx,
+} from '@shared/commands/downloads';
+import { listXlsxSheets, readXlsxSheet } from '@shared/xlsx';
 
 describe('deriveDocumentName', () => {
   it('should extract last path segment', () => {
@@ -84,4 +93,61 @@ describe('formatExtractAsCsv', () => {
   it('should handle empty string', () => {
     expect(formatExtractAsCsv('')).toBe('""');
   });
+
+  it('should write each [EXTRACT_ROW] table row as its own line', () => {
+    expect(formatExtractAsCsv('Name[EXTRACT]Price[EXTRACT_ROW]Widget "XL"[EXTRACT]1,5'))
+      .toBe('"Name","Price"\r\n"Widget ""XL""","1,5"');
+  });
+
+  it('should write values extracted around a table on their own lines', () => {
+    expect(formatExtractAsCsv(['Title', 'Name[EXTRACT]Price[EXTRACT_ROW]Widget[EXTRACT]3', 'Total', '3']))
+      .toBe('"Title"\r\n"Name","Price"\r\n"Widget","3"\r\n"Total","3"');
+    expect(formatExtractAsCsv([])).toBe('""');
+  });
+
+  it('should write a one-row table on its own line', () => {
+    expect(formatExtractAsCsv(['Title', '[EXTRACT_ROW]Name[EXTRACT]Price', 'Total']))
+      .toBe('"Title"\r\n"Name","Price"\r\n"Total"');
+    expect(formatExtractAsCsv(['[EXTRACT_ROW]Name[EXTRACT]Price[EXTRACT_ROW]Widget[EXTRACT]3']))
+      .toBe('"Name","Price"\r\n"Widget","3"');
+  });
+});
+
+describe('extract record formatters', () => {
+  const fields = ['name', 'price', 'note'];
+  const records = [
+    { name: 'Widget', price: '9.99' },
+    { price: '1,5', name: 'Gadget "XL"', note: 'line\nbreak' },
+  ];
+
+  it('formatExtractRecordsAsJson should give every record all fields in field order', () => {
+    const json = formatExtractRecordsAsJson(records, fields);
+    const parsed = JSON.parse(json);
+    expect(parsed).toEqual([
+      { name: 'Widget', price: '9.99', note: '' },
+      { name: 'Gadget "XL"', price: '1,5', note: 'line\nbreak' },
+    ]);
+    expect(Object.keys(parsed[1])).toEqual(fields);
+  });
+
+  it('formatExtractRecordsAsJsonl should write one object per line in field order', () => {
+    expect(formatExtractRecordsAsJsonl(records, fields)).toBe(
+      '{"name":"Widget","price":"9.99"}\n'
+      + '{"name":"Gadget \\"XL\\"","price":"1,5","note":"line\\nbreak"}\n'
+    );
+  });
+
+  it('formatExtractRecordsAsJsonl should return an empty string for no records', () => {
+    expect(formatExtractRecordsAsJsonl([], fields)).toBe('');
+  });
+
+  it('formatExtractRecordsAsXlsx should write a header row and one row per record', () => {
+    const workbook = formatExtractRecordsAsXlsx(records, fields);
+    expect(listXlsxSheets(workbook, inflateRawSync).map((s) => s.name)).toEqual(['Extract']);
+    expect(readXlsxSheet(workbook, inflateRawSync)).toEqual([
+      ['name', 'price', 'note'],
+      ['Widget', '9.99', ''],
+      ['Gadget "XL"', '1,5', 'line\nbreak'],
+    ]);
+  });
 });
@@ -0,0 +1,203 @@
+/**
+ * Unit Tests for the editor's macro debugger
+ *
+ * Tests cover:
+ * - The breakpoint gutter state (toggle, conditions, following edits)
+ * - Starting a debug session with the breakpoints
+ * - Pauses: paused line, variables pane, changed variables
+ * - Continue, step over, run to cursor and stop
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+
+// Setup DOM environment before imports
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', { pretendToBeVisual: true });
+const { window } = dom;
+
+(globalThis as any).document = window.document;
+(globalThis as any).window = window;
+(globalThis as any).HTMLElement = window.HTMLElement;
+(globalThis as any).Element = window.Element;
+(globalThis as any).Node = window.Node;
+(globalThis as any).MutationObserver = window.MutationObserver;
+(globalThis as any).requestAnimationFrame = (cb: () => void) => setTimeout(cb, 0);
+(globalThis as any).cancelAnimationFrame = (id: number) => clearTimeout(id);
+
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import {
+  breakpointGutter,
+  getBreakpoints,
+  setBreakpoint,
+  toggleBreakpoint,
+  playbackDecorations,
+} from '../../extension/src/editor/playback-feedback';
+import { MacroDebugger, renderVariables, type MacroDebuggerOptions } from '../../extension/src/editor/macro-debugger';
+
+const MACRO = 'VERSION BUILD=1\nSET !VAR1 a\n\nSET !VAR2 b\nSET !VAR1 c';
+
+describe('Editor macro debugger', () => {
+  let view: EditorView;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="btn-debug"></button>
+      <button id="btn-debug-continue" disabled></button>
+      <button id="btn-debug-step" disabled></button>
+      <button id="btn-debug-cursor" disabled></button>
+      <button id="btn-debug-stop" disabled></button>
+      <div id="editor-container"></div>
+      <aside id="debug-pane" class="hidden"><div id="debug-variables"></div></aside>
+    `;
+    view = new EditorView({
+      state: EditorState.create({ doc: MACRO, extensions: [playbackDecorations, breakpointGutter] }),
+      parent: document.getElementById('editor-container')!,
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+  });
+
+  describe('breakpoint gutter', () => {
+    it('should toggle breakpoints on lines', () => {
+      toggleBreakpoint(view, 4);
+      toggleBreakpoint(view, 2);
+      expect(getBreakpoints(view.state)).toEqual([{ line: 2 }, { line: 4 }]);
+
+      toggleBreakpoint(view, 2);
+      expect(getBreakpoints(view.state)).toEqual([{ line: 4 }]);
+    });
+
+    it('should keep conditions and follow edits', () => {
+      view.dispatch({ effects: setBreakpoint.of({ pos: view.state.doc.line(4).from, condition: '{{!LOOP}} > 3' }) });
+      view.dispatch({ changes: { from: 0, insert: "' header\n" } });
+
+      expect(getBreakpoints(view.state)).toEqual([{ line: 5, condition: '{{!LOOP}} > 3' }]);
+      expect(document.querySelector('.cm-breakpoint-conditional')).not.toBeNull();
+    });
+  });
+
+  describe('renderVariables', () => {
+    it('should list variables by name and mark changed values', () => {
+      renderVariables({ '!VAR2': 'b', '!VAR1': 'c', '!EXTRACT': null }, { '!VAR1': 'a', '!VAR2': 'b' });
+
+      const rows = [...document.querySelectorAll('#debug-variables .debug-variable')];
+      expect(rows.map(row => row.textContent)).toEqual(['!EXTRACT', '!VAR1c', '!VAR2b']);
+      expect(rows.map(row => row.classList.contains('changed'))).toEqual([false, true, false]);
+    });
+  });
+
+  describe('MacroDebugger', () => {
+    let options: MacroDebuggerOptions;
+    let sendToBackground: ReturnType<typeof vi.fn>;
+    let showStatus: ReturnType<typeof vi.fn>;
+    let macroDebugger: MacroDebugger;
+
+    const button = (id: string) => document.getElementById(id) as HTMLButtonElement;
+
+    beforeEach(() => {
+      sendToBackground = vi.fn().mockResolvedValue({ success: true });
+      showStatus = vi.fn();
+      options = {
+        sendToBackground,
+        getView: () => view,
+        prepareMacro: async () => 'Shop/checkout.iim',
+        showStatus,
+      };
+      macroDebugger = new MacroDebugger(options);
+    });
+
+    it('should start the macro with the breakpoints', async () => {
+      toggleBreakpoint(view, 4);
+
+      await macroDebugger.start();
+
+      expect(sendToBackground).toHaveBeenCalledWith('PLAY_MACRO', {
+        path: 'Shop/checkout.iim',
+        loop: false,
+        breakpoints: [{ line: 4 }],
+      });
+      expect(macroDebugger.getSessionState()).toBe('running');
+      expect(button('btn-debug').disabled).toBe(true);
+      expect(button('btn-debug-stop').disabled).toBe(false);
+      expect(document.getElementById('debug-pane')!.classList.contains('hidden')).toBe(false);
+    });
+
+    it('should show a pause and step over', async () => {
+      await macroDebugger.start();
+
+      macroDebugger.handleMessage({
+        type: 'MACRO_DEBUG_PAUSED',
+        payload: { line: 4, command: 'SET !VAR2 b', reason: 'breakpoint', variables: { '!VAR1': 'a' } },
+      });
+
+      expect(macroDebugger.getSessionState()).toBe('paused');
+      expect(button('btn-debug-step').disabled).toBe(false);
+      expect(document.querySelector('[data-playback="playing"]')!.textContent).toBe('SET !VAR2 b');
+      expect(document.getElementById('debug-variables')!.textContent).toBe('!VAR1a');
+      expect(showStatus).toHaveBeenLastCalledWith('Breakpoint: paused on line 4', 'info');
+
+      await macroDebugger.stepOver();
+
+      expect(sendToBackground).toHaveBeenLastCalledWith('DEBUG_COMMAND', { action: 'step' });
+      expect(macroDebugger.getSessionState()).toBe('running');
+      expect(button('btn-debug-step').disabled).toBe(true);
+    });
+
+    it('should run to the cursor line', async () => {
+      await macroDebugger.start();
+      macroDebugger.handleMessage({
+        type: 'MACRO_DEBUG_PAUSED',
+        payload: { line: 2, command: 'SET !VAR1 a', reason: 'breakpoint', variables: {} },
+      });
+      view.dispatch({ selection: { anchor: view.state.doc.line(5).from + 3 } });
+
+      await macroDebugger.runToCursor();
+
+      expect(sendToBackground).toHaveBeenLastCalledWith('DEBUG_COMMAND', { action: 'run_to_line', line: 5 });
+    });
+
+    it('should ignore actions when not paused', async () => {
+      await macroDebugger.continue();
+
+      expect(sendToBackground).not.toHaveBeenCalled();
+    });
+
+    it('should send breakpoint changes to a running macro', async () => {
+      await macroDebugger.syncBreakpoints();
+      expect(sendToBackground).not.toHaveBeenCalled();
+
+      await macroDebugger.start();
+      toggleBreakpoint(view, 5);
+      await macroDebugger.syncBreakpoints();
+
+      expect(sendToBackground).toHaveBeenLastCalledWith('DEBUG_COMMAND', {
+        action: 'set_breakpoints',
+        breakpoints: [{ line: 5 }],
+      });
+    });
+
+    it('should end the session when the macro completes or fails', async () => {
+      await macroDebugger.start();
+      macroDebugger.handleMessage({ type: 'MACRO_ERROR', payload: { errorMessage: 'Element not found' } });
+
+      expect(macroDebugger.getSessionState()).toBe('idle');
+      expect(button('btn-debug').disabled).toBe(false);
+      expect(showStatus).toHaveBeenLastCalledWith('Error: Element not found', 'error');
+
+      // Completion of a macro that was not debugged is ignored
+      macroDebugger.handleMessage({ type: 'MACRO_COMPLETE', payload: {} });
+      expect(showStatus).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop the macro', async () => {
+      await macroDebugger.start();
+
+      await macroDebugger.stop();
+
+      expect(sendToBackground).toHaveBeenLastCalledWith('STOP_MACRO');
+      expect(macroDebugger.getSessionState()).toBe('idle');
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit Tests for signing macros in the editor
+ *
+ * Tests cover:
+ * - Creating the publisher key on first use and storing it
+ * - Signing the editor content with the stored key
+ * - Status messages for signed, tampered and unsigned macros
+ */
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+
+// Setup DOM environment before imports
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>', { pretendToBeVisual: true });
+const { window } = dom;
+
+(globalThis as any).document = window.document;
+(globalThis as any).window = window;
+(globalThis as any).HTMLElement = window.HTMLElement;
+(globalThis as any).Element = window.Element;
+(globalThis as any).Node = window.Node;
+(globalThis as any).MutationObserver = window.MutationObserver;
+(globalThis as any).requestAnimationFrame = (cb: () => void) => setTimeout(cb, 0);
+(globalThis as any).cancelAnimationFrame = (id: number) => clearTimeout(id);
+
+// Mock chrome.storage.local
+let stored: Record<string, unknown> = {};
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: vi.fn(async (key: string) => (key in stored ? { [key]: stored[key] } : {})),
+      set: vi.fn(async (items: Record<string, unknown>) => { stored = { ...stored, ...items }; }),
+    },
+  },
+};
+
+import { EditorState } from '@codemirror/state';
+import { EditorView } from '@codemirror/view';
+import { createSigningKey, verifyMacroSignature } from '@shared/macro-signature';
+import {
+  SIGNING_KEY_STORAGE_KEY,
+  signEditorMacro,
+  describeSignature,
+} from '../../extension/src/editor/macro-signing';
+
+const MACRO = 'VERSION BUILD=1\nURL GOTO=https://example.com';
+
+describe('Editor macro signing', () => {
+  let view: EditorView;
+  let showStatus: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    stored = {};
+    showStatus = vi.fn();
+    view = new EditorView({
+      state: EditorState.create({ doc: MACRO }),
+      parent: document.body,
+    });
+  });
+
+  afterEach(() => {
+    view.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('should create a key on first use and sign the macro', async () => {
+    const prompt = vi.spyOn(window, 'prompt').mockReturnValueOnce('Jane Doe').mockReturnValueOnce(null);
+
+    expect(await signEditorMacro(view, showStatus)).toBe(true);
+
+    const key = stored[SIGNING_KEY_STORAGE_KEY] as { publisher: string; publicKey: string };
+    expect(key.publisher).toBe('Jane Doe');
+    // The second prompt shows the public key to share
+    expect(prompt).toHaveBeenLastCalledWith(expect.stringContaining('public key'), key.publicKey);
+    expect(verifyMacroSignature(view.state.doc.toString())).toMatchObject({ status: 'valid', publisher: 'Jane Doe' });
+    expect(showStatus.mock.calls[0][0]).toMatch(/^Signed as Jane Doe \[/);
+  });
+
+  it('should sign with the stored key without asking', async () => {
+    const key = createSigningKey('Team Bot');
+    stored[SIGNING_KEY_STORAGE_KEY] = key;
+    const prompt = vi.spyOn(window, 'prompt');
+
+    await signEditorMacro(view, showStatus);
+
+    expect(prompt).not.toHaveBeenCalled();
+    expect(verifyMacroSignature(view.state.doc.toString()).publicKey).toBe(key.publicKey);
+  });
+
+  it('should not sign when the publisher name is cancelled', async () => {
+    vi.spyOn(window, 'prompt').mockReturnValue(null);
+
+    expect(await signEditorMacro(view, showStatus)).toBe(false);
+    expect(view.state.doc.toString()).toBe(MACRO);
+    expect(stored).toEqual({});
+  });
+
+  it('should describe the signature of loaded macros', async () => {
+    stored[SIGNING_KEY_STORAGE_KEY] = createSigningKey('Jane Doe');
+    await signEditorMacro(view, showStatus);
+    const signed = view.state.doc.toString();
+
+    expect(describeSignature(signed)).toMatchObject({ type: 'info' });
+    expect(describeSignature(signed)?.message).toMatch(/^Signed by Jane Doe \[/);
+    expect(describeSignature(`${signed}\nEXEC CMD=calc`)).toEqual({
+      message: 'Invalid signature: Macro was modified after it was signed',
+      type: 'error',
+    });
+    expect(describeSignature(MACRO)).toBeNull();
+  });
+});
@@ -82,6 +82,9 @@ vi.mock('@codemirror/state', () => ({
       of: vi.fn((v) => ({ value: v })),
     })),
   },
+  RangeSet: {
+    empty: {},
+  },
 }));
 
 vi.mock('@codemirror/view', () => ({
@@ -98,6 +101,8 @@ vi.mock('@codemirror/view', () => ({
     set: vi.fn((items) => items),
   },
   DecorationSet: {},
+  GutterMarker: class {},
+  gutter: vi.fn(() => []),
 }));
 
 vi.mock('@codemirror/commands', () => ({
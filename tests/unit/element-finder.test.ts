@@ -42,6 +42,10 @@ import {
   matchesAllAttributes,
   parseTagSelector,
   findMatchingForm,
+  querySelectorAllDeep,
+  parseFallbackLocator,
+  findByFallbackLocator,
+  findByLabel,
   XPathAmbiguousError,
   type TagSelector,
   type ElementFinderResult,
@@ -1782,4 +1786,134 @@ describe('Element Finder', () => {
       expect(form).toBeNull();
     });
   });
+
+  // ============================================================
+  // SECTION: Shadow DOM
+  // ============================================================
+  describe('Shadow DOM', () => {
+    // Uses the global document so that findByXPath (which calls
+    // document.evaluate) and the shadow roots share one realm
+    let doc: Document;
+
+    beforeEach(() => {
+      doc = document;
+      doc.body.innerHTML = `
+        <button id="light">Light</button>
+        <x-app id="app"><button class="slotted">Slotted</button></x-app>
+        <button id="last">Last</button>
+      `;
+      const appRoot = doc.getElementById('app')!.attachShadow({ mode: 'open' });
+      appRoot.innerHTML = '<form name="login"><input type="text" name="user" /></form><x-card id="card"></x-card>';
+      const cardRoot = appRoot.getElementById('card')!.attachShadow({ mode: 'open' });
+      cardRoot.innerHTML = '<button class="primary">Save</button>';
+      const closed = doc.createElement('x-closed');
+      closed.attachShadow({ mode: 'closed' }).innerHTML = '<button>Hidden</button>';
+      doc.body.appendChild(closed);
+    });
+
+    it('should order shadow content right after its host', () => {
+      const buttons = querySelectorAllDeep(doc, 'button');
+      expect(buttons.map(b => b.textContent)).toEqual(['Light', 'Save', 'Slotted', 'Last']);
+    });
+
+    it('should keep the meaning of :scope and combinators in each root', () => {
+      const app = doc.getElementById('app')!;
+      expect(querySelectorAllDeep(app, ':scope > button').map(b => b.textContent)).toEqual(['Slotted']);
+      expect(querySelectorAllDeep(doc, 'x-app > button').map(b => b.textContent)).toEqual(['Slotted']);
+    });
+
+    it('should count elements in open shadow roots for TAG POS', () => {
+      const result = findByTagSelector('TAG POS=2 TYPE=BUTTON', doc);
+      expect(result.count).toBe(4);
+      expect(result.element?.textContent).toBe('Save');
+    });
+
+    it('should find TAG FORM filters inside shadow roots', () => {
+      const result = findByTagSelector('TAG POS=1 TYPE=INPUT:TEXT FORM=NAME:login ATTR=NAME:user', doc);
+      expect(result.element?.getAttribute('name')).toBe('user');
+    });
+
+    it('should search open shadow roots for plain CSS selectors', () => {
+      const result = findByCssSelector('button.primary', doc);
+      expect(result.count).toBe(1);
+      expect(result.element?.textContent).toBe('Save');
+    });
+
+    it('should pierce shadow roots with >>> in CSS selectors', () => {
+      expect(findByCssSelector('#app >>> #card >>> button', doc).element?.textContent).toBe('Save');
+      // Light DOM children of the host are not part of its shadow tree
+      expect(findByCssSelector('#app >>> .slotted', doc).count).toBe(0);
+    });
+
+    it('should fall back to open shadow roots for XPath', () => {
+      const result = findByXPath('//button[@class="primary"]', doc);
+      expect(result.element?.textContent).toBe('Save');
+    });
+
+    it('should pierce shadow roots with >>> in XPath', () => {
+      const result = findByXPath('//x-app >>> //x-card >>> //button', doc);
+      expect(result.element?.textContent).toBe('Save');
+    });
+
+    it('should not search closed shadow roots', () => {
+      expect(findByCssSelector('x-closed >>> button', doc).count).toBe(0);
+      expect(findByTagSelector('TAG POS=1 TYPE=BUTTON ATTR=TXT:Hidden', doc).count).toBe(0);
+    });
+  });
+
+  describe('Fallback locators', () => {
+    let doc: Document;
+
+    beforeEach(() => {
+      doc = document;
+      doc.body.innerHTML = `
+        <form id="search">
+          <label for="q">Search terms</label><input type="text" id="q" name="query" />
+          <label>Exact <input type="checkbox" name="exact" /></label>
+          <input type="text" aria-label="Site" name="site" />
+          <button type="submit">Go</button>
+          <a href="/a">More</a><a href="/b">More</a>
+        </form>
+      `;
+    });
+
+    it('should parse KIND:value locators', () => {
+      expect(parseFallbackLocator('XPATH://div[@id="a"]')).toEqual({ kind: 'XPATH', value: '//div[@id="a"]' });
+      expect(parseFallbackLocator('label:Search terms')).toEqual({ kind: 'LABEL', value: 'Search terms' });
+      expect(parseFallbackLocator('COLOR:red')).toBeNull();
+      expect(parseFallbackLocator('ID:')).toBeNull();
+    });
+
+    it('should find by ID, NAME and TXT', () => {
+      expect(findByFallbackLocator('ID:q', 'INPUT:TEXT', doc).element?.getAttribute('name')).toBe('query');
+      expect(findByFallbackLocator('NAME:query', 'INPUT:TEXT', doc).element?.id).toBe('q');
+      expect(findByFallbackLocator('TXT:Go', 'BUTTON:SUBMIT', doc).element?.tagName).toBe('BUTTON');
+    });
+
+    it('should match NAME and TXT only among elements of the TAG TYPE', () => {
+      expect(findByFallbackLocator('NAME:query', 'BUTTON:SUBMIT', doc).count).toBe(0);
+    });
+
+    it('should find by XPath and CSS', () => {
+      expect(findByFallbackLocator("XPATH://*[@id='search']/input[1]", 'INPUT:TEXT', doc).element?.id).toBe('q');
+      expect(findByFallbackLocator('CSS:#search > button', 'BUTTON:SUBMIT', doc).element?.textContent).toBe('Go');
+    });
+
+    it('should report an ambiguous XPath as multiple matches instead of throwing', () => {
+      const result = findByFallbackLocator('XPATH://a', 'A', doc);
+      expect(result.element).toBeNull();
+      expect(result.count).toBe(2);
+    });
+
+    it('should find form controls by label text', () => {
+      expect(findByLabel('Search terms', doc).element?.id).toBe('q');
+      expect(findByLabel('Exact', doc).element?.getAttribute('name')).toBe('exact');
+      expect(findByLabel('Site', doc).element?.getAttribute('name')).toBe('site');
+      expect(findByFallbackLocator('LABEL:Search*', 'INPUT:TEXT', doc).element?.id).toBe('q');
+    });
+
+    it('should return no match for unknown locators', () => {
+      expect(findByFallbackLocator('COLOR:red', 'INPUT:TEXT', doc).count).toBe(0);
+    });
+  });
 });
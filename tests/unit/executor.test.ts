@@ -1175,4 +1175,429 @@ describe('MacroExecutor', () => {
       expect(result.loopsCompleted).toBe(3);
     });
   });
+
+  describe('Control flow (IF/WHILE/GOTO)', () => {
+    function recordingExecutor(): { ex: MacroExecutor; visited: string[] } {
+      const visited: string[] = [];
+      const ex = createExecutor();
+      ex.registerHandler('URL', async (ctx) => {
+        visited.push(ctx.getParam('GOTO') ?? '');
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+      return { ex, visited };
+    }
+
+    it('should run the IF branch when the condition is true', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('SET !VAR1 5\nIF {{!VAR1}} > 3\nURL GOTO=a\nELSE\nURL GOTO=b\nENDIF\nURL GOTO=c');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['a', 'c']);
+    });
+
+    it('should run the first matching ELSEIF branch', async () => {
+      const visited: string[] = [];
+      const ex = createExecutor({ initialVariables: { '!EXTRACT': 'Sold out' } });
+      ex.registerHandler('URL', async (ctx) => {
+        visited.push(ctx.getParam('GOTO') ?? '');
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+      ex.loadMacro([
+        'IF {{!EXTRACT}} == "In stock"',
+        'URL GOTO=a',
+        'ELSEIF {{!EXTRACT}} == "Sold out"',
+        'URL GOTO=b',
+        'ELSEIF {{!EXTRACT}} != ""',
+        'URL GOTO=c',
+        'ELSE',
+        'URL GOTO=d',
+        'ENDIF',
+      ].join('\n'));
+      await ex.execute();
+      expect(visited).toEqual(['b']);
+    });
+
+    it('should run the ELSE branch when no condition matches', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('IF {{!LOOP}} == 2\nURL GOTO=a\nELSE\nURL GOTO=b\nENDIF');
+      await ex.execute();
+      expect(visited).toEqual(['b']);
+    });
+
+    it('should skip the whole block when no branch matches and there is no ELSE', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('IF 0\nURL GOTO=a\nELSEIF 1 > 2\nURL GOTO=b\nENDIF\nURL GOTO=c');
+      await ex.execute();
+      expect(visited).toEqual(['c']);
+    });
+
+    it('should support nested IF blocks', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro([
+        'SET answer yes',
+        'IF {{!LOOP}} == 1',
+        'IF {{answer}} == "no"',
+        'URL GOTO=a',
+        'ELSE',
+        'URL GOTO=b',
+        'ENDIF',
+        'URL GOTO=c',
+        'ENDIF',
+      ].join('\n'));
+      await ex.execute();
+      expect(visited).toEqual(['b', 'c']);
+    });
+
+    it('should accept JavaScript-style logical operators', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('SET !VAR1 2\nIF {{!VAR1}} === 2 && ({{!LOOP}} > 5 || true)\nURL GOTO=a\nENDIF');
+      await ex.execute();
+      expect(visited).toEqual(['a']);
+    });
+
+    it('should compare numeric text with quoted literals', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro([
+        'SET !EXTRACT 12',
+        'IF {{!EXTRACT}} == "12"',
+        'URL GOTO=a',
+        'ENDIF',
+        'SET !VAR1 007',
+        'IF {{!VAR1}} == "007" && {{!VAR1}} != "8"',
+        'URL GOTO=b',
+        'ENDIF',
+      ].join('\n'));
+      await ex.execute();
+      expect(visited).toEqual(['a', 'b']);
+    });
+
+    it('should leave operators inside string literals alone', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('SET !VAR1 a&&b||c\nIF {{!VAR1}} == "a&&b||c"\nURL GOTO=a\nENDIF');
+      await ex.execute();
+      expect(visited).toEqual(['a']);
+    });
+
+    it('should repeat a WHILE body until the condition is false', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('SET !VAR1 0\nWHILE {{!VAR1}} < 3\nURL GOTO={{!VAR1}}\nADD !VAR1 1\nENDWHILE\nURL GOTO=end');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['{{!VAR1}}', '{{!VAR1}}', '{{!VAR1}}', 'end']);
+      expect(result.variables['!VAR1']).toBe(3);
+    });
+
+    it('should skip a WHILE body whose condition is false initially', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('WHILE 1 > 2\nURL GOTO=a\nENDWHILE');
+      await ex.execute();
+      expect(visited).toEqual([]);
+    });
+
+    it('should jump to a LABEL with GOTO', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('URL GOTO=a\nGOTO finish\nURL GOTO=b\nLABEL finish\nURL GOTO=c');
+      await ex.execute();
+      expect(visited).toEqual(['a', 'c']);
+    });
+
+    it('should build a loop from GOTO and IF', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('SET !VAR1 0\nLABEL again\nADD !VAR1 1\nURL GOTO=x\nIF {{!VAR1}} < 2\nGOTO again\nENDIF');
+      await ex.execute();
+      expect(visited).toEqual(['x', 'x']);
+    });
+
+    it('should resolve variable GOTO targets at runtime', async () => {
+      const { ex, visited } = recordingExecutor();
+      ex.loadMacro('SET target second\nGOTO {{target}}\nLABEL first\nURL GOTO=a\nLABEL second\nURL GOTO=b');
+      await ex.execute();
+      expect(visited).toEqual(['b']);
+    });
+
+    it('should fail when a GOTO target does not exist', async () => {
+      executor.loadMacro('SET target nowhere\nGOTO {{target}}');
+      const result = await executor.execute();
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.INVALID_PARAMETER);
+      expect(result.errorMessage).toBe('GOTO target label not found: nowhere');
+      expect(result.errorLine).toBe(2);
+    });
+
+    it('should fail with SCRIPT_ERROR for an invalid condition', async () => {
+      executor.loadMacro('IF (1 +\nENDIF');
+      const result = await executor.execute();
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(result.errorMessage).toContain('Invalid IF condition on line 1');
+    });
+
+    it('should fail with SYNTAX_ERROR for an unmatched IF at runtime', async () => {
+      executor.loadMacro('IF 1', false);
+      const result = await executor.execute();
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SYNTAX_ERROR);
+    });
+
+    it('should let stop() interrupt an endless WHILE loop', async () => {
+      executor.loadMacro('WHILE 1\nSET !VAR1 x\nENDWHILE');
+      const running = executor.execute();
+      setTimeout(() => executor.stop(), 20);
+      const result = await running;
+      expect(result.success).toBe(true);
+      expect(result.variables['!VAR1']).toBe('x');
+    });
+  });
+
+  describe('Sub-macros (CALL/RETURN)', () => {
+    function callingExecutor(macros: Record<string, string>, options = {}) {
+      const loaded: string[] = [];
+      const ex = createExecutor({
+        ...options,
+        onMacroLoad: (path: string) => {
+          loaded.push(path);
+          if (!(path in macros)) throw new Error('not found');
+          return macros[path];
+        },
+      });
+      return { ex, loaded };
+    }
+
+    it('should run the sub-macro and continue after CALL', async () => {
+      const visited: string[] = [];
+      const { ex, loaded } = callingExecutor({ 'login.iim': 'URL GOTO=login' });
+      ex.registerHandler('URL', async (ctx) => {
+        visited.push(ctx.getParam('GOTO') ?? '');
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+      ex.loadMacro('URL GOTO=start\nCALL MACRO=login\nURL GOTO=end');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(loaded).toEqual(['login.iim']);
+      expect(visited).toEqual(['start', 'login', 'end']);
+    });
+
+    it('should pass named arguments and hand RETURN values back', async () => {
+      const { ex } = callingExecutor({
+        'add.iim': 'SET SUM EVAL("{{A}}+{{B}}")\nRETURN TOTAL={{SUM}}\nSET SUM never',
+      });
+      ex.loadMacro('SET !VAR1 2\nCALL MACRO=add.iim A={{!VAR1}} B=3\nSET !VAR2 {{TOTAL}}');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(result.variables['!VAR2']).toBe('5');
+      expect(result.variables['SUM']).toBeUndefined();
+    });
+
+    it('should resolve relative paths against !FOLDER_MACROS', async () => {
+      const { ex, loaded } = callingExecutor({ '/macros/lib/a.iim': '' });
+      ex.loadMacro('SET !FOLDER_MACROS /macros/\nCALL MACRO=lib/a');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(loaded).toEqual(['/macros/lib/a.iim']);
+    });
+
+    it("should report the callee's file and line on failure", async () => {
+      const { ex } = callingExecutor({ 'bad.iim': 'SET !VAR1 1\nGOTO LABEL=nowhere' });
+      ex.loadMacro('CALL MACRO=bad.iim\nSET !VAR2 after');
+      const result = await ex.execute();
+      expect(result.success).toBe(false);
+      expect(result.errorLine).toBe(1);
+      expect(result.errorMessage).toContain('bad.iim line 2');
+      expect(result.variables['!VAR2']).toBe('');
+    });
+
+    it('should fail with FILE_NOT_FOUND when the macro cannot be loaded', async () => {
+      const { ex } = callingExecutor({});
+      ex.loadMacro('CALL MACRO=missing');
+      const result = await ex.execute();
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.FILE_NOT_FOUND);
+    });
+
+    it('should stop runaway recursion at the depth limit', async () => {
+      const { ex, loaded } = callingExecutor({ 'self.iim': 'CALL MACRO=self' }, { maxCallDepth: 4 });
+      ex.loadMacro('CALL MACRO=self');
+      const result = await ex.execute();
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.CALL_DEPTH_EXCEEDED);
+      expect(result.errorMessage).toBe('self.iim line 1: CALL depth limit (4) exceeded');
+      expect(loaded).toHaveLength(4);
+    });
+
+    it('should name only the innermost failing macro of nested CALLs', async () => {
+      const { ex } = callingExecutor({
+        'outer.iim': 'SET !VAR1 1\nCALL MACRO=inner',
+        'inner.iim': 'GOTO LABEL=nowhere',
+      });
+      ex.loadMacro('CALL MACRO=outer');
+      const result = await ex.execute();
+      expect(result.errorMessage).toMatch(/^inner\.iim line 1: /);
+      expect(result.errorMessage).not.toContain('outer.iim');
+    });
+
+    it('should run FILTER and other cleanup once, after the caller ends', async () => {
+      const events: string[] = [];
+      const { ex } = callingExecutor({ 'login.iim': 'FILTER TYPE=IMAGES STATUS=ON' });
+      ex.registerCleanup(async () => { events.push('cleanup'); });
+      ex.registerHandler('FILTER', async () => {
+        events.push('filter');
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+      ex.registerHandler('URL', async () => {
+        events.push('url');
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+      ex.loadMacro('CALL MACRO=login\nURL GOTO=account');
+      expect((await ex.execute()).success).toBe(true);
+      expect(events).toEqual(['filter', 'url', 'cleanup']);
+    });
+
+    it('should report the call stack in progress from inside a sub-macro', async () => {
+      const stacks: Array<Array<{ macroName: string; line: number }> | undefined> = [];
+      const { ex } = callingExecutor(
+        { 'inner.iim': 'SET !VAR1 x' },
+        { macroName: 'outer.iim', onProgress: (p: { callStack?: Array<{ macroName: string; line: number }> }) => stacks.push(p.callStack) },
+      );
+      ex.loadMacro('SET !VAR2 y\nCALL MACRO=inner');
+      await ex.execute();
+      expect(stacks[0]).toBeUndefined();
+      expect(stacks).toContainEqual([
+        { macroName: 'outer.iim', line: 2 },
+        { macroName: 'inner.iim', line: 1 },
+      ]);
+    });
+
+    it('should reject CALL when no macro loader is configured', async () => {
+      executor.loadMacro('CALL MACRO=sub');
+      const result = await executor.execute();
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.UNSUPPORTED_COMMAND);
+    });
+
+    it('should share registered handlers and extracted data with the caller', async () => {
+      const { ex } = callingExecutor({ 'scrape.iim': 'TAG POS=1 TYPE=H1 ATTR=TXT:* EXTRACT=TXT' });
+      ex.registerHandler('TAG', async (ctx) => {
+        ctx.state.addExtract('Title');
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+      ex.loadMacro('CALL MACRO=scrape');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(result.extractData).toEqual(['Title']);
+    });
+  });
+
+  describe('Error handling blocks (TRY/CATCH/RETRY/ON_ERROR)', () => {
+    // URL GOTO=fail-N fails until it has been visited N times
+    function flakyExecutor(options = {}): { ex: MacroExecutor; visited: string[] } {
+      const visited: string[] = [];
+      const ex = createExecutor(options);
+      ex.registerHandler('URL', async (ctx) => {
+        const target = ctx.getParam('GOTO') ?? '';
+        visited.push(target);
+        const match = /^fail-(\d+)$/.exec(target);
+        if (match && visited.filter(v => v === target).length <= Number(match[1])) {
+          return {
+            success: false,
+            errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND,
+            errorMessage: `Page ${target} failed`,
+          };
+        }
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+      return { ex, visited };
+    }
+
+    it('should skip the CATCH section when the TRY section succeeds', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro('TRY\nURL GOTO=a\nCATCH\nURL GOTO=handler\nENDTRY\nURL GOTO=b');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['a', 'b']);
+    });
+
+    it('should jump to CATCH and expose the error variables', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro('TRY\nURL GOTO=fail-9\nURL GOTO=skipped\nCATCH\nSET !VAR1 {{!ERR_CODE}}|{{!ERR_LINE}}|{{!ERR_MESSAGE}}\nENDTRY\nURL GOTO=after');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['fail-9', 'after']);
+      expect(result.variables['!VAR1']).toBe('-920|2|Page fail-9 failed');
+    });
+
+    it('should let an outer TRY catch errors raised inside a CATCH section', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro([
+        'TRY',
+        'TRY',
+        'URL GOTO=fail-9',
+        'CATCH',
+        'URL GOTO=fail-8',
+        'ENDTRY',
+        'CATCH',
+        'URL GOTO=outer',
+        'ENDTRY',
+      ].join('\n'));
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['fail-9', 'fail-8', 'outer']);
+    });
+
+    it('should re-run the TRY section with RETRY until it succeeds', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro('TRY\nURL GOTO=fail-2\nCATCH\nURL GOTO=cleanup\nRETRY 3 BACKOFF=0\nENDTRY\nURL GOTO=done');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['fail-2', 'cleanup', 'fail-2', 'cleanup', 'fail-2', 'done']);
+    });
+
+    it('should re-raise the error once the retries are used up', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro('TRY\nURL GOTO=fail-9\nCATCH\nRETRY 2 BACKOFF=0\nENDTRY\nURL GOTO=done');
+      const result = await ex.execute();
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND);
+      expect(result.errorMessage).toBe('Page fail-9 failed (gave up after 2 retries)');
+      expect(visited).toEqual(['fail-9', 'fail-9', 'fail-9']);
+    });
+
+    it('should double the RETRY backoff on each attempt', async () => {
+      vi.useFakeTimers();
+      try {
+        const logs: string[] = [];
+        const { ex } = flakyExecutor({ onLog: (_level: string, message: string) => logs.push(message) });
+        ex.loadMacro('TRY\nURL GOTO=fail-2\nCATCH\nRETRY 2 BACKOFF=100\nENDTRY');
+        const running = ex.execute();
+        await vi.runAllTimersAsync();
+        const result = await running;
+        expect(result.success).toBe(true);
+        expect(logs.filter(m => m.startsWith('RETRY'))).toEqual(['RETRY 1/2 in 100ms', 'RETRY 2/2 in 200ms']);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should continue after failing lines with ON_ERROR CONTINUE', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro('ON_ERROR CONTINUE\nURL GOTO=fail-9\nURL GOTO=next\nON_ERROR STOP\nURL GOTO=fail-8\nURL GOTO=never');
+      const result = await ex.execute();
+      expect(result.success).toBe(false);
+      expect(result.errorLine).toBe(5);
+      expect(visited).toEqual(['fail-9', 'next', 'fail-8']);
+    });
+
+    it('should jump to the ON_ERROR GOTO label', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro('ON_ERROR GOTO=recover\nURL GOTO=fail-9\nURL GOTO=skipped\nLABEL recover\nSET !VAR1 {{!ERR_LINE}}');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['fail-9']);
+      expect(result.variables['!VAR1']).toBe('2');
+    });
+
+    it('should handle errors in a TRY block even with !ERRORIGNORE', async () => {
+      const { ex, visited } = flakyExecutor();
+      ex.loadMacro('SET !ERRORIGNORE YES\nTRY\nURL GOTO=fail-9\nCATCH\nURL GOTO=handler\nENDTRY\nURL GOTO=fail-8\nURL GOTO=end');
+      const result = await ex.execute();
+      expect(result.success).toBe(true);
+      expect(visited).toEqual(['fail-9', 'handler', 'fail-8', 'end']);
+    });
+  });
 });
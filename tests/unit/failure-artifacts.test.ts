@@ -0,0 +1,175 @@
+/**
+ * Failure Artifacts Unit Tests
+ *
+ * Tests for shared/src/failure-artifacts.ts and the executor's
+ * failureArtifactsFolder option covering:
+ * - Timestamped artifact folder names
+ * - Full-page screenshot through the SCREENSHOT bridge
+ * - Current frame HTML through the content script
+ * - The last 50 log entries, including CALLed macros
+ * - Artifacts left out when a capture fails, and no artifacts without the option
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getFailureArtifactFolder, formatLogEntry, FAILURE_LOG_ENTRIES } from '@shared/failure-artifacts';
+import {
+  MacroExecutor,
+  IMACROS_ERROR_CODES,
+  type ExecutionBridges,
+  type ExecutorOptions,
+} from '@shared/executor';
+import type { BrowserCommandOperationMessage } from '@shared/commands/browser';
+import type { InteractionMessage } from '@shared/commands/interaction';
+
+const FAILING_MACRO = 'SET !VAR1 a\nTAG POS=1 TYPE=A ATTR=TXT:Missing';
+
+describe('Failure artifacts', () => {
+  let files: Map<string, string>;
+  let browserCommands: BrowserCommandOperationMessage[];
+  let contentMessages: InteractionMessage[];
+  let bridges: ExecutionBridges;
+
+  beforeEach(() => {
+    files = new Map();
+    browserCommands = [];
+    contentMessages = [];
+    bridges = {
+      browserCommand: {
+        sendMessage: vi.fn(async (message: BrowserCommandOperationMessage) => {
+          browserCommands.push(message);
+          const { folder, file } = message as { folder?: string; file?: string };
+          return { success: true, data: { screenshotPath: `${folder}/${file}` } };
+        }),
+      },
+      contentScript: {
+        sendMessage: vi.fn(async (message: InteractionMessage) => {
+          contentMessages.push(message);
+          return { success: true, extractedData: '<html><body>Checkout</body></html>' };
+        }),
+      },
+    };
+  });
+
+  function createFailingExecutor(options: ExecutorOptions = {}, macro = FAILING_MACRO): MacroExecutor {
+    const executor = new MacroExecutor({
+      macroName: 'Shop/checkout.iim',
+      failureArtifactsFolder: '/logs/',
+      onFileAppend: (filePath, content) => {
+        files.set(filePath, (files.get(filePath) ?? '') + content);
+      },
+      bridges,
+      ...options,
+    });
+    executor.registerHandler('TAG', async () => ({
+      success: false,
+      errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND,
+      errorMessage: 'Element not found: A',
+    }));
+    executor.loadMacro(macro);
+    return executor;
+  }
+
+  describe('getFailureArtifactFolder', () => {
+    it('should name the folder after the time and the macro', () => {
+      const time = new Date(2026, 2, 14, 3, 5, 2);
+      expect(getFailureArtifactFolder('/logs/', 'Shop/check out.iim', time)).toBe('/logs/20260314_030502_check_out');
+      expect(getFailureArtifactFolder('C:\\Logs\\', 'C:\\Macros\\a.iim', time)).toBe('C:\\Logs/20260314_030502_a');
+    });
+  });
+
+  describe('formatLogEntry', () => {
+    it('should prefix the time and level', () => {
+      expect(formatLogEntry('warn', 'Slow page', new Date(Date.UTC(2026, 0, 2, 3, 4, 5))))
+        .toBe('2026-01-02T03:04:05.000Z [WARN] Slow page');
+    });
+  });
+
+  describe('on a fatal error', () => {
+    it('should save a full-page screenshot, the frame HTML and the log', async () => {
+      const result = await createFailingExecutor().execute();
+
+      expect(result.success).toBe(false);
+      const artifacts = result.failureArtifacts!;
+      expect(artifacts.folder).toMatch(/^\/logs\/\d{8}_\d{6}_checkout$/);
+      expect(artifacts).toEqual({
+        folder: artifacts.folder,
+        screenshot: `${artifacts.folder}/screenshot.png`,
+        html: `${artifacts.folder}/page.html`,
+        log: `${artifacts.folder}/log.txt`,
+      });
+
+      expect(browserCommands).toEqual([expect.objectContaining({
+        type: 'screenshot', captureType: 'PAGE', format: 'png', folder: artifacts.folder, file: 'screenshot.png',
+      })]);
+      expect(contentMessages[0]).toMatchObject({
+        type: 'TAG_COMMAND',
+        payload: { selector: { type: 'HTML', pos: 1 }, action: { extract: 'HTM' } },
+      });
+      expect(files.get(artifacts.html!)).toBe('<html><body>Checkout</body></html>');
+
+      const log = files.get(artifacts.log!)!;
+      expect(log.startsWith('Macro: Shop/checkout.iim\nError: Element not found: A (-920)\nLine: 2\n\n')).toBe(true);
+      expect(log).toMatch(/\[INFO\] Starting macro execution/);
+    });
+
+    it('should keep only the last log entries', async () => {
+      const lines = Array.from({ length: 60 }, (_, i) => `SET !VAR1 ${i}`);
+      const executor = createFailingExecutor({
+        onLog: () => {},
+      }, [...lines, 'TAG POS=1 TYPE=A ATTR=TXT:Missing'].join('\n'));
+      // Log each SET so the macro produces more entries than are kept
+      executor.registerHandler('SET', async (ctx) => {
+        ctx.log('info', `Set ${ctx.command.raw}`);
+        return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+      });
+
+      const result = await executor.execute();
+
+      const entries = files.get(result.failureArtifacts!.log!)!.trim().split('\n').slice(4);
+      expect(entries).toHaveLength(FAILURE_LOG_ENTRIES);
+      expect(entries.some(entry => entry.endsWith('[INFO] Set SET !VAR1 59'))).toBe(true);
+      expect(entries.some(entry => entry.endsWith('[INFO] Set SET !VAR1 0'))).toBe(false);
+    });
+
+    it('should include log entries of CALLed macros', async () => {
+      const executor = createFailingExecutor({
+        onMacroLoad: () => 'TAG POS=1 TYPE=A ATTR=TXT:Missing',
+      }, 'CALL MACRO=sub');
+
+      const result = await executor.execute();
+
+      expect(result.success).toBe(false);
+      // One entry from this macro, one from the CALLed one
+      expect(files.get(result.failureArtifacts!.log!)!.match(/\[INFO\] Starting macro execution/g)).toHaveLength(2);
+    });
+
+    it('should leave out an artifact that cannot be captured', async () => {
+      bridges.contentScript = {
+        sendMessage: vi.fn(async () => ({ success: false, error: 'No content script in tab' })),
+      };
+      const logs: string[] = [];
+
+      const result = await createFailingExecutor({ onLog: (_level, message) => logs.push(message) }).execute();
+
+      expect(result.failureArtifacts!.screenshot).toBeDefined();
+      expect(result.failureArtifacts!.html).toBeUndefined();
+      expect(result.failureArtifacts!.log).toBeDefined();
+      expect(logs).toContain('Failure page HTML not saved: No content script in tab');
+    });
+
+    it('should save nothing without a folder', async () => {
+      const result = await createFailingExecutor({ failureArtifactsFolder: undefined }).execute();
+
+      expect(result.failureArtifacts).toBeUndefined();
+      expect(browserCommands).toHaveLength(0);
+      expect(files.size).toBe(0);
+    });
+
+    it('should save nothing when the macro succeeds', async () => {
+      const result = await createFailingExecutor({}, 'SET !VAR1 a').execute();
+
+      expect(result.success).toBe(true);
+      expect(result.failureArtifacts).toBeUndefined();
+      expect(files.size).toBe(0);
+    });
+  });
+});
@@ -24,6 +24,7 @@ import {
   existsSync,
   stat,
   statSync,
+  openRandomAccessFile,
   FileService,
 } from '../../native-host/src/services/file-service';
 
@@ -195,6 +196,72 @@ describe('File Service', () => {
     });
   });
 
+  describe('openRandomAccessFile', () => {
+    it('should read byte ranges and report the size', () => {
+      const filePath = path.join(tmpDir, 'random.csv');
+      fs.writeFileSync(filePath, 'a,b\nc,d\n', 'utf-8');
+
+      const file = openRandomAccessFile(filePath);
+      try {
+        expect(file.size).toBe(8);
+        expect(file.read(4, 3).toString()).toBe('c,d');
+        expect(file.read(6, 100).toString()).toBe('d\n');
+        expect(file.read(8, 10).length).toBe(0);
+      } finally {
+        file.close();
+      }
+    });
+
+    it('should detect the encoding from the start of the file', () => {
+      const filePath = path.join(tmpDir, 'random-utf16.csv');
+      fs.writeFileSync(filePath, Buffer.concat([Buffer.from([0xff, 0xfe]), iconv.encode('x,y', 'utf-16le')]));
+
+      const file = openRandomAccessFile(filePath);
+      try {
+        expect(file.detectedEncoding).toBe('utf-16le');
+        expect(file.encoding).toBe('utf-16le');
+        expect(file.decode(file.read(2, 6))).toBe('x,y');
+      } finally {
+        file.close();
+      }
+    });
+
+    it('should not mistake a UTF-8 sequence cut by the sample for another charset', () => {
+      const filePath = path.join(tmpDir, 'random-large.csv');
+      // 'é' is two bytes; an odd-length prefix puts one of them at the sample boundary
+      fs.writeFileSync(filePath, 'x' + 'é'.repeat(40000), 'utf-8');
+
+      const file = openRandomAccessFile(filePath);
+      try {
+        expect(file.encoding).toBe('utf-8');
+      } finally {
+        file.close();
+      }
+    });
+
+    it('should decode with an encoding override', () => {
+      const filePath = path.join(tmpDir, 'random-override.csv');
+      fs.writeFileSync(filePath, iconv.encode('Grüße', 'cp1252'));
+
+      const file = openRandomAccessFile(filePath, { encoding: 'cp1252' });
+      try {
+        expect(file.detectedEncoding).toBeNull();
+        expect(file.decode(file.read(0, file.size))).toBe('Grüße');
+      } finally {
+        file.close();
+      }
+    });
+
+    it('should allow close to be called more than once', () => {
+      const filePath = path.join(tmpDir, 'random-close.csv');
+      fs.writeFileSync(filePath, 'a', 'utf-8');
+
+      const file = openRandomAccessFile(filePath);
+      file.close();
+      expect(() => file.close()).not.toThrow();
+    });
+  });
+
   // =========================================================================
   // 3. writeFile / writeFileSync
   // =========================================================================
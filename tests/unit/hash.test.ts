@@ -0,0 +1,28 @@
+/**
+ * Hash Unit Tests
+ *
+ * Tests for shared/src/hash.ts: SHA-1, SHA-256 and SHA-512 against node
+ * crypto for empty input, padding edge cases and several blocks.
+ */
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'crypto';
+import { sha1, sha256, sha512 } from '@shared/hash';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+
+describe('Hash functions', () => {
+  const cases = [
+    { name: 'sha1', hash: sha1, lengths: [0, 3, 55, 56, 64, 300] },
+    { name: 'sha256', hash: sha256, lengths: [0, 3, 55, 56, 64, 300] },
+    { name: 'sha512', hash: sha512, lengths: [0, 3, 111, 112, 128, 300] },
+  ];
+
+  for (const { name, hash, lengths } of cases) {
+    it(`should hash like ${name} across block boundaries`, () => {
+      for (const length of lengths) {
+        const data = new Uint8Array(length).map((_, i) => (i * 31) & 0xff);
+        expect(hex(hash(data))).toBe(createHash(name).update(data).digest('hex'));
+      }
+    });
+  }
+});
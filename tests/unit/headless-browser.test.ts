@@ -0,0 +1,439 @@
+/**
+ * Tests for native-host/src/services/headless-browser.ts
+ *
+ * Covers the Puppeteer-backed bridges used by the `imacros run` CLI:
+ * - Navigation messages (URL GOTO, URL CURRENT, BACK, REFRESH)
+ * - Tabs (open, switch, close, close others) and frame selection
+ * - TAG lookup by XPATH, CSS, TYPE/ATTR/POS, FORM and FALLBACK, with retries
+ * - TAG actions: CONTENT, EXTRACT (incl. TABLE), FORM=RESET, click
+ * - EVENT dispatch and SEARCH over the page HTML
+ *
+ * Puppeteer is replaced by fake pages whose evaluate() runs the in-page
+ * function directly against a JSDOM document, with the extension's element
+ * finder standing in for the injected page script.
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { HeadlessBrowser } from '../../native-host/src/services/headless-browser';
+import * as elementFinder from '../../extension/src/content/element-finder';
+import type {
+  InteractionMessage,
+  ElementSelector,
+  TagAction,
+} from '../../shared/src/commands/interaction';
+import type { BrowserOperationMessage } from '../../shared/src/commands/navigation';
+
+const PAGE_HTML = `<!DOCTYPE html><html><body>
+  <form name="login" id="login">
+    <input type="text" name="user" value="">
+    <input type="checkbox" name="remember">
+    <select name="lang"><option value="en">English</option><option value="de">Deutsch</option></select>
+  </form>
+  <form name="search"><input type="text" name="q" value="start"></form>
+  <a href="https://example.com/one" id="first">One</a>
+  <a href="https://example.com/two" class="nav">Two</a>
+  <table id="prices">
+    <tr><th>Item</th><th>Price</th></tr>
+    <tr><td><a href="https://example.com/apple">Apple</a></td><td>1.00</td></tr>
+    <tr><td>Pear</td><td>2.50</td></tr>
+  </table>
+  <p id="total">Total: 3.50 EUR</p>
+</body></html>`;
+
+const DOM_GLOBALS = [
+  'document', 'Node', 'Element', 'XPathResult', 'Event', 'MouseEvent', 'KeyboardEvent',
+  'scrollTo', 'innerWidth', 'innerHeight', 'scrollX', 'scrollY', '__imacrosTagAnchor', '__imacrosElementFinder',
+];
+
+let dom: JSDOM;
+let saved: Record<string, unknown>;
+
+function makeFrame(name = '', children: any[] = []) {
+  return {
+    evaluate: vi.fn(async (fn: string | ((arg: any) => any), arg?: any) => (typeof fn === 'string' ? (0, eval)(fn) : fn(arg))),
+    childFrames: () => children,
+    name: () => name,
+    detached: false,
+  };
+}
+
+function makePage(url = 'about:blank', frame = makeFrame()) {
+  let currentUrl = url;
+  return {
+    mainFrame: () => frame,
+    goto: vi.fn(async (target: string) => { currentUrl = target; }),
+    url: () => currentUrl,
+    title: vi.fn(async () => 'Title'),
+    goBack: vi.fn(async () => undefined),
+    reload: vi.fn(async () => undefined),
+    bringToFront: vi.fn(async () => undefined),
+    close: vi.fn(async () => undefined),
+    evaluate: vi.fn(async (fn: (arg: any) => any, arg?: any) => fn(arg)),
+    waitForNetworkIdle: vi.fn(async () => undefined),
+    mouse: { click: vi.fn(async () => undefined) },
+  };
+}
+
+function makeBrowser(pages: any[]) {
+  const queue = [...pages];
+  return { newPage: vi.fn(async () => queue.shift() ?? makePage()) };
+}
+
+function nav(message: Record<string, unknown>): BrowserOperationMessage {
+  return { id: 'm', timestamp: 0, ...message } as BrowserOperationMessage;
+}
+
+function tag(selector: ElementSelector, action: TagAction = {}, timeout = 0): InteractionMessage {
+  return {
+    id: 't',
+    type: 'TAG_COMMAND',
+    timestamp: 0,
+    payload: { selector, action, timeout, waitVisible: true },
+  };
+}
+
+function doc(): any {
+  return dom.window.document;
+}
+
+beforeEach(() => {
+  dom = new JSDOM(PAGE_HTML);
+  saved = {};
+  for (const key of DOM_GLOBALS) {
+    saved[key] = (globalThis as any)[key];
+  }
+  const win = dom.window as any;
+  Object.assign(globalThis, {
+    document: win.document,
+    Node: win.Node,
+    Element: win.Element,
+    XPathResult: win.XPathResult,
+    __imacrosElementFinder: elementFinder,
+    Event: win.Event,
+    MouseEvent: win.MouseEvent,
+    KeyboardEvent: win.KeyboardEvent,
+    scrollTo: vi.fn(),
+    innerWidth: 800,
+    innerHeight: 600,
+    scrollX: 0,
+    scrollY: 0,
+  });
+});
+
+afterEach(() => {
+  for (const key of DOM_GLOBALS) {
+    if (saved[key] === undefined) {
+      delete (globalThis as any)[key];
+    } else {
+      (globalThis as any)[key] = saved[key];
+    }
+  }
+  dom.window.close();
+});
+
+describe('HeadlessBrowser navigation', () => {
+  it('navigates the first page and reports the URL and title', async () => {
+    const page = makePage();
+    const headless = new HeadlessBrowser(makeBrowser([page]) as any);
+
+    const response = await headless.browserBridge.sendMessage(nav({ type: 'navigate', url: 'https://example.com/' }));
+
+    expect(response).toEqual({ success: true, data: { url: 'https://example.com/', title: 'Title' } });
+    expect(page.goto).toHaveBeenCalledWith('https://example.com/', expect.objectContaining({ waitUntil: 'load' }));
+
+    const current = await headless.browserBridge.sendMessage(nav({ type: 'getCurrentUrl' }));
+    expect(current.data?.url).toBe('https://example.com/');
+  });
+
+  it('reports navigation errors instead of throwing', async () => {
+    const page = makePage();
+    page.goto.mockRejectedValueOnce(new Error('net::ERR_NAME_NOT_RESOLVED'));
+    const headless = new HeadlessBrowser(makeBrowser([page]) as any);
+
+    const response = await headless.browserBridge.sendMessage(nav({ type: 'navigate', url: 'https://nowhere.invalid/' }));
+
+    expect(response).toEqual({ success: false, error: 'net::ERR_NAME_NOT_RESOLVED' });
+  });
+
+  it('goes back and reloads the active page', async () => {
+    const page = makePage();
+    const headless = new HeadlessBrowser(makeBrowser([page]) as any);
+
+    await headless.browserBridge.sendMessage(nav({ type: 'goBack' }));
+    await headless.browserBridge.sendMessage(nav({ type: 'refresh' }));
+
+    expect(page.goBack).toHaveBeenCalled();
+    expect(page.reload).toHaveBeenCalled();
+  });
+});
+
+describe('HeadlessBrowser tabs', () => {
+  it('opens, switches and closes pages as tabs', async () => {
+    const first = makePage('https://a.test/');
+    const second = makePage();
+    const headless = new HeadlessBrowser(makeBrowser([first, second]) as any);
+
+    await headless.browserBridge.sendMessage(nav({ type: 'getCurrentUrl' }));
+    const opened = await headless.browserBridge.sendMessage(nav({ type: 'openTab', url: 'https://b.test/' }));
+    expect(opened.data?.tabIndex).toBe(1);
+    expect((await headless.browserBridge.sendMessage(nav({ type: 'getCurrentUrl' }))).data?.url).toBe('https://b.test/');
+
+    const switched = await headless.browserBridge.sendMessage(nav({ type: 'switchTab', tabIndex: 0 }));
+    expect(switched.success).toBe(true);
+    expect((await headless.browserBridge.sendMessage(nav({ type: 'getCurrentUrl' }))).data?.url).toBe('https://a.test/');
+
+    const missing = await headless.browserBridge.sendMessage(nav({ type: 'switchTab', tabIndex: 5 }));
+    expect(missing).toEqual({ success: false, error: 'Tab 6 does not exist' });
+
+    await headless.browserBridge.sendMessage(nav({ type: 'closeOtherTabs' }));
+    expect(second.close).toHaveBeenCalled();
+    expect(first.close).not.toHaveBeenCalled();
+  });
+
+  it('closes only the pages it opened', async () => {
+    const page = makePage();
+    const headless = new HeadlessBrowser(makeBrowser([page]) as any);
+    await headless.browserBridge.sendMessage(nav({ type: 'getCurrentUrl' }));
+
+    await headless.close();
+
+    expect(page.close).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('HeadlessBrowser frames', () => {
+  it('selects frames by index and by wildcard name', async () => {
+    const inner = makeFrame('inner');
+    const outer = makeFrame('outer', [inner]);
+    const main = makeFrame('', [outer]);
+    const headless = new HeadlessBrowser(makeBrowser([makePage('about:blank', main)]) as any);
+
+    expect(await headless.browserBridge.sendMessage(nav({ type: 'selectFrame', frameIndex: 2 })))
+      .toEqual({ success: true, data: { frameIndex: 2 } });
+    await headless.contentScriptSender.sendMessage(tag({ css: '#total' }, { extract: 'TXT' }));
+    expect(inner.evaluate).toHaveBeenCalled();
+
+    expect(await headless.browserBridge.sendMessage(nav({ type: 'selectFrame', frameName: 'out*' })))
+      .toEqual({ success: true, data: { frameIndex: 1 } });
+    expect(await headless.browserBridge.sendMessage(nav({ type: 'selectFrame', frameIndex: 3 })))
+      .toEqual({ success: false, error: 'Frame 3 not found' });
+
+    await headless.browserBridge.sendMessage(nav({ type: 'selectFrame', frameIndex: 0 }));
+    await headless.contentScriptSender.sendMessage(tag({ css: '#total' }, { extract: 'TXT' }));
+    expect(main.evaluate).toHaveBeenCalled();
+  });
+});
+
+describe('HeadlessBrowser TAG', () => {
+  let headless: HeadlessBrowser;
+  let page: ReturnType<typeof makePage>;
+
+  beforeEach(() => {
+    page = makePage();
+    headless = new HeadlessBrowser(makeBrowser([page]) as any, { retryIntervalMs: 5 });
+  });
+
+  it('extracts text and attributes by TYPE/ATTR/POS', async () => {
+    const response = await headless.contentScriptSender.sendMessage(
+      tag({ type: 'A', attr: 'TXT:T*', pos: 1 }, { extract: 'HREF' })
+    );
+    expect(response).toMatchObject({ success: true, extractedData: 'https://example.com/two' });
+
+    const last = await headless.contentScriptSender.sendMessage(tag({ type: 'A', pos: -1 }, { extract: 'TXT' }));
+    expect(last.extractedData).toBe('Apple');
+  });
+
+  it('finds elements by XPATH and CSS', async () => {
+    const byXPath = await headless.contentScriptSender.sendMessage(
+      tag({ xpath: "//p[@id='total']" }, { extract: 'TXT' })
+    );
+    expect(byXPath.extractedData).toBe('Total: 3.50 EUR');
+
+    const byCss = await headless.contentScriptSender.sendMessage(tag({ css: 'a.nav' }, { extract: 'ATTR:class' }));
+    expect(byCss.extractedData).toBe('nav');
+  });
+
+  it('narrows the search to the FORM', async () => {
+    const response = await headless.contentScriptSender.sendMessage(
+      tag({ type: 'INPUT:TEXT', form: 'NAME:search', pos: 1 }, { extract: 'VALUE' })
+    );
+    expect(response.extractedData).toBe('start');
+  });
+
+  it('counts relative positions from the previous match', async () => {
+    await headless.contentScriptSender.sendMessage(tag({ css: '#first' }, { extract: 'TXT' }));
+    const response = await headless.contentScriptSender.sendMessage(
+      tag({ type: 'A', pos: 1, relative: true }, { extract: 'TXT' })
+    );
+    expect(response.extractedData).toBe('Two');
+  });
+
+  it('uses FALLBACK locators when the primary selector misses', async () => {
+    const response = await headless.contentScriptSender.sendMessage(
+      tag({ css: '#gone', fallbacks: ['ID:missing', 'NAME:q'] }, { extract: 'VALUE' })
+    );
+    expect(response).toMatchObject({ success: true, extractedData: 'start', fallbackUsed: 'NAME:q' });
+  });
+
+  it('pierces open shadow roots with >>>', async () => {
+    const host = doc().createElement('div');
+    host.id = 'widget';
+    host.attachShadow({ mode: 'open' }).innerHTML = '<button class="buy">Buy</button>';
+    doc().body.appendChild(host);
+
+    const response = await headless.contentScriptSender.sendMessage(
+      tag({ css: '#widget >>> button.buy' }, { extract: 'TXT' })
+    );
+
+    expect(response).toMatchObject({ success: true, extractedData: 'Buy' });
+  });
+
+  it('rejects an XPATH that matches more than one element', async () => {
+    const response = await headless.contentScriptSender.sendMessage(tag({ xpath: '//a' }, { extract: 'TXT' }));
+    expect(response).toMatchObject({ success: false, errorCode: -923 });
+  });
+
+  it('injects the element finder into frames that do not have it yet', async () => {
+    delete (globalThis as any).__imacrosElementFinder;
+    (globalThis as any).__testElementFinder = elementFinder;
+    const script = 'globalThis.__imacrosElementFinder = globalThis.__testElementFinder';
+    const injecting = new HeadlessBrowser(makeBrowser([page]) as any, { elementFinderScript: script });
+
+    try {
+      const response = await injecting.contentScriptSender.sendMessage(tag({ css: '#first' }, { extract: 'TXT' }));
+      await injecting.contentScriptSender.sendMessage(tag({ css: '.nav' }, { extract: 'TXT' }));
+
+      expect(response).toMatchObject({ success: true, extractedData: 'One' });
+      const injections = (page.mainFrame().evaluate as any).mock.calls.filter(([fn]: [unknown]) => fn === script);
+      expect(injections).toHaveLength(1);
+    } finally {
+      delete (globalThis as any).__testElementFinder;
+    }
+  });
+
+  it('returns element not found after the timeout', async () => {
+    const response = await headless.contentScriptSender.sendMessage(tag({ css: '#gone' }, { extract: 'TXT' }, 20));
+    expect(response).toMatchObject({ success: false, errorCode: -920 });
+    expect((page.mainFrame().evaluate as any).mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it('finds elements that appear while waiting', async () => {
+    setTimeout(() => {
+      const late = doc().createElement('span');
+      late.id = 'late';
+      late.textContent = 'here';
+      doc().body.appendChild(late);
+    }, 10);
+
+    const response = await headless.contentScriptSender.sendMessage(tag({ css: '#late' }, { extract: 'TXT' }, 1000));
+
+    expect(response).toMatchObject({ success: true, extractedData: 'here' });
+  });
+
+  it('fills inputs, checkboxes and selects', async () => {
+    const changes: string[] = [];
+    doc().querySelector('[name=user]').addEventListener('change', () => changes.push('user'));
+
+    await headless.contentScriptSender.sendMessage(tag({ type: 'INPUT:TEXT', attr: 'NAME:user' }, { content: 'alice' }));
+    await headless.contentScriptSender.sendMessage(tag({ type: 'INPUT:CHECKBOX', attr: 'NAME:remember' }, { content: 'YES' }));
+    await headless.contentScriptSender.sendMessage(tag({ type: 'SELECT', attr: 'NAME:lang' }, { content: '%de' }));
+
+    expect(doc().querySelector('[name=user]').value).toBe('alice');
+    expect(doc().querySelector('[name=remember]').checked).toBe(true);
+    expect(doc().querySelector('[name=lang]').value).toBe('de');
+    expect(changes).toEqual(['user']);
+  });
+
+  it('fails when a select option does not exist', async () => {
+    const response = await headless.contentScriptSender.sendMessage(
+      tag({ type: 'SELECT', attr: 'NAME:lang' }, { content: '%fr' })
+    );
+    expect(response).toMatchObject({ success: false, errorCode: -912 });
+  });
+
+  it('clicks elements without CONTENT or EXTRACT and waits for the page to settle', async () => {
+    const clicked = vi.fn();
+    doc().querySelector('#first').addEventListener('click', (e: any) => { e.preventDefault(); clicked(); });
+
+    const response = await headless.contentScriptSender.sendMessage(tag({ css: '#first' }));
+
+    expect(response.success).toBe(true);
+    expect(clicked).toHaveBeenCalled();
+    expect(page.waitForNetworkIdle).toHaveBeenCalled();
+  });
+
+  it('resets forms', async () => {
+    doc().querySelector('[name=q]').value = 'changed';
+    await headless.contentScriptSender.sendMessage(tag({ css: '[name=q]' }, { form: 'RESET' }));
+    expect(doc().querySelector('[name=q]').value).toBe('start');
+  });
+
+  it('extracts whole tables with link columns', async () => {
+    const table = await headless.contentScriptSender.sendMessage(tag({ css: '#prices td' }, { extract: 'TABLE' }));
+    expect(table.extractedTable).toEqual({
+      headers: ['Item', 'Price'],
+      rows: [['Apple', '1.00'], ['Pear', '2.50']],
+    });
+
+    const links = await headless.contentScriptSender.sendMessage(tag({ css: '#prices' }, { extract: 'TABLE_LINKS' }));
+    expect(links.extractedTable).toEqual({
+      headers: ['Item', 'Item URL', 'Price'],
+      rows: [['Apple', 'https://example.com/apple', '1.00'], ['Pear', '', '2.50']],
+    });
+  });
+
+  it('rejects EXTRACT=TABLE outside a table', async () => {
+    const response = await headless.contentScriptSender.sendMessage(tag({ css: '#total' }, { extract: 'TABLE' }));
+    expect(response).toMatchObject({ success: false, errorCode: -912 });
+  });
+});
+
+describe('HeadlessBrowser EVENT, CLICK and SEARCH', () => {
+  let headless: HeadlessBrowser;
+  let page: ReturnType<typeof makePage>;
+
+  beforeEach(() => {
+    page = makePage();
+    headless = new HeadlessBrowser(makeBrowser([page]) as any, { retryIntervalMs: 5 });
+  });
+
+  it('dispatches events on the selected element', async () => {
+    const seen: string[] = [];
+    doc().querySelector('#total').addEventListener('mouseover', (e: any) => seen.push(`${e.type}:${e.shiftKey}`));
+
+    const response = await headless.contentScriptSender.sendMessage({
+      id: 'e',
+      type: 'EVENT_COMMAND',
+      timestamp: 0,
+      payload: { eventType: 'mouseover', selector: { css: '#total' }, modifiers: { shift: true } },
+    });
+
+    expect(response.success).toBe(true);
+    expect(seen).toEqual(['mouseover:true']);
+  });
+
+  it('clicks at page coordinates', async () => {
+    await headless.contentScriptSender.sendMessage({
+      id: 'c',
+      type: 'CLICK_COMMAND',
+      timestamp: 0,
+      payload: { x: 40, y: 30, button: 'left', clickCount: 1, modifiers: {} },
+    });
+
+    expect(page.mouse.click).toHaveBeenCalledWith(40, 30, { button: 'left', count: 1 });
+  });
+
+  it('searches the page HTML with TXT and REGEXP patterns', async () => {
+    const search = (sourceType: 'TXT' | 'REGEXP', pattern: string, extractPattern?: string) =>
+      headless.contentScriptSender.sendMessage({
+        id: 's',
+        type: 'SEARCH_COMMAND',
+        timestamp: 0,
+        payload: { sourceType, pattern, ignoreCase: false, extractPattern },
+      });
+
+    expect(await search('TXT', 'Total: *EUR')).toMatchObject({ success: true, extractedData: 'Total: 3.50 EUR' });
+    expect(await search('REGEXP', 'Total: ([\\d.]+)', '$1')).toMatchObject({ success: true, extractedData: '3.50' });
+    expect(await search('TXT', 'missing text')).toMatchObject({ success: false, errorCode: -920 });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Macro Debugger Unit Tests
+ *
+ * Tests for shared/src/macro-debugger.ts and the executor's debugging
+ * options covering:
+ * - Breakpoints on source lines (comments and blank lines count)
+ * - Conditional breakpoints using IF/WHILE expression syntax
+ * - Step over (a CALL runs as a single step), continue and run to line
+ * - Variables reported on every pause
+ * - Changing breakpoints while running, and stop() releasing a pause
+ */
+import { describe, it, expect } from 'vitest';
+import { checkBreakpoint, type DebugPauseInfo } from '@shared/macro-debugger';
+import { MacroExecutor, type ExecutorOptions } from '@shared/executor';
+import { createVariableContext } from '@shared/variables';
+
+const MACRO = [
+  "' Debug me",
+  'SET !VAR1 1',
+  '',
+  'SET !VAR2 2',
+  'SET !VAR3 3',
+  'SET !VAR1 4',
+].join('\n');
+
+/**
+ * Run a macro in the debugger, answering each pause with the next action
+ */
+async function debugMacro(
+  macro: string,
+  options: ExecutorOptions,
+  onPause: (info: DebugPauseInfo, executor: MacroExecutor) => void
+) {
+  const pauses: DebugPauseInfo[] = [];
+  const executor: MacroExecutor = new MacroExecutor({
+    ...options,
+    onDebugPause: (info) => {
+      pauses.push(info);
+      // Answer after the executor starts waiting
+      setTimeout(() => onPause(info, executor), 0);
+    },
+  });
+  executor.loadMacro(macro);
+  const result = await executor.execute();
+  return { result, pauses };
+}
+
+describe('Macro debugger', () => {
+  describe('checkBreakpoint', () => {
+    it('should hit without a condition and evaluate conditions with variables', () => {
+      const context = createVariableContext();
+      context.set('!VAR1', '5');
+
+      expect(checkBreakpoint({ line: 1 }, context)).toEqual({ hit: true });
+      expect(checkBreakpoint({ line: 1, condition: '{{!VAR1}} > 3' }, context)).toEqual({ hit: true });
+      expect(checkBreakpoint({ line: 1, condition: '{{!VAR1}} > 3 && {{!VAR1}} < 5' }, context)).toEqual({ hit: false });
+    });
+
+    it('should hit when the condition cannot be evaluated', () => {
+      const check = checkBreakpoint({ line: 1, condition: '{{!VAR1}} >' }, createVariableContext());
+
+      expect(check.hit).toBe(true);
+      expect(check.error).toBeDefined();
+    });
+  });
+
+  describe('executor', () => {
+    it('should pause on breakpoint source lines with the variables', async () => {
+      const { result, pauses } = await debugMacro(MACRO, { breakpoints: [{ line: 4 }, { line: 6 }] },
+        (_info, executor) => executor.debug({ action: 'continue' }));
+
+      expect(result.success).toBe(true);
+      expect(pauses.map(p => [p.line, p.reason, p.command])).toEqual([
+        [4, 'breakpoint', 'SET !VAR2 2'],
+        [6, 'breakpoint', 'SET !VAR1 4'],
+      ]);
+      expect(pauses[0].variables).toMatchObject({ '!VAR1': '1' });
+      expect(pauses[1].variables).toMatchObject({ '!VAR1': '1', '!VAR2': '2', '!VAR3': '3' });
+    });
+
+    it('should only pause when the condition is true', async () => {
+      const { pauses } = await debugMacro('SET !VAR1 {{!LOOP}}', {
+        maxLoops: 4,
+        breakpoints: [{ line: 1, condition: '{{!LOOP}} >= 3' }],
+      }, (_info, executor) => executor.debug({ action: 'continue' }));
+
+      expect(pauses.map(p => Number(p.variables['!LOOP']))).toEqual([3, 4]);
+    });
+
+    it('should step over one command at a time', async () => {
+      const { pauses } = await debugMacro(MACRO, { breakpoints: [{ line: 2 }] },
+        (info, executor) => executor.debug({ action: info.line < 5 ? 'step' : 'continue' }));
+
+      expect(pauses.map(p => [p.line, p.reason])).toEqual([
+        [2, 'breakpoint'],
+        [4, 'step'],
+        [5, 'step'],
+      ]);
+    });
+
+    it('should run a CALL as a single step', async () => {
+      const { result, pauses } = await debugMacro('SET !VAR1 a\nCALL MACRO=sub\nSET !VAR3 c', {
+        breakpoints: [{ line: 1 }],
+        onMacroLoad: () => 'SET !VAR2 b\nSET !VAR2 bb',
+      }, (_info, executor) => executor.debug({ action: 'step' }));
+
+      expect(result.success).toBe(true);
+      expect(pauses.map(p => [p.line, p.command])).toEqual([
+        [1, 'SET !VAR1 a'],
+        [2, 'CALL MACRO=sub'],
+        [3, 'SET !VAR3 c'],
+      ]);
+    });
+
+    it('should run to a line', async () => {
+      const { pauses } = await debugMacro(MACRO, { breakpoints: [{ line: 2 }] },
+        (info, executor) => executor.debug(info.line === 2 ? { action: 'run_to_line', line: 5 } : { action: 'continue' }));
+
+      expect(pauses.map(p => [p.line, p.reason])).toEqual([
+        [2, 'breakpoint'],
+        [5, 'cursor'],
+      ]);
+    });
+
+    it('should use breakpoints changed while running', async () => {
+      const { pauses } = await debugMacro(MACRO, { breakpoints: [{ line: 2 }] }, (info, executor) => {
+        if (info.line === 2) {
+          executor.debug({ action: 'set_breakpoints', breakpoints: [{ line: 5 }] });
+        }
+        executor.debug({ action: 'continue' });
+      });
+
+      expect(pauses.map(p => p.line)).toEqual([2, 5]);
+    });
+
+    it('should log an invalid condition and pause', async () => {
+      const logs: string[] = [];
+      const { pauses } = await debugMacro(MACRO, {
+        breakpoints: [{ line: 4, condition: '{{!VAR1}} ==' }],
+        onLog: (_level, message) => logs.push(message),
+      }, (_info, executor) => executor.debug({ action: 'continue' }));
+
+      expect(pauses.map(p => p.line)).toEqual([4]);
+      expect(logs.some(message => message.startsWith('Invalid breakpoint condition on line 4'))).toBe(true);
+    });
+
+    it('should stop while paused', async () => {
+      const { result, pauses } = await debugMacro(MACRO, { breakpoints: [{ line: 4 }] },
+        (_info, executor) => executor.stop());
+
+      expect(pauses).toHaveLength(1);
+      expect(result.variables['!VAR1']).toBe('1');
+      expect(result.variables['!VAR2']).not.toBe('2');
+    });
+
+    it('should ignore breakpoints without onDebugPause', async () => {
+      const executor = new MacroExecutor({ breakpoints: [{ line: 2 }] });
+      executor.loadMacro(MACRO);
+
+      const result = await executor.execute();
+
+      expect(result.success).toBe(true);
+    });
+  });
+});
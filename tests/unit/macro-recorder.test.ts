@@ -21,12 +21,22 @@ if (typeof globalThis.window === 'undefined') {
 }
 
 // Mock element-finder module (must come before source import)
-vi.mock('../../extension/src/content/element-finder', () => ({
-  getAttributeValue: vi.fn((el: any, attr: string) => el.getAttribute?.(attr) ?? null),
-  getFullTextContent: vi.fn((el: any) => el.textContent ?? ''),
-  matchesType: vi.fn(() => true),
-  findElement: vi.fn(() => ({ element: null, elements: [] })),
-}));
+vi.mock('../../extension/src/content/element-finder', async () => {
+  const actual = await vi.importActual<typeof import('../../extension/src/content/element-finder')>(
+    '../../extension/src/content/element-finder'
+  );
+  return {
+    getAttributeValue: vi.fn((el: any, attr: string) => el.getAttribute?.(attr) ?? null),
+    getFullTextContent: vi.fn((el: any) => el.textContent ?? ''),
+    matchesType: vi.fn(() => true),
+    findElement: vi.fn(() => ({ element: null, elements: [] })),
+    querySelectorAllDeep: actual.querySelectorAllDeep,
+    getLabelText: actual.getLabelText,
+    // No fallback locator matches by default, so recorded TAG lines stay minimal
+    findByFallbackLocator: vi.fn(() => ({ element: null, elements: [], count: 0 })),
+    FALLBACK_SEPARATOR: actual.FALLBACK_SEPARATOR,
+  };
+});
 
 // Mock element-highlighter module (must come before source import)
 vi.mock('../../extension/src/content/element-highlighter', () => ({
@@ -56,6 +66,7 @@ import type {
   RecordedEvent,
   MacroRecorderConfig,
 } from '../../extension/src/content/macro-recorder';
+import { findByFallbackLocator } from '../../extension/src/content/element-finder';
 
 // Track the current test JSDOM so event constructors come from the same realm
 let currentDom: JSDOM;
@@ -439,6 +450,109 @@ describe('MacroRecorder', () => {
       expect(events[0].timestamp).toBeGreaterThanOrEqual(before);
       expect(events[0].timestamp).toBeLessThanOrEqual(Date.now());
     });
+
+    it('should record the element inside an open shadow root, not its host', () => {
+      const host = document.createElement('x-toolbar');
+      document.body.insertBefore(host, document.body.firstChild);
+      host.attachShadow({ mode: 'open' }).innerHTML =
+        '<button type="button" class="action">Cancel</button><button type="button" class="action">Save</button>';
+      recorder.start();
+      const save = host.shadowRoot!.querySelectorAll('button')[1];
+      save.dispatchEvent(createMouseEvent('click', { bubbles: true, composed: true }));
+
+      const events = recorder.getEvents();
+      expect(events[0].command).toBe('TAG POS=2 TYPE=BUTTON:BUTTON ATTR:CLASS=action');
+    });
+
+    it('should not assume POS=1 for an ID inside a shadow root', () => {
+      const host = document.createElement('x-field');
+      document.body.appendChild(host);
+      host.attachShadow({ mode: 'open' }).innerHTML = '<input type="text" id="username" />';
+      recorder.start();
+      const input = host.shadowRoot!.querySelector('input')!;
+      input.dispatchEvent(createMouseEvent('mouseover', { bubbles: true, composed: true }));
+      input.value = 'shadow';
+      // change is not composed, so it only reaches listeners inside the shadow root
+      input.dispatchEvent(createEvent('change', { bubbles: true }));
+
+      const events = recorder.getEvents();
+      expect(events).toHaveLength(1);
+      expect(events[0].command).toBe('TAG POS=2 TYPE=INPUT:TEXT ATTR:ID=username CONTENT=shadow');
+    });
+  });
+
+  // ===== Fallback locators =====
+
+  describe('fallback locators', () => {
+    beforeEach(async () => {
+      const actual = await vi.importActual<typeof import('../../extension/src/content/element-finder')>(
+        '../../extension/src/content/element-finder'
+      );
+      vi.mocked(findByFallbackLocator).mockImplementation(actual.findByFallbackLocator);
+    });
+
+    afterEach(() => {
+      vi.mocked(findByFallbackLocator).mockImplementation(() => ({ element: null, elements: [], count: 0 }));
+    });
+
+    it('should record alternative locators that resolve to the element', () => {
+      recorder.start();
+      const btn = document.querySelector('#loginBtn')!;
+      btn.dispatchEvent(createMouseEvent('click', { bubbles: true }));
+
+      const events = recorder.getEvents();
+      expect(events[0].command).toBe(
+        'TAG POS=1 TYPE=BUTTON:SUBMIT ATTR:ID=loginBtn ' +
+        'FALLBACK="NAME:login||TXT:Login||XPATH:/html[1]/body[1]/button[1]||CSS:#loginBtn"'
+      );
+    });
+
+    it('should record the label of a form control and put FALLBACK before CONTENT', () => {
+      document.body.insertAdjacentHTML('beforeend',
+        '<div id="contact"><label for="email">Email address</label><input type="text" id="email" /></div>');
+      recorder.start();
+      const input = document.querySelector('#email') as HTMLInputElement;
+      input.value = 'a@b.c';
+      input.dispatchEvent(createEvent('change', { bubbles: true }));
+
+      const command = recorder.getEvents()[0].command;
+      expect(command).toContain("XPATH://*[@id='contact']/input[1]");
+      expect(command).toContain('LABEL:Email address');
+      expect(command).toMatch(/FALLBACK="[^"]*" CONTENT=a@b.c$/);
+    });
+
+    it('should pierce shadow roots in the CSS path and skip XPath', () => {
+      const host = document.createElement('x-toolbar');
+      document.body.insertBefore(host, document.body.firstChild);
+      host.attachShadow({ mode: 'open' }).innerHTML =
+        '<button type="button" class="action">Cancel</button><button type="button" class="action">Save</button>';
+      recorder.start();
+      const save = host.shadowRoot!.querySelectorAll('button')[1];
+      save.dispatchEvent(createMouseEvent('click', { bubbles: true, composed: true }));
+
+      expect(recorder.getEvents()[0].command).toBe(
+        'TAG POS=2 TYPE=BUTTON:BUTTON ATTR:CLASS=action ' +
+        'FALLBACK="TXT:Save||CSS:body > x-toolbar:nth-of-type(1) >>> button:nth-of-type(2)"'
+      );
+    });
+
+    it('should leave out locators that match more than one element', () => {
+      document.body.insertAdjacentHTML('beforeend', '<a href="/home">Home</a>');
+      recorder.start();
+      const link = document.querySelector('#homeLink')!;
+      link.dispatchEvent(createMouseEvent('click', { bubbles: true }));
+
+      expect(recorder.getEvents()[0].command).not.toContain('TXT:Home');
+    });
+
+    it('should not record fallbacks when recordFallbacks is off', () => {
+      recorder = new MacroRecorder({ recordFallbacks: false });
+      recorder.start();
+      const btn = document.querySelector('#loginBtn')!;
+      btn.dispatchEvent(createMouseEvent('click', { bubbles: true }));
+
+      expect(recorder.getEvents()[0].command).toBe('TAG POS=1 TYPE=BUTTON:SUBMIT ATTR:ID=loginBtn');
+    });
   });
 
   // ===== generateMacro =====
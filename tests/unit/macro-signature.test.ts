@@ -0,0 +1,150 @@
+/**
+ * Macro Signature Unit Tests
+ *
+ * Tests for shared/src/ed25519.ts and shared/src/macro-signature.ts covering:
+ * - Ed25519 against the RFC 8032 test vectors
+ * - Signing macros and verifying the signature block
+ * - Tamper detection (body, publisher name, key) and malformed blocks
+ * - Re-signing and CRLF line endings
+ */
+import { describe, it, expect } from 'vitest';
+import { getPublicKey, sign, verify } from '@shared/ed25519';
+import {
+  SIGNATURE_BEGIN,
+  SIGNATURE_END,
+  createSigningKey,
+  signMacro,
+  verifyMacroSignature,
+  parseSignatureBlock,
+  stripSignatureBlock,
+  getKeyFingerprint,
+} from '@shared/macro-signature';
+
+const hex = (bytes: Uint8Array) => Buffer.from(bytes).toString('hex');
+const fromHex = (value: string) => new Uint8Array(Buffer.from(value, 'hex'));
+
+const MACRO = [
+  'VERSION BUILD=1',
+  'URL GOTO=https://example.com',
+  'TAG POS=1 TYPE=A ATTR=TXT:Next',
+].join('\n');
+
+describe('Ed25519', () => {
+  it('should match RFC 8032 test vector 1', () => {
+    const secretKey = fromHex('9d61b19deffd5a60ba844af492ec2cc44449c5697b326919703bac031cae7f60');
+    const publicKey = getPublicKey(secretKey);
+    const signature = sign(new Uint8Array(0), secretKey);
+
+    expect(hex(publicKey)).toBe('d75a980182b10ab7d54bfed3c964073a0ee172f3daa62325af021a68f707511a');
+    expect(hex(signature)).toBe(
+      'e5564300c360ac729086e2cc806e828a84877f1eb8e5d974d873e065'
+      + '224901555fb8821590a33bacc61e39701cf9b46bd25bf5f0595bbe24655141438e7a100b'
+    );
+    expect(verify(signature, new Uint8Array(0), publicKey)).toBe(true);
+  });
+
+  it('should match RFC 8032 test vector 2', () => {
+    const secretKey = fromHex('4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb');
+    const message = fromHex('72');
+
+    expect(hex(getPublicKey(secretKey))).toBe('3d4017c3e843895a92b70aa74d1b7ebc9c982ccf2ec4968cc0cd55f12af4660c');
+    expect(hex(sign(message, secretKey))).toBe(
+      '92a009a9f0d4cab8720e820b5f642540a2b27b5416503f8fb3762223'
+      + 'ebdb69da085ac1e43e15996e458f3613d0f11d8c387b2eaeb4302aeeb00d291612bb0c00'
+    );
+  });
+
+  it('should reject a changed message or signature', () => {
+    const secretKey = fromHex('4ccd089b28ff96da9db6c346ec114e0f5b8a319f35aba624da8cf6ed4fb8a6fb');
+    const publicKey = getPublicKey(secretKey);
+    const signature = sign(fromHex('72'), secretKey);
+
+    expect(verify(signature, fromHex('73'), publicKey)).toBe(false);
+    const changed = signature.slice();
+    changed[5] ^= 1;
+    expect(verify(changed, fromHex('72'), publicKey)).toBe(false);
+    expect(verify(signature.slice(0, 63), fromHex('72'), publicKey)).toBe(false);
+  });
+});
+
+describe('Macro signatures', () => {
+  const key = createSigningKey('Jane Doe');
+
+  it('should create keys for a publisher', () => {
+    expect(key.publisher).toBe('Jane Doe');
+    expect(key.publicKey).toMatch(/^[A-Za-z0-9+/]{43}=$/);
+    expect(createSigningKey('Jane Doe').publicKey).not.toBe(key.publicKey);
+    expect(() => createSigningKey('  ')).toThrow('Publisher name is required');
+  });
+
+  it('should put a signature block at the top and verify it', () => {
+    const signed = signMacro(MACRO, key);
+    const lines = signed.split('\n');
+
+    expect(lines[0]).toBe(SIGNATURE_BEGIN);
+    expect(lines[1]).toBe("' Publisher: Jane Doe");
+    expect(lines[2]).toBe(`' Key: ${key.publicKey}`);
+    expect(lines[4]).toBe(SIGNATURE_END);
+    expect(lines.slice(5).join('\n')).toBe(MACRO);
+    expect(signed).not.toContain(key.secretKey);
+
+    expect(verifyMacroSignature(signed)).toEqual({
+      status: 'valid',
+      publisher: 'Jane Doe',
+      publicKey: key.publicKey,
+    });
+  });
+
+  it('should report unsigned macros', () => {
+    expect(verifyMacroSignature(MACRO)).toEqual({ status: 'unsigned' });
+    expect(parseSignatureBlock(MACRO)).toBeNull();
+  });
+
+  it('should detect a changed command', () => {
+    const signed = signMacro(MACRO, key).replace('https://example.com', 'https://evil.example');
+
+    const check = verifyMacroSignature(signed);
+    expect(check.status).toBe('invalid');
+    expect(check.error).toBe('Macro was modified after it was signed');
+  });
+
+  it('should detect added lines, also above the block', () => {
+    expect(verifyMacroSignature(`${signMacro(MACRO, key)}\nEXEC CMD=calc`).status).toBe('invalid');
+    expect(verifyMacroSignature(`' Note\n${signMacro(MACRO, key)}`).status).toBe('invalid');
+  });
+
+  it('should detect a changed publisher name or key', () => {
+    const signed = signMacro(MACRO, key);
+    const other = createSigningKey('Mallory');
+
+    expect(verifyMacroSignature(signed.replace('Jane Doe', 'John Doe')).status).toBe('invalid');
+    expect(verifyMacroSignature(signed.replace(key.publicKey, other.publicKey)).status).toBe('invalid');
+  });
+
+  it('should treat malformed blocks as invalid', () => {
+    const unclosed = `${SIGNATURE_BEGIN}\n' Publisher: Jane\n${MACRO}`;
+    const missingKey = `${SIGNATURE_BEGIN}\n' Publisher: Jane\n' Signature: AAAA\n${SIGNATURE_END}\n${MACRO}`;
+
+    expect(verifyMacroSignature(unclosed)).toMatchObject({ status: 'invalid', error: 'Signature block is not closed' });
+    expect(verifyMacroSignature(missingKey)).toMatchObject({
+      status: 'invalid',
+      error: 'Signature block needs Publisher, Key and Signature',
+    });
+  });
+
+  it('should verify CRLF macros and replace the signature when re-signing', () => {
+    const signed = signMacro(MACRO, key).replace(/\n/g, '\r\n');
+    expect(verifyMacroSignature(signed).status).toBe('valid');
+
+    const other = createSigningKey('Team Bot');
+    const resigned = signMacro(`${signed}\r\nWAIT SECONDS=1`, other);
+
+    expect(resigned.split(SIGNATURE_BEGIN)).toHaveLength(2);
+    expect(verifyMacroSignature(resigned)).toMatchObject({ status: 'valid', publisher: 'Team Bot' });
+    expect(stripSignatureBlock(resigned)).toBe(`${MACRO}\nWAIT SECONDS=1`);
+  });
+
+  it('should format key fingerprints', () => {
+    expect(getKeyFingerprint(key.publicKey)).toMatch(/^[0-9A-F]{4}( [0-9A-F]{4}){3}$/);
+  });
+});
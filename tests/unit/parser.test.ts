@@ -17,6 +17,8 @@ import {
   validateCommand,
   serializeCommand,
   serializeMacro,
+  analyzeControlFlow,
+  getCommandArguments,
   SYSTEM_VARIABLES,
   type ParsedCommand,
   type ParsedMacro,
@@ -2416,4 +2418,172 @@ WAIT SECONDS={{!VAR1}}`;
       expect(isValidCommand('notAcommand')).toBe(false);
     });
   });
+
+  // ============================================================
+  // SECTION: Control Flow Commands
+  // ============================================================
+  describe('Control Flow Commands', () => {
+    it('should parse IF/ELSEIF/ELSE/ENDIF, WHILE/ENDWHILE and GOTO/LABEL', () => {
+      const result = parseMacro([
+        'IF {{!LOOP}} > 1',
+        'ELSEIF {{!VAR1}} == "x"',
+        'ELSE',
+        'ENDIF',
+        'WHILE {{!VAR2}} < 3',
+        'ENDWHILE',
+        'LABEL done',
+        'GOTO done',
+      ].join('\n'));
+      expect(result.commands.map(c => c.type)).toEqual([
+        'IF', 'ELSEIF', 'ELSE', 'ENDIF', 'WHILE', 'ENDWHILE', 'LABEL', 'GOTO',
+      ]);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should return the raw condition text of IF', () => {
+      const result = parseMacro('IF {{!EXTRACT}} == "Sold out" and {{!LOOP}} > 2');
+      expect(getCommandArguments(result.commands[0])).toBe('{{!EXTRACT}} == "Sold out" and {{!LOOP}} > 2');
+    });
+
+    it('should require a condition for IF, ELSEIF and WHILE', () => {
+      const result = parseMacro('IF\nELSEIF\nENDIF\nWHILE\nENDWHILE');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'IF command requires a condition',
+        'ELSEIF command requires a condition',
+        'WHILE command requires a condition',
+      ]);
+    });
+
+    it('should require a label name for GOTO and LABEL', () => {
+      const result = parseMacro('LABEL\nGOTO');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'LABEL command requires a label name',
+        'GOTO command requires a label name',
+      ]);
+    });
+
+    it('should report unclosed IF and WHILE blocks', () => {
+      const result = parseMacro('IF 1\nWHILE 1');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'IF has no matching ENDIF',
+        'WHILE has no matching ENDWHILE',
+      ]);
+    });
+
+    it('should report closers without an opener', () => {
+      const result = parseMacro('ELSE\nENDIF\nENDWHILE');
+      expect(result.errors.map(e => e.lineNumber)).toEqual([1, 2, 3]);
+      expect(result.errors[0].message).toBe('ELSE without matching IF');
+      expect(result.errors[2].message).toBe('ENDWHILE without matching WHILE');
+    });
+
+    it('should report overlapping blocks', () => {
+      const result = parseMacro('IF 1\nWHILE 1\nENDIF\nENDWHILE');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'IF has no matching ENDIF',
+        'ENDIF without matching IF (WHILE on line 2 is still open)',
+      ]);
+    });
+
+    it('should report ELSEIF or ELSE after ELSE', () => {
+      const result = parseMacro('IF 1\nELSE\nELSEIF 2\nENDIF');
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toContain('ELSEIF after ELSE');
+    });
+
+    it('should report duplicate labels and unknown GOTO targets', () => {
+      const result = parseMacro('LABEL a\nLABEL A\nGOTO missing');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'Duplicate LABEL A (already defined on line 1)',
+        'GOTO target label not found: missing',
+      ]);
+    });
+
+    it('should not check GOTO targets that contain variables', () => {
+      const result = parseMacro('GOTO {{target}}\nLABEL a');
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should skip block validation when validate is false', () => {
+      const result = parseMacro('ENDIF', false);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should map branches, block ends, loops and labels by command index', () => {
+      const { commands } = parseMacro([
+        'WHILE {{!VAR1}} < 3',
+        '  IF {{!VAR1}} == 1',
+        '    ADD !VAR1 1',
+        '  ELSEIF {{!VAR1}} == 2',
+        '    ADD !VAR1 1',
+        '  ELSE',
+        '    LABEL skip',
+        '  ENDIF',
+        'ENDWHILE',
+      ].join('\n'));
+      const { map, errors } = analyzeControlFlow(commands);
+      expect(errors).toHaveLength(0);
+      expect(map.nextBranch.get(1)).toBe(3);
+      expect(map.nextBranch.get(3)).toBe(5);
+      expect(map.nextBranch.get(5)).toBe(7);
+      expect(map.blockEnd.get(1)).toBe(7);
+      expect(map.blockEnd.get(3)).toBe(7);
+      expect(map.blockEnd.get(5)).toBe(7);
+      expect(map.loopPairs.get(0)).toBe(8);
+      expect(map.loopPairs.get(8)).toBe(0);
+      expect(map.labels.get('SKIP')).toBe(6);
+    });
+  });
+
+  describe('Sub-macro Commands', () => {
+    it('should parse CALL with named arguments and RETURN', () => {
+      const result = parseMacro('CALL MACRO=lib/login.iim USER={{!COL1}}\nRETURN TOKEN={{!EXTRACT}}');
+      expect(result.commands.map(c => c.type)).toEqual(['CALL', 'RETURN']);
+      expect(result.commands[0].parameters.map(p => p.key)).toEqual(['MACRO', 'USER']);
+      expect(result.errors).toHaveLength(0);
+    });
+
+    it('should require MACRO for CALL', () => {
+      const result = parseMacro('CALL USER=x');
+      expect(result.errors.map(e => e.message)).toEqual(['CALL command requires MACRO parameter']);
+    });
+  });
+
+  describe('Error Handling Blocks', () => {
+    it('should pair TRY, CATCH and ENDTRY blocks', () => {
+      const result = parseMacro('TRY\nTRY\nURL GOTO=a\nENDTRY\nCATCH\nRETRY 3 BACKOFF=500\nENDTRY');
+      expect(result.errors).toHaveLength(0);
+      const { map } = analyzeControlFlow(result.commands);
+      expect(map.tryBlocks.get(0)).toEqual({ start: 0, catchIndex: 4, end: 6 });
+      expect(map.tryBlocks.get(1)).toEqual({ start: 1, catchIndex: undefined, end: 3 });
+    });
+
+    it('should report unbalanced and duplicate sections', () => {
+      const result = parseMacro('CATCH\nTRY\nCATCH\nCATCH\nENDTRY\nENDTRY\nTRY');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'CATCH without matching TRY',
+        'Duplicate CATCH in TRY block starting on line 2',
+        'ENDTRY without matching TRY',
+        'TRY has no matching ENDTRY',
+      ]);
+    });
+
+    it('should only allow RETRY in a CATCH section', () => {
+      const result = parseMacro('TRY\nRETRY 2\nCATCH\nENDTRY\nRETRY\nRETRY 1');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'RETRY outside of a CATCH block',
+        'RETRY command requires a retry count',
+        'RETRY outside of a CATCH block',
+        'RETRY outside of a CATCH block',
+      ]);
+    });
+
+    it('should validate ON_ERROR modes and GOTO targets', () => {
+      const result = parseMacro('ON_ERROR CONTINUE\nON_ERROR STOP\nON_ERROR GOTO=fallback\nON_ERROR\nON_ERROR GOTO=missing\nLABEL fallback');
+      expect(result.errors.map(e => e.message)).toEqual([
+        'ON_ERROR command requires GOTO=<label>, CONTINUE or STOP',
+        'ON_ERROR target label not found: missing',
+      ]);
+    });
+  });
 });
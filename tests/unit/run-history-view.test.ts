@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for the panel's Run History view
+ *
+ * Tests cover:
+ * - Run summaries
+ * - Filtering by macro and status
+ * - Rendering runs and downloading a run's HTML report
+ * - Opening the overlay and clearing the history
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+
+// Setup DOM environment before imports
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>');
+const { window } = dom;
+
+(globalThis as any).document = window.document;
+(globalThis as any).window = window;
+(globalThis as any).HTMLElement = window.HTMLElement;
+
+import {
+  formatRunSummary,
+  getRunHistoryFilter,
+  renderRunHistory,
+  initRunHistoryView,
+  type RunHistoryViewOptions,
+} from '../../extension/src/panel/run-history-view';
+import type { RunSummary } from '@shared/run-report';
+
+const RUN: RunSummary = {
+  id: 'run-1',
+  macro: 'Shop/checkout.iim',
+  status: 'error',
+  startTime: 1000,
+  endTime: 3500,
+  loopsCompleted: 3,
+  errorCode: -920,
+  errorMessage: 'Element not found',
+  errorLine: 4,
+  extractCount: 0,
+  screenshotCount: 1,
+};
+
+describe('Run history view', () => {
+  let options: RunHistoryViewOptions;
+  let sendToBackground: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="btn-run-history"></button>
+      <div id="run-history-viewer" class="hidden">
+        <button id="run-history-clear"></button>
+        <button id="run-history-close"></button>
+        <input id="run-history-macro">
+        <select id="run-history-status">
+          <option value="">All</option>
+          <option value="success">OK</option>
+          <option value="error">Failed</option>
+        </select>
+        <div id="run-history-list"></div>
+      </div>
+    `;
+    sendToBackground = vi.fn().mockResolvedValue({ success: true, runs: [] });
+    options = { sendToBackground };
+  });
+
+  describe('formatRunSummary', () => {
+    it('should include status, duration, loops, error line and screenshots', () => {
+      expect(formatRunSummary(RUN)).toMatch(/ · Failed · 2\.5s · 3 loops · line 4: Element not found · 1 screenshot\(s\)$/);
+    });
+
+    it('should keep a successful single run short', () => {
+      expect(formatRunSummary({ ...RUN, status: 'success', loopsCompleted: 1, screenshotCount: 0 })).toMatch(/ · OK · 2\.5s$/);
+    });
+  });
+
+  describe('getRunHistoryFilter', () => {
+    it('should only include the set filters', () => {
+      expect(getRunHistoryFilter()).toEqual({});
+
+      (document.getElementById('run-history-macro') as HTMLInputElement).value = ' checkout ';
+      (document.getElementById('run-history-status') as HTMLSelectElement).value = 'error';
+      expect(getRunHistoryFilter()).toEqual({ macro: 'checkout', status: 'error' });
+    });
+  });
+
+  describe('renderRunHistory', () => {
+    it('should list runs and mark failures', () => {
+      renderRunHistory([RUN, { ...RUN, id: 'run-2', status: 'success' }], options);
+
+      const items = document.querySelectorAll('#run-history-list .schedule-item');
+      expect(items).toHaveLength(2);
+      expect(items[0].textContent).toContain('Shop/checkout.iim');
+      expect(items[0].classList.contains('error')).toBe(true);
+      expect(items[1].classList.contains('error')).toBe(false);
+    });
+
+    it('should show a message when there are no runs', () => {
+      renderRunHistory([], options);
+
+      expect(document.getElementById('run-history-list')!.textContent).toBe('No runs');
+    });
+
+    it('should download the report of a run', async () => {
+      sendToBackground.mockResolvedValue({ success: true, html: '<html></html>', fileName: 'report_checkout.html' });
+      const createObjectURL = vi.fn(() => 'blob:report');
+      const revokeObjectURL = vi.fn();
+      (globalThis as any).URL.createObjectURL = createObjectURL;
+      (globalThis as any).URL.revokeObjectURL = revokeObjectURL;
+      const clicked: string[] = [];
+      window.HTMLAnchorElement.prototype.click = function (this: HTMLAnchorElement) {
+        clicked.push(this.download);
+      };
+
+      renderRunHistory([RUN], options);
+      document.querySelector<HTMLButtonElement>('#run-history-list button')!.click();
+      await vi.waitFor(() => expect(revokeObjectURL).toHaveBeenCalledWith('blob:report'));
+
+      expect(sendToBackground).toHaveBeenCalledWith('GET_RUN_REPORT', { id: 'run-1' });
+      expect(clicked).toEqual(['report_checkout.html']);
+    });
+
+    it('should show a report error in the list', async () => {
+      sendToBackground.mockResolvedValue({ success: false, error: 'Run not found: run-1' });
+
+      renderRunHistory([RUN], options);
+      document.querySelector<HTMLButtonElement>('#run-history-list button')!.click();
+
+      await vi.waitFor(() => expect(document.getElementById('run-history-list')!.textContent).toBe('Run not found: run-1'));
+    });
+  });
+
+  describe('initRunHistoryView', () => {
+    it('should open the overlay and load runs with the filter', async () => {
+      sendToBackground.mockResolvedValue({ success: true, runs: [RUN] });
+      initRunHistoryView(options);
+      (document.getElementById('run-history-status') as HTMLSelectElement).value = 'error';
+
+      document.getElementById('btn-run-history')!.click();
+
+      expect(document.getElementById('run-history-viewer')!.classList.contains('hidden')).toBe(false);
+      expect(sendToBackground).toHaveBeenCalledWith('GET_RUN_HISTORY', { status: 'error' });
+      await vi.waitFor(() => expect(document.querySelectorAll('#run-history-list .schedule-item')).toHaveLength(1));
+    });
+
+    it('should clear the history and reload', async () => {
+      initRunHistoryView(options);
+
+      document.getElementById('run-history-clear')!.click();
+
+      expect(sendToBackground).toHaveBeenCalledWith('CLEAR_RUN_HISTORY');
+      await vi.waitFor(() => expect(sendToBackground).toHaveBeenCalledWith('GET_RUN_HISTORY', {}));
+    });
+  });
+});
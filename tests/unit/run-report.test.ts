@@ -0,0 +1,199 @@
+/**
+ * Run Report Unit Tests
+ *
+ * Tests for shared/src/run-report.ts covering:
+ * - Converting a MacroResult into a run record (status, timestamps)
+ * - Summaries and filtering by macro and status
+ * - Per-line timing aggregation
+ * - The HTML report (escaping, screenshots, timings, stopwatch and profiler CSV)
+ * - Report file names
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  createRunId,
+  createRunRecord,
+  summarizeRun,
+  filterRuns,
+  aggregateLineTimings,
+  buildRunReportHtml,
+  getRunReportFileName,
+  type RunRecord,
+} from '@shared/run-report';
+import { IMACROS_ERROR_CODES, type MacroResult } from '@shared/executor';
+
+const START = new Date(2026, 2, 14, 9, 5, 7).getTime();
+
+function makeResult(overrides: Partial<MacroResult> = {}): MacroResult {
+  return {
+    success: true,
+    errorCode: IMACROS_ERROR_CODES.OK,
+    loopsCompleted: 1,
+    executionTimeMs: 2500,
+    extractData: ['Price: 10'],
+    variables: {},
+    ...overrides,
+  };
+}
+
+function makeRecord(overrides: Partial<RunRecord> = {}): RunRecord {
+  return {
+    ...createRunRecord(makeResult(), { macro: 'Shop/checkout.iim', startTime: START, endTime: START + 2500, id: 'run-1' }),
+    ...overrides,
+  };
+}
+
+describe('Run report', () => {
+  describe('createRunId', () => {
+    it('should sort IDs by start time', () => {
+      const ids = [createRunId(START + 1000), createRunId(999), createRunId(START)];
+      expect([...ids].sort()).toEqual([ids[1], ids[2], ids[0]]);
+      expect(ids[0]).toMatch(/^run-\d{13}-[a-z0-9]+$/);
+    });
+  });
+
+  describe('createRunRecord', () => {
+    it('should keep the result fields and store timestamps as milliseconds', () => {
+      const result = makeResult({
+        stopwatchRecords: [{ id: 'total', elapsedSec: '1.250', timestamp: new Date(START + 1250) }],
+        profilerRecords: [{ line: 1, command: 'URL', rawCommand: 'URL GOTO=https://x.test', durationMs: 900, timestamp: new Date(START + 900) }],
+      });
+
+      const record = createRunRecord(result, { macro: 'Shop/checkout.iim', startTime: START, endTime: START + 2500 });
+
+      expect(record).toMatchObject({
+        macro: 'Shop/checkout.iim',
+        status: 'success',
+        startTime: START,
+        endTime: START + 2500,
+        loopsCompleted: 1,
+        errorCode: IMACROS_ERROR_CODES.OK,
+        extractData: ['Price: 10'],
+        stopwatchRecords: [{ id: 'total', elapsedSec: '1.250', timestamp: START + 1250 }],
+        profilerRecords: [{ line: 1, durationMs: 900, timestamp: START + 900 }],
+        screenshots: [],
+      });
+      expect(record.id.startsWith(`run-${String(START).padStart(13, '0')}-`)).toBe(true);
+      expect(JSON.parse(JSON.stringify(record))).toEqual(record);
+    });
+
+    it('should mark failed and stopped runs', () => {
+      const failed = createRunRecord(
+        makeResult({ success: false, errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND, errorMessage: 'No element', errorLine: 4 }),
+        { macro: 'a.iim', startTime: START }
+      );
+      const stopped = createRunRecord(
+        makeResult({ success: false, errorCode: IMACROS_ERROR_CODES.USER_ABORT }),
+        { macro: 'a.iim', startTime: START }
+      );
+
+      expect(failed).toMatchObject({ status: 'error', errorMessage: 'No element', errorLine: 4 });
+      expect(stopped.status).toBe('stopped');
+    });
+  });
+
+  describe('summarizeRun and filterRuns', () => {
+    it('should drop the bulky fields from summaries', () => {
+      const summary = summarizeRun(makeRecord({ screenshots: [{ label: 'Error', dataUrl: 'data:image/png;base64,AAAA' }] }));
+
+      expect(summary).toMatchObject({ id: 'run-1', macro: 'Shop/checkout.iim', extractCount: 1, screenshotCount: 1 });
+      expect(summary).not.toHaveProperty('extractData');
+      expect(summary).not.toHaveProperty('screenshots');
+      expect(summary).not.toHaveProperty('profilerRecords');
+    });
+
+    it('should filter by macro and status, newest first', () => {
+      const runs = [
+        makeRecord({ id: 'a', startTime: 1, macro: 'Shop/checkout.iim' }),
+        makeRecord({ id: 'b', startTime: 3, macro: 'Shop/Checkout.iim', status: 'error' }),
+        makeRecord({ id: 'c', startTime: 2, macro: 'Shop/login.iim' }),
+      ];
+
+      expect(filterRuns(runs).map(r => r.id)).toEqual(['b', 'c', 'a']);
+      expect(filterRuns(runs, { macro: ' checkout ' }).map(r => r.id)).toEqual(['b', 'a']);
+      expect(filterRuns(runs, { macro: 'checkout', status: 'success' }).map(r => r.id)).toEqual(['a']);
+    });
+  });
+
+  describe('aggregateLineTimings', () => {
+    it('should total, count and take the maximum per line', () => {
+      const timings = aggregateLineTimings([
+        { line: 3, command: 'TAG', rawCommand: 'TAG POS=1', durationMs: 20, timestamp: 0 },
+        { line: 1, command: 'URL', rawCommand: 'URL GOTO=x', durationMs: 100, timestamp: 0 },
+        { line: 3, command: 'TAG', rawCommand: 'TAG POS=1', durationMs: 40, timestamp: 0 },
+      ]);
+
+      expect(timings).toEqual([
+        { line: 1, command: 'URL', rawCommand: 'URL GOTO=x', count: 1, totalMs: 100, maxMs: 100 },
+        { line: 3, command: 'TAG', rawCommand: 'TAG POS=1', count: 2, totalMs: 60, maxMs: 40 },
+      ]);
+    });
+  });
+
+  describe('buildRunReportHtml', () => {
+    it('should escape macro text and include the summary', () => {
+      const html = buildRunReportHtml(makeRecord({
+        macro: '<script>x</script>.iim',
+        status: 'error',
+        errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND,
+        errorMessage: 'No element "a<b"',
+        errorLine: 2,
+      }));
+
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).not.toContain('<script>');
+      expect(html).toContain('&lt;script&gt;x&lt;/script&gt;.iim');
+      expect(html).toContain('<th>Error line</th><td>2</td>');
+      expect(html).toContain('No element &quot;a&lt;b&quot;');
+      expect(html).toContain('<th>Duration</th><td>2.500 s</td>');
+      expect(html).toContain('class="status status-error"');
+    });
+
+    it('should embed screenshots', () => {
+      const html = buildRunReportHtml(makeRecord({
+        screenshots: [{ label: 'Error at line 2', dataUrl: 'data:image/png;base64,iVBORw0KGgo=' }],
+      }));
+
+      expect(html).toContain('<img src="data:image/png;base64,iVBORw0KGgo=" alt="Error at line 2">');
+    });
+
+    it('should include per-line timings and the profiler CSV', () => {
+      const html = buildRunReportHtml(makeRecord({
+        status: 'error',
+        errorLine: 2,
+        profilerRecords: [
+          { line: 1, command: 'URL', rawCommand: 'URL GOTO=https://x.test', durationMs: 120, timestamp: START },
+          { line: 2, command: 'TAG', rawCommand: 'TAG POS=1 TYPE=A ATTR=TXT:a,b', durationMs: 30.5, timestamp: START },
+        ],
+      }));
+
+      expect(html).toContain('<h2>Per-line timings</h2>');
+      expect(html).toContain('<tr class="error-line"><td class="num">2</td><td>TAG POS=1 TYPE=A ATTR=TXT:a,b</td>');
+      expect(html).toContain('<td class="num">120.0</td>');
+      expect(html).toContain('Line,Command,Duration_ms,Timestamp');
+      expect(html).toContain('2,&quot;TAG POS=1 TYPE=A ATTR=TXT:a,b&quot;,30.500,2026/03/14 09:05:07');
+    });
+
+    it('should include the stopwatch table and CSV', () => {
+      const html = buildRunReportHtml(makeRecord({
+        stopwatchRecords: [{ id: 'login', elapsedSec: '1.234', timestamp: START }],
+      }));
+
+      expect(html).toContain('<h2>Stopwatch</h2>');
+      expect(html).toContain('<td>login</td><td class="num">1.234</td><td>2026/03/14 09:05:07</td>');
+      expect(html).toContain('2026/03/14,09:05:07,login,1.234');
+      expect(html).toContain('Macro: Shop/checkout.iim, Status: OK (0)');
+    });
+
+    it('should leave out empty sections', () => {
+      const html = buildRunReportHtml(makeRecord({ extractData: [] }));
+
+      expect(html).not.toContain('<h2>');
+    });
+  });
+
+  describe('getRunReportFileName', () => {
+    it('should use the macro name and start time', () => {
+      expect(getRunReportFileName(makeRecord())).toBe('report_checkout_20260314_090507.html');
+    });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit Tests for the panel's Schedule tab
+ *
+ * Tests cover:
+ * - Parsing NAME=value variable lines
+ * - Run history summaries
+ * - Rendering jobs and history, Run now / Remove buttons
+ * - Saving a schedule from the form and showing errors
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+
+// Setup DOM environment before imports
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>');
+const { window } = dom;
+
+(globalThis as any).document = window.document;
+(globalThis as any).window = window;
+(globalThis as any).HTMLElement = window.HTMLElement;
+
+import {
+  parseVariableLines,
+  formatRunRecord,
+  renderSchedules,
+  initSchedulePanel,
+  type SchedulePanelOptions,
+} from '../../extension/src/panel/schedule-panel';
+import type { ScheduledJob, ScheduledRunRecord } from '../../extension/src/background/scheduler';
+
+const JOB: ScheduledJob = {
+  id: 'job1',
+  macroPath: 'Demo/nightly.iim',
+  cron: '0 2 * * *',
+  variables: { '!VAR1': 'a' },
+  enabled: true,
+  retries: 2,
+  retryDelayMinutes: 5,
+  catchUp: false,
+  onlyWhenIdle: false,
+  nextRunTime: new Date(2026, 0, 6, 2, 0).getTime(),
+};
+
+const RECORD: ScheduledRunRecord = {
+  id: 'r1',
+  jobId: 'job1',
+  macroPath: 'Demo/nightly.iim',
+  trigger: 'retry',
+  attempt: 2,
+  scheduledTime: 0,
+  startTime: 1000,
+  endTime: 13000,
+  status: 'error',
+  errorMessage: 'Page load timeout',
+};
+
+describe('Schedule panel', () => {
+  let options: SchedulePanelOptions;
+  let sendToBackground: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <input id="schedule-cron">
+      <textarea id="schedule-variables"></textarea>
+      <input id="schedule-retries" value="1">
+      <input id="schedule-retry-delay" value="10">
+      <input type="checkbox" id="schedule-catch-up">
+      <input type="checkbox" id="schedule-idle">
+      <button id="btn-schedule-add"></button>
+      <div id="schedule-error" style="display: none"></div>
+      <div id="schedule-jobs"></div>
+      <button id="btn-schedule-clear-history"></button>
+      <div id="schedule-history"></div>
+    `;
+    sendToBackground = vi.fn().mockResolvedValue({ success: true, jobs: [], history: [] });
+    options = { getSelectedMacro: () => 'Demo/nightly.iim', sendToBackground };
+  });
+
+  describe('parseVariableLines', () => {
+    it('should parse NAME=value lines and skip blank ones', () => {
+      expect(parseVariableLines('!VAR1=a\n\n  user = bob \nurl=https://x.test/?a=b')).toEqual({
+        '!VAR1': 'a', user: 'bob', url: 'https://x.test/?a=b',
+      });
+    });
+
+    it('should reject a line without a name', () => {
+      expect(() => parseVariableLines('novalue')).toThrow('Expected NAME=value: novalue');
+      expect(() => parseVariableLines('=x')).toThrow();
+    });
+  });
+
+  describe('formatRunRecord', () => {
+    it('should include status, retry number and duration', () => {
+      expect(formatRunRecord(RECORD)).toMatch(/ · Failed · retry 1 · 12s$/);
+    });
+
+    it('should omit the duration of a skipped run', () => {
+      expect(formatRunRecord({ ...RECORD, trigger: 'schedule', status: 'skipped' })).toMatch(/ · Skipped$/);
+    });
+  });
+
+  describe('renderSchedules', () => {
+    it('should list jobs with Run now and Remove buttons', () => {
+      renderSchedules({ jobs: [JOB], history: [] }, options);
+
+      const item = document.querySelector('#schedule-jobs .schedule-item')!;
+      expect(item.textContent).toContain('Demo/nightly.iim');
+      expect(item.querySelector('.schedule-item-detail')!.textContent).toMatch(/^0 2 \* \* \* · next: .+ · 1 variable\(s\) · 2 retries$/);
+
+      const [runNow, remove] = Array.from(item.querySelectorAll('button'));
+      runNow.click();
+      remove.click();
+      expect(sendToBackground).toHaveBeenCalledWith('RUN_SCHEDULE_NOW', { id: 'job1' });
+      expect(sendToBackground).toHaveBeenCalledWith('DELETE_SCHEDULE', { id: 'job1' });
+    });
+
+    it('should mark failed runs in the history', () => {
+      renderSchedules({ jobs: [], history: [RECORD, { ...RECORD, id: 'r2', status: 'success', errorMessage: undefined }] }, options);
+
+      const items = document.querySelectorAll('#schedule-history .schedule-item');
+      expect(items).toHaveLength(2);
+      expect(items[0].classList.contains('error')).toBe(true);
+      expect(items[0].textContent).toContain('Page load timeout');
+      expect(items[1].classList.contains('error')).toBe(false);
+    });
+  });
+
+  describe('Adding a schedule', () => {
+    it('should send the form values', async () => {
+      initSchedulePanel(options);
+      (document.getElementById('schedule-cron') as HTMLInputElement).value = ' 0 2 * * * ';
+      (document.getElementById('schedule-variables') as HTMLTextAreaElement).value = '!VAR1=a';
+      (document.getElementById('schedule-idle') as HTMLInputElement).checked = true;
+
+      document.getElementById('btn-schedule-add')!.click();
+      await vi.waitFor(() => expect(sendToBackground).toHaveBeenCalledWith('SAVE_SCHEDULE', expect.anything()));
+
+      expect(sendToBackground).toHaveBeenCalledWith('SAVE_SCHEDULE', {
+        macroPath: 'Demo/nightly.iim',
+        cron: '0 2 * * *',
+        variables: { '!VAR1': 'a' },
+        retries: 1,
+        retryDelayMinutes: 10,
+        catchUp: false,
+        onlyWhenIdle: true,
+      });
+    });
+
+    it('should show the error returned by the background', async () => {
+      sendToBackground.mockImplementation(async (type: string) => (type === 'SAVE_SCHEDULE'
+        ? { success: false, error: 'Cron expression never matches: 0 0 31 4 *' }
+        : { success: true, jobs: [], history: [] }));
+      initSchedulePanel(options);
+      (document.getElementById('schedule-cron') as HTMLInputElement).value = '0 0 31 4 *';
+
+      document.getElementById('btn-schedule-add')!.click();
+      const errorEl = document.getElementById('schedule-error')!;
+      await vi.waitFor(() => expect(errorEl.style.display).toBe('block'));
+      expect(errorEl.textContent).toBe('Cron expression never matches: 0 0 31 4 *');
+    });
+
+    it('should require a cron expression', () => {
+      initSchedulePanel(options);
+      document.getElementById('btn-schedule-add')!.click();
+
+      expect(document.getElementById('schedule-error')!.textContent).toMatch(/Enter a cron expression/);
+      expect(sendToBackground).not.toHaveBeenCalledWith('SAVE_SCHEDULE', expect.anything());
+    });
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Scheduler Unit Tests
+ *
+ * Tests for extension/src/background/scheduler.ts covering:
+ * - Cron expression parsing (lists, ranges, steps, names, aliases) and errors
+ * - Next run calculation in local time
+ * - Job alarms, runs and persisted run history
+ * - Retry policy
+ * - Missed-run catch-up and skipping at startup
+ * - "Only when idle" deferral
+ * - Runs interrupted by a restart
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const storage = new Map<string, unknown>();
+const alarms = new Map<string, number>();
+let idleState = 'idle';
+
+const mockAlarmsCreate = vi.fn(async (name: string, info: { when: number }) => {
+  alarms.set(name, info.when);
+});
+const mockAlarmsClear = vi.fn(async (name: string) => alarms.delete(name));
+const mockAddAlarmListener = vi.fn();
+
+(globalThis as any).chrome = {
+  storage: {
+    local: {
+      get: vi.fn(async (keys: string[]) => Object.fromEntries(
+        keys.filter(k => storage.has(k)).map(k => [k, structuredClone(storage.get(k))])
+      )),
+      set: vi.fn(async (items: Record<string, unknown>) => {
+        for (const [key, value] of Object.entries(items)) {
+          storage.set(key, structuredClone(value));
+        }
+      }),
+    },
+  },
+  alarms: {
+    create: mockAlarmsCreate,
+    clear: mockAlarmsClear,
+    onAlarm: { addListener: mockAddAlarmListener, hasListener: vi.fn(() => false) },
+  },
+  idle: {
+    queryState: vi.fn((_seconds: number, callback: (state: string) => void) => callback(idleState)),
+  },
+};
+
+import {
+  parseCronExpression,
+  getNextCronTime,
+  initScheduler,
+  handleSchedulerAlarm,
+  setScheduledMacroRunner,
+  setSchedulerChangeListener,
+  saveScheduledJob,
+  deleteScheduledJob,
+  runScheduledJobNow,
+  getSchedules,
+  clearRunHistory,
+  resetSchedulerState,
+  type ScheduledJob,
+  type ScheduledRunOutcome,
+} from '@extension/background/scheduler';
+
+/** Local time helper */
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(year, month - 1, day, hour, minute).getTime();
+
+/** Fire an alarm by name */
+const fire = (name: string) => handleSchedulerAlarm({ name, scheduledTime: Date.now() } as chrome.alarms.Alarm);
+
+describe('Cron expressions', () => {
+  it('should find the next step of a minute field', () => {
+    expect(getNextCronTime('*/15 * * * *', at(2026, 1, 5, 10, 7))).toBe(at(2026, 1, 5, 10, 15));
+  });
+
+  it('should move to the next day for a passed time', () => {
+    expect(getNextCronTime('0 2 * * *', at(2026, 1, 5, 10, 0))).toBe(at(2026, 1, 6, 2, 0));
+  });
+
+  it('should be strictly after the given time', () => {
+    expect(getNextCronTime('0 2 * * *', at(2026, 1, 6, 2, 0))).toBe(at(2026, 1, 7, 2, 0));
+  });
+
+  it('should support day names and ranges', () => {
+    // 10 Jan 2026 is a Saturday
+    expect(getNextCronTime('30 9 * * MON-FRI', at(2026, 1, 10, 12, 0))).toBe(at(2026, 1, 12, 9, 30));
+  });
+
+  it('should support month names, lists and aliases', () => {
+    expect(getNextCronTime('0 0 1 JAN,JUL *', at(2026, 2, 1))).toBe(at(2026, 7, 1));
+    expect(getNextCronTime('@hourly', at(2026, 1, 5, 10, 7))).toBe(at(2026, 1, 5, 11, 0));
+    expect(getNextCronTime('@monthly', at(2026, 1, 5))).toBe(at(2026, 2, 1));
+  });
+
+  it('should treat 7 as Sunday', () => {
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 15th (a Thursday) or any Sunday; 11 Jan 2026 is a Sunday
+    expect(getNextCronTime('0 0 15 * SUN', at(2026, 1, 10, 12))).toBe(at(2026, 1, 11));
+    expect(getNextCronTime('0 0 15 * SUN', at(2026, 1, 12))).toBe(at(2026, 1, 15));
+  });
+
+  it('should return null for a date that never exists', () => {
+    expect(getNextCronTime('0 0 30 2 *', at(2026, 1, 1))).toBeNull();
+  });
+
+  it.each([
+    ['* * * *', /5 fields/],
+    ['60 * * * *', /minute out of range/],
+    ['*/0 * * * *', /Invalid minute step/],
+    ['0 0 * * FUNDAY', /Invalid day of week value/],
+    ['0 5-2 * * *', /hour out of range/],
+  ])('should reject %s', (expression, error) => {
+    expect(() => parseCronExpression(expression)).toThrow(error);
+  });
+});
+
+describe('Scheduler', () => {
+  let runner: ReturnType<typeof vi.fn<(job: ScheduledJob) => Promise<ScheduledRunOutcome>>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(at(2026, 1, 5, 10, 0));
+    storage.clear();
+    alarms.clear();
+    idleState = 'idle';
+    vi.clearAllMocks();
+    resetSchedulerState();
+    runner = vi.fn(async () => ({ success: true }));
+    setScheduledMacroRunner(runner);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Jobs', () => {
+    it('should save a job and create an alarm for its next run', async () => {
+      const job = await saveScheduledJob({ macroPath: 'nightly.iim', cron: '0 2 * * *', variables: { '!VAR1': 'a' } });
+
+      expect(job.nextRunTime).toBe(at(2026, 1, 6, 2, 0));
+      expect(alarms.get(`imacros-schedule:${job.id}`)).toBe(at(2026, 1, 6, 2, 0));
+      expect((storage.get('scheduledJobs') as ScheduledJob[])[0]).toMatchObject({
+        macroPath: 'nightly.iim', variables: { '!VAR1': 'a' }, retries: 0, enabled: true,
+      });
+    });
+
+    it('should update an existing job', async () => {
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '0 2 * * *' });
+      await saveScheduledJob({ id: job.id, macroPath: 'a.iim', cron: '0 3 * * *', retries: 2 });
+
+      const { jobs } = await getSchedules();
+      expect(jobs).toHaveLength(1);
+      expect(jobs[0]).toMatchObject({ cron: '0 3 * * *', retries: 2, nextRunTime: at(2026, 1, 6, 3, 0) });
+    });
+
+    it('should reject an invalid or never matching expression', async () => {
+      await expect(saveScheduledJob({ macroPath: 'a.iim', cron: 'every night' })).rejects.toThrow(/5 fields/);
+      await expect(saveScheduledJob({ macroPath: 'a.iim', cron: '0 0 31 4 *' })).rejects.toThrow(/never matches/);
+    });
+
+    it('should clear the alarms of a deleted job', async () => {
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '@daily' });
+      expect(await deleteScheduledJob(job.id)).toBe(true);
+
+      expect(alarms.size).toBe(0);
+      expect((await getSchedules()).jobs).toEqual([]);
+      expect(await deleteScheduledJob(job.id)).toBe(false);
+    });
+  });
+
+  describe('Runs', () => {
+    it('should run the job when its alarm fires and schedule the next run', async () => {
+      const onChange = vi.fn();
+      setSchedulerChangeListener(onChange);
+      const job = await saveScheduledJob({ macroPath: 'nightly.iim', cron: '0 2 * * *' });
+
+      vi.setSystemTime(at(2026, 1, 6, 2, 0));
+      await fire(`imacros-schedule:${job.id}`);
+
+      expect(runner).toHaveBeenCalledWith(expect.objectContaining({ macroPath: 'nightly.iim' }));
+      expect(alarms.get(`imacros-schedule:${job.id}`)).toBe(at(2026, 1, 7, 2, 0));
+      const { history } = await getSchedules();
+      expect(history[0]).toMatchObject({
+        jobId: job.id, trigger: 'schedule', attempt: 1, status: 'success', scheduledTime: at(2026, 1, 6, 2, 0),
+      });
+      expect((storage.get('scheduledRunHistory') as unknown[])).toHaveLength(1);
+      expect(onChange).toHaveBeenCalled();
+    });
+
+    it('should ignore an alarm that fires before the job is due', async () => {
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '0 2 * * *' });
+      await fire(`imacros-schedule:${job.id}`);
+      expect(runner).not.toHaveBeenCalled();
+    });
+
+    it('should ignore alarms of other features', async () => {
+      await fire('keepAlive');
+      expect(runner).not.toHaveBeenCalled();
+    });
+
+    it('should retry a failed run after the retry delay', async () => {
+      runner.mockResolvedValue({ success: false, errorCode: -931, errorMessage: 'Page load timeout' });
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '0 2 * * *', retries: 1, retryDelayMinutes: 10 });
+
+      vi.setSystemTime(at(2026, 1, 6, 2, 0));
+      await fire(`imacros-schedule:${job.id}`);
+      expect(alarms.get(`imacros-schedule-pending:${job.id}`)).toBe(at(2026, 1, 6, 2, 10));
+
+      vi.setSystemTime(at(2026, 1, 6, 2, 10));
+      await fire(`imacros-schedule-pending:${job.id}`);
+
+      const { history } = await getSchedules();
+      expect(history.map(r => [r.trigger, r.attempt, r.status])).toEqual([
+        ['retry', 2, 'error'],
+        ['schedule', 1, 'error'],
+      ]);
+      expect(history[0]).toMatchObject({ errorCode: -931, errorMessage: 'Page load timeout' });
+      // No attempts left
+      expect(alarms.has(`imacros-schedule-pending:${job.id}`)).toBe(false);
+    });
+
+    it('should record an error when the runner throws or is missing', async () => {
+      runner.mockRejectedValue(new Error('Native host not installed'));
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '@daily' });
+      await runScheduledJobNow(job.id);
+      setScheduledMacroRunner(null);
+      await runScheduledJobNow(job.id);
+
+      const { history } = await getSchedules();
+      expect(history.map(r => r.errorMessage)).toEqual(['Scheduler has no macro runner', 'Native host not installed']);
+      expect(history[0].trigger).toBe('manual');
+    });
+
+    it('should clear the run history', async () => {
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '@daily' });
+      await runScheduledJobNow(job.id);
+      await clearRunHistory();
+      expect((await getSchedules()).history).toEqual([]);
+    });
+  });
+
+  describe('Only when idle', () => {
+    it('should defer the run while the user is active', async () => {
+      idleState = 'active';
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '0 2 * * *', onlyWhenIdle: true });
+
+      vi.setSystemTime(at(2026, 1, 6, 2, 0));
+      await fire(`imacros-schedule:${job.id}`);
+      expect(runner).not.toHaveBeenCalled();
+      expect(alarms.get(`imacros-schedule-pending:${job.id}`)).toBe(at(2026, 1, 6, 2, 5));
+
+      idleState = 'idle';
+      vi.setSystemTime(at(2026, 1, 6, 2, 5));
+      await fire(`imacros-schedule-pending:${job.id}`);
+      expect(runner).toHaveBeenCalledTimes(1);
+      expect((await getSchedules()).history[0]).toMatchObject({ trigger: 'schedule', scheduledTime: at(2026, 1, 6, 2, 0) });
+    });
+
+    it('should skip the run when the user stays active until the next one', async () => {
+      idleState = 'active';
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '*/5 * * * *', onlyWhenIdle: true });
+
+      vi.setSystemTime(at(2026, 1, 5, 10, 5));
+      await fire(`imacros-schedule:${job.id}`);
+
+      expect(runner).not.toHaveBeenCalled();
+      expect((await getSchedules()).history[0]).toMatchObject({ status: 'skipped' });
+    });
+
+    it('should not wait for idle when run manually', async () => {
+      idleState = 'active';
+      const job = await saveScheduledJob({ macroPath: 'a.iim', cron: '@daily', onlyWhenIdle: true });
+      await runScheduledJobNow(job.id);
+      expect(runner).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Startup', () => {
+    const storedJob = (overrides: Partial<ScheduledJob>): ScheduledJob => ({
+      id: 'job1',
+      macroPath: 'nightly.iim',
+      cron: '0 2 * * *',
+      variables: {},
+      enabled: true,
+      retries: 0,
+      retryDelayMinutes: 5,
+      catchUp: false,
+      onlyWhenIdle: false,
+      nextRunTime: at(2026, 1, 5, 2, 0),
+      ...overrides,
+    });
+
+    it('should catch up a run missed while the browser was closed', async () => {
+      storage.set('scheduledJobs', [storedJob({ catchUp: true })]);
+      await initScheduler();
+
+      expect(mockAddAlarmListener).toHaveBeenCalledWith(handleSchedulerAlarm);
+      expect(runner).toHaveBeenCalledTimes(1);
+      const { history, jobs } = await getSchedules();
+      expect(history[0]).toMatchObject({ trigger: 'catch-up', status: 'success', scheduledTime: at(2026, 1, 5, 2, 0) });
+      expect(jobs[0].nextRunTime).toBe(at(2026, 1, 6, 2, 0));
+      expect(alarms.get('imacros-schedule:job1')).toBe(at(2026, 1, 6, 2, 0));
+    });
+
+    it('should record a missed run as skipped without catch-up', async () => {
+      storage.set('scheduledJobs', [storedJob({ catchUp: false })]);
+      await initScheduler();
+
+      expect(runner).not.toHaveBeenCalled();
+      expect((await getSchedules()).history[0]).toMatchObject({
+        status: 'skipped', errorMessage: 'Missed while the browser was closed',
+      });
+    });
+
+    it('should recreate alarms of future runs', async () => {
+      storage.set('scheduledJobs', [storedJob({ nextRunTime: at(2026, 1, 6, 2, 0) })]);
+      await initScheduler();
+
+      expect(runner).not.toHaveBeenCalled();
+      expect(alarms.get('imacros-schedule:job1')).toBe(at(2026, 1, 6, 2, 0));
+    });
+
+    it('should mark runs cut short by a restart as interrupted', async () => {
+      storage.set('scheduledRunHistory', [{
+        id: 'r1', jobId: 'job1', macroPath: 'nightly.iim', trigger: 'schedule', attempt: 1,
+        scheduledTime: 0, startTime: 0, status: 'running',
+      }]);
+      await initScheduler();
+
+      expect((await getSchedules()).history[0].status).toBe('interrupted');
+    });
+  });
+});
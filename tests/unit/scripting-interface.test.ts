@@ -70,6 +70,15 @@ describe('ExecutorMacroHandler', () => {
       expect(handler.getLastExtract()).toBe('#nodata#'); // No actual EXTRACT command was run
     });
 
+    it('should capture extract records with their field names', async () => {
+      await handler.play('EXTRACT Widget AS=name\nEXTRACT 9.99 AS=price\nEXTRACT extra');
+      expect(handler.getLastExtract()).toBe('Widget#NEXT#9.99#NEXT#extra');
+      expect(handler.getLastExtractRecords()).toEqual([{ name: 'Widget', price: '9.99', EXTRACT1: 'extra' }]);
+
+      await handler.play('SET !VAR0 "hello"');
+      expect(handler.getLastExtractRecords()).toEqual([]);
+    });
+
     it('should return error for invalid macro syntax', async () => {
       const result = await handler.play('INVALID COMMAND SYNTAX @#$%');
       expect(result.code).toBe(ReturnCode.ERROR);
@@ -223,7 +232,7 @@ describe('ScriptingInterfaceServer', () => {
       isRunning: vi.fn().mockReturnValue(false),
       stop: vi.fn(),
     };
-    server = new ScriptingInterfaceServer({ debug: false }, mockHandler);
+    server = new ScriptingInterfaceServer({ debug: false, authToken: '' }, mockHandler);
   });
 
   afterEach(async () => {
@@ -410,7 +419,7 @@ describe('File I/O support for iimPlay', () => {
 
     const handler = new ExecutorMacroHandler();
     const server = new ScriptingInterfaceServer(
-      { macrosDir: tmpDir, debug: false },
+      { macrosDir: tmpDir, debug: false, authToken: '' },
       handler
     );
 
@@ -455,7 +464,7 @@ describe('File I/O support for iimPlay', () => {
 
     const handler = new ExecutorMacroHandler();
     const server = new ScriptingInterfaceServer(
-      { macrosDir: tmpDir, port: 14960, debug: false },
+      { macrosDir: tmpDir, port: 14960, debug: false, authToken: '' },
       handler
     );
     await server.start();
@@ -494,7 +503,7 @@ describe('File I/O support for iimPlay', () => {
   it('should return MACRO_NOT_FOUND for missing file', async () => {
     const handler = new ExecutorMacroHandler();
     const server = new ScriptingInterfaceServer(
-      { macrosDir: tmpDir, port: 14961, debug: false },
+      { macrosDir: tmpDir, port: 14961, debug: false, authToken: '' },
       handler
     );
     await server.start();
@@ -537,7 +546,7 @@ describe('File I/O support for iimPlay', () => {
 
     const handler = new ExecutorMacroHandler();
     const server = new ScriptingInterfaceServer(
-      { macrosDir: tmpDir, port: 14962, debug: false },
+      { macrosDir: tmpDir, port: 14962, debug: false, authToken: '' },
       handler
     );
     await server.start();
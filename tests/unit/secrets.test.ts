@@ -0,0 +1,147 @@
+/**
+ * Secret References Unit Tests
+ *
+ * Tests for shared/src/secrets.ts and the {{!SECRET:name.field}} variable covering:
+ * - Parsing references and selecting fields from stored values
+ * - Resolving against a vault lookup (missing entries, dotted names)
+ * - Masking resolved values in logs, progress events, !EXTRACT and results
+ * - Failing commands when the vault is missing or the secret is unavailable
+ */
+import { describe, it, expect, vi } from 'vitest';
+import {
+  SECRET_MASK,
+  isSecretVariable,
+  parseSecretReference,
+  parseSecretFields,
+  serializeSecretFields,
+  selectSecretValue,
+  resolveSecret,
+  maskSecrets,
+  type SecretReference,
+} from '@shared/secrets';
+import { VariableContext } from '@shared/variables';
+import { createExecutor, IMACROS_ERROR_CODES, type ExecutionProgress } from '@shared/executor';
+
+const VAULT: Record<string, string> = {
+  bank_login: JSON.stringify({ username: 'jane', password: 'hunter2!' }),
+  api_token: 'tok-123456',
+  'smtp.example.com': 'mail-pass',
+};
+
+const lookup = (name: string) => VAULT[name] ?? null;
+const resolver = (reference: SecretReference) => resolveSecret(reference, lookup);
+
+describe('Secret references', () => {
+  it('should recognize and parse references', () => {
+    expect(isSecretVariable('!secret:x')).toBe(true);
+    expect(isSecretVariable('!VAR1')).toBe(false);
+    expect(parseSecretReference('!SECRET:bank_login.password')).toEqual({ name: 'bank_login', field: 'password' });
+    expect(parseSecretReference('!SECRET:api_token')).toEqual({ name: 'api_token' });
+    expect(parseSecretReference('!SECRET:smtp.example.com')).toEqual({ name: 'smtp.example', field: 'com' });
+    expect(() => parseSecretReference('!SECRET: ')).toThrow('Secret reference needs a name');
+  });
+
+  it('should store single values plain and fields as JSON', () => {
+    expect(serializeSecretFields({ value: 'abc' })).toBe('abc');
+    expect(parseSecretFields(serializeSecretFields({ user: 'a', pass: 'b' }))).toEqual({ user: 'a', pass: 'b' });
+    expect(parseSecretFields('plain')).toBeNull();
+    expect(parseSecretFields('{not json')).toBeNull();
+  });
+
+  it('should select fields case-insensitively', () => {
+    expect(selectSecretValue(VAULT.bank_login, { name: 'bank_login', field: 'Password' })).toBe('hunter2!');
+    expect(() => selectSecretValue(VAULT.bank_login, { name: 'bank_login', field: 'pin' }))
+      .toThrow('Secret bank_login has no field pin');
+    expect(() => selectSecretValue(VAULT.bank_login, { name: 'bank_login' }))
+      .toThrow('Secret bank_login has fields username, password; use {{!SECRET:bank_login.<field>}}');
+  });
+
+  it('should resolve entries, falling back to dotted entry names', () => {
+    expect(resolver({ name: 'api_token' })).toBe('tok-123456');
+    expect(resolver(parseSecretReference('!SECRET:smtp.example.com'))).toBe('mail-pass');
+    expect(() => resolver({ name: 'nope', field: 'x' })).toThrow('Secret not found: nope.x');
+  });
+
+  it('should mask longer values first', () => {
+    expect(maskSecrets('a=abc, b=abcdef', ['abc', 'abcdef', ''])).toBe(`a=${SECRET_MASK}, b=${SECRET_MASK}`);
+  });
+});
+
+describe('{{!SECRET:...}} variables', () => {
+  it('should resolve on access and refuse SET', () => {
+    const variables = new VariableContext();
+    variables.setSecretResolver(resolver);
+
+    expect(variables.get('!SECRET:bank_login.username')).toBe('jane');
+    expect(variables.set('!SECRET:api_token', 'x')).toMatchObject({
+      success: false,
+      error: 'System variable !SECRET:api_token is read-only',
+    });
+    expect(variables.maskSecrets('user jane')).toBe(`user ${SECRET_MASK}`);
+  });
+
+  it('should fail without a vault', () => {
+    expect(() => new VariableContext().get('!SECRET:api_token')).toThrow('No credential vault available');
+  });
+
+  it('should mask secrets in !EXTRACT', () => {
+    const variables = new VariableContext();
+    variables.setSecretResolver(resolver);
+    variables.get('!SECRET:api_token');
+
+    variables.set('!EXTRACT', 'token=tok-123456');
+    variables.addExtractData('again tok-123456');
+
+    expect(variables.get('!EXTRACT')).toBe(`token=${SECRET_MASK}[EXTRACT]again ${SECRET_MASK}`);
+  });
+});
+
+describe('Executor secret masking', () => {
+  it('should pass the secret to commands and mask it in logs, progress and results', async () => {
+    const logs: string[] = [];
+    const progress: ExecutionProgress[] = [];
+    const typed: string[] = [];
+    const executor = createExecutor({
+      secretResolver: resolver,
+      onLog: (_level, message) => logs.push(message),
+      onProgress: (p) => progress.push(p),
+    });
+    executor.registerHandler('TAG', async (ctx) => {
+      typed.push(ctx.expand(ctx.getParam('CONTENT') ?? ''));
+      // As if TAG ... EXTRACT=TXT read the typed password back from the page
+      ctx.state.addExtract(`value=${typed[0]}`);
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+    executor.loadMacro([
+      'SET !VAR1 {{!SECRET:bank_login.password}}',
+      'TAG POS=1 TYPE=INPUT:PASSWORD ATTR=NAME:pass CONTENT={{!SECRET:bank_login.password}}',
+      'SET !EXTRACT {{!VAR1}}',
+    ].join('\n'));
+
+    const result = await executor.execute();
+
+    expect(result.success).toBe(true);
+    expect(typed).toEqual(['hunter2!']);
+    expect(logs.join('\n')).not.toContain('hunter2!');
+    expect(JSON.stringify(progress)).not.toContain('hunter2!');
+    expect(result.extractData).toEqual([`value=${SECRET_MASK}`]);
+    expect(result.variables['!EXTRACT']).toBe(SECRET_MASK);
+    expect(result.variables['!VAR1']).toBe(SECRET_MASK);
+  });
+
+  it('should fail the command when the secret is not available', async () => {
+    const typed = vi.fn();
+    const executor = createExecutor({ secretResolver: resolver });
+    executor.registerHandler('TAG', async (ctx) => {
+      typed(ctx.expand(ctx.getParam('CONTENT') ?? ''));
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+    executor.loadMacro('TAG POS=1 TYPE=INPUT ATTR=NAME:pass CONTENT={{!SECRET:nope}}');
+
+    const result = await executor.execute();
+
+    expect(result.success).toBe(false);
+    expect(result.errorMessage).toContain('Secret not found: nope');
+    expect(typed).not.toHaveBeenCalled();
+  });
+});
@@ -6,6 +6,8 @@
  * - SecurityWarningDialog actions (run, trust-and-run, cancel)
  * - TrustedSitesDialog creation and display
  * - TrustedSitesDialog site management (add, remove)
+ * - Capability manifest and per-site capability policies
+ * - Macro signer and trusted publishers
  */
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { JSDOM } from 'jsdom';
@@ -47,7 +49,8 @@ import {
   TrustedSitesDialogResult,
 } from '../../extension/src/panel/trusted-sites-dialog';
 
-import { MacroSource, TrustedSite } from '@shared/security';
+import { MacroSource, TrustedSite, CapabilityManifest } from '@shared/security';
+import { createSigningKey, getKeyFingerprint } from '@shared/macro-signature';
 
 describe('SecurityWarningDialog', () => {
   let dialog: SecurityWarningDialog;
@@ -255,6 +258,72 @@ describe('SecurityWarningDialog', () => {
     });
   });
 
+  describe('capability manifest', () => {
+    it('should list the dangerous commands and domains', async () => {
+      const manifest: CapabilityManifest = {
+        capabilities: ['exec'],
+        findings: [{ capability: 'exec', line: 3, command: 'EXEC CMD=run.bat' }],
+        domains: ['shop.example.com'],
+        dynamicUrls: true,
+        calledMacros: ['login.iim', '{{next}}'],
+      };
+      const showPromise = dialog.show({ source: createMockSource(), manifest });
+
+      const items = window.document.querySelectorAll('.security-warning-capability');
+      expect(items.length).toBe(1);
+      expect(items[0].textContent).toBe('Run programs (EXEC) - line 3: EXEC CMD=run.bat');
+      expect(window.document.querySelector('.security-warning-manifest')?.textContent)
+        .toContain('shop.example.com, URLs built from variables');
+      expect(window.document.querySelector('.security-warning-manifest')?.textContent)
+        .toContain('login.iim, {{next}}');
+
+      (window.document.querySelector('.security-warning-btn-cancel') as HTMLButtonElement).click();
+      await showPromise;
+    });
+
+    it('should say when there are no dangerous commands', async () => {
+      const showPromise = dialog.show({
+        source: createMockSource(),
+        manifest: { capabilities: [], findings: [], domains: [], dynamicUrls: false, calledMacros: [] },
+      });
+
+      expect(window.document.querySelector('.security-warning-manifest-title')?.textContent)
+        .toBe('This macro uses no dangerous commands.');
+
+      (window.document.querySelector('.security-warning-btn-cancel') as HTMLButtonElement).click();
+      await showPromise;
+    });
+  });
+
+  describe('signature', () => {
+    const key = createSigningKey('Jane Doe');
+
+    it('should show the signer and whether it is trusted', async () => {
+      const showPromise = dialog.show({
+        source: createMockSource({ signature: { status: 'valid', publisher: 'Jane Doe', publicKey: key.publicKey } }),
+      });
+
+      const row = window.document.querySelector('.security-warning-signature');
+      expect(row?.classList.contains('signature-valid')).toBe(true);
+      expect(row?.textContent).toContain(`Jane Doe [${getKeyFingerprint(key.publicKey)}] (not a trusted publisher)`);
+
+      (window.document.querySelector('.security-warning-btn-cancel') as HTMLButtonElement).click();
+      await showPromise;
+    });
+
+    it('should show unsigned macros and no row without a signature check', async () => {
+      let showPromise = dialog.show({ source: createMockSource({ signature: { status: 'unsigned' } }) });
+      expect(window.document.querySelector('.security-warning-signature')?.textContent).toContain('Not signed');
+      (window.document.querySelector('.security-warning-btn-cancel') as HTMLButtonElement).click();
+      await showPromise;
+
+      showPromise = dialog.show({ source: createMockSource() });
+      expect(window.document.querySelector('.security-warning-signature')).toBeNull();
+      (window.document.querySelector('.security-warning-btn-cancel') as HTMLButtonElement).click();
+      await showPromise;
+    });
+  });
+
   describe('isOpen method', () => {
     it('should return true when dialog is open', async () => {
       const source = createMockSource();
@@ -475,6 +544,85 @@ describe('TrustedSitesDialog', () => {
     });
   });
 
+  describe('capability policies', () => {
+    it('should save allowed and denied capabilities per site', async () => {
+      const sites: TrustedSite[] = [{ domain: 'example.com', trustedAt: 0, capabilities: { proxy: 'deny' } }];
+      const showPromise = dialog.show({ trustedSites: sites });
+
+      const select = (capability: string) => window.document.querySelector(
+        `.trusted-sites-policy-select[data-capability="${capability}"]`
+      ) as HTMLSelectElement;
+      expect(select('proxy').value).toBe('deny');
+      expect(select('exec').value).toBe('');
+
+      select('exec').value = 'allow';
+      select('exec').dispatchEvent(new window.Event('change'));
+      select('proxy').value = '';
+      select('proxy').dispatchEvent(new window.Event('change'));
+      (window.document.querySelector('.trusted-sites-btn-save') as HTMLButtonElement).click();
+
+      const result = await showPromise;
+      expect(result.trustedSites?.[0].capabilities).toEqual({ exec: 'allow' });
+    });
+  });
+
+  describe('trusted publishers', () => {
+    const key = createSigningKey('Jane Doe');
+
+    const addPublisher = (name: string, publicKey: string) => {
+      (window.document.querySelector('.trusted-publishers-name-input') as HTMLInputElement).value = name;
+      (window.document.querySelector('.trusted-publishers-key-input') as HTMLInputElement).value = publicKey;
+      (window.document.querySelector('.trusted-publishers-add-btn') as HTMLButtonElement).click();
+    };
+
+    it('should add publishers and return them on save', async () => {
+      const showPromise = dialog.show({ trustedSites: [] });
+      expect(window.document.querySelector('.trusted-publishers-empty')).not.toBeNull();
+
+      addPublisher('Jane', key.publicKey);
+
+      const items = window.document.querySelectorAll('.trusted-publishers-item');
+      expect(items.length).toBe(1);
+      expect(items[0].querySelector('.trusted-publishers-item-fingerprint')?.textContent)
+        .toBe(getKeyFingerprint(key.publicKey));
+
+      (window.document.querySelector('.trusted-sites-btn-save') as HTMLButtonElement).click();
+      const result = await showPromise;
+      expect(result.trustedPublishers).toMatchObject([{ name: 'Jane', publicKey: key.publicKey }]);
+    });
+
+    it('should reject invalid and duplicate keys', async () => {
+      const showPromise = dialog.show({
+        trustedSites: [],
+        trustedPublishers: [{ name: 'Jane', publicKey: key.publicKey, trustedAt: 0 }],
+      });
+      const error = () => window.document.querySelector('.trusted-sites-error');
+
+      addPublisher('Someone', 'not-a-key');
+      expect(error()?.textContent).toBe('Invalid public key. Paste the Key line of a signed macro');
+
+      addPublisher('Jane again', key.publicKey);
+      expect(error()?.textContent).toBe('This publisher is already trusted');
+      expect(window.document.querySelectorAll('.trusted-publishers-item').length).toBe(1);
+
+      (window.document.querySelector('.trusted-sites-btn-cancel') as HTMLButtonElement).click();
+      await showPromise;
+    });
+
+    it('should remove publishers', async () => {
+      const showPromise = dialog.show({
+        trustedSites: [],
+        trustedPublishers: [{ name: 'Jane', publicKey: key.publicKey, trustedAt: 0 }],
+      });
+
+      (window.document.querySelector('.trusted-publishers-item-remove') as HTMLButtonElement).click();
+      (window.document.querySelector('.trusted-sites-btn-save') as HTMLButtonElement).click();
+
+      const result = await showPromise;
+      expect(result.trustedPublishers).toEqual([]);
+    });
+  });
+
   describe('save and cancel', () => {
     it('should return saved true with updated sites on save', async () => {
       const sites = [{ domain: 'original.com', trustedAt: Date.now() }];
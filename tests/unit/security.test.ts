@@ -6,6 +6,8 @@
  * - Domain extraction and matching
  * - Trusted sites management
  * - Macro source validation
+ * - Capability scanning and per-site capability policies
+ * - Trusted publishers and signed macros
  * - Security settings
  */
 import { describe, it, expect, beforeEach } from 'vitest';
@@ -26,7 +28,15 @@ import {
   validateMacroSource,
   mergeSecuritySettings,
   isValidDomainPattern,
+  scanMacroCapabilities,
+  getSiteCapabilityPolicies,
+  findTrustedPublisher,
+  addTrustedPublisher,
+  removeTrustedPublisher,
+  isValidPublicKey,
 } from '@shared/security';
+import { parseMacro } from '@shared/parser';
+import { createSigningKey, signMacro } from '@shared/macro-signature';
 
 describe('Security Module', () => {
   describe('extractDomain', () => {
@@ -396,6 +406,174 @@ describe('Security Module', () => {
     });
   });
 
+  describe('scanMacroCapabilities', () => {
+    it('should flag dangerous commands with their lines', () => {
+      const manifest = scanMacroCapabilities(parseMacro([
+        'URL GOTO=https://shop.example.com/cart',
+        'EXEC CMD="notepad.exe"',
+        "' comment",
+        'FILEDELETE NAME=C:\\data\\orders.csv',
+        'PROXY ADDRESS=127.0.0.1:8080',
+        'CMDLINE !VAR1 x',
+        'EXEC CMD="calc.exe"',
+      ].join('\n'), false));
+
+      expect(manifest.capabilities).toEqual(['exec', 'file-delete', 'proxy', 'cmdline']);
+      expect(manifest.findings.map(f => [f.capability, f.line])).toEqual([
+        ['exec', 2], ['file-delete', 4], ['proxy', 5], ['cmdline', 6], ['exec', 7],
+      ]);
+      expect(manifest.findings[0].command).toBe('EXEC CMD="notepad.exe"');
+    });
+
+    it('should flag ONDOWNLOAD only for absolute or variable paths', () => {
+      const scan = (line: string) => scanMacroCapabilities(parseMacro(line, false)).capabilities;
+
+      expect(scan('ONDOWNLOAD FOLDER=* FILE=+_{{!NOW:yyyymmdd}}')).toEqual(['download-absolute']);
+      expect(scan('ONDOWNLOAD FOLDER=* FILE=report.pdf')).toEqual([]);
+      expect(scan('ONDOWNLOAD FOLDER=/etc FILE=passwd')).toEqual(['download-absolute']);
+      expect(scan('ONDOWNLOAD FOLDER=D:\\Temp FILE=*')).toEqual(['download-absolute']);
+      expect(scan('ONDOWNLOAD FOLDER=../.. FILE=*')).toEqual(['download-absolute']);
+      expect(scan('ONDOWNLOAD FOLDER=* FILE=../.profile')).toEqual(['download-absolute']);
+    });
+
+    it('should flag SAVEAS outside the download folder', () => {
+      const scan = (line: string, downloadFolder?: string) =>
+        scanMacroCapabilities(parseMacro(line, false), { downloadFolder }).capabilities;
+
+      expect(scan('SAVEAS TYPE=HTM FOLDER=* FILE=page')).toEqual([]);
+      expect(scan('SAVEAS TYPE=HTM FOLDER=pages FILE=page')).toEqual([]);
+      expect(scan('SAVEAS TYPE=HTM FOLDER=../.. FILE=page')).toEqual(['saveas-outside-downloads']);
+      expect(scan('SAVEAS TYPE=HTM FOLDER=/home/me/.ssh FILE=page')).toEqual(['saveas-outside-downloads']);
+      expect(scan('SAVEAS TYPE=HTM FOLDER=/home/me/Downloads/pages FILE=page', '/home/me/Downloads')).toEqual([]);
+      expect(scan('SAVEAS TYPE=HTM FOLDER={{!VAR1}} FILE=page')).toEqual(['saveas-outside-downloads']);
+    });
+
+    it('should flag SAVEAS files that climb out of the folder or come from variables', () => {
+      const scan = (line: string) => scanMacroCapabilities(parseMacro(line, false)).capabilities;
+
+      expect(scan('SAVEAS TYPE=TXT FOLDER=* FILE=../../.bashrc')).toEqual(['saveas-outside-downloads']);
+      expect(scan('SAVEAS TYPE=TXT FOLDER=pages FILE=..\\..\\autorun.bat')).toEqual(['saveas-outside-downloads']);
+      expect(scan('SAVEAS TYPE=TXT FOLDER=* FILE={{!VAR1}}')).toEqual(['saveas-outside-downloads']);
+      expect(scan('SAVEAS TYPE=TXT FOLDER=* FILE=notes..txt')).toEqual([]);
+    });
+
+    it('should resolve .. in absolute SAVEAS folders before comparing with the download folder', () => {
+      const scan = (line: string) =>
+        scanMacroCapabilities(parseMacro(line, false), { downloadFolder: '/dl' }).capabilities;
+
+      expect(scan('SAVEAS TYPE=HTM FOLDER=/dl/../etc FILE=page')).toEqual(['saveas-outside-downloads']);
+      expect(scan('SAVEAS TYPE=HTM FOLDER=/dl/pages/../../etc FILE=page')).toEqual(['saveas-outside-downloads']);
+      expect(scan('SAVEAS TYPE=HTM FOLDER=/dl/pages/../archive FILE=page')).toEqual([]);
+      expect(scan('SAVEAS TYPE=HTM FOLDER=/dl/./pages FILE=page')).toEqual([]);
+    });
+
+    it('should flag SET !FOLDER_* that moves where FOLDER=* points', () => {
+      const manifest = scanMacroCapabilities(parseMacro([
+        'SET !FOLDER_DOWNLOAD /etc',
+        'SAVEAS TYPE=TXT FOLDER=* FILE=passwd',
+        'ONDOWNLOAD FOLDER=* FILE=cron',
+        'SET !VAR1 /etc',
+        'SET !folder_datasource C:\\Windows',
+      ].join('\n'), false));
+
+      expect(manifest.capabilities).toEqual(['set-folder']);
+      expect(manifest.findings.map(f => f.line)).toEqual([1, 5]);
+    });
+
+    it('should flag CALL and list its targets, even those built from variables', () => {
+      const manifest = scanMacroCapabilities(parseMacro([
+        'CALL MACRO=lib/login.iim USER=jane',
+        'CALL MACRO={{!VAR1}}',
+        'CALL MACRO=lib/login.iim',
+      ].join('\n'), false));
+
+      expect(manifest.capabilities).toEqual(['call']);
+      expect(manifest.findings.map(f => f.line)).toEqual([1, 2, 3]);
+      expect(manifest.calledMacros).toEqual(['lib/login.iim', '{{!VAR1}}']);
+    });
+
+    it('should flag commands that use vault secrets or TOTP codes', () => {
+      const manifest = scanMacroCapabilities(parseMacro([
+        'URL GOTO=https://x.example.com/?p={{!SECRET:bank.password}}',
+        'SET !VAR1 {{!VAR2}}',
+        'TAG POS=1 TYPE=INPUT ATTR=NAME:otp CONTENT={{!totp:github}}',
+      ].join('\n'), false));
+
+      expect(manifest.capabilities).toEqual(['secrets']);
+      expect(manifest.findings.map(f => f.line)).toEqual([1, 3]);
+    });
+
+    it('should let a site policy deny vault secrets', () => {
+      const manifest = scanMacroCapabilities(parseMacro('URL GOTO=https://x/?p={{!SECRET:bank.password}}', false));
+      const result = validateMacroSource('https://macros.example.com/a.iim', {
+        ...DEFAULT_SECURITY_SETTINGS,
+        trustedSites: [{ domain: '*.example.com', trustedAt: 0, capabilities: { secrets: 'deny' } }],
+      }, manifest);
+
+      expect(result.allowed).toBe(false);
+      expect(result.deniedCapabilities).toEqual(['secrets']);
+    });
+
+    it('should list the domains navigated to', () => {
+      const manifest = scanMacroCapabilities(parseMacro([
+        'URL GOTO=https://b.example.com/',
+        'URL GOTO=https://A.example.org/login',
+        'URL GOTO=https://b.example.com/cart',
+        'URL GOTO={{!VAR1}}',
+      ].join('\n'), false));
+
+      expect(manifest.domains).toEqual(['a.example.org', 'b.example.com']);
+      expect(manifest.dynamicUrls).toBe(true);
+      expect(manifest.capabilities).toEqual([]);
+    });
+  });
+
+  describe('validateMacroSource with a capability manifest', () => {
+    const execManifest = scanMacroCapabilities(parseMacro('EXEC CMD=run.bat\nFILEDELETE NAME=a.txt', false));
+    const settingsWith = (capabilities?: TrustedSite['capabilities']): SecuritySettings => ({
+      ...DEFAULT_SECURITY_SETTINGS,
+      trustedSites: [{ domain: '*.example.com', trustedAt: 0, capabilities }],
+    });
+
+    it('should ask on a trusted site for capabilities it does not allow', () => {
+      const result = validateMacroSource('https://macros.example.com/a.iim', settingsWith({ exec: 'allow' }), execManifest);
+
+      expect(result.allowed).toBe(true);
+      expect(result.requiresConfirmation).toBe(true);
+      expect(result.reason).toBe('Trusted site: macros.example.com; uses Delete files (FILEDELETE)');
+      expect(result.manifest).toBe(execManifest);
+    });
+
+    it('should run without asking when the site allows every capability', () => {
+      const result = validateMacroSource('https://macros.example.com/a.iim',
+        settingsWith({ exec: 'allow', 'file-delete': 'allow' }), execManifest);
+
+      expect(result.allowed).toBe(true);
+      expect(result.requiresConfirmation).toBe(false);
+    });
+
+    it('should block a capability the site denies', () => {
+      const result = validateMacroSource('https://macros.example.com/a.iim', settingsWith({ exec: 'deny' }), execManifest);
+
+      expect(result.allowed).toBe(false);
+      expect(result.deniedCapabilities).toEqual(['exec']);
+      expect(result.reason).toBe('Blocked by site policy: Run programs (EXEC)');
+    });
+
+    it('should judge local macros by origin only', () => {
+      const result = validateMacroSource('/macros/a.iim', settingsWith({ exec: 'deny' }), execManifest);
+
+      expect(result.allowed).toBe(true);
+      expect(result.requiresConfirmation).toBe(false);
+    });
+
+    it('should find the policies of the matching site', () => {
+      expect(getSiteCapabilityPolicies('a.example.com', settingsWith({ proxy: 'deny' }).trustedSites)).toEqual({ proxy: 'deny' });
+      expect(getSiteCapabilityPolicies('other.org', settingsWith({ proxy: 'deny' }).trustedSites)).toEqual({});
+      expect(getSiteCapabilityPolicies(undefined, [])).toEqual({});
+    });
+  });
+
   describe('mergeSecuritySettings', () => {
     it('should return defaults for empty object', () => {
       const result = mergeSecuritySettings({});
@@ -463,6 +641,86 @@ describe('Security Module', () => {
     });
   });
 
+  describe('trusted publishers', () => {
+    const key = createSigningKey('Jane Doe');
+    const signed = signMacro('URL GOTO=https://example.com\nEXEC CMD=report.bat', key);
+    const settingsWith = (trustedPublishers = addTrustedPublisher('Jane (QA team)', key.publicKey, [])): SecuritySettings => ({
+      ...DEFAULT_SECURITY_SETTINGS,
+      trustedPublishers,
+    });
+
+    it('should add, find and remove publishers by public key', () => {
+      let publishers = addTrustedPublisher(' Jane ', ` ${key.publicKey} `, [], 'QA');
+      publishers = addTrustedPublisher('Duplicate', key.publicKey, publishers);
+
+      expect(publishers).toHaveLength(1);
+      expect(publishers[0]).toMatchObject({ name: 'Jane', publicKey: key.publicKey, note: 'QA' });
+      expect(findTrustedPublisher(key.publicKey, publishers)).toBe(publishers[0]);
+      expect(findTrustedPublisher(createSigningKey('Other').publicKey, publishers)).toBeUndefined();
+      expect(removeTrustedPublisher(key.publicKey, publishers)).toEqual([]);
+    });
+
+    it('should validate public keys', () => {
+      expect(isValidPublicKey(key.publicKey)).toBe(true);
+      expect(isValidPublicKey('abc')).toBe(false);
+      expect(isValidPublicKey('')).toBe(false);
+    });
+
+    it('should trust a macro signed by a trusted publisher from any origin', () => {
+      const source = createMacroSource('https://untrusted.org/a.iim', settingsWith(), signed);
+
+      expect(source.trusted).toBe(true);
+      expect(source.signature).toMatchObject({ status: 'valid', publisher: 'Jane Doe' });
+      expect(source.publisher?.name).toBe('Jane (QA team)');
+    });
+
+    it('should not trust a valid signature from an unknown publisher', () => {
+      const source = createMacroSource('https://untrusted.org/a.iim', settingsWith([]), signed);
+
+      expect(source.trusted).toBe(false);
+      expect(source.signature?.status).toBe('valid');
+      expect(source.publisher).toBeUndefined();
+    });
+
+    it('should leave sources alone without content or for unsigned macros', () => {
+      expect(createMacroSource('https://untrusted.org/a.iim', settingsWith()).signature).toBeUndefined();
+      expect(createMacroSource('https://untrusted.org/a.iim', settingsWith(), 'URL GOTO=x').signature)
+        .toEqual({ status: 'unsigned' });
+    });
+
+    it('should run signed macros without asking, even with dangerous commands', () => {
+      const manifest = scanMacroCapabilities(parseMacro(signed, false));
+      const result = validateMacroSource('imacros://run?url=https://untrusted.org/a.iim', settingsWith(), manifest, signed);
+
+      expect(result.allowed).toBe(true);
+      expect(result.requiresConfirmation).toBe(false);
+      expect(result.reason).toBe('Signed by trusted publisher: Jane (QA team)');
+    });
+
+    it('should still apply capabilities a trusted site denies', () => {
+      const manifest = scanMacroCapabilities(parseMacro(signed, false));
+      const settings = {
+        ...settingsWith(),
+        trustedSites: [{ domain: 'example.com', trustedAt: 0, capabilities: { exec: 'deny' as const } }],
+      };
+
+      expect(validateMacroSource('https://example.com/a.iim', settings, manifest, signed).allowed).toBe(false);
+    });
+
+    it('should refuse tampered macros outright, even from trusted origins', () => {
+      const tampered = signed.replace('report.bat', 'evil.bat');
+      const settings = { ...settingsWith(), trustedSites: [{ domain: 'example.com', trustedAt: 0 }] };
+
+      for (const location of ['/macros/a.iim', 'https://example.com/a.iim']) {
+        const result = validateMacroSource(location, settings, undefined, tampered);
+        expect(result.allowed).toBe(false);
+        expect(result.requiresConfirmation).toBe(false);
+        expect(result.reason).toBe('Invalid signature: Macro was modified after it was signed');
+        expect(result.source.trusted).toBe(false);
+      }
+    });
+  });
+
   describe('DEFAULT_SECURITY_SETTINGS', () => {
     it('should have warnings enabled by default', () => {
       expect(DEFAULT_SECURITY_SETTINGS.showUntrustedWarnings).toBe(true);
@@ -472,6 +730,10 @@ describe('Security Module', () => {
       expect(DEFAULT_SECURITY_SETTINGS.trustedSites).toEqual([]);
     });
 
+    it('should have empty trusted publishers by default', () => {
+      expect(DEFAULT_SECURITY_SETTINGS.trustedPublishers).toEqual([]);
+    });
+
     it('should allow URL macros by default', () => {
       expect(DEFAULT_SECURITY_SETTINGS.allowUrlMacros).toBe(true);
     });
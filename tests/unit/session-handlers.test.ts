@@ -0,0 +1,184 @@
+/**
+ * Session Handlers Unit Tests
+ *
+ * Tests for extension/src/background/session-handlers.ts covering:
+ * - Cookie export (chrome.cookies.getAll, domain filter, session cookies)
+ * - Cookie import (URL and host-only handling, rejected cookies)
+ * - Web storage get/set/getAll/setAll run in the tab via chrome.scripting
+ * - API unavailability and error paths
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockCookiesGetAll = vi.fn();
+const mockCookiesSet = vi.fn();
+const mockExecuteScript = vi.fn();
+
+(globalThis as any).chrome = {
+  cookies: {
+    getAll: mockCookiesGetAll,
+    set: mockCookiesSet,
+  },
+  scripting: {
+    executeScript: mockExecuteScript,
+  },
+};
+
+import { handleCookies, handleWebStorage } from '@extension/background/session-handlers';
+import type { BrowserCookie } from '@shared/commands/browser';
+
+/** Minimal Storage implementation for running the injected function */
+function createStorage(initial: Record<string, string> = {}): Storage {
+  const data = new Map(Object.entries(initial));
+  return {
+    get length() { return data.size; },
+    key: (i: number) => Array.from(data.keys())[i] ?? null,
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => { data.set(k, String(v)); },
+    removeItem: (k: string) => { data.delete(k); },
+    clear: () => data.clear(),
+  };
+}
+
+describe('Session Handlers', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('handleCookies export', () => {
+    it('should export cookies and drop the expiry of session cookies', async () => {
+      mockCookiesGetAll.mockResolvedValue([
+        {
+          name: 'sid', value: 'abc', domain: '.example.com', path: '/', secure: true,
+          httpOnly: true, hostOnly: false, sameSite: 'lax', session: false,
+          expirationDate: 2000000000, storeId: '0',
+        },
+        {
+          name: 'tmp', value: '1', domain: 'example.com', path: '/app', secure: false,
+          httpOnly: false, hostOnly: true, sameSite: 'unspecified', session: true, storeId: '0',
+        },
+      ]);
+
+      const result = await handleCookies({ action: 'export', domain: 'example.com' });
+
+      expect(mockCookiesGetAll).toHaveBeenCalledWith({ domain: 'example.com' });
+      expect(result.success).toBe(true);
+      expect(result.data?.cookies).toEqual([
+        {
+          name: 'sid', value: 'abc', domain: '.example.com', path: '/', secure: true,
+          httpOnly: true, hostOnly: false, sameSite: 'lax', expirationDate: 2000000000,
+        },
+        {
+          name: 'tmp', value: '1', domain: 'example.com', path: '/app', secure: false,
+          httpOnly: false, hostOnly: true, sameSite: 'unspecified',
+        },
+      ]);
+    });
+
+    it('should export every cookie without a domain', async () => {
+      mockCookiesGetAll.mockResolvedValue([]);
+      await handleCookies({ action: 'export' });
+      expect(mockCookiesGetAll).toHaveBeenCalledWith({});
+    });
+  });
+
+  describe('handleCookies import', () => {
+    const domainCookie: BrowserCookie = {
+      name: 'sid', value: 'abc', domain: '.example.com', path: '/', secure: true,
+      httpOnly: true, hostOnly: false, sameSite: 'lax', expirationDate: 2000000000,
+    };
+    const hostCookie: BrowserCookie = {
+      name: 'tmp', value: '1', domain: 'app.example.com', path: '/x', secure: false,
+      httpOnly: false, hostOnly: true,
+    };
+
+    it('should rebuild the URL and only pass Domain for domain cookies', async () => {
+      mockCookiesSet.mockResolvedValue({});
+      const result = await handleCookies({ action: 'import', cookies: [domainCookie, hostCookie] });
+
+      expect(result).toEqual({ success: true, data: { importedCount: 2 } });
+      expect(mockCookiesSet).toHaveBeenNthCalledWith(1, {
+        url: 'https://example.com/',
+        name: 'sid', value: 'abc', path: '/', secure: true, httpOnly: true,
+        domain: '.example.com', sameSite: 'lax', expirationDate: 2000000000,
+      });
+      expect(mockCookiesSet).toHaveBeenNthCalledWith(2, {
+        url: 'http://app.example.com/x',
+        name: 'tmp', value: '1', path: '/x', secure: false, httpOnly: false,
+      });
+    });
+
+    it('should count only cookies the browser accepted', async () => {
+      mockCookiesSet
+        .mockResolvedValueOnce(null)
+        .mockRejectedValueOnce(new Error('Invalid cookie'));
+      const result = await handleCookies({ action: 'import', cookies: [domainCookie, hostCookie] });
+
+      expect(result).toEqual({ success: true, data: { importedCount: 0 } });
+    });
+  });
+
+  describe('handleWebStorage', () => {
+    let local: Storage;
+    let session: Storage;
+
+    beforeEach(() => {
+      local = createStorage({ token: 'abc', theme: 'dark' });
+      session = createStorage();
+      (globalThis as any).window = {
+        localStorage: local,
+        sessionStorage: session,
+        location: { origin: 'https://example.com' },
+      };
+      mockExecuteScript.mockImplementation(async ({ func, args }: { func: Function; args: unknown[] }) => [
+        { result: func(...args) },
+      ]);
+    });
+
+    afterEach(() => {
+      delete (globalThis as any).window;
+    });
+
+    it('should run in the given tab and read one item', async () => {
+      const result = await handleWebStorage({ action: 'get', area: 'local', key: 'token', tabId: 4 });
+
+      expect(mockExecuteScript.mock.calls[0][0].target).toEqual({ tabId: 4 });
+      expect(result).toEqual({ success: true, data: { origin: 'https://example.com', value: 'abc' } });
+    });
+
+    it('should return null for a missing key', async () => {
+      const result = await handleWebStorage({ action: 'get', area: 'local', key: 'nope', tabId: 4 });
+      expect(result.data?.value).toBeNull();
+    });
+
+    it('should write to sessionStorage', async () => {
+      await handleWebStorage({ action: 'set', area: 'session', key: 'step', value: '2', tabId: 4 });
+      expect(session.getItem('step')).toBe('2');
+      expect(local.getItem('step')).toBeNull();
+    });
+
+    it('should read and restore every item', async () => {
+      const read = await handleWebStorage({ action: 'getAll', area: 'local', tabId: 4 });
+      expect(read.data?.items).toEqual({ token: 'abc', theme: 'dark' });
+
+      await handleWebStorage({ action: 'setAll', area: 'session', items: { a: '1', b: '2' }, tabId: 4 });
+      expect(session.getItem('a')).toBe('1');
+      expect(session.getItem('b')).toBe('2');
+    });
+
+    it('should report a tab that cannot be scripted', async () => {
+      mockExecuteScript.mockRejectedValueOnce(new Error('Cannot access a chrome:// URL'));
+      const result = await handleWebStorage({ action: 'get', area: 'local', key: 'x', tabId: 4 });
+      expect(result).toEqual({ success: false, error: 'Cannot access a chrome:// URL' });
+    });
+  });
+
+  describe('API unavailability', () => {
+    it('should fail when chrome.cookies is missing', async () => {
+      const original = chrome.cookies;
+      (chrome as any).cookies = undefined;
+      const result = await handleCookies({ action: 'export' });
+      expect(result).toEqual({ success: false, error: 'cookies API not available' });
+      (chrome as any).cookies = original;
+    });
+  });
+});
@@ -6,6 +6,7 @@
  * - Loop management (getLoopCounter, setLoopCounter, incrementLoop, isLoopLimitReached, resetForNextLoop)
  * - Variable management (getVariables, getVariable, setVariable, getAllVariables)
  * - Extract data (addExtract, getExtractData, getExtractString, clearExtract)
+ * - Extract records (getExtractRecords, getExtractFields, takeNewExtractRecords)
  * - Error management (setError, clearError, hasError, getErrorCode, getErrorMessage)
  * - Status management (start, pause, resume, complete, abort, canContinue)
  * - Timing (getExecutionTimeMs, getExecutionTimeFormatted)
@@ -303,6 +304,68 @@ describe('StateManager', () => {
     });
   });
 
+  // ===== Extract Records =====
+
+  describe('extract records', () => {
+    it('collects named and unnamed extracts into the open record', () => {
+      sm.addExtract('Widget', 'name');
+      sm.addExtract('9.99', 'price');
+      sm.addExtract('in stock');
+      expect(sm.getExtractRecords()).toEqual([{ name: 'Widget', price: '9.99', EXTRACT1: 'in stock' }]);
+      expect(sm.getExtractFields()).toEqual(['name', 'price', 'EXTRACT1']);
+    });
+
+    it('starts a new record on each loop', () => {
+      sm.addExtract('a', 'name');
+      sm.resetForNextLoop();
+      sm.addExtract('b', 'name');
+      sm.addExtract('x');
+      expect(sm.getExtractRecords()).toEqual([{ name: 'a' }, { name: 'b', EXTRACT1: 'x' }]);
+      expect(sm.getExtractFields()).toEqual(['name', 'EXTRACT1']);
+    });
+
+    it('starts a new record when a field repeats', () => {
+      sm.addExtract('a', 'name');
+      sm.addExtract('b', 'name');
+      expect(sm.getExtractRecords()).toEqual([{ name: 'a' }, { name: 'b' }]);
+    });
+
+    it('keeps records when the extract data is cleared', () => {
+      sm.addExtract('a', 'name');
+      sm.clearExtract();
+      sm.addExtract('b', 'price');
+      expect(sm.getExtractData()).toEqual(['b']);
+      expect(sm.getExtractRecords()).toEqual([{ name: 'a' }, { price: 'b' }]);
+    });
+
+    it('takeNewExtractRecords returns each record once', () => {
+      sm.addExtract('a', 'name');
+      expect(sm.takeNewExtractRecords()).toEqual([{ name: 'a' }]);
+      sm.addExtract('b', 'name');
+      sm.addExtract('c', 'price');
+      expect(sm.takeNewExtractRecords()).toEqual([{ name: 'b', price: 'c' }]);
+      expect(sm.takeNewExtractRecords()).toEqual([]);
+      expect(sm.getExtractRecords()).toHaveLength(2);
+    });
+
+    it('getExtractRecords returns copies', () => {
+      sm.addExtract('a', 'name');
+      sm.getExtractRecords()[0].name = 'tampered';
+      expect(sm.getExtractRecords()).toEqual([{ name: 'a' }]);
+    });
+
+    it('survives serialization and is dropped by reset', () => {
+      sm.addExtract('a', 'name');
+      const restored = StateManager.deserialize(sm.serialize());
+      expect(restored.getExtractRecords()).toEqual([{ name: 'a' }]);
+      expect(restored.getExtractFields()).toEqual(['name']);
+
+      sm.resetForExecution();
+      expect(sm.getExtractRecords()).toEqual([]);
+      expect(sm.getExtractFields()).toEqual([]);
+    });
+  });
+
   // ===== Error Management =====
 
   describe('error management', () => {
@@ -12,6 +12,7 @@
  * - UI element binding and updates
  * - Elapsed time tracking
  * - Reset functionality
+ * - Per-tab progress of parallel playback (WORKER_PROGRESS)
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { JSDOM } from 'jsdom';
@@ -949,6 +950,65 @@ describe('StatusSync', () => {
     });
   });
 
+  // ===== Worker Progress (parallel playback) =====
+
+  describe('Worker Progress', () => {
+    function sendChromeMessage(message: any): void {
+      chromeMessageListenerRef.current?.(message, {}, () => {});
+    }
+
+    it('should list each tab and count rows across tabs', () => {
+      const workerList = document.createElement('div');
+      const loopCounter = document.createElement('span');
+      sync.bindUIElements({ workerList, loopCounter });
+
+      sendChromeMessage({
+        type: 'WORKER_PROGRESS',
+        payload: { worker: 2, status: 'running', row: 4, rowsCompleted: 1, totalRows: 6, currentLine: 3, totalLines: 5 },
+      });
+      sendChromeMessage({
+        type: 'WORKER_PROGRESS',
+        payload: { worker: 1, status: 'done', rowsCompleted: 3, totalRows: 6 },
+      });
+
+      expect(workerList.style.display).toBe('block');
+      expect(workerList.textContent).toBe('Tab 1: done, 3 row(s)\nTab 2: row 4, line 3/5');
+      expect(loopCounter.textContent).toBe('4/6');
+    });
+
+    it('should replace the previous update of the same tab', () => {
+      sendChromeMessage({ type: 'WORKER_PROGRESS', payload: { worker: 1, status: 'running', row: 1, rowsCompleted: 0, totalRows: 2 } });
+      sendChromeMessage({ type: 'WORKER_PROGRESS', payload: { worker: 1, status: 'running', row: 2, rowsCompleted: 1, totalRows: 2 } });
+
+      expect(sync.getState().workers).toEqual([
+        { worker: 1, status: 'running', row: 2, rowsCompleted: 1, totalRows: 2 },
+      ]);
+    });
+
+    it('should emit worker_progress and log row errors', () => {
+      const listener = vi.fn();
+      sync.addListener(listener);
+      sendChromeMessage({
+        type: 'WORKER_PROGRESS',
+        payload: { worker: 3, status: 'error', row: 7, rowsCompleted: 2, totalRows: 9, errorMessage: 'Element not found' },
+      });
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ type: 'worker_progress' }));
+      expect(sync.getLogs().at(-1)?.message).toBe('Tab 3, row 7: Element not found');
+    });
+
+    it('should hide the list after clearWorkers', () => {
+      const workerList = document.createElement('div');
+      sync.bindUIElements({ workerList });
+      sendChromeMessage({ type: 'WORKER_PROGRESS', payload: { worker: 1, status: 'stopped', rowsCompleted: 1, totalRows: 3 } });
+      expect(workerList.textContent).toBe('Tab 1: stopped after 1 row(s)');
+
+      sync.clearWorkers();
+      expect(workerList.style.display).toBe('none');
+      expect(sync.getState().workers).toEqual([]);
+    });
+  });
+
   // ===== UI Binding with null elements =====
 
   describe('UI Binding with null elements', () => {
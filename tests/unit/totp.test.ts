@@ -0,0 +1,179 @@
+/**
+ * TOTP Unit Tests
+ *
+ * Tests for shared/src/totp.ts and the {{!TOTP:name}} variable covering:
+ * - HMAC-SHA1/256/512 and the RFC 4226 / RFC 6238 test vectors
+ * - Base32 seeds and otpauth:// URIs (digits, period, algorithm)
+ * - Expanding {{!TOTP:name}} from the vault, masking and read-only access
+ * - Waiting for the next time window when the code is about to expire
+ */
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { createHmac } from 'crypto';
+import {
+  hmac,
+  decodeBase32,
+  parseTotpSeed,
+  parseTotpReference,
+  findTotpVariables,
+  generateHotp,
+  generateTotp,
+  getTotpTimeRemaining,
+  type TotpAlgorithm,
+  type TotpConfig,
+} from '@shared/totp';
+import { SECRET_MASK, resolveSecret, type SecretReference } from '@shared/secrets';
+import { VariableContext } from '@shared/variables';
+import { createExecutor, IMACROS_ERROR_CODES } from '@shared/executor';
+
+const ascii = (text: string) => new TextEncoder().encode(text);
+
+// RFC 6238 seeds: "12345678901234567890" repeated to the hash size
+const SEEDS: Record<TotpAlgorithm, Uint8Array> = {
+  SHA1: ascii('12345678901234567890'),
+  SHA256: ascii('12345678901234567890123456789012'),
+  SHA512: ascii('1234567890123456789012345678901234567890123456789012345678901234'),
+};
+
+const SEED_BASE32 = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+const VAULT: Record<string, string> = {
+  github: SEED_BASE32,
+  bank_login: JSON.stringify({ password: 'hunter2!', totp: `otpauth://totp/Bank:jane?secret=${SEED_BASE32}&digits=8` }),
+};
+
+const resolver = (reference: SecretReference) => resolveSecret(reference, name => VAULT[name] ?? null);
+
+const config = (algorithm: TotpAlgorithm): TotpConfig => ({ key: SEEDS[algorithm], digits: 8, period: 30, algorithm });
+
+describe('TOTP', () => {
+  it('should compute HMAC like node crypto for all algorithms and key sizes', () => {
+    for (const algorithm of ['SHA1', 'SHA256', 'SHA512'] as TotpAlgorithm[]) {
+      for (const keyLength of [0, 20, 64, 200]) {
+        const key = new Uint8Array(keyLength).map((_, i) => i * 7);
+        const message = ascii('x'.repeat(keyLength + 3));
+        const expected = createHmac(algorithm.replace('SHA', 'sha'), key).update(message).digest('hex');
+        expect(Buffer.from(hmac(algorithm, key, message)).toString('hex')).toBe(expected);
+      }
+    }
+  });
+
+  it('should match the RFC 4226 HOTP values', () => {
+    const codes = Array.from({ length: 10 }, (_, counter) => generateHotp(SEEDS.SHA1, counter));
+    expect(codes).toEqual([
+      '755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489',
+    ]);
+  });
+
+  it('should match the RFC 6238 TOTP values', () => {
+    const vectors: Array<[number, string, string, string]> = [
+      [59, '94287082', '46119246', '90693936'],
+      [1111111109, '07081804', '68084774', '25091201'],
+      [1111111111, '14050471', '67062674', '99943326'],
+      [1234567890, '89005924', '91819424', '93441116'],
+      [2000000000, '69279037', '90698825', '38618901'],
+      [20000000000, '65353130', '77737706', '47863826'],
+    ];
+    for (const [seconds, sha1, sha256, sha512] of vectors) {
+      expect(generateTotp(config('SHA1'), seconds * 1000)).toBe(sha1);
+      expect(generateTotp(config('SHA256'), seconds * 1000)).toBe(sha256);
+      expect(generateTotp(config('SHA512'), seconds * 1000)).toBe(sha512);
+    }
+  });
+
+  it('should decode base32 seeds', () => {
+    expect(decodeBase32(SEED_BASE32)).toEqual(SEEDS.SHA1);
+    expect(decodeBase32('gezd gnbv gy3t qojq gezd gnbv gy3t qojq')).toEqual(SEEDS.SHA1);
+    expect(() => decodeBase32('ABC1')).toThrow('Invalid base32 character in TOTP seed: 1');
+    expect(() => decodeBase32(' ')).toThrow('TOTP seed is empty');
+  });
+
+  it('should read settings from otpauth URIs', () => {
+    expect(parseTotpSeed(SEED_BASE32)).toEqual({ key: SEEDS.SHA1, digits: 6, period: 30, algorithm: 'SHA1' });
+    expect(parseTotpSeed(`otpauth://totp/Site:jane?secret=${SEED_BASE32}&digits=8&period=60&algorithm=sha256`))
+      .toEqual({ key: SEEDS.SHA1, digits: 8, period: 60, algorithm: 'SHA256' });
+
+    expect(() => parseTotpSeed(`otpauth://hotp/x?secret=${SEED_BASE32}`)).toThrow('Only otpauth://totp URIs');
+    expect(() => parseTotpSeed('otpauth://totp/x')).toThrow('otpauth URI has no secret');
+    expect(() => parseTotpSeed(`otpauth://totp/x?secret=${SEED_BASE32}&digits=4`)).toThrow('TOTP digits must be 6 to 8');
+    expect(() => parseTotpSeed(`otpauth://totp/x?secret=${SEED_BASE32}&algorithm=MD5`)).toThrow('TOTP algorithm must be');
+  });
+
+  it('should report the time left in the window', () => {
+    const totp = parseTotpSeed(SEED_BASE32);
+    expect(getTotpTimeRemaining(totp, 30_000)).toBe(30_000);
+    expect(getTotpTimeRemaining(totp, 59_250)).toBe(750);
+  });
+
+  it('should find TOTP references', () => {
+    expect(parseTotpReference('!TOTP:bank_login.totp')).toEqual({ name: 'bank_login', field: 'totp' });
+    expect(findTotpVariables('CONTENT={{!TOTP:github}}{{!VAR1}}{{ !totp:bank_login.totp }}'))
+      .toEqual(['!TOTP:github', '!totp:bank_login.totp']);
+  });
+});
+
+describe('{{!TOTP:...}} variables', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should generate the current code from the vault and mask it in command text only', () => {
+    vi.useFakeTimers({ now: 59_000 });
+    const variables = new VariableContext();
+    variables.setSecretResolver(resolver);
+
+    expect(variables.get('!TOTP:github')).toBe('287082');
+    expect(variables.get('!TOTP:bank_login.totp')).toBe('94287082');
+    expect(variables.maskSecrets(`code 287082 seed ${SEED_BASE32}`, true)).toBe(`code ${SECRET_MASK} seed ${SECRET_MASK}`);
+    // Extracts keep the digits: a short-lived code often matches other page text
+    expect(variables.maskSecrets(`code 287082 seed ${SEED_BASE32}`)).toBe(`code 287082 seed ${SECRET_MASK}`);
+
+    // Only the latest code of each seed is kept
+    vi.setSystemTime(60_000);
+    const next = variables.get('!TOTP:github');
+    expect(variables.maskSecrets(`287082 ${next}`, true)).toBe(`287082 ${SECRET_MASK}`);
+    expect(variables.set('!TOTP:github', '1')).toMatchObject({ success: false });
+    expect(() => new VariableContext().get('!TOTP:github')).toThrow('No credential vault available');
+  });
+
+  it('should wait for the next window when the code is about to expire', async () => {
+    vi.useFakeTimers({ now: 59_000 });
+    const typed: string[] = [];
+    const logs: string[] = [];
+    const executor = createExecutor({ secretResolver: resolver, onLog: (_level, message) => logs.push(message) });
+    executor.registerHandler('TAG', async (ctx) => {
+      typed.push(ctx.expand(ctx.getParam('CONTENT') ?? ''));
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+    executor.loadMacro('TAG POS=1 TYPE=INPUT ATTR=NAME:otp CONTENT={{!TOTP:github}}');
+
+    const run = executor.execute();
+    await vi.runAllTimersAsync();
+    const result = await run;
+
+    expect(result.success).toBe(true);
+    // 59s is in the window of counter 1; the code of counter 2 (60s) is used
+    expect(typed).toEqual([generateHotp(SEEDS.SHA1, 2)]);
+    expect(logs).toContain('Waiting 1.0s for the next TOTP code');
+    expect(logs.join('\n')).not.toContain(typed[0]);
+  });
+
+  it('should not wait when !TOTP_MIN_VALIDITY is 0', async () => {
+    vi.useFakeTimers({ now: 59_000 });
+    const typed: string[] = [];
+    const executor = createExecutor({ secretResolver: resolver });
+    executor.registerHandler('TAG', async (ctx) => {
+      typed.push(ctx.expand(ctx.getParam('CONTENT') ?? ''));
+      return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+    });
+    executor.loadMacro([
+      'SET !TOTP_MIN_VALIDITY 0',
+      'TAG POS=1 TYPE=INPUT ATTR=NAME:otp CONTENT={{!TOTP:github}}',
+    ].join('\n'));
+
+    const run = executor.execute();
+    await vi.runAllTimersAsync();
+    await run;
+
+    expect(typed).toEqual(['287082']);
+  });
+});
@@ -1640,6 +1640,50 @@ describe('Variable System Unit Tests', () => {
     });
   });
 
+  describe('Named !COL:name columns', () => {
+    const rows = [
+      ['alice', 'alice@example.com'],
+      ['bob', 'bob@example.com'],
+    ];
+
+    it('should resolve {{!COL:name}} against the datasource headers', () => {
+      ctx.setDatasourceRows(rows, ['name', 'email']);
+
+      expect(ctx.expand('{{!COL:email}}').expanded).toBe('alice@example.com');
+      ctx.setDatasourceLine(2);
+      expect(ctx.expand('{{!COL:name}} <{{!COL:email}}>').expanded).toBe('bob <bob@example.com>');
+    });
+
+    it('should match header names case-insensitively', () => {
+      ctx.setDatasourceRows(rows, ['Name', 'Email']);
+      expect(ctx.get('!COL:EMAIL')).toBe('alice@example.com');
+    });
+
+    it('should return null for unknown columns or without headers', () => {
+      ctx.setDatasourceRows(rows, ['name', 'email']);
+      expect(ctx.get('!COL:phone')).toBeNull();
+
+      ctx.setDatasourceRows(rows);
+      expect(ctx.get('!COL:email')).toBeNull();
+    });
+
+    it('should keep !COLn addressing alongside named columns', () => {
+      ctx.setDatasourceRows(rows, ['name', 'email']);
+      expect(ctx.get('!COL2')).toBe('alice@example.com');
+    });
+
+    it('should report header names in !DATASOURCE_COLUMNS', () => {
+      ctx.setDatasourceRows(rows, ['name', 'email']);
+      expect(ctx.get('!DATASOURCE_COLUMNS')).toBe('name,email');
+      expect(ctx.getDatasourceHeaders()).toEqual(['name', 'email']);
+    });
+
+    it('should preserve headers on clone', () => {
+      ctx.setDatasourceRows(rows, ['name', 'email']);
+      expect(ctx.clone().get('!COL:name')).toBe('alice');
+    });
+  });
+
   describe('YES/NO variable validation', () => {
     describe('!ERRORIGNORE', () => {
       it('should accept YES and NO (case insensitive)', () => {
@@ -0,0 +1,213 @@
+/**
+ * Unit Tests for the panel's Credential Vault manager
+ *
+ * Tests cover:
+ * - Parsing field=value lines and expiry dates
+ * - Entry summaries and the {{!SECRET:...}} usage hint
+ * - Unlocking, adding, rotating, changing the expiry and deleting entries
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+
+// Setup DOM environment before imports
+const dom = new JSDOM('<!DOCTYPE html><html><body></body></html>');
+const { window } = dom;
+
+(globalThis as any).document = window.document;
+(globalThis as any).window = window;
+(globalThis as any).HTMLElement = window.HTMLElement;
+
+import {
+  parseVaultFields,
+  parseExpiryDate,
+  formatVaultEntry,
+  getSecretUsage,
+  renderVaultEntries,
+  initVaultManager,
+  type VaultManagerOptions,
+} from '../../extension/src/panel/vault-manager';
+import type { VaultEntryInfo } from '@shared/secrets';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const ENTRY: VaultEntryInfo = {
+  name: 'bank_login',
+  fields: ['username', 'password'],
+  createdAt: Date.UTC(2026, 0, 10),
+  rotatedAt: 0,
+  expiresAt: 0,
+};
+
+const value = (id: string) => (document.getElementById(id) as HTMLInputElement).value;
+const setValue = (id: string, text: string) => {
+  (document.getElementById(id) as HTMLInputElement).value = text;
+};
+
+describe('Vault manager', () => {
+  let options: VaultManagerOptions;
+  let sendToBackground: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    document.body.innerHTML = `
+      <button id="btn-vault"></button>
+      <div id="vault-manager" class="hidden">
+        <button id="vault-lock" class="hidden"></button>
+        <button id="vault-close"></button>
+        <div id="vault-unlock-form">
+          <input id="vault-password">
+          <button id="vault-unlock"></button>
+        </div>
+        <div id="vault-entry-form" class="hidden">
+          <input id="vault-entry-name">
+          <textarea id="vault-entry-fields"></textarea>
+          <input id="vault-entry-expires">
+          <button id="vault-save"></button>
+        </div>
+        <div id="vault-message"></div>
+        <div id="vault-list"></div>
+      </div>
+    `;
+    sendToBackground = vi.fn().mockResolvedValue({ success: true, initialized: true, unlocked: true, entries: [] });
+    options = { sendToBackground };
+  });
+
+  describe('parseVaultFields', () => {
+    it('should parse field=value lines and keep = in values', () => {
+      expect(parseVaultFields('username=jane\npassword=a=b\n\n')).toEqual({ username: 'jane', password: 'a=b' });
+    });
+
+    it('should treat a single line without a field name as the value', () => {
+      expect(parseVaultFields('tok-123')).toEqual({ value: 'tok-123' });
+      expect(parseVaultFields('otpauth://totp/Site:jane?secret=JBSWY3DP&digits=8')).toEqual({
+        value: 'otpauth://totp/Site:jane?secret=JBSWY3DP&digits=8',
+      });
+    });
+
+    it('should skip empty fields and reject lines without a field name', () => {
+      expect(parseVaultFields('username=\npassword=')).toEqual({});
+      expect(() => parseVaultFields('user=jane\nsecret')).toThrow('Expected field=value');
+    });
+  });
+
+  describe('formatting', () => {
+    it('should parse expiry dates as the end of the day', () => {
+      expect(parseExpiryDate('')).toBe(0);
+      expect(new Date(parseExpiryDate('2026-03-01')).getHours()).toBe(23);
+    });
+
+    it('should summarize fields, rotation and expiry', () => {
+      const now = ENTRY.createdAt + DAY;
+      expect(formatVaultEntry(ENTRY, now)).toMatch(/^username, password · added /);
+      expect(formatVaultEntry({ ...ENTRY, fields: [], rotatedAt: now }, now)).toMatch(/^value · rotated /);
+      expect(formatVaultEntry({ ...ENTRY, expiresAt: now - 1 }, now)).toMatch(/ · expired$/);
+      expect(formatVaultEntry({ ...ENTRY, expiresAt: now + DAY }, now)).toMatch(/ · expires /);
+    });
+
+    it('should show how macros use an entry', () => {
+      expect(getSecretUsage(ENTRY)).toBe('{{!SECRET:bank_login.username}}');
+      expect(getSecretUsage({ ...ENTRY, fields: [] })).toBe('{{!SECRET:bank_login}}');
+    });
+  });
+
+  describe('renderVaultEntries', () => {
+    it('should list entries and mark expired ones', () => {
+      renderVaultEntries([ENTRY, { ...ENTRY, name: 'old', expiresAt: 1 }], options);
+
+      const items = document.querySelectorAll('#vault-list .schedule-item');
+      expect(items).toHaveLength(2);
+      expect(items[0].textContent).toContain('{{!SECRET:bank_login.username}}');
+      expect(items[0].classList.contains('error')).toBe(false);
+      expect(items[1].classList.contains('error')).toBe(true);
+    });
+
+    it('should put an entry into the form for rotation', () => {
+      renderVaultEntries([{ ...ENTRY, expiresAt: new Date(2026, 5, 30, 23, 59, 59).getTime() }], options);
+
+      document.querySelector<HTMLButtonElement>('#vault-list button')!.click();
+
+      expect(value('vault-entry-name')).toBe('bank_login');
+      expect(value('vault-entry-fields')).toBe('username=\npassword=');
+      expect(value('vault-entry-expires')).toBe('2026-06-30');
+    });
+
+    it('should delete an entry after confirmation', async () => {
+      (window as any).confirm = vi.fn(() => true);
+      renderVaultEntries([ENTRY], options);
+
+      document.querySelectorAll<HTMLButtonElement>('#vault-list button')[1].click();
+
+      await vi.waitFor(() => expect(sendToBackground).toHaveBeenCalledWith('VAULT_LIST'));
+      expect(sendToBackground).toHaveBeenCalledWith('VAULT_DELETE', { name: 'bank_login' });
+    });
+  });
+
+  describe('initVaultManager', () => {
+    it('should open locked and unlock with the master password', async () => {
+      sendToBackground.mockResolvedValueOnce({ success: true, initialized: false, unlocked: false, entries: [ENTRY] });
+      initVaultManager(options);
+
+      document.getElementById('btn-vault')!.click();
+
+      expect(document.getElementById('vault-manager')!.classList.contains('hidden')).toBe(false);
+      await vi.waitFor(() => expect(document.getElementById('vault-unlock')!.textContent).toBe('Create Vault'));
+      expect(document.getElementById('vault-entry-form')!.classList.contains('hidden')).toBe(true);
+
+      setValue('vault-password', 'master');
+      document.getElementById('vault-unlock')!.click();
+
+      await vi.waitFor(() => expect(document.getElementById('vault-entry-form')!.classList.contains('hidden')).toBe(false));
+      expect(sendToBackground).toHaveBeenCalledWith('VAULT_UNLOCK', { password: 'master' });
+      expect(value('vault-password')).toBe('');
+    });
+
+    it('should show unlock errors', async () => {
+      sendToBackground.mockResolvedValueOnce({ success: false, error: 'Invalid master password' });
+      initVaultManager(options);
+
+      setValue('vault-password', 'wrong');
+      document.getElementById('vault-unlock')!.click();
+
+      await vi.waitFor(() => expect(document.getElementById('vault-message')!.textContent).toBe('Invalid master password'));
+      expect(document.getElementById('vault-message')!.classList.contains('error')).toBe(true);
+    });
+
+    it('should save an entry with its expiry and clear the values', async () => {
+      sendToBackground.mockResolvedValueOnce({ success: true, rotated: false });
+      initVaultManager(options);
+
+      setValue('vault-entry-name', 'bank_login');
+      setValue('vault-entry-fields', 'username=jane\npassword=hunter2!');
+      setValue('vault-entry-expires', '2026-12-31');
+      document.getElementById('vault-save')!.click();
+
+      await vi.waitFor(() => expect(document.getElementById('vault-message')!.textContent).toBe('Added bank_login'));
+      expect(sendToBackground).toHaveBeenCalledWith('VAULT_SAVE', {
+        name: 'bank_login',
+        fields: { username: 'jane', password: 'hunter2!' },
+        expiresAt: parseExpiryDate('2026-12-31'),
+      });
+      expect(value('vault-entry-fields')).toBe('');
+    });
+
+    it('should only change the expiry when no values are entered', async () => {
+      sendToBackground.mockResolvedValueOnce({ success: true });
+      initVaultManager(options);
+
+      setValue('vault-entry-name', 'bank_login');
+      setValue('vault-entry-fields', 'username=\npassword=');
+      document.getElementById('vault-save')!.click();
+
+      await vi.waitFor(() => expect(document.getElementById('vault-message')!.textContent).toBe('Expiry of bank_login updated'));
+      expect(sendToBackground).toHaveBeenCalledWith('VAULT_SET_EXPIRY', { name: 'bank_login', expiresAt: 0 });
+    });
+
+    it('should lock the vault', async () => {
+      initVaultManager(options);
+
+      document.getElementById('vault-lock')!.click();
+
+      await vi.waitFor(() => expect(sendToBackground).toHaveBeenCalledWith('VAULT_LIST'));
+      expect(sendToBackground).toHaveBeenCalledWith('VAULT_LOCK');
+    });
+  });
+});
@@ -8,7 +8,11 @@
  * - Proxy backup/restore (direct, system, http, socks4, socks5, https, per-protocol, bypass)
  * - handleAuthRequired FIFO credential consumption via captured listener
  * - Error handling paths (chrome.runtime.lastError, API unavailability)
+ * - URL and resource block rules (dynamic rule ID allocation)
  * - handleLoginConfig / handleSetFilter message handlers
+ * - Network capture (webRequest recording, query, wait, HAR)
+ * - Request header rules (session modifyHeaders rules for HEADER and !USERAGENT)
+ * - Mocked responses (chrome.debugger Fetch interception for MOCK)
  * - initWebRequestHandlers initialization
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
@@ -17,22 +21,45 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 const mockAddListener = vi.fn();
 const mockUpdateDynamicRules = vi.fn().mockResolvedValue(undefined);
 const mockGetDynamicRules = vi.fn().mockResolvedValue([]);
+const mockUpdateSessionRules = vi.fn().mockResolvedValue(undefined);
+const mockGetSessionRules = vi.fn().mockResolvedValue([]);
 const mockContentSettingsPopupsGet = vi.fn();
 const mockContentSettingsPopupsSet = vi.fn();
 const mockContentSettingsPopupsClear = vi.fn();
 const mockProxySettingsGet = vi.fn();
 const mockProxySettingsSet = vi.fn();
 const mockProxySettingsClear = vi.fn();
+const mockOnBeforeRequest = vi.fn();
+const mockOnSendHeaders = vi.fn();
+const mockOnHeadersReceived = vi.fn();
+const mockOnCompleted = vi.fn();
+const mockOnErrorOccurred = vi.fn();
+const mockDebuggerAttach = vi.fn().mockResolvedValue(undefined);
+const mockDebuggerDetach = vi.fn().mockResolvedValue(undefined);
+const mockDebuggerSendCommand = vi.fn().mockResolvedValue(undefined);
+const mockDebuggerOnEvent = vi.fn();
+const mockDebuggerOnDetach = vi.fn();
+const mockTabsQuery = vi.fn().mockResolvedValue([]);
+const mockTabsOnCreated = vi.fn();
+const isRegistered = (addListener: ReturnType<typeof vi.fn>, fn: unknown) =>
+  addListener.mock.calls.some(([listener]) => listener === fn);
 
 (globalThis as any).chrome = {
   webRequest: {
     onAuthRequired: {
       addListener: mockAddListener,
     },
+    onBeforeRequest: { addListener: mockOnBeforeRequest },
+    onSendHeaders: { addListener: mockOnSendHeaders },
+    onHeadersReceived: { addListener: mockOnHeadersReceived },
+    onCompleted: { addListener: mockOnCompleted },
+    onErrorOccurred: { addListener: mockOnErrorOccurred },
   },
   declarativeNetRequest: {
     updateDynamicRules: mockUpdateDynamicRules,
     getDynamicRules: mockGetDynamicRules,
+    updateSessionRules: mockUpdateSessionRules,
+    getSessionRules: mockGetSessionRules,
   },
   contentSettings: {
     popups: {
@@ -48,6 +75,17 @@ const mockProxySettingsClear = vi.fn();
       clear: mockProxySettingsClear,
     },
   },
+  debugger: {
+    attach: mockDebuggerAttach,
+    detach: mockDebuggerDetach,
+    sendCommand: mockDebuggerSendCommand,
+    onEvent: { addListener: mockDebuggerOnEvent, hasListener: (fn: unknown) => isRegistered(mockDebuggerOnEvent, fn) },
+    onDetach: { addListener: mockDebuggerOnDetach, hasListener: (fn: unknown) => isRegistered(mockDebuggerOnDetach, fn) },
+  },
+  tabs: {
+    query: mockTabsQuery,
+    onCreated: { addListener: mockTabsOnCreated, hasListener: (fn: unknown) => isRegistered(mockTabsOnCreated, fn) },
+  },
   runtime: {
     lastError: null as { message: string } | null,
   },
@@ -68,6 +106,14 @@ import {
   handleRestorePopupSettings,
   handleSetProxy,
   handleRestoreProxy,
+  handleNetCapture,
+  getCapturedRequests,
+  initNetCaptureListeners,
+  handleSetHeader,
+  getHeaderRules,
+  initHeaderRules,
+  handleMock,
+  initMockListeners,
   initWebRequestHandlers,
 } from '@extension/background/web-request-handlers';
 
@@ -112,6 +158,10 @@ describe('Web Request Handlers', () => {
     vi.clearAllMocks();
     clearAuthCredentials();
     await disableAllFilters();
+    await handleSetHeader({ action: 'off' });
+    mockUpdateSessionRules.mockClear();
+    await handleMock({ action: 'clear' });
+    mockDebuggerDetach.mockClear();
     chrome.runtime.lastError = null;
 
     // Reset popup saved state: mock callbacks so restorePopupSettings can run
@@ -424,6 +474,106 @@ describe('Web Request Handlers', () => {
     });
   });
 
+  // =========================================================================
+  // URL and Resource Block Rules
+  // =========================================================================
+
+  describe('URL and resource block rules', () => {
+    function lastUpdate(): any {
+      const calls = mockUpdateDynamicRules.mock.calls;
+      return calls[calls.length - 1][0];
+    }
+
+    it('should not count a rule Chrome rejected as active', async () => {
+      mockUpdateDynamicRules.mockRejectedValueOnce(new Error('Invalid urlFilter'));
+      await expect(setFilter('URL', 'ON', { urlPattern: '|bad' })).rejects.toThrow('Invalid urlFilter');
+      expect(getFilterState().urlPatterns).toEqual([]);
+
+      await setFilter('URL', 'ON', { urlPattern: '|bad' });
+      expect(lastUpdate().addRules).toHaveLength(1);
+      expect(getFilterState().urlPatterns).toEqual(['|bad']);
+    });
+
+    it('should keep a rule whose removal Chrome rejected', async () => {
+      await setFilter('URL', 'ON', { urlPattern: '*ads*' });
+      mockUpdateDynamicRules.mockRejectedValueOnce(new Error('Rule update failed'));
+      await expect(setFilter('URL', 'OFF', { urlPattern: '*ads*' })).rejects.toThrow('Rule update failed');
+      expect(getFilterState().urlPatterns).toEqual(['*ads*']);
+    });
+
+    it('should add a urlFilter block rule from the dynamic ID range', async () => {
+      await setFilter('URL', 'ON', { urlPattern: '*analytics*' });
+      expect(lastUpdate()).toEqual({
+        removeRuleIds: [],
+        addRules: [{
+          id: 10000,
+          priority: 1,
+          action: { type: 'block' },
+          condition: { urlFilter: '*analytics*' },
+        }],
+      });
+      expect(getFilterState().urlPatterns).toEqual(['*analytics*']);
+    });
+
+    it('should add one resourceTypes rule per kind', async () => {
+      await setFilter('RESOURCE', 'ON', { resourceTypes: ['script', 'font'] });
+      const added = lastUpdate().addRules;
+      expect(added.map((r: any) => [r.id, r.condition.resourceTypes])).toEqual([
+        [10000, ['script']],
+        [10001, ['font']],
+      ]);
+      expect(getFilterState().resourceTypes).toEqual(['script', 'font']);
+    });
+
+    it('should not add a rule twice for the same pattern', async () => {
+      await setFilter('URL', 'ON', { urlPattern: '*ads*' });
+      mockUpdateDynamicRules.mockClear();
+      await setFilter('URL', 'ON', { urlPattern: '*ads*' });
+      expect(mockUpdateDynamicRules).not.toHaveBeenCalled();
+    });
+
+    it('should reuse the lowest freed rule ID', async () => {
+      await setFilter('URL', 'ON', { urlPattern: '*a*' });
+      await setFilter('URL', 'ON', { urlPattern: '*b*' });
+      await setFilter('URL', 'OFF', { urlPattern: '*a*' });
+      expect(lastUpdate()).toEqual({ removeRuleIds: [10000], addRules: [] });
+
+      await setFilter('RESOURCE', 'ON', { resourceTypes: ['xmlhttprequest'] });
+      expect(lastUpdate().addRules[0].id).toBe(10000);
+    });
+
+    it('should remove every rule of a type when OFF has no target', async () => {
+      await setFilter('URL', 'ON', { urlPattern: '*a*' });
+      await setFilter('URL', 'ON', { urlPattern: '*b*' });
+      await setFilter('RESOURCE', 'ON', { resourceTypes: ['font'] });
+      await setFilter('URL', 'OFF');
+      expect(lastUpdate().removeRuleIds).toEqual([10000, 10001]);
+      expect(getFilterState().urlPatterns).toEqual([]);
+      expect(getFilterState().resourceTypes).toEqual(['font']);
+    });
+
+    it('should remove URL and resource rules in disableAllFilters', async () => {
+      await setFilter('URL', 'ON', { urlPattern: '*a*' });
+      await setFilter('RESOURCE', 'ON', { resourceTypes: ['script'] });
+      mockUpdateDynamicRules.mockClear();
+      await disableAllFilters();
+      const removed = mockUpdateDynamicRules.mock.calls.flatMap(c => c[0].removeRuleIds || []);
+      expect(removed).toEqual(expect.arrayContaining([10000, 10001]));
+      expect(getFilterState().urlPatterns).toEqual([]);
+      expect(getFilterState().resourceTypes).toEqual([]);
+    });
+
+    it('should pass the pattern and kinds through handleSetFilter', async () => {
+      const result = await handleSetFilter({
+        filterType: 'RESOURCE',
+        status: 'ON',
+        resourceTypes: ['image'],
+      });
+      expect(result.success).toBe(true);
+      expect(getFilterState().resourceTypes).toEqual(['image']);
+    });
+  });
+
   // =========================================================================
   // Init Filter Rules
   // =========================================================================
@@ -447,6 +597,17 @@ describe('Web Request Handlers', () => {
       expect(mockUpdateDynamicRules).not.toHaveBeenCalled();
     });
 
+    it('should remove leftover URL and resource block rules', async () => {
+      mockGetDynamicRules.mockResolvedValue([
+        { id: 10000 },
+        { id: 10042 },
+      ]);
+      await initFilterRules();
+      expect(mockUpdateDynamicRules).toHaveBeenCalledWith({
+        removeRuleIds: [10000, 10042],
+      });
+    });
+
     it('should only remove our rule IDs, not foreign ones', async () => {
       mockGetDynamicRules.mockResolvedValue([
         { id: 1000 },
@@ -1134,15 +1295,374 @@ describe('Web Request Handlers', () => {
     });
   });
 
+  // =========================================================================
+  // NETCAPTURE
+  // =========================================================================
+
+  describe('Network capture', () => {
+    /** Register the capture listeners and return them by event name */
+    function captureListeners() {
+      initNetCaptureListeners();
+      return {
+        beforeRequest: mockOnBeforeRequest.mock.calls[0][0] as Function,
+        sendHeaders: mockOnSendHeaders.mock.calls[0][0] as Function,
+        headersReceived: mockOnHeadersReceived.mock.calls[0][0] as Function,
+        completed: mockOnCompleted.mock.calls[0][0] as Function,
+        errorOccurred: mockOnErrorOccurred.mock.calls[0][0] as Function,
+      };
+    }
+
+    /** Simulate a request that completes with the given status */
+    function simulateRequest(
+      listeners: ReturnType<typeof captureListeners>,
+      requestId: string,
+      url: string,
+      statusCode = 200,
+      tabId = 1,
+    ) {
+      listeners.beforeRequest({ requestId, url, method: 'GET', type: 'xmlhttprequest', tabId, timeStamp: 1000 });
+      listeners.sendHeaders({ requestId, requestHeaders: [{ name: 'Accept', value: '*/*' }] });
+      listeners.headersReceived({
+        requestId, statusCode, statusLine: `HTTP/1.1 ${statusCode} OK`, timeStamp: 1030,
+        responseHeaders: [{ name: 'Content-Type', value: 'application/json' }],
+      });
+      listeners.completed({
+        requestId, statusCode, statusLine: `HTTP/1.1 ${statusCode} OK`, timeStamp: 1080,
+        fromCache: false, ip: '10.0.0.1',
+        responseHeaders: [{ name: 'Content-Type', value: 'application/json' }],
+      });
+    }
+
+    beforeEach(async () => {
+      await handleNetCapture({ action: 'stop' });
+    });
+
+    it('should register the webRequest listeners with header access', () => {
+      initNetCaptureListeners();
+      expect(mockOnSendHeaders).toHaveBeenCalledWith(expect.any(Function), { urls: ['<all_urls>'] }, ['requestHeaders']);
+      expect(mockOnHeadersReceived).toHaveBeenCalledWith(expect.any(Function), { urls: ['<all_urls>'] }, ['responseHeaders']);
+      expect(mockOnCompleted).toHaveBeenCalledWith(expect.any(Function), { urls: ['<all_urls>'] }, ['responseHeaders']);
+    });
+
+    it('should not throw when the listeners are unavailable', () => {
+      const original = chrome.webRequest;
+      (chrome as any).webRequest = { onAuthRequired: original.onAuthRequired };
+      expect(() => initNetCaptureListeners()).not.toThrow();
+      (chrome as any).webRequest = original;
+    });
+
+    it('should record requests only while a capture is running', async () => {
+      const listeners = captureListeners();
+      simulateRequest(listeners, 'before', 'https://example.com/early');
+      await handleNetCapture({ action: 'start' });
+      simulateRequest(listeners, '1', 'https://example.com/api/items');
+      await handleNetCapture({ action: 'stop' });
+      simulateRequest(listeners, 'after', 'https://example.com/late');
+
+      expect(getCapturedRequests().map(r => r.id)).toEqual(['1']);
+      expect(getCapturedRequests()[0]).toMatchObject({
+        url: 'https://example.com/api/items',
+        method: 'GET',
+        status: 200,
+        requestHeaders: [{ name: 'Accept', value: '*/*' }],
+        responseHeaders: [{ name: 'Content-Type', value: 'application/json' }],
+        startTime: 1000,
+        responseStartTime: 1030,
+        endTime: 1080,
+        serverIp: '10.0.0.1',
+      });
+    });
+
+    it('should skip requests from outside tabs and URLs outside the START pattern', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start', urlPattern: '*/api/*' });
+      simulateRequest(listeners, '1', 'https://example.com/api/items');
+      simulateRequest(listeners, '2', 'https://example.com/logo.png');
+      simulateRequest(listeners, '3', 'https://example.com/api/background', 200, -1);
+
+      expect(getCapturedRequests().map(r => r.id)).toEqual(['1']);
+    });
+
+    it('should keep a redirect hop as its own request', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start' });
+      listeners.beforeRequest({ requestId: '9', url: 'http://example.com/', method: 'GET', type: 'main_frame', tabId: 1, timeStamp: 1 });
+      simulateRequest(listeners, '9', 'https://example.com/');
+
+      expect(getCapturedRequests().map(r => [r.url, r.endTime])).toEqual([
+        ['http://example.com/', 1000],
+        ['https://example.com/', 1080],
+      ]);
+    });
+
+    it('should record failed requests', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start' });
+      listeners.beforeRequest({ requestId: '5', url: 'https://down.example/', method: 'GET', type: 'main_frame', tabId: 1, timeStamp: 10 });
+      listeners.errorOccurred({ requestId: '5', error: 'net::ERR_NAME_NOT_RESOLVED', timeStamp: 20 });
+
+      expect(getCapturedRequests()[0]).toMatchObject({ error: 'net::ERR_NAME_NOT_RESOLVED', endTime: 20 });
+    });
+
+    it('should answer query with the matching requests', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start' });
+      simulateRequest(listeners, '1', 'https://example.com/api/a');
+      simulateRequest(listeners, '2', 'https://example.com/page');
+
+      const result = await handleNetCapture({ action: 'query', urlPattern: '*/api/*' });
+      expect(result.success).toBe(true);
+      expect(result.data?.requests?.map(r => r.id)).toEqual(['1']);
+    });
+
+    it('should return a finished request to wait once', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start' });
+      simulateRequest(listeners, '1', 'https://example.com/api/a');
+
+      const first = await handleNetCapture({ action: 'wait', urlPattern: '*/api/*', timeoutMs: 20 });
+      const second = await handleNetCapture({ action: 'wait', urlPattern: '*/api/*', timeoutMs: 20 });
+
+      expect(first.data?.requests?.map(r => r.id)).toEqual(['1']);
+      expect(second).toEqual({ success: true, data: { requests: [] } });
+    });
+
+    it('should resolve a wait when a matching request finishes later', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start' });
+
+      const waiting = handleNetCapture({ action: 'wait', urlPattern: '*/api/*', timeoutMs: 5000 });
+      simulateRequest(listeners, '1', 'https://example.com/other');
+      simulateRequest(listeners, '2', 'https://example.com/api/b', 201);
+
+      const result = await waiting;
+      expect(result.data?.requests?.[0]).toMatchObject({ id: '2', status: 201 });
+    });
+
+    it('should refuse to wait without a running capture', async () => {
+      const result = await handleNetCapture({ action: 'wait', urlPattern: '*', timeoutMs: 20 });
+      expect(result).toEqual({ success: false, error: 'WAIT FOR=REQUEST needs a running NETCAPTURE START' });
+    });
+
+    it('should build a HAR from the capture', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start' });
+      simulateRequest(listeners, '1', 'https://example.com/api/a');
+
+      const result = await handleNetCapture({ action: 'har' });
+      expect(result.data?.har?.log.entries).toHaveLength(1);
+      expect(result.data?.har?.log.entries[0]).toMatchObject({
+        time: 80,
+        request: { method: 'GET', url: 'https://example.com/api/a' },
+        response: { status: 200, statusText: 'OK', httpVersion: 'HTTP/1.1' },
+        timings: { wait: 30, receive: 50 },
+      });
+    });
+
+    it('should clear the previous capture on start', async () => {
+      const listeners = captureListeners();
+      await handleNetCapture({ action: 'start' });
+      simulateRequest(listeners, '1', 'https://example.com/a');
+      await handleNetCapture({ action: 'start' });
+
+      expect(getCapturedRequests()).toEqual([]);
+    });
+  });
+
+  // =========================================================================
+  // Request header rules
+  // =========================================================================
+
+  describe('Request header rules', () => {
+    function lastSessionUpdate(): any {
+      const calls = mockUpdateSessionRules.mock.calls;
+      return calls[calls.length - 1][0];
+    }
+
+    it('should add a modifyHeaders session rule that also covers main_frame', async () => {
+      const result = await handleSetHeader({ action: 'set', name: 'X-Test', value: 'abc' });
+      expect(result.success).toBe(true);
+
+      const { removeRuleIds, addRules } = lastSessionUpdate();
+      expect(removeRuleIds).toEqual([]);
+      expect(addRules).toHaveLength(1);
+      expect(addRules[0]).toMatchObject({
+        id: 20000,
+        priority: 1,
+        action: {
+          type: 'modifyHeaders',
+          requestHeaders: [{ header: 'X-Test', operation: 'set', value: 'abc' }],
+        },
+      });
+      expect(addRules[0].condition.resourceTypes).toContain('main_frame');
+      expect(addRules[0].condition.requestDomains).toBeUndefined();
+    });
+
+    it('should limit domain rules to the request domains with a higher priority', async () => {
+      await handleSetHeader({ action: 'strip', name: 'Referer', domains: ['example.com'] });
+      const rule = lastSessionUpdate().addRules[0];
+      expect(rule.priority).toBe(2);
+      expect(rule.condition.requestDomains).toEqual(['example.com']);
+      expect(rule.action.requestHeaders).toEqual([{ header: 'Referer', operation: 'remove' }]);
+    });
+
+    it('should replace the rule when the same header is set again', async () => {
+      await handleSetHeader({ action: 'set', name: 'X-Test', value: '1' });
+      await handleSetHeader({ action: 'set', name: 'x-test', value: '2' });
+      const { removeRuleIds, addRules } = lastSessionUpdate();
+      expect(removeRuleIds).toEqual([20000]);
+      expect(addRules[0].id).toBe(20000);
+      expect(getHeaderRules()).toHaveLength(1);
+    });
+
+    it('should remove every rule for a name, or every rule without a name', async () => {
+      await handleSetHeader({ action: 'set', name: 'X-A', value: '1' });
+      await handleSetHeader({ action: 'set', name: 'X-A', value: '2', domains: ['a.test'] });
+      await handleSetHeader({ action: 'set', name: 'User-Agent', value: 'bot' });
+
+      await handleSetHeader({ action: 'off', name: 'X-A' });
+      expect(lastSessionUpdate().removeRuleIds).toEqual([20000, 20001]);
+      expect(getHeaderRules().map(r => r.name)).toEqual(['User-Agent']);
+
+      await handleSetHeader({ action: 'off' });
+      expect(lastSessionUpdate().removeRuleIds).toEqual([20002]);
+      expect(getHeaderRules()).toEqual([]);
+    });
+
+    it('should keep its rule list unchanged when the update fails', async () => {
+      mockUpdateSessionRules.mockRejectedValueOnce(new Error('Invalid header'));
+      const result = await handleSetHeader({ action: 'set', name: 'X-Test', value: '1' });
+      expect(result).toEqual({ success: false, error: 'Invalid header' });
+      expect(getHeaderRules()).toEqual([]);
+    });
+
+    it('should require a name to set a header', async () => {
+      const result = await handleSetHeader({ action: 'set', value: '1' });
+      expect(result.success).toBe(false);
+      expect(mockUpdateSessionRules).not.toHaveBeenCalled();
+    });
+
+    it('should remove leftover header rules on init', async () => {
+      mockGetSessionRules.mockResolvedValueOnce([{ id: 500 }, { id: 20000 }, { id: 20003 }]);
+      await initHeaderRules();
+      expect(mockUpdateSessionRules).toHaveBeenCalledWith({ removeRuleIds: [20000, 20003] });
+    });
+  });
+
+  // =========================================================================
+  // Mocked responses
+  // =========================================================================
+
+  describe('Mocked responses', () => {
+    const spec = {
+      urlPattern: '*/api/rates*',
+      status: 200,
+      headers: [{ name: 'Content-Type', value: 'application/json' }],
+      body: btoa('{"rate":1}'),
+    };
+
+    function requestPausedListener(): Function {
+      initMockListeners();
+      return mockDebuggerOnEvent.mock.calls[mockDebuggerOnEvent.mock.calls.length - 1][0];
+    }
+
+    it('should register its listeners only once', () => {
+      initMockListeners();
+      initMockListeners();
+
+      expect(mockDebuggerOnEvent).toHaveBeenCalledTimes(1);
+      expect(mockDebuggerOnDetach).toHaveBeenCalledTimes(1);
+      expect(mockTabsOnCreated).toHaveBeenCalledTimes(1);
+    });
+
+    it('should attach to the tab and pause requests to the mocked pattern', async () => {
+      const result = await handleMock({ action: 'add', mock: spec, tabId: 7 });
+      expect(result.success).toBe(true);
+      expect(mockDebuggerAttach).toHaveBeenCalledWith({ tabId: 7 }, '1.3');
+      expect(mockDebuggerSendCommand).toHaveBeenCalledWith({ tabId: 7 }, 'Fetch.enable', {
+        patterns: [{ urlPattern: '*/api/rates*', requestStage: 'Request' }],
+      });
+    });
+
+    it('should use the active tab when no tab is given', async () => {
+      mockTabsQuery.mockResolvedValueOnce([{ id: 3 }]);
+      await handleMock({ action: 'add', mock: spec });
+      expect(mockDebuggerAttach).toHaveBeenCalledWith({ tabId: 3 }, '1.3');
+    });
+
+    it('should fulfill a matching paused request and count the hit', async () => {
+      const listener = requestPausedListener();
+      await handleMock({ action: 'add', mock: spec, tabId: 7 });
+      mockDebuggerSendCommand.mockClear();
+
+      await listener({ tabId: 7 }, 'Fetch.requestPaused', {
+        requestId: 'r1', request: { url: 'https://example.com/api/rates?day=1' },
+      });
+      await vi.waitFor(() => expect(mockDebuggerSendCommand).toHaveBeenCalled());
+
+      expect(mockDebuggerSendCommand).toHaveBeenCalledWith({ tabId: 7 }, 'Fetch.fulfillRequest', {
+        requestId: 'r1',
+        responseCode: 200,
+        responseHeaders: spec.headers,
+        body: spec.body,
+      });
+      const query = await handleMock({ action: 'query', urlPattern: '*/api/rates*' });
+      expect(query.data?.mocks).toEqual([{ urlPattern: '*/api/rates*', hits: 1 }]);
+    });
+
+    it('should continue a paused request no mock matches', async () => {
+      const listener = requestPausedListener();
+      await handleMock({ action: 'add', mock: spec, tabId: 7 });
+      mockDebuggerSendCommand.mockClear();
+
+      await listener({ tabId: 7 }, 'Fetch.requestPaused', {
+        requestId: 'r2', request: { url: 'https://example.com/api/other' },
+      });
+      await vi.waitFor(() => expect(mockDebuggerSendCommand).toHaveBeenCalled());
+
+      expect(mockDebuggerSendCommand).toHaveBeenCalledWith({ tabId: 7 }, 'Fetch.continueRequest', { requestId: 'r2' });
+    });
+
+    it('should replace a mock for the same pattern and reset its hits', async () => {
+      await handleMock({ action: 'add', mock: spec, tabId: 7 });
+      await handleMock({ action: 'add', mock: { ...spec, status: 503 }, tabId: 7 });
+      expect(mockDebuggerAttach).toHaveBeenCalledTimes(1);
+      const query = await handleMock({ action: 'query', urlPattern: spec.urlPattern });
+      expect(query.data?.mocks).toEqual([{ urlPattern: spec.urlPattern, hits: 0 }]);
+    });
+
+    it('should detach when the last mock is removed or on clear', async () => {
+      await handleMock({ action: 'add', mock: spec, tabId: 7 });
+      await handleMock({ action: 'remove', urlPattern: spec.urlPattern });
+      expect(mockDebuggerDetach).toHaveBeenCalledWith({ tabId: 7 });
+
+      mockDebuggerDetach.mockClear();
+      await handleMock({ action: 'add', mock: spec, tabId: 8 });
+      await handleMock({ action: 'clear' });
+      expect(mockDebuggerDetach).toHaveBeenCalledWith({ tabId: 8 });
+      const query = await handleMock({ action: 'query', urlPattern: spec.urlPattern });
+      expect(query.data?.mocks).toEqual([]);
+    });
+
+    it('should report a failed attach', async () => {
+      mockDebuggerAttach.mockRejectedValueOnce(new Error('Another debugger is already attached'));
+      const result = await handleMock({ action: 'add', mock: spec, tabId: 7 });
+      expect(result).toEqual({ success: false, error: 'Another debugger is already attached' });
+    });
+  });
+
   // =========================================================================
   // initWebRequestHandlers
   // =========================================================================
 
   describe('initWebRequestHandlers', () => {
-    it('should initialize auth handler and filter rules', async () => {
+    it('should initialize auth handler, filter rules and capture listeners', async () => {
       await initWebRequestHandlers();
       expect(mockAddListener).toHaveBeenCalled();
       expect(mockGetDynamicRules).toHaveBeenCalled();
+      expect(mockGetSessionRules).toHaveBeenCalled();
+      expect(mockDebuggerOnEvent).toHaveBeenCalled();
+      expect(mockOnBeforeRequest).toHaveBeenCalled();
     });
   });
 });
@@ -0,0 +1,313 @@
+/**
+ * Worker Pool Unit Tests
+ *
+ * Tests for shared/src/worker-pool.ts covering:
+ * - Splitting datasource rows across workers and merging extracts in row order
+ * - Per-worker bridges and DatasourceManager (ExecutionBridges)
+ * - Cleanup deferred until every row is done
+ * - Worker count capped at the row count
+ * - Stopping after a failed row, continueOnError and stop()
+ * - Worker start failures and closing workers
+ * - Per-worker progress updates
+ * - countDatasourceRows
+ */
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createWorkerPool,
+  countDatasourceRows,
+  type PoolWorker,
+  type WorkerProgress,
+  type WorkerPoolOptions,
+} from '@shared/worker-pool';
+import { IMACROS_ERROR_CODES, type CommandContext } from '@shared/executor';
+import {
+  registerNavigationHandlers,
+  setBrowserBridge,
+  type BrowserBridge,
+  type BrowserOperationMessage,
+} from '@shared/commands/navigation';
+import { registerDatasourceHandlers } from '@shared/commands/datasource-handler';
+
+const CSV = 'alpha\nbravo\ncharlie\ndelta\necho\n';
+
+const MACRO = [
+  'SET !DATASOURCE names.csv',
+  'URL GOTO=https://example.com/{{!COL1}}',
+  'TAG POS=1 TYPE=SPAN ATTR=* EXTRACT=TXT',
+].join('\n');
+
+/** Sleep helper for staggering workers */
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('WorkerPool', () => {
+  let visited: Map<number, string[]>;
+  let closed: number[];
+  let delays: Record<number, number>;
+
+  /** Worker whose browser bridge records the URLs it was sent to */
+  function createWorker(worker: number): PoolWorker {
+    visited.set(worker, []);
+    const bridge: BrowserBridge = {
+      sendMessage: vi.fn(async (message: BrowserOperationMessage) => {
+        await sleep(delays[worker] ?? 0);
+        if (message.type === 'navigate') {
+          visited.get(worker)!.push(message.url);
+        }
+        return { success: true };
+      }),
+    };
+    return {
+      bridges: { browser: bridge },
+      setup: (executor) => {
+        registerNavigationHandlers(executor as any);
+        registerDatasourceHandlers((type, handler) => executor.registerHandler(type, handler));
+        // Extract the row's value, read through the worker's own datasource
+        executor.registerHandler('TAG', async (ctx: CommandContext) => {
+          ctx.state.addExtract(ctx.expand('{{!COL1}}'));
+          return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+        });
+      },
+      close: () => {
+        closed.push(worker);
+      },
+    };
+  }
+
+  function options(overrides: Partial<WorkerPoolOptions> = {}): WorkerPoolOptions {
+    return {
+      macro: MACRO,
+      workers: 2,
+      rowCount: 5,
+      createWorker,
+      onDatasourceLoad: () => CSV,
+      ...overrides,
+    };
+  }
+
+  beforeEach(() => {
+    visited = new Map();
+    closed = [];
+    delays = {};
+  });
+
+  afterEach(() => {
+    setBrowserBridge(null as unknown as BrowserBridge);
+  });
+
+  describe('Running rows', () => {
+    it('should run every row once and merge extracts in row order', async () => {
+      // Worker 1 is slow, so worker 2 finishes most rows first
+      delays = { 1: 30, 2: 0 };
+      const result = await createWorkerPool(options()).run();
+
+      expect(result.success).toBe(true);
+      expect(result.rowsCompleted).toBe(5);
+      expect(result.extractData).toEqual(['alpha', 'bravo', 'charlie', 'delta', 'echo']);
+      expect(result.rows.map(r => r.row)).toEqual([1, 2, 3, 4, 5]);
+      expect(new Set(result.rows.map(r => r.worker))).toEqual(new Set([1, 2]));
+    });
+
+    it('should send each worker\'s commands through its own bridge', async () => {
+      const moduleBridge = { sendMessage: vi.fn(async () => ({ success: true })) };
+      setBrowserBridge(moduleBridge);
+
+      const result = await createWorkerPool(options()).run();
+
+      const all = [...visited.get(1)!, ...visited.get(2)!].sort();
+      expect(all).toEqual(['alpha', 'bravo', 'charlie', 'delta', 'echo'].map(n => `https://example.com/${n}`));
+      for (const row of result.rows) {
+        expect(visited.get(row.worker)).toContain(`https://example.com/${row.extractData[0]}`);
+      }
+      expect(moduleBridge.sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should load the datasource once per worker', async () => {
+      const onDatasourceLoad = vi.fn(() => CSV);
+      await createWorkerPool(options({ onDatasourceLoad, workers: 3 })).run();
+
+      // Each row runs SET !DATASOURCE in its worker's executor
+      expect(onDatasourceLoad).toHaveBeenCalledTimes(5);
+      expect(onDatasourceLoad).toHaveBeenCalledWith('names.csv');
+    });
+
+    it('should not start more workers than rows', async () => {
+      const create = vi.fn(createWorker);
+      const result = await createWorkerPool(options({ createWorker: create, workers: 8, rowCount: 2 })).run();
+
+      expect(create).toHaveBeenCalledTimes(2);
+      expect(result.rowsCompleted).toBe(2);
+      expect(closed.sort()).toEqual([1, 2]);
+    });
+
+    it('should run cleanup once per worker after the last row, before closing the tabs', async () => {
+      const events: string[] = [];
+      const rowsVisited = () => [...visited.values()].reduce((sum, urls) => sum + urls.length, 0);
+      const withCleanup = (worker: number): PoolWorker => {
+        const base = createWorker(worker);
+        return {
+          ...base,
+          setup: (executor) => {
+            base.setup!(executor);
+            executor.registerCleanup(async () => {
+              events.push(`cleanup ${worker} after ${rowsVisited()} rows`);
+            });
+          },
+          close: () => {
+            events.push(`close ${worker}`);
+          },
+        };
+      };
+
+      await createWorkerPool(options({ createWorker: withCleanup })).run();
+
+      expect(events).toEqual(['cleanup 1 after 5 rows', 'cleanup 2 after 5 rows', 'close 1', 'close 2']);
+    });
+
+    it('should set !LOOP to the row number', async () => {
+      const result = await createWorkerPool(options({
+        macro: 'TAG POS=1 TYPE=SPAN ATTR=* EXTRACT=TXT',
+        workers: 2,
+        rowCount: 3,
+        createWorker: () => ({
+          bridges: {},
+          setup: (executor) => {
+            executor.registerHandler('TAG', async (ctx: CommandContext) => {
+              ctx.state.addExtract(ctx.expand('{{!LOOP}}/{{!DATASOURCE_LINE}}'));
+              return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+            });
+          },
+        }),
+      })).run();
+
+      expect(result.success).toBe(true);
+      expect(result.extractData).toEqual(['1/1', '2/2', '3/3']);
+    });
+
+    it('should fail for an empty datasource', async () => {
+      const create = vi.fn(createWorker);
+      const result = await createWorkerPool(options({ createWorker: create, rowCount: 0 })).run();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.DATASOURCE_ERROR);
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Errors and stopping', () => {
+    const failOnCharlie = (worker: number): PoolWorker => {
+      const base = createWorker(worker);
+      return {
+        ...base,
+        setup: (executor) => {
+          base.setup!(executor);
+          executor.registerHandler('TAG', async (ctx: CommandContext) => {
+            const name = ctx.expand('{{!COL1}}');
+            if (name === 'charlie') {
+              return { success: false, errorCode: IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND, errorMessage: 'No span' };
+            }
+            ctx.state.addExtract(name);
+            return { success: true, errorCode: IMACROS_ERROR_CODES.OK };
+          });
+        },
+      };
+    };
+
+    it('should stop handing out rows after a row fails', async () => {
+      const result = await createWorkerPool(options({ createWorker: failOnCharlie, workers: 1 })).run();
+
+      expect(result.success).toBe(false);
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.ELEMENT_NOT_FOUND);
+      expect(result.errorRow).toBe(3);
+      expect(result.errorMessage).toBe('Row 3: No span');
+      expect(result.rowsCompleted).toBe(3);
+      expect(result.extractData).toEqual(['alpha', 'bravo']);
+    });
+
+    it('should run the remaining rows with continueOnError', async () => {
+      const result = await createWorkerPool(options({ createWorker: failOnCharlie, continueOnError: true })).run();
+
+      expect(result.success).toBe(false);
+      expect(result.errorRow).toBe(3);
+      expect(result.rowsCompleted).toBe(5);
+      expect(result.extractData).toEqual(['alpha', 'bravo', 'delta', 'echo']);
+    });
+
+    it('should stop every worker on stop()', async () => {
+      delays = { 1: 20, 2: 20 };
+      const pool = createWorkerPool(options());
+      const running = pool.run();
+      await sleep(5);
+      pool.stop();
+      const result = await running;
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.USER_ABORT);
+      expect(result.rowsCompleted).toBeLessThan(5);
+      expect(closed.sort()).toEqual([1, 2]);
+    });
+
+    it('should close started workers when one cannot start', async () => {
+      const result = await createWorkerPool(options({
+        workers: 3,
+        createWorker: async (worker) => {
+          if (worker === 2) {
+            throw new Error('Cannot open tab');
+          }
+          return createWorker(worker);
+        },
+      })).run();
+
+      expect(result.errorCode).toBe(IMACROS_ERROR_CODES.SCRIPT_ERROR);
+      expect(result.errorMessage).toBe('Cannot start worker 2: Cannot open tab');
+      expect(closed.sort()).toEqual([1, 3]);
+    });
+  });
+
+  describe('Progress', () => {
+    it('should report rows and lines per worker and finish with done', async () => {
+      const updates: WorkerProgress[] = [];
+      await createWorkerPool(options({ onWorkerProgress: p => updates.push(p) })).run();
+
+      const running = updates.find(u => u.status === 'running');
+      expect(running).toMatchObject({ totalRows: 5, totalLines: 3 });
+      expect(running?.row).toBeGreaterThanOrEqual(1);
+
+      const done = updates.filter(u => u.status === 'done');
+      expect(done.map(u => u.worker).sort()).toEqual([1, 2]);
+      expect(done.reduce((sum, u) => sum + u.rowsCompleted, 0)).toBe(5);
+    });
+
+    it('should report the failing row', async () => {
+      const updates: WorkerProgress[] = [];
+      await createWorkerPool(options({
+        workers: 1,
+        rowCount: 1,
+        onWorkerProgress: p => updates.push(p),
+        createWorker: () => ({
+          bridges: {},
+          setup: (executor) => {
+            executor.registerHandler('URL', async () => ({
+              success: false,
+              errorCode: IMACROS_ERROR_CODES.PAGE_TIMEOUT,
+              errorMessage: 'Page load timeout',
+            }));
+          },
+        }),
+      })).run();
+
+      expect(updates).toContainEqual(expect.objectContaining({
+        worker: 1, status: 'error', row: 1, errorMessage: 'Page load timeout',
+      }));
+      expect(updates.at(-1)?.status).toBe('error');
+    });
+  });
+
+  describe('countDatasourceRows', () => {
+    it('should count data rows, skipping a header', () => {
+      expect(countDatasourceRows(CSV, 'names.csv')).toBe(5);
+      expect(countDatasourceRows('name\nalpha\nbravo\n', 'names.csv', { hasHeader: true })).toBe(2);
+    });
+
+    it('should throw for an empty datasource', () => {
+      expect(() => countDatasourceRows('', 'empty.csv')).toThrow(/empty/);
+    });
+  });
+});